@@ -49,7 +49,8 @@ describe('PyodideFileSystem', () => {
           body: JSON.stringify({
             path,
             content,
-            isDirectory: false
+            isDirectory: false,
+            encoding: 'utf-8'
           })
         })
       );
@@ -89,7 +90,8 @@ describe('PyodideFileSystem', () => {
         `/api/workspaces/${workspaceId}/pyodide/files/test.py`,
         expect.objectContaining({
           method: 'PUT',
-          body: JSON.stringify({ content })
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content, encoding: 'utf-8' })
         })
       );
     });
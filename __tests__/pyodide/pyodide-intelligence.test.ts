@@ -0,0 +1,62 @@
+import { PyodideCodeIntelligence } from '@/components/pyodide/core/pyodide-intelligence';
+import { PyodideRuntime } from '@/components/pyodide/core/pyodide-runtime';
+
+describe('PyodideCodeIntelligence', () => {
+  const runPython = jest.fn();
+  const installPackage = jest.fn();
+  let runtime: { runPython: jest.Mock; installPackage: jest.Mock; initialized: boolean; executing: boolean };
+  let intelligence: PyodideCodeIntelligence;
+
+  beforeEach(() => {
+    runPython.mockReset();
+    installPackage.mockReset();
+    runtime = { runPython, installPackage, initialized: true, executing: false };
+    intelligence = new PyodideCodeIntelligence(runtime as unknown as PyodideRuntime);
+  });
+
+  it('should load Jedi once and return completions', async () => {
+    const completions = [{ name: 'append', type: 'function', description: 'def append' }];
+    installPackage.mockResolvedValue(true);
+    runPython
+      .mockResolvedValueOnce({ success: true, result: false })
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce({ success: true, result: JSON.stringify(completions) })
+      .mockResolvedValueOnce({ success: true, result: '[]' });
+
+    const position = { line: 2, column: 6 };
+    await expect(intelligence.complete('xs = []\nxs.app', '/workspace/main.py', position)).resolves.toEqual(completions);
+    await intelligence.complete('xs.', '/workspace/main.py', position);
+
+    expect(installPackage).toHaveBeenCalledWith('jedi');
+    expect(runPython).toHaveBeenCalledTimes(4);
+    expect(runPython.mock.calls[2][0]).toContain("__import__('_vibekraft_jedi').complete(");
+    expect(runPython.mock.calls[2][0]).toContain('/workspace/main.py');
+  });
+
+  it('should skip lookups while code is executing', async () => {
+    runtime.executing = true;
+
+    await expect(intelligence.hover('print', '/workspace/main.py', { line: 1, column: 2 })).resolves.toBeNull();
+    expect(runPython).not.toHaveBeenCalled();
+  });
+
+  it('should drop queued lookups replaced by newer ones', async () => {
+    runPython.mockResolvedValue({ success: true, result: '[]' });
+    runPython.mockResolvedValueOnce({ success: true, result: true });
+
+    const first = intelligence.signatures('f(', '/workspace/main.py', { line: 1, column: 2 });
+    const second = intelligence.signatures('f(a,', '/workspace/main.py', { line: 1, column: 4 });
+    await Promise.all([first, second]);
+
+    const lookups = runPython.mock.calls.filter(([code]: [string]) => code.includes('.signatures('));
+    expect(lookups).toHaveLength(1);
+    expect(lookups[0][0]).toContain('f(a,');
+  });
+
+  it('should return empty results when Jedi cannot be installed', async () => {
+    installPackage.mockResolvedValue(false);
+    runPython.mockResolvedValueOnce({ success: true, result: false });
+
+    await expect(intelligence.definitions('x', '/workspace/main.py', { line: 1, column: 0 })).resolves.toEqual([]);
+  });
+});
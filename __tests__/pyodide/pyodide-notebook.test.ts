@@ -0,0 +1,99 @@
+import {
+  createNotebook,
+  executeNotebookCell,
+  isNotebookPath,
+  parseNotebook,
+  serializeNotebook
+} from '@/components/pyodide/core/pyodide-notebook';
+import { PyodideRuntime } from '@/components/pyodide/core/pyodide-runtime';
+
+describe('Pyodide notebooks', () => {
+  describe('Document format', () => {
+    it('should recognize notebook paths', () => {
+      expect(isNotebookPath('analysis.ipynb')).toBe(true);
+      expect(isNotebookPath('notebooks/Report.IPYNB')).toBe(true);
+      expect(isNotebookPath('main.py')).toBe(false);
+    });
+
+    it('should join line arrays when parsing', () => {
+      const notebook = parseNotebook(JSON.stringify({
+        nbformat: 4,
+        nbformat_minor: 5,
+        metadata: {},
+        cells: [
+          {
+            cell_type: 'code',
+            source: ['x = 1\n', 'x'],
+            metadata: {},
+            execution_count: 3,
+            outputs: [{ output_type: 'stream', name: 'stdout', text: ['a\n', 'b\n'] }]
+          },
+          { cell_type: 'markdown', source: '# Title', metadata: {} }
+        ]
+      }));
+
+      const [code, markdown] = notebook.cells;
+      expect(code).toMatchObject({
+        cell_type: 'code',
+        source: 'x = 1\nx',
+        execution_count: 3,
+        outputs: [{ output_type: 'stream', name: 'stdout', text: 'a\nb\n' }]
+      });
+      expect(markdown).toMatchObject({ cell_type: 'markdown', source: '# Title' });
+      expect(code.id).toBeTruthy();
+    });
+
+    it('should round-trip through serialization', () => {
+      const notebook = createNotebook([
+        { cell_type: 'markdown', source: '# Intro\nSome text' },
+        { cell_type: 'code', source: 'print("hi")\n' }
+      ]);
+
+      const text = serializeNotebook(notebook);
+      expect(JSON.parse(text).cells[0].source).toEqual(['# Intro\n', 'Some text']);
+      expect(parseNotebook(text)).toEqual(notebook);
+    });
+
+    it('should treat an empty file as a new notebook', () => {
+      const notebook = parseNotebook('');
+      expect(notebook.nbformat).toBe(4);
+      expect(notebook.cells).toHaveLength(1);
+    });
+
+    it('should reject invalid documents', () => {
+      expect(() => parseNotebook('{')).toThrow('Notebook is not valid JSON');
+      expect(() => parseNotebook('{}')).toThrow('Notebook has no cells');
+      expect(() => parseNotebook(JSON.stringify({ nbformat: 3, cells: [] }))).toThrow('Unsupported notebook format 3');
+    });
+  });
+
+  describe('Cell execution', () => {
+    const runPython = jest.fn();
+    const runtime = { runPython } as unknown as PyodideRuntime;
+
+    beforeEach(() => {
+      runPython.mockReset();
+    });
+
+    it('should install the kernel once and return cell outputs', async () => {
+      const outputs = [{ output_type: 'execute_result', execution_count: 1, data: { 'text/plain': '2' }, metadata: {} }];
+      runPython
+        .mockResolvedValueOnce({ success: true, result: false })
+        .mockResolvedValueOnce({ success: true })
+        .mockResolvedValueOnce({ success: true, result: JSON.stringify(outputs) });
+
+      await expect(executeNotebookCell(runtime, '1 + 1', 1)).resolves.toEqual(outputs);
+      expect(runPython).toHaveBeenCalledTimes(3);
+      expect(runPython.mock.calls[2][0]).toContain('run_cell("1 + 1", 1)');
+    });
+
+    it('should report a stopped run as an error output', async () => {
+      runPython
+        .mockResolvedValueOnce({ success: true, result: true })
+        .mockResolvedValueOnce({ success: false, error: 'Execution timed out', interrupted: true, timedOut: true });
+
+      const [output] = await executeNotebookCell(runtime, 'while True: pass', 2);
+      expect(output).toMatchObject({ output_type: 'error', ename: 'TimeoutError', evalue: 'Execution timed out' });
+    });
+  });
+});
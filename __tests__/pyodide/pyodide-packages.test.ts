@@ -0,0 +1,168 @@
+/**
+ * @jest-environment jsdom
+ */
+
+import {
+  PyodidePackageManager,
+  diffPackageLocks,
+  LOCK_FILE_PATH,
+  PackageLock
+} from '@/components/pyodide/core/pyodide-packages';
+import { PyodideRuntime } from '@/components/pyodide/core/pyodide-runtime';
+import { PyodideFileSystem } from '@/components/pyodide/core/pyodide-filesystem';
+
+function makeLock(packages: PackageLock['packages']): PackageLock {
+  return { lockVersion: 1, pyodideVersion: '0.28.0', pythonVersion: '3.13.2', packages };
+}
+
+const numpy = { name: 'numpy', version: '2.2.5', sha256: 'aaa', source: 'pyodide' as const, url: null };
+const attrs = {
+  name: 'attrs',
+  version: '24.2.0',
+  sha256: 'bbb',
+  source: 'index' as const,
+  url: 'https://files.example/attrs-24.2.0-py3-none-any.whl'
+};
+
+describe('PyodidePackageManager lock file', () => {
+  const runPython = jest.fn();
+  const onRestart = jest.fn(() => jest.fn());
+  const runtime = { runPython, onRestart, initialized: true } as unknown as PyodideRuntime;
+  const fileSystem = {
+    exists: jest.fn(),
+    readFile: jest.fn(),
+    writeFile: jest.fn(),
+    createFile: jest.fn()
+  };
+  let packageManager: PyodidePackageManager;
+
+  // The lock script runs first, everything after it succeeds
+  function mockEnvironment(lock: PackageLock) {
+    runPython.mockImplementation((code: string) => Promise.resolve(
+      code.includes('_lock_environment()')
+        ? { success: true, result: JSON.stringify(lock) }
+        : { success: true, result: '[]' }
+    ));
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    packageManager = new PyodidePackageManager(runtime, fileSystem as unknown as PyodideFileSystem);
+  });
+
+  it('should create the lock file after an install', async () => {
+    mockEnvironment(makeLock([attrs, numpy]));
+    fileSystem.exists.mockResolvedValue(false);
+
+    const success = await packageManager.installPackage('attrs');
+
+    expect(success).toBe(true);
+    expect(runPython.mock.calls[0][0]).toContain('await micropip.install("attrs")');
+    expect(fileSystem.createFile).toHaveBeenCalledWith(
+      LOCK_FILE_PATH,
+      `${JSON.stringify(makeLock([attrs, numpy]), null, 2)}\n`
+    );
+  });
+
+  it('should leave an unchanged lock file alone', async () => {
+    const lock = makeLock([numpy]);
+    mockEnvironment(lock);
+    fileSystem.exists.mockResolvedValue(true);
+    fileSystem.readFile.mockResolvedValue(`${JSON.stringify(lock, null, 2)}\n`);
+
+    await packageManager.uninstallPackage('attrs');
+
+    expect(runPython.mock.calls[0][0]).toContain('micropip.uninstall("attrs")');
+    expect(fileSystem.writeFile).not.toHaveBeenCalled();
+    expect(fileSystem.createFile).not.toHaveBeenCalled();
+  });
+
+  it('should install locked wheels with their digests without resolving dependencies', async () => {
+    mockEnvironment(makeLock([{ ...numpy }, { ...attrs, version: '23.1.0' }]));
+
+    const results = await packageManager.installLocked(makeLock([
+      numpy,
+      attrs,
+      { ...attrs, name: 'six', version: '1.17.0', sha256: null, url: undefined },
+      { ...numpy, name: 'pyyaml', version: '6.0.2' }
+    ]));
+
+    expect(results).toEqual({ attrs: true, six: true, pyyaml: true });
+    const installs = runPython.mock.calls
+      .map((call: string[]) => call[0])
+      .filter((code: string) => code.includes('micropip.install'));
+    expect(installs).toHaveLength(3);
+    expect(installs[0]).toContain(`await _install_locked("attrs", "24.2.0", "${attrs.url}", "bbb", False, True)`);
+    expect(installs[1]).toContain('await _install_locked("six", "1.17.0", "six==1.17.0", None, False, False)');
+    expect(installs[2]).toContain('await _install_locked("pyyaml", "6.0.2", "pyyaml==6.0.2", "aaa", True, False)');
+  });
+
+  it('should report a locked package whose digest does not match as failed', async () => {
+    runPython.mockImplementation((code: string) => Promise.resolve(
+      code.includes('_lock_environment()')
+        ? { success: true, result: JSON.stringify(makeLock([])) }
+        : { success: false, error: 'ValueError: attrs==24.2.0: the wheel has digest ccc, the lock file has bbb' }
+    ));
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await packageManager.installLocked(makeLock([attrs]))).toEqual({ attrs: false });
+  });
+
+  it('should reinstall the locked packages after the runtime restarts', async () => {
+    const lock = makeLock([numpy, attrs]);
+    mockEnvironment(makeLock([numpy]));
+    fileSystem.exists.mockResolvedValue(true);
+    fileSystem.readFile.mockResolvedValue(JSON.stringify(lock));
+
+    await packageManager.initialize();
+    await packageManager.initialize();
+    expect(onRestart).toHaveBeenCalledTimes(1);
+
+    runPython.mockClear();
+    await onRestart.mock.calls[0][0]();
+
+    const installs = runPython.mock.calls
+      .map((call: string[]) => call[0])
+      .filter((code: string) => code.includes('micropip.install'));
+    expect(installs).toHaveLength(1);
+    expect(installs[0]).toContain(attrs.url);
+  });
+
+  it('should reject a lock file of another version', async () => {
+    fileSystem.exists.mockResolvedValue(true);
+    fileSystem.readFile.mockResolvedValue(JSON.stringify({ lockVersion: 2, packages: [] }));
+
+    await expect(packageManager.readLockFile()).rejects.toThrow(`${LOCK_FILE_PATH} is not a version 1 lock file`);
+  });
+
+  it('should keep no lock file without a file system', async () => {
+    const standalone = new PyodidePackageManager(runtime);
+
+    expect(await standalone.readLockFile()).toBeNull();
+    expect(await standalone.writeLockFile()).toBeNull();
+  });
+});
+
+describe('diffPackageLocks', () => {
+  it('should report missing, extra, version and hash differences', () => {
+    const locked = makeLock([attrs, numpy, { name: 'six', version: '1.17.0', sha256: null, source: 'index' }]);
+    const current = makeLock([
+      { ...attrs, sha256: 'ccc' },
+      { ...numpy, version: '2.3.0' },
+      { name: 'jedi', version: '0.19.2', sha256: null, source: 'index' }
+    ]);
+
+    expect(diffPackageLocks(locked, current).map(entry => [entry.name, entry.status])).toEqual([
+      ['attrs', 'hash'],
+      ['jedi', 'extra'],
+      ['numpy', 'version'],
+      ['six', 'missing']
+    ]);
+  });
+
+  it('should not compare hashes that were not recorded', () => {
+    const locked = makeLock([{ ...attrs, sha256: null }]);
+
+    expect(diffPackageLocks(locked, makeLock([attrs]))).toEqual([]);
+  });
+});
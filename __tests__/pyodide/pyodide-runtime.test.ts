@@ -2,41 +2,72 @@
  * @jest-environment jsdom
  */
 
-import { PyodideRuntime } from '@/components/pyodide/core/pyodide-runtime';
-
-// Mock Pyodide
-const mockPyodide = {
+import { TextDecoder, TextEncoder } from 'util';
+import { PyodideRuntime, VARIABLE_PAGE_SIZE } from '@/components/pyodide/core/pyodide-runtime';
+import {
+  createDebugChannel,
+  createStdinChannel,
+  DEBUG_COMMAND,
+  STDIN_EMPTY,
+  STDIN_READY
+} from '@/components/pyodide/core/pyodide-protocol';
+
+// jsdom has no text codecs; the stdin and debugger channels encode through them
+Object.assign(global, { TextEncoder, TextDecoder });
+
+// Mock worker handlers, keyed by RPC method
+const mockHandlers: Record<string, jest.Mock> = {
+  initialize: jest.fn(),
   runPython: jest.fn(),
-  runPythonAsync: jest.fn(),
-  loadPackage: jest.fn(),
-  FS: {
-    mkdirTree: jest.fn(),
-    mount: jest.fn(),
-    syncfs: jest.fn(),
-    writeFile: jest.fn(),
-    readFile: jest.fn(),
-    readdir: jest.fn(),
-    stat: jest.fn(),
-    filesystems: {
-      IDBFS: {}
+  debugPython: jest.fn(),
+  installPackage: jest.fn(),
+  getInstalledPackages: jest.fn(),
+  writeFile: jest.fn(),
+  readFile: jest.fn(),
+  listDirectory: jest.fn(),
+  exists: jest.fn(),
+  syncFileSystem: jest.fn(),
+  getGlobals: jest.fn(),
+  setGlobal: jest.fn(),
+  inspectGlobals: jest.fn(),
+  inspectVariable: jest.fn()
+};
+
+// Mock Worker that answers requests with the handlers above
+class MockWorker {
+  static instances: MockWorker[] = [];
+
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: ((event: { message: string }) => void) | null = null;
+  postMessage = jest.fn(async ({ id, method, params }: { id: number; method: string; params: unknown }) => {
+    try {
+      const result = await mockHandlers[method](params);
+      this.emit({ type: 'response', id, ok: true, result });
+    } catch (error) {
+      this.emit({ type: 'response', id, ok: false, error: (error as Error).message });
     }
-  },
-  globals: {
-    toJs: jest.fn(() => ({})),
-    set: jest.fn()
+  });
+  terminate = jest.fn();
+
+  constructor() {
+    MockWorker.instances.push(this);
   }
-};
 
-// Mock loadPyodide
-jest.mock('pyodide', () => ({
-  loadPyodide: jest.fn(() => Promise.resolve(mockPyodide))
-}));
+  emit(data: unknown) {
+    this.onmessage?.({ data });
+  }
+}
+
+(global as any).Worker = MockWorker;
 
 describe('PyodideRuntime', () => {
   let runtime: PyodideRuntime;
 
   beforeEach(() => {
     jest.clearAllMocks();
+    MockWorker.instances = [];
+    mockHandlers.initialize.mockResolvedValue(undefined);
+    mockHandlers.syncFileSystem.mockResolvedValue(undefined);
     runtime = new PyodideRuntime({
       stdout: jest.fn(),
       stderr: jest.fn()
@@ -51,78 +82,88 @@ describe('PyodideRuntime', () => {
 
   describe('initialization', () => {
     it('should initialize successfully', async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
-
       await runtime.initialize();
 
       expect(runtime.initialized).toBe(true);
       expect(runtime.loading).toBe(false);
+      expect(mockHandlers.initialize).toHaveBeenCalledWith({
+        indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.28.0/full/',
+        fullStdLib: false
+      });
     });
 
     it('should handle initialization errors', async () => {
-      const error = new Error('Failed to load Pyodide');
-      require('pyodide').loadPyodide.mockRejectedValue(error);
+      mockHandlers.initialize.mockRejectedValue(new Error('Failed to load Pyodide'));
 
       await expect(runtime.initialize()).rejects.toThrow('Failed to load Pyodide');
       expect(runtime.initialized).toBe(false);
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled();
     });
 
     it('should not initialize twice', async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
-
       await runtime.initialize();
-      const loadPyodideSpy = require('pyodide').loadPyodide;
-      loadPyodideSpy.mockClear();
-
       await runtime.initialize();
 
-      expect(loadPyodideSpy).not.toHaveBeenCalled();
+      expect(MockWorker.instances).toHaveLength(1);
+      expect(mockHandlers.initialize).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject calls before initialization', async () => {
+      await expect(runtime.runPython('1 + 1')).rejects.toThrow('Pyodide not initialized');
     });
   });
 
   describe('Python execution', () => {
     beforeEach(async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
       await runtime.initialize();
     });
 
     it('should execute Python code successfully', async () => {
-      const result = 'Hello, World!';
-      mockPyodide.runPythonAsync.mockResolvedValue(result);
+      const result = { success: true, result: 'Hello, World!', output: '', stderr: '' };
+      mockHandlers.runPython.mockResolvedValue(result);
 
       const executionResult = await runtime.runPython('print("Hello, World!")');
 
-      expect(executionResult.success).toBe(true);
-      expect(executionResult.result).toBe(result);
-      expect(mockPyodide.runPythonAsync).toHaveBeenCalledWith('print("Hello, World!")');
+      expect(executionResult).toEqual(result);
+      expect(mockHandlers.runPython).toHaveBeenCalledWith({ code: 'print("Hello, World!")' });
     });
 
     it('should handle Python execution errors', async () => {
-      const error = new Error('NameError: name "undefined_var" is not defined');
-      mockPyodide.runPythonAsync.mockRejectedValue(error);
+      const error = 'NameError: name "undefined_var" is not defined';
+      mockHandlers.runPython.mockResolvedValue({ success: false, error });
 
       const executionResult = await runtime.runPython('print(undefined_var)');
 
       expect(executionResult.success).toBe(false);
-      expect(executionResult.error).toBe(error.message);
+      expect(executionResult.error).toBe(error);
     });
 
-    it('should capture stdout and stderr', async () => {
+    it('should return captured figures', async () => {
+      const figures = [{ format: 'png', data: 'iVBORw0KGgo=', source: 'matplotlib', width: 640, height: 480 }];
+      mockHandlers.runPython.mockResolvedValue({ success: true, output: '', stderr: '', figures });
+
+      const executionResult = await runtime.runPython('plt.plot([1, 2]); plt.show()');
+
+      expect(executionResult.figures).toEqual(figures);
+    });
+
+    it('should pass the figure format to the worker', async () => {
+      runtime = new PyodideRuntime({ figureFormat: 'svg' });
+      await runtime.initialize();
+
+      expect(mockHandlers.initialize).toHaveBeenLastCalledWith(expect.objectContaining({ figureFormat: 'svg' }));
+    });
+
+    it('should stream stdout and stderr events', async () => {
       const stdout = jest.fn();
       const stderr = jest.fn();
-      
+
       runtime = new PyodideRuntime({ stdout, stderr });
       await runtime.initialize();
 
-      // Simulate output capture
-      runtime['config'].stdout?.('Hello from stdout');
-      runtime['config'].stderr?.('Error from stderr');
+      const worker = MockWorker.instances[MockWorker.instances.length - 1];
+      worker.emit({ type: 'stdout', text: 'Hello from stdout' });
+      worker.emit({ type: 'stderr', text: 'Error from stderr' });
 
       expect(stdout).toHaveBeenCalledWith('Hello from stdout');
       expect(stderr).toHaveBeenCalledWith('Error from stderr');
@@ -131,25 +172,20 @@ describe('PyodideRuntime', () => {
 
   describe('package management', () => {
     beforeEach(async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
       await runtime.initialize();
     });
 
     it('should install packages successfully', async () => {
-      mockPyodide.runPythonAsync.mockResolvedValue(undefined);
+      mockHandlers.installPackage.mockResolvedValue(true);
 
       const success = await runtime.installPackage('numpy');
 
       expect(success).toBe(true);
-      expect(mockPyodide.runPythonAsync).toHaveBeenCalledWith(
-        expect.stringContaining("await micropip.install('numpy')")
-      );
+      expect(mockHandlers.installPackage).toHaveBeenCalledWith({ packageName: 'numpy' });
     });
 
     it('should handle package installation errors', async () => {
-      mockPyodide.runPythonAsync.mockRejectedValue(new Error('Package not found'));
+      mockHandlers.installPackage.mockResolvedValue(false);
 
       const success = await runtime.installPackage('nonexistent-package');
 
@@ -157,13 +193,10 @@ describe('PyodideRuntime', () => {
     });
 
     it('should get installed packages', async () => {
-      const packages = { numpy: '1.21.0', pandas: '1.3.0' };
-      mockPyodide.runPythonAsync.mockResolvedValue(
-        JSON.stringify([
-          { name: 'numpy', version: '1.21.0', installed: true },
-          { name: 'pandas', version: '1.3.0', installed: true }
-        ])
-      );
+      mockHandlers.getInstalledPackages.mockResolvedValue([
+        { name: 'numpy', version: '1.21.0', installed: true },
+        { name: 'pandas', version: '1.3.0', installed: true }
+      ]);
 
       const installedPackages = await runtime.getInstalledPackages();
 
@@ -178,63 +211,58 @@ describe('PyodideRuntime', () => {
 
   describe('file system operations', () => {
     beforeEach(async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
       await runtime.initialize();
     });
 
     it('should write files', async () => {
-      mockPyodide.FS.mkdirTree.mockReturnValue(undefined);
-      mockPyodide.FS.writeFile.mockReturnValue(undefined);
+      mockHandlers.writeFile.mockResolvedValue(undefined);
 
       await runtime.writeFile('/workspace/test.py', 'print("Hello")');
 
-      expect(mockPyodide.FS.writeFile).toHaveBeenCalledWith(
-        '/workspace/test.py',
-        'print("Hello")',
-        { encoding: 'utf8' }
-      );
+      expect(mockHandlers.writeFile).toHaveBeenCalledWith({
+        path: '/workspace/test.py',
+        content: 'print("Hello")'
+      });
     });
 
-    it('should read files', () => {
+    it('should read files', async () => {
       const content = 'print("Hello")';
-      mockPyodide.FS.readFile.mockReturnValue(content);
+      mockHandlers.readFile.mockResolvedValue(content);
 
-      const result = runtime.readFile('/workspace/test.py');
+      const result = await runtime.readFile('/workspace/test.py');
 
       expect(result).toBe(content);
-      expect(mockPyodide.FS.readFile).toHaveBeenCalledWith(
-        '/workspace/test.py',
-        { encoding: 'utf8' }
-      );
+      expect(mockHandlers.readFile).toHaveBeenCalledWith({ path: '/workspace/test.py' });
+    });
+
+    it('should surface read errors', async () => {
+      mockHandlers.readFile.mockRejectedValue(new Error('No such file or directory'));
+
+      await expect(runtime.readFile('/workspace/missing.py')).rejects.toThrow('No such file or directory');
     });
 
-    it('should list directories', () => {
-      const files = ['test.py', 'data.csv', '.', '..'];
-      mockPyodide.FS.readdir.mockReturnValue(files);
+    it('should list directories', async () => {
+      mockHandlers.listDirectory.mockResolvedValue(['test.py', 'data.csv']);
 
-      const result = runtime.listDirectory('/workspace');
+      const result = await runtime.listDirectory('/workspace');
 
       expect(result).toEqual(['test.py', 'data.csv']);
-      expect(mockPyodide.FS.readdir).toHaveBeenCalledWith('/workspace');
+      expect(mockHandlers.listDirectory).toHaveBeenCalledWith({ path: '/workspace' });
     });
 
-    it('should check file existence', () => {
-      mockPyodide.FS.stat.mockReturnValue({ size: 100 });
+    it('should check file existence', async () => {
+      mockHandlers.exists.mockResolvedValue(true);
 
-      const exists = runtime.exists('/workspace/test.py');
+      const exists = await runtime.exists('/workspace/test.py');
 
       expect(exists).toBe(true);
-      expect(mockPyodide.FS.stat).toHaveBeenCalledWith('/workspace/test.py');
+      expect(mockHandlers.exists).toHaveBeenCalledWith({ path: '/workspace/test.py' });
     });
 
-    it('should handle file not found', () => {
-      mockPyodide.FS.stat.mockImplementation(() => {
-        throw new Error('File not found');
-      });
+    it('should handle file not found', async () => {
+      mockHandlers.exists.mockResolvedValue(false);
 
-      const exists = runtime.exists('/workspace/nonexistent.py');
+      const exists = await runtime.exists('/workspace/nonexistent.py');
 
       expect(exists).toBe(false);
     });
@@ -242,39 +270,333 @@ describe('PyodideRuntime', () => {
 
   describe('globals management', () => {
     beforeEach(async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
       await runtime.initialize();
     });
 
-    it('should get Python globals', () => {
+    it('should get Python globals', async () => {
       const globals = { __name__: '__main__', test_var: 42 };
-      mockPyodide.globals.toJs.mockReturnValue(globals);
+      mockHandlers.getGlobals.mockResolvedValue(globals);
 
-      const result = runtime.getGlobals();
+      const result = await runtime.getGlobals();
 
       expect(result).toEqual(globals);
     });
 
-    it('should set Python global variables', () => {
-      runtime.setGlobal('test_var', 'test_value');
+    it('should set Python global variables', async () => {
+      mockHandlers.setGlobal.mockResolvedValue(undefined);
+
+      await runtime.setGlobal('test_var', 'test_value');
+
+      expect(mockHandlers.setGlobal).toHaveBeenCalledWith({ name: 'test_var', value: 'test_value' });
+    });
+
+    it('should describe user globals for the variable explorer', async () => {
+      const variables = [{
+        name: 'df',
+        type: 'DataFrame',
+        kind: 'dataframe',
+        shape: [250, 3],
+        length: null,
+        dtype: null,
+        preview: 'a, b, c',
+        tabular: true
+      }];
+      mockHandlers.inspectGlobals.mockResolvedValue(variables);
+
+      const result = await runtime.inspectGlobals();
+
+      expect(result).toEqual(variables);
+    });
+
+    it('should read variables a page at a time', async () => {
+      const table = {
+        name: 'df',
+        columns: ['a'],
+        index: ['100'],
+        rows: [['1']],
+        dtypes: ['int64'],
+        offset: 100,
+        totalRows: 250,
+        totalColumns: 1
+      };
+      mockHandlers.inspectVariable.mockResolvedValue(table);
+
+      expect(await runtime.inspectVariable('df', { offset: 100 })).toEqual(table);
+      expect(mockHandlers.inspectVariable).toHaveBeenCalledWith({ name: 'df', offset: 100, limit: VARIABLE_PAGE_SIZE });
+    });
+
+    it('should surface inspection errors', async () => {
+      mockHandlers.inspectVariable.mockRejectedValue(new Error("NameError: name 'missing' is not defined"));
+
+      await expect(runtime.inspectVariable('missing')).rejects.toThrow('NameError');
+    });
+  });
+
+  describe('interruption and limits', () => {
+    afterEach(() => {
+      delete (global as any).crossOriginIsolated;
+    });
+
+    it('should raise KeyboardInterrupt through the interrupt buffer', async () => {
+      (global as any).crossOriginIsolated = true;
+      let interruptBuffer: Int8Array | null = null;
+      mockHandlers.initialize.mockImplementation(async (params: any) => {
+        interruptBuffer = new Int8Array(params.interruptBuffer);
+      });
+      mockHandlers.runPython.mockImplementation(() => new Promise(resolve => {
+        const poll = setInterval(() => {
+          if (interruptBuffer?.[0] === 2) {
+            clearInterval(poll);
+            resolve({ success: false, error: 'KeyboardInterrupt', interrupted: true });
+          }
+        }, 5);
+      }));
+      await runtime.initialize();
+
+      const execution = runtime.runPython('while True: pass');
+      expect(runtime.executing).toBe(true);
+      runtime.interrupt();
+      const result = await execution;
+
+      expect(result.success).toBe(false);
+      expect(result.interrupted).toBe(true);
+      expect(result.timedOut).toBe(false);
+      expect(runtime.executing).toBe(false);
+      expect(MockWorker.instances).toHaveLength(1);
+    });
+
+    it('should restart the worker when interrupts are unavailable', async () => {
+      mockHandlers.runPython.mockImplementation(() => new Promise(() => {}));
+      await runtime.initialize();
+
+      const execution = runtime.runPython('while True: pass');
+      runtime.interrupt();
+      const result = await execution;
+
+      expect(result.interrupted).toBe(true);
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled();
+      expect(MockWorker.instances).toHaveLength(2);
+    });
+
+    it('should report timed out executions', async () => {
+      mockHandlers.runPython.mockImplementation(() => new Promise(() => {}));
+      await runtime.initialize();
+
+      const result = await runtime.runPython('while True: pass', { timeout: 10 });
+
+      expect(result.success).toBe(false);
+      expect(result.interrupted).toBe(true);
+      expect(result.timedOut).toBe(true);
+    });
+
+    it('should pass memory limits to the worker and restart after they are exceeded', async () => {
+      mockHandlers.runPython.mockResolvedValue({ success: false, memoryExceeded: true, error: 'MemoryError' });
+      runtime = new PyodideRuntime({ memoryLimit: 256 });
+      await runtime.initialize();
+
+      const result = await runtime.runPython('x = [0] * 10**9');
+
+      expect(mockHandlers.runPython).toHaveBeenCalledWith({
+        code: 'x = [0] * 10**9',
+        memoryLimitBytes: 256 * 1024 * 1024
+      });
+      expect(result.memoryExceeded).toBe(true);
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled();
+    });
+
+    it('should restart on demand', async () => {
+      mockHandlers.runPython.mockImplementation(() => new Promise(() => {}));
+      await runtime.initialize();
 
-      expect(mockPyodide.globals.set).toHaveBeenCalledWith('test_var', 'test_value');
+      const execution = runtime.runPython('while True: pass');
+      await runtime.restart();
+
+      await expect(execution).rejects.toThrow('Python session was restarted');
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled();
+      expect(MockWorker.instances).toHaveLength(2);
+      expect(runtime.initialized).toBe(true);
+    });
+  });
+
+  describe('stdin', () => {
+    let stdinChannel: { control: Int32Array; data: Uint8Array } | null;
+
+    beforeEach(() => {
+      (global as any).crossOriginIsolated = true;
+      stdinChannel = null;
+      mockHandlers.initialize.mockImplementation(async (params: any) => {
+        stdinChannel = createStdinChannel(params.stdinBuffer);
+      });
+    });
+
+    afterEach(() => {
+      delete (global as any).crossOriginIsolated;
+    });
+
+    // Resolves once the runtime has answered the worker's read
+    const waitForStdin = () => new Promise<string | null>(resolve => {
+      const poll = setInterval(() => {
+        const { control, data } = stdinChannel!;
+        const state = Atomics.load(control, 0);
+        if (state === STDIN_EMPTY) return;
+        clearInterval(poll);
+        resolve(state === STDIN_READY
+          ? new TextDecoder().decode(data.slice(0, Atomics.load(control, 1)))
+          : null);
+      }, 5);
+    });
+
+    it('should answer input() with a line from the stdin callback', async () => {
+      const stdin = jest.fn().mockResolvedValue('Ada');
+      runtime = new PyodideRuntime({ stdin });
+      await runtime.initialize();
+
+      MockWorker.instances[MockWorker.instances.length - 1].emit({ type: 'stdin' });
+
+      await expect(waitForStdin()).resolves.toBe('Ada\n');
+      expect(stdin).toHaveBeenCalledWith(expect.any(AbortSignal));
+    });
+
+    it('should send end of file when the line cannot be written', async () => {
+      runtime = new PyodideRuntime({ stdin: jest.fn().mockResolvedValue('Ada') });
+      await runtime.initialize();
+      const encode = jest.spyOn(TextEncoder.prototype, 'encode').mockImplementationOnce(() => {
+        throw new Error('encoding failed');
+      });
+
+      MockWorker.instances[MockWorker.instances.length - 1].emit({ type: 'stdin' });
+
+      await expect(waitForStdin()).resolves.toBeNull();
+      encode.mockRestore();
+    });
+
+    it('should send end of file without a stdin callback', async () => {
+      await runtime.initialize();
+
+      MockWorker.instances[0].emit({ type: 'stdin' });
+
+      await expect(waitForStdin()).resolves.toBeNull();
+    });
+
+    it('should cancel a pending read when interrupted', async () => {
+      let signal: AbortSignal | undefined;
+      runtime = new PyodideRuntime({
+        stdin: (abortSignal) => {
+          signal = abortSignal;
+          return new Promise(() => {});
+        }
+      });
+      mockHandlers.runPython.mockImplementation(() => new Promise(() => {}));
+      await runtime.initialize();
+
+      runtime.runPython('input()');
+      MockWorker.instances[MockWorker.instances.length - 1].emit({ type: 'stdin' });
+      runtime.interrupt();
+
+      await expect(waitForStdin()).resolves.toBeNull();
+      expect(signal?.aborted).toBe(true);
+    });
+  });
+
+  describe('debugger', () => {
+    let debugChannel: { control: Int32Array; data: Uint8Array } | null;
+
+    const pausedState = {
+      reason: 'breakpoint' as const,
+      path: '/workspace/main.py',
+      line: 2,
+      stack: [{ name: '<module>', path: '/workspace/main.py', line: 2, variables: [{ name: 'x', type: 'int', value: '1' }] }]
+    };
+
+    // Resolves with the command the runtime wrote for the paused worker
+    const waitForCommand = () => new Promise<any>(resolve => {
+      const poll = setInterval(() => {
+        const { control, data } = debugChannel!;
+        if (Atomics.load(control, 0) !== DEBUG_COMMAND) return;
+        clearInterval(poll);
+        resolve(JSON.parse(new TextDecoder().decode(data.slice(0, Atomics.load(control, 1)))));
+      }, 5);
+    });
+
+    beforeEach(() => {
+      (global as any).crossOriginIsolated = true;
+      debugChannel = null;
+      mockHandlers.initialize.mockImplementation(async (params: any) => {
+        debugChannel = createDebugChannel(params.debugBuffer);
+      });
+    });
+
+    afterEach(() => {
+      delete (global as any).crossOriginIsolated;
+    });
+
+    it('should refuse to debug without shared memory', async () => {
+      delete (global as any).crossOriginIsolated;
+      await runtime.initialize();
+
+      expect(runtime.canDebug).toBe(false);
+      await expect(runtime.debugPython('x = 1', '/workspace/main.py', { onPause: jest.fn() }))
+        .rejects.toThrow('Debugging needs a cross-origin isolated page');
+    });
+
+    it('should report pauses and resume with the latest breakpoints', async () => {
+      mockHandlers.debugPython.mockImplementation(() => new Promise(() => {}));
+      await runtime.initialize();
+      const onPause = jest.fn();
+
+      const run = runtime.debugPython('x = 1\nprint(x)', '/workspace/main.py', {
+        breakpoints: { '/workspace/main.py': [2] },
+        onPause
+      });
+      expect(mockHandlers.debugPython).toHaveBeenCalledWith({
+        code: 'x = 1\nprint(x)',
+        path: '/workspace/main.py',
+        breakpoints: { '/workspace/main.py': [2] },
+        stopOnEntry: false,
+        memoryLimitBytes: undefined
+      });
+
+      MockWorker.instances[0].emit({ type: 'debugPaused', state: pausedState });
+      expect(onPause).toHaveBeenCalledWith(pausedState);
+      expect(runtime.debugPaused).toBe(true);
+
+      runtime.setBreakpoints({ '/workspace/main.py': [1, 2] });
+      runtime.resumeDebug('stepOver');
+
+      await expect(waitForCommand()).resolves.toEqual({
+        action: 'stepOver',
+        breakpoints: { '/workspace/main.py': [1, 2] }
+      });
+      expect(runtime.debugPaused).toBe(false);
+
+      await runtime.cleanup();
+      await expect(run).rejects.toThrow('Pyodide runtime was cleaned up');
+    });
+
+    it('should stop a paused run when interrupted', async () => {
+      mockHandlers.debugPython.mockImplementation(() => new Promise(() => {}));
+      await runtime.initialize();
+
+      const run = runtime.debugPython('x = 1', '/workspace/main.py', { stopOnEntry: true, onPause: jest.fn() });
+      MockWorker.instances[0].emit({ type: 'debugPaused', state: pausedState });
+      runtime.interrupt();
+
+      await expect(waitForCommand()).resolves.toMatchObject({ action: 'stop' });
+
+      await runtime.cleanup();
+      await expect(run).resolves.toMatchObject({ success: false, interrupted: true });
     });
   });
 
   describe('cleanup', () => {
     it('should cleanup resources', async () => {
-      mockPyodide.runPython.mockReturnValue(undefined);
-      mockPyodide.loadPackage.mockResolvedValue(undefined);
-      mockPyodide.FS.syncfs.mockImplementation((populate, callback) => callback(null));
-      
       await runtime.initialize();
       expect(runtime.initialized).toBe(true);
 
       await runtime.cleanup();
 
+      expect(mockHandlers.syncFileSystem).toHaveBeenCalled();
+      expect(MockWorker.instances[0].terminate).toHaveBeenCalled();
       expect(runtime.initialized).toBe(false);
       expect(runtime.loading).toBe(false);
     });
@@ -0,0 +1,110 @@
+import {
+  PyodideTestRunner,
+  TestCaseResult,
+  runTestsForAgent
+} from '@/components/pyodide/core/pyodide-test-runner';
+import { PyodideRuntime } from '@/components/pyodide/core/pyodide-runtime';
+
+function testCase(nodeId: string, outcome: TestCaseResult['outcome'], extra: Partial<TestCaseResult> = {}): TestCaseResult {
+  const [path, name] = nodeId.split('::');
+  return {
+    nodeId,
+    path,
+    name,
+    line: 1,
+    outcome,
+    duration: 0.01,
+    message: null,
+    traceback: null,
+    frames: [],
+    ...extra
+  };
+}
+
+describe('PyodideTestRunner', () => {
+  const runPython = jest.fn();
+  const installPackage = jest.fn();
+  const runtime = { runPython, installPackage, initialized: true } as unknown as PyodideRuntime;
+  let runner: PyodideTestRunner;
+
+  const failure = testCase('test_calc.py::test_add', 'failed', {
+    message: 'assert -1 == 3',
+    traceback: 'def test_add():\n>       assert add(1, 2) == 3',
+    frames: [{ path: 'test_calc.py', line: 5 }, { path: 'calc.py', line: 2 }]
+  });
+
+  const runOutput = (tests: TestCaseResult[], exitCode: number = 1) => ({
+    success: true,
+    output: 'pytest output',
+    result: JSON.stringify({ exitCode, duration: 0.2, tests })
+  });
+
+  beforeEach(() => {
+    runPython.mockReset();
+    installPackage.mockReset();
+    installPackage.mockResolvedValue(true);
+    runner = new PyodideTestRunner(runtime);
+  });
+
+  it('should install pytest once and return structured results', async () => {
+    runPython
+      .mockResolvedValueOnce({ success: true, result: false })
+      .mockResolvedValueOnce({ success: true })
+      .mockResolvedValueOnce(runOutput([testCase('test_calc.py::test_ok', 'passed'), failure]));
+
+    const result = await runner.run({ targets: ['test_calc.py'], keyword: 'add or ok' });
+
+    expect(installPackage).toHaveBeenCalledWith('pytest');
+    expect(runPython.mock.calls[2][0]).toContain("__import__('_vibekraft_pytest').run(");
+    expect(runPython.mock.calls[2][0]).toContain('[\\"test_calc.py\\",\\"-k\\",\\"add or ok\\"]');
+    expect(result.success).toBe(false);
+    expect(result.summary).toEqual({ total: 2, passed: 1, failed: 1, errors: 0, skipped: 0 });
+    expect(result.output).toBe('pytest output');
+    expect(runner.failedTests).toEqual(['test_calc.py::test_add']);
+  });
+
+  it('should rerun only failed tests and merge the results', async () => {
+    runPython
+      .mockResolvedValueOnce({ success: true, result: true })
+      .mockResolvedValueOnce(runOutput([testCase('test_calc.py::test_ok', 'passed'), failure]))
+      .mockResolvedValueOnce(runOutput([testCase('test_calc.py::test_add', 'passed')], 0));
+
+    await runner.run();
+    const result = await runner.rerunFailed();
+
+    expect(runPython.mock.calls[2][0]).toContain('[\\"test_calc.py::test_add\\"]');
+    expect(result.success).toBe(true);
+    expect(result.tests.map(test => test.outcome)).toEqual(['passed', 'passed']);
+  });
+
+  it('should refuse to rerun when nothing failed', async () => {
+    await expect(runner.rerunFailed()).rejects.toThrow('No failed tests to rerun');
+  });
+
+  it('should report a run that did not finish', async () => {
+    runPython
+      .mockResolvedValueOnce({ success: true, result: true })
+      .mockResolvedValueOnce({ success: false, error: 'Execution timed out', interrupted: true, timedOut: true });
+
+    const result = await runner.run();
+    expect(result.success).toBe(false);
+    expect(result.error).toBe('Execution timed out');
+    expect(result.tests).toEqual([]);
+  });
+
+  it('should summarize failures for agents', async () => {
+    runPython
+      .mockResolvedValueOnce({ success: true, result: true })
+      .mockResolvedValueOnce(runOutput([testCase('test_calc.py::test_ok', 'passed'), failure]));
+
+    const report = await runTestsForAgent(runner, {});
+    expect(report.success).toBe(false);
+    expect(report.failures).toEqual([{
+      nodeId: 'test_calc.py::test_add',
+      outcome: 'failed',
+      message: 'assert -1 == 3',
+      location: 'calc.py:2',
+      traceback: failure.traceback
+    }]);
+  });
+});
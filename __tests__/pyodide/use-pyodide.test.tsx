@@ -14,6 +14,7 @@ jest.mock('@/components/pyodide/core/pyodide-state-manager');
 const mockRuntime = {
   initialize: jest.fn(),
   runPython: jest.fn(),
+  interrupt: jest.fn(),
   cleanup: jest.fn(),
   initialized: true,
   loading: false
@@ -35,7 +36,11 @@ const mockPackageManager = {
   installPackage: jest.fn(),
   uninstallPackage: jest.fn(),
   searchPackages: jest.fn(),
-  getInstalledPackages: jest.fn(() => Promise.resolve([]))
+  getInstalledPackages: jest.fn(() => Promise.resolve([])),
+  readLockFile: jest.fn(() => Promise.resolve(null)),
+  writeLockFile: jest.fn(),
+  installLocked: jest.fn(),
+  diffEnvironment: jest.fn(() => Promise.resolve(null))
 };
 
 const mockStateManager = {
@@ -145,7 +150,7 @@ describe('usePyodide', () => {
       });
 
       expect(executionResult).toEqual(mockResult);
-      expect(mockRuntime.runPython).toHaveBeenCalledWith('print("Hello, World!")');
+      expect(mockRuntime.runPython).toHaveBeenCalledWith('print("Hello, World!")', undefined);
     });
 
     it('should handle Python execution errors', async () => {
@@ -182,6 +187,41 @@ describe('usePyodide', () => {
         'Pyodide runtime not initialized'
       );
     });
+
+    it('should pass execution limits to the runtime', async () => {
+      mockRuntime.runPython.mockResolvedValue({ success: true, output: '', stderr: '' });
+
+      const { result } = renderHook(() =>
+        usePyodide({ workspaceId, autoInitialize: true })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isInitialized).toBe(true);
+      });
+
+      await act(async () => {
+        await result.current.runPython('main()', { timeout: 5000, memoryLimit: 256 });
+      });
+
+      expect(mockRuntime.runPython).toHaveBeenCalledWith('main()', { timeout: 5000, memoryLimit: 256 });
+      expect(result.current.isExecuting).toBe(false);
+    });
+
+    it('should interrupt running code', async () => {
+      const { result } = renderHook(() =>
+        usePyodide({ workspaceId, autoInitialize: true })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isInitialized).toBe(true);
+      });
+
+      act(() => {
+        result.current.interrupt();
+      });
+
+      expect(mockRuntime.interrupt).toHaveBeenCalled();
+    });
   });
 
   describe('file operations', () => {
@@ -355,6 +395,48 @@ describe('usePyodide', () => {
       expect(results).toEqual(searchResults);
       expect(mockPackageManager.searchPackages).toHaveBeenCalledWith('numpy');
     });
+
+    it('should report where the runtime departs from the lock file', async () => {
+      const diff = [{
+        name: 'attrs',
+        status: 'missing',
+        locked: { name: 'attrs', version: '24.2.0', sha256: null, source: 'index' },
+        installed: null
+      }];
+      mockPackageManager.diffEnvironment.mockResolvedValue(diff);
+
+      const { result } = renderHook(() => 
+        usePyodide({ workspaceId, autoInitialize: true })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isInitialized).toBe(true);
+      });
+
+      expect(PyodidePackageManager).toHaveBeenCalledWith(mockRuntime, mockFileSystem);
+      expect(result.current.environmentDiff).toEqual(diff);
+    });
+
+    it('should install the packages the lock file pins', async () => {
+      const lock = { lockVersion: 1, pyodideVersion: '0.28.0', pythonVersion: '3.13.2', packages: [] };
+      mockPackageManager.readLockFile.mockResolvedValue(lock);
+      mockPackageManager.diffEnvironment.mockResolvedValue([]);
+
+      const { result } = renderHook(() => 
+        usePyodide({ workspaceId, autoInitialize: true })
+      );
+
+      await waitFor(() => {
+        expect(result.current.isInitialized).toBe(true);
+      });
+
+      await act(async () => {
+        await result.current.syncToLockFile();
+      });
+
+      expect(mockPackageManager.installLocked).toHaveBeenCalledWith(lock);
+      expect(result.current.environmentDiff).toEqual([]);
+    });
   });
 
   describe('state management', () => {
@@ -0,0 +1,158 @@
+import { WorkspaceBlobStore } from '@/lib/workspace/services/blob-store';
+import { storageService } from '@/lib/infrastructure/services/storage';
+import { db } from '@/lib/db';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    contentBlob: {
+      updateMany: jest.fn(),
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/infrastructure/services/storage', () => ({
+  storageService: {
+    uploadObject: jest.fn(),
+    deleteObject: jest.fn(),
+  },
+}));
+
+jest.mock('@/lib/config/environment', () => ({
+  config: { storage: { bucketName: 'workspace-files' } },
+}));
+
+const contentBlob = db.contentBlob as unknown as Record<string, jest.Mock>;
+const storage = storageService as unknown as Record<string, jest.Mock>;
+
+describe('WorkspaceBlobStore', () => {
+  const blobStore = new WorkspaceBlobStore('workspace-files');
+  const hash = WorkspaceBlobStore.hashContent('print("hi")');
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    storage.uploadObject.mockResolvedValue({ success: true });
+    storage.deleteObject.mockResolvedValue({ success: true });
+  });
+
+  describe('acquire', () => {
+    it('should take a reference on stored content without uploading it', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 1 });
+
+      const reference = await blobStore.acquire('print("hi")');
+
+      expect(reference).toEqual({ hash, size: 11, storageKey: `blobs/${hash.slice(0, 2)}/${hash}` });
+      expect(contentBlob.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { hash, refCount: { gte: 0 } },
+      }));
+      expect(storage.uploadObject).not.toHaveBeenCalled();
+      expect(contentBlob.create).not.toHaveBeenCalled();
+    });
+
+    it('should upload new content before creating its row', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 0 });
+      contentBlob.create.mockResolvedValue({});
+
+      await blobStore.acquire('print("hi")');
+
+      expect(storage.uploadObject).toHaveBeenCalledTimes(1);
+      expect(contentBlob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ hash, size: 11, refCount: 1 }),
+      });
+      expect(storage.uploadObject.mock.invocationCallOrder[0])
+        .toBeLessThan(contentBlob.create.mock.invocationCallOrder[0]);
+    });
+
+    it('should count a reference on a row a concurrent writer created', async () => {
+      contentBlob.updateMany
+        .mockResolvedValueOnce({ count: 0 })
+        .mockResolvedValueOnce({ count: 1 });
+      contentBlob.create.mockRejectedValue(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }));
+
+      await blobStore.acquire('print("hi")');
+
+      expect(contentBlob.updateMany).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not store content when the upload fails', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 0 });
+      storage.uploadObject.mockResolvedValue({ success: false, error: 'bucket unavailable' });
+
+      await expect(blobStore.acquire('print("hi")')).rejects.toThrow('Failed to store blob: bucket unavailable');
+      expect(contentBlob.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('release', () => {
+    it('should never drop a count below zero', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 0 });
+
+      await blobStore.release(hash);
+
+      expect(contentBlob.updateMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: { hash, refCount: { gt: 0 } },
+      }));
+    });
+
+    it('should ignore records without content', async () => {
+      await blobStore.release('');
+
+      expect(contentBlob.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('collectGarbage', () => {
+    const blob = { hash, size: BigInt(11), storageKey: `blobs/${hash.slice(0, 2)}/${hash}`, refCount: 0 };
+
+    beforeEach(() => {
+      contentBlob.findMany.mockResolvedValue([blob]);
+    });
+
+    it('should claim a blob, then delete its object and row', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 1 });
+      contentBlob.deleteMany.mockResolvedValue({ count: 1 });
+
+      const result = await blobStore.collectGarbage(0);
+
+      expect(result).toEqual({ deletedCount: 1, freedBytes: 11, failed: [] });
+      expect(contentBlob.updateMany).toHaveBeenCalledWith({
+        where: { hash, refCount: { lte: 0 } },
+        data: { refCount: -1 },
+      });
+      expect(storage.deleteObject).toHaveBeenCalledWith('workspace-files', blob.storageKey);
+      expect(contentBlob.deleteMany).toHaveBeenCalledWith({ where: { hash, refCount: -1 } });
+      expect(storage.deleteObject.mock.invocationCallOrder[0])
+        .toBeLessThan(contentBlob.deleteMany.mock.invocationCallOrder[0]);
+    });
+
+    it('should keep a blob that was acquired after it was listed', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 0 });
+
+      const result = await blobStore.collectGarbage(0);
+
+      expect(result.deletedCount).toBe(0);
+      expect(storage.deleteObject).not.toHaveBeenCalled();
+      expect(contentBlob.deleteMany).not.toHaveBeenCalled();
+    });
+
+    it('should keep the claimed row when the object cannot be deleted', async () => {
+      contentBlob.updateMany.mockResolvedValue({ count: 1 });
+      storage.deleteObject.mockResolvedValue({ success: false, error: 'timeout' });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await blobStore.collectGarbage(0);
+
+      expect(result).toEqual({ deletedCount: 0, freedBytes: 0, failed: [hash] });
+      expect(contentBlob.deleteMany).not.toHaveBeenCalled();
+    });
+  });
+
+  it('should not report a blob that is being collected as stored', async () => {
+    contentBlob.findUnique.mockResolvedValue({ refCount: -1 });
+
+    expect(await blobStore.has(hash)).toBe(false);
+  });
+});
@@ -0,0 +1,90 @@
+import { WorkspaceFileStorage } from '@/lib/workspace/services/file-storage';
+import { WorkspaceBlobStore } from '@/lib/workspace/services/blob-store';
+import { indexQueue } from '@/lib/workspace/services/index-queue';
+import { db } from '@/lib/db';
+
+jest.mock('@/lib/db', () => {
+  const tx = {
+    workspaceFile: { create: jest.fn(), update: jest.fn() },
+    workspaceFileRevision: { create: jest.fn() },
+  };
+  return {
+    tx,
+    db: {
+      workspace: { findUnique: jest.fn().mockResolvedValue({ type: 'WEBVM' }) },
+      workspaceFile: { findFirst: jest.fn() },
+      workspaceFileRevision: { findMany: jest.fn() },
+      $transaction: jest.fn(async (write: (client: typeof tx) => Promise<unknown>) => write(tx)),
+    },
+  };
+});
+
+jest.mock('@/lib/workspace/services/storage-quota', () => ({
+  WorkspaceStorageQuota: jest.fn().mockImplementation(() => ({
+    reserve: (_bytes: number, write: () => Promise<unknown>) => write(),
+  })),
+}));
+
+jest.mock('@/lib/workspace/services/index-queue', () => ({
+  indexQueue: { enqueueInBackground: jest.fn() },
+}));
+
+jest.mock('@/lib/infrastructure/services/storage', () => ({ storageService: {} }));
+
+jest.mock('@/lib/config/environment', () => ({
+  config: { storage: { bucketName: 'workspace-files' }, trash: { retentionDays: 30 } },
+}));
+
+const { tx } = jest.requireMock('@/lib/db') as {
+  tx: Record<'workspaceFile' | 'workspaceFileRevision', Record<string, jest.Mock>>;
+};
+const workspaceFile = db.workspaceFile as unknown as Record<string, jest.Mock>;
+const workspaceFileRevision = db.workspaceFileRevision as unknown as Record<string, jest.Mock>;
+
+describe('WorkspaceFileStorage', () => {
+  const storage = new WorkspaceFileStorage('ws-1', 'workspace-files');
+  const blobStore = (storage as any).blobStore as WorkspaceBlobStore;
+  let acquire: jest.SpyInstance;
+  let release: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    acquire = jest.spyOn(blobStore, 'acquire').mockResolvedValue({ hash: 'hash-1', storageKey: 'blobs/ha/hash-1' } as any);
+    release = jest.spyOn(blobStore, 'release').mockResolvedValue(undefined);
+    jest.spyOn(blobStore, 'has').mockResolvedValue(true);
+    tx.workspaceFile.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'file-1', ...data }));
+    tx.workspaceFile.update.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'file-1', path: 'main.py', ...data }));
+  });
+
+  it('should record the first revision with the new file', async () => {
+    await storage.storeFile('main.py', 'print(1)\n');
+
+    expect(acquire).toHaveBeenCalledTimes(2);
+    expect(tx.workspaceFileRevision.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ fileId: 'file-1', version: 1, hash: 'hash-1', storageKey: 'blobs/ha/hash-1' }),
+    });
+    expect(release).not.toHaveBeenCalled();
+    expect(indexQueue.enqueueInBackground).toHaveBeenCalledWith('ws-1', ['main.py']);
+  });
+
+  it('should release both references when the revision cannot be written', async () => {
+    tx.workspaceFileRevision.create.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(storage.storeFile('main.py', 'print(1)\n')).rejects.toThrow('write failed');
+
+    expect(release.mock.calls).toEqual([['hash-1'], ['hash-1']]);
+    expect(indexQueue.enqueueInBackground).not.toHaveBeenCalled();
+  });
+
+  it('should keep the previous content when an update fails', async () => {
+    workspaceFile.findFirst.mockResolvedValue({
+      id: 'file-1', path: 'main.py', hash: 'old-hash', content: null, isDirectory: false, version: 1, size: 4, metadata: {},
+    });
+    tx.workspaceFile.update.mockRejectedValueOnce(new Error('write failed'));
+
+    await expect(storage.updateFile('main.py', 'print(2)\n')).rejects.toThrow('write failed');
+
+    expect(release.mock.calls).toEqual([['hash-1'], ['hash-1']]);
+    expect(workspaceFileRevision.findMany).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,162 @@
+import { createCipheriv, randomBytes } from 'crypto';
+import { Readable } from 'stream';
+import {
+  SNAPSHOT_ARCHIVE_VERSION,
+  SnapshotArchiveOptions,
+  SnapshotManifestEntry,
+  getOrganizationSnapshotKey,
+  readSnapshotArchive,
+  writeSnapshotArchive,
+} from '@/lib/workspace/services/snapshot-archive';
+import { CompressionType, WorkspaceFile, WorkspaceState } from '@/lib/workspace/types';
+
+jest.mock('@/lib/config/environment', () => ({
+  config: { snapshots: { encryptionKey: 'test-master-key' } },
+}));
+
+function makeFile(path: string, extra: Partial<WorkspaceFile> = {}): WorkspaceFile {
+  return {
+    id: path,
+    workspaceId: 'ws-1',
+    path,
+    name: path.split('/').pop()!,
+    type: 'text',
+    size: 0,
+    mimeType: 'text/plain',
+    encoding: 'utf-8',
+    hash: `hash-${path}`,
+    isDirectory: false,
+    permissions: {} as WorkspaceFile['permissions'],
+    metadata: { language: 'python' } as WorkspaceFile['metadata'],
+    version: 1,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastAccessedAt: new Date(),
+    ...extra,
+  } as WorkspaceFile;
+}
+
+const state = { workspaceId: 'ws-1', sessionId: 'session-1', openFiles: [] } as unknown as WorkspaceState;
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function readAll(archive: Buffer, options: SnapshotArchiveOptions) {
+  const files = new Map<string, Buffer>();
+  const contents = await readSnapshotArchive(Readable.from([archive]), options, async (entry: SnapshotManifestEntry, content: Buffer) => {
+    files.set(entry.path, content);
+  });
+  return { ...contents, files };
+}
+
+describe('snapshot archives', () => {
+  const files = [
+    makeFile('src', { isDirectory: true, type: 'directory' }),
+    makeFile('src/main.py', { size: 12 }),
+    makeFile('src/data.bin', { size: 3, type: 'binary' }),
+  ];
+  const contents: Record<string, Buffer> = {
+    'src/main.py': Buffer.from('print("hi")\n'),
+    'src/data.bin': Buffer.from([0, 1, 2]),
+  };
+  const readContent = async (file: WorkspaceFile) => contents[file.path];
+
+  function write(options: SnapshotArchiveOptions, archiveFiles = files, read = readContent) {
+    return collect(writeSnapshotArchive('ws-1', state, archiveFiles, read, options));
+  }
+
+  it.each(['none', 'gzip', 'brotli'] as const)('should round-trip with %s compression', async (compression: CompressionType) => {
+    const archive = await write({ compression });
+    const { manifest, state: restoredState, files: restored } = await readAll(archive, { compression });
+
+    expect(manifest.formatVersion).toBe(SNAPSHOT_ARCHIVE_VERSION);
+    expect(manifest.files.map(entry => entry.path)).toEqual(['src', 'src/main.py', 'src/data.bin']);
+    expect(restoredState).toEqual(state);
+    expect(restored.get('src/main.py')?.toString('utf-8')).toBe('print("hi")\n');
+    expect(restored.get('src/data.bin')).toEqual(Buffer.from([0, 1, 2]));
+    expect(restored.has('src')).toBe(false);
+  });
+
+  it('should read file content only as the archive is consumed', async () => {
+    const large = Array.from({ length: 4 }, (_, index) => makeFile(`large-${index}.bin`, { size: 256 * 1024 }));
+    const read = jest.fn(async () => Buffer.alloc(256 * 1024));
+    const stream = writeSnapshotArchive('ws-1', state, large, read, { compression: 'none' });
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(read.mock.calls.length).toBeLessThan(large.length);
+
+    await collect(stream);
+    expect(read).toHaveBeenCalledTimes(large.length);
+  });
+
+  it('should fail the stream when file content cannot be read', async () => {
+    const failing = async () => {
+      throw new Error('blob missing');
+    };
+
+    await expect(write({ compression: 'gzip' }, files, failing)).rejects.toThrow('blob missing');
+  });
+
+  it('should decrypt with the organization key only', async () => {
+    const { key } = getOrganizationSnapshotKey('org-1');
+    const archive = await write({ compression: 'gzip', encryptionKey: key });
+
+    expect(archive.includes(Buffer.from('print("hi")'))).toBe(false);
+    const { files: restored } = await readAll(archive, { compression: 'gzip', encryptionKey: key });
+    expect(restored.get('src/main.py')?.toString('utf-8')).toBe('print("hi")\n');
+
+    await expect(readAll(archive, {
+      compression: 'gzip',
+      encryptionKey: getOrganizationSnapshotKey('org-2').key,
+    })).rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+  });
+
+  it('should encrypt files larger than one record', async () => {
+    const { key } = getOrganizationSnapshotKey('org-1');
+    const large = randomBytes(200 * 1024);
+    const largeFile = makeFile('large.bin', { size: large.length, type: 'binary' });
+    const archive = await write({ compression: 'none', encryptionKey: key }, [largeFile], async () => large);
+
+    const { files: restored } = await readAll(archive, { compression: 'none', encryptionKey: key });
+    expect(restored.get('large.bin')?.equals(large)).toBe(true);
+  });
+
+  it('should reject a truncated encrypted archive', async () => {
+    const { key } = getOrganizationSnapshotKey('org-1');
+    const archive = await write({ compression: 'none', encryptionKey: key });
+
+    await expect(readAll(archive.subarray(0, 20), {
+      compression: 'none',
+      encryptionKey: key,
+    })).rejects.toMatchObject({ code: 'INVALID_ARCHIVE' });
+  });
+
+  it('should reject an encrypted archive cut at a record boundary', async () => {
+    const { key } = getOrganizationSnapshotKey('org-1');
+    const large = randomBytes(200 * 1024);
+    const largeFile = makeFile('large.bin', { size: large.length, type: 'binary' });
+    const archive = await write({ compression: 'none', encryptionKey: key }, [largeFile], async () => large);
+
+    // Header (13 bytes) and the first two sealed records
+    const cut = archive.subarray(0, 13 + 2 * (64 * 1024 + 16));
+    await expect(readAll(cut, { compression: 'none', encryptionKey: key }))
+      .rejects.toMatchObject({ code: 'DECRYPTION_FAILED' });
+  });
+
+  it('should read archives encrypted as a single message', async () => {
+    const { key } = getOrganizationSnapshotKey('org-1');
+    const plain = await write({ compression: 'gzip' });
+
+    const iv = randomBytes(12);
+    const cipher = createCipheriv('aes-256-gcm', key, iv, { authTagLength: 16 });
+    const legacy = Buffer.concat([
+      Buffer.from('VKSA'), Buffer.from([1]), iv,
+      cipher.update(plain), cipher.final(), cipher.getAuthTag(),
+    ]);
+
+    const { files: restored } = await readAll(legacy, { compression: 'gzip', encryptionKey: key });
+    expect(restored.get('src/main.py')?.toString('utf-8')).toBe('print("hi")\n');
+  });
+});
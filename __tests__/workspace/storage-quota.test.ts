@@ -0,0 +1,184 @@
+import { WorkspaceStorageQuota } from '@/lib/workspace/services/storage-quota';
+import { db } from '@/lib/db';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    workspace: { findUnique: jest.fn() },
+    organization: { findUnique: jest.fn() },
+    workspaceFile: { aggregate: jest.fn() },
+    workspaceTrashItem: { aggregate: jest.fn() },
+    workspaceSnapshot: { aggregate: jest.fn() },
+    workspacePersistence: {
+      findUnique: jest.fn(),
+      aggregate: jest.fn(),
+      updateMany: jest.fn(),
+      upsert: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/config/environment', () => ({
+  config: {
+    quotas: { workspaceBytes: 1000, organizationBytes: 5000, softLimitRatio: 0.8 },
+  },
+}));
+
+const mocked = db as unknown as Record<string, Record<string, jest.Mock>>;
+const persistence = mocked.workspacePersistence;
+
+describe('WorkspaceStorageQuota', () => {
+  let quota: WorkspaceStorageQuota;
+  // Counted bytes of this workspace and of the organization's other workspaces
+  let counted: number;
+  let otherWorkspaces: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    quota = new WorkspaceStorageQuota('ws-1');
+    counted = 0;
+    otherWorkspaces = 0;
+
+    mocked.workspace.findUnique.mockResolvedValue({
+      id: 'ws-1',
+      project: { organizationId: 'org-1' },
+      persistence: { storageQuota: null },
+    });
+    mocked.organization.findUnique.mockResolvedValue({ storageQuota: null });
+
+    persistence.updateMany.mockImplementation(async ({ data }: { data: { storageSize: { increment: number } } }) => {
+      counted += data.storageSize.increment;
+      return { count: 1 };
+    });
+    persistence.findUnique.mockImplementation(async () => ({ storageSize: BigInt(counted) }));
+    persistence.aggregate.mockImplementation(async () => ({ _sum: { storageSize: BigInt(counted + otherWorkspaces) } }));
+  });
+
+  describe('reserve', () => {
+    it('should count the bytes of a write within the quota', async () => {
+      counted = 600;
+      const write = jest.fn(async () => 'written');
+
+      expect(await quota.reserve(400, write)).toBe('written');
+      expect(write).toHaveBeenCalledTimes(1);
+      expect(counted).toBe(1000);
+    });
+
+    it('should reject a write past the workspace quota and take its bytes back', async () => {
+      counted = 600;
+      const write = jest.fn();
+
+      await expect(quota.reserve(401, write)).rejects.toMatchObject({
+        code: 'WORKSPACE_QUOTA_EXCEEDED',
+        usage: expect.objectContaining({ used: 1001, hardLimit: 1000, status: 'exceeded' }),
+      });
+      expect(write).not.toHaveBeenCalled();
+      expect(counted).toBe(600);
+    });
+
+    it('should reject a write past the organization quota', async () => {
+      counted = 100;
+      otherWorkspaces = 4800;
+
+      await expect(quota.reserve(200, jest.fn())).rejects.toMatchObject({ code: 'ORGANIZATION_QUOTA_EXCEEDED' });
+      expect(counted).toBe(100);
+    });
+
+    it('should not let concurrent writes pass the quota together', async () => {
+      counted = 600;
+
+      const results = await Promise.allSettled([
+        quota.reserve(300, async () => 'first'),
+        quota.reserve(300, async () => 'second'),
+      ]);
+
+      expect(results.filter(result => result.status === 'fulfilled').length).toBeLessThanOrEqual(1);
+      expect(counted).toBeLessThanOrEqual(1000);
+    });
+
+    it('should take the bytes back when the write fails', async () => {
+      counted = 100;
+
+      await expect(quota.reserve(50, async () => {
+        throw new Error('write failed');
+      })).rejects.toThrow('write failed');
+      expect(counted).toBe(100);
+    });
+
+    it('should count freed space only after the write succeeds', async () => {
+      counted = 1200;
+      const write = jest.fn(async () => {
+        expect(counted).toBe(1200);
+      });
+
+      await quota.reserve(-300, write);
+
+      expect(counted).toBe(900);
+      expect(mocked.workspace.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should measure usage when the workspace has no counter yet', async () => {
+      persistence.updateMany.mockResolvedValueOnce({ count: 0 });
+      mocked.workspaceFile.aggregate.mockResolvedValue({ _sum: { size: BigInt(300) } });
+      mocked.workspaceTrashItem.aggregate.mockResolvedValue({ _sum: { size: BigInt(50) } });
+      mocked.workspaceSnapshot.aggregate.mockResolvedValue({ _sum: { archiveSize: null } });
+      persistence.upsert.mockImplementation(async ({ create }: { create: { storageSize: number } }) => {
+        counted = create.storageSize;
+      });
+
+      await quota.reserve(100, async () => undefined);
+
+      expect(persistence.upsert).toHaveBeenCalledWith({
+        where: { workspaceId: 'ws-1' },
+        create: { workspaceId: 'ws-1', storageSize: 350 },
+        update: { storageSize: 350 },
+      });
+      expect(counted).toBe(450);
+    });
+  });
+
+  describe('assertWithinQuota', () => {
+    it('should check a batch without counting it', async () => {
+      counted = 500;
+
+      await expect(quota.assertWithinQuota(500)).resolves.toBeUndefined();
+      await expect(quota.assertWithinQuota(501)).rejects.toMatchObject({ code: 'WORKSPACE_QUOTA_EXCEEDED' });
+      expect(persistence.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should use the configured workspace limit', async () => {
+      mocked.workspace.findUnique.mockResolvedValue({
+        id: 'ws-1',
+        project: { organizationId: 'org-1' },
+        persistence: { storageQuota: BigInt(2000) },
+      });
+
+      await expect(quota.assertWithinQuota(1500)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getUsage', () => {
+    it('should report soft and hard limit status', async () => {
+      mocked.workspaceFile.aggregate.mockResolvedValue({ _sum: { size: BigInt(700) } });
+      mocked.workspaceTrashItem.aggregate.mockResolvedValue({ _sum: { size: BigInt(50) } });
+      mocked.workspaceSnapshot.aggregate.mockResolvedValue({ _sum: { archiveSize: BigInt(100) } });
+
+      const usage = await quota.getUsage();
+
+      expect(usage.categories).toEqual({ files: 700, trash: 50, snapshots: 100 });
+      expect(usage.workspace).toEqual({ used: 850, softLimit: 800, hardLimit: 1000, percentUsed: 85, status: 'warning' });
+      expect(usage.organization.status).toBe('ok');
+    });
+  });
+
+  describe('release', () => {
+    it('should stop counting deleted bytes', async () => {
+      counted = 500;
+
+      await quota.release(200);
+      await quota.release(0);
+
+      expect(counted).toBe(300);
+      expect(persistence.updateMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,245 @@
+import { WorkspaceSyncEngine, SyncRunResult } from '@/lib/workspace/services/sync-engine';
+import {
+  SyncEntry,
+  SyncEndpointAdapter,
+  createSyncEndpointAdapter,
+  openSyncEndpoint,
+  sealSyncEndpoint,
+} from '@/lib/workspace/services/sync-endpoints';
+import { blobStore } from '@/lib/workspace/services/blob-store';
+import { SyncDirection, SyncSettings } from '@/lib/workspace/types';
+
+jest.mock('@/lib/db', () => ({ db: {} }));
+jest.mock('@/lib/workspace/services/file-storage', () => ({ WorkspaceFileStorage: jest.fn() }));
+jest.mock('@/lib/infrastructure/services/storage', () => ({ storageService: {} }));
+jest.mock('@/lib/workspace/services/blob-store', () => ({
+  blobStore: {
+    acquire: jest.fn(async () => ({ hash: 'base-hash' })),
+    release: jest.fn(),
+    has: jest.fn(async () => true),
+    get: jest.fn(),
+  },
+}));
+jest.mock('@/lib/config/environment', () => ({
+  config: {
+    storage: { bucketName: 'workspace-files' },
+    sync: {
+      s3AllowedEndpoints: ['https://minio.internal:9000'],
+      credentialsKey: 'test-sync-credentials-key-of-32-chars',
+    },
+  },
+}));
+
+type Side = 'source' | 'target';
+type Baseline = Record<string, { source: string; target: string; base?: string }>;
+
+const blobs = blobStore as unknown as Record<string, jest.Mock>;
+
+const settings: SyncSettings = {
+  excludePatterns: ['node_modules/**'],
+  includePatterns: [],
+  maxFileSize: 0,
+  preservePermissions: false,
+  preserveTimestamps: false,
+  deleteExtraFiles: false,
+  retryAttempts: 0,
+  retryDelay: 0,
+};
+
+function entry(path: string, fingerprint: string, size: number = 10): SyncEntry {
+  return { path, size, modifiedAt: new Date(0), fingerprint };
+}
+
+function adapter(contents: Record<string, string> = {}): SyncEndpointAdapter {
+  return {
+    description: 'test',
+    list: jest.fn(),
+    read: jest.fn(async (path: string) => Buffer.from(contents[path] ?? '')),
+    write: jest.fn(),
+    delete: jest.fn(),
+  };
+}
+
+function emptyResult(): SyncRunResult {
+  return { syncId: 'sync-1', status: 'idle', copied: 0, merged: 0, deleted: 0, skipped: 0, failed: [], conflicts: [], duration: 0 };
+}
+
+describe('WorkspaceSyncEngine.planActions', () => {
+  const engine = new WorkspaceSyncEngine('ws-1');
+
+  function plan(
+    direction: SyncDirection,
+    source: SyncEntry[],
+    target: SyncEntry[],
+    baseline: Baseline = {},
+    overrides: Partial<SyncSettings> = {},
+    adapters: Record<Side, SyncEndpointAdapter> = { source: adapter(), target: adapter() }
+  ) {
+    const result = emptyResult();
+    const actions = engine['planActions'](
+      direction,
+      { ...settings, ...overrides },
+      adapters,
+      {
+        source: new Map(source.map(item => [item.path, item])),
+        target: new Map(target.map(item => [item.path, item])),
+      },
+      baseline,
+      new Map(),
+      result
+    );
+    return actions.then(planned => ({ actions: planned, result, baseline }));
+  }
+
+  it('should copy files that changed on one side', async () => {
+    const { actions } = await plan(
+      'bidirectional',
+      [entry('a.py', 's2'), entry('b.py', 's1')],
+      [entry('a.py', 't1'), entry('b.py', 't2')],
+      { 'a.py': { source: 's1', target: 't1' }, 'b.py': { source: 's1', target: 't1' } }
+    );
+
+    expect(actions).toEqual([
+      { type: 'copy', path: 'a.py', from: 'source', size: 10 },
+      { type: 'copy', path: 'b.py', from: 'target', size: 10 },
+    ]);
+  });
+
+  it('should report a conflict when both sides changed', async () => {
+    const adapters = { source: adapter({ 'a.py': 'local' }), target: adapter({ 'a.py': 'remote' }) };
+    const { actions, result } = await plan(
+      'bidirectional',
+      [entry('a.py', 's2')],
+      [entry('a.py', 't2')],
+      { 'a.py': { source: 's1', target: 't1' } },
+      {},
+      adapters
+    );
+
+    expect(actions).toEqual([]);
+    expect(result.conflicts.map(conflict => [conflict.path, conflict.type])).toEqual([['a.py', 'content']]);
+  });
+
+  it('should adopt identical content as the baseline', async () => {
+    const adapters = { source: adapter({ 'a.py': 'same' }), target: adapter({ 'a.py': 'same' }) };
+    const { actions, baseline } = await plan('bidirectional', [entry('a.py', 's1')], [entry('a.py', 't1')], {}, {}, adapters);
+
+    expect(actions).toEqual([]);
+    expect(baseline['a.py']).toEqual({ source: 's1', target: 't1', base: 'base-hash' });
+  });
+
+  it('should propagate deletes in a bidirectional sync', async () => {
+    const { actions } = await plan(
+      'bidirectional',
+      [],
+      [entry('a.py', 't1')],
+      { 'a.py': { source: 's1', target: 't1' } }
+    );
+
+    expect(actions).toEqual([{ type: 'delete', path: 'a.py', on: 'target' }]);
+  });
+
+  it('should report a conflict for a file deleted on one side and modified on the other', async () => {
+    const { actions, result } = await plan(
+      'bidirectional',
+      [],
+      [entry('a.py', 't2')],
+      { 'a.py': { source: 's1', target: 't1' } }
+    );
+
+    expect(actions).toEqual([]);
+    expect(result.conflicts.map(conflict => conflict.type)).toEqual(['delete']);
+  });
+
+  it('should keep target files deleted from the source of a one-way sync', async () => {
+    const { actions, result, baseline } = await plan(
+      'upload',
+      [],
+      [entry('a.py', 't1'), entry('extra.py', 't1')],
+      { 'a.py': { source: 's1', target: 't1', base: 'old-base' } }
+    );
+
+    expect(actions).toEqual([]);
+    expect(result.skipped).toBe(2);
+    expect(baseline).toEqual({});
+    expect(blobs.release).toHaveBeenCalledWith('old-base');
+  });
+
+  it('should delete extra files of a one-way sync only when asked to', async () => {
+    const { actions } = await plan(
+      'download',
+      [entry('a.py', 's1'), entry('extra.py', 's1')],
+      [entry('a.py', 't2')],
+      { 'a.py': { source: 's1', target: 't1' } },
+      { deleteExtraFiles: true }
+    );
+
+    expect(actions).toEqual([
+      { type: 'copy', path: 'a.py', from: 'target', size: 10 },
+      { type: 'delete', path: 'extra.py', on: 'source' },
+    ]);
+  });
+});
+
+describe('WorkspaceSyncEngine.loadMerge', () => {
+  const engine = new WorkspaceSyncEngine('ws-1');
+
+  it('should merge against the stored base when neither side is the workspace', async () => {
+    blobs.get.mockResolvedValue(Buffer.from('a\nb\nc\n'));
+    const adapters = {
+      source: adapter({ 'notes.txt': 'A\nb\nc\n' }),
+      target: adapter({ 'notes.txt': 'a\nb\nC\n' }),
+    };
+
+    const { base, merge } = await engine['loadMerge'](
+      adapters,
+      { 'notes.txt': { source: 'local-mtime', target: 'etag', base: 'base-hash' } },
+      null,
+      'notes.txt'
+    );
+
+    expect(blobs.get).toHaveBeenCalledWith('base-hash');
+    expect(base).toBe('a\nb\nc\n');
+    expect(merge.clean).toBe(true);
+    expect(merge.content).toBe('A\nb\nC\n');
+  });
+});
+
+describe('sync endpoint credentials', () => {
+  const endpoint = {
+    type: 's3' as const,
+    url: 's3://bucket/prefix',
+    credentials: { accessKeyId: 'AKIA123', secretAccessKey: 'secret' },
+  };
+
+  it('should store credentials encrypted and read them back', () => {
+    const sealed = sealSyncEndpoint(endpoint);
+
+    expect(sealed.credentials!.accessKeyId).toMatch(/^enc:v1:/);
+    expect(JSON.stringify(sealed)).not.toContain('secret"');
+    expect(openSyncEndpoint(sealed)).toEqual(endpoint);
+    expect(sealSyncEndpoint(sealed)).toEqual(sealed);
+  });
+
+  it('should only allow configured S3 endpoints', () => {
+    expect(() => createSyncEndpointAdapter(
+      { ...endpoint, options: { endpoint: 'http://169.254.169.254' } },
+      'ws-1'
+    )).toThrow(expect.objectContaining({ code: 'ENDPOINT_NOT_ALLOWED' }));
+
+    expect(() => createSyncEndpointAdapter(
+      { ...endpoint, options: { endpoint: 'https://minio.internal:9000/' } },
+      'ws-1'
+    )).not.toThrow();
+  });
+
+  it('should not fall back to the server credentials', () => {
+    expect(() => createSyncEndpointAdapter({ type: 's3', url: 's3://bucket' }, 'ws-1'))
+      .toThrow(expect.objectContaining({ code: 'MISSING_CREDENTIALS' }));
+
+    expect(() => createSyncEndpointAdapter(
+      { ...endpoint, credentials: { accessKeyId: 'AKIA123' } },
+      'ws-1'
+    )).toThrow(expect.objectContaining({ code: 'MISSING_CREDENTIALS' }));
+  });
+});
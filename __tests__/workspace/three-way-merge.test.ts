@@ -0,0 +1,70 @@
+import {
+  threeWayMerge,
+  renderRegions,
+  hasConflictMarkers,
+  isBinaryContent,
+} from '@/lib/workspace/services/three-way-merge';
+
+describe('threeWayMerge', () => {
+  const base = 'one\ntwo\nthree\nfour\nfive\n';
+
+  it('should apply non-overlapping changes from both sides', () => {
+    const merge = threeWayMerge(base, 'ONE\ntwo\nthree\nfour\nfive\n', 'one\ntwo\nthree\nfour\nFIVE\n');
+
+    expect(merge.clean).toBe(true);
+    expect(merge.content).toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+    expect(merge.autoResolvedCount).toBe(2);
+  });
+
+  it('should accept identical changes on both sides', () => {
+    const changed = 'one\nTWO\nthree\nfour\nfive\n';
+    const merge = threeWayMerge(base, changed, changed);
+
+    expect(merge.clean).toBe(true);
+    expect(merge.content).toBe(changed);
+  });
+
+  it('should report overlapping changes as a conflict', () => {
+    const merge = threeWayMerge(base, 'one\nlocal\nthree\nfour\nfive\n', 'one\nremote\nthree\nfour\nfive\n');
+
+    expect(merge.clean).toBe(false);
+    expect(merge.conflictCount).toBe(1);
+    expect(hasConflictMarkers(merge.content)).toBe(true);
+    expect(merge.content).toBe([
+      'one',
+      '<<<<<<< local',
+      'local',
+      '||||||| base',
+      'two',
+      '=======',
+      'remote',
+      '>>>>>>> remote',
+      'three',
+      'four',
+      'five',
+      '',
+    ].join('\n'));
+  });
+
+  it('should render a conflict with the chosen side', () => {
+    const { regions } = threeWayMerge(base, 'one\nlocal\nthree\nfour\nfive\n', 'one\nremote\nthree\nfour\nfive\n');
+
+    expect(renderRegions(regions, ['local'])).toBe('one\nlocal\nthree\nfour\nfive\n');
+    expect(renderRegions(regions, ['remote'])).toBe('one\nremote\nthree\nfour\nfive\n');
+    expect(renderRegions(regions, ['both'])).toBe('one\nlocal\nremote\nthree\nfour\nfive\n');
+    expect(renderRegions(regions, ['base'])).toBe(base);
+  });
+
+  it('should treat every difference as a conflict without a base', () => {
+    const merge = threeWayMerge('', 'a\nb\n', 'a\nc\n');
+
+    expect(merge.clean).toBe(false);
+  });
+});
+
+describe('isBinaryContent', () => {
+  it('should detect NUL bytes', () => {
+    expect(isBinaryContent(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x00]))).toBe(true);
+    expect(isBinaryContent(Buffer.from('print("hi")\n'))).toBe(false);
+  });
+});
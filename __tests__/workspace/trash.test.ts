@@ -0,0 +1,222 @@
+import { WorkspaceTrash } from '@/lib/workspace/services/trash';
+import { WorkspaceBlobStore } from '@/lib/workspace/services/blob-store';
+import { indexQueue } from '@/lib/workspace/services/index-queue';
+import { db } from '@/lib/db';
+import { TrashEntry } from '@/lib/workspace/types';
+
+jest.mock('@/lib/db', () => ({
+  db: {
+    workspaceFile: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    workspaceFileRevision: {
+      createMany: jest.fn(),
+    },
+    workspaceTrashItem: {
+      create: jest.fn(),
+      findFirst: jest.fn(),
+      delete: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    workspacePersistence: {
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock('@/lib/workspace/services/index-queue', () => ({
+  indexQueue: { enqueueInBackground: jest.fn() },
+}));
+
+jest.mock('@/lib/infrastructure/services/storage', () => ({ storageService: {} }));
+
+jest.mock('@/lib/config/environment', () => ({
+  config: { storage: { bucketName: 'workspace-files' }, trash: { retentionDays: 30 } },
+}));
+
+const workspaceFile = db.workspaceFile as unknown as Record<string, jest.Mock>;
+const workspaceFileRevision = db.workspaceFileRevision as unknown as Record<string, jest.Mock>;
+const workspaceTrashItem = db.workspaceTrashItem as unknown as Record<string, jest.Mock>;
+const workspacePersistence = db.workspacePersistence as unknown as Record<string, jest.Mock>;
+
+function revision(path: string, version: number, hash: string) {
+  return { path, version, hash, size: 4, storageKey: `blobs/${hash}`, createdAt: new Date(0) };
+}
+
+function record(path: string, extra: Record<string, unknown> = {}) {
+  return {
+    id: `id-${path}`,
+    path,
+    name: path.split('/').pop(),
+    type: 'text',
+    size: BigInt(4),
+    mimeType: 'text/plain',
+    encoding: 'utf-8',
+    hash: `hash-${path}`,
+    content: 'text',
+    isDirectory: false,
+    permissions: {},
+    metadata: {},
+    version: 2,
+    createdAt: new Date(0),
+    revisions: [revision(path, 1, `old-${path}`), revision(path, 2, `hash-${path}`)],
+    ...extra,
+  };
+}
+
+function trashItem(entries: TrashEntry[], extra: Record<string, unknown> = {}) {
+  return {
+    id: 'item-1',
+    workspaceId: 'ws-1',
+    path: 'src',
+    name: 'src',
+    isDirectory: true,
+    fileCount: entries.length,
+    size: BigInt(8),
+    entries,
+    deletedAt: new Date(0),
+    expiresAt: new Date(0),
+    ...extra,
+  };
+}
+
+describe('WorkspaceTrash', () => {
+  const trash = new WorkspaceTrash('ws-1', 'workspace-files');
+  const blobStore = (trash as any).blobStore as WorkspaceBlobStore;
+  let release: jest.SpyInstance;
+  let deleteLegacyObject: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    release = jest.spyOn(blobStore, 'release').mockResolvedValue(undefined);
+    deleteLegacyObject = jest.spyOn(blobStore, 'deleteLegacyObject').mockResolvedValue(undefined);
+    jest.spyOn(blobStore, 'has').mockResolvedValue(true);
+    workspaceTrashItem.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ id: 'item-1', ...data }));
+  });
+
+  // Capture entries the way moveToTrash stores them
+  async function trashEntries(records: ReturnType<typeof record>[]): Promise<TrashEntry[]> {
+    workspaceFile.findMany.mockResolvedValue(records);
+    await trash.moveToTrash('src');
+    return workspaceTrashItem.create.mock.calls[0][0].data.entries;
+  }
+
+  describe('moveToTrash', () => {
+    it('should record which entries hold a blob reference', async () => {
+      const entries = await trashEntries([
+        record('src', { isDirectory: true, type: 'directory', hash: '', content: null, revisions: [] }),
+        record('src/main.py'),
+        // Written by a route that sets the hash without acquiring the blob
+        record('src/notebook.py', { version: 3 }),
+      ]);
+
+      expect(entries.map(entry => [entry.path, entry.blobAcquired])).toEqual([
+        ['src', false],
+        ['src/main.py', true],
+        ['src/notebook.py', false],
+      ]);
+      expect(workspaceFile.deleteMany).toHaveBeenCalledWith({
+        where: { id: { in: ['id-src', 'id-src/main.py', 'id-src/notebook.py'] } },
+      });
+      expect(indexQueue.enqueueInBackground).toHaveBeenCalledWith('ws-1', ['src/main.py', 'src/notebook.py']);
+    });
+  });
+
+  describe('purge', () => {
+    it('should release only the references the entries held', async () => {
+      const entries = await trashEntries([record('src/main.py'), record('src/notebook.py', { version: 3 })]);
+      workspaceTrashItem.findFirst.mockResolvedValue(trashItem(entries));
+      workspaceTrashItem.deleteMany.mockResolvedValue({ count: 1 });
+
+      await trash.purge('item-1');
+
+      expect(release.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+        'hash-src/main.py',
+        'old-src/main.py',
+        'hash-src/main.py',
+        'old-src/notebook.py',
+        'hash-src/notebook.py',
+      ]);
+      expect(workspacePersistence.updateMany).toHaveBeenCalledWith({
+        where: { workspaceId: 'ws-1' },
+        data: { storageSize: { increment: -8 } },
+      });
+    });
+
+    it('should fall back to revisions for entries without recorded ownership', async () => {
+      const [acquired, unacquired] = await trashEntries([record('src/main.py'), record('src/notebook.py', { version: 3 })]);
+      const legacyEntries = [acquired, unacquired].map(({ blobAcquired: _blobAcquired, ...entry }) => entry);
+      workspaceTrashItem.findFirst.mockResolvedValue(trashItem(legacyEntries));
+      workspaceTrashItem.deleteMany.mockResolvedValue({ count: 1 });
+
+      await trash.purge('item-1');
+
+      expect(release).toHaveBeenCalledTimes(5);
+      expect(release.mock.calls.filter((call: unknown[]) => call[0] === 'hash-src/notebook.py')).toHaveLength(1);
+    });
+
+    it('should delete the path-keyed object of content stored before content addressing', async () => {
+      const entries = await trashEntries([record('src/old.bin', { content: null, revisions: [] })]);
+      jest.spyOn(blobStore, 'has').mockResolvedValue(false);
+      workspaceTrashItem.findFirst.mockResolvedValue(trashItem(entries));
+      workspaceTrashItem.deleteMany.mockResolvedValue({ count: 1 });
+
+      await trash.purge('item-1');
+
+      expect(release).not.toHaveBeenCalled();
+      expect(deleteLegacyObject).toHaveBeenCalledWith('ws-1', 'src/old.bin');
+    });
+
+    it('should release nothing when another purge deleted the item first', async () => {
+      const entries = await trashEntries([record('src/main.py')]);
+      workspaceTrashItem.findFirst.mockResolvedValue(trashItem(entries));
+      workspaceTrashItem.deleteMany.mockResolvedValue({ count: 0 });
+
+      await trash.purge('item-1');
+
+      expect(release).not.toHaveBeenCalled();
+      expect(workspacePersistence.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restore', () => {
+    it('should recreate files with their revisions at a new path', async () => {
+      const entries = await trashEntries([
+        record('src', { isDirectory: true, type: 'directory', hash: '', content: null, revisions: [] }),
+        record('src/main.py'),
+      ]);
+      workspaceTrashItem.findFirst.mockResolvedValue(trashItem(entries));
+      workspaceFile.findMany.mockResolvedValue([]);
+      workspaceFile.findFirst.mockResolvedValue(null);
+      workspaceFile.create.mockImplementation(async ({ data }: { data: Record<string, unknown> }) => ({ ...data, id: `new-${data.path}` }));
+
+      const result = await trash.restore('item-1', { targetPath: 'lib' });
+
+      expect(result.restoredPaths).toEqual(['lib', 'lib/main.py']);
+      expect(workspaceFile.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ id: undefined, path: 'lib/main.py', hash: 'hash-src/main.py', version: 2 }),
+      });
+      expect(workspaceFileRevision.createMany).toHaveBeenCalledWith({
+        data: [
+          expect.objectContaining({ fileId: 'new-lib/main.py', version: 1, hash: 'old-src/main.py' }),
+          expect.objectContaining({ fileId: 'new-lib/main.py', version: 2, hash: 'hash-src/main.py' }),
+        ],
+      });
+      expect(workspaceTrashItem.delete).toHaveBeenCalledWith({ where: { id: 'item-1' } });
+      expect(release).not.toHaveBeenCalled();
+    });
+
+    it('should not overwrite existing files', async () => {
+      const entries = await trashEntries([record('src/main.py')]);
+      workspaceTrashItem.findFirst.mockResolvedValue(trashItem(entries));
+      workspaceFile.findMany.mockResolvedValue([{ path: 'src/main.py', isDirectory: false }]);
+
+      await expect(trash.restore('item-1')).rejects.toMatchObject({ code: 'PATH_CONFLICT' });
+      expect(workspaceFile.create).not.toHaveBeenCalled();
+      expect(workspaceTrashItem.delete).not.toHaveBeenCalled();
+    });
+  });
+});
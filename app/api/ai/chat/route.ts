@@ -1,11 +1,14 @@
 import { openai } from '@ai-sdk/openai';
 import { anthropic } from '@ai-sdk/anthropic';
 import { google } from '@ai-sdk/google';
-import { streamText, convertToCoreMessages } from 'ai';
+import { streamText, convertToCoreMessages, ToolSet } from 'ai';
 import { auth } from '@/auth';
 import { NextRequest } from 'next/server';
 import { webvmTools } from '@/lib/ai-sdk/webvm-tools';
+import { pyodideTools } from '@/lib/ai-sdk/pyodide-tools';
 import { createAgent } from '@/lib/ai-sdk/webvm-agents';
+import { WorkspaceFileIndexer } from '@/lib/workspace/services/file-indexer';
+import { canAccessWorkspace } from '@/lib/auth/workspace-access';
 
 export async function POST(req: NextRequest) {
   try {
@@ -85,8 +88,9 @@ export async function POST(req: NextRequest) {
       };
     }
 
-    // Use enhanced WebVM tools (only if enabled)
-    const tools = enableTools ? webvmTools : undefined;
+    // Pyodide workspaces run their tools in the browser, so they only get the Pyodide tools
+    const isPyodide = context?.runtime === 'pyodide';
+    const tools: ToolSet | undefined = enableTools ? (isPyodide ? pyodideTools : webvmTools) : undefined;
 
     // Enhanced system message based on agent mode and context
     let systemMessage = '';
@@ -147,6 +151,10 @@ export async function POST(req: NextRequest) {
         Always be helpful, clear, and explain your actions. Ask for clarification when needed.`;
     }
 
+    if (isPyodide) {
+      systemMessage += `\n\nThis workspace runs Python in the browser with Pyodide. Use the runPythonTests tool to check your changes.`;
+    }
+
     // Add workspace context if provided
     if (context?.workspace) {
       systemMessage += `\n\nWorkspace Context:`;
@@ -171,6 +179,34 @@ export async function POST(req: NextRequest) {
       ? coreMessages 
       : [{ role: 'system' as const, content: systemMessage }, ...coreMessages];
 
+    // Retrieve workspace code related to the latest question; the workspace id
+    // comes from the client, so only for members of the workspace's organization
+    const lastUserMessage = [...messages].reverse().find((m: any) => m.role === 'user');
+    if (
+      context?.workspace?.id &&
+      typeof lastUserMessage?.content === 'string' &&
+      session.user.id &&
+      await canAccessWorkspace(session.user.id, context.workspace.id)
+    ) {
+      try {
+        const fileIndexer = new WorkspaceFileIndexer(context.workspace.id);
+        const chunks = await fileIndexer.findSimilarChunks(lastUserMessage.content, { limit: 6 });
+
+        if (chunks.length > 0) {
+          const retrievedCode = chunks.map(chunk =>
+            `--- ${chunk.path}:${chunk.startLine}-${chunk.endLine}${chunk.symbolName ? ` (${chunk.symbolName})` : ''}\n${chunk.content}`
+          ).join('\n\n');
+          const systemCount = messagesWithSystem.findIndex(m => m.role !== 'system');
+          messagesWithSystem.splice(systemCount === -1 ? messagesWithSystem.length : systemCount, 0, {
+            role: 'system' as const,
+            content: `Relevant workspace code (retrieved by semantic search, may be incomplete):\n\n${retrievedCode}`,
+          });
+        }
+      } catch (error) {
+        console.error('Workspace code retrieval failed:', error);
+      }
+    }
+
     const result = streamText({
       model: aiModel,
       messages: messagesWithSystem,
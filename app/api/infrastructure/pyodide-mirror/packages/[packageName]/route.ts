@@ -0,0 +1,56 @@
+/**
+ * Pyodide Mirror Package API Route
+ * Revoke a package approval
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pyodideMirror, PyodideMirrorService, PyodideMirrorError } from '@/lib/infrastructure/services/pyodide-mirror';
+import { requireSystemAdmin, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+
+interface RouteParams {
+  params: {
+    packageName: string;
+  };
+}
+
+// Cached wheels stay in the bucket, so approving the package again restores it
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    await requireSystemAdmin();
+
+    await pyodideMirror.revokePackage(params.packageName);
+
+    await createInfrastructureAuditLog(
+      'pyodide_mirror.package_revoke',
+      'pyodide_mirror',
+      PyodideMirrorService.normalizeName(params.packageName),
+      {},
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Package approval revoked',
+    });
+
+  } catch (error) {
+    console.error('Failed to revoke mirror package:', error);
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof PyodideMirrorError && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to revoke package' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Pyodide Mirror Packages API Route
+ * Packages admins approved for installation in Python workspaces
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pyodideMirror, PyodideMirrorError } from '@/lib/infrastructure/services/pyodide-mirror';
+import { requireSystemAdmin, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+
+const approvePackageSchema = z.object({
+  name: z.string().min(1).regex(/^[A-Za-z0-9._-]+$/, 'Invalid package name'),
+  versions: z.array(z.string().min(1)).optional(),
+  note: z.string().optional(),
+  fetchFromUpstream: z.boolean().optional(),
+});
+
+function errorResponse(error: unknown, fallback: string) {
+  if (error instanceof InfrastructureAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json({ error: 'Invalid input data', details: error.errors }, { status: 400 });
+  }
+
+  if (error instanceof PyodideMirrorError) {
+    const statuses: Record<string, number> = { NOT_FOUND: 404, UPSTREAM_FAILED: 502, STORAGE_FAILED: 500 };
+    const status = statuses[error.code] ?? 400;
+    return NextResponse.json({ error: error.message, code: error.code }, { status });
+  }
+
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+export async function GET() {
+  try {
+    await requireSystemAdmin();
+
+    const packages = await pyodideMirror.listPackages();
+
+    return NextResponse.json({
+      success: true,
+      packages,
+    });
+
+  } catch (error) {
+    console.error('Failed to list mirror packages:', error);
+    return errorResponse(error, 'Failed to list mirror packages');
+  }
+}
+
+// Approve a package, optionally caching it from PyPI
+export async function POST(request: NextRequest) {
+  try {
+    const session = await requireSystemAdmin();
+
+    const body = approvePackageSchema.parse(await request.json());
+    const pkg = await pyodideMirror.approvePackage({
+      ...body,
+      approvedBy: session.user!.id!,
+    });
+
+    await createInfrastructureAuditLog(
+      'pyodide_mirror.package_approve',
+      'pyodide_mirror',
+      pkg.name,
+      { versions: pkg.versions, fetchFromUpstream: !!body.fetchFromUpstream },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      package: pkg,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to approve mirror package:', error);
+    return errorResponse(error, 'Failed to approve package');
+  }
+}
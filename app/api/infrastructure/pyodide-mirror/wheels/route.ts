@@ -0,0 +1,60 @@
+/**
+ * Pyodide Mirror Wheels API Route
+ * Upload pure-Python wheels for deployments that cannot reach PyPI
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { pyodideMirror, PyodideMirrorError } from '@/lib/infrastructure/services/pyodide-mirror';
+import { requireSystemAdmin, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+
+// Uploading a wheel does not approve its package
+export async function POST(request: NextRequest) {
+  try {
+    await requireSystemAdmin();
+
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return NextResponse.json({ error: 'File is required' }, { status: 400 });
+    }
+
+    const wheel = await pyodideMirror.uploadWheel(file.name, Buffer.from(await file.arrayBuffer()));
+
+    await createInfrastructureAuditLog(
+      'pyodide_mirror.wheel_upload',
+      'pyodide_mirror',
+      wheel.filename,
+      { version: wheel.version, sha256: wheel.sha256, size: wheel.size },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      wheel,
+    }, { status: 201 });
+
+  } catch (error) {
+    console.error('Failed to upload mirror wheel:', error);
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof PyodideMirrorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'INVALID_WHEEL' ? 400 : 500 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to upload wheel' },
+      { status: 500 }
+    );
+  }
+}
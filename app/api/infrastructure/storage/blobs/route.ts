@@ -0,0 +1,89 @@
+/**
+ * Content Blob Store API Route
+ * Usage statistics and garbage collection for deduplicated workspace content
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { blobStore } from '@/lib/workspace/services/blob-store';
+import { requireStorageAccess, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permissions
+    const session = await requireStorageAccess('read');
+
+    const stats = await blobStore.getStats();
+
+    return NextResponse.json({
+      success: true,
+      stats,
+    });
+
+  } catch (error) {
+    console.error('Failed to get blob store stats:', error);
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get blob store stats' },
+      { status: 500 }
+    );
+  }
+}
+
+// Run garbage collection
+export async function POST(request: NextRequest) {
+  try {
+    // Check authentication and permissions
+    const session = await requireStorageAccess('admin');
+
+    // Parse request body
+    const body = await request.json().catch(() => ({}));
+    const { gracePeriodMinutes = 60 } = body;
+
+    if (typeof gracePeriodMinutes !== 'number' || gracePeriodMinutes < 0) {
+      return NextResponse.json(
+        { error: 'Grace period must be a non-negative number of minutes' },
+        { status: 400 }
+      );
+    }
+
+    const result = await blobStore.collectGarbage(gracePeriodMinutes * 60 * 1000);
+
+    // Log garbage collection
+    await createInfrastructureAuditLog(
+      'storage.blob_gc',
+      'storage',
+      'blobs',
+      { ...result, gracePeriodMinutes },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: `Removed ${result.deletedCount} unreferenced blobs`,
+    });
+
+  } catch (error) {
+    console.error('Blob garbage collection failed:', error);
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Blob garbage collection failed' },
+      { status: 500 }
+    );
+  }
+}
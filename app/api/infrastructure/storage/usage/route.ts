@@ -0,0 +1,104 @@
+/**
+ * Organization Storage Usage API Route
+ * Workspace storage against the organization quota, broken down by
+ * workspace and file type
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { OrganizationStorageQuota } from '@/lib/workspace/services/storage-quota';
+import { requireStorageAccess, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+
+const quotaSchema = z.object({
+  organizationId: z.string().min(1),
+  // Hard limit in bytes; null restores the default
+  storageQuota: z.number().int().nonnegative().nullable(),
+});
+
+export async function GET(request: NextRequest) {
+  try {
+    // Check authentication and permissions
+    const session = await requireStorageAccess('read');
+
+    const organizationId = request.nextUrl.searchParams.get('organizationId');
+    if (!organizationId) {
+      return NextResponse.json(
+        { error: 'organizationId is required' },
+        { status: 400 }
+      );
+    }
+
+    const usage = await new OrganizationStorageQuota(organizationId).getUsage();
+
+    return NextResponse.json({
+      success: true,
+      usage,
+    });
+
+  } catch (error) {
+    console.error('Failed to get organization storage usage:', error);
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get storage usage' },
+      { status: 500 }
+    );
+  }
+}
+
+// Set the organization quota
+export async function PUT(request: NextRequest) {
+  try {
+    // Check authentication and permissions
+    const session = await requireStorageAccess('admin');
+
+    const { organizationId, storageQuota } = quotaSchema.parse(await request.json());
+
+    const quota = new OrganizationStorageQuota(organizationId);
+    await quota.setQuota(storageQuota);
+    const usage = await quota.getUsage();
+
+    // Log quota change
+    await createInfrastructureAuditLog(
+      'storage.set_organization_quota',
+      'organization',
+      organizationId,
+      { organizationId, storageQuota },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      usage,
+    });
+
+  } catch (error) {
+    console.error('Failed to set organization storage quota:', error);
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid quota', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to set storage quota' },
+      { status: 500 }
+    );
+  }
+}
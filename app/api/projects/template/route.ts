@@ -122,6 +122,7 @@ async function createWorkspaceFile(workspaceId: string, path: string, content: s
   // Determine file type and MIME type
   const mimeTypeMap: Record<string, string> = {
     'py': 'text/x-python',
+    'ipynb': 'application/x-ipynb+json',
     'md': 'text/markdown',
     'txt': 'text/plain',
     'json': 'application/json',
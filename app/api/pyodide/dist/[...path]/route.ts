@@ -0,0 +1,48 @@
+/**
+ * Pyodide Distribution API Route
+ * Serves the Pyodide runtime files from the package mirror; workspaces
+ * load Pyodide from here instead of the public CDN
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { pyodideMirror, PyodideMirrorError } from '@/lib/infrastructure/services/pyodide-mirror';
+
+interface RouteParams {
+  params: {
+    path: string[];
+  };
+}
+
+/**
+ * GET /api/pyodide/dist/[...path]
+ * Read a file of the mirrored Pyodide version
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const file = await pyodideMirror.getDistributionFile(params.path.join('/'));
+
+    return new NextResponse(new Uint8Array(file.content), {
+      headers: {
+        'Content-Type': file.contentType,
+        // URLs carry no version, and changing PYODIDE_VERSION changes the files behind them
+        'Cache-Control': 'private, max-age=86400',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PyodideMirrorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : error.code === 'INVALID_PATH' ? 400 : 502 }
+      );
+    }
+
+    console.error('Error serving Pyodide distribution file:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
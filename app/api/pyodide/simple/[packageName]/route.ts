@@ -0,0 +1,46 @@
+/**
+ * Pyodide Package Index API Route
+ * PEP 691 simple index of the package mirror, listing the cached wheels
+ * of approved packages for micropip
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { pyodideMirror, SIMPLE_JSON_CONTENT_TYPE } from '@/lib/infrastructure/services/pyodide-mirror';
+
+interface RouteParams {
+  params: {
+    packageName: string;
+  };
+}
+
+/**
+ * GET /api/pyodide/simple/[packageName]
+ * Project page of an approved package; 404 lets micropip try its next index
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const page = await pyodideMirror.getProjectPage(
+      decodeURIComponent(params.packageName),
+      `${request.nextUrl.origin}/api/pyodide/wheels`
+    );
+    if (!page) {
+      return NextResponse.json({ error: 'Package is not available from the mirror' }, { status: 404 });
+    }
+
+    return new NextResponse(JSON.stringify(page), {
+      headers: {
+        'Content-Type': SIMPLE_JSON_CONTENT_TYPE,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error serving Pyodide package index:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
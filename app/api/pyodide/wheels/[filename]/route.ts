@@ -0,0 +1,49 @@
+/**
+ * Pyodide Wheel API Route
+ * Downloads of wheels cached in the package mirror
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { pyodideMirror, PyodideMirrorError } from '@/lib/infrastructure/services/pyodide-mirror';
+
+interface RouteParams {
+  params: {
+    filename: string;
+  };
+}
+
+/**
+ * GET /api/pyodide/wheels/[filename]
+ * Download a wheel of an approved package version
+ */
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const filename = decodeURIComponent(params.filename);
+    const content = await pyodideMirror.getWheel(filename);
+
+    return new NextResponse(new Uint8Array(content), {
+      headers: {
+        'Content-Type': 'application/zip',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        // Wheel filenames are unique per build; revoking only stops new downloads
+        'Cache-Control': 'private, max-age=3600',
+      },
+    });
+  } catch (error) {
+    if (error instanceof PyodideMirrorError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : 500 }
+      );
+    }
+
+    console.error('Error serving Pyodide wheel:', error);
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Workspace Dependencies API Route
+ * Resolved module graph of the workspace, and the impact of changing files
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceDependencyGraph, DependencyGraphError } from '@/lib/workspace/services/dependency-graph';
+import { requireAuth } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse query parameters; `path` may be repeated for a change set
+    const { searchParams } = new URL(request.url);
+    const paths = searchParams.getAll('path').filter(Boolean);
+    const depth = searchParams.get('depth') ? parseInt(searchParams.get('depth')!) : undefined;
+
+    // Initialize dependency graph
+    const dependencyGraph = new WorkspaceDependencyGraph(workspaceId);
+
+    if (paths.length > 0) {
+      const impact = await dependencyGraph.getImpact(paths, depth);
+
+      return NextResponse.json({
+        success: true,
+        impact,
+        workspaceId,
+      });
+    }
+
+    const graph = await dependencyGraph.build();
+
+    return NextResponse.json({
+      success: true,
+      graph,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get dependency graph:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof DependencyGraphError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'NOT_FOUND' ? 404 : 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get dependency graph' },
+      { status: 500 }
+    );
+  }
+}
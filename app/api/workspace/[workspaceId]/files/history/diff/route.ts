@@ -0,0 +1,76 @@
+/**
+ * Workspace File Diff API Route
+ * Compare two revisions of a workspace file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceFileStorage, WorkspaceFileError } from '@/lib/workspace/services/file-storage';
+import { requireAuth } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+    const from = parseInt(searchParams.get('from') || '');
+    const to = parseInt(searchParams.get('to') || '');
+
+    if (!path || isNaN(from) || isNaN(to)) {
+      return NextResponse.json(
+        { error: 'File path, from and to versions are required' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize file storage
+    const fileStorage = new WorkspaceFileStorage(workspaceId);
+
+    // Diff revisions
+    const diff = await fileStorage.diffRevisions(path, from, to);
+
+    return NextResponse.json({
+      success: true,
+      diff,
+    });
+
+  } catch (error) {
+    console.error('Failed to diff file revisions:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    // Missing files and revisions are the only errors storage reports by code
+    if (error instanceof WorkspaceFileError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to diff file revisions' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Workspace File History API Route
+ * List, read and restore past revisions of a workspace file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceFileStorage, WorkspaceFileError } from '@/lib/workspace/services/file-storage';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+import { StorageQuotaError } from '@/lib/workspace/services/storage-quota';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+    const version = searchParams.get('version');
+
+    if (!path) {
+      return NextResponse.json(
+        { error: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize file storage
+    const fileStorage = new WorkspaceFileStorage(workspaceId);
+
+    // Return a single revision with its content
+    if (version) {
+      const versionNumber = parseInt(version);
+      if (isNaN(versionNumber) || versionNumber < 1) {
+        return NextResponse.json(
+          { error: 'Invalid version number' },
+          { status: 400 }
+        );
+      }
+
+      const { revision, content } = await fileStorage.getRevision(path, versionNumber);
+
+      return NextResponse.json({
+        success: true,
+        revision,
+        content: content.toString('utf-8'),
+      });
+    }
+
+    // List revisions
+    const revisions = await fileStorage.listRevisions(path);
+
+    // Log access
+    await createInfrastructureAuditLog(
+      'workspace.list_file_revisions',
+      'workspace',
+      workspaceId,
+      { path, count: revisions.length },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      workspaceId,
+      path,
+      revisions,
+      count: revisions.length,
+    });
+
+  } catch (error) {
+    console.error('Failed to get file history:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    // Missing files and revisions are the only errors storage reports by code
+    if (error instanceof WorkspaceFileError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get file history' },
+      { status: 500 }
+    );
+  }
+}
+
+// Restore a past revision
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body
+    const body = await request.json();
+    const { path, version } = body;
+
+    if (!path || typeof version !== 'number') {
+      return NextResponse.json(
+        { error: 'File path and version are required' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize services
+    const fileStorage = new WorkspaceFileStorage(workspaceId);
+
+    // Restore revision as a new version; storage queues it for re-indexing
+    const result = await fileStorage.restoreRevision(path, version);
+
+    // Log restoration
+    await createInfrastructureAuditLog(
+      'workspace.restore_file_revision',
+      'workspace_file',
+      result.id,
+      {
+        workspaceId,
+        path,
+        restoredVersion: version,
+        version: result.version,
+      },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      file: result,
+      message: `File restored from version ${version}`,
+    });
+
+  } catch (error) {
+    console.error('Failed to restore file revision:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    // Missing files and revisions are the only errors storage reports by code
+    if (error instanceof WorkspaceFileError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, usage: error.usage },
+        { status: 413 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to restore file revision' },
+      { status: 500 }
+    );
+  }
+}
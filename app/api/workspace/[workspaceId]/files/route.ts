@@ -4,10 +4,11 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { WorkspaceFileStorage } from '@/lib/workspace/services/file-storage';
-import { WorkspaceFileIndexer } from '@/lib/workspace/services/file-indexer';
+import { WorkspaceFileStorage, WorkspaceFileError } from '@/lib/workspace/services/file-storage';
 import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
 import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+import { StorageQuotaError } from '@/lib/workspace/services/storage-quota';
 
 interface RouteParams {
   params: {
@@ -20,9 +21,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Check authentication
     const session = await requireAuth();
     const { workspaceId } = params;
-
-    // TODO: Check if user has access to this workspace
-    // const hasAccess = await checkWorkspaceAccess(session.user.id, workspaceId);
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
 
     // Get query parameters
     const { searchParams } = new URL(request.url);
@@ -89,6 +88,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   } catch (error) {
     console.error('Failed to list workspace files:', error);
 
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     if (error instanceof InfrastructureAuthError) {
       return NextResponse.json(
         { error: error.message },
@@ -108,6 +111,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Check authentication
     const session = await requireAuth();
     const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
 
     // Parse request body
     const body = await request.json();
@@ -122,7 +126,6 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Initialize services
     const fileStorage = new WorkspaceFileStorage(workspaceId);
-    const fileIndexer = new WorkspaceFileIndexer(workspaceId);
 
     let result;
 
@@ -138,17 +141,8 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         );
       }
 
+      // Storage queues the file for background indexing
       result = await fileStorage.storeFile(path, content, metadata);
-
-      // Index the file if it's a text file
-      if (result.type === 'text' && typeof content === 'string') {
-        try {
-          await fileIndexer.indexFile(result, content);
-        } catch (indexError) {
-          console.error('Failed to index file:', indexError);
-          // Don't fail the request if indexing fails
-        }
-      }
     }
 
     // Log creation
@@ -174,6 +168,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   } catch (error) {
     console.error('Failed to create workspace file:', error);
 
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     if (error instanceof InfrastructureAuthError) {
       return NextResponse.json(
         { error: error.message },
@@ -181,6 +179,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, usage: error.usage },
+        { status: 413 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to create file' },
       { status: 500 }
@@ -193,6 +198,7 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
     // Check authentication
     const session = await requireAuth();
     const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
 
     // Parse request body
     const body = await request.json();
@@ -207,21 +213,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
     // Initialize services
     const fileStorage = new WorkspaceFileStorage(workspaceId);
-    const fileIndexer = new WorkspaceFileIndexer(workspaceId);
 
-    // Update file
+    // Update file; storage queues it for background re-indexing
     const result = await fileStorage.updateFile(path, content, metadata);
 
-    // Re-index the file if it's a text file
-    if (result.type === 'text' && typeof content === 'string') {
-      try {
-        await fileIndexer.indexFile(result, content);
-      } catch (indexError) {
-        console.error('Failed to re-index file:', indexError);
-        // Don't fail the request if indexing fails
-      }
-    }
-
     // Log update
     await createInfrastructureAuditLog(
       'workspace.update_file',
@@ -245,6 +240,10 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   } catch (error) {
     console.error('Failed to update workspace file:', error);
 
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     if (error instanceof InfrastructureAuthError) {
       return NextResponse.json(
         { error: error.message },
@@ -252,6 +251,20 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (error instanceof WorkspaceFileError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, usage: error.usage },
+        { status: 413 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to update file' },
       { status: 500 }
@@ -264,6 +277,7 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
     // Check authentication
     const session = await requireAuth();
     const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
 
     // Get file path from query parameters
     const { searchParams } = new URL(request.url);
@@ -278,36 +292,36 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
 
     // Initialize services
     const fileStorage = new WorkspaceFileStorage(workspaceId);
-    const fileIndexer = new WorkspaceFileIndexer(workspaceId);
 
-    // Delete file
-    await fileStorage.deleteFile(path);
-
-    // Remove from index
-    try {
-      await fileIndexer.removeFromIndex(path);
-    } catch (indexError) {
-      console.error('Failed to remove file from index:', indexError);
-      // Don't fail the request if index removal fails
-    }
+    // Files go to the trash unless ?permanent=true; the index worker drops them from the index
+    const permanent = searchParams.get('permanent') === 'true';
+    const trashItem = await fileStorage.deleteFile(path, {
+      permanent,
+      deletedBy: session.user?.id,
+    });
 
     // Log deletion
     await createInfrastructureAuditLog(
       'workspace.delete_file',
       'workspace_file',
       path,
-      { workspaceId, path },
+      { workspaceId, path, permanent, trashItemId: trashItem?.id },
       request
     );
 
     return NextResponse.json({
       success: true,
-      message: 'File deleted successfully',
+      message: trashItem ? 'File moved to trash' : 'File deleted successfully',
+      trashItem,
     });
 
   } catch (error) {
     console.error('Failed to delete workspace file:', error);
 
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     if (error instanceof InfrastructureAuthError) {
       return NextResponse.json(
         { error: error.message },
@@ -0,0 +1,74 @@
+/**
+ * Workspace Git Diff API Route
+ * Staged or unstaged changes of a single file
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceGitService, GitServiceError } from '@/lib/workspace/services/git-service';
+import { requireAuth } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+    const staged = searchParams.get('staged') === 'true';
+
+    if (!path) {
+      return NextResponse.json(
+        { error: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize git service
+    const gitService = new WorkspaceGitService(workspaceId);
+
+    const diff = await gitService.diff(path, staged);
+
+    return NextResponse.json({
+      success: true,
+      diff,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get git diff:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof GitServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'REPOSITORY_NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get git diff' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Workspace Git Log API Route
+ * Commit history of the workspace repository
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceGitService, GitServiceError } from '@/lib/workspace/services/git-service';
+import { requireAuth } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const ref = searchParams.get('ref') || undefined;
+    const path = searchParams.get('path') || undefined;
+    const depth = parseInt(searchParams.get('depth') || '50');
+
+    // Initialize git service
+    const gitService = new WorkspaceGitService(workspaceId);
+
+    const commits = await gitService.log({ ref, path, depth });
+
+    return NextResponse.json({
+      success: true,
+      commits,
+      count: commits.length,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get git log:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof GitServiceError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === 'REPOSITORY_NOT_FOUND' || error.code === 'NOT_FOUND' ? 404 : 409 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get git log' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,228 @@
+/**
+ * Workspace Git API Route
+ * Repository status and git operations on the workspace files
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WorkspaceGitService, GitServiceError } from '@/lib/workspace/services/git-service';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+// Credentials are used for the single request and never stored
+const credentialsSchema = z.object({
+  username: z.string().optional(),
+  password: z.string().optional(),
+}).optional();
+
+const remoteOptionsSchema = {
+  remote: z.string().min(1).optional(),
+  branch: z.string().min(1).optional(),
+  credentials: credentialsSchema,
+};
+
+const gitActionSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('init'), defaultBranch: z.string().min(1).optional() }),
+  z.object({
+    action: z.literal('clone'),
+    url: z.string().min(1),
+    ref: z.string().min(1).optional(),
+    depth: z.number().int().positive().optional(),
+    credentials: credentialsSchema,
+  }),
+  z.object({ action: z.literal('stage'), paths: z.array(z.string()).optional() }),
+  z.object({ action: z.literal('unstage'), paths: z.array(z.string()).optional() }),
+  z.object({ action: z.literal('commit'), message: z.string().trim().min(1) }),
+  z.object({ action: z.literal('create-branch'), name: z.string().min(1), checkout: z.boolean().optional() }),
+  z.object({ action: z.literal('checkout'), ref: z.string().min(1), force: z.boolean().optional() }),
+  z.object({ action: z.literal('delete-branch'), name: z.string().min(1) }),
+  z.object({ action: z.literal('merge'), ref: z.string().min(1) }),
+  z.object({ action: z.literal('abort-merge') }),
+  z.object({ action: z.literal('stash'), message: z.string().optional() }),
+  z.object({ action: z.literal('stash-apply'), index: z.number().int().min(0).optional() }),
+  z.object({ action: z.literal('stash-pop'), index: z.number().int().min(0).optional() }),
+  z.object({ action: z.literal('stash-drop'), index: z.number().int().min(0).optional() }),
+  z.object({ action: z.literal('add-remote'), name: z.string().min(1), url: z.string().min(1) }),
+  z.object({ action: z.literal('remove-remote'), name: z.string().min(1) }),
+  z.object({ action: z.literal('fetch'), ...remoteOptionsSchema }),
+  z.object({ action: z.literal('pull'), ...remoteOptionsSchema }),
+  z.object({ action: z.literal('push'), ...remoteOptionsSchema, force: z.boolean().optional() }),
+]);
+
+const NOT_FOUND_CODES = ['REPOSITORY_NOT_FOUND', 'REMOTE_NOT_FOUND', 'BRANCH_NOT_FOUND', 'STASH_NOT_FOUND', 'NOT_FOUND'];
+const BAD_REQUEST_CODES = ['INVALID_REMOTE', 'INVALID_ARGUMENT'];
+
+function handleGitError(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof InfrastructureAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid git request', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof GitServiceError) {
+    const status = NOT_FOUND_CODES.includes(error.code) ? 404
+      : BAD_REQUEST_CODES.includes(error.code) ? 400
+      : 409;
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Initialize git service
+    const gitService = new WorkspaceGitService(workspaceId);
+
+    const gitState = await gitService.getState();
+    const branches = gitState.repository ? await gitService.listBranches() : [];
+
+    return NextResponse.json({
+      success: true,
+      gitState,
+      branches,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get git status:', error);
+    return handleGitError(error, 'Failed to get git status');
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body
+    const body = gitActionSchema.parse(await request.json());
+    const author = {
+      name: session.user?.name || session.user?.email || 'Workspace User',
+      email: session.user?.email || '',
+    };
+
+    // Initialize git service
+    const gitService = new WorkspaceGitService(workspaceId);
+
+    let gitState;
+    switch (body.action) {
+      case 'init':
+        gitState = await gitService.init(body.defaultBranch);
+        break;
+      case 'clone':
+        gitState = await gitService.clone(body.url, {
+          ref: body.ref,
+          depth: body.depth,
+          credentials: body.credentials,
+        });
+        break;
+      case 'stage':
+        gitState = await gitService.stage(body.paths);
+        break;
+      case 'unstage':
+        gitState = await gitService.unstage(body.paths);
+        break;
+      case 'commit':
+        gitState = await gitService.commit(body.message, author);
+        break;
+      case 'create-branch':
+        gitState = await gitService.createBranch(body.name, body.checkout);
+        break;
+      case 'checkout':
+        gitState = await gitService.checkout(body.ref, body.force);
+        break;
+      case 'delete-branch':
+        gitState = await gitService.deleteBranch(body.name);
+        break;
+      case 'merge':
+        gitState = await gitService.merge(body.ref, author);
+        break;
+      case 'abort-merge':
+        gitState = await gitService.abortMerge();
+        break;
+      case 'stash':
+        gitState = await gitService.stash(body.message, author);
+        break;
+      case 'stash-apply':
+        gitState = await gitService.applyStash(body.index);
+        break;
+      case 'stash-pop':
+        gitState = await gitService.applyStash(body.index, true);
+        break;
+      case 'stash-drop':
+        gitState = await gitService.dropStash(body.index);
+        break;
+      case 'add-remote':
+        gitState = await gitService.addRemote(body.name, body.url);
+        break;
+      case 'remove-remote':
+        gitState = await gitService.removeRemote(body.name);
+        break;
+      case 'fetch':
+        gitState = await gitService.fetch(body);
+        break;
+      case 'pull':
+        gitState = await gitService.pull(author, body);
+        break;
+      case 'push':
+        gitState = await gitService.push(body);
+        break;
+    }
+
+    // Log git operation
+    await createInfrastructureAuditLog(
+      `workspace.git_${body.action.replace(/-/g, '_')}`,
+      'workspace',
+      workspaceId,
+      {
+        action: body.action,
+        branch: gitState.repository?.branch,
+        commit: gitState.repository?.commit,
+      },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      gitState,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to run git operation:', error);
+    return handleGitError(error, 'Git operation failed');
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Workspace Code Health API Route
+ * Complexity hotspots, least maintainable files and complexity added since
+ * the latest snapshot
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceCodeHealth } from '@/lib/workspace/services/code-health';
+import { requireAuth } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const hotspotLimit = searchParams.get('hotspots') ? parseInt(searchParams.get('hotspots')!) : undefined;
+    const fileLimit = searchParams.get('files') ? parseInt(searchParams.get('files')!) : undefined;
+
+    // Initialize code health service
+    const codeHealth = new WorkspaceCodeHealth(workspaceId);
+
+    const report = await codeHealth.getReport({ hotspotLimit, fileLimit });
+
+    return NextResponse.json({
+      success: true,
+      report,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get code health report:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get code health report' },
+      { status: 500 }
+    );
+  }
+}
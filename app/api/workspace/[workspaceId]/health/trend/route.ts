@@ -0,0 +1,59 @@
+/**
+ * Workspace Code Health Trend API Route
+ * Complexity totals at each snapshot, followed by the current workspace
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceCodeHealth } from '@/lib/workspace/services/code-health';
+import { requireAuth } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse query parameters
+    const { searchParams } = new URL(request.url);
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined;
+
+    // Initialize code health service
+    const codeHealth = new WorkspaceCodeHealth(workspaceId);
+
+    const trend = await codeHealth.getTrend(limit);
+
+    return NextResponse.json({
+      success: true,
+      trend,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get code health trend:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get code health trend' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * Workspace Index API Route
+ * Background indexing progress, and re-indexing of stale files
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceFileIndexer } from '@/lib/workspace/services/file-indexer';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Initialize file indexer
+    const fileIndexer = new WorkspaceFileIndexer(workspaceId);
+
+    const status = await fileIndexer.getIndexStatus();
+
+    return NextResponse.json({
+      success: true,
+      status,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get index status:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to get index status' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body; `force` re-indexes unchanged files too
+    const body = await request.json().catch(() => ({}));
+    const force = body.force === true;
+
+    // Initialize file indexer
+    const fileIndexer = new WorkspaceFileIndexer(workspaceId);
+
+    const queued = await fileIndexer.reindexWorkspace({ force });
+
+    // Log re-index request
+    await createInfrastructureAuditLog(
+      'workspace.reindex',
+      'workspace',
+      workspaceId,
+      { workspaceId, force, queued },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      queued,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to queue workspace re-index:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to queue workspace re-index' },
+      { status: 500 }
+    );
+  }
+}
@@ -8,6 +8,7 @@ import { WorkspaceFileIndexer } from '@/lib/workspace/services/file-indexer';
 import { SearchQuery, SearchType } from '@/lib/workspace/types';
 import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
 import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
 
 interface RouteParams {
   params: {
@@ -20,6 +21,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     // Check authentication
     const session = await requireAuth();
     const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
 
     // Parse request body
     const body = await request.json();
@@ -38,7 +40,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     }
 
     // Validate search type
-    const validTypes: SearchType[] = ['content', 'filename', 'symbol', 'reference', 'semantic'];
+    const validTypes: SearchType[] = ['content', 'filename', 'symbol', 'reference', 'definition', 'semantic'];
     if (!validTypes.includes(type)) {
       return NextResponse.json(
         { error: `Invalid search type. Must be one of: ${validTypes.join(', ')}` },
@@ -81,10 +83,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     switch (type) {
       case 'content':
       case 'filename':
-      case 'semantic':
         results = await fileIndexer.searchContent(searchQuery);
         break;
 
+      case 'semantic':
+        results = await fileIndexer.searchSemantic(searchQuery);
+        break;
+
       case 'symbol':
         const symbolResults = await fileIndexer.searchSymbols(query, filters.symbolType);
         results = symbolResults.map(symbol => ({
@@ -124,7 +129,12 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         break;
 
       case 'reference':
-        const referenceResults = await fileIndexer.findReferences(query, filters.filePath);
+      case 'definition':
+        // filters.filePath is the defining file for references and the
+        // referencing file for definitions
+        const referenceResults = type === 'definition'
+          ? await fileIndexer.findDefinition(query, filters.filePath)
+          : await fileIndexer.findReferences(query, filters.filePath);
         results = referenceResults.map(ref => ({
           file: {
             id: '',
@@ -201,6 +211,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
   } catch (error) {
     console.error('Failed to search workspace:', error);
 
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     if (error instanceof InfrastructureAuthError) {
       return NextResponse.json(
         { error: error.message },
@@ -221,6 +235,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
     // Check authentication
     const session = await requireAuth();
     const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
 
     // Get query parameters
     const { searchParams } = new URL(request.url);
@@ -270,6 +285,10 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   } catch (error) {
     console.error('Failed to get search suggestions:', error);
 
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     if (error instanceof InfrastructureAuthError) {
       return NextResponse.json(
         { error: error.message },
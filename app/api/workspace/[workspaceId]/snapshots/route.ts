@@ -5,8 +5,13 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { WorkspaceStateManager } from '@/lib/workspace/services/state-manager';
+import {
+  getSupportedCompression,
+  isSnapshotEncryptionAvailable,
+} from '@/lib/workspace/services/snapshot-archive';
 import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
 import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { StorageQuotaError } from '@/lib/workspace/services/storage-quota';
 
 interface RouteParams {
   params: {
@@ -80,7 +85,7 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
 
     // Parse request body
     const body = await request.json();
-    const { name, description, type = 'manual' } = body;
+    const { name, description, type = 'manual', compression, encrypt } = body;
 
     if (!name || typeof name !== 'string') {
       return NextResponse.json(
@@ -106,11 +111,30 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    // Validate compression
+    const supportedCompression = getSupportedCompression();
+    if (compression !== undefined && !supportedCompression.includes(compression)) {
+      return NextResponse.json(
+        { error: `Invalid compression. Must be one of: ${supportedCompression.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (encrypt === true && !isSnapshotEncryptionAvailable()) {
+      return NextResponse.json(
+        { error: 'Snapshot encryption is not configured' },
+        { status: 400 }
+      );
+    }
+
     // Initialize state manager
     const stateManager = new WorkspaceStateManager(workspaceId);
 
     // Create snapshot
-    const snapshot = await stateManager.createSnapshot(name, description, type);
+    const snapshot = await stateManager.createSnapshot(name, description, type, {
+      compression,
+      encrypt,
+    });
 
     // Log creation
     await createInfrastructureAuditLog(
@@ -122,7 +146,10 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
         name,
         type,
         size: snapshot.size,
+        archiveSize: snapshot.archiveSize,
         fileCount: snapshot.fileCount,
+        compression: snapshot.compression,
+        encrypted: snapshot.encryption.enabled,
       },
       request
     );
@@ -143,6 +170,13 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
       );
     }
 
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code, usage: error.usage },
+        { status: 413 }
+      );
+    }
+
     return NextResponse.json(
       { error: 'Failed to create snapshot' },
       { status: 500 }
@@ -0,0 +1,115 @@
+/**
+ * Workspace Storage API Route
+ * Storage usage against the workspace and organization quotas
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WorkspaceStorageQuota, StorageQuotaError } from '@/lib/workspace/services/storage-quota';
+import { requireAuth, requireStorageAccess, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+const quotaSchema = z.object({
+  // Hard limit in bytes; null restores the default
+  storageQuota: z.number().int().nonnegative().nullable(),
+});
+
+function handleStorageError(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof InfrastructureAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid quota', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof StorageQuotaError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.code === 'NOT_FOUND' ? 404 : 413 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    const quota = new WorkspaceStorageQuota(workspaceId);
+    const [usage, fileTypes] = await Promise.all([
+      quota.getUsage(),
+      quota.getFileTypeBreakdown(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      usage,
+      fileTypes,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to get workspace storage usage:', error);
+    return handleStorageError(error, 'Failed to get storage usage');
+  }
+}
+
+// Set the workspace quota
+export async function PUT(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication and permissions
+    const session = await requireStorageAccess('admin');
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    const { storageQuota } = quotaSchema.parse(await request.json());
+
+    const quota = new WorkspaceStorageQuota(workspaceId);
+    await quota.setQuota(storageQuota);
+    const usage = await quota.getUsage();
+
+    // Log quota change
+    await createInfrastructureAuditLog(
+      'workspace.set_storage_quota',
+      'workspace',
+      workspaceId,
+      { workspaceId, storageQuota },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      usage,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to set workspace storage quota:', error);
+    return handleStorageError(error, 'Failed to set storage quota');
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Workspace Sync Conflicts API Route
+ * Three-way merge of sync conflicts and manual resolution
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceSyncEngine, SyncEngineError } from '@/lib/workspace/services/sync-engine';
+import { SyncEndpointError } from '@/lib/workspace/services/sync-endpoints';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+    syncId: string;
+  };
+}
+
+function handleConflictError(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof InfrastructureAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+    );
+  }
+
+  if (error instanceof SyncEngineError) {
+    const status = error.code === 'SYNC_NOT_FOUND' || error.code === 'CONFLICT_NOT_FOUND' ? 404 : 409;
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status }
+    );
+  }
+
+  if (error instanceof SyncEndpointError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, syncId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    // Get query parameters
+    const { searchParams } = new URL(request.url);
+    const path = searchParams.get('path');
+
+    if (!path) {
+      const sync = await syncEngine.getSync(syncId);
+      if (!sync) {
+        return NextResponse.json(
+          { error: 'Sync not found' },
+          { status: 404 }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        conflicts: sync.conflicts,
+        count: sync.conflicts.length,
+      });
+    }
+
+    // Merge both sides against the last common revision
+    const merge = await syncEngine.getConflictMerge(syncId, path);
+
+    return NextResponse.json({
+      success: true,
+      merge,
+    });
+
+  } catch (error) {
+    console.error('Failed to get sync conflict:', error);
+    return handleConflictError(error, 'Failed to get sync conflict');
+  }
+}
+
+// Apply a merged resolution to both endpoints
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, syncId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body
+    const body = await request.json();
+    const { path, content } = body;
+
+    if (!path || typeof path !== 'string') {
+      return NextResponse.json(
+        { error: 'Conflict path is required' },
+        { status: 400 }
+      );
+    }
+
+    if (content !== undefined && typeof content !== 'string') {
+      return NextResponse.json(
+        { error: 'Resolved content must be a string' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    // Omitting content applies the automatic merge
+    const sync = await syncEngine.applyConflictMerge(syncId, path, content);
+
+    // Log resolution
+    await createInfrastructureAuditLog(
+      'workspace.resolve_sync_conflict',
+      'workspace_sync',
+      syncId,
+      { workspaceId, path, automatic: content === undefined },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      sync,
+      message: 'Conflict resolved successfully',
+    });
+
+  } catch (error) {
+    console.error('Failed to resolve sync conflict:', error);
+    return handleConflictError(error, 'Failed to resolve sync conflict');
+  }
+}
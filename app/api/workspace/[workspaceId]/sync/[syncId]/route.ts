@@ -0,0 +1,195 @@
+/**
+ * Workspace Sync Job API Route
+ * Inspect progress, trigger runs and resolve conflicts of a sync job
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceSyncEngine, SyncEngineError } from '@/lib/workspace/services/sync-engine';
+import { SyncEndpointError } from '@/lib/workspace/services/sync-endpoints';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+    syncId: string;
+  };
+}
+
+function handleSyncError(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof InfrastructureAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+    );
+  }
+
+  if (error instanceof SyncEngineError) {
+    const status = error.code === 'SYNC_NOT_FOUND' || error.code === 'CONFLICT_NOT_FOUND' ? 404 : 409;
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status }
+    );
+  }
+
+  if (error instanceof SyncEndpointError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: 400 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, syncId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    const sync = await syncEngine.getSync(syncId);
+    if (!sync) {
+      return NextResponse.json(
+        { error: 'Sync not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sync,
+    });
+
+  } catch (error) {
+    console.error('Failed to get workspace sync:', error);
+    return handleSyncError(error, 'Failed to get sync');
+  }
+}
+
+// Run the sync job
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, syncId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body
+    const body = await request.json().catch(() => ({}));
+    const { wait = false } = body;
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    // Log trigger
+    await createInfrastructureAuditLog(
+      'workspace.run_sync',
+      'workspace_sync',
+      syncId,
+      { workspaceId, wait },
+      request
+    );
+
+    if (wait) {
+      const result = await syncEngine.runSync(syncId);
+
+      return NextResponse.json({
+        success: true,
+        result,
+      });
+    }
+
+    // Progress is written to the sync row and can be polled with GET
+    const run = syncEngine.runSync(syncId);
+    run.catch(error => console.error(`Sync ${syncId} failed:`, error));
+
+    // Surface immediate rejections (not found, already running) to the caller
+    const early = await Promise.race([
+      run.then(() => null, error => error),
+      new Promise(resolve => setTimeout(() => resolve(null), 100)),
+    ]);
+    if (early instanceof SyncEngineError) {
+      throw early;
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Sync started',
+      },
+      { status: 202 }
+    );
+
+  } catch (error) {
+    console.error('Failed to run workspace sync:', error);
+    return handleSyncError(error, 'Failed to run sync');
+  }
+}
+
+// Pause/resume the job or record a conflict resolution
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, syncId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body
+    const body = await request.json();
+    const { paused, conflict } = body;
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    let sync;
+    if (conflict) {
+      const validResolutions = ['local', 'remote', 'merge', 'skip'];
+      if (!conflict.path || !validResolutions.includes(conflict.resolution)) {
+        return NextResponse.json(
+          { error: `Conflict path and resolution (${validResolutions.join(', ')}) are required` },
+          { status: 400 }
+        );
+      }
+
+      sync = await syncEngine.resolveConflict(syncId, conflict.path, conflict.resolution);
+    } else if (typeof paused === 'boolean') {
+      sync = await syncEngine.setPaused(syncId, paused);
+    } else {
+      return NextResponse.json(
+        { error: 'Either paused or conflict is required' },
+        { status: 400 }
+      );
+    }
+
+    // Log update
+    await createInfrastructureAuditLog(
+      'workspace.update_sync',
+      'workspace_sync',
+      syncId,
+      { workspaceId, paused, conflict },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      sync,
+    });
+
+  } catch (error) {
+    console.error('Failed to update workspace sync:', error);
+    return handleSyncError(error, 'Failed to update sync');
+  }
+}
@@ -0,0 +1,222 @@
+/**
+ * Workspace Sync API Route
+ * Configure sync jobs between the workspace and external endpoints
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceSyncEngine, SyncEngineError } from '@/lib/workspace/services/sync-engine';
+import { SyncEndpointError } from '@/lib/workspace/services/sync-endpoints';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    // List sync jobs
+    const syncs = await syncEngine.listSyncs();
+
+    return NextResponse.json({
+      success: true,
+      syncs,
+      count: syncs.length,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to list workspace syncs:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to list syncs' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Parse request body
+    const body = await request.json();
+    const { type = 'manual', direction, source, target, settings, nextSync } = body;
+
+    // Validate sync type
+    const validTypes = ['realtime', 'periodic', 'manual', 'ondemand'];
+    if (!validTypes.includes(type)) {
+      return NextResponse.json(
+        { error: `Invalid sync type. Must be one of: ${validTypes.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    // Validate direction
+    const validDirections = ['upload', 'download', 'bidirectional'];
+    if (!validDirections.includes(direction)) {
+      return NextResponse.json(
+        { error: `Invalid direction. Must be one of: ${validDirections.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (!source?.type || !target?.type) {
+      return NextResponse.json(
+        { error: 'Source and target endpoints are required' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    // Create sync job
+    const sync = await syncEngine.createSync({
+      type,
+      direction,
+      source,
+      target,
+      settings,
+      nextSync: nextSync ? new Date(nextSync) : undefined,
+    });
+
+    // Log creation
+    await createInfrastructureAuditLog(
+      'workspace.create_sync',
+      'workspace_sync',
+      sync.id,
+      {
+        workspaceId,
+        type,
+        direction,
+        source: source.type,
+        target: target.type,
+      },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      sync,
+      message: 'Sync created successfully',
+    });
+
+  } catch (error) {
+    console.error('Failed to create workspace sync:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof SyncEndpointError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to create sync' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    // Get sync ID from query parameters
+    const { searchParams } = new URL(request.url);
+    const syncId = searchParams.get('syncId');
+
+    if (!syncId) {
+      return NextResponse.json(
+        { error: 'Sync ID is required' },
+        { status: 400 }
+      );
+    }
+
+    // Initialize sync engine
+    const syncEngine = new WorkspaceSyncEngine(workspaceId);
+
+    // Delete sync job
+    await syncEngine.deleteSync(syncId);
+
+    // Log deletion
+    await createInfrastructureAuditLog(
+      'workspace.delete_sync',
+      'workspace_sync',
+      syncId,
+      { workspaceId },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      message: 'Sync deleted successfully',
+    });
+
+  } catch (error) {
+    console.error('Failed to delete workspace sync:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    if (error instanceof SyncEngineError && error.code === 'SYNC_NOT_FOUND') {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to delete sync' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * Workspace Trash Item API Route
+ * Restore or permanently delete a trashed file or directory
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { WorkspaceTrash, WorkspaceTrashError } from '@/lib/workspace/services/trash';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+    itemId: string;
+  };
+}
+
+const restoreSchema = z.object({
+  targetPath: z.string().min(1).optional(),
+});
+
+function handleTrashError(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof WorkspaceAccessError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  if (error instanceof InfrastructureAuthError) {
+    return NextResponse.json(
+      { error: error.message },
+      { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+    );
+  }
+
+  if (error instanceof z.ZodError) {
+    return NextResponse.json(
+      { error: 'Invalid restore request', details: error.errors },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof WorkspaceTrashError) {
+    return NextResponse.json(
+      { error: error.message, code: error.code },
+      { status: error.code === 'NOT_FOUND' ? 404 : 409 }
+    );
+  }
+
+  return NextResponse.json(
+    { error: fallbackMessage },
+    { status: 500 }
+  );
+}
+
+// Restore to the original path, or to `targetPath`
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, itemId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    const body = restoreSchema.parse(await request.json().catch(() => ({})));
+
+    const trash = new WorkspaceTrash(workspaceId);
+    const result = await trash.restore(itemId, { targetPath: body.targetPath });
+
+    // Log restore
+    await createInfrastructureAuditLog(
+      'workspace.restore_from_trash',
+      'workspace_file',
+      result.path,
+      { workspaceId, itemId, originalPath: result.item.path, fileCount: result.restoredPaths.length },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to restore trash item:', error);
+    return handleTrashError(error, 'Failed to restore from trash');
+  }
+}
+
+// Delete permanently
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId, itemId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    const trash = new WorkspaceTrash(workspaceId);
+    const item = await trash.purge(itemId);
+
+    // Log permanent deletion
+    await createInfrastructureAuditLog(
+      'workspace.purge_trash_item',
+      'workspace_file',
+      item.path,
+      { workspaceId, itemId, fileCount: item.fileCount },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      item,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to purge trash item:', error);
+    return handleTrashError(error, 'Failed to delete trash item');
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Workspace Trash API Route
+ * List deleted files and empty the trash
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { WorkspaceTrash } from '@/lib/workspace/services/trash';
+import { requireAuth, createInfrastructureAuditLog } from '@/lib/auth/infrastructure-auth';
+import { InfrastructureAuthError } from '@/lib/auth/infrastructure-auth';
+import { requireWorkspaceAccess, WorkspaceAccessError } from '@/lib/auth/workspace-access';
+
+interface RouteParams {
+  params: {
+    workspaceId: string;
+  };
+}
+
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    const trash = new WorkspaceTrash(workspaceId);
+    const items = await trash.listItems();
+
+    return NextResponse.json({
+      success: true,
+      items,
+      count: items.length,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to list workspace trash:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to list trash' },
+      { status: 500 }
+    );
+  }
+}
+
+// Empty the trash
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  try {
+    // Check authentication
+    const session = await requireAuth();
+    const { workspaceId } = params;
+    await requireWorkspaceAccess(session.user?.id, workspaceId);
+
+    const trash = new WorkspaceTrash(workspaceId);
+    const purged = await trash.empty();
+
+    // Log permanent deletion
+    await createInfrastructureAuditLog(
+      'workspace.empty_trash',
+      'workspace',
+      workspaceId,
+      { workspaceId, purged },
+      request
+    );
+
+    return NextResponse.json({
+      success: true,
+      purged,
+      workspaceId,
+    });
+
+  } catch (error) {
+    console.error('Failed to empty workspace trash:', error);
+
+    if (error instanceof WorkspaceAccessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    if (error instanceof InfrastructureAuthError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.code === 'INSUFFICIENT_PERMISSIONS' ? 403 : 401 }
+      );
+    }
+
+    return NextResponse.json(
+      { error: 'Failed to empty trash' },
+      { status: 500 }
+    );
+  }
+}
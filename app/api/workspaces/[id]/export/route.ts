@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { auth } from "@/auth";
+import { getWorkspaceById } from "@/lib/data/workspace";
+import { getUserOrganizationRole } from "@/lib/data/organization";
+import { exportWorkspace } from "@/lib/workspace/services/workspace-archive";
+
+// Stream the workspace as a portable archive for import elsewhere
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const workspace = await getWorkspaceById(params.id);
+    if (!workspace) {
+      return NextResponse.json({ error: "Workspace not found" }, { status: 404 });
+    }
+
+    // Check if user has access to this workspace's organization
+    const userRole = await getUserOrganizationRole(
+      session.user.id,
+      workspace.project.organizationId
+    );
+    if (!userRole) {
+      return NextResponse.json({ error: "Access denied" }, { status: 403 });
+    }
+
+    const { manifest, filename, stream } = await exportWorkspace(params.id);
+
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+      headers: {
+        "Content-Type": "application/gzip",
+        "Content-Disposition": `attachment; filename="${filename}"`,
+        "X-Workspace-Archive-Version": manifest.formatVersion.toString(),
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting workspace:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { db } from '@/lib/db';
 import { createHash } from 'crypto';
+import { WorkspaceTrash } from '@/lib/workspace/services/trash';
+import { WorkspaceStorageQuota, StorageQuotaError } from '@/lib/workspace/services/storage-quota';
 
 export async function GET(
   request: NextRequest,
@@ -55,6 +57,7 @@ export async function GET(
         type: file.isDirectory ? 'directory' : 'file',
         size: Number(file.size),
         mimeType: file.mimeType,
+        encoding: file.encoding,
         content: file.content,
         modified: file.updatedAt,
         created: file.createdAt,
@@ -80,12 +83,18 @@ export async function PUT(
 
     const filePath = params.path.join('/');
     const body = await request.json();
-    const { content } = body;
+    const { content, encoding = 'utf-8' } = body;
 
     if (content === undefined) {
       return NextResponse.json({ error: "Content is required" }, { status: 400 });
     }
 
+    // Binary files such as saved figures arrive base64 encoded
+    if (encoding !== 'utf-8' && encoding !== 'base64') {
+      return NextResponse.json({ error: "Encoding must be utf-8 or base64" }, { status: 400 });
+    }
+    const bytes = encoding === 'base64' ? Buffer.from(content, 'base64') : Buffer.from(content, 'utf8');
+
     // Get workspace and verify access
     const workspace = await db.workspace.findUnique({
       where: { id: params.id }
@@ -117,20 +126,24 @@ export async function PUT(
     }
 
     // Calculate new hash
-    const hash = createHash('sha256').update(content).digest('hex');
-
-    // Update file
-    const updatedFile = await db.workspaceFile.update({
-      where: { id: existingFile.id },
-      data: {
-        content,
-        hash,
-        size: BigInt(Buffer.byteLength(content, 'utf8')),
-        version: existingFile.version + 1,
-        updatedAt: new Date(),
-        lastAccessedAt: new Date()
-      }
-    });
+    const hash = createHash('sha256').update(bytes).digest('hex');
+
+    // Update file, rejected past the workspace or organization storage quota
+    const updatedFile = await new WorkspaceStorageQuota(params.id).reserve(
+      bytes.length - Number(existingFile.size),
+      async () => db.workspaceFile.update({
+        where: { id: existingFile.id },
+        data: {
+          content,
+          encoding,
+          hash,
+          size: BigInt(bytes.length),
+          version: existingFile.version + 1,
+          updatedAt: new Date(),
+          lastAccessedAt: new Date()
+        }
+      })
+    );
 
     return NextResponse.json({
       file: {
@@ -148,6 +161,10 @@ export async function PUT(
     });
 
   } catch (error) {
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json({ error: error.message, code: error.code, usage: error.usage }, { status: 413 });
+    }
+
     console.error('Error updating file:', error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -191,24 +208,12 @@ export async function DELETE(
       return NextResponse.json({ error: "File not found" }, { status: 404 });
     }
 
-    // Delete file and any children (for directories)
-    if (file.isDirectory) {
-      await db.workspaceFile.deleteMany({
-        where: {
-          workspaceId: params.id,
-          OR: [
-            { path: filePath },
-            { path: { startsWith: `${filePath}/` } }
-          ]
-        }
-      });
-    } else {
-      await db.workspaceFile.delete({
-        where: { id: file.id }
-      });
-    }
+    // Move the file, or the directory with its children, to the trash
+    const trashItem = await new WorkspaceTrash(params.id).moveToTrash(filePath, {
+      deletedBy: session.user.id,
+    });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, trashItem });
 
   } catch (error) {
     console.error('Error deleting file:', error);
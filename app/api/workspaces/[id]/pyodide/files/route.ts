@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
 import { db } from '@/lib/db';
 import { createHash } from 'crypto';
+import { WorkspaceTrash, WorkspaceTrashError } from '@/lib/workspace/services/trash';
+import { WorkspaceStorageQuota, StorageQuotaError } from '@/lib/workspace/services/storage-quota';
 
 export async function GET(
   request: NextRequest,
@@ -85,12 +87,18 @@ export async function POST(
     }
 
     const body = await request.json();
-    const { path, content = '', isDirectory = false } = body;
+    const { path, content = '', isDirectory = false, encoding = 'utf-8' } = body;
 
     if (!path) {
       return NextResponse.json({ error: "Path is required" }, { status: 400 });
     }
 
+    // Binary files such as saved figures arrive base64 encoded
+    if (encoding !== 'utf-8' && encoding !== 'base64') {
+      return NextResponse.json({ error: "Encoding must be utf-8 or base64" }, { status: 400 });
+    }
+    const bytes = encoding === 'base64' ? Buffer.from(content, 'base64') : Buffer.from(content, 'utf8');
+
     // Get workspace and verify access
     const workspace = await db.workspace.findUnique({
       where: { id: params.id },
@@ -123,7 +131,7 @@ export async function POST(
     }
 
     // Calculate file hash
-    const hash = createHash('sha256').update(content).digest('hex');
+    const hash = createHash('sha256').update(bytes).digest('hex');
 
     // Get file name from path
     const name = path.split('/').pop() || path;
@@ -133,6 +141,7 @@ export async function POST(
       const ext = filename.split('.').pop()?.toLowerCase();
       switch (ext) {
         case 'py': return 'text/x-python';
+        case 'ipynb': return 'application/x-ipynb+json';
         case 'js': return 'text/javascript';
         case 'ts': return 'text/typescript';
         case 'html': return 'text/html';
@@ -140,37 +149,41 @@ export async function POST(
         case 'json': return 'application/json';
         case 'md': return 'text/markdown';
         case 'txt': return 'text/plain';
+        case 'png': return 'image/png';
         default: return 'text/plain';
       }
     };
 
-    // Create file record
-    const file = await db.workspaceFile.create({
-      data: {
-        workspaceId: params.id,
-        path,
-        name,
-        type: isDirectory ? 'directory' : 'file',
-        size: BigInt(Buffer.byteLength(content, 'utf8')),
-        mimeType: isDirectory ? 'inode/directory' : getMimeType(name),
-        encoding: 'utf-8',
-        content: isDirectory ? null : content,
-        hash,
-        isDirectory,
-        permissions: {
-          read: true,
-          write: true,
-          execute: false
-        },
-        metadata: {
-          language: isDirectory ? null : (name.endsWith('.py') ? 'python' : 'text'),
-          created: new Date().toISOString(),
-          lastModified: new Date().toISOString()
-        },
-        version: 1,
-        lastAccessedAt: new Date()
-      }
-    });
+    // Create file record, rejected past the workspace or organization storage quota
+    const file = await new WorkspaceStorageQuota(params.id).reserve(
+      isDirectory ? 0 : bytes.length,
+      async () => db.workspaceFile.create({
+        data: {
+          workspaceId: params.id,
+          path,
+          name,
+          type: isDirectory ? 'directory' : 'file',
+          size: BigInt(isDirectory ? 0 : bytes.length),
+          mimeType: isDirectory ? 'inode/directory' : getMimeType(name),
+          encoding,
+          content: isDirectory ? null : content,
+          hash,
+          isDirectory,
+          permissions: {
+            read: true,
+            write: true,
+            execute: false
+          },
+          metadata: {
+            language: isDirectory ? null : (name.endsWith('.py') ? 'python' : 'text'),
+            created: new Date().toISOString(),
+            lastModified: new Date().toISOString()
+          },
+          version: 1,
+          lastAccessedAt: new Date()
+        }
+      })
+    );
 
     return NextResponse.json({
       file: {
@@ -187,6 +200,10 @@ export async function POST(
     }, { status: 201 });
 
   } catch (error) {
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json({ error: error.message, code: error.code, usage: error.usage }, { status: 413 });
+    }
+
     console.error('Error creating file:', error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -238,18 +255,22 @@ export async function PUT(
     // Calculate new hash
     const hash = createHash('sha256').update(content).digest('hex');
 
-    // Update file
-    const updatedFile = await db.workspaceFile.update({
-      where: { id: existingFile.id },
-      data: {
-        content,
-        hash,
-        size: BigInt(Buffer.byteLength(content, 'utf8')),
-        version: existingFile.version + 1,
-        updatedAt: new Date(),
-        lastAccessedAt: new Date()
-      }
-    });
+    // Update file, rejected past the workspace or organization storage quota
+    const updatedFile = await new WorkspaceStorageQuota(params.id).reserve(
+      Buffer.byteLength(content, 'utf8') - Number(existingFile.size),
+      async () => db.workspaceFile.update({
+        where: { id: existingFile.id },
+        data: {
+          content,
+          encoding: 'utf-8',
+          hash,
+          size: BigInt(Buffer.byteLength(content, 'utf8')),
+          version: existingFile.version + 1,
+          updatedAt: new Date(),
+          lastAccessedAt: new Date()
+        }
+      })
+    );
 
     return NextResponse.json({
       file: {
@@ -266,6 +287,10 @@ export async function PUT(
     });
 
   } catch (error) {
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json({ error: error.message, code: error.code, usage: error.usage }, { status: 413 });
+    }
+
     console.error('Error updating file:', error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
@@ -302,20 +327,18 @@ export async function DELETE(
       return NextResponse.json({ error: "Not a Pyodide workspace" }, { status: 400 });
     }
 
-    // Delete file and any children (for directories)
-    await db.workspaceFile.deleteMany({
-      where: {
-        workspaceId: params.id,
-        OR: [
-          { path },
-          { path: { startsWith: `${path}/` } }
-        ]
-      }
+    // Move the file, or the directory with its children, to the trash
+    const trashItem = await new WorkspaceTrash(params.id).moveToTrash(path, {
+      deletedBy: session.user.id,
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, trashItem });
 
   } catch (error) {
+    if (error instanceof WorkspaceTrashError && error.code === 'NOT_FOUND') {
+      return NextResponse.json({ error: "File not found" }, { status: 404 });
+    }
+
     console.error('Error deleting file:', error);
     return NextResponse.json({ error: "Internal server error" }, { status: 500 });
   }
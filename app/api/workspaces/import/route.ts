@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from "next/server";
+import { Readable } from "stream";
+import { auth } from "@/auth";
+import { db } from "@/lib/db";
+import { getUserOrganizationRole } from "@/lib/data/organization";
+import { importWorkspace, WorkspaceArchiveError } from "@/lib/workspace/services/workspace-archive";
+import { StorageQuotaError } from "@/lib/workspace/services/storage-quota";
+
+// Create a workspace from an exported archive sent as the request body
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth();
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { searchParams } = new URL(request.url);
+    const projectId = searchParams.get("projectId");
+    const name = searchParams.get("name") || undefined;
+
+    if (!projectId) {
+      return NextResponse.json({ error: "Project ID is required" }, { status: 400 });
+    }
+
+    if (!request.body) {
+      return NextResponse.json({ error: "Archive is required" }, { status: 400 });
+    }
+
+    const project = await db.project.findUnique({
+      where: { id: projectId },
+      select: { organizationId: true },
+    });
+    if (!project) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    // Check if user has permission to create workspaces in this organization
+    const userRole = await getUserOrganizationRole(session.user.id, project.organizationId);
+    if (!userRole || (userRole !== "OWNER" && userRole !== "ADMIN")) {
+      return NextResponse.json({ error: "Insufficient permissions" }, { status: 403 });
+    }
+
+    const result = await importWorkspace(Readable.fromWeb(request.body as any), { projectId, name });
+    return NextResponse.json(result, { status: 201 });
+  } catch (error) {
+    console.error("Error importing workspace:", error);
+    if (error instanceof WorkspaceArchiveError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === "NOT_FOUND" ? 404 : 400 }
+      );
+    }
+    if (error instanceof StorageQuotaError) {
+      return NextResponse.json({ error: error.message, code: error.code, usage: error.usage }, { status: 413 });
+    }
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
@@ -38,6 +38,7 @@ import { WorkspacesList } from "./workspaces/workspaces-list";
 import { WebVMInstancesList } from "./webvm/webvm-instances-list";
 import { CreateProjectDialog } from "./projects/create-project-dialog";
 import { CreateWorkspaceDialog } from "./workspaces/create-workspace-dialog";
+import { ImportWorkspaceDialog } from "./workspaces/import-workspace-dialog";
 import { CreateWebVMDialog } from "./webvm/create-webvm-dialog";
 import { DashboardFilters, FilterState } from "./management/dashboard-filters";
 import { QuickActions } from "./quick-actions";
@@ -336,7 +337,10 @@ export function DashboardOverview({ organizationId }: DashboardOverviewProps) {
                 <CreateProjectDialog organizationId={organizationId} />
               )}
               {activeTab === "workspaces" && (
-                <CreateWorkspaceDialog organizationId={organizationId} />
+                <>
+                  <ImportWorkspaceDialog organizationId={organizationId} />
+                  <CreateWorkspaceDialog organizationId={organizationId} />
+                </>
               )}
               {activeTab === "instances" && (
                 <CreateWebVMDialog organizationId={organizationId} />
@@ -43,9 +43,12 @@ import {
   Archive,
   Shield,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  PieChart
 } from "lucide-react";
 import { toast } from "sonner";
+import { useOrganizationStorage } from "@/hooks/use-storage-quota";
+import type { OrganizationStorageUsage, QuotaStatus } from "@/lib/workspace/types";
 
 interface StorageBucket {
   id: string;
@@ -77,6 +80,7 @@ export function StorageManagement({ organizationId }: StorageManagementProps) {
   const [stats, setStats] = useState<StorageStats | null>(null);
   const [loading, setLoading] = useState(true);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const { usage } = useOrganizationStorage(organizationId);
 
   useEffect(() => {
     fetchStorageData();
@@ -247,6 +251,9 @@ export function StorageManagement({ organizationId }: StorageManagementProps) {
         </div>
       )}
 
+      {/* Workspace Storage Usage */}
+      {usage && <UsageBreakdown usage={usage} formatBytes={formatBytes} />}
+
       {/* Storage Buckets Management */}
       <Card>
         <CardHeader className="flex flex-row items-center justify-between">
@@ -357,6 +364,114 @@ export function StorageManagement({ organizationId }: StorageManagementProps) {
   );
 }
 
+const QUOTA_BADGE_VARIANTS: Record<QuotaStatus, "outline" | "secondary" | "destructive"> = {
+  ok: "outline",
+  warning: "secondary",
+  exceeded: "destructive",
+};
+
+// Workspace storage against the organization quota, by workspace and file type
+function UsageBreakdown({
+  usage,
+  formatBytes,
+}: {
+  usage: OrganizationStorageUsage;
+  formatBytes: (bytes: number) => string;
+}) {
+  const largestFileType = usage.fileTypes[0]?.size || 1;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <PieChart className="h-5 w-5" />
+          Workspace Storage
+        </CardTitle>
+        <CardDescription>
+          {formatBytes(usage.quota.used)} of {formatBytes(usage.quota.hardLimit)} organization quota used
+          {" "}({formatBytes(usage.categories.files)} files, {formatBytes(usage.categories.trash)} trash,
+          {" "}{formatBytes(usage.categories.snapshots)} snapshots)
+        </CardDescription>
+        <Progress value={Math.min(usage.quota.percentUsed, 100)} className="mt-2" />
+        {usage.quota.status !== "ok" && (
+          <p className="flex items-center gap-1 text-sm text-destructive">
+            <AlertTriangle className="h-4 w-4" />
+            {usage.quota.status === "exceeded"
+              ? "Organization quota exceeded. New workspace files and snapshots are rejected."
+              : `Over the ${formatBytes(usage.quota.softLimit)} soft limit.`}
+          </p>
+        )}
+      </CardHeader>
+      <CardContent className="grid gap-6 lg:grid-cols-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Workspace</TableHead>
+              <TableHead>Files</TableHead>
+              <TableHead>Trash</TableHead>
+              <TableHead>Snapshots</TableHead>
+              <TableHead>Quota</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {usage.workspaces.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={5} className="text-muted-foreground">No workspaces</TableCell>
+              </TableRow>
+            )}
+            {usage.workspaces.map((workspace) => (
+              <TableRow key={workspace.workspaceId}>
+                <TableCell>
+                  <div className="font-medium">{workspace.name}</div>
+                  <div className="text-sm text-muted-foreground">{workspace.type}</div>
+                </TableCell>
+                <TableCell>{formatBytes(workspace.files)}</TableCell>
+                <TableCell>{formatBytes(workspace.trash)}</TableCell>
+                <TableCell>{formatBytes(workspace.snapshots)}</TableCell>
+                <TableCell>
+                  <Badge
+                    variant={QUOTA_BADGE_VARIANTS[workspace.quota.status]}
+                    title={`${formatBytes(workspace.quota.used)} of ${formatBytes(workspace.quota.hardLimit)}`}
+                  >
+                    {workspace.quota.percentUsed}%
+                  </Badge>
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>File Type</TableHead>
+              <TableHead>Files</TableHead>
+              <TableHead>Size</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {usage.fileTypes.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={3} className="text-muted-foreground">No files</TableCell>
+              </TableRow>
+            )}
+            {usage.fileTypes.map((fileType) => (
+              <TableRow key={fileType.key}>
+                <TableCell className="font-mono text-sm">{fileType.label}</TableCell>
+                <TableCell>{fileType.count.toLocaleString()}</TableCell>
+                <TableCell>
+                  <div>{formatBytes(fileType.size)}</div>
+                  <Progress value={(fileType.size / largestFileType) * 100} className="mt-1 h-1" />
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
+
 // Bucket creation form
 function BucketForm({ onSubmit }: { onSubmit: (data: any) => void }) {
   const [formData, setFormData] = useState({
@@ -0,0 +1,134 @@
+"use client";
+
+import { useState } from "react";
+import { Upload } from "lucide-react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import { useImportWorkspace } from "@/hooks/use-workspaces";
+import { useProjects } from "@/hooks/use-projects";
+import { toast } from "sonner";
+
+interface ImportWorkspaceDialogProps {
+  organizationId: string;
+  onSuccess?: () => void;
+  trigger?: React.ReactNode;
+}
+
+export function ImportWorkspaceDialog({
+  organizationId,
+  onSuccess,
+  trigger
+}: ImportWorkspaceDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [archive, setArchive] = useState<File | null>(null);
+  const [projectId, setProjectId] = useState("");
+  const [name, setName] = useState("");
+  const { importWorkspace, isLoading } = useImportWorkspace();
+  const { projects } = useProjects(organizationId);
+
+  const reset = () => {
+    setArchive(null);
+    setProjectId("");
+    setName("");
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!archive || !projectId) return;
+
+    try {
+      const result = await importWorkspace(archive, projectId, name.trim() || undefined);
+      toast.success(`Imported "${result.name}" with ${result.fileCount} files`);
+      reset();
+      setOpen(false);
+      onSuccess?.();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : "Failed to import workspace");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => { setOpen(value); if (!value) reset(); }}>
+      <DialogTrigger asChild>
+        {trigger || (
+          <Button variant="outline">
+            <Upload className="h-4 w-4 mr-2" />
+            Import Workspace
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[425px]">
+        <DialogHeader>
+          <DialogTitle>Import Workspace</DialogTitle>
+          <DialogDescription>
+            Create a workspace from an archive exported from this or another instance.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="workspace-archive">Archive</Label>
+            <Input
+              id="workspace-archive"
+              type="file"
+              accept=".tar.gz,.tgz,application/gzip"
+              onChange={(e) => setArchive(e.target.files?.[0] || null)}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={projectId} onValueChange={setProjectId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a project" />
+              </SelectTrigger>
+              <SelectContent>
+                {projects.map((project: { id: string; name: string }) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    {project.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="workspace-name">Name</Label>
+            <Input
+              id="workspace-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Keep the exported name"
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!archive || !projectId || isLoading}>
+              {isLoading ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
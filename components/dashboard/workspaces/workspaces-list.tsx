@@ -151,6 +151,11 @@ export function WorkspacesList({ organizationId, query }: WorkspacesListProps) {
                     </Link>
                   </DropdownMenuItem>
                   <DropdownMenuItem>Edit Workspace</DropdownMenuItem>
+                  <DropdownMenuItem asChild>
+                    <a href={`/api/workspaces/${workspace.id}/export`} download>
+                      Export Workspace
+                    </a>
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuLabel>Change Status</DropdownMenuLabel>
                   {Object.entries(statusConfig).map(([status, config]) => (
@@ -21,6 +21,28 @@ export interface FileSystemStats {
   lastModified: Date;
 }
 
+/** How file content is stored in the workspace database; binary files are base64 */
+type FileEncoding = 'utf-8' | 'base64';
+
+function encodeBase64(data: Uint8Array): string {
+  let binary = '';
+  // Chunked so large images stay within the argument limit
+  for (let offset = 0; offset < data.length; offset += 0x8000) {
+    binary += String.fromCharCode(...data.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Content of a database file as it is written to the Pyodide file system
+ */
+function decodeContent(file: { content?: string | null; encoding?: string }): string | Uint8Array {
+  if (file.encoding === 'base64') {
+    return Uint8Array.from(atob(file.content || ''), char => char.charCodeAt(0));
+  }
+  return file.content || '';
+}
+
 export class PyodideFileSystem {
   private runtime: PyodideRuntime;
   private workspaceId: string;
@@ -90,7 +112,23 @@ os.makedirs('${fullPath}', exist_ok=True)
   }
 
   /**
-   * Delete file or directory
+   * Write binary content such as an image. The database copy is base64
+   * encoded; an existing file at the path is replaced.
+   */
+  async writeBinaryFile(path: string, data: Uint8Array): Promise<void> {
+    const fullPath = this.getFullPath(path);
+    await this.runtime.writeFile(fullPath, data);
+
+    // Sync to database
+    const content = encodeBase64(data);
+    if (!(await this.syncToDatabase(path, content, false, 'base64'))) {
+      await this.updateInDatabase(path, content, 'base64');
+    }
+  }
+
+  /**
+   * Delete file or directory. The persisted copy goes to the workspace
+   * trash, from where restoreFromDatabase() brings it back.
    */
   async delete(path: string): Promise<void> {
     if (!this.runtime.initialized) {
@@ -462,9 +500,14 @@ json.dumps(results)
   }
 
   /**
-   * Sync file to database
+   * Sync file to database. Returns false if a file already exists there.
    */
-  private async syncToDatabase(path: string, content: string, isDirectory: boolean): Promise<void> {
+  private async syncToDatabase(
+    path: string,
+    content: string,
+    isDirectory: boolean,
+    encoding: FileEncoding = 'utf-8'
+  ): Promise<boolean> {
     try {
       const response = await fetch(`/api/workspaces/${this.workspaceId}/pyodide/files`, {
         method: 'POST',
@@ -474,22 +517,27 @@ json.dumps(results)
         body: JSON.stringify({
           path,
           content,
-          isDirectory
+          isDirectory,
+          encoding
         })
       });
 
+      if (response.status === 409) {
+        return false;
+      }
       if (!response.ok) {
         console.warn(`Failed to sync file to database: ${response.statusText}`);
       }
     } catch (error) {
       console.warn('Failed to sync file to database:', error);
     }
+    return true;
   }
 
   /**
    * Update file in database
    */
-  private async updateInDatabase(path: string, content: string): Promise<void> {
+  private async updateInDatabase(path: string, content: string, encoding: FileEncoding = 'utf-8'): Promise<void> {
     try {
       const response = await fetch(`/api/workspaces/${this.workspaceId}/pyodide/files/${encodeURIComponent(path)}`, {
         method: 'PUT',
@@ -497,7 +545,8 @@ json.dumps(results)
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          content
+          content,
+          encoding
         })
       });
 
@@ -526,6 +575,41 @@ json.dumps(results)
     }
   }
 
+  /**
+   * Write specific persisted files back into the Pyodide file system,
+   * e.g. after they were restored from the trash
+   */
+  async restoreFromDatabase(paths: string[]): Promise<void> {
+    for (const path of paths) {
+      try {
+        const response = await fetch(`/api/workspaces/${this.workspaceId}/pyodide/files/${encodeURIComponent(path)}`);
+
+        if (!response.ok) {
+          console.warn(`Failed to load ${path} from database: ${response.statusText}`);
+          continue;
+        }
+
+        const { file } = await response.json();
+        if (file.type === 'directory') {
+          await this.runtime.runPython(`
+import os
+os.makedirs('${this.getFullPath(file.path)}', exist_ok=True)
+          `);
+        } else {
+          await this.runtime.runPython(`
+import os
+os.makedirs(os.path.dirname('${this.getFullPath(file.path)}'), exist_ok=True)
+          `);
+          await this.runtime.writeFile(this.getFullPath(file.path), decodeContent(file));
+        }
+      } catch (error) {
+        console.warn(`Failed to load ${path} from database:`, error);
+      }
+    }
+
+    await this.runtime.syncFileSystem();
+  }
+
   /**
    * Load files from database
    */
@@ -549,7 +633,7 @@ import os
 os.makedirs('${this.getFullPath(file.path)}', exist_ok=True)
           `);
         } else if (file.content) {
-          await this.runtime.writeFile(this.getFullPath(file.path), file.content);
+          await this.runtime.writeFile(this.getFullPath(file.path), decodeContent(file));
         }
       }
 
@@ -0,0 +1,286 @@
+/**
+ * Pyodide Code Intelligence
+ * Completions, signatures, hover docs and go-to-definition for Python,
+ * answered by Jedi running inside the workspace's Pyodide runtime
+ */
+
+import type { PyodideRuntime } from './pyodide-runtime';
+import type { PackageInfo } from './pyodide-packages';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Position in a document; line is 1-based, column is 0-based as in Jedi */
+export interface SourcePosition {
+  line: number;
+  column: number;
+}
+
+export interface CompletionInfo {
+  name: string;
+  /** Jedi type: module, class, instance, function, param, path, keyword, property or statement */
+  type: string;
+  description: string;
+}
+
+export interface SignatureInfo {
+  label: string;
+  params: string[];
+  /** Index of the parameter under the cursor, if any */
+  activeParameter: number | null;
+  docstring: string;
+}
+
+export interface HoverInfo {
+  name: string;
+  type: string;
+  signatures: string[];
+  docstring: string;
+}
+
+export interface DefinitionInfo {
+  /** Absolute path in the runtime file system, or null for builtins */
+  path: string | null;
+  line: number;
+  column: number;
+}
+
+const JEDI_MODULE = '_vibekraft_jedi';
+
+/** Longest completion list sent back to the editor */
+const MAX_COMPLETIONS = 200;
+
+/**
+ * Python side of the service. Files are analyzed as part of the /workspace
+ * project, so imports between workspace files and installed packages resolve.
+ */
+const JEDI_SOURCE = `
+import importlib, importlib.metadata, json, re
+import jedi
+
+_environment = jedi.InterpreterEnvironment()
+_project = jedi.Project('/workspace')
+
+
+def _script(source, path):
+    return jedi.Script(source, path=path, project=_project, environment=_environment)
+
+
+def complete(source, path, line, column):
+    completions = _script(source, path).complete(line, column)
+    return json.dumps([
+        {'name': c.name, 'type': c.type, 'description': c.description}
+        for c in completions[:${MAX_COMPLETIONS}]
+    ])
+
+
+def completion_docstring(source, path, line, column, name):
+    for completion in _script(source, path).complete(line, column):
+        if completion.name == name:
+            return json.dumps(completion.docstring())
+    return json.dumps('')
+
+
+def signatures(source, path, line, column):
+    return json.dumps([
+        {
+            'label': signature.to_string(),
+            'params': [param.to_string() for param in signature.params],
+            'activeParameter': signature.index,
+            'docstring': signature.docstring(raw=True),
+        }
+        for signature in _script(source, path).get_signatures(line, column)
+    ])
+
+
+def hover(source, path, line, column):
+    names = _script(source, path).help(line, column)
+    if not names:
+        return json.dumps(None)
+    name = names[0]
+    return json.dumps({
+        'name': name.full_name or name.name,
+        'type': name.type,
+        'signatures': [signature.to_string() for signature in name.get_signatures()],
+        'docstring': name.docstring(raw=True),
+    })
+
+
+def definitions(source, path, line, column):
+    names = _script(source, path).goto(line, column, follow_imports=True)
+    return json.dumps([
+        {
+            'path': str(name.module_path) if name.module_path else None,
+            'line': name.line,
+            'column': name.column,
+        }
+        for name in names if name.line is not None
+    ])
+
+
+def _normalize(name):
+    return re.sub(r'[-_.]+', '-', name).lower()
+
+
+def refresh_packages(distributions):
+    # Pick up newly installed packages and parse them ahead of the first lookup
+    importlib.invalidate_caches()
+    wanted = {_normalize(name) for name in distributions}
+    modules = [
+        module
+        for module, owners in importlib.metadata.packages_distributions().items()
+        if not module.startswith('_') and any(_normalize(owner) in wanted for owner in owners)
+    ]
+    if modules:
+        jedi.preload_module(*modules)
+    return json.dumps(modules)
+`;
+
+// =============================================================================
+// SERVICE
+// =============================================================================
+
+export class PyodideCodeIntelligence {
+  private runtime: PyodideRuntime;
+  private ready: Promise<boolean> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private generations: Map<string, number> = new Map();
+  private knownPackages: Set<string> | null = null;
+
+  constructor(runtime: PyodideRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Complete the identifier at a position
+   */
+  async complete(source: string, path: string, position: SourcePosition): Promise<CompletionInfo[]> {
+    return (await this.call<CompletionInfo[]>('complete', [source, path, position.line, position.column])) ?? [];
+  }
+
+  /**
+   * Docstring of one completion, fetched when the editor shows its details
+   */
+  async completionDocstring(source: string, path: string, position: SourcePosition, name: string): Promise<string> {
+    return (await this.call<string>('completion_docstring', [source, path, position.line, position.column, name], false)) ?? '';
+  }
+
+  /**
+   * Signatures of the call around a position
+   */
+  async signatures(source: string, path: string, position: SourcePosition): Promise<SignatureInfo[]> {
+    return (await this.call<SignatureInfo[]>('signatures', [source, path, position.line, position.column])) ?? [];
+  }
+
+  /**
+   * Documentation for the name at a position
+   */
+  async hover(source: string, path: string, position: SourcePosition): Promise<HoverInfo | null> {
+    return this.call<HoverInfo | null>('hover', [source, path, position.line, position.column]);
+  }
+
+  /**
+   * Where the name at a position is defined, following imports
+   */
+  async definitions(source: string, path: string, position: SourcePosition): Promise<DefinitionInfo[]> {
+    return (await this.call<DefinitionInfo[]>('definitions', [source, path, position.line, position.column])) ?? [];
+  }
+
+  /**
+   * Contents of a file a definition points into, or null if unreadable
+   */
+  async readSource(path: string): Promise<string | null> {
+    try {
+      return await this.runtime.readFile(path);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Tell Jedi about the packages PyodidePackageManager reports. Packages
+   * installed since the last call are parsed ahead of time.
+   */
+  async setPackages(packages: PackageInfo[]): Promise<void> {
+    const names = packages.map(pkg => pkg.name);
+    const added = this.knownPackages ? names.filter(name => !this.knownPackages!.has(name)) : [];
+    this.knownPackages = new Set(names);
+
+    if (added.length > 0 && this.ready) {
+      await this.call('refresh_packages', [added], false);
+    }
+  }
+
+  /**
+   * Run a helper function in the runtime. Lookups of the same kind replace
+   * each other while queued, and none run while user code is executing, so
+   * typing never waits on a long script.
+   */
+  private call<T>(fn: string, args: unknown[], latestOnly: boolean = true): Promise<T | null> {
+    const generation = (this.generations.get(fn) ?? 0) + 1;
+    this.generations.set(fn, generation);
+
+    const result = this.queue.then(async () => {
+      if (latestOnly && this.generations.get(fn) !== generation) return null;
+      if (!this.runtime.initialized || this.runtime.executing) return null;
+      if (!(await this.ensureJedi())) return null;
+
+      // Arguments travel as a JSON string literal, which Python parses as-is
+      const execution = await this.runtime.runPython(
+        `__import__('${JEDI_MODULE}').${fn}(*__import__('json').loads(${JSON.stringify(JSON.stringify(args))}))`
+      );
+      if (!execution.success) {
+        // A restarted runtime has lost the helper; load it again next time
+        this.ready = null;
+        console.warn(`Code intelligence ${fn} failed:`, execution.error);
+        return null;
+      }
+      return JSON.parse(execution.result) as T;
+    });
+
+    this.queue = result.catch(() => undefined);
+    return result.catch(error => {
+      console.warn(`Code intelligence ${fn} failed:`, error);
+      return null;
+    });
+  }
+
+  /**
+   * Load Jedi and the helper module once per runtime session
+   */
+  private ensureJedi(): Promise<boolean> {
+    if (!this.ready) {
+      this.ready = this.loadJedi();
+      // Let a later call retry after a failure, e.g. while offline
+      this.ready.then(ok => {
+        if (!ok) this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  private async loadJedi(): Promise<boolean> {
+    const check = await this.runtime.runPython(`'${JEDI_MODULE}' in __import__('sys').modules`);
+    if (check.success && check.result === true) return true;
+
+    if (!(await this.runtime.installPackage('jedi'))) {
+      return false;
+    }
+
+    // Installed from a function so nothing leaks into the user's globals
+    const install = await this.runtime.runPython(`
+def _install_jedi_helper():
+    import sys, types
+    module = types.ModuleType('${JEDI_MODULE}')
+    exec(${JSON.stringify(JEDI_SOURCE)}, module.__dict__)
+    sys.modules['${JEDI_MODULE}'] = module
+_install_jedi_helper()
+del _install_jedi_helper
+`);
+    if (!install.success) {
+      console.warn('Failed to load Jedi:', install.error);
+    }
+    return install.success;
+  }
+}
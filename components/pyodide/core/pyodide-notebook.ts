@@ -0,0 +1,430 @@
+/**
+ * Pyodide Notebook Service
+ * Reads and writes Jupyter (.ipynb, nbformat 4) documents and executes their
+ * cells against a PyodideRuntime's globals
+ */
+
+import type { PyodideRuntime } from './pyodide-runtime';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/** Mime type to payload; binary images are base64 strings */
+export type MimeBundle = Record<string, unknown>;
+
+export type NotebookOutput =
+  | { output_type: 'stream'; name: 'stdout' | 'stderr'; text: string }
+  | { output_type: 'display_data'; data: MimeBundle; metadata: Record<string, unknown> }
+  | { output_type: 'execute_result'; execution_count: number | null; data: MimeBundle; metadata: Record<string, unknown> }
+  | { output_type: 'error'; ename: string; evalue: string; traceback: string[] };
+
+export interface NotebookCodeCell {
+  id: string;
+  cell_type: 'code';
+  source: string;
+  metadata: Record<string, unknown>;
+  execution_count: number | null;
+  outputs: NotebookOutput[];
+}
+
+export interface NotebookTextCell {
+  id: string;
+  cell_type: 'markdown' | 'raw';
+  source: string;
+  metadata: Record<string, unknown>;
+  attachments?: Record<string, MimeBundle>;
+}
+
+export type NotebookCell = NotebookCodeCell | NotebookTextCell;
+
+/**
+ * In-memory notebook. Multi-line strings are kept joined; they are split
+ * back into line arrays on save, as Jupyter does.
+ */
+export interface NotebookDocument {
+  nbformat: 4;
+  nbformat_minor: number;
+  metadata: Record<string, unknown>;
+  cells: NotebookCell[];
+}
+
+export const NOTEBOOK_EXTENSION = '.ipynb';
+
+const NBFORMAT_MINOR = 5;
+
+const DEFAULT_METADATA = {
+  kernelspec: {
+    name: 'python3',
+    display_name: 'Python 3 (Pyodide)',
+    language: 'python'
+  },
+  language_info: {
+    name: 'python',
+    file_extension: '.py',
+    mimetype: 'text/x-python'
+  }
+};
+
+// =============================================================================
+// DOCUMENT FORMAT
+// =============================================================================
+
+export function isNotebookPath(path: string): boolean {
+  return path.toLowerCase().endsWith(NOTEBOOK_EXTENSION);
+}
+
+export function createCell(cellType: NotebookCell['cell_type'], source: string = ''): NotebookCell {
+  const id = createCellId();
+  if (cellType === 'code') {
+    return { id, cell_type: 'code', source, metadata: {}, execution_count: null, outputs: [] };
+  }
+  return { id, cell_type: cellType, source, metadata: {} };
+}
+
+/**
+ * Build a notebook from cell sources, e.g. for seed projects
+ */
+export function createNotebook(
+  cells: { cell_type: NotebookCell['cell_type']; source: string }[] = [{ cell_type: 'code', source: '' }]
+): NotebookDocument {
+  return {
+    nbformat: 4,
+    nbformat_minor: NBFORMAT_MINOR,
+    metadata: structuredCloneJson(DEFAULT_METADATA),
+    cells: cells.map(cell => createCell(cell.cell_type, cell.source))
+  };
+}
+
+/**
+ * Parse .ipynb text, accepting any nbformat 4 document
+ */
+export function parseNotebook(text: string): NotebookDocument {
+  let raw: any;
+  try {
+    raw = text.trim() ? JSON.parse(text) : createNotebook();
+  } catch {
+    throw new Error('Notebook is not valid JSON');
+  }
+
+  if (!raw || typeof raw !== 'object' || !Array.isArray(raw.cells)) {
+    throw new Error('Notebook has no cells');
+  }
+  if (raw.nbformat !== 4) {
+    throw new Error(`Unsupported notebook format ${raw.nbformat ?? 'unknown'}, expected nbformat 4`);
+  }
+
+  return {
+    nbformat: 4,
+    nbformat_minor: typeof raw.nbformat_minor === 'number' ? raw.nbformat_minor : NBFORMAT_MINOR,
+    metadata: raw.metadata && typeof raw.metadata === 'object' ? raw.metadata : structuredCloneJson(DEFAULT_METADATA),
+    cells: raw.cells.map(parseCell)
+  };
+}
+
+function parseCell(raw: any): NotebookCell {
+  const id = typeof raw.id === 'string' && raw.id ? raw.id : createCellId();
+  const source = joinLines(raw.source);
+  const metadata = raw.metadata && typeof raw.metadata === 'object' ? raw.metadata : {};
+
+  if (raw.cell_type === 'code') {
+    return {
+      id,
+      cell_type: 'code',
+      source,
+      metadata,
+      execution_count: typeof raw.execution_count === 'number' ? raw.execution_count : null,
+      outputs: Array.isArray(raw.outputs) ? raw.outputs.map(parseOutput) : []
+    };
+  }
+
+  return {
+    id,
+    cell_type: raw.cell_type === 'raw' ? 'raw' : 'markdown',
+    source,
+    metadata,
+    ...(raw.attachments ? { attachments: raw.attachments } : {})
+  };
+}
+
+function parseOutput(raw: any): NotebookOutput {
+  switch (raw.output_type) {
+    case 'stream':
+      return { output_type: 'stream', name: raw.name === 'stderr' ? 'stderr' : 'stdout', text: joinLines(raw.text) };
+    case 'execute_result':
+      return {
+        output_type: 'execute_result',
+        execution_count: raw.execution_count ?? null,
+        data: parseMimeBundle(raw.data),
+        metadata: raw.metadata || {}
+      };
+    case 'error':
+      return {
+        output_type: 'error',
+        ename: String(raw.ename ?? 'Error'),
+        evalue: String(raw.evalue ?? ''),
+        traceback: Array.isArray(raw.traceback) ? raw.traceback.map(String) : []
+      };
+    default:
+      return { output_type: 'display_data', data: parseMimeBundle(raw.data), metadata: raw.metadata || {} };
+  }
+}
+
+function parseMimeBundle(raw: any): MimeBundle {
+  const bundle: MimeBundle = {};
+  for (const [mime, value] of Object.entries(raw || {})) {
+    // JSON payloads are objects; everything else may be split into lines
+    bundle[mime] = mime.endsWith('json') ? value : joinLines(value);
+  }
+  return bundle;
+}
+
+/**
+ * Serialize for saving, in the same layout Jupyter writes
+ */
+export function serializeNotebook(notebook: NotebookDocument): string {
+  const cells = notebook.cells.map(cell => {
+    if (cell.cell_type !== 'code') {
+      return { ...cell, source: splitLines(cell.source) };
+    }
+    return {
+      ...cell,
+      source: splitLines(cell.source),
+      outputs: cell.outputs.map(output =>
+        output.output_type === 'stream' ? { ...output, text: splitLines(output.text) } : output
+      )
+    };
+  });
+
+  return JSON.stringify({ ...notebook, cells }, null, 1) + '\n';
+}
+
+function joinLines(value: unknown): string {
+  if (Array.isArray(value)) return value.join('');
+  return typeof value === 'string' ? value : '';
+}
+
+/**
+ * Split keeping line endings, so joining the result restores the text
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function createCellId(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function structuredCloneJson<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+const KERNEL_MODULE = '_vibekraft_notebook';
+
+/**
+ * Python side of cell execution. Runs a cell in __main__ so it shares
+ * globals with the terminal and editor, captures prints and display()
+ * calls in order, renders results through their _repr_*_ methods and turns
+ * open matplotlib figures into PNGs.
+ */
+const KERNEL_SOURCE = `
+import base64, builtins, io, json, os, sys, traceback, warnings
+from pyodide.code import eval_code_async
+
+# Render figures off-screen; there is no DOM in the worker
+os.environ.setdefault('MPLBACKEND', 'agg')
+warnings.filterwarnings('ignore', message='.*non-interactive.*')
+
+_REPR_METHODS = [
+    ('text/html', '_repr_html_'),
+    ('text/markdown', '_repr_markdown_'),
+    ('image/svg+xml', '_repr_svg_'),
+    ('image/png', '_repr_png_'),
+    ('image/jpeg', '_repr_jpeg_'),
+    ('text/latex', '_repr_latex_'),
+    ('application/json', '_repr_json_'),
+]
+
+_outputs = None
+
+
+def _is_figure(obj):
+    figure = sys.modules.get('matplotlib.figure')
+    return figure is not None and isinstance(obj, figure.Figure)
+
+
+def _figure_png(fig):
+    buffer = io.BytesIO()
+    fig.savefig(buffer, format='png', bbox_inches='tight')
+    return base64.b64encode(buffer.getvalue()).decode('ascii')
+
+
+def mimebundle(obj):
+    bundle = {}
+    method = getattr(obj, '_repr_mimebundle_', None)
+    if callable(method):
+        try:
+            data = method()
+            bundle.update((data[0] if isinstance(data, tuple) else data) or {})
+        except Exception:
+            pass
+    for mime, name in _REPR_METHODS:
+        method = getattr(obj, name, None)
+        if mime in bundle or not callable(method):
+            continue
+        try:
+            value = method()
+        except Exception:
+            continue
+        if isinstance(value, tuple):
+            value = value[0]
+        if value is None:
+            continue
+        if isinstance(value, bytes):
+            value = base64.b64encode(value).decode('ascii')
+        bundle[mime] = value
+    if _is_figure(obj) and 'image/png' not in bundle:
+        bundle['image/png'] = _figure_png(obj)
+    bundle['text/plain'] = repr(obj)
+    return bundle
+
+
+def display(*objs):
+    for obj in objs:
+        output = {'output_type': 'display_data', 'data': mimebundle(obj), 'metadata': {}}
+        if _outputs is None:
+            print(output['data']['text/plain'])
+        else:
+            _outputs.append(output)
+
+
+def capture_figures():
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is None:
+        return
+    for number in pyplot.get_fignums():
+        display(pyplot.figure(number))
+    pyplot.close('all')
+
+
+def _patch_pyplot():
+    pyplot = sys.modules.get('matplotlib.pyplot')
+    if pyplot is not None and pyplot.show is not _show:
+        pyplot.show = _show
+
+
+def _show(*args, **kwargs):
+    capture_figures()
+
+
+class _Stream(io.TextIOBase):
+    def __init__(self, name):
+        self.name = name
+
+    def writable(self):
+        return True
+
+    def write(self, text):
+        last = _outputs[-1] if _outputs else None
+        if last and last['output_type'] == 'stream' and last['name'] == self.name:
+            last['text'] += text
+        else:
+            _outputs.append({'output_type': 'stream', 'name': self.name, 'text': text})
+        return len(text)
+
+
+def _format_error(error, filename):
+    tb = error.__traceback__
+    # Drop the kernel's own frames
+    while tb is not None and tb.tb_frame.f_code.co_filename != filename:
+        tb = tb.tb_next
+    return {
+        'output_type': 'error',
+        'ename': type(error).__name__,
+        'evalue': str(error),
+        'traceback': traceback.format_exception(type(error), error, tb),
+    }
+
+
+async def run_cell(source, execution_count):
+    global _outputs
+    _outputs = outputs = []
+    filename = '<cell-%d>' % execution_count
+    stdout, stderr = sys.stdout, sys.stderr
+    sys.stdout, sys.stderr = _Stream('stdout'), _Stream('stderr')
+    _patch_pyplot()
+    try:
+        result = await eval_code_async(source, globals=sys.modules['__main__'].__dict__, filename=filename)
+        _patch_pyplot()
+        capture_figures()
+        if result is not None and not _is_figure(result):
+            outputs.append({
+                'output_type': 'execute_result',
+                'execution_count': execution_count,
+                'data': mimebundle(result),
+                'metadata': {},
+            })
+    except BaseException as error:
+        outputs.append(_format_error(error, filename))
+    finally:
+        sys.stdout, sys.stderr = stdout, stderr
+        _outputs = None
+    return json.dumps(outputs, default=str)
+
+
+builtins.display = display
+`;
+
+/**
+ * Execute one cell and return its outputs. Failures inside the cell become
+ * error outputs; only a dead runtime rejects.
+ */
+export async function executeNotebookCell(
+  runtime: PyodideRuntime,
+  source: string,
+  executionCount: number
+): Promise<NotebookOutput[]> {
+  await ensureKernel(runtime);
+
+  const result = await runtime.runPython(
+    `await __import__('${KERNEL_MODULE}').run_cell(${JSON.stringify(source)}, ${executionCount})`
+  );
+
+  if (!result.success) {
+    // Stopped before the kernel could report, e.g. a timeout or restart
+    return [{
+      output_type: 'error',
+      ename: result.timedOut ? 'TimeoutError' : result.interrupted ? 'KeyboardInterrupt' : 'KernelError',
+      evalue: result.error || 'Cell execution failed',
+      traceback: [result.error || 'Cell execution failed']
+    }];
+  }
+
+  return JSON.parse(result.result) as NotebookOutput[];
+}
+
+/**
+ * Install the kernel helper module; a restarted runtime needs it again
+ */
+async function ensureKernel(runtime: PyodideRuntime): Promise<void> {
+  const check = await runtime.runPython(`'${KERNEL_MODULE}' in __import__('sys').modules`);
+  if (check.success && check.result === true) return;
+
+  // Installed from a function so nothing leaks into the notebook's globals
+  const install = await runtime.runPython(`
+def _install_notebook_kernel():
+    import sys, types
+    module = types.ModuleType('${KERNEL_MODULE}')
+    exec(${JSON.stringify(KERNEL_SOURCE)}, module.__dict__)
+    sys.modules['${KERNEL_MODULE}'] = module
+_install_notebook_kernel()
+del _install_notebook_kernel
+`);
+  if (!install.success) {
+    throw new Error(`Failed to start notebook kernel: ${install.error}`);
+  }
+}
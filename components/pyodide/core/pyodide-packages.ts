@@ -4,6 +4,7 @@
  */
 
 import { PyodideRuntime } from './pyodide-runtime';
+import { PyodideFileSystem } from './pyodide-filesystem';
 
 export interface PackageInfo {
   name: string;
@@ -33,13 +34,145 @@ export interface PackageSearchResult {
   keywords?: string[];
 }
 
+/** Workspace file pinning the exact environment, replayed when the workspace is restored */
+export const LOCK_FILE_PATH = 'packages.lock.json';
+
+const LOCK_VERSION = 1;
+
+export interface LockedPackage {
+  /** PEP 503 normalized name */
+  name: string;
+  version: string;
+  /** Digest of the wheel the package was installed from, when known */
+  sha256: string | null;
+  /** 'pyodide' for packages built into the distribution, 'index' for wheels micropip downloaded */
+  source: 'pyodide' | 'index';
+  /** Wheel micropip downloaded an 'index' package from; absent in older lock files */
+  url?: string | null;
+}
+
+export interface PackageLock {
+  lockVersion: number;
+  pyodideVersion: string;
+  pythonVersion: string;
+  packages: LockedPackage[];
+}
+
+export type EnvironmentDiffStatus = 'missing' | 'extra' | 'version' | 'hash';
+
+export interface EnvironmentDiffEntry {
+  name: string;
+  status: EnvironmentDiffStatus;
+  locked: LockedPackage | null;
+  installed: LockedPackage | null;
+}
+
+/**
+ * Every installed distribution with its version and wheel digest. Pyodide's
+ * own lockfile has the digests of built-in packages; micropip records the
+ * URL and digest of each wheel it installs in PYODIDE_URL and PYODIDE_SHA256.
+ */
+const LOCK_ENVIRONMENT_SCRIPT = `
+import importlib.metadata
+import json
+import platform
+import re
+import pyodide_js
+
+def _lock_environment():
+    builtin = pyodide_js.lockfile.packages.as_object_map()
+    packages = {}
+    for dist in importlib.metadata.distributions():
+        name = re.sub(r'[-_.]+', '-', dist.metadata['Name']).lower()
+        installer = (dist.read_text('INSTALLER') or '').strip()
+        if installer != 'micropip' and name in builtin and builtin[name].version == dist.version:
+            packages[name] = {'name': name, 'version': dist.version, 'sha256': builtin[name].sha256, 'source': 'pyodide', 'url': None}
+        else:
+            sha256 = (dist.read_text('PYODIDE_SHA256') or '').strip() or None
+            url = (dist.read_text('PYODIDE_URL') or '').strip() or None
+            packages[name] = {'name': name, 'version': dist.version, 'sha256': sha256, 'source': 'index', 'url': url}
+    return json.dumps({
+        'lockVersion': ${LOCK_VERSION},
+        'pyodideVersion': pyodide_js.version,
+        'pythonVersion': platform.python_version(),
+        'packages': [packages[name] for name in sorted(packages)],
+    })
+
+_lock_environment()
+`;
+
+/**
+ * Install one locked package without its dependencies. Built-in packages
+ * must match the digest in Pyodide's lockfile before they are loaded; a
+ * downloaded wheel is checked against the digest micropip records for the
+ * bytes it installed, and removed again when it does not match.
+ */
+const INSTALL_LOCKED_SCRIPT = `
+import importlib.metadata
+import micropip
+import pyodide_js
+
+async def _install_locked(name, version, requirement, sha256, builtin, reinstall):
+    if builtin:
+        packages = pyodide_js.lockfile.packages.as_object_map()
+        if name not in packages or packages[name].version != version:
+            raise ValueError(f'{name}=={version} is not built into this Pyodide version')
+        if sha256 and packages[name].sha256 != sha256:
+            raise ValueError(f'{name}=={version}: Pyodide has digest {packages[name].sha256}, the lock file has {sha256}')
+    await micropip.install(requirement, deps=False, reinstall=reinstall)
+    if sha256 and not builtin:
+        installed = (importlib.metadata.distribution(name).read_text('PYODIDE_SHA256') or '').strip()
+        if installed != sha256:
+            micropip.uninstall(name)
+            raise ValueError(f'{name}=={version}: the wheel has digest {installed or "unknown"}, the lock file has {sha256}')
+`;
+
+function pythonString(value: string | null | undefined): string {
+  return value ? JSON.stringify(value) : 'None';
+}
+
+/**
+ * Where the runtime departs from a lock file, sorted by package name
+ */
+export function diffPackageLocks(locked: PackageLock, current: PackageLock): EnvironmentDiffEntry[] {
+  const installed = new Map(current.packages.map(pkg => [pkg.name, pkg]));
+  const entries: EnvironmentDiffEntry[] = [];
+
+  for (const pkg of locked.packages) {
+    const match = installed.get(pkg.name) ?? null;
+    installed.delete(pkg.name);
+
+    if (!match) {
+      entries.push({ name: pkg.name, status: 'missing', locked: pkg, installed: null });
+    } else if (match.version !== pkg.version) {
+      entries.push({ name: pkg.name, status: 'version', locked: pkg, installed: match });
+    } else if (pkg.sha256 && match.sha256 && pkg.sha256 !== match.sha256) {
+      entries.push({ name: pkg.name, status: 'hash', locked: pkg, installed: match });
+    }
+  }
+
+  for (const pkg of installed.values()) {
+    entries.push({ name: pkg.name, status: 'extra', locked: null, installed: pkg });
+  }
+
+  return entries.sort((a, b) => a.name.localeCompare(b.name));
+}
+
 export class PyodidePackageManager {
   private runtime: PyodideRuntime;
+  private fileSystem: PyodideFileSystem | null;
   private installedPackages: Map<string, PackageInfo> = new Map();
   private installationCallbacks: Map<string, (progress: InstallationProgress) => void> = new Map();
+  /** Environment after the last install or uninstall, replayed after a restart without a lock file */
+  private sessionLock: PackageLock | null = null;
+  private removeRestartListener: (() => void) | null = null;
 
-  constructor(runtime: PyodideRuntime) {
+  /**
+   * Without a file system the package manager keeps no lock file
+   */
+  constructor(runtime: PyodideRuntime, fileSystem?: PyodideFileSystem) {
     this.runtime = runtime;
+    this.fileSystem = fileSystem ?? null;
   }
 
   /**
@@ -59,6 +192,8 @@ print("Package manager initialized")
 
       // Load installed packages
       await this.refreshInstalledPackages();
+
+      this.removeRestartListener ??= this.runtime.onRestart(() => this.restorePackages());
     } catch (error) {
       console.error('Failed to initialize package manager:', error);
       throw error;
@@ -66,7 +201,9 @@ print("Package manager initialized")
   }
 
   /**
-   * Install a Python package
+   * Install a Python package. micropip tries the runtime's package indexes
+   * in order, so with the package mirror enabled an approved wheel is used
+   * before PyPI is consulted.
    */
   async installPackage(
     packageName: string, 
@@ -92,20 +229,11 @@ print("Package manager initialized")
         message: `Starting installation of ${packageName}`
       });
 
-      // Install package
+      // Install package; a failure raises, so result.error says why
       const result = await this.runtime.runPython(`
 import micropip
-import asyncio
-
-async def install_package():
-    try:
-        await micropip.install('${packageSpec}')
-        return True
-    except Exception as e:
-        print(f"Installation failed: {e}")
-        return False
-
-await install_package()
+await micropip.install(${JSON.stringify(packageSpec)})
+True
       `);
 
       if (result.success && result.result) {
@@ -119,6 +247,7 @@ await install_package()
 
         // Refresh installed packages
         await this.refreshInstalledPackages();
+        await this.updateLockFile();
         
         return true;
       } else {
@@ -161,12 +290,13 @@ await install_package()
 import micropip
 import sys
 
-# Remove from sys.modules
+micropip.uninstall(${JSON.stringify(packageName)})
+
+# Remove from sys.modules, so a later import fails instead of using the stale module
 modules_to_remove = [name for name in sys.modules if name.startswith('${packageName}')]
 for module in modules_to_remove:
     del sys.modules[module]
 
-# Note: micropip doesn't have uninstall, so we simulate it
 print(f"Removed ${packageName} from current session")
 True
       `);
@@ -174,6 +304,7 @@ True
       if (result.success) {
         // Remove from our tracking
         this.installedPackages.delete(packageName);
+        await this.updateLockFile();
         return true;
       }
       
@@ -327,6 +458,148 @@ except Exception as e:
     return await this.installPackages(packages, onProgress);
   }
 
+  /**
+   * Exact versions and wheel digests of everything installed in the runtime
+   */
+  async lockEnvironment(): Promise<PackageLock> {
+    if (!this.runtime.initialized) {
+      throw new Error('Pyodide runtime not initialized');
+    }
+
+    const result = await this.runtime.runPython(LOCK_ENVIRONMENT_SCRIPT);
+    if (!result.success || !result.result) {
+      throw new Error(result.error || 'Failed to read installed packages');
+    }
+    return JSON.parse(result.result);
+  }
+
+  /**
+   * The workspace lock file, or null if the workspace has none
+   */
+  async readLockFile(): Promise<PackageLock | null> {
+    if (!this.fileSystem || !(await this.fileSystem.exists(LOCK_FILE_PATH))) {
+      return null;
+    }
+
+    const lock = JSON.parse(await this.fileSystem.readFile(LOCK_FILE_PATH));
+    if (lock?.lockVersion !== LOCK_VERSION || !Array.isArray(lock.packages)) {
+      throw new Error(`${LOCK_FILE_PATH} is not a version ${LOCK_VERSION} lock file`);
+    }
+    return lock;
+  }
+
+  /**
+   * Record the runtime's packages in the workspace lock file. The file is
+   * only rewritten when its content changes.
+   */
+  async writeLockFile(): Promise<PackageLock | null> {
+    if (!this.fileSystem) {
+      return null;
+    }
+
+    const lock = await this.lockEnvironment();
+    const content = `${JSON.stringify(lock, null, 2)}\n`;
+
+    if (!(await this.fileSystem.exists(LOCK_FILE_PATH))) {
+      await this.fileSystem.createFile(LOCK_FILE_PATH, content);
+    } else if (await this.fileSystem.readFile(LOCK_FILE_PATH) !== content) {
+      await this.fileSystem.writeFile(LOCK_FILE_PATH, content);
+    }
+    return lock;
+  }
+
+  /**
+   * Install the exact versions a lock file pins, from the locked wheel URL
+   * when there is one; a package whose digest differs from the lock fails.
+   * The lock already lists every dependency, so none are resolved again;
+   * installed packages the lock does not mention are left alone.
+   */
+  async installLocked(lock: PackageLock): Promise<{ [packageName: string]: boolean }> {
+    const current = await this.lockEnvironment();
+    const installed = new Map(current.packages.map(pkg => [pkg.name, pkg]));
+    const results: { [packageName: string]: boolean } = {};
+
+    for (const pkg of lock.packages) {
+      const existing = installed.get(pkg.name);
+      if (existing?.version === pkg.version) continue;
+
+      const builtin = pkg.source === 'pyodide';
+      const requirement = !builtin && pkg.url ? pkg.url : `${pkg.name}==${pkg.version}`;
+      const result = await this.runtime.runPython(`${INSTALL_LOCKED_SCRIPT}
+await _install_locked(${[
+        pythonString(pkg.name),
+        pythonString(pkg.version),
+        pythonString(requirement),
+        pythonString(pkg.sha256),
+        builtin ? 'True' : 'False',
+        existing ? 'True' : 'False'
+      ].join(', ')})
+True
+      `);
+      if (!result.success) {
+        console.warn(`Failed to install locked package ${pkg.name}==${pkg.version}:`, result.error);
+      }
+      results[pkg.name] = result.success;
+    }
+
+    await this.refreshInstalledPackages();
+    return results;
+  }
+
+  /**
+   * Where the runtime departs from the workspace lock file, or null if the
+   * workspace has none
+   */
+  async diffEnvironment(): Promise<EnvironmentDiffEntry[] | null> {
+    const lock = await this.readLockFile();
+    if (!lock) {
+      return null;
+    }
+    return diffPackageLocks(lock, await this.lockEnvironment());
+  }
+
+  /**
+   * Stop restoring packages when the runtime restarts
+   */
+  dispose(): void {
+    this.removeRestartListener?.();
+    this.removeRestartListener = null;
+  }
+
+  /**
+   * Keep the lock file in step after an install or uninstall. A failed
+   * write leaves the package change in place.
+   */
+  private async updateLockFile(): Promise<void> {
+    try {
+      this.sessionLock = (await this.writeLockFile()) ?? (await this.lockEnvironment());
+    } catch (error) {
+      console.error('Failed to update the lock file:', error);
+    }
+  }
+
+  /**
+   * Reinstall packages into a restarted interpreter: those the workspace
+   * lock file pins or, without one, those installed during this session
+   */
+  private async restorePackages(): Promise<void> {
+    const lock = (await this.readLockFile().catch(error => {
+      console.error('Failed to read the lock file:', error);
+      return null;
+    })) ?? this.sessionLock;
+
+    if (!lock) {
+      await this.refreshInstalledPackages();
+      return;
+    }
+
+    const results = await this.installLocked(lock);
+    const failed = Object.keys(results).filter(name => !results[name]);
+    if (failed.length > 0) {
+      console.warn(`Could not reinstall ${failed.join(', ')} after the Python session restarted`);
+    }
+  }
+
   /**
    * Refresh the list of installed packages
    */
@@ -0,0 +1,159 @@
+/**
+ * Pyodide Worker Protocol
+ * Typed messages exchanged between PyodideRuntime and the Pyodide Web Worker
+ */
+
+import type {
+  DebugAction,
+  DebugBreakpoints,
+  DebugPausedState,
+  PackageInfo,
+  PythonExecutionResult,
+  PythonFigure,
+  VariableInfo,
+  VariableTable,
+} from './pyodide-runtime';
+
+// =============================================================================
+// REQUESTS
+// =============================================================================
+
+export interface PyodideWorkerInitOptions {
+  indexURL: string;
+  fullStdLib: boolean;
+  /** Handed to micropip.set_index_urls; micropip keeps its PyPI default when unset */
+  packageIndexUrls?: string[];
+  /** Shared with the main thread so it can raise KeyboardInterrupt mid-run */
+  interruptBuffer?: SharedArrayBuffer;
+  /** Shared stdin channel, see createStdinChannel */
+  stdinBuffer?: SharedArrayBuffer;
+  /** Shared debugger channel, see createDebugChannel */
+  debugBuffer?: SharedArrayBuffer;
+  figureFormat?: PythonFigure['format'];
+}
+
+/**
+ * Every RPC method the worker understands, with its parameters and result
+ */
+export interface PyodideWorkerMethods {
+  initialize: { params: PyodideWorkerInitOptions; result: void };
+  runPython: { params: { code: string; memoryLimitBytes?: number }; result: PythonExecutionResult };
+  debugPython: {
+    params: {
+      code: string;
+      path: string;
+      breakpoints: DebugBreakpoints;
+      stopOnEntry: boolean;
+      memoryLimitBytes?: number;
+    };
+    result: PythonExecutionResult;
+  };
+  installPackage: { params: { packageName: string }; result: boolean };
+  getInstalledPackages: { params: Record<string, never>; result: PackageInfo[] };
+  writeFile: { params: { path: string; content: string | Uint8Array }; result: void };
+  readFile: { params: { path: string }; result: string };
+  listDirectory: { params: { path: string }; result: string[] };
+  exists: { params: { path: string }; result: boolean };
+  syncFileSystem: { params: Record<string, never>; result: void };
+  getGlobals: { params: Record<string, never>; result: Record<string, string | number | boolean> };
+  setGlobal: { params: { name: string; value: unknown }; result: void };
+  inspectGlobals: { params: Record<string, never>; result: VariableInfo[] };
+  inspectVariable: { params: { name: string; offset: number; limit: number }; result: VariableTable };
+}
+
+export type PyodideWorkerMethod = keyof PyodideWorkerMethods;
+
+export type PyodideWorkerRequest = {
+  [M in PyodideWorkerMethod]: {
+    id: number;
+    method: M;
+    params: PyodideWorkerMethods[M]['params'];
+  };
+}[PyodideWorkerMethod];
+
+// =============================================================================
+// RESPONSES & EVENTS
+// =============================================================================
+
+export type PyodideWorkerResponse =
+  | { type: 'response'; id: number; ok: true; result: unknown }
+  | { type: 'response'; id: number; ok: false; error: string };
+
+/**
+ * Unsolicited messages streamed while a request is running. Output arrives
+ * in raw chunks that keep their newlines; 'stdin' means the worker is
+ * blocked until a line is written to the stdin channel, and 'debugPaused'
+ * until a command is written to the debugger channel.
+ */
+export type PyodideWorkerEvent =
+  | { type: 'stdout'; text: string }
+  | { type: 'stderr'; text: string }
+  | { type: 'stdin' }
+  | { type: 'debugPaused'; state: DebugPausedState };
+
+export type PyodideWorkerMessage = PyodideWorkerResponse | PyodideWorkerEvent;
+
+// =============================================================================
+// STDIN CHANNEL
+// =============================================================================
+
+/** Largest line a single input() call can receive, in bytes */
+export const STDIN_CAPACITY = 64 * 1024;
+
+/** Values of the channel's state slot */
+export const STDIN_EMPTY = 0;
+export const STDIN_READY = 1;
+export const STDIN_EOF = 2;
+
+export interface StdinChannel {
+  /** [state, byte length of the pending line] */
+  control: Int32Array;
+  data: Uint8Array;
+}
+
+/**
+ * Lay out a shared buffer as a stdin channel. The worker waits on the state
+ * slot; the main thread writes a line, sets the state and notifies it.
+ */
+export function createStdinChannel(buffer: SharedArrayBuffer): StdinChannel {
+  return {
+    control: new Int32Array(buffer, 0, 2),
+    data: new Uint8Array(buffer, Int32Array.BYTES_PER_ELEMENT * 2),
+  };
+}
+
+export function allocateStdinBuffer(): SharedArrayBuffer {
+  return new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * 2 + STDIN_CAPACITY);
+}
+
+// =============================================================================
+// DEBUGGER CHANNEL
+// =============================================================================
+
+/** Largest serialized DebugCommand, in bytes */
+export const DEBUG_CAPACITY = 64 * 1024;
+
+/** Values of the channel's state slot */
+export const DEBUG_WAITING = 0;
+export const DEBUG_COMMAND = 1;
+
+/** What a paused debugger does next; breakpoints replace the current ones */
+export interface DebugCommand {
+  action: DebugAction;
+  breakpoints?: DebugBreakpoints;
+}
+
+/** [state, byte length of the pending command] */
+export type DebugChannel = StdinChannel;
+
+/**
+ * Same layout as the stdin channel. The paused worker waits on the state
+ * slot; the main thread writes a JSON DebugCommand and notifies it.
+ */
+export function createDebugChannel(buffer: SharedArrayBuffer): DebugChannel {
+  return createStdinChannel(buffer);
+}
+
+export function allocateDebugBuffer(): SharedArrayBuffer {
+  return new SharedArrayBuffer(Int32Array.BYTES_PER_ELEMENT * 2 + DEBUG_CAPACITY);
+}
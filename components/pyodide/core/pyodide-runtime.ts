@@ -1,17 +1,56 @@
 /**
  * Pyodide Runtime Service
- * Core service for managing Pyodide Python runtime in the browser
+ * Core service for managing the Pyodide Python runtime, which runs in a
+ * dedicated Web Worker so long-running code never blocks the UI
  */
 
-import { loadPyodide, PyodideInterface } from 'pyodide';
+import {
+  allocateDebugBuffer,
+  allocateStdinBuffer,
+  createDebugChannel,
+  createStdinChannel,
+  DEBUG_CAPACITY,
+  DEBUG_COMMAND,
+  STDIN_CAPACITY,
+  STDIN_EOF,
+  STDIN_READY,
+} from './pyodide-protocol';
+import type {
+  DebugChannel,
+  DebugCommand,
+  PyodideWorkerMessage,
+  PyodideWorkerMethod,
+  PyodideWorkerMethods,
+  PyodideWorkerRequest,
+  StdinChannel,
+} from './pyodide-protocol';
 
 export interface PyodideConfig {
   indexURL?: string;
+  /** micropip package indexes, tried in order; defaults to PyPI */
+  packageIndexUrls?: string[];
   fullStdLib?: boolean;
-  stdin?: (prompt: string) => string;
+  /** Called when Python reads stdin; resolve with a line, or null for end of input */
+  stdin?: (signal: AbortSignal) => Promise<string | null>;
   stdout?: (text: string) => void;
   stderr?: (text: string) => void;
-  jsglobals?: object;
+  /** Default wall-clock limit for each runPython call, in milliseconds */
+  executionTimeout?: number;
+  /**
+   * Default interpreter heap ceiling for each runPython call, in megabytes.
+   * The worker checks it only while Python awaits and when a run finishes,
+   * so synchronous code is stopped by executionTimeout, not this limit.
+   */
+  memoryLimit?: number;
+  /** Format matplotlib figures are captured in; defaults to 'png' */
+  figureFormat?: PythonFigure['format'];
+}
+
+export interface PythonExecutionOptions {
+  /** Overrides PyodideConfig.executionTimeout for this call */
+  timeout?: number;
+  /** Overrides PyodideConfig.memoryLimit for this call */
+  memoryLimit?: number;
 }
 
 export interface PythonExecutionResult {
@@ -20,6 +59,110 @@ export interface PythonExecutionResult {
   error?: string;
   output?: string;
   stderr?: string;
+  /** Stopped by interrupt() or a limit before it finished */
+  interrupted?: boolean;
+  /** Stopped because it ran past its timeout */
+  timedOut?: boolean;
+  /** Stopped because the interpreter heap passed its memory limit */
+  memoryExceeded?: boolean;
+  /** Images shown with plt.show() or Image.show(), in order */
+  figures?: PythonFigure[];
+}
+
+/**
+ * An image captured while code ran
+ */
+export interface PythonFigure {
+  format: 'png' | 'svg';
+  /** Base64 for PNG, markup for SVG */
+  data: string;
+  source: 'matplotlib' | 'pil';
+  width: number;
+  height: number;
+}
+
+/** Runtime path to 1-based breakpoint lines */
+export type DebugBreakpoints = Record<string, number[]>;
+
+export type DebugAction = 'continue' | 'stepOver' | 'stepInto' | 'stepOut' | 'stop';
+
+export interface DebugVariable {
+  name: string;
+  type: string;
+  /** repr(), truncated */
+  value: string;
+}
+
+export interface DebugStackFrame {
+  /** Function name, or <module> */
+  name: string;
+  path: string;
+  line: number;
+  variables: DebugVariable[];
+}
+
+/**
+ * Where a debugged run stopped. Only frames in workspace code are listed,
+ * innermost first.
+ */
+export interface DebugPausedState {
+  reason: 'breakpoint' | 'step';
+  path: string;
+  line: number;
+  stack: DebugStackFrame[];
+}
+
+export interface DebugOptions {
+  breakpoints?: DebugBreakpoints;
+  /** Pause on the first line instead of the first breakpoint */
+  stopOnEntry?: boolean;
+  /** Called each time the run pauses; answer with resumeDebug() */
+  onPause: (state: DebugPausedState) => void;
+  /** Overrides PyodideConfig.memoryLimit for this run */
+  memoryLimit?: number;
+}
+
+/**
+ * How the variable explorer lays a value out. Pandas and numpy types are
+ * recognized by name, so neither has to be imported to inspect globals.
+ */
+export type VariableKind = 'dataframe' | 'series' | 'ndarray' | 'sequence' | 'mapping' | 'scalar' | 'object';
+
+/**
+ * A user-defined global. Names starting with an underscore, modules,
+ * functions and classes are left out.
+ */
+export interface VariableInfo {
+  name: string;
+  type: string;
+  kind: VariableKind;
+  /** Set for DataFrames, Series and ndarrays */
+  shape: number[] | null;
+  /** Set for containers, strings and objects that define len() */
+  length: number | null;
+  dtype: string | null;
+  /** repr(), truncated; column names for DataFrames */
+  preview: string;
+  /** Whether inspectVariable() can show it as a table */
+  tabular: boolean;
+}
+
+/**
+ * One page of a tabular global. Cells are str() for arrays and frames and
+ * repr() for plain containers, truncated; DataFrames show at most 50
+ * columns, and ndarrays keep axes past the second nested in each cell.
+ */
+export interface VariableTable {
+  name: string;
+  columns: string[];
+  /** Row labels: the DataFrame index, list positions or dict keys */
+  index: string[];
+  rows: string[][];
+  /** Per column, where the value has dtypes */
+  dtypes: string[] | null;
+  offset: number;
+  totalRows: number;
+  totalColumns: number;
 }
 
 export interface PackageInfo {
@@ -29,25 +172,79 @@ export interface PackageInfo {
   description?: string;
 }
 
+interface PendingRequest {
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface ActiveExecution {
+  stopReason: 'interrupt' | 'timeout' | null;
+}
+
+interface DebugSession {
+  breakpoints: DebugBreakpoints;
+  onPause: (state: DebugPausedState) => void;
+  paused: boolean;
+}
+
+/** Rows inspectVariable() reads when no limit is given */
+export const VARIABLE_PAGE_SIZE = 100;
+
+/** Pyodide distribution on the public CDN, used unless the package mirror is enabled */
+const PYODIDE_CDN_URL = 'https://cdn.jsdelivr.net/pyodide/v0.28.0/full/';
+
+/**
+ * With NEXT_PUBLIC_PYODIDE_MIRROR set, Pyodide and micropip load from this
+ * server's package mirror. PyPI stays behind the mirror for packages it
+ * does not serve, unless NEXT_PUBLIC_PYODIDE_ALLOW_PYPI is 'false'.
+ */
+function defaultPackageSources(): Pick<PyodideConfig, 'indexURL' | 'packageIndexUrls'> {
+  if (process.env.NEXT_PUBLIC_PYODIDE_MIRROR !== 'true' || typeof location === 'undefined') {
+    return { indexURL: PYODIDE_CDN_URL };
+  }
+
+  const origin = location.origin;
+  return {
+    indexURL: `${origin}/api/pyodide/dist/`,
+    packageIndexUrls: [
+      `${origin}/api/pyodide/simple/{package_name}`,
+      ...(process.env.NEXT_PUBLIC_PYODIDE_ALLOW_PYPI !== 'false' ? ['https://pypi.org/pypi/{package_name}/json'] : [])
+    ]
+  };
+}
+
+/** SIGINT, which Pyodide raises as KeyboardInterrupt */
+const SIGINT = 2;
+
+/** How long an interrupted run gets to unwind before the worker is killed */
+const INTERRUPT_GRACE_PERIOD = 2000;
+
 export class PyodideRuntime {
-  private pyodide: PyodideInterface | null = null;
+  private worker: Worker | null = null;
   private isInitialized = false;
   private isLoading = false;
-  private outputBuffer: string[] = [];
-  private errorBuffer: string[] = [];
   private config: PyodideConfig;
-  private mountedPaths: Set<string> = new Set();
+  private nextRequestId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private interruptBuffer: Int8Array | null = null;
+  private stdinChannel: StdinChannel | null = null;
+  private stdinRequest: AbortController | null = null;
+  private debugChannel: DebugChannel | null = null;
+  private debugSession: DebugSession | null = null;
+  private activeExecutions: Set<ActiveExecution> = new Set();
+  private killTimer: ReturnType<typeof setTimeout> | null = null;
+  private restartListeners: Set<() => Promise<void> | void> = new Set();
 
   constructor(config: PyodideConfig = {}) {
     this.config = {
-      indexURL: 'https://cdn.jsdelivr.net/pyodide/v0.28.0/full/',
+      ...defaultPackageSources(),
       fullStdLib: false,
       ...config
     };
   }
 
   /**
-   * Initialize Pyodide runtime
+   * Start the worker and load Pyodide inside it
    */
   async initialize(): Promise<void> {
     if (this.isInitialized || this.isLoading) {
@@ -57,31 +254,33 @@ export class PyodideRuntime {
     this.isLoading = true;
 
     try {
-      // Load Pyodide
-      this.pyodide = await loadPyodide({
-        indexURL: this.config.indexURL,
-        fullStdLib: this.config.fullStdLib,
-        stdin: this.config.stdin ? (() => this.config.stdin!('')) : undefined,
-        stdout: (text: string) => {
-          this.outputBuffer.push(text);
-          this.config.stdout?.(text);
-        },
-        stderr: (text: string) => {
-          this.errorBuffer.push(text);
-          this.config.stderr?.(text);
-        },
-        jsglobals: this.config.jsglobals
+      this.worker = new Worker(new URL('./pyodide-worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<PyodideWorkerMessage>) => this.handleMessage(event.data);
+      this.worker.onerror = (event: ErrorEvent) => this.terminate(new Error(event.message || 'Pyodide worker crashed'));
+
+      // Interrupts, stdin and the debugger need memory shared with the
+      // worker, which browsers only allow on cross-origin isolated pages
+      const canShareMemory = typeof SharedArrayBuffer !== 'undefined' && !!globalThis.crossOriginIsolated;
+      this.interruptBuffer = canShareMemory ? new Int8Array(new SharedArrayBuffer(1)) : null;
+      const stdinBuffer = canShareMemory ? allocateStdinBuffer() : undefined;
+      this.stdinChannel = stdinBuffer ? createStdinChannel(stdinBuffer) : null;
+      const debugBuffer = canShareMemory ? allocateDebugBuffer() : undefined;
+      this.debugChannel = debugBuffer ? createDebugChannel(debugBuffer) : null;
+
+      await this.call('initialize', {
+        indexURL: this.config.indexURL!,
+        fullStdLib: this.config.fullStdLib!,
+        packageIndexUrls: this.config.packageIndexUrls,
+        interruptBuffer: this.interruptBuffer?.buffer as SharedArrayBuffer | undefined,
+        stdinBuffer,
+        debugBuffer,
+        figureFormat: this.config.figureFormat
       });
 
-      // Set up file system
-      await this.setupFileSystem();
-
-      // Install basic packages
-      await this.installBasicPackages();
-
       this.isInitialized = true;
     } catch (error) {
       console.error('Failed to initialize Pyodide:', error);
+      this.terminate(error instanceof Error ? error : new Error(String(error)));
       throw error;
     } finally {
       this.isLoading = false;
@@ -89,162 +288,241 @@ export class PyodideRuntime {
   }
 
   /**
-   * Set up file system with IDBFS for persistence
+   * Execute Python code, stopping it if it outlives its timeout
    */
-  private async setupFileSystem(): Promise<void> {
-    if (!this.pyodide) return;
+  async runPython(code: string, options: PythonExecutionOptions = {}): Promise<PythonExecutionResult> {
+    this.assertInitialized();
 
-    try {
-      // Create persistent directory
-      const persistentDir = '/workspace';
-      this.pyodide.FS.mkdirTree(persistentDir);
-      
-      // Mount IDBFS for persistence
-      this.pyodide.FS.mount(this.pyodide.FS.filesystems.IDBFS, {}, persistentDir);
-      this.mountedPaths.add(persistentDir);
-
-      // Sync from IndexedDB
-      await new Promise<void>((resolve, reject) => {
-        this.pyodide!.FS.syncfs(true, (err: any) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
+    const timeout = options.timeout ?? this.config.executionTimeout;
+    const memoryLimit = options.memoryLimit ?? this.config.memoryLimit;
 
-      // Set working directory
-      this.pyodide.runPython(`
-import os
-os.chdir('/workspace')
-      `);
-    } catch (error) {
-      console.warn('Failed to setup persistent file system:', error);
-      // Fall back to memory-only file system
-      this.pyodide.FS.mkdirTree('/workspace');
-      this.pyodide.runPython('import os; os.chdir("/workspace")');
-    }
+    return this.execute(timeout, () => this.call('runPython', {
+      code,
+      memoryLimitBytes: memoryLimit ? memoryLimit * 1024 * 1024 : undefined
+    }));
   }
 
   /**
-   * Install basic Python packages
+   * Execute Python code under the debugger. The run pauses at breakpoints
+   * and after steps, reporting where through onPause, and carries on when
+   * resumeDebug() is called. Debug runs have no timeout, since they spend
+   * most of their time paused.
    */
-  private async installBasicPackages(): Promise<void> {
-    if (!this.pyodide) return;
+  async debugPython(code: string, path: string, options: DebugOptions): Promise<PythonExecutionResult> {
+    this.assertInitialized();
+
+    if (!this.debugChannel) {
+      throw new Error('Debugging needs a cross-origin isolated page');
+    }
+    if (this.debugSession) {
+      throw new Error('A debug session is already running');
+    }
+
+    const session: DebugSession = {
+      breakpoints: options.breakpoints ?? {},
+      onPause: options.onPause,
+      paused: false
+    };
+    const memoryLimit = options.memoryLimit ?? this.config.memoryLimit;
+    this.debugSession = session;
 
     try {
-      // Install micropip for package management
-      await this.pyodide.loadPackage(['micropip']);
-      
-      // Install commonly used packages
-      await this.runPython(`
-import micropip
-await micropip.install(['requests', 'numpy', 'matplotlib'])
-      `);
-    } catch (error) {
-      console.warn('Failed to install basic packages:', error);
+      return await this.execute(undefined, () => this.call('debugPython', {
+        code,
+        path,
+        breakpoints: session.breakpoints,
+        stopOnEntry: options.stopOnEntry ?? false,
+        memoryLimitBytes: memoryLimit ? memoryLimit * 1024 * 1024 : undefined
+      }));
+    } finally {
+      if (this.debugSession === session) {
+        this.debugSession = null;
+      }
     }
   }
 
   /**
-   * Execute Python code
+   * Let a paused debug run carry on, sending the latest breakpoints with it
    */
-  async runPython(code: string): Promise<PythonExecutionResult> {
-    if (!this.isInitialized || !this.pyodide) {
-      throw new Error('Pyodide not initialized');
+  resumeDebug(action: DebugAction): void {
+    const session = this.debugSession;
+    if (!session?.paused || !this.debugChannel) {
+      return;
     }
 
-    // Clear buffers
-    this.outputBuffer = [];
-    this.errorBuffer = [];
+    session.paused = false;
+    const { control, data } = this.debugChannel;
+    const command: DebugCommand = { action, breakpoints: session.breakpoints };
+    let bytes = new TextEncoder().encode(JSON.stringify(command));
+    if (bytes.length > DEBUG_CAPACITY) {
+      // Too many breakpoints to send; the worker keeps the ones it has
+      bytes = new TextEncoder().encode(JSON.stringify({ action }));
+    }
+    data.set(bytes);
+    Atomics.store(control, 1, bytes.length);
+    Atomics.store(control, 0, DEBUG_COMMAND);
+    Atomics.notify(control, 0);
+  }
+
+  /**
+   * Replace the breakpoints of the running debug session. A running
+   * program picks them up the next time it pauses.
+   */
+  setBreakpoints(breakpoints: DebugBreakpoints): void {
+    if (this.debugSession) {
+      this.debugSession.breakpoints = breakpoints;
+    }
+  }
+
+  /**
+   * Whether the debugger can be used on this page
+   */
+  get canDebug(): boolean {
+    return this.debugChannel !== null;
+  }
+
+  /**
+   * Whether a debug run is waiting at a breakpoint or step
+   */
+  get debugPaused(): boolean {
+    return this.debugSession?.paused ?? false;
+  }
+
+  /**
+   * Track a worker execution so interrupt() and the timeout can stop it
+   */
+  private async execute(
+    timeout: number | undefined,
+    request: () => Promise<PythonExecutionResult>
+  ): Promise<PythonExecutionResult> {
+    const execution: ActiveExecution = { stopReason: null };
+
+    // Drop any interrupt left over from a run that finished on its own
+    if (this.interruptBuffer && this.activeExecutions.size === 0) {
+      Atomics.store(this.interruptBuffer, 0, 0);
+    }
+    this.activeExecutions.add(execution);
+
+    const timer = timeout
+      ? setTimeout(() => {
+          execution.stopReason = 'timeout';
+          this.interrupt();
+        }, timeout)
+      : null;
 
     try {
-      const result = await this.pyodide.runPythonAsync(code);
-      
+      const result = await request();
+
+      if (result.memoryExceeded) {
+        // The WebAssembly heap never shrinks, so start over with a fresh one
+        this.restartInBackground();
+      }
+
+      if (!execution.stopReason) {
+        return result;
+      }
       return {
-        success: true,
-        result,
-        output: this.outputBuffer.join(''),
-        stderr: this.errorBuffer.join('')
+        ...result,
+        success: false,
+        interrupted: true,
+        timedOut: execution.stopReason === 'timeout'
       };
     } catch (error) {
+      if (!execution.stopReason) {
+        throw error;
+      }
+      // The worker ignored the interrupt and was killed
       return {
         success: false,
-        error: error instanceof Error ? error.message : String(error),
-        output: this.outputBuffer.join(''),
-        stderr: this.errorBuffer.join('')
+        error: execution.stopReason === 'timeout'
+          ? `Execution timed out after ${timeout} ms and the Python session was restarted`
+          : 'Execution was stopped and the Python session was restarted',
+        interrupted: true,
+        timedOut: execution.stopReason === 'timeout'
       };
+    } finally {
+      if (timer) clearTimeout(timer);
+      this.activeExecutions.delete(execution);
+      if (this.activeExecutions.size === 0 && this.killTimer) {
+        clearTimeout(this.killTimer);
+        this.killTimer = null;
+      }
     }
   }
 
   /**
-   * Install Python package using micropip
+   * Raise KeyboardInterrupt in the running code. Code that does not unwind
+   * in time, or any code when interrupts are unavailable, is stopped by
+   * restarting the worker.
    */
-  async installPackage(packageName: string): Promise<boolean> {
-    if (!this.isInitialized || !this.pyodide) {
-      throw new Error('Pyodide not initialized');
+  interrupt(): void {
+    if (this.activeExecutions.size === 0) {
+      return;
     }
 
-    try {
-      await this.runPython(`
-import micropip
-await micropip.install('${packageName}')
-      `);
-      return true;
-    } catch (error) {
-      console.error(`Failed to install package ${packageName}:`, error);
-      return false;
+    for (const execution of this.activeExecutions) {
+      execution.stopReason ??= 'interrupt';
+    }
+
+    // A worker blocked on input() or the debugger cannot see the interrupt until it wakes
+    this.cancelStdinRequest();
+    this.resumeDebug('stop');
+
+    if (!this.interruptBuffer) {
+      this.restartInBackground();
+      return;
     }
+
+    Atomics.store(this.interruptBuffer, 0, SIGINT);
+    if (!this.killTimer) {
+      this.killTimer = setTimeout(() => {
+        this.killTimer = null;
+        if (this.activeExecutions.size > 0) {
+          this.restartInBackground();
+        }
+      }, INTERRUPT_GRACE_PERIOD);
+    }
+  }
+
+  /**
+   * Whether Python code is running right now
+   */
+  get executing(): boolean {
+    return this.activeExecutions.size > 0;
+  }
+
+  /**
+   * Install Python package using micropip
+   */
+  async installPackage(packageName: string): Promise<boolean> {
+    this.assertInitialized();
+    return this.call('installPackage', { packageName });
   }
 
   /**
    * Get list of installed packages
    */
   async getInstalledPackages(): Promise<PackageInfo[]> {
-    if (!this.isInitialized || !this.pyodide) {
+    if (!this.isInitialized) {
       return [];
     }
 
     try {
-      const result = await this.runPython(`
-import micropip
-import json
-packages = micropip.list()
-json.dumps([{'name': name, 'version': version, 'installed': True} for name, version in packages.items()])
-      `);
-
-      if (result.success && result.result) {
-        return JSON.parse(result.result);
-      }
+      return await this.call('getInstalledPackages', {});
     } catch (error) {
       console.error('Failed to get installed packages:', error);
+      return [];
     }
-
-    return [];
   }
 
   /**
    * Write file to file system
    */
-  async writeFile(path: string, content: string): Promise<void> {
-    if (!this.pyodide) {
-      throw new Error('Pyodide not initialized');
-    }
+  async writeFile(path: string, content: string | Uint8Array): Promise<void> {
+    this.assertInitialized();
 
     try {
-      // Ensure directory exists
-      const dir = path.substring(0, path.lastIndexOf('/'));
-      if (dir) {
-        this.pyodide.FS.mkdirTree(dir);
-      }
-
-      // Write file
-      const encoder = new TextEncoder();
-      const data = encoder.encode(content);
-      this.pyodide.FS.writeFile(path, data);
-      
-      // Sync to IndexedDB if using persistent storage
-      if (this.mountedPaths.size > 0) {
-        await this.syncFileSystem();
-      }
+      await this.call('writeFile', { path, content });
     } catch (error) {
       console.error(`Failed to write file ${path}:`, error);
       throw error;
@@ -254,13 +532,11 @@ json.dumps([{'name': name, 'version': version, 'installed': True} for name, vers
   /**
    * Read file from file system
    */
-  readFile(path: string): string {
-    if (!this.pyodide) {
-      throw new Error('Pyodide not initialized');
-    }
+  async readFile(path: string): Promise<string> {
+    this.assertInitialized();
 
     try {
-      return (this.pyodide.FS as any).readFile(path, { encoding: 'utf8' });
+      return await this.call('readFile', { path });
     } catch (error) {
       console.error(`Failed to read file ${path}:`, error);
       throw error;
@@ -270,73 +546,68 @@ json.dumps([{'name': name, 'version': version, 'installed': True} for name, vers
   /**
    * List directory contents
    */
-  listDirectory(path: string = '/workspace'): string[] {
-    if (!this.pyodide) {
-      throw new Error('Pyodide not initialized');
-    }
-
-    try {
-      return this.pyodide.FS.readdir(path).filter(name => name !== '.' && name !== '..');
-    } catch (error) {
-      console.error(`Failed to list directory ${path}:`, error);
-      return [];
-    }
+  async listDirectory(path: string = '/workspace'): Promise<string[]> {
+    this.assertInitialized();
+    return this.call('listDirectory', { path });
   }
 
   /**
    * Check if file/directory exists
    */
-  exists(path: string): boolean {
-    if (!this.pyodide) {
-      return false;
-    }
-
-    try {
-      this.pyodide.FS.stat(path);
-      return true;
-    } catch {
+  async exists(path: string): Promise<boolean> {
+    if (!this.isInitialized) {
       return false;
     }
+    return this.call('exists', { path });
   }
 
   /**
    * Sync file system to IndexedDB
    */
   async syncFileSystem(): Promise<void> {
-    if (!this.pyodide || this.mountedPaths.size === 0) {
+    if (!this.isInitialized) {
       return;
     }
-
-    try {
-      await new Promise<void>((resolve, reject) => {
-        this.pyodide!.FS.syncfs(false, (err: any) => {
-          if (err) reject(err);
-          else resolve();
-        });
-      });
-    } catch (error) {
-      console.error('Failed to sync file system:', error);
-    }
+    await this.call('syncFileSystem', {});
   }
 
   /**
-   * Get Python globals
+   * Get Python globals with primitive values
    */
-  getGlobals(): any {
-    if (!this.pyodide) {
+  async getGlobals(): Promise<Record<string, string | number | boolean>> {
+    if (!this.isInitialized) {
       return {};
     }
-    return this.pyodide.globals.toJs();
+    return this.call('getGlobals', {});
   }
 
   /**
    * Set Python global variable
    */
-  setGlobal(name: string, value: any): void {
-    if (!this.pyodide) {
-      throw new Error('Pyodide not initialized');
+  async setGlobal(name: string, value: any): Promise<void> {
+    this.assertInitialized();
+    await this.call('setGlobal', { name, value });
+  }
+
+  /**
+   * Describe the user-defined globals for the variable explorer
+   */
+  async inspectGlobals(): Promise<VariableInfo[]> {
+    if (!this.isInitialized) {
+      return [];
     }
-    this.pyodide.globals.set(name, value);
+    return this.call('inspectGlobals', {});
+  }
+
+  /**
+   * Read a page of rows from a global whose VariableInfo is tabular
+   */
+  async inspectVariable(
+    name: string,
+    { offset = 0, limit = VARIABLE_PAGE_SIZE }: { offset?: number; limit?: number } = {}
+  ): Promise<VariableTable> {
+    this.assertInitialized();
+    return this.call('inspectVariable', { name, offset, limit });
   }
 
   /**
@@ -353,20 +624,190 @@ json.dumps([{'name': name, 'version': version, 'installed': True} for name, vers
     return this.isLoading;
   }
 
+  /**
+   * Kill the worker and boot a fresh interpreter. Files persisted to
+   * IndexedDB survive; Python globals and imported modules do not, and
+   * installed packages only come back through restart listeners.
+   */
+  async restart(): Promise<void> {
+    this.terminate(new Error('Python session was restarted'));
+    this.config.stderr?.('Python session restarted\n');
+    await this.initialize();
+
+    for (const listener of this.restartListeners) {
+      try {
+        await listener();
+      } catch (error) {
+        console.error('Pyodide restart listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Run `listener` once a restarted interpreter is up, e.g. to reinstall
+   * packages. Returns a function that removes the listener.
+   */
+  onRestart(listener: () => Promise<void> | void): () => void {
+    this.restartListeners.add(listener);
+    return () => {
+      this.restartListeners.delete(listener);
+    };
+  }
+
+  private restartInBackground(): void {
+    this.restart().catch(error => {
+      console.error('Failed to restart Pyodide:', error);
+    });
+  }
+
   /**
    * Cleanup resources
    */
   async cleanup(): Promise<void> {
-    if (this.pyodide) {
-      await this.syncFileSystem();
-      // Note: Pyodide doesn't have a cleanup method, but we can clear references
-      this.pyodide = null;
+    if (this.isInitialized) {
+      await this.syncFileSystem().catch(() => undefined);
     }
-    this.isInitialized = false;
+    this.terminate(new Error('Pyodide runtime was cleaned up'));
     this.isLoading = false;
-    this.outputBuffer = [];
-    this.errorBuffer = [];
-    this.mountedPaths.clear();
+  }
+
+  // ===========================================================================
+  // WORKER RPC
+  // ===========================================================================
+
+  private assertInitialized(): void {
+    if (!this.isInitialized || !this.worker) {
+      throw new Error('Pyodide not initialized');
+    }
+  }
+
+  /**
+   * Send a typed request to the worker and wait for its response
+   */
+  private call<M extends PyodideWorkerMethod>(
+    method: M,
+    params: PyodideWorkerMethods[M]['params']
+  ): Promise<PyodideWorkerMethods[M]['result']> {
+    const worker = this.worker;
+    if (!worker) {
+      return Promise.reject(new Error('Pyodide not initialized'));
+    }
+
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      worker.postMessage({ id, method, params } as PyodideWorkerRequest);
+    });
+  }
+
+  private handleMessage(message: PyodideWorkerMessage): void {
+    switch (message.type) {
+      case 'stdout':
+        this.config.stdout?.(message.text);
+        break;
+      case 'stderr':
+        this.config.stderr?.(message.text);
+        break;
+      case 'stdin':
+        this.handleStdinRequest().catch(error => {
+          console.error('Failed to answer stdin request:', error);
+        });
+        break;
+      case 'debugPaused':
+        if (this.debugSession) {
+          this.debugSession.paused = true;
+          this.debugSession.onPause(message.state);
+        }
+        break;
+      case 'response': {
+        const request = this.pending.get(message.id);
+        if (!request) return;
+        this.pending.delete(message.id);
+        if (message.ok) {
+          request.resolve(message.result);
+        } else {
+          request.reject(new Error(message.error));
+        }
+        break;
+      }
+    }
+  }
+
+  /**
+   * Ask the config's stdin callback for a line and hand it to the blocked worker
+   */
+  private async handleStdinRequest(): Promise<void> {
+    const request = new AbortController();
+    this.stdinRequest = request;
+
+    let line: string | null = null;
+    try {
+      line = this.config.stdin ? await this.config.stdin(request.signal) : null;
+    } catch (error) {
+      console.warn('Failed to read stdin:', error);
+    }
+
+    if (request.signal.aborted) return;
+    this.stdinRequest = null;
+
+    try {
+      this.writeStdin(line);
+    } catch (error) {
+      // The worker stays blocked until it is answered, so give it end of file instead
+      console.warn('Failed to write stdin:', error);
+      this.writeStdin(null);
+    }
+  }
+
+  private cancelStdinRequest(): void {
+    if (!this.stdinRequest) return;
+    this.stdinRequest.abort();
+    this.stdinRequest = null;
+    this.writeStdin(null);
+  }
+
+  /**
+   * Wake the worker with a line, or with end of file when line is null
+   */
+  private writeStdin(line: string | null): void {
+    if (!this.stdinChannel) return;
+    const { control, data } = this.stdinChannel;
+
+    if (line === null) {
+      Atomics.store(control, 0, STDIN_EOF);
+    } else {
+      // Leave room for the newline input() waits for
+      const bytes = new TextEncoder().encode(line).subarray(0, STDIN_CAPACITY - 1);
+      data.set(bytes);
+      data[bytes.length] = 10;
+      Atomics.store(control, 1, bytes.length + 1);
+      Atomics.store(control, 0, STDIN_READY);
+    }
+    Atomics.notify(control, 0);
+  }
+
+  /**
+   * Stop the worker and fail any requests still waiting on it
+   */
+  private terminate(reason: Error): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.isInitialized = false;
+    this.interruptBuffer = null;
+    this.stdinRequest?.abort();
+    this.stdinRequest = null;
+    this.stdinChannel = null;
+    this.debugChannel = null;
+    this.debugSession = null;
+    if (this.killTimer) {
+      clearTimeout(this.killTimer);
+      this.killTimer = null;
+    }
+
+    for (const request of this.pending.values()) {
+      request.reject(reason);
+    }
+    this.pending.clear();
   }
 }
 
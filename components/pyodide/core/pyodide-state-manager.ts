@@ -5,7 +5,7 @@
 
 import { PyodideRuntime } from './pyodide-runtime';
 import { PyodideFileSystem } from './pyodide-filesystem';
-import { PyodidePackageManager } from './pyodide-packages';
+import { PyodidePackageManager, PackageLock } from './pyodide-packages';
 
 export interface PyodideWorkspaceState {
   workspaceId: string;
@@ -84,7 +84,11 @@ export class PyodideStateManager {
    */
   async initialize(): Promise<void> {
     try {
-      await this.loadState();
+      const state = await this.loadState();
+      if (!state) {
+        // A workspace that was never saved can still carry a lock file
+        await this.restorePackages([]);
+      }
       this.startAutoSave();
     } catch (error) {
       console.warn('Failed to load workspace state:', error);
@@ -97,7 +101,7 @@ export class PyodideStateManager {
    */
   async getCurrentState(): Promise<PyodideWorkspaceState> {
     const installedPackages = await this.packageManager.getInstalledPackages();
-    const pythonGlobals = this.runtime.getGlobals();
+    const pythonGlobals = await this.runtime.getGlobals();
 
     // Get environment variables from Python
     const envResult = await this.runtime.runPython(`
@@ -304,9 +308,26 @@ os.chdir('${state.environment.workingDirectory}')
   }
 
   /**
-   * Restore installed packages
+   * Restore installed packages. The workspace lock file pins exact
+   * versions; states saved before it existed only list package names.
    */
   private async restorePackages(packages: any[]): Promise<void> {
+    let lock: PackageLock | null = null;
+    try {
+      lock = await this.packageManager.readLockFile();
+    } catch (error) {
+      console.warn('Ignoring unreadable lock file:', error);
+    }
+
+    if (lock) {
+      const results = await this.packageManager.installLocked(lock);
+      const failed = Object.keys(results).filter(name => !results[name]);
+      if (failed.length > 0) {
+        console.warn(`Failed to restore locked packages: ${failed.join(', ')}`);
+      }
+      return;
+    }
+
     for (const pkg of packages) {
       if (pkg.installed) {
         try {
@@ -325,11 +346,11 @@ os.chdir('${state.environment.workingDirectory}')
     for (const [key, value] of Object.entries(globals)) {
       try {
         if (typeof value === 'string') {
-          this.runtime.setGlobal(key, value);
+          await this.runtime.setGlobal(key, value);
         } else if (typeof value === 'number') {
-          this.runtime.setGlobal(key, value);
+          await this.runtime.setGlobal(key, value);
         } else if (typeof value === 'boolean') {
-          this.runtime.setGlobal(key, value);
+          await this.runtime.setGlobal(key, value);
         }
         // Skip complex objects for now
       } catch (error) {
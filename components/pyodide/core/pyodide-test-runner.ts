@@ -0,0 +1,465 @@
+/**
+ * Pyodide Test Runner
+ * Discovers test_*.py files and runs them with pytest inside the workspace's
+ * Pyodide runtime, reporting a structured result per test
+ */
+
+import type { PyodideRuntime } from './pyodide-runtime';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type TestOutcome = 'passed' | 'failed' | 'error' | 'skipped';
+
+/** A traceback entry in a workspace file */
+export interface TestFrame {
+  /** Workspace-relative path */
+  path: string;
+  /** 1-based line */
+  line: number;
+}
+
+export interface TestCaseResult {
+  /** pytest node id, e.g. tests/test_calc.py::TestAdd::test_negative */
+  nodeId: string;
+  /** Workspace-relative path of the test file */
+  path: string;
+  /** Empty for a file that failed to collect */
+  name: string;
+  line: number | null;
+  outcome: TestOutcome;
+  /** Seconds spent in setup, call and teardown */
+  duration: number;
+  /** Failure, error or skip reason */
+  message: string | null;
+  traceback: string | null;
+  /** Workspace frames of the traceback, outermost first */
+  frames: TestFrame[];
+}
+
+export interface TestSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  errors: number;
+  skipped: number;
+}
+
+export interface TestRunResult {
+  /** True when every test passed or was skipped */
+  success: boolean;
+  tests: TestCaseResult[];
+  summary: TestSummary;
+  /** Seconds */
+  duration: number;
+  /** pytest's console output */
+  output: string;
+  /** Why the run itself did not finish, e.g. it timed out */
+  error?: string;
+  finishedAt: Date;
+}
+
+export interface TestRunOptions {
+  /** Test files or node ids; every discovered test file when empty */
+  targets?: string[];
+  /** pytest -k expression */
+  keyword?: string;
+  /** Overrides the runtime's execution timeout, in milliseconds */
+  timeout?: number;
+}
+
+/** Arguments of the runPythonTests AI tool */
+export interface TestToolArgs {
+  targets?: string[];
+  keyword?: string;
+  rerunFailed?: boolean;
+}
+
+/** Compact run result returned to an agent */
+export interface TestToolReport {
+  success: boolean;
+  summary: TestSummary;
+  failures: {
+    nodeId: string;
+    outcome: TestOutcome;
+    message: string | null;
+    /** path:line of the innermost workspace frame */
+    location: string | null;
+    traceback: string | null;
+  }[];
+  error?: string;
+}
+
+const WORKSPACE_ROOT = '/workspace';
+const RUNNER_MODULE = '_vibekraft_pytest';
+
+/** pytest exit code when nothing was collected */
+const EXIT_NO_TESTS = 5;
+
+/** Longest traceback included in a report for an agent */
+const MAX_REPORT_TRACEBACK = 4000;
+
+/**
+ * Python side of the runner. A plugin records every report, and workspace
+ * modules are dropped from sys.modules first so each run sees saved edits.
+ */
+const RUNNER_SOURCE = `
+import json, os, re, sys, time
+import pytest
+
+ROOT = '${WORKSPACE_ROOT}'
+SKIP_DIRS = {'__pycache__', 'node_modules', 'site-packages', 'venv'}
+FRAME_LINE = re.compile(r'^(\\S+\\.py):(\\d+):', re.MULTILINE)
+
+
+def _relative(path):
+    path = os.path.normpath(os.path.join(ROOT, str(path)))
+    return path[len(ROOT) + 1:] if path.startswith(ROOT + '/') else None
+
+
+def discover():
+    found = []
+    for directory, dirs, files in os.walk(ROOT):
+        dirs[:] = sorted(d for d in dirs if d not in SKIP_DIRS and not d.startswith('.'))
+        found.extend(
+            _relative(os.path.join(directory, name))
+            for name in sorted(files)
+            if name.startswith('test_') and name.endswith('.py')
+        )
+    return json.dumps(found)
+
+
+def _frames(report):
+    # Traceback entries in workspace files, outermost first
+    frames = []
+    reprtraceback = getattr(report.longrepr, 'reprtraceback', None)
+    for entry in getattr(reprtraceback, 'reprentries', []):
+        location = getattr(entry, 'reprfileloc', None)
+        path = location and _relative(location.path)
+        if path:
+            frames.append({'path': path, 'line': location.lineno})
+    if not frames:
+        # Collection errors only carry text
+        for match in FRAME_LINE.finditer(report.longreprtext):
+            path = _relative(match.group(1))
+            if path:
+                frames.append({'path': path, 'line': int(match.group(2))})
+    return frames
+
+
+def _message(report):
+    crash = getattr(report.longrepr, 'reprcrash', None)
+    if crash is not None:
+        return crash.message
+    lines = [line for line in report.longreprtext.splitlines() if line.strip()]
+    return re.sub(r'^E\\s+', '', lines[-1]) if lines else ''
+
+
+class _Collector:
+    def __init__(self):
+        self.tests = {}
+
+    def _record(self, report, outcome, name, line):
+        previous = self.tests.get(report.nodeid)
+        test = {
+            'nodeId': report.nodeid,
+            'path': _relative(report.fspath) or report.nodeid.split('::')[0],
+            'name': name,
+            'line': line,
+            'outcome': outcome,
+            'duration': (previous['duration'] if previous else 0) + getattr(report, 'duration', 0),
+            'message': None,
+            'traceback': None,
+            'frames': [],
+        }
+        if outcome in ('failed', 'error'):
+            test['message'] = _message(report)
+            test['traceback'] = report.longreprtext
+            test['frames'] = _frames(report)
+        elif outcome == 'skipped' and isinstance(report.longrepr, tuple):
+            test['message'] = report.longrepr[2]
+        self.tests[report.nodeid] = test
+
+    def pytest_runtest_logreport(self, report):
+        previous = self.tests.get(report.nodeid)
+        if previous and previous['outcome'] in ('failed', 'error'):
+            # Keep the first failure; a teardown error after it adds nothing
+            return
+        if report.when == 'call':
+            outcome = 'passed' if report.passed else 'failed' if report.failed else 'skipped'
+        elif report.failed:
+            outcome = 'error'
+        elif report.skipped:
+            outcome = 'skipped'
+        elif previous:
+            previous['duration'] += report.duration
+            return
+        else:
+            return
+        _, line, name = report.location
+        self._record(report, outcome, name, None if line is None else line + 1)
+
+    def pytest_collectreport(self, report):
+        if report.failed:
+            self._record(report, 'error', '', None)
+
+
+def _forget_workspace_modules():
+    # Re-import workspace code on every run so edits are picked up
+    for name, module in list(sys.modules.items()):
+        if (getattr(module, '__file__', None) or '').startswith(ROOT + '/'):
+            del sys.modules[name]
+
+
+def run(args):
+    if not args:
+        args = json.loads(discover())
+        if not args:
+            return json.dumps({'exitCode': 5, 'duration': 0, 'tests': []})
+
+    _forget_workspace_modules()
+    if ROOT not in sys.path:
+        sys.path.insert(0, ROOT)
+
+    collector = _Collector()
+    previous_cwd = os.getcwd()
+    previous_bytecode = sys.dont_write_bytecode
+    started = time.perf_counter()
+    os.chdir(ROOT)
+    sys.dont_write_bytecode = True
+    try:
+        exit_code = pytest.main(
+            ['-q', '--color=no', '-p', 'no:cacheprovider', '-p', 'no:faulthandler',
+             '--rootdir', ROOT, '--import-mode=importlib', '--continue-on-collection-errors', *args],
+            plugins=[collector],
+        )
+    finally:
+        os.chdir(previous_cwd)
+        sys.dont_write_bytecode = previous_bytecode
+    return json.dumps({
+        'exitCode': int(exit_code),
+        'duration': time.perf_counter() - started,
+        'tests': list(collector.tests.values()),
+    })
+`;
+
+// =============================================================================
+// RUNNER
+// =============================================================================
+
+export class PyodideTestRunner {
+  private runtime: PyodideRuntime;
+  private ready: Promise<boolean> | null = null;
+  private lastRun: TestRunResult | null = null;
+
+  constructor(runtime: PyodideRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Result of the most recent run, with reruns merged in
+   */
+  get lastResult(): TestRunResult | null {
+    return this.lastRun;
+  }
+
+  /**
+   * Node ids that failed or errored in the most recent run
+   */
+  get failedTests(): string[] {
+    return (this.lastRun?.tests ?? [])
+      .filter(test => test.outcome === 'failed' || test.outcome === 'error')
+      .map(test => test.nodeId);
+  }
+
+  /**
+   * Workspace-relative paths of test_*.py files
+   */
+  async discover(): Promise<string[]> {
+    if (!(await this.ensurePytest())) return [];
+
+    const execution = await this.runtime.runPython(`__import__('${RUNNER_MODULE}').discover()`);
+    return execution.success ? JSON.parse(execution.result) : [];
+  }
+
+  /**
+   * Run pytest on the given targets, or on every discovered test file
+   */
+  async run(options: TestRunOptions = {}): Promise<TestRunResult> {
+    this.lastRun = await this.execute(options);
+    return this.lastRun;
+  }
+
+  /**
+   * Run the failed tests of the last run again, keeping the other results
+   */
+  async rerunFailed(options: Omit<TestRunOptions, 'targets'> = {}): Promise<TestRunResult> {
+    const previous = this.lastRun;
+    const failed = this.failedTests;
+    if (!previous || failed.length === 0) {
+      throw new Error('No failed tests to rerun');
+    }
+
+    const rerun = await this.execute({ ...options, targets: failed });
+    this.lastRun = rerun.error ? rerun : mergeResults(previous, rerun);
+    return this.lastRun;
+  }
+
+  private async execute(options: TestRunOptions): Promise<TestRunResult> {
+    if (!this.runtime.initialized) {
+      return failedRun('Python runtime is not initialized');
+    }
+    if (!(await this.ensurePytest())) {
+      return failedRun('Failed to install pytest');
+    }
+
+    const args = [...(options.targets ?? [])];
+    if (options.keyword) {
+      args.push('-k', options.keyword);
+    }
+
+    const execution = await this.runtime.runPython(
+      `__import__('${RUNNER_MODULE}').run(__import__('json').loads(${JSON.stringify(JSON.stringify(args))}))`,
+      { timeout: options.timeout }
+    );
+    if (!execution.success) {
+      // A restarted runtime has lost the helper; load it again next time
+      this.ready = null;
+      return failedRun(execution.error || 'Test run failed', execution.output);
+    }
+
+    const { exitCode, duration, tests } = JSON.parse(execution.result) as {
+      exitCode: number;
+      duration: number;
+      tests: TestCaseResult[];
+    };
+    const summary = summarizeTests(tests);
+
+    return {
+      success: summary.failed === 0 && summary.errors === 0 && (exitCode === 0 || exitCode === EXIT_NO_TESTS),
+      tests,
+      summary,
+      duration,
+      output: execution.output || '',
+      finishedAt: new Date()
+    };
+  }
+
+  /**
+   * Install pytest and the runner module once per runtime session
+   */
+  private ensurePytest(): Promise<boolean> {
+    if (!this.ready) {
+      this.ready = this.loadRunner();
+      // Let a later run retry after a failure, e.g. while offline
+      this.ready.then(ok => {
+        if (!ok) this.ready = null;
+      });
+    }
+    return this.ready;
+  }
+
+  private async loadRunner(): Promise<boolean> {
+    const check = await this.runtime.runPython(`'${RUNNER_MODULE}' in __import__('sys').modules`);
+    if (check.success && check.result === true) return true;
+
+    if (!(await this.runtime.installPackage('pytest'))) {
+      return false;
+    }
+
+    // Installed from a function so nothing leaks into the user's globals
+    const install = await this.runtime.runPython(`
+def _install_test_runner():
+    import sys, types
+    module = types.ModuleType('${RUNNER_MODULE}')
+    exec(${JSON.stringify(RUNNER_SOURCE)}, module.__dict__)
+    sys.modules['${RUNNER_MODULE}'] = module
+_install_test_runner()
+del _install_test_runner
+`);
+    if (!install.success) {
+      console.warn('Failed to load the test runner:', install.error);
+    }
+    return install.success;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Client side of the runPythonTests AI tool: run the requested tests and
+ * report only what an agent needs to act on
+ */
+export async function runTestsForAgent(runner: PyodideTestRunner, args: TestToolArgs = {}): Promise<TestToolReport> {
+  let result: TestRunResult;
+  try {
+    result = args.rerunFailed
+      ? await runner.rerunFailed({ keyword: args.keyword })
+      : await runner.run({ targets: args.targets, keyword: args.keyword });
+  } catch (error) {
+    result = failedRun(error instanceof Error ? error.message : 'Test run failed');
+  }
+
+  return {
+    success: result.success,
+    summary: result.summary,
+    failures: result.tests
+      .filter(test => test.outcome === 'failed' || test.outcome === 'error')
+      .map(test => {
+        const frame = test.frames[test.frames.length - 1];
+        return {
+          nodeId: test.nodeId,
+          outcome: test.outcome,
+          message: test.message,
+          location: frame ? `${frame.path}:${frame.line}` : null,
+          traceback: test.traceback && test.traceback.slice(-MAX_REPORT_TRACEBACK)
+        };
+      }),
+    ...(result.error ? { error: result.error } : {})
+  };
+}
+
+export function summarizeTests(tests: TestCaseResult[]): TestSummary {
+  return {
+    total: tests.length,
+    passed: tests.filter(test => test.outcome === 'passed').length,
+    failed: tests.filter(test => test.outcome === 'failed').length,
+    errors: tests.filter(test => test.outcome === 'error').length,
+    skipped: tests.filter(test => test.outcome === 'skipped').length
+  };
+}
+
+function mergeResults(previous: TestRunResult, rerun: TestRunResult): TestRunResult {
+  const rerunById = new Map(rerun.tests.map(test => [test.nodeId, test]));
+  const rerunPaths = new Set(rerun.tests.map(test => test.path));
+
+  const tests = previous.tests
+    // A file that failed to collect before is replaced by the tests it reports now
+    .filter(test => test.name !== '' || rerunById.has(test.nodeId) || !rerunPaths.has(test.path))
+    .map(test => rerunById.get(test.nodeId) ?? test);
+  const kept = new Set(tests.map(test => test.nodeId));
+  tests.push(...rerun.tests.filter(test => !kept.has(test.nodeId)));
+
+  const summary = summarizeTests(tests);
+  return {
+    ...rerun,
+    success: summary.failed === 0 && summary.errors === 0,
+    tests,
+    summary
+  };
+}
+
+function failedRun(error: string, output: string = ''): TestRunResult {
+  return {
+    success: false,
+    tests: [],
+    summary: summarizeTests([]),
+    duration: 0,
+    output,
+    error,
+    finishedAt: new Date()
+  };
+}
@@ -0,0 +1,939 @@
+/**
+ * Pyodide Web Worker
+ * Hosts the Pyodide interpreter off the main thread and serves PyodideRuntime requests
+ */
+
+import { loadPyodide, PyodideInterface } from 'pyodide';
+import type {
+  DebugBreakpoints,
+  PackageInfo,
+  PythonExecutionResult,
+  PythonFigure,
+  VariableInfo,
+  VariableTable,
+} from './pyodide-runtime';
+import { createDebugChannel, createStdinChannel, DEBUG_WAITING, STDIN_EMPTY, STDIN_READY } from './pyodide-protocol';
+import type {
+  DebugChannel,
+  PyodideWorkerEvent,
+  PyodideWorkerInitOptions,
+  PyodideWorkerMessage,
+  PyodideWorkerMethod,
+  PyodideWorkerMethods,
+  PyodideWorkerRequest,
+  StdinChannel,
+} from './pyodide-protocol';
+
+interface WorkerScope {
+  postMessage(message: PyodideWorkerMessage): void;
+  onmessage: ((event: MessageEvent<PyodideWorkerRequest>) => void) | null;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let pyodide: PyodideInterface | null = null;
+let outputBuffer: string[] = [];
+let errorBuffer: string[] = [];
+let interruptBuffer: Int8Array | null = null;
+let stdinChannel: StdinChannel | null = null;
+let debugChannel: DebugChannel | null = null;
+const mountedPaths: Set<string> = new Set();
+
+function emit(event: PyodideWorkerEvent): void {
+  scope.postMessage(event);
+}
+
+function requirePyodide(): PyodideInterface {
+  if (!pyodide) {
+    throw new Error('Pyodide not initialized');
+  }
+  return pyodide;
+}
+
+// =============================================================================
+// INITIALIZATION
+// =============================================================================
+
+async function initialize(options: PyodideWorkerInitOptions): Promise<void> {
+  if (pyodide) return;
+
+  pyodide = await loadPyodide({
+    indexURL: options.indexURL,
+    fullStdLib: options.fullStdLib,
+  });
+
+  // Unbatched writers, so prompts without a trailing newline reach the terminal
+  pyodide.setStdout(streamWriter('stdout'));
+  pyodide.setStderr(streamWriter('stderr'));
+
+  if (options.stdinBuffer) {
+    stdinChannel = createStdinChannel(options.stdinBuffer);
+  }
+  pyodide.setStdin({ stdin: readStdin });
+
+  if (options.debugBuffer) {
+    debugChannel = createDebugChannel(options.debugBuffer);
+  }
+
+  if (options.interruptBuffer) {
+    interruptBuffer = new Int8Array(options.interruptBuffer);
+    pyodide.setInterruptBuffer(interruptBuffer);
+  }
+
+  await setupFileSystem(pyodide);
+  installFigureCapture(pyodide, options.figureFormat);
+  installHelperModule(pyodide, DEBUGGER_MODULE, DEBUGGER_SOURCE);
+  installHelperModule(pyodide, INSPECTOR_MODULE, INSPECTOR_SOURCE);
+  await installBasicPackages(pyodide, options.packageIndexUrls);
+}
+
+function streamWriter(stream: 'stdout' | 'stderr') {
+  const decoder = new TextDecoder();
+
+  return {
+    write: (buffer: Uint8Array): number => {
+      const text = decoder.decode(buffer, { stream: true });
+      if (text) {
+        (stream === 'stdout' ? outputBuffer : errorBuffer).push(text);
+        emit({ type: stream, text });
+      }
+      return buffer.length;
+    },
+  };
+}
+
+/**
+ * Block until the main thread answers with a line. Without a shared
+ * channel, input() sees end of file.
+ */
+function readStdin(): string | null {
+  if (!stdinChannel) return null;
+
+  const { control, data } = stdinChannel;
+  emit({ type: 'stdin' });
+  Atomics.wait(control, 0, STDIN_EMPTY);
+
+  // Copy out of shared memory, which TextDecoder refuses to read
+  const line = Atomics.load(control, 0) === STDIN_READY
+    ? new TextDecoder().decode(data.slice(0, Atomics.load(control, 1)))
+    : null;
+
+  Atomics.store(control, 0, STDIN_EMPTY);
+  return line;
+}
+
+/**
+ * Set up file system with IDBFS for persistence
+ */
+async function setupFileSystem(py: PyodideInterface): Promise<void> {
+  try {
+    // Create persistent directory
+    const persistentDir = '/workspace';
+    py.FS.mkdirTree(persistentDir);
+
+    // Mount IDBFS for persistence
+    py.FS.mount(py.FS.filesystems.IDBFS, {}, persistentDir);
+    mountedPaths.add(persistentDir);
+
+    // Sync from IndexedDB
+    await new Promise<void>((resolve, reject) => {
+      py.FS.syncfs(true, (err: any) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+
+    // Set working directory
+    py.runPython(`
+import os
+os.chdir('/workspace')
+    `);
+  } catch (error) {
+    console.warn('Failed to setup persistent file system:', error);
+    // Fall back to memory-only file system
+    py.FS.mkdirTree('/workspace');
+    py.runPython('import os; os.chdir("/workspace")');
+  }
+}
+
+/**
+ * Install basic Python packages
+ */
+async function installBasicPackages(py: PyodideInterface, packageIndexUrls?: string[]): Promise<void> {
+  try {
+    // Install micropip for package management
+    await py.loadPackage(['micropip']);
+
+    // Every later install, including pip in the terminal, resolves against these
+    if (packageIndexUrls && packageIndexUrls.length > 0) {
+      const result = await runPython(`
+import micropip
+micropip.set_index_urls(${JSON.stringify(packageIndexUrls)})
+      `);
+      if (!result.success) {
+        console.warn('Failed to set package indexes:', result.error);
+      }
+    }
+
+    // Install commonly used packages
+    await runPython(`
+import micropip
+await micropip.install(['requests', 'numpy', 'matplotlib'])
+    `);
+  } catch (error) {
+    console.warn('Failed to install basic packages:', error);
+  }
+}
+
+// =============================================================================
+// FIGURE CAPTURE
+// =============================================================================
+
+const FIGURE_MODULE = '_vibekraft_figures';
+
+/**
+ * Python side of figure capture. There is no DOM in the worker, so
+ * matplotlib renders off-screen and plt.show() / Image.show() save the
+ * image into a list that is drained after every run.
+ */
+const FIGURE_CAPTURE_SOURCE = `
+import base64, io, json, os, sys
+
+os.environ.setdefault('MPLBACKEND', 'agg')
+
+MAX_FIGURES = 20
+figure_format = 'png'
+_figures = []
+
+
+def _append(fmt, data, source, width, height):
+    if len(_figures) >= MAX_FIGURES:
+        return
+    _figures.append({
+        'format': fmt,
+        'data': data.decode('utf-8') if fmt == 'svg' else base64.b64encode(data).decode('ascii'),
+        'source': source,
+        'width': int(width),
+        'height': int(height),
+    })
+
+
+def _show(*args, **kwargs):
+    pyplot = sys.modules['matplotlib.pyplot']
+    for number in pyplot.get_fignums():
+        fig = pyplot.figure(number)
+        buffer = io.BytesIO()
+        fig.savefig(buffer, format=figure_format, bbox_inches='tight')
+        width, height = fig.get_size_inches() * fig.dpi
+        _append(figure_format, buffer.getvalue(), 'matplotlib', width, height)
+    pyplot.close('all')
+
+
+def _image_show(image, *args, **kwargs):
+    if image.mode not in ('1', 'L', 'LA', 'P', 'RGB', 'RGBA', 'I'):
+        image = image.convert('RGBA')
+    buffer = io.BytesIO()
+    image.save(buffer, format='PNG')
+    _append('png', buffer.getvalue(), 'pil', image.width, image.height)
+
+
+# Patch the show functions of the libraries a run is about to use
+def prepare(code):
+    from pyodide.code import find_imports
+    try:
+        imports = find_imports(code)
+    except SyntaxError:
+        imports = []
+    if 'matplotlib' in imports or 'matplotlib' in sys.modules:
+        try:
+            import matplotlib.pyplot
+            matplotlib.pyplot.show = _show
+        except ImportError:
+            pass
+    if 'PIL' in imports or 'PIL' in sys.modules:
+        try:
+            import PIL.Image
+            PIL.Image.Image.show = _image_show
+        except ImportError:
+            pass
+
+
+def drain():
+    figures = json.dumps(_figures)
+    _figures.clear()
+    return figures
+`;
+
+/**
+ * Register the capture helper as a module, so nothing leaks into user globals
+ */
+function installFigureCapture(py: PyodideInterface, format: PyodideWorkerInitOptions['figureFormat'] = 'png'): void {
+  const scope = py.globals.get('dict')();
+  try {
+    scope.set('source', FIGURE_CAPTURE_SOURCE);
+    py.runPython(`
+import sys, types
+module = types.ModuleType('${FIGURE_MODULE}')
+exec(source, module.__dict__)
+module.figure_format = '${format}'
+sys.modules['${FIGURE_MODULE}'] = module
+`, { globals: scope });
+  } catch (error) {
+    console.warn('Failed to install figure capture:', error);
+  } finally {
+    scope.destroy();
+  }
+}
+
+function prepareFigureCapture(py: PyodideInterface, code: string): void {
+  try {
+    const capture = py.pyimport(FIGURE_MODULE);
+    try {
+      capture.prepare(code);
+    } finally {
+      capture.destroy();
+    }
+  } catch (error) {
+    console.warn('Failed to prepare figure capture:', error);
+  }
+}
+
+function collectFigures(py: PyodideInterface): PythonFigure[] {
+  try {
+    return JSON.parse(py.runPython(`__import__('${FIGURE_MODULE}').drain()`));
+  } catch {
+    return [];
+  }
+}
+
+// =============================================================================
+// DEBUGGER
+// =============================================================================
+
+const DEBUGGER_MODULE = '_vibekraft_debugger';
+
+/**
+ * Python side of the debugger, built on sys.settrace. Only frames of the
+ * debugged file and other workspace modules are traced. At a breakpoint or
+ * after a step the tracer calls pause(), which blocks until the main thread
+ * sends the next command.
+ */
+const DEBUGGER_SOURCE = `
+import json, sys, types
+
+ROOT = '/workspace'
+MAX_VALUE_LENGTH = 200
+MAX_VARIABLES = 200
+STEP_MODES = {
+    'continue': 'continue',
+    'stepInto': 'step_into',
+    'stepOver': 'step_over',
+    'stepOut': 'step_out',
+}
+
+
+def _describe(value):
+    try:
+        text = repr(value)
+    except Exception as error:
+        text = f'<repr failed: {error}>'
+    if len(text) > MAX_VALUE_LENGTH:
+        text = text[:MAX_VALUE_LENGTH] + '...'
+    return {'type': type(value).__name__, 'value': text}
+
+
+def _variables(frame):
+    variables = []
+    for name, value in list(frame.f_locals.items()):
+        if name.startswith('__') or isinstance(value, types.ModuleType):
+            continue
+        variables.append({'name': name, **_describe(value)})
+        if len(variables) >= MAX_VARIABLES:
+            break
+    return variables
+
+
+class Debugger:
+    def __init__(self, path, breakpoints, pause, stop_on_entry):
+        self.path = path
+        self.pause = pause
+        self.mode = 'step_into' if stop_on_entry else 'continue'
+        self.step_frame = None
+        self.set_breakpoints(breakpoints)
+
+    def set_breakpoints(self, breakpoints):
+        self.breakpoints = {path: set(lines) for path, lines in breakpoints.items()}
+
+    def _traceable(self, frame):
+        # Only the debugged file and other workspace modules, never libraries
+        filename = frame.f_code.co_filename
+        return filename == self.path or filename.startswith(ROOT + '/')
+
+    def trace_call(self, frame, event, arg):
+        return self.trace_frame if self._traceable(frame) else None
+
+    def trace_frame(self, frame, event, arg):
+        if event == 'line':
+            reason = self._pause_reason(frame)
+            if reason:
+                self._interact(frame, reason)
+        elif event == 'return' and frame is self.step_frame and self.mode != 'continue':
+            # Stepping over or out of a finished frame pauses in its caller
+            self.mode = 'step_over'
+            self.step_frame = frame.f_back
+        return self.trace_frame
+
+    def _pause_reason(self, frame):
+        if frame.f_lineno in self.breakpoints.get(frame.f_code.co_filename, ()):
+            return 'breakpoint'
+        if self.mode == 'step_into' or (self.mode == 'step_over' and frame is self.step_frame):
+            return 'step'
+        return None
+
+    def _interact(self, frame, reason):
+        stack = []
+        current = frame
+        while current is not None:
+            if self._traceable(current):
+                stack.append({
+                    'name': current.f_code.co_name,
+                    'path': current.f_code.co_filename,
+                    'line': current.f_lineno,
+                    'variables': _variables(current),
+                })
+            current = current.f_back
+
+        command = json.loads(self.pause(json.dumps({
+            'reason': reason,
+            'path': frame.f_code.co_filename,
+            'line': frame.f_lineno,
+            'stack': stack,
+        })))
+        if 'breakpoints' in command:
+            self.set_breakpoints(command['breakpoints'])
+        if command['action'] == 'stop':
+            raise KeyboardInterrupt('Debugging stopped')
+        self.mode = STEP_MODES[command['action']]
+        self.step_frame = frame
+
+
+def run(code, path, breakpoints, stop_on_entry, pause):
+    import __main__
+    compiled = compile(code, path, 'exec')
+    debugger = Debugger(path, json.loads(breakpoints), pause, stop_on_entry)
+    sys.settrace(debugger.trace_call)
+    try:
+        exec(compiled, __main__.__dict__)
+    finally:
+        sys.settrace(None)
+`;
+
+/**
+ * Register a helper as a module, so nothing leaks into user globals
+ */
+function installHelperModule(py: PyodideInterface, name: string, source: string): void {
+  const scope = py.globals.get('dict')();
+  try {
+    scope.set('source', source);
+    py.runPython(`
+import sys, types
+module = types.ModuleType('${name}')
+exec(source, module.__dict__)
+sys.modules['${name}'] = module
+`, { globals: scope });
+  } catch (error) {
+    console.warn(`Failed to install ${name}:`, error);
+  } finally {
+    scope.destroy();
+  }
+}
+
+/**
+ * Report where the run paused and block until the main thread answers
+ * with a DebugCommand. Without a shared channel the run just continues.
+ */
+function waitForDebugCommand(state: string): string {
+  if (!debugChannel) return JSON.stringify({ action: 'continue' });
+
+  const { control, data } = debugChannel;
+  emit({ type: 'debugPaused', state: JSON.parse(state) });
+  Atomics.wait(control, 0, DEBUG_WAITING);
+
+  // Copy out of shared memory, which TextDecoder refuses to read
+  const command = new TextDecoder().decode(data.slice(0, Atomics.load(control, 1)));
+  Atomics.store(control, 0, DEBUG_WAITING);
+  return command;
+}
+
+// =============================================================================
+// EXECUTION
+// =============================================================================
+
+/** SIGINT, which Pyodide raises as KeyboardInterrupt */
+const SIGINT = 2;
+
+/** How often the heap is sampled while a run yields to the event loop */
+const MEMORY_CHECK_INTERVAL = 250;
+
+function runPython(code: string, memoryLimitBytes?: number): Promise<PythonExecutionResult> {
+  const py = requirePyodide();
+  return execute(py, code, memoryLimitBytes, () => py.runPythonAsync(code));
+}
+
+/**
+ * Run code under the debugger. The tracer is synchronous, so unlike
+ * runPython top-level await is not supported.
+ */
+function debugPython(
+  code: string,
+  path: string,
+  breakpoints: DebugBreakpoints,
+  stopOnEntry: boolean,
+  memoryLimitBytes?: number
+): Promise<PythonExecutionResult> {
+  const py = requirePyodide();
+  return execute(py, code, memoryLimitBytes, async () => {
+    const debuggerModule = py.pyimport(DEBUGGER_MODULE);
+    try {
+      debuggerModule.run(code, path, JSON.stringify(breakpoints), stopOnEntry, waitForDebugCommand);
+    } finally {
+      debuggerModule.destroy();
+    }
+    return undefined;
+  });
+}
+
+async function execute(
+  py: PyodideInterface,
+  code: string,
+  memoryLimitBytes: number | undefined,
+  run: () => Promise<any>
+): Promise<PythonExecutionResult> {
+  // Clear buffers
+  outputBuffer = [];
+  errorBuffer = [];
+
+  // Async code yields between awaits, which is the only chance to stop it
+  // from inside the worker; synchronous code is checked once it finishes.
+  // The heap is not visible outside the worker, so a synchronous run that
+  // keeps allocating is only stopped by the main thread's execution timeout.
+  let memoryExceeded = false;
+  const memoryCheck = memoryLimitBytes
+    ? setInterval(() => {
+        if (heapSize(py) > memoryLimitBytes) {
+          memoryExceeded = true;
+          if (interruptBuffer) interruptBuffer[0] = SIGINT;
+        }
+      }, MEMORY_CHECK_INTERVAL)
+    : null;
+
+  try {
+    prepareFigureCapture(py, code);
+    const result = await run();
+
+    if (memoryLimitBytes && heapSize(py) > memoryLimitBytes) {
+      memoryExceeded = true;
+    }
+
+    if (memoryExceeded) {
+      return {
+        success: false,
+        error: memoryLimitError(py, memoryLimitBytes!),
+        memoryExceeded: true,
+        output: outputBuffer.join(''),
+        stderr: errorBuffer.join('')
+      };
+    }
+
+    return {
+      success: true,
+      result: toCloneable(result),
+      output: outputBuffer.join(''),
+      stderr: errorBuffer.join(''),
+      figures: collectFigures(py)
+    };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+
+    return {
+      success: false,
+      error: memoryExceeded ? memoryLimitError(py, memoryLimitBytes!) : message,
+      interrupted: !memoryExceeded && message.includes('KeyboardInterrupt'),
+      memoryExceeded,
+      output: outputBuffer.join(''),
+      stderr: errorBuffer.join(''),
+      figures: collectFigures(py)
+    };
+  } finally {
+    if (memoryCheck) clearInterval(memoryCheck);
+  }
+}
+
+/**
+ * Size of the WebAssembly heap, which only ever grows
+ */
+function heapSize(py: PyodideInterface): number {
+  return (py as any)._module?.HEAP8?.length ?? 0;
+}
+
+function memoryLimitError(py: PyodideInterface, limit: number): string {
+  const toMB = (bytes: number) => Math.round(bytes / (1024 * 1024));
+  return `MemoryError: interpreter heap reached ${toMB(heapSize(py))} MB, above the ${toMB(limit)} MB limit`;
+}
+
+/**
+ * Convert a Python return value into something postMessage can clone.
+ * PyProxies are converted to plain JS and released.
+ */
+function toCloneable(value: any): any {
+  if (value && typeof value === 'object' && typeof value.toJs === 'function') {
+    try {
+      return value.toJs({ dict_converter: Object.fromEntries, create_pyproxies: false });
+    } catch {
+      return String(value);
+    } finally {
+      value.destroy?.();
+    }
+  }
+  return typeof value === 'function' ? String(value) : value;
+}
+
+async function installPackage(packageName: string): Promise<boolean> {
+  const result = await runPython(`
+import micropip
+await micropip.install(${JSON.stringify(packageName)})
+  `);
+
+  if (!result.success) {
+    console.error(`Failed to install package ${packageName}:`, result.error);
+  }
+  return result.success;
+}
+
+async function getInstalledPackages(): Promise<PackageInfo[]> {
+  if (!pyodide) return [];
+
+  const result = await runPython(`
+import micropip
+import json
+json.dumps([{'name': name, 'version': version, 'installed': True} for name, version in micropip.list().items()])
+  `);
+
+  if (result.success && result.result) {
+    return JSON.parse(result.result);
+  }
+  return [];
+}
+
+// =============================================================================
+// FILE SYSTEM
+// =============================================================================
+
+async function writeFile(path: string, content: string | Uint8Array): Promise<void> {
+  const py = requirePyodide();
+
+  // Ensure directory exists
+  const dir = path.substring(0, path.lastIndexOf('/'));
+  if (dir) {
+    py.FS.mkdirTree(dir);
+  }
+
+  py.FS.writeFile(path, typeof content === 'string' ? new TextEncoder().encode(content) : content);
+
+  // Sync to IndexedDB if using persistent storage
+  if (mountedPaths.size > 0) {
+    await syncFileSystem();
+  }
+}
+
+function readFile(path: string): string {
+  return (requirePyodide().FS as any).readFile(path, { encoding: 'utf8' });
+}
+
+function listDirectory(path: string): string[] {
+  try {
+    return requirePyodide().FS.readdir(path).filter((name: string) => name !== '.' && name !== '..');
+  } catch (error) {
+    console.error(`Failed to list directory ${path}:`, error);
+    return [];
+  }
+}
+
+function exists(path: string): boolean {
+  if (!pyodide) return false;
+
+  try {
+    pyodide.FS.stat(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function syncFileSystem(): Promise<void> {
+  if (!pyodide || mountedPaths.size === 0) return;
+
+  const py = pyodide;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      py.FS.syncfs(false, (err: any) => {
+        if (err) reject(err);
+        else resolve();
+      });
+    });
+  } catch (error) {
+    console.error('Failed to sync file system:', error);
+  }
+}
+
+// =============================================================================
+// GLOBALS
+// =============================================================================
+
+/**
+ * Only primitive globals cross the worker boundary
+ */
+function getGlobals(): Record<string, string | number | boolean> {
+  if (!pyodide) return {};
+
+  const globals: Record<string, string | number | boolean> = {};
+  for (const key of pyodide.globals.keys()) {
+    const value = pyodide.globals.get(key);
+    if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+      globals[key] = value;
+    } else {
+      value?.destroy?.();
+    }
+  }
+  return globals;
+}
+
+function setGlobal(name: string, value: unknown): void {
+  requirePyodide().globals.set(name, value);
+}
+
+// =============================================================================
+// VARIABLE INSPECTOR
+// =============================================================================
+
+const INSPECTOR_MODULE = '_vibekraft_inspector';
+
+/**
+ * Python side of the variable explorer. Globals are described without
+ * importing anything, and tables are built one page at a time, so a large
+ * DataFrame never crosses the worker boundary whole.
+ */
+const INSPECTOR_SOURCE = `
+import json, reprlib, types
+
+MAX_PREVIEW_LENGTH = 120
+MAX_CELL_LENGTH = 80
+MAX_COLUMNS = 50
+SCALARS = (bool, int, float, complex, str, bytes, type(None))
+ARRAY_KINDS = ('dataframe', 'series', 'ndarray')
+
+_repr = reprlib.Repr()
+_repr.maxstring = MAX_PREVIEW_LENGTH
+_repr.maxother = MAX_PREVIEW_LENGTH
+
+
+def _short(text, limit):
+    text = ' '.join(str(text).split())
+    return text if len(text) <= limit else text[:limit] + '...'
+
+
+def _kind(value):
+    # Checked by name so inspecting never imports pandas or numpy
+    cls = type(value)
+    module = cls.__module__.split('.')[0]
+    if module == 'pandas' and cls.__name__ in ('DataFrame', 'Series'):
+        return cls.__name__.lower()
+    if module == 'numpy' and cls.__name__ == 'ndarray':
+        return 'ndarray'
+    if isinstance(value, (list, tuple, set, frozenset)):
+        return 'sequence'
+    if isinstance(value, dict):
+        return 'mapping'
+    if isinstance(value, SCALARS):
+        return 'scalar'
+    return 'object'
+
+
+def _is_user_global(name, value):
+    return not (
+        name.startswith('_')
+        or isinstance(value, (types.ModuleType, types.FunctionType, types.BuiltinFunctionType, type))
+    )
+
+
+def _preview(value, kind):
+    try:
+        if kind == 'dataframe':
+            return _short(', '.join(str(column) for column in value.columns), MAX_PREVIEW_LENGTH)
+        # reprlib keeps long containers from being rendered in full
+        return _short(_repr.repr(value), MAX_PREVIEW_LENGTH)
+    except Exception as error:
+        return f'<preview failed: {error}>'
+
+
+def describe(value, name):
+    kind = _kind(value)
+    shape = [int(size) for size in value.shape] if kind in ARRAY_KINDS else None
+    length = None
+    if kind in ('sequence', 'mapping', 'object') or isinstance(value, (str, bytes)):
+        try:
+            length = len(value)
+        except Exception:
+            pass
+    return {
+        'name': name,
+        'type': type(value).__name__,
+        'kind': kind,
+        'shape': shape,
+        'length': length,
+        'dtype': str(value.dtype) if kind in ('series', 'ndarray') else None,
+        'preview': _preview(value, kind),
+        'tabular': kind not in ('scalar', 'object'),
+    }
+
+
+def list_globals():
+    import __main__
+    return json.dumps([
+        describe(value, name)
+        for name, value in sorted(vars(__main__).items())
+        if _is_user_global(name, value)
+    ])
+
+
+def _cell(value, quoted=False):
+    try:
+        text = repr(value) if quoted else str(value)
+    except Exception as error:
+        text = f'<failed: {error}>'
+    return _short(text, MAX_CELL_LENGTH)
+
+
+def table(name, offset, limit):
+    import __main__
+    namespace = vars(__main__)
+    if name not in namespace:
+        raise NameError(f'name {name!r} is not defined')
+    value = namespace[name]
+    kind = _kind(value)
+    end = offset + limit
+    dtypes = None
+
+    if kind == 'dataframe':
+        part = value.iloc[offset:end, :MAX_COLUMNS]
+        columns = [str(column) for column in part.columns]
+        index = [str(label) for label in part.index]
+        rows = [[_cell(cell) for cell in row] for row in part.itertuples(index=False, name=None)]
+        dtypes = [str(dtype) for dtype in part.dtypes]
+        total_rows, total_columns = value.shape
+    elif kind == 'series':
+        part = value.iloc[offset:end]
+        columns = [str(value.name) if value.name is not None else 'value']
+        index = [str(label) for label in part.index]
+        rows = [[_cell(cell)] for cell in part.tolist()]
+        dtypes = [str(value.dtype)]
+        total_rows, total_columns = len(value), 1
+    elif kind == 'ndarray':
+        array = value.reshape(1) if value.ndim == 0 else value
+        part = array[offset:end]
+        if array.ndim == 1:
+            columns = ['value']
+            rows = [[_cell(cell)] for cell in part.tolist()]
+            total_columns = 1
+        else:
+            # Rows run along the first axis; deeper axes stay nested in each cell
+            total_columns = array.shape[1]
+            columns = [str(column) for column in range(min(total_columns, MAX_COLUMNS))]
+            rows = [[_cell(cell) for cell in row[:MAX_COLUMNS]] for row in part]
+        index = [str(position) for position in range(offset, offset + len(part))]
+        dtypes = [str(value.dtype)] * len(columns)
+        total_rows = array.shape[0]
+    elif kind == 'sequence':
+        items = list(value)
+        columns = ['value']
+        index = [str(position) for position in range(offset, min(end, len(items)))]
+        rows = [[_cell(item, quoted=True)] for item in items[offset:end]]
+        total_rows, total_columns = len(items), 1
+    elif kind == 'mapping':
+        items = list(value.items())[offset:end]
+        columns = ['value']
+        index = [_cell(key, quoted=True) for key, _ in items]
+        rows = [[_cell(item, quoted=True)] for _, item in items]
+        total_rows, total_columns = len(value), 1
+    else:
+        raise TypeError(f'{name} ({type(value).__name__}) has no table view')
+
+    return json.dumps({
+        'name': name,
+        'columns': columns,
+        'index': index,
+        'rows': rows,
+        'dtypes': dtypes,
+        'offset': offset,
+        'totalRows': total_rows,
+        'totalColumns': total_columns,
+    })
+`;
+
+function inspectGlobals(): VariableInfo[] {
+  return JSON.parse(requirePyodide().runPython(`__import__('${INSPECTOR_MODULE}').list_globals()`));
+}
+
+function inspectVariable(name: string, offset: number, limit: number): VariableTable {
+  const inspector = requirePyodide().pyimport(INSPECTOR_MODULE);
+  try {
+    return JSON.parse(inspector.table(name, offset, limit));
+  } finally {
+    inspector.destroy();
+  }
+}
+
+// =============================================================================
+// DISPATCH
+// =============================================================================
+
+type Handlers = {
+  [M in PyodideWorkerMethod]: (
+    params: PyodideWorkerMethods[M]['params']
+  ) => PyodideWorkerMethods[M]['result'] | Promise<PyodideWorkerMethods[M]['result']>;
+};
+
+const handlers: Handlers = {
+  initialize,
+  runPython: ({ code, memoryLimitBytes }) => runPython(code, memoryLimitBytes),
+  debugPython: ({ code, path, breakpoints, stopOnEntry, memoryLimitBytes }) =>
+    debugPython(code, path, breakpoints, stopOnEntry, memoryLimitBytes),
+  installPackage: ({ packageName }) => installPackage(packageName),
+  getInstalledPackages: () => getInstalledPackages(),
+  writeFile: ({ path, content }) => writeFile(path, content),
+  readFile: ({ path }) => readFile(path),
+  listDirectory: ({ path }) => listDirectory(path),
+  exists: ({ path }) => exists(path),
+  syncFileSystem: () => syncFileSystem(),
+  getGlobals: () => getGlobals(),
+  setGlobal: ({ name, value }) => setGlobal(name, value),
+  inspectGlobals: () => inspectGlobals(),
+  inspectVariable: ({ name, offset, limit }) => inspectVariable(name, offset, limit),
+};
+
+scope.onmessage = async (event) => {
+  const { id, method, params } = event.data;
+  const handler = handlers[method] as (params: unknown) => unknown;
+
+  try {
+    const result = await handler(params);
+    scope.postMessage({ type: 'response', id, ok: true, result });
+  } catch (error) {
+    scope.postMessage({
+      type: 'response',
+      id,
+      ok: false,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  }
+};
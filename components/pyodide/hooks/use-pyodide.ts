@@ -4,10 +4,12 @@
  */
 
 import { useState, useEffect, useCallback, useRef } from 'react';
-import { PyodideRuntime, PyodideConfig, PythonExecutionResult } from '../core/pyodide-runtime';
+import { PyodideRuntime, PyodideConfig, PythonExecutionOptions, PythonExecutionResult } from '../core/pyodide-runtime';
 import { PyodideFileSystem, FileInfo } from '../core/pyodide-filesystem';
-import { PyodidePackageManager, PackageInfo, InstallationProgress } from '../core/pyodide-packages';
+import { PyodidePackageManager, PackageInfo, InstallationProgress, EnvironmentDiffEntry } from '../core/pyodide-packages';
 import { PyodideStateManager, PyodideWorkspaceState } from '../core/pyodide-state-manager';
+import { PyodideCodeIntelligence } from '../core/pyodide-intelligence';
+import { PyodideTestRunner } from '../core/pyodide-test-runner';
 
 export interface UsePyodideOptions {
   workspaceId: string;
@@ -20,11 +22,13 @@ export interface UsePyodideReturn {
   runtime: PyodideRuntime | null;
   isInitialized: boolean;
   isLoading: boolean;
+  isExecuting: boolean;
   error: string | null;
 
   // Core operations
   initialize: () => Promise<void>;
-  runPython: (code: string) => Promise<PythonExecutionResult>;
+  runPython: (code: string, options?: PythonExecutionOptions) => Promise<PythonExecutionResult>;
+  interrupt: () => void;
   cleanup: () => Promise<void>;
 
   // State management
@@ -53,6 +57,18 @@ export interface UsePyodideReturn {
   searchPackages: (query: string) => Promise<any[]>;
   refreshPackages: () => Promise<void>;
 
+  // Lock file; environmentDiff is null when the workspace has no lock file
+  environmentDiff: EnvironmentDiffEntry[] | null;
+  refreshEnvironmentDiff: () => Promise<void>;
+  syncToLockFile: () => Promise<void>;
+  updateLockFile: () => Promise<void>;
+
+  // Code intelligence
+  codeIntelligence: PyodideCodeIntelligence | null;
+
+  // Testing
+  testRunner: PyodideTestRunner | null;
+
   // Console integration
   output: string[];
   clearOutput: () => void;
@@ -63,6 +79,18 @@ export interface UsePyodideReturn {
   loadWorkspace: () => Promise<void>;
 }
 
+/**
+ * A broken lock file should not keep the workspace from loading
+ */
+async function loadEnvironmentDiff(packageManager: PyodidePackageManager): Promise<EnvironmentDiffEntry[] | null> {
+  try {
+    return await packageManager.diffEnvironment();
+  } catch (error) {
+    console.warn('Failed to compare the environment with the lock file:', error);
+    return null;
+  }
+}
+
 export function usePyodide({
   workspaceId,
   config = {},
@@ -72,11 +100,15 @@ export function usePyodide({
   const [fileSystem, setFileSystem] = useState<PyodideFileSystem | null>(null);
   const [packageManager, setPackageManager] = useState<PyodidePackageManager | null>(null);
   const [stateManager, setStateManager] = useState<PyodideStateManager | null>(null);
+  const [codeIntelligence, setCodeIntelligence] = useState<PyodideCodeIntelligence | null>(null);
+  const [testRunner, setTestRunner] = useState<PyodideTestRunner | null>(null);
   const [isInitialized, setIsInitialized] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [executionCount, setExecutionCount] = useState(0);
   const [output, setOutput] = useState<string[]>([]);
   const [installedPackages, setInstalledPackages] = useState<PackageInfo[]>([]);
+  const [environmentDiff, setEnvironmentDiff] = useState<EnvironmentDiffEntry[] | null>(null);
 
   const initializationRef = useRef<Promise<void> | null>(null);
 
@@ -117,8 +149,8 @@ export function usePyodide({
         // Load existing files from database
         await fs.loadFromDatabase();
 
-        // Create package manager
-        const pkgManager = new PyodidePackageManager(pyodideRuntime);
+        // Create package manager; it keeps the workspace lock file
+        const pkgManager = new PyodidePackageManager(pyodideRuntime, fs);
         await pkgManager.initialize();
 
         // Get initial package list
@@ -128,12 +160,18 @@ export function usePyodide({
         const stateMgr = new PyodideStateManager(workspaceId, pyodideRuntime, fs, pkgManager);
         await stateMgr.initialize();
 
+        // Restoring replayed the lock file; report anything it could not match
+        const diff = await loadEnvironmentDiff(pkgManager);
+
         // Update state
         setRuntime(pyodideRuntime);
         setFileSystem(fs);
         setPackageManager(pkgManager);
         setStateManager(stateMgr);
+        setCodeIntelligence(new PyodideCodeIntelligence(pyodideRuntime));
+        setTestRunner(new PyodideTestRunner(pyodideRuntime));
         setInstalledPackages(packages);
+        setEnvironmentDiff(diff);
         setIsInitialized(true);
         setError(null);
 
@@ -159,6 +197,11 @@ export function usePyodide({
     return initPromise;
   }, [workspaceId, config, isInitialized, isLoading]);
 
+  // Keep code intelligence aware of what the package manager reports
+  useEffect(() => {
+    codeIntelligence?.setPackages(installedPackages);
+  }, [codeIntelligence, installedPackages]);
+
   // Auto-initialize if requested
   useEffect(() => {
     if (autoInitialize && !isInitialized && !isLoading) {
@@ -167,13 +210,17 @@ export function usePyodide({
   }, [autoInitialize, initialize, isInitialized, isLoading]);
 
   // Run Python code
-  const runPython = useCallback(async (code: string): Promise<PythonExecutionResult> => {
+  const runPython = useCallback(async (
+    code: string,
+    options?: PythonExecutionOptions
+  ): Promise<PythonExecutionResult> => {
     if (!runtime || !isInitialized) {
       throw new Error('Pyodide runtime not initialized');
     }
 
+    setExecutionCount(count => count + 1);
     try {
-      const result = await runtime.runPython(code);
+      const result = await runtime.runPython(code, options);
       
       // Add command to output
       setOutput(prev => [
@@ -189,9 +236,16 @@ export function usePyodide({
       const errorMessage = error instanceof Error ? error.message : 'Execution failed';
       setOutput(prev => [...prev.slice(-999), `ERROR: ${errorMessage}`]);
       throw error;
+    } finally {
+      setExecutionCount(count => count - 1);
     }
   }, [runtime, isInitialized]);
 
+  // Stop the running code with KeyboardInterrupt
+  const interrupt = useCallback(() => {
+    runtime?.interrupt();
+  }, [runtime]);
+
   // File system operations
   const createFile = useCallback(async (path: string, content: string = '') => {
     if (!fileSystem) throw new Error('File system not initialized');
@@ -241,6 +295,7 @@ export function usePyodide({
       // Refresh package list
       const packages = await packageManager.getInstalledPackages();
       setInstalledPackages(packages);
+      setEnvironmentDiff(await loadEnvironmentDiff(packageManager));
     }
     
     return success;
@@ -255,6 +310,7 @@ export function usePyodide({
       // Refresh package list
       const packages = await packageManager.getInstalledPackages();
       setInstalledPackages(packages);
+      setEnvironmentDiff(await loadEnvironmentDiff(packageManager));
     }
     
     return success;
@@ -271,6 +327,33 @@ export function usePyodide({
     setInstalledPackages(packages);
   }, [packageManager]);
 
+  // Lock file operations
+  const refreshEnvironmentDiff = useCallback(async () => {
+    if (!packageManager) return;
+    setEnvironmentDiff(await loadEnvironmentDiff(packageManager));
+  }, [packageManager]);
+
+  // Install what the lock file pins
+  const syncToLockFile = useCallback(async () => {
+    if (!packageManager) throw new Error('Package manager not initialized');
+
+    const lock = await packageManager.readLockFile();
+    if (lock) {
+      await packageManager.installLocked(lock);
+    }
+
+    setInstalledPackages(await packageManager.getInstalledPackages());
+    setEnvironmentDiff(await loadEnvironmentDiff(packageManager));
+  }, [packageManager]);
+
+  // Accept the runtime as it is into the lock file
+  const updateLockFile = useCallback(async () => {
+    if (!packageManager) throw new Error('Package manager not initialized');
+
+    await packageManager.writeLockFile();
+    setEnvironmentDiff(await loadEnvironmentDiff(packageManager));
+  }, [packageManager]);
+
   // Output management
   const clearOutput = useCallback(() => {
     setOutput([]);
@@ -308,6 +391,7 @@ export function usePyodide({
     if (packageManager) {
       const packages = await packageManager.getInstalledPackages();
       setInstalledPackages(packages);
+      setEnvironmentDiff(await loadEnvironmentDiff(packageManager));
     }
   }, [stateManager, packageManager]);
 
@@ -322,17 +406,21 @@ export function usePyodide({
     if (stateManager) {
       await stateManager.cleanup();
     }
+    packageManager?.dispose();
     if (runtime) {
       await runtime.cleanup();
       setRuntime(null);
       setFileSystem(null);
       setPackageManager(null);
       setStateManager(null);
+      setCodeIntelligence(null);
+      setTestRunner(null);
       setIsInitialized(false);
       setOutput([]);
       setInstalledPackages([]);
+      setEnvironmentDiff(null);
     }
-  }, [runtime, stateManager]);
+  }, [runtime, stateManager, packageManager]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -348,11 +436,13 @@ export function usePyodide({
     runtime,
     isInitialized,
     isLoading,
+    isExecuting: executionCount > 0,
     error,
 
     // Core operations
     initialize,
     runPython,
+    interrupt,
     cleanup,
 
     // File system operations
@@ -373,6 +463,18 @@ export function usePyodide({
     searchPackages,
     refreshPackages,
 
+    // Lock file
+    environmentDiff,
+    refreshEnvironmentDiff,
+    syncToLockFile,
+    updateLockFile,
+
+    // Code intelligence
+    codeIntelligence,
+
+    // Testing
+    testRunner,
+
     // Console integration
     output,
     clearOutput,
@@ -3,6 +3,8 @@
  * Pre-configured Python projects to help users get started quickly
  */
 
+import { createNotebook, serializeNotebook } from '../core/pyodide-notebook';
+
 export interface SeedProject {
   id: string;
   name: string;
@@ -233,171 +235,139 @@ Happy coding! 🐍
     ],
     files: [
       {
-        path: 'data_analysis.py',
-        content: `#!/usr/bin/env python3
-"""
-Data Analysis with Pandas
-=========================
-
-This project demonstrates basic data analysis using Pandas and NumPy.
-We'll work with sample sales data to learn key concepts.
-"""
-
-import pandas as pd
+        path: 'data_analysis.ipynb',
+        content: serializeNotebook(createNotebook([
+          {
+            cell_type: 'markdown',
+            source: `# Data Analysis with Pandas
+
+This notebook walks through a basic analysis of sample sales data with Pandas, NumPy and Matplotlib.
+Run each cell with **Shift+Enter**, or use **Run All** in the toolbar.`
+          },
+          {
+            cell_type: 'code',
+            source: `import pandas as pd
 import numpy as np
 import matplotlib.pyplot as plt
 from datetime import datetime, timedelta
-import random
-
-def create_sample_data():
-    """Create sample sales data for analysis."""
-    print("Creating sample sales data...")
-    
-    # Set random seed for reproducible results
-    np.random.seed(42)
-    random.seed(42)
-    
-    # Generate sample data
-    products = ['Laptop', 'Mouse', 'Keyboard', 'Monitor', 'Headphones']
-    regions = ['North', 'South', 'East', 'West']
-    
-    data = []
-    start_date = datetime(2023, 1, 1)
-    
-    for i in range(1000):
-        date = start_date + timedelta(days=random.randint(0, 365))
-        product = random.choice(products)
-        region = random.choice(regions)
-        quantity = random.randint(1, 10)
-        
-        # Price varies by product
-        price_map = {
-            'Laptop': random.uniform(800, 1500),
-            'Monitor': random.uniform(200, 600),
-            'Keyboard': random.uniform(50, 150),
-            'Mouse': random.uniform(20, 80),
-            'Headphones': random.uniform(30, 200)
-        }
-        
-        price = round(price_map[product], 2)
-        total = round(quantity * price, 2)
-        
-        data.append({
-            'date': date.strftime('%Y-%m-%d'),
-            'product': product,
-            'region': region,
-            'quantity': quantity,
-            'price': price,
-            'total': total
-        })
-    
-    return pd.DataFrame(data)
-
-def analyze_data(df):
-    """Perform basic data analysis."""
-    print("\\n📊 Data Analysis Results")
-    print("=" * 40)
-    
-    # Basic info about the dataset
-    print(f"Dataset shape: {df.shape}")
-    print(f"Date range: {df['date'].min()} to {df['date'].max()}")
-    
-    # Summary statistics
-    print("\\n📈 Summary Statistics:")
-    print(df[['quantity', 'price', 'total']].describe())
-    
-    # Sales by product
-    print("\\n🛍️ Sales by Product:")
-    product_sales = df.groupby('product')['total'].sum().sort_values(ascending=False)
-    for product, total in product_sales.items():
-        print(f"{product}: $\{total:,.2f}")
-    
-    # Sales by region
-    print("\\n🌍 Sales by Region:")
-    region_sales = df.groupby('region')['total'].sum().sort_values(ascending=False)
-    for region, total in region_sales.items():
-        print(f"{region}: $\{total:,.2f}")
-    
-    # Monthly trends
-    df['month'] = pd.to_datetime(df['date']).dt.to_period('M')
-    monthly_sales = df.groupby('month')['total'].sum()
-    print(f"\\n📅 Monthly Sales Trend:")
-    print(f"Average monthly sales: $\{monthly_sales.mean():,.2f}")
-    print(f"Best month: {monthly_sales.idxmax()} ($\{monthly_sales.max():,.2f})")
-    print(f"Worst month: {monthly_sales.idxmin()} ($\{monthly_sales.min():,.2f})")
-    
-    return df
-
-def create_visualizations(df):
-    """Create basic visualizations."""
-    print("\\n📊 Creating visualizations...")
-    
-    # Set up the plotting style
-    plt.style.use('default')
-    fig, axes = plt.subplots(2, 2, figsize=(12, 10))
-    fig.suptitle('Sales Data Analysis', fontsize=16)
-    
-    # 1. Sales by Product (Bar Chart)
-    product_sales = df.groupby('product')['total'].sum().sort_values(ascending=False)
-    axes[0, 0].bar(product_sales.index, product_sales.values)
-    axes[0, 0].set_title('Total Sales by Product')
-    axes[0, 0].set_ylabel('Sales ($)')
-    axes[0, 0].tick_params(axis='x', rotation=45)
-    
-    # 2. Sales by Region (Pie Chart)
-    region_sales = df.groupby('region')['total'].sum()
-    axes[0, 1].pie(region_sales.values, labels=region_sales.index, autopct='%1.1f%%')
-    axes[0, 1].set_title('Sales Distribution by Region')
-    
-    # 3. Monthly Sales Trend (Line Chart)
-    df['month'] = pd.to_datetime(df['date']).dt.to_period('M')
-    monthly_sales = df.groupby('month')['total'].sum()
-    axes[1, 0].plot(range(len(monthly_sales)), monthly_sales.values, marker='o')
-    axes[1, 0].set_title('Monthly Sales Trend')
-    axes[1, 0].set_ylabel('Sales ($)')
-    axes[1, 0].set_xlabel('Month')
-    
-    # 4. Quantity vs Price Scatter Plot
-    axes[1, 1].scatter(df['price'], df['quantity'], alpha=0.6)
-    axes[1, 1].set_title('Price vs Quantity')
-    axes[1, 1].set_xlabel('Price ($)')
-    axes[1, 1].set_ylabel('Quantity')
-    
-    plt.tight_layout()
-    plt.show()
-    
-    print("✅ Visualizations created successfully!")
-
-def main():
-    """Main analysis function."""
-    print("🐼 Welcome to Data Analysis with Pandas!")
-    print("=" * 50)
-    
-    # Create and load sample data
-    df = create_sample_data()
-    print(f"✅ Created dataset with {len(df)} records")
-    
-    # Display first few rows
-    print("\\n👀 First 5 rows of data:")
-    print(df.head())
-    
-    # Perform analysis
-    df = analyze_data(df)
-    
-    # Create visualizations
-    create_visualizations(df)
-    
-    print("\\n🎉 Analysis complete!")
-    print("\\nTry modifying the code to:")
-    print("- Add more products or regions")
-    print("- Change the date range")
-    print("- Create different types of charts")
-    print("- Calculate additional statistics")
+import random`
+          },
+          {
+            cell_type: 'markdown',
+            source: `## Create sample data
+
+We generate 1,000 sales records with a fixed random seed so the results are reproducible.`
+          },
+          {
+            cell_type: 'code',
+            source: `np.random.seed(42)
+random.seed(42)
+
+products = ['Laptop', 'Mouse', 'Keyboard', 'Monitor', 'Headphones']
+regions = ['North', 'South', 'East', 'West']
+price_ranges = {
+    'Laptop': (800, 1500),
+    'Monitor': (200, 600),
+    'Keyboard': (50, 150),
+    'Mouse': (20, 80),
+    'Headphones': (30, 200)
+}
 
-if __name__ == "__main__":
-    main()
-`,
-        description: 'Main data analysis script with sample data generation'
+data = []
+start_date = datetime(2023, 1, 1)
+
+for i in range(1000):
+    product = random.choice(products)
+    quantity = random.randint(1, 10)
+    price = round(random.uniform(*price_ranges[product]), 2)
+
+    data.append({
+        'date': start_date + timedelta(days=random.randint(0, 365)),
+        'product': product,
+        'region': random.choice(regions),
+        'quantity': quantity,
+        'price': price,
+        'total': round(quantity * price, 2)
+    })
+
+df = pd.DataFrame(data)
+print(f"Created dataset with {len(df)} records")`
+          },
+          {
+            cell_type: 'markdown',
+            source: `## Explore the data
+
+The last expression in a cell is displayed below it, so DataFrames render as tables.`
+          },
+          {
+            cell_type: 'code',
+            source: `df.head()`
+          },
+          {
+            cell_type: 'code',
+            source: `df[['quantity', 'price', 'total']].describe()`
+          },
+          {
+            cell_type: 'markdown',
+            source: `## Sales by product and region`
+          },
+          {
+            cell_type: 'code',
+            source: `df.pivot_table(index='product', columns='region', values='total', aggfunc='sum').round(2)`
+          },
+          {
+            cell_type: 'code',
+            source: `monthly_sales = df.groupby(df['date'].dt.to_period('M'))['total'].sum()
+
+print(f"Average monthly sales: $\{monthly_sales.mean():,.2f}")
+print(f"Best month: {monthly_sales.idxmax()} ($\{monthly_sales.max():,.2f})")
+print(f"Worst month: {monthly_sales.idxmin()} ($\{monthly_sales.min():,.2f})")`
+          },
+          {
+            cell_type: 'markdown',
+            source: `## Visualize
+
+Figures are shown inline when a cell calls \`plt.show()\` or leaves a figure open.`
+          },
+          {
+            cell_type: 'code',
+            source: `fig, axes = plt.subplots(2, 2, figsize=(12, 10))
+fig.suptitle('Sales Data Analysis', fontsize=16)
+
+product_sales = df.groupby('product')['total'].sum().sort_values(ascending=False)
+axes[0, 0].bar(product_sales.index, product_sales.values)
+axes[0, 0].set_title('Total Sales by Product')
+axes[0, 0].set_ylabel('Sales ($)')
+axes[0, 0].tick_params(axis='x', rotation=45)
+
+region_sales = df.groupby('region')['total'].sum()
+axes[0, 1].pie(region_sales.values, labels=region_sales.index, autopct='%1.1f%%')
+axes[0, 1].set_title('Sales Distribution by Region')
+
+axes[1, 0].plot(range(len(monthly_sales)), monthly_sales.values, marker='o')
+axes[1, 0].set_title('Monthly Sales Trend')
+axes[1, 0].set_ylabel('Sales ($)')
+axes[1, 0].set_xlabel('Month')
+
+axes[1, 1].scatter(df['price'], df['quantity'], alpha=0.6)
+axes[1, 1].set_title('Price vs Quantity')
+axes[1, 1].set_xlabel('Price ($)')
+axes[1, 1].set_ylabel('Quantity')
+
+plt.tight_layout()
+plt.show()`
+          },
+          {
+            cell_type: 'markdown',
+            source: `## Next steps
+
+- Add more products or regions
+- Change the date range
+- Create different types of charts
+- Calculate additional statistics`
+          }
+        ])),
+        description: 'Notebook analyzing sample sales data step by step'
       },
       {
         path: 'data_exercises.py',
@@ -531,7 +501,7 @@ This project uses the following Python packages:
 
 ## Files
 
-- \`data_analysis.py\` - Main analysis script with sample data
+- \`data_analysis.ipynb\` - Step-by-step analysis notebook with sample data
 - \`data_exercises.py\` - Practice exercises
 
 ## Getting Started
@@ -542,10 +512,7 @@ This project uses the following Python packages:
    await micropip.install(['pandas', 'numpy', 'matplotlib'])
    \`\`\`
 
-2. Run the main analysis:
-   \`\`\`bash
-   python data_analysis.py
-   \`\`\`
+2. Open \`data_analysis.ipynb\` and run its cells one at a time, or all at once with **Run All**
 
 3. Try the exercises:
    \`\`\`bash
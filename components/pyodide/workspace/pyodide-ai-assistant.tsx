@@ -0,0 +1,136 @@
+'use client';
+
+import React, { useEffect, useRef } from 'react';
+import { useChat } from '@ai-sdk/react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Textarea } from '@/components/ui/textarea';
+import { Bot, FlaskConical, Loader2, Send, Square, User } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PyodideTestRunner, TestToolArgs, TestToolReport, runTestsForAgent } from '../core/pyodide-test-runner';
+
+interface PyodideAIAssistantProps {
+  workspaceId: string;
+  testRunner: PyodideTestRunner | null;
+  /** Called after each agent test run so the test panel can show it too */
+  onTestsRun?: () => void;
+  className?: string;
+}
+
+// Tool calls and follow-up answers per question
+const MAX_STEPS = 5;
+
+export function PyodideAIAssistant({
+  workspaceId,
+  testRunner,
+  onTestsRun,
+  className
+}: PyodideAIAssistantProps) {
+  const bottomRef = useRef<HTMLDivElement>(null);
+  // useChat keeps its first options, so tool calls read the latest runner from a ref
+  const testRunnerRef = useRef(testRunner);
+  testRunnerRef.current = testRunner;
+  const onTestsRunRef = useRef(onTestsRun);
+  onTestsRunRef.current = onTestsRun;
+
+  const {
+    messages,
+    input,
+    handleInputChange,
+    handleSubmit,
+    isLoading,
+    error,
+    stop
+  } = useChat({
+    api: '/api/ai/chat',
+    body: { context: { runtime: 'pyodide', workspace: { id: workspaceId } } },
+    maxSteps: MAX_STEPS,
+    onError: (error) => {
+      console.error('AI Chat Error:', error);
+    },
+    // The Pyodide tools have no server-side execute; run them here and return the result
+    onToolCall: async ({ toolCall }) => {
+      switch (toolCall.toolName) {
+        case 'runPythonTests': {
+          const runner = testRunnerRef.current;
+          if (!runner) {
+            return { error: 'The Python runtime is not ready' };
+          }
+          const report = await runTestsForAgent(runner, toolCall.args as TestToolArgs);
+          onTestsRunRef.current?.();
+          return report;
+        }
+        default:
+          return { error: `Unknown tool: ${toolCall.toolName}` };
+      }
+    }
+  });
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages]);
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (event.key === 'Enter' && !event.shiftKey) {
+      event.preventDefault();
+      handleSubmit();
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col h-full', className)}>
+      <ScrollArea className="flex-1">
+        <div className="p-3 space-y-3">
+          {messages.length === 0 && (
+            <p className="text-xs text-muted-foreground">
+              Ask about your code. The assistant can run the workspace tests to check its suggestions.
+            </p>
+          )}
+
+          {messages.map(message => (
+            <div key={message.id} className="flex gap-2 text-sm">
+              {message.role === 'user'
+                ? <User className="h-4 w-4 mt-0.5 shrink-0" />
+                : <Bot className="h-4 w-4 mt-0.5 shrink-0" />}
+              <div className="min-w-0 space-y-1">
+                {message.toolInvocations?.map(invocation => (
+                  <Badge key={invocation.toolCallId} variant="outline" className="gap-1 text-xs">
+                    <FlaskConical className="h-3 w-3" />
+                    {invocation.toolName}
+                    {invocation.state === 'result'
+                      ? (invocation.result as TestToolReport).success === false ? ' · failing' : ' · done'
+                      : <Loader2 className="h-3 w-3 animate-spin" />}
+                  </Badge>
+                ))}
+                {message.content && <div className="whitespace-pre-wrap break-words">{message.content}</div>}
+              </div>
+            </div>
+          ))}
+
+          {error && <p className="text-xs text-red-500">{error.message}</p>}
+          <div ref={bottomRef} />
+        </div>
+      </ScrollArea>
+
+      <form onSubmit={handleSubmit} className="border-t p-2 flex gap-2">
+        <Textarea
+          value={input}
+          onChange={handleInputChange}
+          onKeyDown={handleKeyDown}
+          placeholder="Ask the assistant..."
+          className="min-h-[60px] text-sm resize-none"
+        />
+        {isLoading ? (
+          <Button type="button" size="sm" variant="outline" onClick={stop}>
+            <Square className="h-4 w-4" />
+          </Button>
+        ) : (
+          <Button type="submit" size="sm" disabled={!input.trim()}>
+            <Send className="h-4 w-4" />
+          </Button>
+        )}
+      </form>
+    </div>
+  );
+}
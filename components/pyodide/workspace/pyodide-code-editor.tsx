@@ -0,0 +1,329 @@
+'use client';
+
+import React, { useRef, useEffect, useCallback } from 'react';
+import Editor, { type Monaco, type OnMount } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+import { cn } from '@/lib/utils';
+import type { PyodideCodeIntelligence, SourcePosition } from '../core/pyodide-intelligence';
+
+interface PyodideCodeEditorProps {
+  /** Workspace-relative path, as the file explorer reports it */
+  path: string;
+  content: string;
+  language: string;
+  intelligence?: PyodideCodeIntelligence | null;
+  /** Line to scroll to, e.g. after go-to-definition opened this file */
+  revealLine?: number;
+  onChange: (content: string) => void;
+  onSave?: () => void;
+  /** Open another workspace file at a line; the path is workspace-relative */
+  onOpenDefinition?: (path: string, line: number) => void;
+  /** Breakpoint lines, shown in the glyph margin */
+  breakpoints?: number[];
+  /** Enables the glyph margin; clicking it toggles a breakpoint */
+  onToggleBreakpoint?: (line: number) => void;
+  /** Line a debug run is paused at in this file */
+  pausedLine?: number | null;
+  className?: string;
+}
+
+type CodeEditor = Parameters<OnMount>[0];
+type TextModel = ReturnType<Monaco['editor']['createModel']>;
+type EditorPosition = InstanceType<Monaco['Position']>;
+type DecorationsCollection = ReturnType<CodeEditor['createDecorationsCollection']>;
+
+const WORKSPACE_ROOT = '/workspace';
+
+function toRuntimePath(path: string): string {
+  if (path.startsWith(`${WORKSPACE_ROOT}/`)) return path;
+  return `${WORKSPACE_ROOT}/${path.replace(/^\/+/, '')}`;
+}
+
+/** Monaco positions are 1-based; Jedi columns are 0-based */
+function toSourcePosition(position: EditorPosition): SourcePosition {
+  return { line: position.lineNumber, column: position.column - 1 };
+}
+
+function revealLineIn(codeEditor: CodeEditor, line: number): void {
+  codeEditor.revealLineInCenter(line);
+  codeEditor.setPosition({ lineNumber: line, column: 1 });
+  codeEditor.focus();
+}
+
+function completionKind(monaco: Monaco, type: string) {
+  const kinds = monaco.languages.CompletionItemKind;
+  switch (type) {
+    case 'module': return kinds.Module;
+    case 'class': return kinds.Class;
+    case 'function': return kinds.Function;
+    case 'instance': return kinds.Variable;
+    case 'param': return kinds.Variable;
+    case 'property': return kinds.Property;
+    case 'keyword': return kinds.Keyword;
+    case 'path': return kinds.File;
+    default: return kinds.Text;
+  }
+}
+
+export function PyodideCodeEditor({
+  path,
+  content,
+  language,
+  intelligence,
+  revealLine,
+  onChange,
+  onSave,
+  onOpenDefinition,
+  breakpoints,
+  onToggleBreakpoint,
+  pausedLine,
+  className
+}: PyodideCodeEditorProps) {
+  const { theme } = useTheme();
+  const editorRef = useRef<CodeEditor | null>(null);
+  const monacoRef = useRef<Monaco | null>(null);
+  const decorationsRef = useRef<DecorationsCollection | null>(null);
+  const providersRef = useRef<{ dispose(): void }[]>([]);
+  const definitionModelsRef = useRef<TextModel[]>([]);
+
+  // Providers are registered once per mount and read the latest props here
+  const intelligenceRef = useRef(intelligence);
+  intelligenceRef.current = intelligence;
+  const onSaveRef = useRef(onSave);
+  onSaveRef.current = onSave;
+  const onOpenDefinitionRef = useRef(onOpenDefinition);
+  onOpenDefinitionRef.current = onOpenDefinition;
+  const onToggleBreakpointRef = useRef(onToggleBreakpoint);
+  onToggleBreakpointRef.current = onToggleBreakpoint;
+
+  const runtimePath = toRuntimePath(path);
+
+  const registerProviders = useCallback((monaco: Monaco, ownModel: TextModel) => {
+    // Providers are global per language, so each editor answers for its own model only
+    const owns = (model: TextModel) => model === ownModel;
+    let lastCompletion: { source: string; position: SourcePosition } | null = null;
+
+    const completionProvider = monaco.languages.registerCompletionItemProvider('python', {
+      triggerCharacters: ['.'],
+      provideCompletionItems: async (model, position) => {
+        const service = intelligenceRef.current;
+        if (!service || !owns(model)) return { suggestions: [] };
+
+        const source = model.getValue();
+        const sourcePosition = toSourcePosition(position);
+        lastCompletion = { source, position: sourcePosition };
+
+        const word = model.getWordUntilPosition(position);
+        const range = new monaco.Range(position.lineNumber, word.startColumn, position.lineNumber, word.endColumn);
+        const completions = await service.complete(source, runtimePath, sourcePosition);
+
+        return {
+          suggestions: completions.map((completion, index) => ({
+            label: completion.name,
+            kind: completionKind(monaco, completion.type),
+            detail: completion.description,
+            insertText: completion.name,
+            // Keep Jedi's ranking
+            sortText: String(index).padStart(4, '0'),
+            range
+          }))
+        };
+      },
+      resolveCompletionItem: async (item) => {
+        const service = intelligenceRef.current;
+        if (!service || !lastCompletion || item.documentation) return item;
+
+        const label = typeof item.label === 'string' ? item.label : item.label.label;
+        const docstring = await service.completionDocstring(
+          lastCompletion.source, runtimePath, lastCompletion.position, label
+        );
+        return docstring ? { ...item, documentation: { value: '```\n' + docstring + '\n```' } } : item;
+      }
+    });
+
+    const signatureProvider = monaco.languages.registerSignatureHelpProvider('python', {
+      signatureHelpTriggerCharacters: ['(', ','],
+      signatureHelpRetriggerCharacters: [')'],
+      provideSignatureHelp: async (model, position) => {
+        const service = intelligenceRef.current;
+        if (!service || !owns(model)) return null;
+
+        const signatures = await service.signatures(model.getValue(), runtimePath, toSourcePosition(position));
+        if (signatures.length === 0) return null;
+
+        return {
+          value: {
+            signatures: signatures.map(signature => ({
+              label: signature.label,
+              documentation: signature.docstring,
+              parameters: signature.params.map(param => ({ label: param }))
+            })),
+            activeSignature: 0,
+            activeParameter: signatures[0].activeParameter ?? 0
+          },
+          dispose: () => {}
+        };
+      }
+    });
+
+    const hoverProvider = monaco.languages.registerHoverProvider('python', {
+      provideHover: async (model, position) => {
+        const service = intelligenceRef.current;
+        if (!service || !owns(model) || !model.getWordAtPosition(position)) return null;
+
+        const hover = await service.hover(model.getValue(), runtimePath, toSourcePosition(position));
+        if (!hover) return null;
+
+        const heading = hover.signatures.length > 0 ? hover.signatures.join('\n') : `${hover.type} ${hover.name}`;
+        return {
+          contents: [
+            { value: '```python\n' + heading + '\n```' },
+            ...(hover.docstring ? [{ value: '```\n' + hover.docstring + '\n```' }] : [])
+          ]
+        };
+      }
+    });
+
+    const definitionProvider = monaco.languages.registerDefinitionProvider('python', {
+      provideDefinition: async (model, position) => {
+        const service = intelligenceRef.current;
+        if (!service || !owns(model)) return null;
+
+        const definitions = await service.definitions(model.getValue(), runtimePath, toSourcePosition(position));
+        const locations: { uri: InstanceType<Monaco['Uri']>; range: InstanceType<Monaco['Range']> }[] = [];
+
+        for (const definition of definitions) {
+          if (!definition.path) continue;
+
+          let uri = monaco.Uri.file(definition.path);
+          if (definition.path === runtimePath) {
+            uri = model.uri;
+          } else if (!monaco.editor.getModel(uri)) {
+            // Monaco needs a model to peek at or navigate to another file
+            const source = await service.readSource(definition.path);
+            if (source === null) continue;
+            definitionModelsRef.current.push(monaco.editor.createModel(source, 'python', uri));
+          }
+
+          locations.push({
+            uri,
+            range: new monaco.Range(definition.line, definition.column + 1, definition.line, definition.column + 1)
+          });
+        }
+        return locations;
+      }
+    });
+
+    // Navigating into another workspace file opens it in its own tab
+    const opener = monaco.editor.registerEditorOpener({
+      openCodeEditor: (_source, resource, selectionOrPosition) => {
+        const open = onOpenDefinitionRef.current;
+        if (!open || !resource.path.startsWith(`${WORKSPACE_ROOT}/`)) return false;
+
+        const line = !selectionOrPosition
+          ? 1
+          : 'startLineNumber' in selectionOrPosition
+            ? selectionOrPosition.startLineNumber
+            : selectionOrPosition.lineNumber;
+        open(resource.path.slice(WORKSPACE_ROOT.length + 1), line);
+        return true;
+      }
+    });
+
+    providersRef.current = [completionProvider, signatureProvider, hoverProvider, definitionProvider, opener];
+  }, [runtimePath]);
+
+  // Breakpoint dots and the paused line
+  const updateDecorations = useCallback(() => {
+    const monaco = monacoRef.current;
+    if (!monaco || !decorationsRef.current) return;
+
+    decorationsRef.current.set([
+      ...(breakpoints ?? []).map(line => ({
+        range: new monaco.Range(line, 1, line, 1),
+        options: {
+          glyphMarginClassName: 'pyodide-breakpoint-glyph',
+          glyphMarginHoverMessage: { value: 'Breakpoint' }
+        }
+      })),
+      ...(pausedLine ? [{
+        range: new monaco.Range(pausedLine, 1, pausedLine, 1),
+        options: { isWholeLine: true, className: 'pyodide-paused-line' }
+      }] : [])
+    ]);
+  }, [breakpoints, pausedLine]);
+
+  const handleMount: OnMount = (mountedEditor, monaco) => {
+    editorRef.current = mountedEditor;
+    monacoRef.current = monaco;
+    decorationsRef.current = mountedEditor.createDecorationsCollection();
+    updateDecorations();
+
+    mountedEditor.addCommand(monaco.KeyMod.CtrlCmd | monaco.KeyCode.KeyS, () => {
+      onSaveRef.current?.();
+    });
+
+    mountedEditor.onMouseDown((event) => {
+      const line = event.target.position?.lineNumber;
+      if (line && event.target.type === monaco.editor.MouseTargetType.GUTTER_GLYPH_MARGIN) {
+        onToggleBreakpointRef.current?.(line);
+      }
+    });
+
+    const model = mountedEditor.getModel();
+    if (model && language === 'python') {
+      registerProviders(monaco, model);
+    }
+    if (revealLine) {
+      revealLineIn(mountedEditor, revealLine);
+    }
+  };
+
+  // Dispose providers, and models opened for definitions, with the editor
+  useEffect(() => {
+    return () => {
+      providersRef.current.forEach(provider => provider.dispose());
+      providersRef.current = [];
+      definitionModelsRef.current.forEach(model => model.dispose());
+      definitionModelsRef.current = [];
+    };
+  }, []);
+
+  useEffect(() => {
+    if (editorRef.current && revealLine) {
+      revealLineIn(editorRef.current, revealLine);
+    }
+  }, [revealLine]);
+
+  useEffect(() => {
+    updateDecorations();
+  }, [updateDecorations]);
+
+  useEffect(() => {
+    if (editorRef.current && pausedLine) {
+      editorRef.current.revealLineInCenterIfOutsideViewport(pausedLine);
+    }
+  }, [pausedLine]);
+
+  return (
+    <div className={cn('h-full', className)}>
+      <Editor
+        height="100%"
+        path={`file://${runtimePath}`}
+        language={language}
+        theme={theme === 'dark' ? 'vs-dark' : 'vs'}
+        value={content}
+        onChange={(value) => onChange(value ?? '')}
+        onMount={handleMount}
+        options={{
+          minimap: { enabled: false },
+          fontSize: 14,
+          scrollBeyondLastLine: false,
+          automaticLayout: true,
+          tabSize: 4,
+          glyphMargin: !!onToggleBreakpoint
+        }}
+      />
+    </div>
+  );
+}
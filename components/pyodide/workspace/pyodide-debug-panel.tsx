@@ -0,0 +1,268 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  ArrowDownToLine,
+  ArrowUpFromLine,
+  Bug,
+  CircleDot,
+  Layers,
+  Loader2,
+  Play,
+  Redo2,
+  Square,
+  Variable,
+  X
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { DebugAction, DebugPausedState } from '../core/pyodide-runtime';
+
+interface PyodideDebugPanelProps {
+  /** Set while a debug run is paused */
+  state: DebugPausedState | null;
+  /** A debug run is in progress, paused or not */
+  running: boolean;
+  canDebug: boolean;
+  /** Workspace-relative path of the Python file a new session debugs */
+  activeFile?: string | null;
+  /** Workspace-relative path to breakpoint lines */
+  breakpoints: Record<string, number[]>;
+  /** How the last session ended, if it failed */
+  lastError?: string | null;
+  onStart: (stopOnEntry: boolean) => void;
+  onAction: (action: DebugAction) => void;
+  /** Open a workspace-relative file at a line */
+  onOpenLocation?: (path: string, line: number) => void;
+  onRemoveBreakpoint: (path: string, line: number) => void;
+  onClearBreakpoints: () => void;
+  className?: string;
+}
+
+const WORKSPACE_ROOT = '/workspace';
+
+function workspacePath(path: string): string {
+  return path.startsWith(`${WORKSPACE_ROOT}/`) ? path.slice(WORKSPACE_ROOT.length + 1) : path;
+}
+
+export function PyodideDebugPanel({
+  state,
+  running,
+  canDebug,
+  activeFile,
+  breakpoints,
+  lastError,
+  onStart,
+  onAction,
+  onOpenLocation,
+  onRemoveBreakpoint,
+  onClearBreakpoints,
+  className
+}: PyodideDebugPanelProps) {
+  const [selectedFrame, setSelectedFrame] = useState(0);
+
+  // Every pause starts at the innermost frame
+  useEffect(() => {
+    setSelectedFrame(0);
+  }, [state]);
+
+  const frame = state?.stack[selectedFrame];
+  const breakpointList = Object.entries(breakpoints)
+    .flatMap(([path, lines]) => lines.map(line => ({ path, line })));
+
+  const stepButton = (action: DebugAction, title: string, icon: React.ReactNode) => (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => onAction(action)}
+      disabled={!state}
+      className="h-7 w-7 p-0"
+      title={title}
+    >
+      {icon}
+    </Button>
+  );
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Debug Toolbar */}
+      <div className="flex items-center justify-between p-2 border-b">
+        <div className="flex items-center gap-2">
+          <Bug className="h-4 w-4" />
+          <span className="text-sm font-medium">Debug</span>
+        </div>
+        {running ? (
+          <div className="flex items-center gap-0.5">
+            {stepButton('continue', 'Continue', <Play className="h-3.5 w-3.5" />)}
+            {stepButton('stepOver', 'Step Over', <Redo2 className="h-3.5 w-3.5" />)}
+            {stepButton('stepInto', 'Step Into', <ArrowDownToLine className="h-3.5 w-3.5" />)}
+            {stepButton('stepOut', 'Step Out', <ArrowUpFromLine className="h-3.5 w-3.5" />)}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onAction('stop')}
+              className="h-7 w-7 p-0"
+              title="Stop"
+            >
+              <Square className="h-3.5 w-3.5" />
+            </Button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-1">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onStart(true)}
+              disabled={!canDebug || !activeFile}
+              className="h-7 px-2 text-xs"
+              title="Pause on the first line"
+            >
+              <ArrowDownToLine className="h-3 w-3 mr-1" />
+              Step
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onStart(false)}
+              disabled={!canDebug || !activeFile}
+              className="h-7 px-2 text-xs"
+            >
+              <Play className="h-3 w-3 mr-1" />
+              Start
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Status */}
+      <div className="px-3 py-2 border-b text-xs">
+        {!canDebug ? (
+          <span className="text-muted-foreground">Debugging needs a cross-origin isolated page</span>
+        ) : state ? (
+          <div className="flex items-center gap-2">
+            <Badge variant="secondary" className="text-xs">
+              {state.reason === 'breakpoint' ? 'Breakpoint' : 'Step'}
+            </Badge>
+            <span className="truncate">
+              Paused at {workspacePath(state.path)}:{state.line}
+            </span>
+          </div>
+        ) : running ? (
+          <div className="flex items-center gap-2 text-muted-foreground">
+            <Loader2 className="h-3 w-3 animate-spin" />
+            Running...
+          </div>
+        ) : lastError ? (
+          <span className="text-red-500 whitespace-pre-wrap">{lastError}</span>
+        ) : (
+          <span className="text-muted-foreground">
+            {activeFile ? `Debug ${activeFile}` : 'Open a Python file to debug it'}
+          </span>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        {/* Call Stack */}
+        <div className="p-2">
+          <div className="flex items-center gap-2 mb-1 text-xs font-medium text-muted-foreground">
+            <Layers className="h-3 w-3" />
+            CALL STACK
+          </div>
+          {state ? (
+            state.stack.map((stackFrame, index) => (
+              <button
+                key={index}
+                type="button"
+                onClick={() => {
+                  setSelectedFrame(index);
+                  onOpenLocation?.(workspacePath(stackFrame.path), stackFrame.line);
+                }}
+                className={cn(
+                  'w-full flex items-center justify-between px-2 py-1 rounded text-xs text-left hover:bg-muted/50',
+                  index === selectedFrame && 'bg-muted'
+                )}
+              >
+                <span className="font-mono truncate">{stackFrame.name}</span>
+                <span className="text-muted-foreground truncate ml-2">
+                  {workspacePath(stackFrame.path)}:{stackFrame.line}
+                </span>
+              </button>
+            ))
+          ) : (
+            <div className="px-2 text-xs text-muted-foreground">Not paused</div>
+          )}
+        </div>
+
+        {/* Variables */}
+        <div className="p-2 border-t">
+          <div className="flex items-center gap-2 mb-1 text-xs font-medium text-muted-foreground">
+            <Variable className="h-3 w-3" />
+            VARIABLES
+          </div>
+          {frame && frame.variables.length > 0 ? (
+            frame.variables.map(variable => (
+              <div key={variable.name} className="px-2 py-0.5 text-xs font-mono flex gap-2" title={variable.type}>
+                <span className="text-blue-500 shrink-0">{variable.name}</span>
+                <span className="truncate">{variable.value}</span>
+              </div>
+            ))
+          ) : (
+            <div className="px-2 text-xs text-muted-foreground">
+              {frame ? 'No variables' : 'Not paused'}
+            </div>
+          )}
+        </div>
+
+        {/* Breakpoints */}
+        <div className="p-2 border-t">
+          <div className="flex items-center justify-between mb-1">
+            <div className="flex items-center gap-2 text-xs font-medium text-muted-foreground">
+              <CircleDot className="h-3 w-3" />
+              BREAKPOINTS
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onClearBreakpoints}
+              disabled={breakpointList.length === 0}
+              className="h-6 px-2 text-xs"
+            >
+              Clear
+            </Button>
+          </div>
+          {breakpointList.length > 0 ? (
+            breakpointList.map(({ path, line }) => (
+              <div
+                key={`${path}:${line}`}
+                className="group flex items-center justify-between px-2 py-0.5 rounded hover:bg-muted/50"
+              >
+                <button
+                  type="button"
+                  onClick={() => onOpenLocation?.(path, line)}
+                  className="text-xs font-mono truncate text-left"
+                >
+                  {path}:{line}
+                </button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemoveBreakpoint(path, line)}
+                  className="h-5 w-5 p-0 opacity-0 group-hover:opacity-100"
+                  title="Remove breakpoint"
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))
+          ) : (
+            <div className="px-2 text-xs text-muted-foreground">
+              Click the editor gutter to add one
+            </div>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
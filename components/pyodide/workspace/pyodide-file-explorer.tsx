@@ -43,6 +43,9 @@ import {
 import { cn } from '@/lib/utils';
 import { usePyodide } from '../hooks/use-pyodide';
 import { FileInfo } from '../core/pyodide-filesystem';
+import { TrashPanel } from '@/components/workspace/trash-panel';
+import { StorageQuotaAlert } from '@/components/workspace/storage-quota-alert';
+import type { TrashRestoreResult } from '@/lib/workspace/types';
 
 interface PyodideFileExplorerProps {
   workspaceId: string;
@@ -65,6 +68,7 @@ export function PyodideFileExplorer({
   const [showNewFileDialog, setShowNewFileDialog] = useState(false);
   const [showNewFolderDialog, setShowNewFolderDialog] = useState(false);
   const [newItemName, setNewItemName] = useState('');
+  const [showTrashDialog, setShowTrashDialog] = useState(false);
 
   const {
     isInitialized,
@@ -196,6 +200,14 @@ export function PyodideFileExplorer({
     }
   };
 
+  // Write restored files back into the runtime
+  const handleTrashRestore = async (result: TrashRestoreResult) => {
+    if (!fileSystem) return;
+
+    await fileSystem.restoreFromDatabase(result.restoredPaths);
+    await loadDirectory(currentPath);
+  };
+
   // Upload file
   const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
@@ -336,9 +348,28 @@ export function PyodideFileExplorer({
             >
               <Upload className="h-3 w-3" />
             </Button>
+
+            <Dialog open={showTrashDialog} onOpenChange={setShowTrashDialog}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Trash">
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>Deleted Files</DialogTitle>
+                  <DialogDescription>
+                    Deleted files can be restored until they are removed from the trash.
+                  </DialogDescription>
+                </DialogHeader>
+                <TrashPanel workspaceId={workspaceId} onRestore={handleTrashRestore} />
+              </DialogContent>
+            </Dialog>
           </div>
         </div>
 
+        <StorageQuotaAlert workspaceId={workspaceId} />
+
         {/* Search */}
         <div className="relative">
           <Search className="absolute left-2 top-1/2 transform -translate-y-1/2 h-3 w-3 text-muted-foreground" />
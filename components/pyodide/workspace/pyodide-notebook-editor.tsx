@@ -0,0 +1,549 @@
+'use client';
+
+import React, { useState, useCallback, useRef } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  Play,
+  Square,
+  Save,
+  Plus,
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  FastForward,
+  RotateCcw,
+  Eraser,
+  NotebookPen
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { PyodideRuntime } from '../core/pyodide-runtime';
+import {
+  NotebookCell,
+  NotebookDocument,
+  NotebookOutput,
+  MimeBundle,
+  createCell,
+  executeNotebookCell,
+  parseNotebook,
+  serializeNotebook
+} from '../core/pyodide-notebook';
+
+interface PyodideNotebookEditorProps {
+  path: string;
+  content: string;
+  runtime: PyodideRuntime | null;
+  modified: boolean;
+  onChange: (content: string) => void;
+  onSave: () => void;
+  /** Called after a cell runs or the kernel restarts, as globals may have changed */
+  onExecuted?: () => void;
+  className?: string;
+}
+
+type KernelStatus = 'idle' | 'busy' | 'restarting';
+
+export function PyodideNotebookEditor({
+  path,
+  content,
+  runtime,
+  modified,
+  onChange,
+  onSave,
+  onExecuted,
+  className
+}: PyodideNotebookEditorProps) {
+  // The document is parsed once; the editor owns it from then on and
+  // reports every change back as serialized .ipynb text
+  const [initial] = useState(() => {
+    try {
+      return { notebook: parseNotebook(content), error: null };
+    } catch (error) {
+      return { notebook: null, error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+  const [notebook, setNotebook] = useState<NotebookDocument | null>(initial.notebook);
+  const [runningCellId, setRunningCellId] = useState<string | null>(null);
+  const [kernelStatus, setKernelStatus] = useState<KernelStatus>('idle');
+  const [editingCells, setEditingCells] = useState<Set<string>>(new Set());
+
+  const notebookRef = useRef<NotebookDocument | null>(initial.notebook);
+  const executionCounterRef = useRef(0);
+  const stopRequestedRef = useRef(false);
+
+  const commit = useCallback((next: NotebookDocument) => {
+    notebookRef.current = next;
+    setNotebook(next);
+    onChange(serializeNotebook(next));
+  }, [onChange]);
+
+  const updateCells = useCallback((update: (cells: NotebookCell[]) => NotebookCell[]) => {
+    const current = notebookRef.current;
+    if (current) {
+      commit({ ...current, cells: update(current.cells) });
+    }
+  }, [commit]);
+
+  const updateCell = useCallback((cellId: string, changes: Partial<NotebookCell>) => {
+    updateCells(cells => cells.map(cell =>
+      cell.id === cellId ? { ...cell, ...changes } as NotebookCell : cell
+    ));
+  }, [updateCells]);
+
+  // Execution
+
+  /**
+   * Run one code cell. Resolves to false when the cell raised.
+   */
+  const runCell = useCallback(async (cellId: string): Promise<boolean> => {
+    const cell = notebookRef.current?.cells.find(c => c.id === cellId);
+    if (!runtime || !cell || cell.cell_type !== 'code') return true;
+
+    const executionCount = ++executionCounterRef.current;
+    setRunningCellId(cellId);
+    updateCell(cellId, { outputs: [], execution_count: null });
+
+    let outputs: NotebookOutput[];
+    try {
+      outputs = await executeNotebookCell(runtime, cell.source, executionCount);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      outputs = [{ output_type: 'error', ename: 'KernelError', evalue: message, traceback: [message] }];
+    } finally {
+      setRunningCellId(null);
+    }
+
+    updateCell(cellId, { outputs, execution_count: executionCount });
+    onExecuted?.();
+    return !outputs.some(output => output.output_type === 'error');
+  }, [runtime, updateCell, onExecuted]);
+
+  const handleRunCell = useCallback(async (cellId: string) => {
+    if (kernelStatus !== 'idle') return;
+
+    setKernelStatus('busy');
+    try {
+      await runCell(cellId);
+    } finally {
+      setKernelStatus(status => status === 'busy' ? 'idle' : status);
+    }
+  }, [kernelStatus, runCell]);
+
+  // Stops at the first failing cell, as Jupyter does
+  const handleRunAll = useCallback(async () => {
+    if (kernelStatus !== 'idle' || !notebookRef.current) return;
+
+    setKernelStatus('busy');
+    stopRequestedRef.current = false;
+    try {
+      for (const cell of notebookRef.current.cells) {
+        if (cell.cell_type !== 'code') continue;
+        const ok = await runCell(cell.id);
+        if (!ok || stopRequestedRef.current) break;
+      }
+    } finally {
+      setKernelStatus(status => status === 'busy' ? 'idle' : status);
+    }
+  }, [kernelStatus, runCell]);
+
+  const handleInterrupt = useCallback(() => {
+    stopRequestedRef.current = true;
+    runtime?.interrupt();
+  }, [runtime]);
+
+  const handleRestart = useCallback(async () => {
+    if (!runtime) return;
+
+    stopRequestedRef.current = true;
+    setKernelStatus('restarting');
+    try {
+      await runtime.restart();
+      executionCounterRef.current = 0;
+    } catch (error) {
+      console.error('Failed to restart notebook kernel:', error);
+    } finally {
+      setKernelStatus('idle');
+      onExecuted?.();
+    }
+  }, [runtime, onExecuted]);
+
+  // Editing
+
+  const handleClearOutputs = useCallback(() => {
+    updateCells(cells => cells.map(cell =>
+      cell.cell_type === 'code' ? { ...cell, outputs: [], execution_count: null } : cell
+    ));
+  }, [updateCells]);
+
+  const handleAddCell = useCallback((cellType: 'code' | 'markdown', index?: number) => {
+    const cell = createCell(cellType);
+    updateCells(cells => {
+      const next = [...cells];
+      next.splice(index ?? next.length, 0, cell);
+      return next;
+    });
+    if (cellType === 'markdown') {
+      setEditingCells(prev => new Set(prev).add(cell.id));
+    }
+  }, [updateCells]);
+
+  const handleDeleteCell = useCallback((cellId: string) => {
+    updateCells(cells => cells.filter(cell => cell.id !== cellId));
+  }, [updateCells]);
+
+  const handleMoveCell = useCallback((cellId: string, offset: number) => {
+    updateCells(cells => {
+      const index = cells.findIndex(cell => cell.id === cellId);
+      const target = index + offset;
+      if (index < 0 || target < 0 || target >= cells.length) return cells;
+
+      const next = [...cells];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  }, [updateCells]);
+
+  const setEditing = useCallback((cellId: string, editing: boolean) => {
+    setEditingCells(prev => {
+      const next = new Set(prev);
+      if (editing) next.add(cellId);
+      else next.delete(cellId);
+      return next;
+    });
+  }, []);
+
+  if (!notebook) {
+    return (
+      <div className={cn('h-full flex items-center justify-center p-6', className)}>
+        <div className="text-center space-y-2">
+          <NotebookPen className="h-10 w-10 mx-auto text-muted-foreground" />
+          <p className="text-sm font-medium">Unable to open {path}</p>
+          <p className="text-xs text-muted-foreground">{initial.error}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const busy = kernelStatus !== 'idle';
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Notebook Toolbar */}
+      <div className="flex items-center justify-between p-2 border-b bg-muted/50">
+        <div className="flex items-center gap-2">
+          <NotebookPen className="h-4 w-4" />
+          <span className="text-sm font-medium">{path.split('/').pop()}</span>
+          {modified && (
+            <Badge variant="secondary" className="text-xs">
+              Modified
+            </Badge>
+          )}
+          <Badge variant={busy ? 'default' : 'outline'} className="text-xs">
+            {kernelStatus === 'restarting' ? 'Restarting...' : busy ? 'Busy' : 'Idle'}
+          </Badge>
+        </div>
+        <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onSave}
+            disabled={!modified}
+            className="h-7 px-2 text-xs"
+          >
+            <Save className="h-3 w-3 mr-1" />
+            Save
+          </Button>
+          {busy ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleInterrupt}
+              disabled={kernelStatus === 'restarting'}
+              className="h-7 px-2 text-xs"
+            >
+              <Square className="h-3 w-3 mr-1" />
+              Interrupt
+            </Button>
+          ) : (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={handleRunAll}
+              disabled={!runtime}
+              className="h-7 px-2 text-xs"
+            >
+              <FastForward className="h-3 w-3 mr-1" />
+              Run All
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleRestart}
+            disabled={!runtime || kernelStatus === 'restarting'}
+            className="h-7 px-2 text-xs"
+          >
+            <RotateCcw className="h-3 w-3 mr-1" />
+            Restart Kernel
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClearOutputs}
+            className="h-7 px-2 text-xs"
+          >
+            <Eraser className="h-3 w-3 mr-1" />
+            Clear Outputs
+          </Button>
+        </div>
+      </div>
+
+      {/* Cells */}
+      <div className="flex-1 overflow-auto p-4 space-y-3">
+        {notebook.cells.map((cell, index) => (
+          <NotebookCellView
+            key={cell.id}
+            cell={cell}
+            running={runningCellId === cell.id}
+            editing={editingCells.has(cell.id)}
+            canRun={!!runtime && !busy}
+            onSourceChange={(source) => updateCell(cell.id, { source })}
+            onRun={() => handleRunCell(cell.id)}
+            onEditingChange={(editing) => setEditing(cell.id, editing)}
+            onMoveUp={index > 0 ? () => handleMoveCell(cell.id, -1) : undefined}
+            onMoveDown={index < notebook.cells.length - 1 ? () => handleMoveCell(cell.id, 1) : undefined}
+            onDelete={() => handleDeleteCell(cell.id)}
+          />
+        ))}
+
+        <div className="flex gap-2 justify-center pt-2">
+          <Button variant="outline" size="sm" onClick={() => handleAddCell('code')}>
+            <Plus className="h-3 w-3 mr-1" />
+            Code
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleAddCell('markdown')}>
+            <Plus className="h-3 w-3 mr-1" />
+            Markdown
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// CELLS
+// =============================================================================
+
+interface NotebookCellViewProps {
+  cell: NotebookCell;
+  running: boolean;
+  editing: boolean;
+  canRun: boolean;
+  onSourceChange: (source: string) => void;
+  onRun: () => void;
+  onEditingChange: (editing: boolean) => void;
+  onMoveUp?: () => void;
+  onMoveDown?: () => void;
+  onDelete: () => void;
+}
+
+function NotebookCellView({
+  cell,
+  running,
+  editing,
+  canRun,
+  onSourceChange,
+  onRun,
+  onEditingChange,
+  onMoveUp,
+  onMoveDown,
+  onDelete
+}: NotebookCellViewProps) {
+  const isCode = cell.cell_type === 'code';
+  const showEditor = isCode || editing || !cell.source.trim();
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && e.shiftKey) {
+      e.preventDefault();
+      if (isCode) {
+        if (canRun) onRun();
+      } else {
+        onEditingChange(false);
+      }
+    }
+  };
+
+  return (
+    <div className={cn('group flex gap-2', running && 'opacity-90')}>
+      {/* Prompt */}
+      <div className="w-12 shrink-0 pt-2 text-right font-mono text-xs text-muted-foreground">
+        {isCode && `[${running ? '*' : cell.execution_count ?? ' '}]`}
+      </div>
+
+      <div className="flex-1 min-w-0 space-y-1">
+        <div className={cn('relative rounded-md border', running && 'border-primary')}>
+          {/* Cell Actions */}
+          <div className="absolute right-1 top-1 z-10 flex gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+            {isCode && (
+              <Button variant="ghost" size="sm" onClick={onRun} disabled={!canRun} className="h-6 w-6 p-0" title="Run cell">
+                <Play className="h-3 w-3" />
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" onClick={onMoveUp} disabled={!onMoveUp} className="h-6 w-6 p-0" title="Move up">
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onMoveDown} disabled={!onMoveDown} className="h-6 w-6 p-0" title="Move down">
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button variant="ghost" size="sm" onClick={onDelete} className="h-6 w-6 p-0" title="Delete cell">
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+
+          {showEditor ? (
+            <textarea
+              value={cell.source}
+              onChange={(e) => onSourceChange(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onBlur={() => !isCode && cell.source.trim() && onEditingChange(false)}
+              rows={Math.max(1, cell.source.split('\n').length)}
+              className={cn(
+                'w-full bg-background rounded-md p-2 pr-28 text-sm resize-none focus:outline-none focus:ring-2 focus:ring-ring',
+                isCode ? 'font-mono' : 'font-sans'
+              )}
+              placeholder={isCode ? 'Python code, Shift+Enter to run' : 'Markdown text'}
+              spellCheck={!isCode}
+              autoFocus={editing}
+            />
+          ) : (
+            <div
+              onDoubleClick={() => onEditingChange(true)}
+              className="p-2 pr-28 text-sm whitespace-pre-wrap cursor-text"
+              title="Double-click to edit"
+            >
+              {cell.source}
+            </div>
+          )}
+        </div>
+
+        {cell.cell_type === 'code' && cell.outputs.length > 0 && (
+          <div className="space-y-1 text-sm">
+            {cell.outputs.map((output, index) => (
+              <NotebookOutputView key={index} output={output} />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// =============================================================================
+// OUTPUTS
+// =============================================================================
+
+const ANSI_ESCAPE = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+function NotebookOutputView({ output }: { output: NotebookOutput }) {
+  switch (output.output_type) {
+    case 'stream':
+      return (
+        <pre
+          className={cn(
+            'font-mono text-xs whitespace-pre-wrap break-words px-2',
+            output.name === 'stderr' && 'text-red-500 bg-red-500/5'
+          )}
+        >
+          {output.text}
+        </pre>
+      );
+    case 'error':
+      return (
+        <pre className="font-mono text-xs whitespace-pre-wrap break-words px-2 py-1 rounded text-red-500 bg-red-500/5">
+          {output.traceback.length > 0
+            ? output.traceback.join('').replace(ANSI_ESCAPE, '')
+            : `${output.ename}: ${output.evalue}`}
+        </pre>
+      );
+    default:
+      return <MimeBundleView data={output.data} />;
+  }
+}
+
+/**
+ * Render the richest representation we support, as Jupyter does
+ */
+function MimeBundleView({ data }: { data: MimeBundle }) {
+  const text = (mime: string) => String(data[mime]);
+
+  if ('text/html' in data) {
+    return <HtmlOutput html={text('text/html')} />;
+  }
+  for (const mime of ['image/png', 'image/jpeg']) {
+    if (mime in data) {
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={`data:${mime};base64,${text(mime).trim()}`}
+          alt={'text/plain' in data ? text('text/plain') : 'Cell output'}
+          className="max-w-full"
+        />
+      );
+    }
+  }
+  if ('image/svg+xml' in data) {
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(text('image/svg+xml'))}`}
+        alt={'text/plain' in data ? text('text/plain') : 'Cell output'}
+        className="max-w-full"
+      />
+    );
+  }
+  if ('text/markdown' in data) {
+    return <div className="px-2 whitespace-pre-wrap">{text('text/markdown')}</div>;
+  }
+  if ('application/json' in data) {
+    return (
+      <pre className="font-mono text-xs whitespace-pre-wrap break-words px-2">
+        {JSON.stringify(data['application/json'], null, 2)}
+      </pre>
+    );
+  }
+  if ('text/plain' in data) {
+    return (
+      <pre className="font-mono text-xs whitespace-pre-wrap break-words px-2">
+        {text('text/plain')}
+      </pre>
+    );
+  }
+  return null;
+}
+
+/**
+ * HTML outputs (e.g. DataFrames) render in a sandboxed frame that cannot
+ * run scripts; it is sized to its content once loaded
+ */
+function HtmlOutput({ html }: { html: string }) {
+  const [height, setHeight] = useState(40);
+
+  const handleLoad = (e: React.SyntheticEvent<HTMLIFrameElement>) => {
+    const body = e.currentTarget.contentDocument?.body;
+    if (body) {
+      setHeight(body.scrollHeight + 16);
+    }
+  };
+
+  return (
+    <iframe
+      sandbox="allow-same-origin"
+      srcDoc={`<style>body{margin:4px;font:12px sans-serif}table{border-collapse:collapse}td,th{padding:2px 8px;border-bottom:1px solid #ddd;text-align:right}</style>${html}`}
+      onLoad={handleLoad}
+      style={{ height }}
+      className="w-full border-0 bg-white rounded"
+      title="Cell output"
+    />
+  );
+}
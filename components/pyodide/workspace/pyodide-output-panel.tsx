@@ -0,0 +1,144 @@
+'use client';
+
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Download, FolderInput, Image as ImageIcon, Trash2 } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { PythonFigure } from '../core/pyodide-runtime';
+
+interface PyodideOutputPanelProps {
+  figures: PythonFigure[];
+  onClear: () => void;
+  /** PNG figures are saved as bytes, SVG figures as text */
+  onSaveToWorkspace?: (fileName: string, content: string | Uint8Array) => Promise<void>;
+  className?: string;
+}
+
+const MIME_TYPES: Record<PythonFigure['format'], string> = {
+  png: 'image/png',
+  svg: 'image/svg+xml',
+};
+
+function figureDataUrl(figure: PythonFigure): string {
+  return figure.format === 'svg'
+    ? `data:${MIME_TYPES.svg};charset=utf-8,${encodeURIComponent(figure.data)}`
+    : `data:${MIME_TYPES.png};base64,${figure.data}`;
+}
+
+function figureContent(figure: PythonFigure): string | Uint8Array {
+  if (figure.format === 'svg') {
+    return figure.data;
+  }
+  return Uint8Array.from(atob(figure.data), char => char.charCodeAt(0));
+}
+
+export function PyodideOutputPanel({
+  figures,
+  onClear,
+  onSaveToWorkspace,
+  className
+}: PyodideOutputPanelProps) {
+  const [savingIndex, setSavingIndex] = useState<number | null>(null);
+
+  const handleDownload = (figure: PythonFigure, index: number) => {
+    const link = document.createElement('a');
+    link.href = figureDataUrl(figure);
+    link.download = `figure-${index + 1}.${figure.format}`;
+    link.click();
+  };
+
+  const handleSave = async (figure: PythonFigure, index: number) => {
+    if (!onSaveToWorkspace) return;
+
+    const fileName = `figure-${Date.now()}.${figure.format}`;
+    setSavingIndex(index);
+    try {
+      await onSaveToWorkspace(fileName, figureContent(figure));
+      toast.success(`Saved ${fileName}`);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save figure');
+    } finally {
+      setSavingIndex(null);
+    }
+  };
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Output Header */}
+      <div className="flex items-center justify-between p-2 border-b">
+        <div className="flex items-center gap-2">
+          <ImageIcon className="h-4 w-4" />
+          <span className="text-sm font-medium">Figures</span>
+          <Badge variant="secondary" className="text-xs">
+            {figures.length}
+          </Badge>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onClear}
+          disabled={figures.length === 0}
+          className="h-7 px-2 text-xs"
+        >
+          <Trash2 className="h-3 w-3 mr-1" />
+          Clear
+        </Button>
+      </div>
+
+      {figures.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-4 text-center text-sm text-muted-foreground">
+          Figures from plt.show() and Image.show() appear here
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="p-2 space-y-3">
+            {figures.map((figure, index) => (
+              <div key={index} className="rounded-md border overflow-hidden">
+                <div className="bg-white flex justify-center p-2">
+                  {/* eslint-disable-next-line @next/next/no-img-element */}
+                  <img
+                    src={figureDataUrl(figure)}
+                    alt={`Figure ${index + 1}`}
+                    className="max-w-full h-auto"
+                  />
+                </div>
+                <div className="flex items-center justify-between px-2 py-1 border-t bg-muted/50">
+                  <span className="text-xs text-muted-foreground">
+                    Figure {index + 1} · {figure.source === 'pil' ? 'PIL' : 'matplotlib'} ·{' '}
+                    {figure.width}×{figure.height} {figure.format.toUpperCase()}
+                  </span>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDownload(figure, index)}
+                      className="h-6 px-2 text-xs"
+                    >
+                      <Download className="h-3 w-3 mr-1" />
+                      Download
+                    </Button>
+                    {onSaveToWorkspace && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleSave(figure, index)}
+                        disabled={savingIndex === index}
+                        className="h-6 px-2 text-xs"
+                      >
+                        <FolderInput className="h-3 w-3 mr-1" />
+                        Save to workspace
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
@@ -30,11 +30,20 @@ import {
   FileText,
   CheckCircle,
   XCircle,
-  Loader2
+  Loader2,
+  Lock,
+  GitCompare
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { usePyodide } from '../hooks/use-pyodide';
-import { PackageInfo, InstallationProgress } from '../core/pyodide-packages';
+import { PackageInfo, InstallationProgress, EnvironmentDiffEntry, LOCK_FILE_PATH } from '../core/pyodide-packages';
+
+const DIFF_LABELS: Record<EnvironmentDiffEntry['status'], string> = {
+  missing: 'Not installed',
+  extra: 'Not locked',
+  version: 'Version differs',
+  hash: 'Hash differs'
+};
 
 interface PyodidePackageManagerProps {
   workspaceId: string;
@@ -53,6 +62,7 @@ export function PyodidePackageManager({
   const [packageToInstall, setPackageToInstall] = useState('');
   const [showRequirementsDialog, setShowRequirementsDialog] = useState(false);
   const [requirementsText, setRequirementsText] = useState('');
+  const [isSyncing, setIsSyncing] = useState(false);
 
   const {
     isInitialized,
@@ -61,7 +71,11 @@ export function PyodidePackageManager({
     uninstallPackage,
     searchPackages,
     refreshPackages,
-    packageManager
+    packageManager,
+    environmentDiff,
+    refreshEnvironmentDiff,
+    syncToLockFile,
+    updateLockFile
   } = usePyodide({ workspaceId });
 
   // Search for packages
@@ -145,6 +159,18 @@ export function PyodidePackageManager({
     URL.revokeObjectURL(url);
   };
 
+  // Bring the runtime or the lock file in line with the other
+  const handleLockAction = async (action: () => Promise<void>) => {
+    setIsSyncing(true);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Failed to update the environment:', error);
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
   // Get package status
   const getPackageStatus = (packageName: string) => {
     const progress = installationProgress.get(packageName);
@@ -275,9 +301,17 @@ export function PyodidePackageManager({
 
       <CardContent className="flex-1 overflow-auto p-0">
         <Tabs defaultValue="installed" className="h-full flex flex-col">
-          <TabsList className="grid w-full grid-cols-2 mx-3">
+          <TabsList className="grid w-full grid-cols-3 mx-3">
             <TabsTrigger value="installed">Installed</TabsTrigger>
             <TabsTrigger value="search">Search</TabsTrigger>
+            <TabsTrigger value="environment" className="gap-1">
+              Environment
+              {environmentDiff && environmentDiff.length > 0 && (
+                <Badge variant="destructive" className="h-4 px-1 text-[10px]">
+                  {environmentDiff.length}
+                </Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="installed" className="flex-1 overflow-auto p-3 space-y-2">
@@ -426,6 +460,103 @@ export function PyodidePackageManager({
               </div>
             </div>
           </TabsContent>
+
+          <TabsContent value="environment" className="flex-1 overflow-auto p-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2 text-sm font-medium">
+                <Lock className="h-4 w-4" />
+                {LOCK_FILE_PATH}
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleLockAction(refreshEnvironmentDiff)}
+                disabled={!isInitialized || isSyncing}
+                className="h-7 w-7 p-0"
+                title="Compare again"
+              >
+                <RefreshCw className="h-3 w-3" />
+              </Button>
+            </div>
+
+            {environmentDiff === null ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <Lock className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <div className="text-sm">No lock file</div>
+                <div className="text-xs mt-1">It is written on the next install or uninstall</div>
+                <Button
+                  size="sm"
+                  className="mt-3"
+                  onClick={() => handleLockAction(updateLockFile)}
+                  disabled={!isInitialized || isSyncing}
+                >
+                  Lock current environment
+                </Button>
+              </div>
+            ) : environmentDiff.length === 0 ? (
+              <div className="text-center py-8 text-muted-foreground">
+                <CheckCircle className="h-8 w-8 mx-auto mb-2 text-green-500" />
+                <div className="text-sm">The environment matches the lock file</div>
+              </div>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => handleLockAction(syncToLockFile)}
+                    disabled={isSyncing}
+                    className="h-7"
+                  >
+                    {isSyncing ? (
+                      <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                    ) : (
+                      <Download className="h-3 w-3 mr-1" />
+                    )}
+                    Install locked
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleLockAction(updateLockFile)}
+                    disabled={isSyncing}
+                    className="h-7"
+                  >
+                    <GitCompare className="h-3 w-3 mr-1" />
+                    Update lock file
+                  </Button>
+                </div>
+
+                {environmentDiff.map((entry) => (
+                  <div
+                    key={entry.name}
+                    className="flex items-center justify-between p-3 border rounded-lg"
+                  >
+                    <div className="flex-1 min-w-0">
+                      <div className="flex items-center gap-2">
+                        <div className="font-medium text-sm">{entry.name}</div>
+                        <Badge
+                          variant={entry.status === 'extra' ? 'secondary' : 'destructive'}
+                          className="text-xs"
+                        >
+                          {DIFF_LABELS[entry.status]}
+                        </Badge>
+                      </div>
+                      <div className="text-xs text-muted-foreground mt-1 font-mono truncate">
+                        {entry.status === 'hash'
+                          ? `${entry.locked?.sha256?.slice(0, 12)} → ${entry.installed?.sha256?.slice(0, 12)}`
+                          : `${entry.locked?.version ?? '—'} → ${entry.installed?.version ?? '—'}`}
+                      </div>
+                    </div>
+                    {entry.status === 'missing' ? (
+                      <XCircle className="h-4 w-4 text-destructive" />
+                    ) : (
+                      <GitCompare className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </div>
+                ))}
+              </>
+            )}
+          </TabsContent>
         </Tabs>
       </CardContent>
     </Card>
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { useTheme } from 'next-themes';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -19,7 +19,8 @@ import {
   Terminal as TerminalIcon
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { usePyodide } from '../hooks/use-pyodide';
+import { usePyodide, UsePyodideReturn } from '../hooks/use-pyodide';
+import type { PyodideConfig, PythonFigure } from '../core/pyodide-runtime';
 
 // Dynamic imports for xterm to avoid SSR issues
 let XTerm: any = null;
@@ -48,19 +49,66 @@ const loadXTerm = async () => {
   return { XTerm, FitAddon, WebLinksAddon, SearchAddon };
 };
 
-interface PyodideTerminalProps {
-  workspaceId: string;
+interface PendingInput {
+  line: string;
+  resolve: (line: string | null) => void;
+}
+
+/** Stream handlers a mounted terminal attaches to the runtime it shares */
+export type PyodideTerminalStreams = Pick<PyodideConfig, 'stdin' | 'stdout' | 'stderr'>;
+
+/**
+ * Runtime config that forwards streams to whichever terminal is attached;
+ * memoize it so the runtime is created once
+ */
+export function createTerminalStreamsConfig(streams: React.MutableRefObject<PyodideTerminalStreams>): PyodideConfig {
+  return {
+    stdout: (text: string) => streams.current.stdout?.(text),
+    stderr: (text: string) => streams.current.stderr?.(text),
+    stdin: (signal: AbortSignal) => streams.current.stdin?.(signal) ?? Promise.resolve(null),
+  };
+}
+
+interface PyodideTerminalCallbacks {
   className?: string;
   onCommand?: (command: string) => void;
   onOutput?: (output: string) => void;
+  onFigures?: (figures: PythonFigure[]) => void;
+  /** Called after each command, once the globals it changed are in place */
+  onExecuted?: () => void;
 }
 
-export function PyodideTerminal({ 
-  workspaceId,
+interface PyodideTerminalProps extends PyodideTerminalCallbacks {
+  workspaceId: string;
+}
+
+interface PyodideTerminalViewProps extends PyodideTerminalCallbacks {
+  /** The runtime shared with the rest of the workspace */
+  pyodide: UsePyodideReturn;
+  streams: React.MutableRefObject<PyodideTerminalStreams>;
+}
+
+/**
+ * Terminal with its own runtime; inside a workspace use PyodideTerminalView
+ * so the terminal shares the workspace runtime
+ */
+export function PyodideTerminal({ workspaceId, ...props }: PyodideTerminalProps) {
+  const streams = useRef<PyodideTerminalStreams>({});
+  const config = useMemo(() => createTerminalStreamsConfig(streams), []);
+  const pyodide = usePyodide({ workspaceId, config, autoInitialize: true });
+
+  return <PyodideTerminalView pyodide={pyodide} streams={streams} {...props} />;
+}
+
+export function PyodideTerminalView({
+  pyodide,
+  streams,
   className = '', 
   onCommand,
-  onOutput 
-}: PyodideTerminalProps) {
+  onOutput,
+  onFigures,
+  onExecuted
+}: PyodideTerminalViewProps) {
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<any>(null);
   const fitAddonRef = useRef<any>(null);
@@ -73,21 +121,50 @@ export function PyodideTerminal({
   const [isExecuting, setIsExecuting] = useState(false);
   const [showPackageManager, setShowPackageManager] = useState(false);
 
-  // Use Pyodide hook
+  // Set while a command runs, and while its input() waits for a line
+  const executingRef = useRef(false);
+  const pendingInputRef = useRef<PendingInput | null>(null);
+
+  // Stream output as it is produced, and answer input() from the terminal
+  useEffect(() => {
+    streams.current = {
+      stdout: (text: string) => {
+        if (executingRef.current) xtermRef.current?.write(text);
+      },
+      stderr: (text: string) => {
+        if (executingRef.current) xtermRef.current?.write(`\x1b[31m${text}\x1b[0m`);
+      },
+      stdin: (signal: AbortSignal) => new Promise<string | null>((resolve) => {
+        pendingInputRef.current = { line: '', resolve };
+        signal.addEventListener('abort', () => {
+          pendingInputRef.current = null;
+          resolve(null);
+        });
+      }),
+    };
+    return () => {
+      streams.current = {};
+    };
+  }, [streams]);
+
   const {
     isInitialized,
     isLoading,
     error,
     runPython,
+    interrupt,
+    isExecuting: isPythonRunning,
     output,
     clearOutput,
     installedPackages,
     installPackage,
     initialize
-  } = usePyodide({
-    workspaceId,
-    autoInitialize: true
-  });
+  } = pyodide;
+
+  // xterm handlers are bound once, so they reach the latest callbacks through refs
+  const interruptRef = useRef(interrupt);
+  interruptRef.current = interrupt;
+  const executeCommandRef = useRef<(command: string) => Promise<void>>(async () => {});
 
   // Initialize terminal
   useEffect(() => {
@@ -168,14 +245,47 @@ export function PyodideTerminal({
       }
     };
 
+    // Line editing for a script's input() call
+    const handleInput = (pending: PendingInput, data: string) => {
+      const code = data.charCodeAt(0);
+
+      if (code === 13) { // Enter
+        xterm.write('\r\n');
+        pendingInputRef.current = null;
+        pending.resolve(pending.line);
+      } else if (code === 4) { // Ctrl+D
+        xterm.write('\r\n');
+        pendingInputRef.current = null;
+        pending.resolve(null);
+      } else if (code === 127) { // Backspace
+        if (pending.line.length > 0) {
+          pending.line = pending.line.slice(0, -1);
+          xterm.write('\b \b');
+        }
+      } else if (code >= 32) { // Printable characters
+        pending.line += data;
+        xterm.write(data);
+      }
+    };
+
     xterm.onData((data: string) => {
-      if (isExecuting) return;
+      if (data === '\x03') { // Ctrl+C
+        interruptRef.current();
+        return;
+      }
+
+      if (pendingInputRef.current) {
+        handleInput(pendingInputRef.current, data);
+        return;
+      }
+
+      if (executingRef.current) return;
 
       const code = data.charCodeAt(0);
 
       if (code === 13) { // Enter
         if (currentLine.trim()) {
-          executeCommand(currentLine.trim());
+          executeCommandRef.current(currentLine.trim());
           setCommandHistory(prev => [...prev, currentLine.trim()]);
           setHistoryIndex(-1);
         } else {
@@ -245,6 +355,7 @@ export function PyodideTerminal({
     if (!xtermRef.current || !isInitialized) return;
 
     setIsExecuting(true);
+    executingRef.current = true;
     setCurrentInput(command);
     onCommand?.(command);
 
@@ -262,6 +373,7 @@ export function PyodideTerminal({
       if (command === 'help') {
         xtermRef.current.writeln('Available commands:');
         xtermRef.current.writeln('  clear - Clear the terminal');
+        xtermRef.current.writeln('  python <file.py> - Run a workspace script (Ctrl+C to stop)');
         xtermRef.current.writeln('  exit() - Exit Python (restart session)');
         xtermRef.current.writeln('  help() - Python help system');
         xtermRef.current.writeln('  import micropip; await micropip.install("package") - Install packages');
@@ -270,13 +382,17 @@ export function PyodideTerminal({
         return;
       }
 
-      // Execute Python code
-      const result = await runPython(command);
-      
-      // Display output
-      if (result.output) {
-        const lines = result.output.split('\n').filter(line => line.trim());
-        lines.forEach(line => xtermRef.current.writeln(line));
+      // `python script.py` runs a workspace file as __main__, as the seed projects
+      // expect; the trailing semicolon keeps its globals from being echoed
+      const script = command.match(/^python3?\s+(\S+\.py)$/);
+      const code = script
+        ? `import runpy\nrunpy.run_path(${JSON.stringify(script[1])}, run_name='__main__');`
+        : command;
+
+      // Execute Python code; stdout and stderr are streamed while it runs
+      const result = await runPython(code);
+      if (result.output && !result.output.endsWith('\n')) {
+        xtermRef.current.writeln('');
       }
 
       // Display result if not None
@@ -285,13 +401,19 @@ export function PyodideTerminal({
       }
 
       // Display errors
+      if (result.timedOut) {
+        xtermRef.current.writeln('\x1b[33mExecution timed out\x1b[0m');
+      } else if (result.memoryExceeded) {
+        xtermRef.current.writeln('\x1b[33mMemory limit exceeded, Python session restarted\x1b[0m');
+      }
       if (!result.success && result.error) {
         xtermRef.current.writeln(`\x1b[31mError: ${result.error}\x1b[0m`);
       }
 
-      if (result.stderr) {
-        const lines = result.stderr.split('\n').filter(line => line.trim());
-        lines.forEach(line => xtermRef.current.writeln(`\x1b[31m${line}\x1b[0m`));
+      if (result.figures?.length) {
+        const count = result.figures.length;
+        xtermRef.current.writeln(`\x1b[36m[${count} figure${count === 1 ? '' : 's'} shown in the Output panel]\x1b[0m`);
+        onFigures?.(result.figures);
       }
 
       onOutput?.(result.output || '');
@@ -301,8 +423,11 @@ export function PyodideTerminal({
     } finally {
       xtermRef.current.write('\r\n>>> ');
       setIsExecuting(false);
+      executingRef.current = false;
+      onExecuted?.();
     }
   };
+  executeCommandRef.current = executeCommand;
 
   // Handle resize
   useEffect(() => {
@@ -370,6 +495,17 @@ export function PyodideTerminal({
         </div>
 
         <div className="flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={interrupt}
+            disabled={!isPythonRunning}
+            className="h-7 w-7 p-0"
+            title="Stop (Ctrl+C)"
+          >
+            <Square className="h-3 w-3" />
+          </Button>
+
           <Button
             variant="ghost"
             size="sm"
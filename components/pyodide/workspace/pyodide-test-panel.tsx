@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import {
+  AlertCircle,
+  CheckCircle2,
+  ChevronDown,
+  ChevronRight,
+  FileCode,
+  FlaskConical,
+  Loader2,
+  MinusCircle,
+  Play,
+  RotateCcw,
+  Square,
+  XCircle
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import type { TestCaseResult, TestOutcome, TestRunResult } from '../core/pyodide-test-runner';
+
+interface PyodideTestPanelProps {
+  /** Workspace-relative test files found by discovery */
+  testFiles: string[];
+  result: TestRunResult | null;
+  running: boolean;
+  watch: boolean;
+  onWatchChange: (watch: boolean) => void;
+  /** Run everything when targets are omitted */
+  onRun: (targets?: string[]) => void;
+  onRerunFailed: () => void;
+  onStop?: () => void;
+  onOpenLocation?: (path: string, line: number) => void;
+  className?: string;
+}
+
+const OUTCOME_ICONS: Record<TestOutcome, React.ReactNode> = {
+  passed: <CheckCircle2 className="h-3.5 w-3.5 text-green-500" />,
+  failed: <XCircle className="h-3.5 w-3.5 text-red-500" />,
+  error: <AlertCircle className="h-3.5 w-3.5 text-orange-500" />,
+  skipped: <MinusCircle className="h-3.5 w-3.5 text-muted-foreground" />,
+};
+
+function formatDuration(seconds: number): string {
+  return seconds < 1 ? `${Math.round(seconds * 1000)}ms` : `${seconds.toFixed(2)}s`;
+}
+
+export function PyodideTestPanel({
+  testFiles,
+  result,
+  running,
+  watch,
+  onWatchChange,
+  onRun,
+  onRerunFailed,
+  onStop,
+  onOpenLocation,
+  className
+}: PyodideTestPanelProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  // Discovered files first, then any file only the last run knows about
+  const files = useMemo(() => {
+    const byFile = new Map<string, TestCaseResult[]>(testFiles.map(path => [path, []]));
+    for (const test of result?.tests ?? []) {
+      byFile.set(test.path, [...(byFile.get(test.path) ?? []), test]);
+    }
+    return Array.from(byFile.entries());
+  }, [testFiles, result]);
+
+  const hasFailures = !!result && (result.summary.failed > 0 || result.summary.errors > 0);
+
+  const toggle = (nodeId: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(nodeId)) {
+        next.delete(nodeId);
+      } else {
+        next.add(nodeId);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Test Header */}
+      <div className="flex items-center justify-between p-2 border-b gap-2">
+        <div className="flex items-center gap-2">
+          <FlaskConical className="h-4 w-4" />
+          <span className="text-sm font-medium">Tests</span>
+          {result && (
+            <>
+              <Badge variant="secondary" className="text-xs text-green-600">
+                {result.summary.passed} passed
+              </Badge>
+              {result.summary.failed > 0 && (
+                <Badge variant="destructive" className="text-xs">
+                  {result.summary.failed} failed
+                </Badge>
+              )}
+              {result.summary.errors > 0 && (
+                <Badge variant="destructive" className="text-xs">
+                  {result.summary.errors} errors
+                </Badge>
+              )}
+              {result.summary.skipped > 0 && (
+                <Badge variant="outline" className="text-xs">
+                  {result.summary.skipped} skipped
+                </Badge>
+              )}
+              <span className="text-xs text-muted-foreground">
+                {formatDuration(result.duration)}
+              </span>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <div className="flex items-center gap-1.5 mr-2">
+            <Switch id="pyodide-test-watch" checked={watch} onCheckedChange={onWatchChange} />
+            <Label htmlFor="pyodide-test-watch" className="text-xs">Watch</Label>
+          </div>
+          {running ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onStop}
+              disabled={!onStop}
+              className="h-7 px-2 text-xs"
+            >
+              <Square className="h-3 w-3 mr-1" />
+              Stop
+            </Button>
+          ) : (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onRerunFailed}
+                disabled={!hasFailures}
+                className="h-7 px-2 text-xs"
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                Rerun Failed
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => onRun()}
+                className="h-7 px-2 text-xs"
+              >
+                <Play className="h-3 w-3 mr-1" />
+                Run All
+              </Button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {result?.error && (
+        <div className="px-3 py-2 text-xs text-red-500 border-b">{result.error}</div>
+      )}
+
+      {files.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-4 text-center text-sm text-muted-foreground">
+          {running ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            'Add test_*.py files to the workspace to run them with pytest'
+          )}
+        </div>
+      ) : (
+        <ScrollArea className="flex-1">
+          <div className="p-1">
+            {files.map(([path, tests]) => (
+              <div key={path}>
+                {/* File Row */}
+                <div className="group flex items-center justify-between px-2 py-1 rounded hover:bg-muted/50">
+                  <div className="flex items-center gap-2 min-w-0">
+                    <FileCode className="h-3.5 w-3.5 shrink-0" />
+                    <span className="text-xs font-medium truncate">{path}</span>
+                    {tests.length === 0 && (
+                      <span className="text-xs text-muted-foreground">not run</span>
+                    )}
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onRun([path])}
+                    disabled={running}
+                    className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                    title={`Run ${path}`}
+                  >
+                    <Play className="h-3 w-3" />
+                  </Button>
+                </div>
+
+                {/* Test Rows */}
+                {tests.map(test => {
+                  const isOpen = expanded.has(test.nodeId);
+                  const hasDetails = !!test.message || !!test.traceback;
+
+                  return (
+                    <div key={test.nodeId} className="ml-4">
+                      <div
+                        className={cn(
+                          'group flex items-center justify-between px-2 py-1 rounded hover:bg-muted/50',
+                          hasDetails && 'cursor-pointer'
+                        )}
+                        onClick={() => hasDetails && toggle(test.nodeId)}
+                      >
+                        <div className="flex items-center gap-1.5 min-w-0">
+                          {hasDetails ? (
+                            isOpen ? <ChevronDown className="h-3 w-3 shrink-0" /> : <ChevronRight className="h-3 w-3 shrink-0" />
+                          ) : (
+                            <span className="w-3 shrink-0" />
+                          )}
+                          {OUTCOME_ICONS[test.outcome]}
+                          <span className="text-xs truncate">{test.name || 'Collection error'}</span>
+                        </div>
+                        <div className="flex items-center gap-1">
+                          <span className="text-xs text-muted-foreground">{formatDuration(test.duration)}</span>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={(event) => {
+                              event.stopPropagation();
+                              onRun([test.nodeId]);
+                            }}
+                            disabled={running}
+                            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                            title={`Run ${test.nodeId}`}
+                          >
+                            <Play className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      {isOpen && (
+                        <div className="ml-6 mr-2 mb-2 space-y-1">
+                          {test.message && (
+                            <div className="text-xs text-red-500 whitespace-pre-wrap">{test.message}</div>
+                          )}
+                          {test.frames.length > 0 && (
+                            <div className="flex flex-wrap gap-1">
+                              {test.frames.map((frame, index) => (
+                                <Button
+                                  key={index}
+                                  variant="outline"
+                                  size="sm"
+                                  onClick={() => onOpenLocation?.(frame.path, frame.line)}
+                                  disabled={!onOpenLocation}
+                                  className="h-5 px-1.5 text-xs font-mono"
+                                >
+                                  {frame.path}:{frame.line}
+                                </Button>
+                              ))}
+                            </div>
+                          )}
+                          {test.traceback && (
+                            <pre className="text-xs font-mono bg-muted/50 rounded p-2 overflow-x-auto">
+                              {test.traceback}
+                            </pre>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
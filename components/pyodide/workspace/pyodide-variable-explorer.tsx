@@ -0,0 +1,289 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  Table as TableIcon,
+  Variable
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { VARIABLE_PAGE_SIZE } from '../core/pyodide-runtime';
+import type { PyodideRuntime, VariableInfo, VariableTable } from '../core/pyodide-runtime';
+
+interface PyodideVariableExplorerProps {
+  runtime: PyodideRuntime | null;
+  /** Bumped by the workspace after each run, so the explorer reloads */
+  refreshKey: number;
+  className?: string;
+}
+
+function formatSize(variable: VariableInfo): string {
+  if (variable.shape) return variable.shape.length > 0 ? variable.shape.join(' × ') : 'scalar';
+  if (variable.length !== null) return `len ${variable.length}`;
+  return '';
+}
+
+export function PyodideVariableExplorer({
+  runtime,
+  refreshKey,
+  className
+}: PyodideVariableExplorerProps) {
+  const [variables, setVariables] = useState<VariableInfo[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState('');
+  const [selected, setSelected] = useState<string | null>(null);
+  const [table, setTable] = useState<VariableTable | null>(null);
+
+  const initialized = runtime?.initialized ?? false;
+
+  // Read by refresh, which should only rerun for a new run or session
+  const openRef = useRef({ selected, table });
+  openRef.current = { selected, table };
+
+  const loadTable = useCallback(async (name: string, offset: number) => {
+    if (!runtime) return;
+
+    setLoading(true);
+    try {
+      setTable(await runtime.inspectVariable(name, { offset }));
+      setError(null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : `Failed to inspect ${name}`);
+    } finally {
+      setLoading(false);
+    }
+  }, [runtime]);
+
+  // A paused or running program keeps the worker busy; wait for the next refresh
+  const refresh = useCallback(async () => {
+    if (!runtime || !runtime.initialized || runtime.executing) return;
+
+    setLoading(true);
+    try {
+      const globals = await runtime.inspectGlobals();
+      setVariables(globals);
+      setError(null);
+
+      // Keep the open table in step with the new value, or close it if it is gone
+      const open = openRef.current;
+      const current = open.selected ? globals.find(variable => variable.name === open.selected) : undefined;
+      if (open.selected && !current?.tabular) {
+        setSelected(null);
+        setTable(null);
+      } else if (open.selected && current) {
+        const rows = current.shape?.[0] ?? current.length ?? 0;
+        await loadTable(open.selected, open.table && open.table.offset < rows ? open.table.offset : 0);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read variables');
+    } finally {
+      setLoading(false);
+    }
+  }, [runtime, loadTable]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh, refreshKey, initialized]);
+
+  const openVariable = (variable: VariableInfo) => {
+    if (!variable.tabular) return;
+    setSelected(variable.name);
+    setTable(null);
+    loadTable(variable.name, 0);
+  };
+
+  const closeVariable = () => {
+    setSelected(null);
+    setTable(null);
+    setError(null);
+  };
+
+  const query = filter.trim().toLowerCase();
+  const visible = query
+    ? variables.filter(variable =>
+        variable.name.toLowerCase().includes(query) || variable.type.toLowerCase().includes(query))
+    : variables;
+  const selectedInfo = variables.find(variable => variable.name === selected);
+
+  return (
+    <div className={cn('h-full flex flex-col', className)}>
+      {/* Explorer Header */}
+      <div className="flex items-center justify-between p-2 border-b gap-2">
+        <div className="flex items-center gap-2 min-w-0">
+          {selected ? (
+            <>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={closeVariable}
+                className="h-7 w-7 p-0"
+                title="Back to variables"
+              >
+                <ArrowLeft className="h-3.5 w-3.5" />
+              </Button>
+              <TableIcon className="h-4 w-4 shrink-0" />
+              <span className="text-sm font-medium font-mono truncate">{selected}</span>
+              {selectedInfo && (
+                <Badge variant="secondary" className="text-xs">
+                  {selectedInfo.type} {formatSize(selectedInfo)}
+                </Badge>
+              )}
+            </>
+          ) : (
+            <>
+              <Variable className="h-4 w-4" />
+              <span className="text-sm font-medium">Variables</span>
+              <Badge variant="secondary" className="text-xs">{variables.length}</Badge>
+            </>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          {!selected && (
+            <Input
+              value={filter}
+              onChange={(event) => setFilter(event.target.value)}
+              placeholder="Filter"
+              className="h-7 w-40 text-xs"
+            />
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={refresh}
+            disabled={!initialized || loading}
+            className="h-7 w-7 p-0"
+            title="Refresh"
+          >
+            {loading ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <RefreshCw className="h-3.5 w-3.5" />}
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="px-3 py-2 text-xs text-red-500 border-b">{error}</div>
+      )}
+
+      {selected ? (
+        <>
+          {/* Table View */}
+          <ScrollArea className="flex-1">
+            {table && (
+              <Table className="text-xs font-mono">
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="h-8 text-xs" />
+                    {table.columns.map((column, index) => (
+                      <TableHead key={index} className="h-8 text-xs whitespace-nowrap">
+                        {column}
+                        {table.dtypes?.[index] && (
+                          <span className="ml-1 font-normal text-muted-foreground">{table.dtypes[index]}</span>
+                        )}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {table.rows.map((row, rowIndex) => (
+                    <TableRow key={rowIndex}>
+                      <TableCell className="py-1 text-muted-foreground whitespace-nowrap">
+                        {table.index[rowIndex]}
+                      </TableCell>
+                      {row.map((cell, cellIndex) => (
+                        <TableCell key={cellIndex} className="py-1 whitespace-nowrap">{cell}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </ScrollArea>
+
+          {/* Pager */}
+          {table && (
+            <div className="flex items-center justify-between px-3 py-1 border-t text-xs text-muted-foreground">
+              <span>
+                {table.totalRows === 0
+                  ? 'Empty'
+                  : `Rows ${table.offset + 1}–${table.offset + table.rows.length} of ${table.totalRows}`}
+                {table.totalColumns > table.columns.length &&
+                  ` · first ${table.columns.length} of ${table.totalColumns} columns`}
+              </span>
+              <div className="flex items-center gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => loadTable(table.name, Math.max(0, table.offset - VARIABLE_PAGE_SIZE))}
+                  disabled={loading || table.offset === 0}
+                  className="h-6 w-6 p-0"
+                  title="Previous rows"
+                >
+                  <ChevronLeft className="h-3.5 w-3.5" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => loadTable(table.name, table.offset + VARIABLE_PAGE_SIZE)}
+                  disabled={loading || table.offset + table.rows.length >= table.totalRows}
+                  className="h-6 w-6 p-0"
+                  title="Next rows"
+                >
+                  <ChevronRight className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </>
+      ) : visible.length === 0 ? (
+        <div className="flex-1 flex items-center justify-center p-4 text-center text-sm text-muted-foreground">
+          {!initialized
+            ? 'Python is not running yet'
+            : query
+              ? 'No variables match the filter'
+              : 'Run a file or notebook cell to see its variables here'}
+        </div>
+      ) : (
+        /* Variable List */
+        <ScrollArea className="flex-1">
+          <Table className="text-xs">
+            <TableHeader>
+              <TableRow>
+                <TableHead className="h-8 text-xs">Name</TableHead>
+                <TableHead className="h-8 text-xs">Type</TableHead>
+                <TableHead className="h-8 text-xs">Size</TableHead>
+                <TableHead className="h-8 text-xs">Value</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map(variable => (
+                <TableRow
+                  key={variable.name}
+                  onClick={() => openVariable(variable)}
+                  className={cn(variable.tabular && 'cursor-pointer')}
+                  title={variable.tabular ? `Open ${variable.name} as a table` : undefined}
+                >
+                  <TableCell className="py-1 font-mono text-blue-500 whitespace-nowrap">{variable.name}</TableCell>
+                  <TableCell className="py-1 whitespace-nowrap">
+                    {variable.type}
+                    {variable.dtype && <span className="ml-1 text-muted-foreground">{variable.dtype}</span>}
+                  </TableCell>
+                  <TableCell className="py-1 whitespace-nowrap text-muted-foreground">{formatSize(variable)}</TableCell>
+                  <TableCell className="py-1 font-mono max-w-md truncate">{variable.preview}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
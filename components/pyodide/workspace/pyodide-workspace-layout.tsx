@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState, useCallback, useEffect } from 'react';
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { TabSystem, TabItem } from '@/components/webvm/ui/tab-system';
 import { Button } from '@/components/ui/button';
@@ -17,17 +17,40 @@ import {
   Layout,
   Python,
   Play,
-  Save
+  Square,
+  Save,
+  GitBranch,
+  Workflow,
+  HeartPulse,
+  NotebookPen,
+  Image as ImageIcon,
+  FlaskConical,
+  Bug,
+  Bot,
+  Variable
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
-import { PyodideTerminal } from './pyodide-terminal';
+import { PyodideTerminalView, PyodideTerminalStreams, createTerminalStreamsConfig } from './pyodide-terminal';
 import { PyodideFileExplorer } from './pyodide-file-explorer';
 import { PyodidePackageManager } from './pyodide-package-manager';
+import { PyodideNotebookEditor } from './pyodide-notebook-editor';
+import { PyodideOutputPanel } from './pyodide-output-panel';
+import { PyodideCodeEditor } from './pyodide-code-editor';
+import { PyodideTestPanel } from './pyodide-test-panel';
+import { PyodideAIAssistant } from './pyodide-ai-assistant';
+import { PyodideDebugPanel } from './pyodide-debug-panel';
+import { PyodideVariableExplorer } from './pyodide-variable-explorer';
+import { GitPanel } from '@/components/workspace/git-panel';
+import { DependencyGraphPanel } from '@/components/workspace/dependency-graph-panel';
+import { CodeHealthPanel } from '@/components/workspace/code-health-panel';
 import { SeedProjectSelector } from '../seed-projects/seed-project-selector';
 import { SeedProjectLoader } from '../seed-projects/seed-project-loader';
 import { SeedProject } from '../seed-projects/seed-project-templates';
 import { usePyodide } from '../hooks/use-pyodide';
 import { FileInfo } from '../core/pyodide-filesystem';
+import type { DebugAction, DebugBreakpoints, DebugPausedState, PythonFigure } from '../core/pyodide-runtime';
+import { createNotebook, serializeNotebook } from '../core/pyodide-notebook';
+import type { TestRunResult } from '../core/pyodide-test-runner';
 
 interface PyodideWorkspaceLayoutProps {
   workspaceId: string;
@@ -44,6 +67,12 @@ interface OpenFile {
   modified: boolean;
 }
 
+const WORKSPACE_ROOT = '/workspace';
+
+function toWorkspacePath(path: string): string {
+  return path.startsWith(`${WORKSPACE_ROOT}/`) ? path.slice(WORKSPACE_ROOT.length + 1) : path;
+}
+
 export function PyodideWorkspaceLayout({
   workspaceId,
   className,
@@ -58,18 +87,39 @@ export function PyodideWorkspaceLayout({
   const [openFiles, setOpenFiles] = useState<Map<string, OpenFile>>(new Map());
   const [showSeedProjects, setShowSeedProjects] = useState(false);
   const [projectLoader, setProjectLoader] = useState<SeedProjectLoader | null>(null);
+  const [figures, setFigures] = useState<PythonFigure[]>([]);
+  const [revealTarget, setRevealTarget] = useState<{ path: string; line: number } | null>(null);
+  const [testFiles, setTestFiles] = useState<string[]>([]);
+  const [testResult, setTestResult] = useState<TestRunResult | null>(null);
+  const [testsRunning, setTestsRunning] = useState(false);
+  const [testWatch, setTestWatch] = useState(false);
+  const [breakpoints, setBreakpoints] = useState<Record<string, number[]>>({});
+  const [debugging, setDebugging] = useState(false);
+  const [debugState, setDebugState] = useState<DebugPausedState | null>(null);
+  const [debugError, setDebugError] = useState<string | null>(null);
+  const [globalsVersion, setGlobalsVersion] = useState(0);
+
+  // The terminal shares the workspace runtime; its streams attach here when it mounts
+  const terminalStreams = useRef<PyodideTerminalStreams>({});
+  const pyodideConfig = useMemo(() => createTerminalStreamsConfig(terminalStreams), []);
+  const pyodide = usePyodide({ workspaceId, config: pyodideConfig });
 
   const {
+    runtime,
     isInitialized,
     isLoading,
     error,
     runPython,
+    interrupt,
+    isExecuting,
     readFile,
     writeFile,
     createFile,
     fileSystem,
-    packageManager
-  } = usePyodide({ workspaceId });
+    packageManager,
+    codeIntelligence,
+    testRunner
+  } = pyodide;
 
   // Initialize project loader when file system is ready
   React.useEffect(() => {
@@ -97,6 +147,13 @@ export function PyodideWorkspaceLayout({
     checkWorkspaceEmpty();
   }, [isInitialized, fileSystem]);
 
+  // Discover test files whenever the test panel is shown
+  useEffect(() => {
+    if (activeBottomTab === 'tests' && testRunner) {
+      testRunner.discover().then(setTestFiles);
+    }
+  }, [activeBottomTab, testRunner]);
+
   // Sidebar tabs
   const sidebarTabs: TabItem[] = [
     {
@@ -113,6 +170,46 @@ export function PyodideWorkspaceLayout({
       content: <div />, // Will be populated
       canClose: false,
     },
+    {
+      id: 'assistant',
+      title: 'Assistant',
+      type: 'ai',
+      icon: <Bot className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
+    {
+      id: 'debug',
+      title: 'Debug',
+      type: 'settings',
+      icon: <Bug className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
+    {
+      id: 'git',
+      title: 'Git',
+      type: 'settings',
+      icon: <GitBranch className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
+    {
+      id: 'dependencies',
+      title: 'Dependencies',
+      type: 'settings',
+      icon: <Workflow className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
+    {
+      id: 'health',
+      title: 'Code Health',
+      type: 'settings',
+      icon: <HeartPulse className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
   ];
 
   // Editor tabs
@@ -127,7 +224,9 @@ export function PyodideWorkspaceLayout({
     ...Array.from(openFiles.values()).map(file => ({
       id: `file:${file.path}`,
       title: file.name + (file.modified ? ' •' : ''),
-      icon: <FileText className="h-4 w-4" />,
+      icon: file.language === 'notebook'
+        ? <NotebookPen className="h-4 w-4" />
+        : <FileText className="h-4 w-4" />,
       content: <div />, // Will be populated
       canClose: true,
     })),
@@ -142,6 +241,30 @@ export function PyodideWorkspaceLayout({
       content: <div />, // Will be populated
       canClose: false,
     },
+    {
+      id: 'output',
+      title: figures.length > 0 ? `Output (${figures.length})` : 'Output',
+      type: 'settings',
+      icon: <ImageIcon className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
+    {
+      id: 'variables',
+      title: 'Variables',
+      type: 'settings',
+      icon: <Variable className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
+    {
+      id: 'tests',
+      title: testResult && !testResult.success ? `Tests (${testResult.summary.failed + testResult.summary.errors})` : 'Tests',
+      type: 'settings',
+      icon: <FlaskConical className="h-4 w-4" />,
+      content: <div />, // Will be populated
+      canClose: false,
+    },
   ];
 
   // Handle file opening
@@ -168,6 +291,106 @@ export function PyodideWorkspaceLayout({
     }
   }, [readFile, onFileOpen]);
 
+  // Go-to-definition into another workspace file
+  const handleOpenDefinition = useCallback(async (path: string, line: number) => {
+    await handleFileOpen({
+      name: path.split('/').pop() || path,
+      path,
+      type: 'file',
+      size: 0,
+      modified: new Date(),
+    });
+    setRevealTarget({ path, line });
+  }, [handleFileOpen]);
+
+  // Runs from the editor, terminal, debugger and notebooks reload the variable explorer
+  const handleGlobalsChanged = useCallback(() => {
+    setGlobalsVersion(version => version + 1);
+  }, []);
+
+  // Debugging follows the active Python file
+  const activeFilePath = activeEditorTab.startsWith('file:') ? activeEditorTab.replace('file:', '') : null;
+  const activePythonFile = activeFilePath && openFiles.get(activeFilePath)?.language === 'python'
+    ? activeFilePath
+    : null;
+
+  // Read by the pause handler, which outlives many renders of a session
+  const openFilesRef = useRef(openFiles);
+  openFilesRef.current = openFiles;
+
+  const toggleBreakpoint = useCallback((path: string, line: number) => {
+    setBreakpoints(prev => {
+      const lines = prev[path] ?? [];
+      const next = lines.includes(line)
+        ? lines.filter(existing => existing !== line)
+        : [...lines, line].sort((a, b) => a - b);
+      const { [path]: _removed, ...rest } = prev;
+      return next.length > 0 ? { ...rest, [path]: next } : rest;
+    });
+  }, []);
+
+  const toRuntimeBreakpoints = useCallback((): DebugBreakpoints => {
+    return Object.fromEntries(
+      Object.entries(breakpoints).map(([path, lines]) => [`${WORKSPACE_ROOT}/${path}`, lines])
+    );
+  }, [breakpoints]);
+
+  // Breakpoints edited mid-session reach the program at its next pause
+  useEffect(() => {
+    if (debugging) {
+      runtime?.setBreakpoints(toRuntimeBreakpoints());
+    }
+  }, [debugging, runtime, toRuntimeBreakpoints]);
+
+  // Show where the program paused, opening the file if needed
+  const handleDebugPause = useCallback((state: DebugPausedState) => {
+    setDebugState(state);
+    const path = toWorkspacePath(state.path);
+    if (openFilesRef.current.has(path)) {
+      setActiveEditorTab(`file:${path}`);
+    } else {
+      handleOpenDefinition(path, state.line);
+    }
+  }, [handleOpenDefinition]);
+
+  const handleDebug = useCallback(async (stopOnEntry: boolean = false) => {
+    const file = activePythonFile ? openFiles.get(activePythonFile) : undefined;
+    if (!runtime || !file || debugging) return;
+
+    setDebugging(true);
+    setDebugError(null);
+    setActiveSidebarTab('debug');
+    try {
+      const result = await runtime.debugPython(file.content, `${WORKSPACE_ROOT}/${file.path}`, {
+        breakpoints: toRuntimeBreakpoints(),
+        stopOnEntry,
+        onPause: handleDebugPause
+      });
+      if (result.figures?.length) {
+        setFigures(prev => [...prev, ...result.figures!]);
+      }
+      if (!result.success && !result.interrupted) {
+        setDebugError(result.error || 'Debugging failed');
+      }
+    } catch (error) {
+      setDebugError(error instanceof Error ? error.message : 'Debugging failed');
+    } finally {
+      setDebugging(false);
+      setDebugState(null);
+      handleGlobalsChanged();
+    }
+  }, [runtime, activePythonFile, openFiles, debugging, toRuntimeBreakpoints, handleDebugPause, handleGlobalsChanged]);
+
+  const handleDebugAction = useCallback((action: DebugAction) => {
+    if (action === 'stop') {
+      // Also stops a program that is running rather than paused
+      interrupt();
+    } else {
+      runtime?.resumeDebug(action);
+    }
+    setDebugState(null);
+  }, [runtime, interrupt]);
+
   // Handle file content change
   const handleFileContentChange = useCallback((path: string, content: string) => {
     setOpenFiles(prev => {
@@ -181,6 +404,22 @@ export function PyodideWorkspaceLayout({
     onFileChange?.(path, content);
   }, [onFileChange]);
 
+  // Run tests, or with rerunFailed only the ones that failed last time
+  const runTests = useCallback(async (targets?: string[], rerunFailed: boolean = false) => {
+    if (!testRunner || testsRunning) return;
+
+    setTestsRunning(true);
+    try {
+      const result = rerunFailed ? await testRunner.rerunFailed() : await testRunner.run({ targets });
+      setTestResult(result);
+      setTestFiles(await testRunner.discover());
+    } catch (error) {
+      console.error('Failed to run tests:', error);
+    } finally {
+      setTestsRunning(false);
+    }
+  }, [testRunner, testsRunning]);
+
   // Handle file save
   const handleFileSave = useCallback(async (path: string) => {
     const file = openFiles.get(path);
@@ -192,10 +431,41 @@ export function PyodideWorkspaceLayout({
         const updatedFile = { ...file, modified: false };
         return new Map(prev.set(path, updatedFile));
       });
+
+      // Watch mode reruns the suite on every saved Python file
+      if (testWatch && path.endsWith('.py')) {
+        runTests();
+      }
     } catch (error) {
       console.error('Failed to save file:', error);
     }
-  }, [openFiles, writeFile]);
+  }, [openFiles, writeFile, testWatch, runTests]);
+
+  // Collect figures shown by a run
+  const handleFigures = useCallback((newFigures: PythonFigure[]) => {
+    setFigures(prev => [...prev, ...newFigures]);
+  }, []);
+
+  // Run a file from the editor; figures are only visible in the output panel
+  const handleRunFile = useCallback(async (content: string) => {
+    const result = await runPython(content);
+    handleGlobalsChanged();
+    if (result.figures?.length) {
+      handleFigures(result.figures);
+      setActiveBottomTab('output');
+    }
+  }, [runPython, handleFigures, handleGlobalsChanged]);
+
+  // Save a captured figure; PNG bytes are stored base64 encoded in the workspace database
+  const handleSaveFigure = useCallback(async (fileName: string, content: string | Uint8Array) => {
+    if (typeof content === 'string') {
+      await createFile(fileName, content);
+    } else if (fileSystem) {
+      await fileSystem.writeBinaryFile(fileName, content);
+    } else {
+      throw new Error('Workspace file system is not ready');
+    }
+  }, [createFile, fileSystem]);
 
   // Handle tab close
   const handleTabClose = useCallback((tabId: string) => {
@@ -230,17 +500,19 @@ export function PyodideWorkspaceLayout({
         console.log('Seed project loaded successfully');
         setShowSeedProjects(false);
 
-        // Open the main file if it exists
-        const mainFile = project.files.find(f =>
-          f.path.includes('main.py') || f.path.endsWith('.py')
-        );
+        // Open the main file if it exists, else the project's notebook
+        const mainFile =
+          project.files.find(f => f.path.includes('main.py')) ||
+          project.files.find(f => f.path.endsWith('.ipynb')) ||
+          project.files.find(f => f.path.endsWith('.py'));
 
         if (mainFile) {
+          const name = mainFile.path.split('/').pop() || mainFile.path;
           const openFile: OpenFile = {
             path: mainFile.path,
-            name: mainFile.path.split('/').pop() || mainFile.path,
+            name,
             content: mainFile.content,
-            language: 'python',
+            language: getLanguageFromExtension(name),
             modified: false
           };
 
@@ -255,11 +527,8 @@ export function PyodideWorkspaceLayout({
     }
   }, [projectLoader]);
 
-  // Handle new file creation
-  const handleNewFile = useCallback(async () => {
-    const fileName = `untitled-${Date.now()}.py`;
-    const content = '# New Python file\nprint("Hello, World!")\n';
-
+  // Create a file and open it in an editor tab
+  const createAndOpenFile = useCallback(async (fileName: string, content: string, language: string) => {
     try {
       await createFile(fileName, content);
 
@@ -267,7 +536,7 @@ export function PyodideWorkspaceLayout({
         path: fileName,
         name: fileName,
         content,
-        language: 'python',
+        language,
         modified: false
       };
 
@@ -279,11 +548,30 @@ export function PyodideWorkspaceLayout({
     }
   }, [createFile]);
 
+  // Handle new file creation
+  const handleNewFile = useCallback(() => {
+    return createAndOpenFile(
+      `untitled-${Date.now()}.py`,
+      '# New Python file\nprint("Hello, World!")\n',
+      'python'
+    );
+  }, [createAndOpenFile]);
+
+  // Handle new notebook creation
+  const handleNewNotebook = useCallback(() => {
+    return createAndOpenFile(
+      `untitled-${Date.now()}.ipynb`,
+      serializeNotebook(createNotebook()),
+      'notebook'
+    );
+  }, [createAndOpenFile]);
+
   // Get language from file extension
   const getLanguageFromExtension = (filename: string): string => {
     const ext = filename.split('.').pop()?.toLowerCase();
     switch (ext) {
       case 'py': return 'python';
+      case 'ipynb': return 'notebook';
       case 'js': return 'javascript';
       case 'ts': return 'typescript';
       case 'html': return 'html';
@@ -313,6 +601,68 @@ export function PyodideWorkspaceLayout({
             className="h-full"
           />
         );
+      case 'assistant':
+        return (
+          <PyodideAIAssistant
+            workspaceId={workspaceId}
+            testRunner={testRunner}
+            onTestsRun={() => setTestResult(testRunner?.lastResult ?? null)}
+            className="h-full"
+          />
+        );
+      case 'debug':
+        return (
+          <PyodideDebugPanel
+            state={debugState}
+            running={debugging}
+            canDebug={!!runtime?.canDebug}
+            activeFile={activePythonFile}
+            breakpoints={breakpoints}
+            lastError={debugError}
+            onStart={handleDebug}
+            onAction={handleDebugAction}
+            onOpenLocation={handleOpenDefinition}
+            onRemoveBreakpoint={toggleBreakpoint}
+            onClearBreakpoints={() => setBreakpoints({})}
+            className="h-full"
+          />
+        );
+      case 'git':
+        return (
+          <GitPanel
+            workspaceId={workspaceId}
+            onWorkingTreeChange={() => fileSystem?.loadFromDatabase()}
+            className="h-full"
+          />
+        );
+      case 'dependencies':
+        return (
+          <DependencyGraphPanel
+            workspaceId={workspaceId}
+            onFileOpen={(path) => handleFileOpen({
+              name: path.split('/').pop() || path,
+              path,
+              type: 'file',
+              size: 0,
+              modified: new Date(),
+            })}
+            className="h-full"
+          />
+        );
+      case 'health':
+        return (
+          <CodeHealthPanel
+            workspaceId={workspaceId}
+            onFileOpen={(path) => handleFileOpen({
+              name: path.split('/').pop() || path,
+              path,
+              type: 'file',
+              size: 0,
+              modified: new Date(),
+            })}
+            className="h-full"
+          />
+        );
       default:
         return <div>Tab content not found</div>;
     }
@@ -348,6 +698,10 @@ export function PyodideWorkspaceLayout({
                   <Plus className="h-4 w-4 mr-2" />
                   New File
                 </Button>
+                <Button variant="outline" onClick={handleNewNotebook}>
+                  <NotebookPen className="h-4 w-4 mr-2" />
+                  New Notebook
+                </Button>
                 <Button variant="outline" onClick={() => setShowSeedProjects(true)}>
                   <Code className="h-4 w-4 mr-2" />
                   Seed Projects
@@ -360,6 +714,9 @@ export function PyodideWorkspaceLayout({
               <div className="text-xs text-muted-foreground space-y-1">
                 <div>• Python 3.11 runtime powered by Pyodide</div>
                 <div>• Install packages with micropip</div>
+                <div>• Open and run Jupyter notebooks (.ipynb)</div>
+                <div>• Run test_*.py files with pytest</div>
+                <div>• Debug with breakpoints from the editor gutter</div>
                 <div>• Files are saved in browser storage</div>
               </div>
             </div>
@@ -373,6 +730,22 @@ export function PyodideWorkspaceLayout({
       const filePath = tabId.replace('file:', '');
       const file = openFiles.get(filePath);
       
+      if (file && file.language === 'notebook') {
+        return (
+          <PyodideNotebookEditor
+            key={file.path}
+            path={file.path}
+            content={file.content}
+            runtime={runtime}
+            modified={file.modified}
+            onChange={(content) => handleFileContentChange(file.path, content)}
+            onSave={() => handleFileSave(file.path)}
+            onExecuted={handleGlobalsChanged}
+            className="h-full"
+          />
+        );
+      }
+
       if (file) {
         return (
           <div className="h-full flex flex-col">
@@ -398,26 +771,60 @@ export function PyodideWorkspaceLayout({
                   <Save className="h-3 w-3 mr-1" />
                   Save
                 </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => runPython(file.content)}
-                  className="h-7 px-2 text-xs"
-                >
-                  <Play className="h-3 w-3 mr-1" />
-                  Run
-                </Button>
+                {isExecuting || debugging ? (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={interrupt}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <Square className="h-3 w-3 mr-1" />
+                    Stop
+                  </Button>
+                ) : (
+                  <>
+                    {file.language === 'python' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDebug()}
+                        disabled={!runtime?.canDebug}
+                        className="h-7 px-2 text-xs"
+                        title={runtime?.canDebug ? 'Debug this file' : 'Debugging needs a cross-origin isolated page'}
+                      >
+                        <Bug className="h-3 w-3 mr-1" />
+                        Debug
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleRunFile(file.content)}
+                      className="h-7 px-2 text-xs"
+                    >
+                      <Play className="h-3 w-3 mr-1" />
+                      Run
+                    </Button>
+                  </>
+                )}
               </div>
             </div>
 
-            {/* Simple Code Editor */}
-            <div className="flex-1 p-4">
-              <textarea
-                value={file.content}
-                onChange={(e) => handleFileContentChange(file.path, e.target.value)}
-                className="w-full h-full font-mono text-sm bg-background border rounded-md p-3 resize-none focus:outline-none focus:ring-2 focus:ring-ring"
-                placeholder="Write your Python code here..."
-                spellCheck={false}
+            {/* Code Editor */}
+            <div className="flex-1 overflow-hidden">
+              <PyodideCodeEditor
+                key={file.path}
+                path={file.path}
+                content={file.content}
+                language={file.language}
+                intelligence={codeIntelligence}
+                revealLine={revealTarget?.path === file.path ? revealTarget.line : undefined}
+                onChange={(content) => handleFileContentChange(file.path, content)}
+                onSave={() => handleFileSave(file.path)}
+                onOpenDefinition={handleOpenDefinition}
+                breakpoints={breakpoints[file.path]}
+                onToggleBreakpoint={file.language === 'python' ? (line) => toggleBreakpoint(file.path, line) : undefined}
+                pausedLine={debugState && toWorkspacePath(debugState.path) === file.path ? debugState.line : null}
               />
             </div>
           </div>
@@ -433,8 +840,43 @@ export function PyodideWorkspaceLayout({
     switch (tabId) {
       case 'terminal':
         return (
-          <PyodideTerminal
-            workspaceId={workspaceId}
+          <PyodideTerminalView
+            pyodide={pyodide}
+            streams={terminalStreams}
+            onFigures={handleFigures}
+            onExecuted={handleGlobalsChanged}
+            className="h-full"
+          />
+        );
+      case 'output':
+        return (
+          <PyodideOutputPanel
+            figures={figures}
+            onClear={() => setFigures([])}
+            onSaveToWorkspace={handleSaveFigure}
+            className="h-full"
+          />
+        );
+      case 'variables':
+        return (
+          <PyodideVariableExplorer
+            runtime={runtime}
+            refreshKey={globalsVersion}
+            className="h-full"
+          />
+        );
+      case 'tests':
+        return (
+          <PyodideTestPanel
+            testFiles={testFiles}
+            result={testResult}
+            running={testsRunning}
+            watch={testWatch}
+            onWatchChange={setTestWatch}
+            onRun={(targets) => runTests(targets)}
+            onRerunFailed={() => runTests(undefined, true)}
+            onStop={interrupt}
+            onOpenLocation={handleOpenDefinition}
             className="h-full"
           />
         );
@@ -43,6 +43,8 @@ interface AIAssistantProps {
   onCodeGenerate?: (code: string, language: string) => void;
   className?: string;
   height?: string | number;
+  // Enables retrieval of relevant workspace code for each question
+  workspaceId?: string;
 }
 
 interface ToolInvocation {
@@ -59,7 +61,8 @@ export function AIAssistant({
   onCommand,
   onCodeGenerate,
   className,
-  height = '100%'
+  height = '100%',
+  workspaceId
 }: AIAssistantProps) {
   const [isMaximized, setIsMaximized] = useState(false);
   const [conversationHistory, setConversationHistory] = useState<AIMessage[]>([]);
@@ -90,6 +93,7 @@ export function AIAssistant({
     data
   } = useChat({
     api: '/api/ai/chat',
+    body: workspaceId ? { context: { workspace: { id: workspaceId } } } : undefined,
     initialInput: '',
     initialMessages: [
       {
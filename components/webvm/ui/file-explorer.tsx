@@ -35,13 +35,20 @@ import {
   FileAudio,
   FileCode,
   FileArchive,
+  History,
   Link} from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { FileHistoryPanel } from '@/components/workspace/file-history-panel';
+import { TrashPanel } from '@/components/workspace/trash-panel';
+import { StorageQuotaAlert } from '@/components/workspace/storage-quota-alert';
+import { useReadFileRevision } from '@/hooks/use-file-history';
+import { WORKSPACE_ROOT_PATH, toSandboxPath, toWorkspacePath } from '../utils/workspace-paths';
 import type { DevSandbox } from '../core/dev-sandbox';
 import type { FileInfo } from '../types';
 
 interface FileExplorerProps {
   sandbox: DevSandbox;
+  workspaceId?: string; // Enables version history and trash for persisted workspaces
   rootPath?: string;
   showHidden?: boolean;
   onFileSelect?: (file: FileInfo) => void;
@@ -61,7 +68,8 @@ interface TreeNode {
 
 export function FileExplorer({
   sandbox,
-  rootPath = '/home/user',
+  workspaceId,
+  rootPath = WORKSPACE_ROOT_PATH,
   showHidden = false,
   onFileSelect,
   onFileCreate,
@@ -77,9 +85,12 @@ export function FileExplorer({
   const [selectedFile, setSelectedFile] = useState<FileInfo | null>(null);
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isRenameDialogOpen, setIsRenameDialogOpen] = useState(false);
+  const [historyFile, setHistoryFile] = useState<FileInfo | null>(null);
+  const [isTrashOpen, setIsTrashOpen] = useState(false);
   const [newFileName, setNewFileName] = useState('');
   const [createType, setCreateType] = useState<'file' | 'folder'>('file');
   const [breadcrumb, setBreadcrumb] = useState<string[]>([]);
+  const { readRevision } = useReadFileRevision(workspaceId);
 
   // File type icons
   const getFileIcon = (file: FileInfo) => {
@@ -434,6 +445,13 @@ export function FileExplorer({
               <Edit className="h-4 w-4 mr-2" />
               Rename
             </ContextMenuItem>
+
+            {workspaceId && !isDirectory && (
+              <ContextMenuItem onClick={() => setHistoryFile(file)}>
+                <History className="h-4 w-4 mr-2" />
+                History
+              </ContextMenuItem>
+            )}
             
             <ContextMenuItem 
               onClick={() => handleDelete(file)}
@@ -556,10 +574,17 @@ export function FileExplorer({
             </DialogContent>
           </Dialog>
           
+          {workspaceId && (
+            <Button variant="outline" size="sm" title="Trash" onClick={() => setIsTrashOpen(true)}>
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          )}
+
           <Button variant="outline" size="sm" onClick={refresh}>
             <RefreshCw className="h-4 w-4" />
           </Button>
         </div>
+        {workspaceId && <StorageQuotaAlert workspaceId={workspaceId} className="mt-2" />}
       </CardHeader>
       
       <CardContent className="flex-1 p-0">
@@ -609,6 +634,47 @@ export function FileExplorer({
           </div>
         </DialogContent>
       </Dialog>
+
+      {/* History Dialog */}
+      {workspaceId && (
+        <Dialog open={!!historyFile} onOpenChange={(open) => !open && setHistoryFile(null)}>
+          <DialogContent className="max-w-4xl">
+            <DialogHeader>
+              <DialogTitle>File History</DialogTitle>
+            </DialogHeader>
+
+            {historyFile && (
+              <FileHistoryPanel
+                workspaceId={workspaceId}
+                path={toWorkspacePath(historyFile.path, rootPath)}
+                onRestore={async (path, version) => {
+                  const sandboxPath = toSandboxPath(path, rootPath);
+                  try {
+                    // Storage now holds the restored content; the editor and terminal read the sandbox
+                    await sandbox.writeFile(sandboxPath, await readRevision(path, version));
+                  } catch (error) {
+                    console.error('Failed to write restored file to the sandbox:', error);
+                  }
+                  handleFileSelect({ ...historyFile, path: sandboxPath });
+                }}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Trash Dialog */}
+      {workspaceId && (
+        <Dialog open={isTrashOpen} onOpenChange={setIsTrashOpen}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>Deleted Files</DialogTitle>
+            </DialogHeader>
+
+            <TrashPanel workspaceId={workspaceId} onRestore={() => refresh()} />
+          </DialogContent>
+        </Dialog>
+      )}
     </Card>
   );
 }
\ No newline at end of file
@@ -2,6 +2,7 @@
 
 import React, { useState, useCallback, useEffect } from 'react';
 import { useWorkspaceContext } from '@/hooks/use-workspace-context';
+import { useSaveWorkspaceFile } from '@/hooks/use-file-history';
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
 import { TabSystem, TabItem } from './tab-system';
 import { CodeEditor } from './monaco-editor';
@@ -12,6 +13,10 @@ import { AdvancedChatInterface } from '@/components/ai/advanced-chat-interface';
 import { AIWorkspacePanel } from '@/components/ai/ai-workspace-panel';
 import { WorkspaceManager } from './workspace-manager';
 import { NetworkingConfig } from './networking-config';
+import { SyncConflictsPanel } from '@/components/workspace/sync-conflicts-panel';
+import { GitPanel } from '@/components/workspace/git-panel';
+import { DependencyGraphPanel } from '@/components/workspace/dependency-graph-panel';
+import { CodeHealthPanel } from '@/components/workspace/code-health-panel';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
@@ -28,13 +33,19 @@ import {
   Maximize2,
   Minimize2,
   RotateCcw,
-  Network
+  Network,
+  GitMerge,
+  GitBranch,
+  Workflow,
+  HeartPulse
 } from 'lucide-react';
+import { isWorkspacePath, toWorkspacePath } from '../utils/workspace-paths';
 import type { DevSandbox } from '../core/dev-sandbox';
 import type { FileInfo, NetworkingConfig as NetworkingConfigType } from '../types';
 
 interface WorkspaceLayoutV2Props {
   sandbox: DevSandbox | null;
+  workspaceId?: string;
   className?: string;
   onFileOpen?: (file: FileInfo) => void;
   onFileChange?: (path: string, content: string) => void;
@@ -52,6 +63,7 @@ interface OpenFile {
 
 export function WorkspaceLayoutV2({
   sandbox,
+  workspaceId,
   className,
   onFileOpen,
   onFileChange,
@@ -65,6 +77,7 @@ export function WorkspaceLayoutV2({
     trackFileChanges: true,
     trackTerminalHistory: true
   });
+  const { saveFile: saveWorkspaceFile } = useSaveWorkspaceFile(workspaceId);
 
   // Sidebar tabs
   const [sidebarTabs, setSidebarTabs] = useState<TabItem[]>([
@@ -91,6 +104,38 @@ export function WorkspaceLayoutV2({
       icon: <Network className="h-3 w-3" />,
       content: <div />, // Will be populated
       canClose: false
+    },
+    {
+      id: 'git',
+      title: 'Git',
+      type: 'settings',
+      icon: <GitBranch className="h-3 w-3" />,
+      content: <div />, // Will be populated
+      canClose: false
+    },
+    {
+      id: 'dependencies',
+      title: 'Deps',
+      type: 'settings',
+      icon: <Workflow className="h-3 w-3" />,
+      content: <div />, // Will be populated
+      canClose: false
+    },
+    {
+      id: 'health',
+      title: 'Health',
+      type: 'settings',
+      icon: <HeartPulse className="h-3 w-3" />,
+      content: <div />, // Will be populated
+      canClose: false
+    },
+    {
+      id: 'sync-conflicts',
+      title: 'Sync',
+      type: 'settings',
+      icon: <GitMerge className="h-3 w-3" />,
+      content: <div />, // Will be populated
+      canClose: false
     }
   ]);
 
@@ -136,7 +181,7 @@ export function WorkspaceLayoutV2({
   // Update tab contents when dependencies change
   useEffect(() => {
     updateTabContents();
-  }, [sandbox, openFiles, networkingConfig]);
+  }, [sandbox, workspaceId, openFiles, networkingConfig]);
 
   const updateTabContents = () => {
     // Update sidebar tabs
@@ -179,6 +224,7 @@ export function WorkspaceLayoutV2({
         return (
           <FileExplorer
             sandbox={sandbox}
+            workspaceId={workspaceId}
             onFileSelect={handleFileSelect}
             onFileCreate={handleFileCreate}
             onFileDelete={handleFileDelete}
@@ -213,6 +259,46 @@ export function WorkspaceLayoutV2({
           />
         );
 
+      case 'git':
+        if (!workspaceId) {
+          return (
+            <div className="p-4 text-xs text-muted-foreground">
+              Git is available for persistent workspaces only.
+            </div>
+          );
+        }
+        return <GitPanel workspaceId={workspaceId} className="h-full" />;
+
+      case 'dependencies':
+        if (!workspaceId) {
+          return (
+            <div className="p-4 text-xs text-muted-foreground">
+              Dependency analysis is available for persistent workspaces only.
+            </div>
+          );
+        }
+        return <DependencyGraphPanel workspaceId={workspaceId} className="h-full" />;
+
+      case 'health':
+        if (!workspaceId) {
+          return (
+            <div className="p-4 text-xs text-muted-foreground">
+              Code health is available for persistent workspaces only.
+            </div>
+          );
+        }
+        return <CodeHealthPanel workspaceId={workspaceId} className="h-full" />;
+
+      case 'sync-conflicts':
+        if (!workspaceId) {
+          return (
+            <div className="p-4 text-xs text-muted-foreground">
+              Sync is available for persistent workspaces only.
+            </div>
+          );
+        }
+        return <SyncConflictsPanel workspaceId={workspaceId} className="h-full" />;
+
       default:
         return <div className="p-4 text-muted-foreground">Content not available</div>;
     }
@@ -358,6 +444,7 @@ export function WorkspaceLayoutV2({
         return (
           <AIAssistant
             sandbox={sandbox}
+            workspaceId={workspaceId}
             className="h-full"
             onMessage={(message) => {
               console.log('AI message:', message);
@@ -462,6 +549,10 @@ export function WorkspaceLayoutV2({
     if (file && sandbox) {
       try {
         await sandbox.writeFile(path, file.content);
+        // Persisted workspaces record every save as a revision
+        if (isWorkspacePath(path)) {
+          await saveWorkspaceFile(toWorkspacePath(path), file.content);
+        }
         setOpenFiles(prev => {
           const newMap = new Map(prev);
           newMap.set(path, { ...file, isDirty: false });
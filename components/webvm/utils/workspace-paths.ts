@@ -0,0 +1,26 @@
+// Workspace Path Mapping
+// Converts between sandbox paths and the paths files are stored under
+
+// Sandbox directory persisted workspace files live in
+export const WORKSPACE_ROOT_PATH = '/home/user';
+
+/**
+ * Workspace files are stored relative to the sandbox root, without a
+ * leading slash, while the sandbox lists absolute paths
+ */
+export function toWorkspacePath(path: string, rootPath: string = WORKSPACE_ROOT_PATH): string {
+  const root = rootPath.replace(/\/+$/, '');
+  const relative = path === root ? '' : path.startsWith(`${root}/`) ? path.slice(root.length + 1) : path;
+  return relative.split('/').filter(Boolean).join('/');
+}
+
+/**
+ * Whether a sandbox path is inside the persisted workspace directory
+ */
+export function isWorkspacePath(path: string, rootPath: string = WORKSPACE_ROOT_PATH): boolean {
+  return path.startsWith(`${rootPath.replace(/\/+$/, '')}/`);
+}
+
+export function toSandboxPath(path: string, rootPath: string = WORKSPACE_ROOT_PATH): string {
+  return `${rootPath.replace(/\/+$/, '')}/${path}`;
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { HeartPulse, RefreshCw, AlertTriangle, TrendingUp, TrendingDown } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { useCodeHealth, useCodeHealthTrend } from '@/hooks/use-workspace-health';
+import type { CodeHealthTrendPoint, MaintainabilityRating } from '@/lib/workspace/types';
+
+interface CodeHealthPanelProps {
+  workspaceId: string;
+  onFileOpen?: (path: string) => void;
+  className?: string;
+}
+
+const RATING_STYLES: Record<MaintainabilityRating, string> = {
+  good: 'bg-green-500',
+  moderate: 'bg-yellow-500',
+  poor: 'bg-red-500',
+};
+
+export function CodeHealthPanel({ workspaceId, onFileOpen, className }: CodeHealthPanelProps) {
+  const { report, isLoading, isError, mutate } = useCodeHealth(workspaceId);
+  const { trend, mutate: mutateTrend } = useCodeHealthTrend(workspaceId);
+
+  const flaggedChanges = report?.changes.filter(change => change.flagged) || [];
+
+  const header = (
+    <div className="flex items-center justify-between gap-1 px-3 py-2 border-b">
+      <div className="flex items-center gap-2">
+        <HeartPulse className="h-4 w-4" />
+        <span className="text-sm font-medium">Code Health</span>
+      </div>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-7 w-7 p-0"
+        onClick={() => { mutate(); mutateTrend(); }}
+        disabled={isLoading}
+      >
+        <RefreshCw className={cn('h-3 w-3', isLoading && 'animate-spin')} />
+      </Button>
+    </div>
+  );
+
+  if (isError) {
+    return (
+      <div className={cn('flex flex-col h-full', className)}>
+        {header}
+        <div className="flex flex-col items-center justify-center flex-1 gap-2 p-4 text-sm text-muted-foreground">
+          <AlertTriangle className="h-6 w-6 text-destructive" />
+          <p>{typeof isError === 'string' ? isError : 'Failed to load code health report'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!report || report.summary.files === 0) {
+    return (
+      <div className={cn('flex flex-col h-full', className)}>
+        {header}
+        <div className="flex items-center justify-center flex-1 p-4 text-xs text-muted-foreground">
+          {isLoading ? 'Measuring...' : 'No indexed TypeScript, JavaScript or Python files'}
+        </div>
+      </div>
+    );
+  }
+
+  const { summary } = report;
+  const fileButton = (path: string, label: React.ReactNode, suffix?: React.ReactNode, key: string = path) => (
+    <div key={key} className="flex items-center justify-between gap-2 rounded-md px-2 py-1 hover:bg-muted">
+      <button
+        className="min-w-0 flex-1 text-left text-xs truncate"
+        title={path}
+        onClick={() => onFileOpen?.(path)}
+      >
+        {label}
+      </button>
+      {suffix}
+    </div>
+  );
+
+  return (
+    <div className={cn('flex flex-col h-full min-h-0', className)}>
+      {header}
+
+      <div className="grid grid-cols-2 gap-2 p-2 border-b">
+        <Stat label="Maintainability" value={summary.averageMaintainability.toFixed(0)} hint="0-100, weighted by lines of code" />
+        <Stat
+          label="Complex functions"
+          value={`${summary.complexFunctions} / ${summary.functions}`}
+          hint="Cyclomatic over 10 or cognitive over 15"
+          warn={summary.complexFunctions > 0}
+        />
+        <Stat label="Cognitive" value={summary.cognitive.toString()} hint="Total across all files" />
+        <Stat label="Lines of code" value={summary.linesOfCode.toLocaleString()} hint={`${summary.files} files`} />
+        <div className="col-span-2 flex h-1.5 overflow-hidden rounded-full bg-muted" title="Files by maintainability rating">
+          {(['good', 'moderate', 'poor'] as MaintainabilityRating[]).map(rating => (
+            <div
+              key={rating}
+              className={RATING_STYLES[rating]}
+              style={{ width: `${(summary.ratings[rating] / summary.files) * 100}%` }}
+            />
+          ))}
+        </div>
+        {trend.length > 1 && <TrendChart points={trend} className="col-span-2" />}
+      </div>
+
+      <Tabs defaultValue="hotspots" className="flex flex-col flex-1 min-h-0">
+        <TabsList className="grid grid-cols-3 mx-2 mt-2 h-8">
+          <TabsTrigger value="hotspots" className="text-xs">Hotspots</TabsTrigger>
+          <TabsTrigger value="files" className="text-xs">Files</TabsTrigger>
+          <TabsTrigger value="changes" className="text-xs">
+            Changes {flaggedChanges.length > 0 && <Badge variant="destructive" className="ml-1 h-4 px-1 text-[10px]">{flaggedChanges.length}</Badge>}
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="hotspots" className="flex-1 min-h-0 mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-2 space-y-1">
+              {report.hotspots.length === 0 && <p className="px-1 text-xs text-muted-foreground">No functions over the complexity thresholds</p>}
+              {report.hotspots.map(hotspot => fileButton(
+                hotspot.path,
+                <>
+                  <span className="font-mono">{hotspot.name}</span>
+                  <span className="block text-[10px] text-muted-foreground truncate">{hotspot.path}:{hotspot.line}</span>
+                </>,
+                <div className="flex gap-1 shrink-0">
+                  <Badge variant="outline" className="text-[10px]" title="Cognitive complexity">cog {hotspot.cognitive}</Badge>
+                  <Badge variant="outline" className="text-[10px]" title="Cyclomatic complexity">cc {hotspot.cyclomatic}</Badge>
+                </div>,
+                `${hotspot.path}:${hotspot.name}:${hotspot.line}`
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="files" className="flex-1 min-h-0 mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-2 space-y-1">
+              {report.files.map(file => fileButton(
+                file.path,
+                file.path,
+                <div className="flex items-center gap-1 shrink-0">
+                  {file.hotspots.length > 0 && (
+                    <Badge variant="outline" className="text-[10px]" title={file.hotspots.join(', ')}>
+                      {file.hotspots.length} hotspot{file.hotspots.length === 1 ? '' : 's'}
+                    </Badge>
+                  )}
+                  <span className={cn('h-2 w-2 rounded-full', RATING_STYLES[file.rating])} />
+                  <span className="w-8 text-right text-[10px] text-muted-foreground" title="Maintainability index">
+                    {file.maintainabilityIndex.toFixed(0)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="changes" className="flex-1 min-h-0 mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-2 space-y-1">
+              {!report.baseline ? (
+                <p className="px-1 text-xs text-muted-foreground">Create a snapshot to compare future changes against</p>
+              ) : (
+                <p className="px-1 pb-1 text-xs text-muted-foreground">
+                  Since snapshot <span className="font-medium text-foreground">{report.baseline.name}</span>{' '}
+                  ({formatDistanceToNow(new Date(report.baseline.createdAt), { addSuffix: true })})
+                </p>
+              )}
+              {report.baseline && report.changes.length === 0 && (
+                <p className="px-1 text-xs text-muted-foreground">No complexity changes</p>
+              )}
+              {report.changes.map(change => fileButton(
+                change.path,
+                <>
+                  <span className={cn(change.status === 'removed' && 'line-through text-muted-foreground')}>{change.path}</span>
+                  {change.newHotspots.length > 0 && (
+                    <span className="block text-[10px] text-destructive truncate">
+                      New hotspot{change.newHotspots.length === 1 ? '' : 's'}: {change.newHotspots.join(', ')}
+                    </span>
+                  )}
+                </>,
+                <div className="flex items-center gap-1 shrink-0">
+                  {change.flagged && <AlertTriangle className="h-3 w-3 text-destructive" />}
+                  <Badge
+                    variant={change.cognitiveDelta > 0 ? 'secondary' : 'outline'}
+                    className="text-[10px]"
+                    title={`Cyclomatic ${formatDelta(change.cyclomaticDelta)}, lines ${formatDelta(change.linesOfCodeDelta)}`}
+                  >
+                    cog {formatDelta(change.cognitiveDelta)}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+}
+
+function Stat({ label, value, hint, warn }: { label: string; value: string; hint?: string; warn?: boolean }) {
+  return (
+    <div className="rounded-md border px-2 py-1.5" title={hint}>
+      <div className="text-[10px] uppercase tracking-wide text-muted-foreground">{label}</div>
+      <div className={cn('text-sm font-semibold', warn && 'text-destructive')}>{value}</div>
+    </div>
+  );
+}
+
+/**
+ * Cognitive complexity per thousand lines across snapshots; rising lines
+ * mean code got harder to follow faster than it grew
+ */
+function TrendChart({ points, className }: { points: CodeHealthTrendPoint[]; className?: string }) {
+  const values = points.map(point =>
+    point.summary.linesOfCode > 0 ? (point.summary.cognitive / point.summary.linesOfCode) * 1000 : 0
+  );
+  const max = Math.max(...values, 1);
+  const min = Math.min(...values);
+  const range = max - min || 1;
+  const width = 200;
+  const height = 32;
+
+  const coordinates = values.map((value, index) => ({
+    x: (index / (values.length - 1)) * width,
+    y: height - 2 - ((value - min) / range) * (height - 4),
+  }));
+  const change = values[values.length - 1] - values[values.length - 2];
+
+  return (
+    <div className={cn('space-y-1', className)}>
+      <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+        <span>Cognitive per 1k lines, last {points.length - 1} snapshot{points.length === 2 ? '' : 's'}</span>
+        <span className={cn('flex items-center gap-0.5', change > 0 ? 'text-destructive' : 'text-green-600')}>
+          {change > 0 ? <TrendingUp className="h-3 w-3" /> : <TrendingDown className="h-3 w-3" />}
+          {values[values.length - 1].toFixed(1)}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-8" preserveAspectRatio="none">
+        <polyline
+          points={coordinates.map(({ x, y }) => `${x},${y}`).join(' ')}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={1.5}
+          className="text-primary"
+          vectorEffect="non-scaling-stroke"
+        />
+        {coordinates.map(({ x, y }, index) => (
+          <circle key={index} cx={x} cy={y} r={2} className="fill-primary">
+            <title>{`${points[index].name}: ${values[index].toFixed(1)}`}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+function formatDelta(value: number): string {
+  return value > 0 ? `+${value}` : value.toString();
+}
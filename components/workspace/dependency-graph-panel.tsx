@@ -0,0 +1,513 @@
+'use client';
+
+import React, { useMemo, useRef, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Workflow,
+  RefreshCw,
+  Maximize2,
+  AlertTriangle,
+  RotateCcw,
+  GitCompare,
+  X,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useDependencyGraph, useDependencyImpact } from '@/hooks/use-workspace-dependencies';
+import { useWorkspaceGit } from '@/hooks/use-workspace-git';
+import type { DependencyGraph } from '@/lib/workspace/types';
+
+interface DependencyGraphPanelProps {
+  workspaceId: string;
+  onFileOpen?: (path: string) => void;
+  className?: string;
+}
+
+const NODE_WIDTH = 168;
+const NODE_HEIGHT = 24;
+const COLUMN_GAP = 72;
+const ROW_GAP = 10;
+
+interface NodePosition {
+  x: number;
+  y: number;
+}
+
+export function DependencyGraphPanel({ workspaceId, onFileOpen, className }: DependencyGraphPanelProps) {
+  const { graph, isLoading, isError, mutate } = useDependencyGraph(workspaceId);
+  const { gitState } = useWorkspaceGit(workspaceId);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [filter, setFilter] = useState('');
+  const [expanded, setExpanded] = useState(false);
+  const { impact, isLoading: isImpactLoading } = useDependencyImpact(workspaceId, selected);
+
+  // Git reports paths relative to the repository root
+  const changedPaths = useMemo(() => {
+    if (!graph || !gitState) return [];
+    const changes = new Set([
+      ...gitState.status.staged,
+      ...gitState.status.unstaged,
+      ...gitState.status.untracked,
+    ]);
+    return graph.nodes
+      .map(node => node.path)
+      .filter(path => changes.has(path.replace(/^\//, '')));
+  }, [graph, gitState]);
+
+  const handleSelect = (path: string, additive: boolean) => {
+    setSelected(current => {
+      if (!additive) return current.length === 1 && current[0] === path ? [] : [path];
+      return current.includes(path) ? current.filter(item => item !== path) : [...current, path];
+    });
+  };
+
+  const header = (
+    <div className="flex items-center justify-between gap-1 px-3 py-2 border-b">
+      <div className="flex items-center gap-2">
+        <Workflow className="h-4 w-4" />
+        <span className="text-sm font-medium">Dependencies</span>
+      </div>
+      <div className="flex items-center gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 w-7 p-0"
+          title="Impact of uncommitted changes"
+          disabled={changedPaths.length === 0}
+          onClick={() => setSelected(changedPaths)}
+        >
+          <GitCompare className="h-3 w-3" />
+        </Button>
+        {!expanded && (
+          <Button variant="ghost" size="sm" className="h-7 w-7 p-0" title="Expand graph" onClick={() => setExpanded(true)}>
+            <Maximize2 className="h-3 w-3" />
+          </Button>
+        )}
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={() => mutate()} disabled={isLoading}>
+          <RefreshCw className={cn('h-3 w-3', isLoading && 'animate-spin')} />
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (isError) {
+    return (
+      <div className={cn('flex flex-col h-full', className)}>
+        {header}
+        <div className="flex flex-col items-center justify-center flex-1 gap-2 p-4 text-sm text-muted-foreground">
+          <AlertTriangle className="h-6 w-6 text-destructive" />
+          <p>{typeof isError === 'string' ? isError : 'Failed to load dependency graph'}</p>
+        </div>
+      </div>
+    );
+  }
+
+  const body = (graphHeight: string) => (
+    <>
+      <div className="p-2 border-b">
+        <Input
+          placeholder="Filter files..."
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          className="h-7 text-xs"
+        />
+      </div>
+      {graph && graph.nodes.length > 0 ? (
+        <DependencyGraphView
+          graph={graph}
+          selected={selected}
+          dependents={impact?.dependents.map(dependent => dependent.path) || []}
+          dependencies={impact?.dependencies || []}
+          filter={filter}
+          onSelect={handleSelect}
+          className={cn('border-b', graphHeight)}
+        />
+      ) : (
+        <div className={cn('flex items-center justify-center border-b text-xs text-muted-foreground', graphHeight)}>
+          {isLoading ? 'Building graph...' : 'No indexed source files'}
+        </div>
+      )}
+      {graph && (
+        <DependencyDetails
+          graph={graph}
+          selected={selected}
+          impact={impact}
+          isImpactLoading={isImpactLoading}
+          onSelect={(path) => setSelected([path])}
+          onClearSelection={() => setSelected([])}
+          onFileOpen={onFileOpen}
+        />
+      )}
+    </>
+  );
+
+  return (
+    <div className={cn('flex flex-col h-full min-h-0', className)}>
+      {header}
+      {body('h-64 shrink-0')}
+
+      <Dialog open={expanded} onOpenChange={setExpanded}>
+        <DialogContent className="max-w-[90vw] h-[85vh] flex flex-col p-0 gap-0">
+          <DialogHeader className="px-4 py-3 border-b">
+            <DialogTitle>Dependency Graph</DialogTitle>
+          </DialogHeader>
+          <div className="flex flex-col flex-1 min-h-0">
+            {body('flex-1 min-h-0')}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+/**
+ * Layered layout: files that import others sit left of their dependencies
+ */
+function layoutGraph(graph: DependencyGraph): Map<string, NodePosition> {
+  // Files in one cycle share a layer, so the remaining graph is acyclic
+  const cycleOf = new Map<string, number>();
+  graph.cycles.forEach((cycle, index) => cycle.forEach(path => cycleOf.set(path, index)));
+
+  const dependencies = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    if (cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to)) continue;
+    dependencies.set(edge.from, [...(dependencies.get(edge.from) || []), edge.to]);
+  }
+
+  // Longest path to a leaf module
+  const layers = new Map<string, number>(graph.nodes.map(node => [node.path, 0]));
+  for (let pass = 0; pass < graph.nodes.length; pass++) {
+    let changed = false;
+    for (const node of graph.nodes) {
+      const layer = Math.max(0, ...(dependencies.get(node.path) || []).map(target => (layers.get(target) || 0) + 1));
+      if (layer !== layers.get(node.path)) {
+        layers.set(node.path, layer);
+        changed = true;
+      }
+    }
+    if (!changed) break;
+  }
+
+  const maxLayer = Math.max(0, ...layers.values());
+  const columns: string[][] = Array.from({ length: maxLayer + 1 }, () => []);
+  for (const node of graph.nodes) {
+    columns[maxLayer - layers.get(node.path)!].push(node.path);
+  }
+
+  // Order each column by the rows of the files importing it to reduce crossings
+  const rows = new Map<string, number>();
+  columns.forEach((column, index) => {
+    if (index > 0) {
+      const importerRows = (path: string) => graph.edges
+        .filter(edge => edge.to === path && rows.has(edge.from))
+        .map(edge => rows.get(edge.from)!);
+      const barycenter = (path: string) => {
+        const values = importerRows(path);
+        return values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : Infinity;
+      };
+      column.sort((a, b) => barycenter(a) - barycenter(b) || a.localeCompare(b));
+    } else {
+      column.sort((a, b) => a.localeCompare(b));
+    }
+    column.forEach((path, row) => rows.set(path, row));
+  });
+
+  const positions = new Map<string, NodePosition>();
+  columns.forEach((column, index) => {
+    column.forEach((path, row) => {
+      positions.set(path, {
+        x: index * (NODE_WIDTH + COLUMN_GAP),
+        y: row * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+
+  return positions;
+}
+
+function DependencyGraphView({
+  graph,
+  selected,
+  dependents,
+  dependencies,
+  filter,
+  onSelect,
+  className,
+}: {
+  graph: DependencyGraph;
+  selected: string[];
+  dependents: string[];
+  dependencies: string[];
+  filter: string;
+  onSelect: (path: string, additive: boolean) => void;
+  className?: string;
+}) {
+  const positions = useMemo(() => layoutGraph(graph), [graph]);
+  const [view, setView] = useState({ x: 16, y: 16, scale: 1 });
+  const dragStart = useRef<{ x: number; y: number; viewX: number; viewY: number } | null>(null);
+
+  const cycleEdges = useMemo(() => {
+    const cycleOf = new Map<string, number>();
+    graph.cycles.forEach((cycle, index) => cycle.forEach(path => cycleOf.set(path, index)));
+    return new Set(graph.edges
+      .filter(edge => cycleOf.has(edge.from) && cycleOf.get(edge.from) === cycleOf.get(edge.to))
+      .map(edge => `${edge.from}->${edge.to}`));
+  }, [graph]);
+
+  const orphans = useMemo(() => new Set(graph.orphans), [graph]);
+  const query = filter.trim().toLowerCase();
+
+  const nodeClass = (path: string) => {
+    if (selected.includes(path)) return 'fill-primary stroke-primary';
+    if (dependents.includes(path)) return 'fill-amber-100 stroke-amber-500 dark:fill-amber-950';
+    if (dependencies.includes(path)) return 'fill-sky-100 stroke-sky-500 dark:fill-sky-950';
+    return 'fill-background stroke-border';
+  };
+
+  const handleWheel = (event: React.WheelEvent) => {
+    const scale = Math.min(3, Math.max(0.2, view.scale * (event.deltaY > 0 ? 0.9 : 1.1)));
+    setView(current => ({ ...current, scale }));
+  };
+
+  return (
+    <div className={cn('relative overflow-hidden bg-muted/30', className)}>
+      <svg
+        className="w-full h-full cursor-grab active:cursor-grabbing select-none"
+        onWheel={handleWheel}
+        onMouseDown={(event) => {
+          dragStart.current = { x: event.clientX, y: event.clientY, viewX: view.x, viewY: view.y };
+        }}
+        onMouseMove={(event) => {
+          if (!dragStart.current) return;
+          const start = dragStart.current;
+          setView(current => ({
+            ...current,
+            x: start.viewX + event.clientX - start.x,
+            y: start.viewY + event.clientY - start.y,
+          }));
+        }}
+        onMouseUp={() => { dragStart.current = null; }}
+        onMouseLeave={() => { dragStart.current = null; }}
+      >
+        <defs>
+          <marker id="dependency-arrow" viewBox="0 0 8 8" refX="8" refY="4" markerWidth="6" markerHeight="6" orient="auto">
+            <path d="M0,0 L8,4 L0,8 z" className="fill-muted-foreground" />
+          </marker>
+        </defs>
+        <g transform={`translate(${view.x},${view.y}) scale(${view.scale})`}>
+          {graph.edges.map(edge => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (!from || !to) return null;
+
+            const x1 = from.x + NODE_WIDTH;
+            const y1 = from.y + NODE_HEIGHT / 2;
+            const x2 = to.x;
+            const y2 = to.y + NODE_HEIGHT / 2;
+            const bend = Math.max(40, Math.abs(x2 - x1) / 2);
+            const isCycle = cycleEdges.has(`${edge.from}->${edge.to}`);
+            const isActive = selected.includes(edge.from) || selected.includes(edge.to);
+
+            return (
+              <path
+                key={`${edge.from}->${edge.to}`}
+                d={`M${x1},${y1} C${x1 + bend},${y1} ${x2 - bend},${y2} ${x2},${y2}`}
+                fill="none"
+                markerEnd="url(#dependency-arrow)"
+                className={cn(
+                  isCycle ? 'stroke-destructive' : isActive ? 'stroke-primary' : 'stroke-muted-foreground/40',
+                  isActive && 'stroke-2'
+                )}
+              >
+                <title>{`${edge.from} → ${edge.specifier}`}</title>
+              </path>
+            );
+          })}
+          {graph.nodes.map(node => {
+            const position = positions.get(node.path)!;
+            const name = node.path.split('/').pop() || node.path;
+            const dimmed = query && !node.path.toLowerCase().includes(query);
+
+            return (
+              <g
+                key={node.path}
+                transform={`translate(${position.x},${position.y})`}
+                className={cn('cursor-pointer', dimmed && 'opacity-25')}
+                onMouseDown={(event) => event.stopPropagation()}
+                onClick={(event) => onSelect(node.path, event.shiftKey || event.metaKey)}
+              >
+                <title>{`${node.path}\n${node.dependencyCount} imports, ${node.dependentCount} importers`}</title>
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx={4}
+                  className={nodeClass(node.path)}
+                  strokeDasharray={orphans.has(node.path) ? '4 2' : undefined}
+                />
+                <text
+                  x={8}
+                  y={NODE_HEIGHT / 2}
+                  dominantBaseline="central"
+                  className={cn('text-[11px]', selected.includes(node.path) ? 'fill-primary-foreground' : 'fill-foreground')}
+                >
+                  {name.length > 24 ? `${name.slice(0, 23)}…` : name}
+                </text>
+              </g>
+            );
+          })}
+        </g>
+      </svg>
+      <div className="absolute bottom-2 right-2 flex gap-1">
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-6 w-6 p-0"
+          title="Reset view"
+          onClick={() => setView({ x: 16, y: 16, scale: 1 })}
+        >
+          <RotateCcw className="h-3 w-3" />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function DependencyDetails({
+  graph,
+  selected,
+  impact,
+  isImpactLoading,
+  onSelect,
+  onClearSelection,
+  onFileOpen,
+}: {
+  graph: DependencyGraph;
+  selected: string[];
+  impact: ReturnType<typeof useDependencyImpact>['impact'];
+  isImpactLoading: boolean;
+  onSelect: (path: string) => void;
+  onClearSelection: () => void;
+  onFileOpen?: (path: string) => void;
+}) {
+  const fileButton = (path: string, suffix?: React.ReactNode, key: string = path) => (
+    <div key={key} className="flex items-center justify-between gap-2 rounded-md px-2 py-1 hover:bg-muted">
+      <button
+        className="min-w-0 flex-1 text-left text-xs truncate"
+        title={path}
+        onClick={() => onSelect(path)}
+        onDoubleClick={() => onFileOpen?.(path)}
+      >
+        {path}
+      </button>
+      {suffix}
+    </div>
+  );
+
+  return (
+    <Tabs defaultValue="impact" className="flex flex-col flex-1 min-h-0">
+      <TabsList className="grid grid-cols-4 mx-2 mt-2 h-8">
+        <TabsTrigger value="impact" className="text-xs">Impact</TabsTrigger>
+        <TabsTrigger value="cycles" className="text-xs">
+          Cycles {graph.cycles.length > 0 && <Badge variant="destructive" className="ml-1 h-4 px-1 text-[10px]">{graph.cycles.length}</Badge>}
+        </TabsTrigger>
+        <TabsTrigger value="orphans" className="text-xs">Orphans</TabsTrigger>
+        <TabsTrigger value="unresolved" className="text-xs">Unresolved</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="impact" className="flex-1 min-h-0 mt-0">
+        <ScrollArea className="h-full">
+          <div className="p-2 space-y-2">
+            {selected.length === 0 ? (
+              <p className="px-1 text-xs text-muted-foreground">
+                Select a file to see everything that imports it. Shift-click to select several files.
+              </p>
+            ) : (
+              <>
+                <div className="flex flex-wrap items-center gap-1">
+                  {selected.map(path => (
+                    <Badge key={path} variant="secondary" className="text-xs max-w-full truncate">{path}</Badge>
+                  ))}
+                  <Button variant="ghost" size="sm" className="h-5 w-5 p-0" onClick={onClearSelection}>
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+                {isImpactLoading || !impact ? (
+                  <p className="px-1 text-xs text-muted-foreground">Analyzing...</p>
+                ) : (
+                  <>
+                    <div className="px-1 text-xs text-muted-foreground">
+                      Affects <span className="font-medium text-foreground">{impact.dependents.length}</span> file{impact.dependents.length === 1 ? '' : 's'}
+                    </div>
+                    {impact.dependents.map(dependent => fileButton(
+                      dependent.path,
+                      <Badge variant="outline" className="text-[10px]" title={`via ${dependent.via}`}>
+                        {dependent.depth === 1 ? 'direct' : `depth ${dependent.depth}`}
+                      </Badge>
+                    ))}
+                    {impact.dependencies.length > 0 && (
+                      <>
+                        <div className="px-1 pt-2 text-xs text-muted-foreground">Imports</div>
+                        {impact.dependencies.map(path => fileButton(path))}
+                      </>
+                    )}
+                    {impact.cycles.length > 0 && (
+                      <div className="flex items-center gap-1 px-1 pt-2 text-xs text-destructive">
+                        <AlertTriangle className="h-3 w-3" />
+                        Part of {impact.cycles.length} import cycle{impact.cycles.length === 1 ? '' : 's'}
+                      </div>
+                    )}
+                  </>
+                )}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </TabsContent>
+
+      <TabsContent value="cycles" className="flex-1 min-h-0 mt-0">
+        <ScrollArea className="h-full">
+          <div className="p-2 space-y-3">
+            {graph.cycles.length === 0 && <p className="px-1 text-xs text-muted-foreground">No import cycles</p>}
+            {graph.cycles.map((cycle, index) => (
+              <div key={index} className="space-y-1">
+                <div className="px-1 text-xs text-muted-foreground">Cycle {index + 1}</div>
+                {cycle.map(path => fileButton(path))}
+              </div>
+            ))}
+          </div>
+        </ScrollArea>
+      </TabsContent>
+
+      <TabsContent value="orphans" className="flex-1 min-h-0 mt-0">
+        <ScrollArea className="h-full">
+          <div className="p-2 space-y-1">
+            {graph.orphans.length === 0 && <p className="px-1 text-xs text-muted-foreground">Every file is imported or is an entry point</p>}
+            {graph.orphans.map(path => fileButton(path))}
+          </div>
+        </ScrollArea>
+      </TabsContent>
+
+      <TabsContent value="unresolved" className="flex-1 min-h-0 mt-0">
+        <ScrollArea className="h-full">
+          <div className="p-2 space-y-1">
+            {graph.unresolved.length === 0 && <p className="px-1 text-xs text-muted-foreground">All relative imports resolve</p>}
+            {graph.unresolved.map(({ from, specifier }) => fileButton(
+              from,
+              <code className="text-[10px] text-muted-foreground truncate max-w-[45%]">{specifier}</code>,
+              `${from}:${specifier}`
+            ))}
+          </div>
+        </ScrollArea>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, RotateCcw, RefreshCw, GitCompare } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import {
+  useFileRevisions,
+  useFileRevisionDiff,
+  useRestoreFileRevision,
+} from '@/hooks/use-file-history';
+import type { FileRevision } from '@/lib/workspace/types';
+
+interface FileHistoryPanelProps {
+  workspaceId: string;
+  path: string;
+  onRestore?: (path: string, version: number) => void;
+  className?: string;
+}
+
+export function FileHistoryPanel({
+  workspaceId,
+  path,
+  onRestore,
+  className,
+}: FileHistoryPanelProps) {
+  const { revisions, isLoading, mutate } = useFileRevisions(workspaceId, path);
+  const { restoreRevision, isLoading: isRestoring } = useRestoreFileRevision(workspaceId);
+  const [selected, setSelected] = useState<FileRevision | null>(null);
+  const [pendingRestore, setPendingRestore] = useState<FileRevision | null>(null);
+
+  // Compare the selected revision against the current (latest) one
+  const latest = revisions[0];
+  const compareTo = selected && latest && selected.version !== latest.version ? latest : null;
+  const { diff, isLoading: isDiffLoading } = useFileRevisionDiff(
+    workspaceId,
+    path,
+    compareTo ? selected?.version : undefined,
+    compareTo?.version
+  );
+
+  useEffect(() => {
+    setSelected(null);
+  }, [path]);
+
+  const handleRestore = async () => {
+    if (!pendingRestore) return;
+
+    try {
+      await restoreRevision(path, pendingRestore.version);
+      toast.success(`Restored ${path} from version ${pendingRestore.version}`);
+      onRestore?.(path, pendingRestore.version);
+      setSelected(null);
+      await mutate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore revision');
+    } finally {
+      setPendingRestore(null);
+    }
+  };
+
+  const renderPatchLine = (line: string, index: number) => (
+    <div
+      key={index}
+      className={cn(
+        'px-2 whitespace-pre',
+        line.startsWith('+') && !line.startsWith('+++') && 'bg-green-500/10 text-green-600',
+        line.startsWith('-') && !line.startsWith('---') && 'bg-red-500/10 text-red-600',
+        line.startsWith('@@') && 'text-blue-500'
+      )}
+    >
+      {line || ' '}
+    </div>
+  );
+
+  return (
+    <div className={cn('flex flex-col h-full gap-3', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <History className="h-4 w-4" />
+          <span className="truncate">{path}</span>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => mutate()}>
+          <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-[220px_1fr] gap-3 flex-1 min-h-0">
+        <ScrollArea className="h-80 border rounded-md">
+          <div className="p-1 space-y-1">
+            {isLoading ? (
+              <div className="flex items-center justify-center h-24">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              </div>
+            ) : revisions.length === 0 ? (
+              <p className="p-3 text-xs text-muted-foreground">No revisions recorded yet.</p>
+            ) : (
+              revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  className={cn(
+                    'flex items-center justify-between gap-2 px-2 py-1.5 rounded-sm cursor-pointer hover:bg-muted',
+                    selected?.id === revision.id && 'bg-primary/10 text-primary'
+                  )}
+                  onClick={() => setSelected(revision)}
+                >
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-sm font-medium">v{revision.version}</span>
+                      {index === 0 && (
+                        <Badge variant="secondary" className="text-xs">Current</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {revision.message || formatDistanceToNow(new Date(revision.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {index !== 0 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0"
+                      disabled={isRestoring}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setPendingRestore(revision);
+                      }}
+                    >
+                      <RotateCcw className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+
+        <ScrollArea className="h-80 border rounded-md">
+          <div className="font-mono text-xs py-1">
+            {!compareTo ? (
+              <div className="flex flex-col items-center justify-center h-24 gap-2 text-muted-foreground">
+                <GitCompare className="h-5 w-5" />
+                <span>Select an older revision to compare it with the current version</span>
+              </div>
+            ) : isDiffLoading || !diff ? (
+              <div className="flex items-center justify-center h-24">
+                <RefreshCw className="h-4 w-4 animate-spin" />
+              </div>
+            ) : (
+              <>
+                <div className="flex gap-2 px-2 pb-1">
+                  <Badge variant="outline" className="text-green-600">+{diff.additions}</Badge>
+                  <Badge variant="outline" className="text-red-600">-{diff.deletions}</Badge>
+                </div>
+                {diff.patch.split('\n').slice(2).map(renderPatchLine)}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+
+      <AlertDialog open={!!pendingRestore} onOpenChange={(open) => !open && setPendingRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore version {pendingRestore?.version}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The content of version {pendingRestore?.version} will be saved as a new version of {path}.
+              No existing revisions are removed.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+'use client';
+
+import React from 'react';
+import { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+import { Badge } from '@/components/ui/badge';
+import { RefreshCw, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useGitDiff } from '@/hooks/use-workspace-git';
+
+interface GitDiffViewerProps {
+  workspaceId: string;
+  path: string;
+  staged?: boolean;
+  className?: string;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  json: 'json',
+  py: 'python',
+  md: 'markdown',
+  css: 'css',
+  html: 'html',
+  yml: 'yaml',
+  yaml: 'yaml',
+  sh: 'shell',
+};
+
+export function GitDiffViewer({ workspaceId, path, staged = false, className }: GitDiffViewerProps) {
+  const { theme } = useTheme();
+  const { diff, isLoading, isError } = useGitDiff(workspaceId, path, staged);
+
+  const language = LANGUAGE_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''] || 'plaintext';
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center justify-center h-full text-sm text-muted-foreground', className)}>
+        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+        Loading diff...
+      </div>
+    );
+  }
+
+  if (isError || !diff) {
+    return (
+      <div className={cn('flex flex-col items-center justify-center h-full gap-2 text-sm text-muted-foreground', className)}>
+        <AlertTriangle className="h-6 w-6 text-destructive" />
+        <p>{typeof isError === 'string' ? isError : 'Failed to load diff'}</p>
+      </div>
+    );
+  }
+
+  if (diff.binary) {
+    return (
+      <div className={cn('flex items-center justify-center h-full text-sm text-muted-foreground', className)}>
+        Binary file changed
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-col h-full min-h-0', className)}>
+      <div className="flex items-center gap-2 px-3 py-1 border-b text-xs text-muted-foreground">
+        <span className="flex-1">{staged ? 'HEAD' : 'Index'}</span>
+        <span className="flex-1">{staged ? 'Index' : 'Working tree'}</span>
+        <Badge variant="outline" className="text-xs">{staged ? 'Staged' : 'Unstaged'}</Badge>
+      </div>
+      <DiffEditor
+        height="100%"
+        language={language}
+        theme={theme === 'dark' ? 'vs-dark' : 'vs'}
+        original={diff.original}
+        modified={diff.modified}
+        options={{
+          readOnly: true,
+          renderSideBySide: true,
+          minimap: { enabled: false },
+          scrollBeyondLastLine: false,
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,586 @@
+'use client';
+
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  GitBranch,
+  GitCommit as GitCommitIcon,
+  RefreshCw,
+  Plus,
+  Minus,
+  ArrowDown,
+  ArrowUp,
+  Archive,
+  MoreHorizontal,
+  AlertTriangle,
+  KeyRound,
+} from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWorkspaceGit, useGitLog, useGitActions, GitAction } from '@/hooks/use-workspace-git';
+import { GitDiffViewer } from './git-diff-viewer';
+import type { GitRemoteCredentials } from '@/lib/workspace/types';
+
+interface GitPanelProps {
+  workspaceId: string;
+  // Called after operations that rewrite working tree files
+  onWorkingTreeChange?: () => void;
+  className?: string;
+}
+
+// Operations that can change files in the working tree
+const WORKING_TREE_ACTIONS: GitAction['action'][] = [
+  'clone',
+  'checkout',
+  'create-branch',
+  'merge',
+  'abort-merge',
+  'stash',
+  'stash-apply',
+  'stash-pop',
+  'pull',
+];
+
+export function GitPanel({ workspaceId, onWorkingTreeChange, className }: GitPanelProps) {
+  const { gitState, branches, isLoading, mutate } = useWorkspaceGit(workspaceId);
+  const { commits, mutate: mutateLog } = useGitLog(workspaceId, { depth: 30 });
+  const { runAction, isLoading: isRunning } = useGitActions(workspaceId);
+  const [commitMessage, setCommitMessage] = useState('');
+  const [cloneUrl, setCloneUrl] = useState('');
+  const [credentials, setCredentials] = useState<GitRemoteCredentials | undefined>();
+  const [credentialsOpen, setCredentialsOpen] = useState(false);
+  const [newBranch, setNewBranch] = useState<string | null>(null);
+  const [newRemote, setNewRemote] = useState<{ name: string; url: string } | null>(null);
+  const [diffTarget, setDiffTarget] = useState<{ path: string; staged: boolean } | null>(null);
+
+  const repository = gitState?.repository;
+  const status = gitState?.status;
+  const localBranches = branches.filter(branch => !branch.remote);
+  const remoteBranches = branches.filter(branch => branch.remote);
+  const changes = status ? [...status.unstaged, ...status.untracked] : [];
+
+  const run = async (action: GitAction, successMessage?: string) => {
+    try {
+      await runAction(action);
+      if (successMessage) toast.success(successMessage);
+      if (WORKING_TREE_ACTIONS.includes(action.action)) onWorkingTreeChange?.();
+      return true;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Git operation failed');
+      return false;
+    } finally {
+      mutate();
+      mutateLog();
+    }
+  };
+
+  const handleCommit = async () => {
+    if (!commitMessage.trim()) return;
+    if (await run({ action: 'commit', message: commitMessage }, 'Changes committed')) {
+      setCommitMessage('');
+    }
+  };
+
+  const handleCreateBranch = async () => {
+    if (!newBranch?.trim()) return;
+    if (await run({ action: 'create-branch', name: newBranch.trim(), checkout: true }, `Switched to ${newBranch.trim()}`)) {
+      setNewBranch(null);
+    }
+  };
+
+  const handleAddRemote = async () => {
+    if (!newRemote?.name || !newRemote.url) return;
+    if (await run({ action: 'add-remote', ...newRemote }, `Added remote ${newRemote.name}`)) {
+      setNewRemote(null);
+    }
+  };
+
+  if (!isLoading && !repository) {
+    return (
+      <div className={cn('flex flex-col h-full', className)}>
+        <PanelHeader isLoading={isLoading} onRefresh={() => mutate()} />
+        <div className="p-3 space-y-4 text-sm">
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">This workspace is not a git repository.</p>
+            <Button size="sm" className="w-full" disabled={isRunning} onClick={() => run({ action: 'init' }, 'Repository initialized')}>
+              Initialize Repository
+            </Button>
+          </div>
+          <div className="space-y-2">
+            <p className="text-xs text-muted-foreground">Or clone a repository into the workspace:</p>
+            <Input
+              placeholder="https://github.com/user/repo.git"
+              value={cloneUrl}
+              onChange={(e) => setCloneUrl(e.target.value)}
+              className="h-8 text-xs"
+            />
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                className="flex-1"
+                disabled={isRunning || !cloneUrl}
+                onClick={() => run({ action: 'clone', url: cloneUrl, credentials }, 'Repository cloned')}
+              >
+                {isRunning ? 'Cloning...' : 'Clone'}
+              </Button>
+              <Button size="sm" variant="outline" onClick={() => setCredentialsOpen(true)}>
+                <KeyRound className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        </div>
+        <CredentialsDialog
+          open={credentialsOpen}
+          credentials={credentials}
+          onOpenChange={setCredentialsOpen}
+          onSave={setCredentials}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={cn('flex flex-col h-full', className)}>
+      <PanelHeader isLoading={isLoading || isRunning} onRefresh={() => { mutate(); mutateLog(); }}>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 max-w-[140px] text-xs">
+              <GitBranch className="h-3 w-3 mr-1 shrink-0" />
+              <span className="truncate">{repository?.branch || '...'}</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end" className="w-56">
+            <DropdownMenuLabel>Branches</DropdownMenuLabel>
+            {localBranches.map(branch => (
+              <DropdownMenuItem
+                key={branch.name}
+                disabled={branch.current}
+                onClick={() => run({ action: 'checkout', ref: branch.name }, `Switched to ${branch.name}`)}
+              >
+                {branch.name}
+                {branch.current && <Badge variant="secondary" className="ml-auto text-xs">current</Badge>}
+              </DropdownMenuItem>
+            ))}
+            {remoteBranches.length > 0 && (
+              <>
+                <DropdownMenuSeparator />
+                <DropdownMenuLabel>Remote branches</DropdownMenuLabel>
+                {remoteBranches.map(branch => (
+                  <DropdownMenuItem
+                    key={branch.name}
+                    onClick={() => run({ action: 'checkout', ref: branch.name }, `Checked out ${branch.name}`)}
+                  >
+                    {branch.name}
+                  </DropdownMenuItem>
+                ))}
+              </>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setNewBranch('')}>
+              <Plus className="h-3 w-3 mr-2" />
+              New branch...
+            </DropdownMenuItem>
+            {localBranches.filter(branch => !branch.current).map(branch => (
+              <DropdownMenuItem
+                key={`delete-${branch.name}`}
+                className="text-destructive"
+                onClick={() => run({ action: 'delete-branch', name: branch.name }, `Deleted ${branch.name}`)}
+              >
+                Delete {branch.name}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuContent>
+        </DropdownMenu>
+
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+              <MoreHorizontal className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem disabled={!repository?.remotes.length} onClick={() => run({ action: 'pull', credentials }, 'Pulled')}>
+              <ArrowDown className="h-3 w-3 mr-2" />
+              Pull
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={!repository?.remotes.length} onClick={() => run({ action: 'push', credentials }, 'Pushed')}>
+              <ArrowUp className="h-3 w-3 mr-2" />
+              Push
+            </DropdownMenuItem>
+            <DropdownMenuItem disabled={!repository?.remotes.length} onClick={() => run({ action: 'fetch', credentials }, 'Fetched')}>
+              <RefreshCw className="h-3 w-3 mr-2" />
+              Fetch
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => run({ action: 'stash' }, 'Changes stashed')}>
+              <Archive className="h-3 w-3 mr-2" />
+              Stash changes
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setNewRemote({ name: repository?.remotes.length ? '' : 'origin', url: '' })}>
+              <Plus className="h-3 w-3 mr-2" />
+              Add remote...
+            </DropdownMenuItem>
+            {repository?.remotes.map(remote => (
+              <DropdownMenuItem
+                key={remote.name}
+                className="text-destructive"
+                onClick={() => run({ action: 'remove-remote', name: remote.name }, `Removed remote ${remote.name}`)}
+              >
+                Remove {remote.name}
+              </DropdownMenuItem>
+            ))}
+            <DropdownMenuItem onClick={() => setCredentialsOpen(true)}>
+              <KeyRound className="h-3 w-3 mr-2" />
+              {credentials ? 'Change credentials...' : 'Set credentials...'}
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </PanelHeader>
+
+      {gitState?.merging && (
+        <div className="flex items-center justify-between gap-2 px-3 py-2 border-b bg-destructive/10 text-xs">
+          <span className="flex items-center gap-1">
+            <AlertTriangle className="h-3 w-3" />
+            Merge in progress
+          </span>
+          <Button variant="outline" size="sm" className="h-6 text-xs" onClick={() => run({ action: 'abort-merge' }, 'Merge aborted')}>
+            Abort
+          </Button>
+        </div>
+      )}
+
+      <Tabs defaultValue="changes" className="flex flex-col flex-1 min-h-0">
+        <TabsList className="mx-2 mt-2 grid grid-cols-3">
+          <TabsTrigger value="changes" className="text-xs">Changes</TabsTrigger>
+          <TabsTrigger value="history" className="text-xs">History</TabsTrigger>
+          <TabsTrigger value="stashes" className="text-xs">Stashes</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="changes" className="flex flex-col flex-1 min-h-0 mt-0">
+          <div className="p-2 space-y-2 border-b">
+            <Textarea
+              placeholder={gitState?.merging ? 'Merge commit message' : 'Commit message'}
+              value={commitMessage}
+              onChange={(e) => setCommitMessage(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handleCommit();
+              }}
+              className="min-h-[60px] text-xs"
+            />
+            <Button
+              size="sm"
+              className="w-full"
+              disabled={isRunning || !commitMessage.trim() || (!status?.staged.length && !gitState?.merging)}
+              onClick={handleCommit}
+            >
+              <GitCommitIcon className="h-3 w-3 mr-1" />
+              Commit{status?.staged.length ? ` ${status.staged.length} file${status.staged.length === 1 ? '' : 's'}` : ''}
+            </Button>
+          </div>
+
+          <ScrollArea className="flex-1">
+            <div className="p-2 space-y-3">
+              {status && status.conflicts.length > 0 && (
+                <FileSection
+                  title="Merge Conflicts"
+                  files={status.conflicts}
+                  actionIcon={<Plus className="h-3 w-3" />}
+                  actionLabel="Mark resolved"
+                  onAction={(paths) => run({ action: 'stage', paths })}
+                  onOpen={(path) => setDiffTarget({ path, staged: false })}
+                  variant="destructive"
+                />
+              )}
+              <FileSection
+                title="Staged Changes"
+                files={status?.staged || []}
+                actionIcon={<Minus className="h-3 w-3" />}
+                actionLabel="Unstage"
+                onAction={(paths) => run({ action: 'unstage', paths })}
+                onOpen={(path) => setDiffTarget({ path, staged: true })}
+              />
+              <FileSection
+                title="Changes"
+                files={changes}
+                untracked={status?.untracked}
+                actionIcon={<Plus className="h-3 w-3" />}
+                actionLabel="Stage"
+                onAction={(paths) => run({ action: 'stage', paths })}
+                onOpen={(path) => setDiffTarget({ path, staged: false })}
+              />
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="history" className="flex-1 min-h-0 mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-2 space-y-1">
+              {commits.length === 0 ? (
+                <p className="p-4 text-center text-xs text-muted-foreground">No commits yet</p>
+              ) : commits.map(commit => (
+                <div key={commit.oid} className="rounded-md border px-2 py-1.5">
+                  <div className="text-sm truncate">{commit.message.split('\n')[0]}</div>
+                  <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                    <code>{commit.oid.slice(0, 7)}</code>
+                    <span className="truncate">{commit.author.name}</span>
+                    <span className="ml-auto shrink-0">
+                      {formatDistanceToNow(new Date(commit.author.timestamp), { addSuffix: true })}
+                    </span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+
+        <TabsContent value="stashes" className="flex-1 min-h-0 mt-0">
+          <ScrollArea className="h-full">
+            <div className="p-2 space-y-1">
+              {!gitState?.stashes.length ? (
+                <p className="p-4 text-center text-xs text-muted-foreground">No stashes</p>
+              ) : gitState.stashes.map((stash, index) => (
+                <div key={stash.id} className="flex items-center justify-between gap-2 rounded-md border px-2 py-1.5">
+                  <div className="min-w-0">
+                    <div className="text-sm truncate">{stash.message}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {stash.id} · {formatDistanceToNow(new Date(stash.date), { addSuffix: true })}
+                    </div>
+                  </div>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="ghost" size="sm" className="h-7 w-7 p-0 shrink-0">
+                        <MoreHorizontal className="h-3 w-3" />
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onClick={() => run({ action: 'stash-pop', index }, 'Stash popped')}>Pop</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => run({ action: 'stash-apply', index }, 'Stash applied')}>Apply</DropdownMenuItem>
+                      <DropdownMenuItem className="text-destructive" onClick={() => run({ action: 'stash-drop', index }, 'Stash dropped')}>
+                        Drop
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        </TabsContent>
+      </Tabs>
+
+      <Dialog open={newBranch !== null} onOpenChange={(open) => !open && setNewBranch(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New Branch</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="feature/my-change"
+            value={newBranch || ''}
+            onChange={(e) => setNewBranch(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreateBranch()}
+          />
+          <Button disabled={!newBranch?.trim() || isRunning} onClick={handleCreateBranch}>
+            Create and Switch
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={newRemote !== null} onOpenChange={(open) => !open && setNewRemote(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Add Remote</DialogTitle>
+          </DialogHeader>
+          <Input
+            placeholder="origin"
+            value={newRemote?.name || ''}
+            onChange={(e) => setNewRemote(remote => remote && { ...remote, name: e.target.value })}
+          />
+          <Input
+            placeholder="https://github.com/user/repo.git"
+            value={newRemote?.url || ''}
+            onChange={(e) => setNewRemote(remote => remote && { ...remote, url: e.target.value })}
+          />
+          <Button disabled={!newRemote?.name || !newRemote.url || isRunning} onClick={handleAddRemote}>
+            Add Remote
+          </Button>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!diffTarget} onOpenChange={(open) => !open && setDiffTarget(null)}>
+        <DialogContent className="max-w-6xl h-[80vh] flex flex-col p-0 gap-0">
+          <DialogHeader className="px-4 py-3 border-b">
+            <DialogTitle className="text-sm">{diffTarget?.path}</DialogTitle>
+          </DialogHeader>
+          {diffTarget && (
+            <GitDiffViewer
+              workspaceId={workspaceId}
+              path={diffTarget.path}
+              staged={diffTarget.staged}
+              className="flex-1 min-h-0"
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <CredentialsDialog
+        open={credentialsOpen}
+        credentials={credentials}
+        onOpenChange={setCredentialsOpen}
+        onSave={setCredentials}
+      />
+    </div>
+  );
+}
+
+function PanelHeader({
+  isLoading,
+  onRefresh,
+  children,
+}: {
+  isLoading: boolean;
+  onRefresh: () => void;
+  children?: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-center justify-between gap-1 px-3 py-2 border-b">
+      <div className="flex items-center gap-2">
+        <GitBranch className="h-4 w-4" />
+        <span className="text-sm font-medium">Source Control</span>
+      </div>
+      <div className="flex items-center gap-1 min-w-0">
+        {children}
+        <Button variant="ghost" size="sm" className="h-7 w-7 p-0" onClick={onRefresh} disabled={isLoading}>
+          <RefreshCw className={cn('h-3 w-3', isLoading && 'animate-spin')} />
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+function FileSection({
+  title,
+  files,
+  untracked = [],
+  actionIcon,
+  actionLabel,
+  onAction,
+  onOpen,
+  variant = 'outline',
+}: {
+  title: string;
+  files: string[];
+  untracked?: string[];
+  actionIcon: React.ReactNode;
+  actionLabel: string;
+  onAction: (paths?: string[]) => void;
+  onOpen: (path: string) => void;
+  variant?: 'outline' | 'destructive';
+}) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center justify-between px-1 text-xs text-muted-foreground">
+        <span>
+          {title} <Badge variant={variant} className="ml-1 text-xs">{files.length}</Badge>
+        </span>
+        {files.length > 0 && (
+          <Button variant="ghost" size="sm" className="h-6 px-1 text-xs" title={`${actionLabel} all`} onClick={() => onAction()}>
+            {actionIcon}
+          </Button>
+        )}
+      </div>
+      {files.map(path => (
+        <div key={path} className="group flex items-center justify-between gap-2 rounded-md px-2 py-1 hover:bg-muted">
+          <button className="min-w-0 flex-1 text-left text-sm truncate" onClick={() => onOpen(path)}>
+            {path}
+          </button>
+          {untracked.includes(path) && <Badge variant="outline" className="text-xs">U</Badge>}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+            title={actionLabel}
+            onClick={() => onAction([path])}
+          >
+            {actionIcon}
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function CredentialsDialog({
+  open,
+  credentials,
+  onOpenChange,
+  onSave,
+}: {
+  open: boolean;
+  credentials?: GitRemoteCredentials;
+  onOpenChange: (open: boolean) => void;
+  onSave: (credentials?: GitRemoteCredentials) => void;
+}) {
+  const [username, setUsername] = useState(credentials?.username || '');
+  const [password, setPassword] = useState(credentials?.password || '');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Remote Credentials</DialogTitle>
+        </DialogHeader>
+        <p className="text-xs text-muted-foreground">
+          Used for clone, fetch, pull and push in this session only; they are not saved.
+        </p>
+        <Input placeholder="Username" value={username} onChange={(e) => setUsername(e.target.value)} />
+        <Input
+          type="password"
+          placeholder="Password or access token"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+        />
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            className="flex-1"
+            onClick={() => {
+              onSave(undefined);
+              onOpenChange(false);
+            }}
+          >
+            Clear
+          </Button>
+          <Button
+            className="flex-1"
+            onClick={() => {
+              onSave(username || password ? { username, password } : undefined);
+              onOpenChange(false);
+            }}
+          >
+            Save
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
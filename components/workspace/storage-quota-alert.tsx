@@ -0,0 +1,66 @@
+'use client';
+
+import React from 'react';
+import { AlertTriangle, HardDrive } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { cn } from '@/lib/utils';
+import { useWorkspaceStorage } from '@/hooks/use-storage-quota';
+import type { StorageQuotaUsage } from '@/lib/workspace/types';
+
+interface StorageQuotaAlertProps {
+  workspaceId: string;
+  className?: string;
+}
+
+/**
+ * Banner shown once the workspace or its organization passes the soft
+ * storage limit; renders nothing below it
+ */
+export function StorageQuotaAlert({ workspaceId, className }: StorageQuotaAlertProps) {
+  const { usage } = useWorkspaceStorage(workspaceId);
+  if (!usage) return null;
+
+  // Report whichever limit is closer to being reached
+  const [scope, quota] = usage.organization.percentUsed > usage.workspace.percentUsed
+    ? ['Organization', usage.organization] as const
+    : ['Workspace', usage.workspace] as const;
+
+  if (quota.status === 'ok') return null;
+
+  const exceeded = quota.status === 'exceeded';
+
+  return (
+    <div
+      role="alert"
+      className={cn(
+        'flex flex-col gap-1 rounded-md border px-2 py-1.5 text-xs',
+        exceeded ? 'border-destructive/50 text-destructive' : 'border-yellow-500/50 text-yellow-700 dark:text-yellow-500',
+        className
+      )}
+    >
+      <div className="flex items-center gap-1.5 font-medium">
+        {exceeded ? <AlertTriangle className="h-3 w-3 shrink-0" /> : <HardDrive className="h-3 w-3 shrink-0" />}
+        <span>{exceeded ? `${scope} storage full` : `${scope} storage almost full`}</span>
+      </div>
+      <Progress value={Math.min(quota.percentUsed, 100)} className="h-1" />
+      <p className="text-muted-foreground">
+        {formatQuota(quota)}.{' '}
+        {exceeded
+          ? 'New files and snapshots are rejected until space is freed.'
+          : 'Empty the trash or delete old snapshots to free space.'}
+      </p>
+    </div>
+  );
+}
+
+function formatQuota(quota: StorageQuotaUsage): string {
+  return `${formatFileSize(quota.used)} of ${formatFileSize(quota.hardLimit)} used (${quota.percentUsed}%)`;
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
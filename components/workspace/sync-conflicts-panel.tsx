@@ -0,0 +1,179 @@
+'use client';
+
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { RefreshCw, GitMerge, MoreHorizontal, CheckCircle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWorkspaceSyncs, useResolveSyncConflict } from '@/hooks/use-workspace-sync';
+import { SyncMergeEditor } from './sync-merge-editor';
+import type { ConflictResolution, SyncConflict, WorkspaceSync } from '@/lib/workspace/types';
+
+interface SyncConflictsPanelProps {
+  workspaceId: string;
+  className?: string;
+}
+
+const RESOLUTION_LABELS: Record<ConflictResolution, string> = {
+  local: 'Keep local',
+  remote: 'Keep remote',
+  merge: 'Auto-merge on next sync',
+  skip: 'Skip',
+};
+
+export function SyncConflictsPanel({ workspaceId, className }: SyncConflictsPanelProps) {
+  const { syncs, isLoading, mutate } = useWorkspaceSyncs(workspaceId);
+  const { applyMerge, setResolution, isLoading: isResolving } = useResolveSyncConflict(workspaceId);
+  const [merging, setMerging] = useState<{ syncId: string; path: string } | null>(null);
+
+  const syncsWithConflicts = syncs.filter(sync => sync.conflicts.length > 0);
+
+  const handleResolution = async (sync: WorkspaceSync, conflict: SyncConflict, resolution: ConflictResolution) => {
+    try {
+      await setResolution(sync.id, conflict.path, resolution);
+      toast.success(`${conflict.path} will be resolved on the next sync`);
+      mutate();
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve conflict');
+    }
+  };
+
+  const handleAutoMerge = async (sync: WorkspaceSync, conflict: SyncConflict) => {
+    try {
+      await applyMerge(sync.id, conflict.path);
+      toast.success(`Merged ${conflict.path}`);
+      mutate();
+    } catch {
+      // Overlapping edits need the merge editor
+      setMerging({ syncId: sync.id, path: conflict.path });
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col h-full', className)}>
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <div className="flex items-center gap-2">
+          <GitMerge className="h-4 w-4" />
+          <span className="text-sm font-medium">Sync Conflicts</span>
+        </div>
+        <Button variant="ghost" size="sm" onClick={() => mutate()} disabled={isLoading}>
+          <RefreshCw className={cn('h-3 w-3', isLoading && 'animate-spin')} />
+        </Button>
+      </div>
+
+      <ScrollArea className="flex-1">
+        {syncsWithConflicts.length === 0 ? (
+          <div className="flex flex-col items-center justify-center gap-2 p-6 text-center text-xs text-muted-foreground">
+            <CheckCircle className="h-6 w-6 opacity-50" />
+            {isLoading ? 'Loading syncs...' : 'No sync conflicts'}
+          </div>
+        ) : (
+          <div className="p-2 space-y-3">
+            {syncsWithConflicts.map(sync => (
+              <div key={sync.id} className="space-y-1">
+                <div className="flex items-center justify-between px-1 text-xs text-muted-foreground">
+                  <span className="truncate">
+                    {sync.source.type} ⇄ {sync.target.type}
+                  </span>
+                  {sync.lastSync && (
+                    <span>{formatDistanceToNow(new Date(sync.lastSync), { addSuffix: true })}</span>
+                  )}
+                </div>
+
+                {sync.conflicts.map(conflict => (
+                  <div
+                    key={conflict.path}
+                    className="flex items-center justify-between gap-2 rounded-md border px-2 py-1.5"
+                  >
+                    <div className="min-w-0">
+                      <div className="text-sm truncate">{conflict.path}</div>
+                      <div className="flex items-center gap-1">
+                        <Badge variant="outline" className="text-xs">{conflict.type}</Badge>
+                        {conflict.resolution && (
+                          <Badge variant="secondary" className="text-xs">
+                            {RESOLUTION_LABELS[conflict.resolution]}
+                          </Badge>
+                        )}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center gap-1 shrink-0">
+                      {conflict.type === 'content' && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="h-7 text-xs"
+                          disabled={isResolving}
+                          onClick={() => handleAutoMerge(sync, conflict)}
+                        >
+                          Merge
+                        </Button>
+                      )}
+                      <DropdownMenu>
+                        <DropdownMenuTrigger asChild>
+                          <Button variant="ghost" size="sm" className="h-7 w-7 p-0">
+                            <MoreHorizontal className="h-3 w-3" />
+                          </Button>
+                        </DropdownMenuTrigger>
+                        <DropdownMenuContent align="end">
+                          {conflict.type === 'content' && (
+                            <DropdownMenuItem onClick={() => setMerging({ syncId: sync.id, path: conflict.path })}>
+                              Open merge editor
+                            </DropdownMenuItem>
+                          )}
+                          {(['local', 'remote', 'skip'] as ConflictResolution[]).map(resolution => (
+                            <DropdownMenuItem
+                              key={resolution}
+                              onClick={() => handleResolution(sync, conflict, resolution)}
+                            >
+                              {RESOLUTION_LABELS[resolution]}
+                            </DropdownMenuItem>
+                          ))}
+                        </DropdownMenuContent>
+                      </DropdownMenu>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ))}
+          </div>
+        )}
+      </ScrollArea>
+
+      <Dialog open={!!merging} onOpenChange={(open) => !open && setMerging(null)}>
+        <DialogContent className="max-w-6xl h-[85vh] flex flex-col p-0 gap-0">
+          <DialogHeader className="px-4 py-3 border-b">
+            <DialogTitle>Resolve Conflict</DialogTitle>
+          </DialogHeader>
+          {merging && (
+            <SyncMergeEditor
+              workspaceId={workspaceId}
+              syncId={merging.syncId}
+              path={merging.path}
+              className="flex-1 min-h-0"
+              onResolved={() => {
+                setMerging(null);
+                mutate();
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useState, useEffect, useMemo } from 'react';
+import Editor, { DiffEditor } from '@monaco-editor/react';
+import { useTheme } from 'next-themes';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from '@/components/ui/resizable';
+import { GitMerge, Check, RefreshCw, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useSyncConflictMerge, useResolveSyncConflict } from '@/hooks/use-workspace-sync';
+import {
+  renderRegions,
+  hasConflictMarkers,
+  MergeChoice,
+} from '@/lib/workspace/services/three-way-merge';
+
+interface SyncMergeEditorProps {
+  workspaceId: string;
+  syncId: string;
+  path: string;
+  onResolved?: (path: string) => void;
+  className?: string;
+}
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'typescript',
+  tsx: 'typescript',
+  js: 'javascript',
+  jsx: 'javascript',
+  json: 'json',
+  py: 'python',
+  md: 'markdown',
+  css: 'css',
+  html: 'html',
+  yml: 'yaml',
+  yaml: 'yaml',
+  sh: 'shell',
+};
+
+const CHOICE_LABELS: Record<MergeChoice, string> = {
+  local: 'Local',
+  remote: 'Remote',
+  both: 'Both',
+  base: 'Base',
+};
+
+export function SyncMergeEditor({
+  workspaceId,
+  syncId,
+  path,
+  onResolved,
+  className,
+}: SyncMergeEditorProps) {
+  const { theme } = useTheme();
+  const { merge, isLoading, isError, mutate } = useSyncConflictMerge(workspaceId, syncId, path);
+  const { applyMerge, isLoading: isApplying } = useResolveSyncConflict(workspaceId);
+  const [choices, setChoices] = useState<Array<MergeChoice | undefined>>([]);
+  const [result, setResult] = useState('');
+  // Text last produced from the choices, to tell manual edits apart
+  const [rendered, setRendered] = useState('');
+
+  const editorTheme = theme === 'dark' ? 'vs-dark' : 'vs';
+  const language = LANGUAGE_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''] || 'plaintext';
+  const conflictRegions = useMemo(
+    () => merge?.merge.regions.filter(region => region.type === 'conflict') || [],
+    [merge]
+  );
+
+  // Start from the automatic merge whenever a new merge is loaded
+  useEffect(() => {
+    if (merge) {
+      setChoices([]);
+      setResult(merge.merge.content);
+      setRendered(merge.merge.content);
+    }
+  }, [merge]);
+
+  const handleChoice = (index: number, choice: MergeChoice) => {
+    if (!merge) return;
+
+    // Choices rebuild the whole result, so manual edits would be lost
+    if (result !== rendered && !confirm('Applying this choice discards your manual edits to the result. Continue?')) {
+      return;
+    }
+
+    const next = [...choices];
+    next[index] = choice;
+    const content = renderRegions(merge.merge.regions, next);
+    setChoices(next);
+    setResult(content);
+    setRendered(content);
+  };
+
+  const handleSave = async () => {
+    try {
+      await applyMerge(syncId, path, result);
+      toast.success(`Resolved ${path}`);
+      onResolved?.(path);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to resolve conflict');
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className={cn('flex items-center justify-center h-full text-sm text-muted-foreground', className)}>
+        <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+        Merging...
+      </div>
+    );
+  }
+
+  if (isError || !merge) {
+    return (
+      <div className={cn('flex flex-col items-center justify-center h-full gap-2 text-sm text-muted-foreground', className)}>
+        <AlertTriangle className="h-6 w-6 text-destructive" />
+        <p>{typeof isError === 'string' ? isError : 'Failed to load conflict'}</p>
+        <Button variant="outline" size="sm" onClick={() => mutate()}>
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  const unresolved = hasConflictMarkers(result);
+
+  return (
+    <div className={cn('flex flex-col h-full min-h-0', className)}>
+      <div className="flex items-center justify-between gap-2 px-3 py-2 border-b">
+        <div className="flex items-center gap-2 min-w-0">
+          <GitMerge className="h-4 w-4 shrink-0" />
+          <span className="text-sm font-medium truncate">{path}</span>
+          {merge.base === null && (
+            <Badge variant="outline" className="text-xs">No common base</Badge>
+          )}
+          <Badge variant="secondary" className="text-xs">
+            {merge.merge.autoResolvedCount} auto-merged
+          </Badge>
+          <Badge variant={unresolved ? 'destructive' : 'default'} className="text-xs">
+            {merge.merge.conflictCount} conflict{merge.merge.conflictCount === 1 ? '' : 's'}
+          </Badge>
+        </div>
+        <Button size="sm" onClick={handleSave} disabled={unresolved || isApplying}>
+          <Check className="h-3 w-3 mr-1" />
+          {isApplying ? 'Saving...' : 'Save Resolution'}
+        </Button>
+      </div>
+
+      <ResizablePanelGroup direction="vertical" className="flex-1 min-h-0">
+        <ResizablePanel defaultSize={50} minSize={20}>
+          <div className="flex text-xs text-muted-foreground border-b">
+            <div className="flex-1 px-3 py-1">Local</div>
+            <div className="flex-1 px-3 py-1">Remote</div>
+          </div>
+          <DiffEditor
+            height="calc(100% - 24px)"
+            language={language}
+            theme={editorTheme}
+            original={merge.local}
+            modified={merge.remote}
+            options={{
+              readOnly: true,
+              renderSideBySide: true,
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false,
+            }}
+          />
+        </ResizablePanel>
+
+        <ResizableHandle />
+
+        <ResizablePanel defaultSize={50} minSize={20}>
+          {conflictRegions.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 px-3 py-1 border-b">
+              {conflictRegions.map((region, index) => (
+                <div key={index} className="flex items-center gap-1 text-xs">
+                  <span className="text-muted-foreground">
+                    #{index + 1} (line {region.baseStart + 1}):
+                  </span>
+                  {(Object.keys(CHOICE_LABELS) as MergeChoice[]).map(choice => (
+                    <Button
+                      key={choice}
+                      variant={choices[index] === choice ? 'default' : 'ghost'}
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => handleChoice(index, choice)}
+                    >
+                      {CHOICE_LABELS[choice]}
+                    </Button>
+                  ))}
+                </div>
+              ))}
+            </div>
+          )}
+          <Editor
+            height={conflictRegions.length > 0 ? 'calc(100% - 33px)' : '100%'}
+            language={language}
+            theme={editorTheme}
+            value={result}
+            onChange={(value) => setResult(value || '')}
+            options={{
+              minimap: { enabled: false },
+              scrollBeyondLastLine: false,
+            }}
+          />
+        </ResizablePanel>
+      </ResizablePanelGroup>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+'use client';
+
+import React, { useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Trash2, RotateCcw, RefreshCw, Folder, File, AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { useWorkspaceTrash, useTrashActions } from '@/hooks/use-workspace-trash';
+import type { TrashItem, TrashRestoreResult } from '@/lib/workspace/types';
+
+interface TrashPanelProps {
+  workspaceId: string;
+  onRestore?: (result: TrashRestoreResult) => void | Promise<void>;
+  className?: string;
+}
+
+type PendingPurge = { item: TrashItem } | { all: true };
+
+export function TrashPanel({ workspaceId, onRestore, className }: TrashPanelProps) {
+  const { items, isLoading, isError, mutate } = useWorkspaceTrash(workspaceId);
+  const { restoreItem, purgeItem, emptyTrash, isLoading: isBusy } = useTrashActions(workspaceId);
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+
+  const handleRestore = async (item: TrashItem) => {
+    try {
+      const result = await restoreItem(item.id);
+      toast.success(`Restored ${result.path}`);
+      await onRestore?.(result);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to restore from trash');
+    } finally {
+      await mutate();
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+
+    try {
+      if ('all' in pendingPurge) {
+        const purged = await emptyTrash();
+        toast.success(`Permanently deleted ${purged} item${purged === 1 ? '' : 's'}`);
+      } else {
+        await purgeItem(pendingPurge.item.id);
+        toast.success(`Permanently deleted ${pendingPurge.item.path}`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to delete from trash');
+    } finally {
+      setPendingPurge(null);
+      await mutate();
+    }
+  };
+
+  return (
+    <div className={cn('flex flex-col h-full gap-3', className)}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-sm font-medium">
+          <Trash2 className="h-4 w-4" />
+          <span>Trash</span>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={items.length === 0 || isBusy}
+            onClick={() => setPendingPurge({ all: true })}
+          >
+            Empty Trash
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => mutate()}>
+            <RefreshCw className={cn('h-4 w-4', isLoading && 'animate-spin')} />
+          </Button>
+        </div>
+      </div>
+
+      <ScrollArea className="h-80 border rounded-md">
+        <div className="p-1 space-y-1">
+          {isLoading ? (
+            <div className="flex items-center justify-center h-24">
+              <RefreshCw className="h-4 w-4 animate-spin" />
+            </div>
+          ) : isError ? (
+            <div className="flex items-center gap-2 p-3 text-xs text-muted-foreground">
+              <AlertTriangle className="h-4 w-4 text-destructive" />
+              {typeof isError === 'string' ? isError : 'Failed to load trash'}
+            </div>
+          ) : items.length === 0 ? (
+            <p className="p-3 text-xs text-muted-foreground">Trash is empty.</p>
+          ) : (
+            items.map(item => (
+              <div
+                key={item.id}
+                className="flex items-center justify-between gap-2 px-2 py-1.5 rounded-sm hover:bg-muted"
+              >
+                <div className="flex items-center gap-2 min-w-0">
+                  {item.isDirectory ? (
+                    <Folder className="h-4 w-4 shrink-0 text-blue-500" />
+                  ) : (
+                    <File className="h-4 w-4 shrink-0 text-muted-foreground" />
+                  )}
+                  <div className="min-w-0">
+                    <p className="text-sm truncate" title={item.path}>{item.path}</p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      Deleted {formatDistanceToNow(new Date(item.deletedAt), { addSuffix: true })}
+                      {item.isDirectory && ` · ${item.fileCount} item${item.fileCount === 1 ? '' : 's'}`}
+                      {` · ${formatFileSize(item.size)}`}
+                      {` · removed ${formatDistanceToNow(new Date(item.expiresAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    title="Restore"
+                    disabled={isBusy}
+                    onClick={() => handleRestore(item)}
+                  >
+                    <RotateCcw className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0 text-destructive"
+                    title="Delete permanently"
+                    disabled={isBusy}
+                    onClick={() => setPendingPurge({ item })}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </ScrollArea>
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={(open) => !open && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {pendingPurge && 'all' in pendingPurge ? 'Empty trash?' : `Delete ${pendingPurge?.item.path} permanently?`}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {pendingPurge && 'all' in pendingPurge
+                ? `All ${items.length} item${items.length === 1 ? '' : 's'} in the trash will be deleted along with their version history.`
+                : 'The file and its version history will be deleted.'}{' '}
+              This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handlePurge}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
@@ -292,6 +292,7 @@ export function WorkspaceContainer({ projectId, workspaceId }: WorkspaceContaine
         ) : sandbox ? (
           <WorkspaceLayoutV2
             sandbox={sandbox}
+            workspaceId={workspaceId}
             className="h-full"
             networkingConfig={networkingConfig}
             onNetworkingChange={handleNetworkingChange}
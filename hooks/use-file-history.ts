@@ -0,0 +1,148 @@
+/**
+ * File History Hook
+ * Custom React hooks for workspace file revisions
+ */
+
+import useSWR from 'swr';
+import { useState, useCallback } from 'react';
+import { FileRevision, FileRevisionDiff, WorkspaceFile } from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useFileRevisions(workspaceId?: string, path?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId && path
+      ? `/api/workspace/${workspaceId}/files/history?path=${encodeURIComponent(path)}`
+      : null,
+    fetcher
+  );
+
+  return {
+    revisions: (data?.revisions || []) as FileRevision[],
+    isLoading,
+    isError: error,
+    mutate,
+  };
+}
+
+export function useFileRevisionDiff(
+  workspaceId?: string,
+  path?: string,
+  fromVersion?: number,
+  toVersion?: number
+) {
+  const { data, error, isLoading } = useSWR(
+    workspaceId && path && fromVersion && toVersion
+      ? `/api/workspace/${workspaceId}/files/history/diff?path=${encodeURIComponent(path)}&from=${fromVersion}&to=${toVersion}`
+      : null,
+    fetcher
+  );
+
+  return {
+    diff: data?.diff as FileRevisionDiff | undefined,
+    isLoading,
+    isError: error,
+  };
+}
+
+export function useReadFileRevision(workspaceId?: string) {
+  const readRevision = useCallback(async (path: string, version: number): Promise<string> => {
+    const response = await fetch(
+      `/api/workspace/${workspaceId}/files/history?path=${encodeURIComponent(path)}&version=${version}`
+    );
+    const result = await response.json();
+
+    if (!response.ok) {
+      throw new Error(result.error || 'Failed to read revision');
+    }
+
+    return result.content;
+  }, [workspaceId]);
+
+  return {
+    readRevision,
+  };
+}
+
+// =============================================================================
+// REVISION MANAGEMENT HOOKS
+// =============================================================================
+
+export function useRestoreFileRevision(workspaceId: string) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const restoreRevision = useCallback(async (path: string, version: number): Promise<WorkspaceFile> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspace/${workspaceId}/files/history`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ path, version }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to restore revision');
+      }
+
+      const result = await response.json();
+      return result.file;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to restore revision';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  return {
+    restoreRevision,
+    isLoading,
+    error,
+  };
+}
+
+/**
+ * Save a file to workspace storage so every save is recorded as a revision.
+ * Files not stored yet, e.g. created in a sandbox, are created.
+ */
+export function useSaveWorkspaceFile(workspaceId?: string) {
+  const saveFile = useCallback(async (path: string, content: string): Promise<WorkspaceFile | null> => {
+    if (!workspaceId) return null;
+
+    const send = (method: 'PUT' | 'POST') => fetch(`/api/workspace/${workspaceId}/files`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ path, content }),
+    });
+
+    let response = await send('PUT');
+    if (response.status === 404) {
+      response = await send('POST');
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Failed to save file');
+    }
+
+    const result = await response.json();
+    return result.file;
+  }, [workspaceId]);
+
+  return {
+    saveFile,
+  };
+}
@@ -0,0 +1,49 @@
+/**
+ * Storage Quota Hook
+ * Custom React hooks for workspace and organization storage usage
+ */
+
+import useSWR from 'swr';
+import {
+  OrganizationStorageUsage,
+  StorageBreakdownEntry,
+  WorkspaceStorageUsage,
+} from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useWorkspaceStorage(workspaceId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/storage` : null,
+    fetcher,
+    {
+      refreshInterval: 60000, // Usage changes with every write
+    }
+  );
+
+  return {
+    usage: data?.usage as WorkspaceStorageUsage | undefined,
+    fileTypes: (data?.fileTypes || []) as StorageBreakdownEntry[],
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+export function useOrganizationStorage(organizationId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    organizationId ? `/api/infrastructure/storage/usage?organizationId=${organizationId}` : null,
+    fetcher
+  );
+
+  return {
+    usage: data?.usage as OrganizationStorageUsage | undefined,
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * Workspace Dependencies Hook
+ * Custom React hooks for the workspace dependency graph
+ */
+
+import useSWR from 'swr';
+import { DependencyGraph, DependencyImpact } from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useDependencyGraph(workspaceId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/dependencies` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    graph: data?.graph as DependencyGraph | undefined,
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+export function useDependencyImpact(workspaceId?: string, paths: string[] = [], depth?: number) {
+  const params = new URLSearchParams();
+  paths.forEach(path => params.append('path', path));
+  if (depth) params.set('depth', depth.toString());
+
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId && paths.length > 0
+      ? `/api/workspace/${workspaceId}/dependencies?${params.toString()}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    impact: data?.impact as DependencyImpact | undefined,
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
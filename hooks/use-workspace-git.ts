@@ -0,0 +1,136 @@
+/**
+ * Workspace Git Hook
+ * Custom React hooks for the workspace git repository
+ */
+
+import useSWR from 'swr';
+import { useState, useCallback } from 'react';
+import { GitState, GitBranch, GitCommit, GitDiff, GitRemoteCredentials } from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+export type GitAction =
+  | { action: 'init'; defaultBranch?: string }
+  | { action: 'clone'; url: string; ref?: string; depth?: number; credentials?: GitRemoteCredentials }
+  | { action: 'stage' | 'unstage'; paths?: string[] }
+  | { action: 'commit'; message: string }
+  | { action: 'create-branch'; name: string; checkout?: boolean }
+  | { action: 'checkout'; ref: string; force?: boolean }
+  | { action: 'delete-branch'; name: string }
+  | { action: 'merge'; ref: string }
+  | { action: 'abort-merge' }
+  | { action: 'stash'; message?: string }
+  | { action: 'stash-apply' | 'stash-pop' | 'stash-drop'; index?: number }
+  | { action: 'add-remote'; name: string; url: string }
+  | { action: 'remove-remote'; name: string }
+  | {
+      action: 'fetch' | 'pull' | 'push';
+      remote?: string;
+      branch?: string;
+      force?: boolean;
+      credentials?: GitRemoteCredentials;
+    };
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useWorkspaceGit(workspaceId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/git` : null,
+    fetcher,
+    {
+      refreshInterval: 10000, // Pick up edits made in the editor
+    }
+  );
+
+  return {
+    gitState: data?.gitState as GitState | undefined,
+    branches: (data?.branches || []) as GitBranch[],
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+export function useGitLog(workspaceId?: string, options: { ref?: string; path?: string; depth?: number } = {}) {
+  const params = new URLSearchParams();
+  if (options.ref) params.set('ref', options.ref);
+  if (options.path) params.set('path', options.path);
+  if (options.depth) params.set('depth', options.depth.toString());
+
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/git/log?${params.toString()}` : null,
+    fetcher
+  );
+
+  return {
+    commits: (data?.commits || []) as GitCommit[],
+    isLoading,
+    isError: error,
+    mutate,
+  };
+}
+
+export function useGitDiff(workspaceId?: string, path?: string, staged: boolean = false) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId && path
+      ? `/api/workspace/${workspaceId}/git/diff?path=${encodeURIComponent(path)}&staged=${staged}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    diff: data?.diff as GitDiff | undefined,
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+// =============================================================================
+// GIT OPERATION HOOKS
+// =============================================================================
+
+export function useGitActions(workspaceId: string) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const runAction = useCallback(async (action: GitAction): Promise<GitState> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspace/${workspaceId}/git`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(action),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Git operation failed');
+      }
+
+      const result = await response.json();
+      return result.gitState;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Git operation failed';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  return {
+    runAction,
+    isLoading,
+    error,
+  };
+}
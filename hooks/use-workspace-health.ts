@@ -0,0 +1,49 @@
+/**
+ * Workspace Code Health Hook
+ * Custom React hooks for workspace complexity reports and trends
+ */
+
+import useSWR from 'swr';
+import { CodeHealthReport, CodeHealthTrendPoint } from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useCodeHealth(workspaceId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/health` : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    report: data?.report as CodeHealthReport | undefined,
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+export function useCodeHealthTrend(workspaceId?: string, limit?: number) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId
+      ? `/api/workspace/${workspaceId}/health/trend${limit ? `?limit=${limit}` : ''}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: false,
+    }
+  );
+
+  return {
+    trend: (data?.trend || []) as CodeHealthTrendPoint[],
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
@@ -0,0 +1,107 @@
+/**
+ * Workspace Sync Hook
+ * Custom React hooks for workspace sync jobs and conflict resolution
+ */
+
+import useSWR from 'swr';
+import { useState, useCallback } from 'react';
+import { WorkspaceSync, SyncConflictMerge, ConflictResolution } from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useWorkspaceSyncs(workspaceId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/sync` : null,
+    fetcher,
+    {
+      refreshInterval: 5000, // Poll for progress and new conflicts
+    }
+  );
+
+  return {
+    syncs: (data?.syncs || []) as WorkspaceSync[],
+    isLoading,
+    isError: error,
+    mutate,
+  };
+}
+
+export function useSyncConflictMerge(workspaceId?: string, syncId?: string, path?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId && syncId && path
+      ? `/api/workspace/${workspaceId}/sync/${syncId}/conflicts?path=${encodeURIComponent(path)}`
+      : null,
+    fetcher,
+    {
+      revalidateOnFocus: false, // Keep the editor stable while resolving
+    }
+  );
+
+  return {
+    merge: data?.merge as SyncConflictMerge | undefined,
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+// =============================================================================
+// CONFLICT RESOLUTION HOOKS
+// =============================================================================
+
+export function useResolveSyncConflict(workspaceId: string) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (url: string, method: string, body: unknown): Promise<WorkspaceSync> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(url, {
+        method,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to resolve conflict');
+      }
+
+      const result = await response.json();
+      return result.sync;
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to resolve conflict';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  // Write merged content to both endpoints; omit content to apply the automatic merge
+  const applyMerge = useCallback(async (syncId: string, path: string, content?: string) => {
+    return request(`/api/workspace/${workspaceId}/sync/${syncId}/conflicts`, 'POST', { path, content });
+  }, [workspaceId, request]);
+
+  // Defer the resolution to the next sync run
+  const setResolution = useCallback(async (syncId: string, path: string, resolution: ConflictResolution) => {
+    return request(`/api/workspace/${workspaceId}/sync/${syncId}`, 'PATCH', {
+      conflict: { path, resolution },
+    });
+  }, [workspaceId, request]);
+
+  return {
+    applyMerge,
+    setResolution,
+    isLoading,
+    error,
+  };
+}
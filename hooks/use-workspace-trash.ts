@@ -0,0 +1,93 @@
+/**
+ * Workspace Trash Hook
+ * Custom React hooks for deleted workspace files
+ */
+
+import useSWR from 'swr';
+import { useState, useCallback } from 'react';
+import { TrashItem, TrashRestoreResult } from '@/lib/workspace/types';
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json());
+
+// =============================================================================
+// DATA FETCHING HOOKS
+// =============================================================================
+
+export function useWorkspaceTrash(workspaceId?: string) {
+  const { data, error, isLoading, mutate } = useSWR(
+    workspaceId ? `/api/workspace/${workspaceId}/trash` : null,
+    fetcher
+  );
+
+  return {
+    items: (data?.items || []) as TrashItem[],
+    isLoading,
+    isError: error || (data && !data.success ? data.error : undefined),
+    mutate,
+  };
+}
+
+// =============================================================================
+// TRASH OPERATION HOOKS
+// =============================================================================
+
+export function useTrashActions(workspaceId: string) {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const request = useCallback(async (path: string, init: RequestInit, fallbackMessage: string) => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/workspace/${workspaceId}/trash${path}`, init);
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || fallbackMessage);
+      }
+
+      return await response.json();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : fallbackMessage;
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [workspaceId]);
+
+  const restoreItem = useCallback(async (itemId: string, targetPath?: string): Promise<TrashRestoreResult> => {
+    const result = await request(`/${itemId}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ targetPath }),
+    }, 'Failed to restore from trash');
+
+    return {
+      item: result.item,
+      path: result.path,
+      restoredPaths: result.restoredPaths,
+    };
+  }, [request]);
+
+  const purgeItem = useCallback(async (itemId: string): Promise<TrashItem> => {
+    const result = await request(`/${itemId}`, { method: 'DELETE' }, 'Failed to delete trash item');
+    return result.item;
+  }, [request]);
+
+  const emptyTrash = useCallback(async (): Promise<number> => {
+    const result = await request('', { method: 'DELETE' }, 'Failed to empty trash');
+    return result.purged;
+  }, [request]);
+
+  return {
+    restoreItem,
+    purgeItem,
+    emptyTrash,
+    isLoading,
+    error,
+  };
+}
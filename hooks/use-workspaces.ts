@@ -6,6 +6,7 @@ import {
   WorkspaceQueryInput,
   BulkUpdateWorkspacesInput 
 } from '@/lib/validations/workspace';
+import type { WorkspaceImportResult } from '@/lib/workspace/services/workspace-archive';
 
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
@@ -180,6 +181,48 @@ export function useDeleteWorkspace() {
   };
 }
 
+export function useImportWorkspace() {
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const importWorkspace = async (archive: File, projectId: string, name?: string): Promise<WorkspaceImportResult> => {
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const params = new URLSearchParams({ projectId });
+      if (name) params.set('name', name);
+
+      const response = await fetch(`/api/workspaces/import?${params}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/gzip',
+        },
+        body: archive,
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to import workspace');
+      }
+
+      return await response.json();
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : 'Failed to import workspace';
+      setError(errorMessage);
+      throw err;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return {
+    importWorkspace,
+    isLoading,
+    error,
+  };
+}
+
 export function useBulkUpdateWorkspaces() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
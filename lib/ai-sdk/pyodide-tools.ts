@@ -0,0 +1,27 @@
+import { tool } from 'ai';
+import { z } from 'zod';
+
+/**
+ * AI SDK tools for Pyodide workspaces
+ * These have no execute function: the runtime lives in the browser, so the
+ * chat client handles each call and sends the result back
+ * (see PyodideAIAssistant in components/pyodide/workspace)
+ */
+
+// Testing tools
+export const pyodideTestTools = {
+  runPythonTests: tool({
+    description: 'Run pytest in the Pyodide Python workspace and get pass/fail/error per test, with tracebacks pointing at file and line. Use it to check your own changes.',
+    parameters: z.object({
+      targets: z.array(z.string()).optional().describe('Test files or pytest node ids (e.g. tests/test_calc.py::test_add); all test_*.py files when omitted'),
+      keyword: z.string().optional().describe('pytest -k expression selecting tests by name'),
+      rerunFailed: z.boolean().optional().default(false).describe('Only rerun the tests that failed in the previous run')
+    })
+  })
+};
+
+export const pyodideTools = {
+  ...pyodideTestTools
+};
+
+export default pyodideTools;
@@ -0,0 +1,56 @@
+/**
+ * Workspace Access
+ * Organization membership check shared by the workspace API routes
+ */
+
+import { getWorkspaceById } from '@/lib/data/workspace';
+import { getUserOrganizationRole } from '@/lib/data/organization';
+
+/**
+ * Require that the user belongs to the organization owning the workspace.
+ * Throws WorkspaceAccessError when the workspace does not exist or the user
+ * is not a member.
+ */
+export async function requireWorkspaceAccess(userId: string | undefined, workspaceId: string) {
+  const workspace = await getWorkspaceById(workspaceId);
+  if (!workspace) {
+    throw new WorkspaceAccessError('Workspace not found', 'WORKSPACE_NOT_FOUND');
+  }
+
+  const role = userId
+    ? await getUserOrganizationRole(userId, workspace.project.organizationId)
+    : null;
+  if (!role) {
+    throw new WorkspaceAccessError('Access denied', 'ACCESS_DENIED');
+  }
+
+  return { workspace, role };
+}
+
+/**
+ * Whether the user may use the workspace, for callers that degrade instead
+ * of failing
+ */
+export async function canAccessWorkspace(userId: string | undefined, workspaceId: string): Promise<boolean> {
+  try {
+    await requireWorkspaceAccess(userId, workspaceId);
+    return true;
+  } catch (error) {
+    if (!(error instanceof WorkspaceAccessError)) {
+      console.error('Workspace access check failed:', error);
+    }
+    return false;
+  }
+}
+
+export class WorkspaceAccessError extends Error {
+  constructor(message: string, public code: 'WORKSPACE_NOT_FOUND' | 'ACCESS_DENIED') {
+    super(message);
+    this.name = 'WorkspaceAccessError';
+  }
+
+  /** HTTP status for API routes */
+  get status(): number {
+    return this.code === 'WORKSPACE_NOT_FOUND' ? 404 : 403;
+  }
+}
@@ -93,6 +93,46 @@ const envSchema = z.object({
   BACKUP_S3_BUCKET: z.string().optional(),
   BACKUP_SCHEDULE: z.string().default('0 2 * * *'),
   BACKUP_RETENTION_DAYS: z.coerce.number().default(30),
+
+  // Workspace Snapshots
+  SNAPSHOT_ENCRYPTION_KEY: z.string().min(32).optional(),
+  SNAPSHOT_DEFAULT_COMPRESSION: z.enum(['none', 'gzip', 'brotli', 'zstd', 'lz4']).default('gzip'),
+
+  // Workspace Sync
+  SYNC_LOCAL_ROOT: z.string().optional(),
+  SYNC_SCHEDULER_INTERVAL: z.coerce.number().default(30000),
+  SYNC_S3_ALLOWED_ENDPOINTS: z.string().default(''), // Comma-separated custom S3 endpoint URLs
+  SYNC_CREDENTIALS_KEY: z.string().min(32).optional(),
+
+  // Storage Quotas
+  WORKSPACE_STORAGE_QUOTA: z.coerce.number().default(1073741824), // 1GB
+  ORGANIZATION_STORAGE_QUOTA: z.coerce.number().default(10737418240), // 10GB
+  STORAGE_SOFT_LIMIT_RATIO: z.coerce.number().min(0).max(1).default(0.8),
+
+  // Workspace Trash
+  TRASH_RETENTION_DAYS: z.coerce.number().default(30),
+  TRASH_CLEANUP_INTERVAL: z.coerce.number().default(3600000),
+
+  // Workspace Git
+  GIT_LOCAL_REMOTES_ROOT: z.string().optional(),
+  GIT_ALLOWED_HOSTS: z.string().default(''), // Comma-separated; empty allows any public host
+
+  // Semantic Code Search
+  EMBEDDING_PROVIDER: z.string().default('hashing'), // hashing | ollama | openai, or a registered provider
+  EMBEDDING_MODEL: z.string().optional(),
+  EMBEDDING_DIMENSIONS: z.coerce.number().default(512),
+  OLLAMA_URL: z.string().url().default('http://localhost:11434'),
+
+  // Workspace Indexing
+  INDEX_WORKER_CONCURRENCY: z.coerce.number().default(4),
+  INDEX_MAX_ATTEMPTS: z.coerce.number().default(3),
+
+  // Pyodide Package Mirror
+  PYODIDE_MIRROR_BUCKET: z.string().min(1).optional(),
+  PYODIDE_VERSION: z.string().default('0.28.0'),
+  PYODIDE_UPSTREAM_URL: z.string().url().default('https://cdn.jsdelivr.net/pyodide'),
+  PYPI_UPSTREAM_URL: z.string().url().default('https://pypi.org'),
+  PYODIDE_MIRROR_OFFLINE: z.enum(['true', 'false']).default('false').transform(value => value === 'true'), // Never fetch from upstream
 });
 
 // Parse and validate environment variables
@@ -229,6 +269,62 @@ export const config = {
     schedule: env.BACKUP_SCHEDULE,
     retentionDays: env.BACKUP_RETENTION_DAYS,
   },
+
+  // Workspace snapshot configuration
+  snapshots: {
+    encryptionKey: env.SNAPSHOT_ENCRYPTION_KEY,
+    defaultCompression: env.SNAPSHOT_DEFAULT_COMPRESSION,
+  },
+
+  // Workspace sync configuration
+  sync: {
+    localRoot: env.SYNC_LOCAL_ROOT,
+    schedulerInterval: env.SYNC_SCHEDULER_INTERVAL,
+    s3AllowedEndpoints: env.SYNC_S3_ALLOWED_ENDPOINTS.split(',').map(url => url.trim()).filter(Boolean),
+    credentialsKey: env.SYNC_CREDENTIALS_KEY,
+  },
+
+  // Storage quota configuration
+  quotas: {
+    workspaceBytes: env.WORKSPACE_STORAGE_QUOTA,
+    organizationBytes: env.ORGANIZATION_STORAGE_QUOTA,
+    softLimitRatio: env.STORAGE_SOFT_LIMIT_RATIO,
+  },
+
+  // Workspace trash configuration
+  trash: {
+    retentionDays: env.TRASH_RETENTION_DAYS,
+    cleanupInterval: env.TRASH_CLEANUP_INTERVAL,
+  },
+
+  // Workspace git configuration
+  git: {
+    localRemotesRoot: env.GIT_LOCAL_REMOTES_ROOT,
+    allowedHosts: env.GIT_ALLOWED_HOSTS.split(',').map(host => host.trim().toLowerCase()).filter(Boolean),
+  },
+
+  // Pyodide package mirror configuration
+  pyodideMirror: {
+    bucketName: env.PYODIDE_MIRROR_BUCKET,
+    pyodideVersion: env.PYODIDE_VERSION,
+    pyodideUpstreamUrl: env.PYODIDE_UPSTREAM_URL,
+    pypiUpstreamUrl: env.PYPI_UPSTREAM_URL,
+    offline: env.PYODIDE_MIRROR_OFFLINE,
+  },
+
+  // Semantic code search configuration
+  semanticSearch: {
+    provider: env.EMBEDDING_PROVIDER,
+    model: env.EMBEDDING_MODEL,
+    dimensions: env.EMBEDDING_DIMENSIONS,
+    ollamaUrl: env.OLLAMA_URL,
+  },
+
+  // Background index queue configuration
+  indexing: {
+    workerConcurrency: env.INDEX_WORKER_CONCURRENCY,
+    maxAttempts: env.INDEX_MAX_ATTEMPTS,
+  },
 } as const;
 
 // Type exports
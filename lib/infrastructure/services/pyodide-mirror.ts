@@ -0,0 +1,427 @@
+/**
+ * Pyodide Package Mirror
+ * Serves the Pyodide distribution and admin-approved pure-Python wheels
+ * from our own storage bucket, so Python workspaces run without reaching
+ * the Pyodide CDN or PyPI.
+ */
+
+import { createHash } from 'crypto';
+import { storageService } from '@/lib/infrastructure/services/storage';
+import { db } from '@/lib/db';
+import { config } from '@/lib/config/environment';
+
+export type WheelSource = 'pypi' | 'upload';
+
+export interface MirroredWheel {
+  filename: string;
+  version: string;
+  sha256: string;
+  size: number;
+  requiresPython: string | null;
+  source: WheelSource;
+  createdAt: Date;
+}
+
+export interface MirroredPackage {
+  /** PEP 503 normalized project name */
+  name: string;
+  /** Versions workspaces may install; empty allows every cached version */
+  versions: string[];
+  note: string | null;
+  approvedBy: string;
+  approvedAt: Date;
+  wheels: MirroredWheel[];
+}
+
+export interface ApprovePackageRequest {
+  name: string;
+  versions?: string[];
+  note?: string;
+  approvedBy: string;
+  /** Cache the approved versions (or the latest) from PyPI right away */
+  fetchFromUpstream?: boolean;
+}
+
+/**
+ * Project page of the PEP 691 simple JSON API, which micropip reads
+ */
+export interface SimpleProjectPage {
+  meta: { 'api-version': '1.0' };
+  name: string;
+  files: {
+    filename: string;
+    url: string;
+    hashes: { sha256: string };
+    'requires-python'?: string;
+  }[];
+}
+
+export interface DistributionFile {
+  content: Buffer;
+  contentType: string;
+}
+
+export class PyodideMirrorError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'PyodideMirrorError';
+  }
+}
+
+/** Media type of PEP 691 responses */
+export const SIMPLE_JSON_CONTENT_TYPE = 'application/vnd.pypi.simple.v1+json';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'application/javascript',
+  '.mjs': 'application/javascript',
+  '.wasm': 'application/wasm',
+  '.json': 'application/json',
+  '.whl': 'application/zip',
+  '.zip': 'application/zip',
+  '.tar': 'application/x-tar',
+  '.py': 'text/x-python',
+};
+
+// Distribution paths are a few plain segments, e.g. pyodide.asm.wasm
+const DISTRIBUTION_PATH = /^[A-Za-z0-9._+-]+(\/[A-Za-z0-9._+-]+)*$/;
+
+export class PyodideMirrorService {
+  private readonly bucketName: string;
+
+  constructor(bucketName?: string) {
+    this.bucketName = bucketName || config.pyodideMirror.bucketName || config.storage.bucketName || 'workspace-files';
+  }
+
+  // =============================================================================
+  // APPROVALS
+  // =============================================================================
+
+  /**
+   * Approved packages with the wheels cached for them
+   */
+  async listPackages(): Promise<MirroredPackage[]> {
+    const [approvals, wheels] = await Promise.all([
+      db.pyodidePackageApproval.findMany({ orderBy: { name: 'asc' } }),
+      db.pyodideWheel.findMany({ orderBy: { createdAt: 'desc' } }),
+    ]);
+
+    return approvals.map((approval: any) => this.toPackage(
+      approval,
+      wheels.filter((wheel: any) => wheel.packageName === approval.name)
+    ));
+  }
+
+  /**
+   * Approve a package for installation from the mirror. Approving again
+   * replaces the allowed versions and note.
+   */
+  async approvePackage(request: ApprovePackageRequest): Promise<MirroredPackage> {
+    const name = PyodideMirrorService.normalizeName(request.name);
+    const versions = Array.from(new Set((request.versions ?? []).map(version => version.trim()).filter(Boolean)));
+
+    if (request.fetchFromUpstream) {
+      // Fetch before recording the approval, so a failed fetch leaves nothing half done
+      for (const version of versions.length > 0 ? versions : [undefined]) {
+        await this.cacheFromUpstream(name, version);
+      }
+    }
+
+    const approval = await db.pyodidePackageApproval.upsert({
+      where: { name },
+      create: { name, versions, note: request.note ?? null, approvedBy: request.approvedBy },
+      update: { versions, note: request.note ?? null, approvedBy: request.approvedBy, approvedAt: new Date() },
+    });
+
+    const wheels = await db.pyodideWheel.findMany({
+      where: { packageName: name },
+      orderBy: { createdAt: 'desc' },
+    });
+    return this.toPackage(approval, wheels);
+  }
+
+  /**
+   * Withdraw an approval. Cached wheels are kept, so approving the package
+   * again needs no download.
+   */
+  async revokePackage(name: string): Promise<void> {
+    const { count } = await db.pyodidePackageApproval.deleteMany({
+      where: { name: PyodideMirrorService.normalizeName(name) },
+    });
+    if (count === 0) {
+      throw new PyodideMirrorError(`Package ${name} is not approved`, 'NOT_FOUND');
+    }
+  }
+
+  // =============================================================================
+  // WHEELS
+  // =============================================================================
+
+  /**
+   * Download a pure-Python wheel from PyPI into the mirror, checking it
+   * against the digest PyPI publishes
+   */
+  async cacheFromUpstream(name: string, version?: string): Promise<MirroredWheel> {
+    this.assertOnline();
+
+    const project = PyodideMirrorService.normalizeName(name);
+    const base = config.pyodideMirror.pypiUpstreamUrl.replace(/\/+$/, '');
+    const response = await fetch(version ? `${base}/pypi/${project}/${encodeURIComponent(version)}/json` : `${base}/pypi/${project}/json`);
+
+    if (response.status === 404) {
+      throw new PyodideMirrorError(`${project}${version ? ` ${version}` : ''} was not found on PyPI`, 'NOT_FOUND');
+    }
+    if (!response.ok) {
+      throw new PyodideMirrorError(`PyPI lookup failed: ${response.status} ${response.statusText}`, 'UPSTREAM_FAILED');
+    }
+
+    const release = await response.json();
+    const file = (release.urls ?? []).find((candidate: any) =>
+      candidate.packagetype === 'bdist_wheel' && !candidate.yanked && PyodideMirrorService.isPureWheel(candidate.filename)
+    );
+    if (!file) {
+      throw new PyodideMirrorError(
+        `${project} ${release.info?.version ?? version} has no pure-Python wheel`,
+        'INVALID_WHEEL'
+      );
+    }
+
+    const download = await fetch(file.url);
+    if (!download.ok) {
+      throw new PyodideMirrorError(`Failed to download ${file.filename}: ${download.statusText}`, 'UPSTREAM_FAILED');
+    }
+
+    const content = Buffer.from(await download.arrayBuffer());
+    if (PyodideMirrorService.hashContent(content) !== file.digests?.sha256) {
+      throw new PyodideMirrorError(`${file.filename} does not match the digest published on PyPI`, 'INVALID_WHEEL');
+    }
+
+    return this.storeWheel(file.filename, content, 'pypi', file.requires_python || null);
+  }
+
+  /**
+   * Add a wheel uploaded by an admin, e.g. in an air-gapped deployment
+   */
+  async uploadWheel(filename: string, content: Buffer): Promise<MirroredWheel> {
+    return this.storeWheel(filename, content, 'upload', null);
+  }
+
+  /**
+   * PEP 691 project page listing the installable wheels of an approved
+   * package, or null so micropip moves on to its next index
+   */
+  async getProjectPage(name: string, wheelBaseUrl: string): Promise<SimpleProjectPage | null> {
+    const project = PyodideMirrorService.normalizeName(name);
+    const approval = await db.pyodidePackageApproval.findUnique({ where: { name: project } });
+    if (!approval) return null;
+
+    const wheels = (await db.pyodideWheel.findMany({ where: { packageName: project } }))
+      .filter((wheel: any) => this.isAllowed(approval, wheel.version));
+    if (wheels.length === 0) return null;
+
+    return {
+      meta: { 'api-version': '1.0' },
+      name: project,
+      files: wheels.map((wheel: any) => ({
+        filename: wheel.filename,
+        url: `${wheelBaseUrl.replace(/\/+$/, '')}/${encodeURIComponent(wheel.filename)}`,
+        hashes: { sha256: wheel.sha256 },
+        ...(wheel.requiresPython ? { 'requires-python': wheel.requiresPython } : {}),
+      })),
+    };
+  }
+
+  /**
+   * Content of a cached wheel, served only while its version is approved
+   */
+  async getWheel(filename: string): Promise<Buffer> {
+    const wheel = await db.pyodideWheel.findUnique({ where: { filename } });
+    const approval = wheel
+      ? await db.pyodidePackageApproval.findUnique({ where: { name: wheel.packageName } })
+      : null;
+
+    if (!wheel || !approval || !this.isAllowed(approval, wheel.version)) {
+      throw new PyodideMirrorError(`Wheel ${filename} is not available`, 'NOT_FOUND');
+    }
+
+    return this.download(wheel.storageKey);
+  }
+
+  // =============================================================================
+  // DISTRIBUTION
+  // =============================================================================
+
+  /**
+   * A file of the Pyodide distribution. Files missing from the bucket are
+   * pulled from the upstream CDN and kept, unless the mirror is offline.
+   */
+  async getDistributionFile(path: string): Promise<DistributionFile> {
+    if (!DISTRIBUTION_PATH.test(path) || path.split('/').some(segment => segment === '..' || segment === '.')) {
+      throw new PyodideMirrorError(`Invalid distribution path: ${path}`, 'INVALID_PATH');
+    }
+
+    const { pyodideVersion, offline } = config.pyodideMirror;
+    const storageKey = `pyodide/dist/${pyodideVersion}/${path}`;
+    const contentType = PyodideMirrorService.contentType(path);
+
+    // The storage service does not tell a missing object from a failed read
+    const cached = await storageService.downloadObject({ bucket: this.bucketName, key: storageKey });
+    if (cached.success) {
+      return { content: Buffer.from(await cached.data!.arrayBuffer()), contentType };
+    }
+
+    if (offline) {
+      throw new PyodideMirrorError(`${path} is not in the mirror`, 'NOT_FOUND');
+    }
+
+    const upstream = `${config.pyodideMirror.pyodideUpstreamUrl.replace(/\/+$/, '')}/v${pyodideVersion}/full/${path}`;
+    const response = await fetch(upstream);
+    if (response.status === 404) {
+      throw new PyodideMirrorError(`${path} is not part of Pyodide ${pyodideVersion}`, 'NOT_FOUND');
+    }
+    if (!response.ok) {
+      throw new PyodideMirrorError(`Failed to fetch ${path}: ${response.status} ${response.statusText}`, 'UPSTREAM_FAILED');
+    }
+
+    const content = Buffer.from(await response.arrayBuffer());
+    const upload = await storageService.uploadObject({
+      file: new File([content], path.split('/').pop()!, { type: contentType }),
+      key: storageKey,
+      bucket: this.bucketName,
+    });
+    if (!upload.success) {
+      // Still serve the file; the next request tries to cache it again
+      console.error(`Failed to cache Pyodide file ${path}:`, upload.error);
+    }
+
+    return { content, contentType };
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  /**
+   * PEP 503 name normalization
+   */
+  static normalizeName(name: string): string {
+    return name.trim().toLowerCase().replace(/[-_.]+/g, '-');
+  }
+
+  static hashContent(content: Buffer): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Split a wheel filename into its project name and version
+   */
+  static parseWheelFilename(filename: string): { name: string; version: string } | null {
+    if (!filename.endsWith('.whl') || filename.includes('/')) return null;
+
+    // {name}-{version}(-{build})?-{python}-{abi}-{platform}.whl
+    const parts = filename.slice(0, -'.whl'.length).split('-');
+    if (parts.length !== 5 && parts.length !== 6) return null;
+
+    return { name: PyodideMirrorService.normalizeName(parts[0]), version: parts[1] };
+  }
+
+  /**
+   * Pyodide can install a wheel from PyPI only if it contains no compiled code
+   */
+  static isPureWheel(filename: string): boolean {
+    return filename.endsWith('-none-any.whl') && PyodideMirrorService.parseWheelFilename(filename) !== null;
+  }
+
+  static contentType(path: string): string {
+    const extension = path.slice(path.lastIndexOf('.'));
+    return CONTENT_TYPES[extension] ?? 'application/octet-stream';
+  }
+
+  private async storeWheel(
+    filename: string,
+    content: Buffer,
+    source: WheelSource,
+    requiresPython: string | null
+  ): Promise<MirroredWheel> {
+    const parsed = PyodideMirrorService.parseWheelFilename(filename);
+    if (!parsed || !PyodideMirrorService.isPureWheel(filename)) {
+      throw new PyodideMirrorError(`${filename} is not a pure-Python wheel`, 'INVALID_WHEEL');
+    }
+
+    const sha256 = PyodideMirrorService.hashContent(content);
+    const storageKey = `pyodide/wheels/${parsed.name}/${filename}`;
+
+    const upload = await storageService.uploadObject({
+      file: new File([content], filename, { type: 'application/zip' }),
+      key: storageKey,
+      bucket: this.bucketName,
+      metadata: { sha256 },
+    });
+    if (!upload.success) {
+      throw new PyodideMirrorError(`Failed to store ${filename}: ${upload.error}`, 'STORAGE_FAILED');
+    }
+
+    const data = {
+      packageName: parsed.name,
+      version: parsed.version,
+      sha256,
+      size: content.length,
+      requiresPython,
+      storageKey,
+      source,
+    };
+    const wheel = await db.pyodideWheel.upsert({
+      where: { filename },
+      create: { filename, ...data },
+      update: data,
+    });
+
+    return this.toWheel(wheel);
+  }
+
+  private async download(storageKey: string): Promise<Buffer> {
+    const result = await storageService.downloadObject({ bucket: this.bucketName, key: storageKey });
+    if (!result.success) {
+      throw new PyodideMirrorError(`Failed to read ${storageKey}: ${result.error}`, 'STORAGE_FAILED');
+    }
+    return Buffer.from(await result.data!.arrayBuffer());
+  }
+
+  private isAllowed(approval: { versions: string[] }, version: string): boolean {
+    return approval.versions.length === 0 || approval.versions.includes(version);
+  }
+
+  private assertOnline(): void {
+    if (config.pyodideMirror.offline) {
+      throw new PyodideMirrorError('The package mirror is offline; upload the wheel instead', 'UPSTREAM_DISABLED');
+    }
+  }
+
+  private toPackage(approval: any, wheels: any[]): MirroredPackage {
+    return {
+      name: approval.name,
+      versions: approval.versions,
+      note: approval.note,
+      approvedBy: approval.approvedBy,
+      approvedAt: approval.approvedAt,
+      wheels: wheels.map(wheel => this.toWheel(wheel)),
+    };
+  }
+
+  private toWheel(wheel: any): MirroredWheel {
+    return {
+      filename: wheel.filename,
+      version: wheel.version,
+      sha256: wheel.sha256,
+      size: Number(wheel.size),
+      requiresPython: wheel.requiresPython,
+      source: wheel.source as WheelSource,
+      createdAt: wheel.createdAt,
+    };
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const pyodideMirror = new PyodideMirrorService();
@@ -3,12 +3,15 @@
  * Production-ready service for MinIO object storage management
  */
 
+import { Readable } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
 import { BaseInfrastructureService } from './base';
 import { config } from '@/lib/config/environment';
 import {
   StorageBucket,
   StorageObject,
   StorageUploadRequest,
+  StorageStreamUploadRequest,
   StorageDownloadRequest,
   StorageUsage,
   ApiResponse,
@@ -207,6 +210,58 @@ export class StorageService extends BaseInfrastructureService {
     }
   }
 
+  /**
+   * Upload a stream as the request body without buffering it; the size is
+   * counted as the bytes go out
+   */
+  async uploadStream(request: StorageStreamUploadRequest): Promise<ApiResponse<StorageObject>> {
+    try {
+      this.validateParams(request as unknown as Record<string, unknown>, ['stream', 'key', 'bucket']);
+
+      let size = 0;
+      const counted = Readable.from((async function* () {
+        for await (const chunk of request.stream) {
+          size += chunk.length;
+          yield chunk;
+        }
+      })());
+
+      const headers: Record<string, string> = {
+        ...this.getAuthHeaders(),
+        'Content-Type': request.contentType || 'application/octet-stream',
+      };
+      Object.entries(request.metadata || {}).forEach(([key, value]) => {
+        headers[`x-amz-meta-${key}`] = value;
+      });
+
+      // Streaming request bodies need half duplex in Node's fetch
+      const response = await fetch(`${this.baseUrl}/${request.bucket}/${request.key}`, {
+        method: 'PUT',
+        headers,
+        body: Readable.toWeb(counted) as ReadableStream,
+        duplex: 'half',
+      } as RequestInit & { duplex: 'half' });
+
+      if (!response.ok) {
+        throw new Error(`Upload failed: ${response.statusText}`);
+      }
+
+      const object: StorageObject = {
+        key: request.key,
+        size,
+        lastModified: new Date(),
+        etag: response.headers.get('etag') || '',
+        contentType: headers['Content-Type'],
+        metadata: request.metadata,
+      };
+
+      this.log('info', `Uploaded object stream: ${request.bucket}/${request.key}`);
+      return this.formatSuccess(object);
+    } catch (error) {
+      return this.formatError(error) as ApiResponse<StorageObject>;
+    }
+  }
+
   async downloadObject(request: StorageDownloadRequest): Promise<ApiResponse<Blob>> {
     try {
       this.validateParams(request as unknown as Record<string, unknown>, ['key', 'bucket']);
@@ -228,6 +283,29 @@ export class StorageService extends BaseInfrastructureService {
     }
   }
 
+  /**
+   * Download an object as a stream, for objects too large to hold in memory
+   */
+  async downloadStream(request: StorageDownloadRequest): Promise<ApiResponse<Readable>> {
+    try {
+      this.validateParams(request as unknown as Record<string, unknown>, ['key', 'bucket']);
+
+      const response = await fetch(`${this.baseUrl}/${request.bucket}/${request.key}`, {
+        method: 'GET',
+        headers: this.getAuthHeaders(),
+      });
+
+      if (!response.ok || !response.body) {
+        throw new Error(`Download failed: ${response.statusText}`);
+      }
+
+      this.log('info', `Downloading object stream: ${request.bucket}/${request.key}`);
+      return this.formatSuccess(Readable.fromWeb(response.body as NodeReadableStream));
+    } catch (error) {
+      return this.formatError(error) as ApiResponse<Readable>;
+    }
+  }
+
   async deleteObject(bucket: string, key: string): Promise<ApiResponse<void>> {
     try {
       this.validateParams({ bucket, key } as Record<string, unknown>, ['bucket', 'key']);
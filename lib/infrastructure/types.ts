@@ -3,6 +3,8 @@
  * Type definitions for VibeKraft infrastructure components
  */
 
+import type { Readable } from 'stream';
+
 // =============================================================================
 // COMMON TYPES
 // =============================================================================
@@ -69,6 +71,14 @@ export interface StorageUploadRequest {
   permissions?: string[]; // For Appwrite compatibility
 }
 
+export interface StorageStreamUploadRequest {
+  stream: Readable;
+  key: string;
+  bucket: string;
+  contentType?: string;
+  metadata?: Record<string, string>;
+}
+
 export interface StorageDownloadRequest {
   key: string;
   bucket: string;
@@ -0,0 +1,15 @@
+import Redis from 'ioredis';
+import { config } from '@/lib/config/environment';
+
+const globalForRedis = globalThis as unknown as {
+  redis: Redis | undefined;
+};
+
+export const redis =
+  globalForRedis.redis ??
+  new Redis(config.redis.url, {
+    lazyConnect: true,
+    maxRetriesPerRequest: 3,
+  });
+
+if (process.env.NODE_ENV !== 'production') globalForRedis.redis = redis;
@@ -0,0 +1,321 @@
+/**
+ * Workspace Blob Store
+ * Content-addressed, reference-counted storage for file contents.
+ * Identical content is uploaded once and shared by every file and
+ * revision that references it.
+ */
+
+import { createHash } from 'crypto';
+import { storageService } from '@/lib/infrastructure/services/storage';
+import { db } from '@/lib/db';
+import { config } from '@/lib/config/environment';
+
+export interface BlobReference {
+  hash: string;
+  size: number;
+  storageKey: string;
+}
+
+export interface BlobStoreStats {
+  blobCount: number;
+  totalSize: number;
+  totalReferences: number;
+  unreferencedCount: number;
+  unreferencedSize: number;
+}
+
+export interface GarbageCollectionResult {
+  deletedCount: number;
+  freedBytes: number;
+  failed: string[];
+}
+
+// Reference count of a blob claimed by collectGarbage()
+const COLLECTING = -1;
+
+const ACQUIRE_ATTEMPTS = 5;
+const ACQUIRE_RETRY_DELAY_MS = 200;
+
+export class WorkspaceBlobStore {
+  private readonly bucketName: string;
+
+  constructor(bucketName?: string) {
+    this.bucketName = bucketName || config.storage.bucketName || 'workspace-files';
+  }
+
+  // =============================================================================
+  // REFERENCE COUNTING
+  // =============================================================================
+
+  /**
+   * Store content (if not already stored) and take a reference on it.
+   * The reference is taken before anything else so a concurrent
+   * collectGarbage() can never remove content that is being acquired.
+   */
+  async acquire(content: Buffer | string): Promise<BlobReference> {
+    const hash = WorkspaceBlobStore.hashContent(content);
+    const size = Buffer.isBuffer(content) ? content.length : Buffer.byteLength(content);
+    const storageKey = this.getStorageKey(hash);
+
+    for (let attempt = 0; attempt < ACQUIRE_ATTEMPTS; attempt++) {
+      // Blobs being collected carry a negative count and are not revived
+      const { count } = await db.contentBlob.updateMany({
+        where: {
+          hash,
+          refCount: { gte: 0 },
+        },
+        data: {
+          refCount: { increment: 1 },
+          lastReferencedAt: new Date(),
+        },
+      });
+
+      if (count > 0) {
+        return { hash, size, storageKey };
+      }
+
+      // Upload before creating the row: once the row exists other writers
+      // skip the upload and rely on the object being there
+      const uploadResult = await storageService.uploadObject({
+        file: new File([content], hash),
+        key: storageKey,
+        bucket: this.bucketName,
+        metadata: {
+          hash,
+          size: size.toString(),
+        },
+      });
+
+      if (!uploadResult.success) {
+        throw new Error(`Failed to store blob: ${uploadResult.error}`);
+      }
+
+      try {
+        await db.contentBlob.create({
+          data: {
+            hash,
+            size,
+            storageKey,
+            refCount: 1,
+          },
+        });
+        return { hash, size, storageKey };
+      } catch (error: any) {
+        // Another writer created the row first, or a collection still holds
+        // it. Either way the next attempt decides, uploading again if the
+        // collection removed the object.
+        if (error?.code !== 'P2002') throw error;
+      }
+
+      await new Promise(resolve => setTimeout(resolve, ACQUIRE_RETRY_DELAY_MS * (attempt + 1)));
+    }
+
+    throw new Error(`Failed to store blob ${hash}: it is being garbage collected`);
+  }
+
+  /**
+   * Take an additional reference on content that is already stored
+   */
+  async retain(hash: string): Promise<void> {
+    const { count } = await db.contentBlob.updateMany({
+      where: {
+        hash,
+        refCount: { gte: 0 },
+      },
+      data: {
+        refCount: { increment: 1 },
+        lastReferencedAt: new Date(),
+      },
+    });
+
+    if (count === 0) {
+      throw new Error(`Blob not found: ${hash}`);
+    }
+  }
+
+  /**
+   * Drop a reference. Unreferenced blobs are removed by collectGarbage().
+   */
+  async release(hash: string): Promise<void> {
+    if (!hash) return;
+
+    await db.contentBlob.updateMany({
+      where: {
+        hash,
+        refCount: { gt: 0 },
+      },
+      data: {
+        refCount: { decrement: 1 },
+        lastReferencedAt: new Date(),
+      },
+    });
+  }
+
+  // =============================================================================
+  // CONTENT ACCESS
+  // =============================================================================
+
+  /**
+   * Check whether a blob is stored
+   */
+  async has(hash: string): Promise<boolean> {
+    const blob = await db.contentBlob.findUnique({
+      where: { hash },
+      select: { refCount: true },
+    });
+    return !!blob && blob.refCount !== COLLECTING;
+  }
+
+  /**
+   * Read blob content by hash
+   */
+  async get(hash: string): Promise<Buffer> {
+    const downloadResult = await storageService.downloadObject({
+      bucket: this.bucketName,
+      key: this.getStorageKey(hash),
+    });
+
+    if (!downloadResult.success) {
+      throw new Error(`Failed to retrieve blob ${hash}: ${downloadResult.error}`);
+    }
+
+    return Buffer.from(await downloadResult.data!.arrayBuffer());
+  }
+
+  // =============================================================================
+  // GARBAGE COLLECTION
+  // =============================================================================
+
+  /**
+   * Delete blobs that lost their last reference. The grace period (measured
+   * from the last acquire or release) protects blobs that a concurrent
+   * writer is about to re-acquire.
+   *
+   * Each blob is first claimed by setting its count to COLLECTING in a
+   * conditional write, which fails if a writer took a reference in the
+   * meantime. The object is deleted while the claim blocks acquire(), and
+   * the row goes last, so a failed deletion is retried by the next run.
+   */
+  async collectGarbage(gracePeriodMs: number = 60 * 60 * 1000): Promise<GarbageCollectionResult> {
+    const cutoff = new Date(Date.now() - gracePeriodMs);
+
+    const candidates = await db.contentBlob.findMany({
+      where: {
+        refCount: { lte: 0 },
+        lastReferencedAt: { lt: cutoff },
+      },
+    });
+
+    const result: GarbageCollectionResult = {
+      deletedCount: 0,
+      freedBytes: 0,
+      failed: [],
+    };
+
+    for (const blob of candidates) {
+      const { count } = await db.contentBlob.updateMany({
+        where: {
+          hash: blob.hash,
+          refCount: { lte: 0 },
+        },
+        data: { refCount: COLLECTING },
+      });
+
+      if (count === 0) continue;
+
+      const deleteResult = await storageService.deleteObject(this.bucketName, blob.storageKey);
+      if (!deleteResult.success) {
+        console.error(`Failed to delete blob ${blob.hash}:`, deleteResult.error);
+        result.failed.push(blob.hash);
+        continue;
+      }
+
+      await db.contentBlob.deleteMany({
+        where: {
+          hash: blob.hash,
+          refCount: COLLECTING,
+        },
+      });
+
+      result.deletedCount++;
+      result.freedBytes += Number(blob.size);
+    }
+
+    return result;
+  }
+
+  /**
+   * Delete the object a file was stored under before content addressing.
+   * Missing objects are ignored.
+   */
+  async deleteLegacyObject(workspaceId: string, path: string): Promise<void> {
+    const storageKey = WorkspaceBlobStore.getLegacyStorageKey(workspaceId, path);
+    const deleteResult = await storageService.deleteObject(this.bucketName, storageKey);
+    if (!deleteResult.success) {
+      console.error(`Failed to delete legacy object ${storageKey}:`, deleteResult.error);
+    }
+  }
+
+  /**
+   * Summarize blob store usage
+   */
+  async getStats(): Promise<BlobStoreStats> {
+    const [all, unreferenced] = await Promise.all([
+      db.contentBlob.aggregate({
+        _count: { hash: true },
+        _sum: { size: true, refCount: true },
+      }),
+      db.contentBlob.aggregate({
+        where: { refCount: { lte: 0 } },
+        _count: { hash: true },
+        _sum: { size: true },
+      }),
+    ]);
+
+    return {
+      blobCount: all._count.hash,
+      totalSize: Number(all._sum.size || 0),
+      totalReferences: all._sum.refCount || 0,
+      unreferencedCount: unreferenced._count.hash,
+      unreferencedSize: Number(unreferenced._sum.size || 0),
+    };
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  static hashContent(content: Buffer | string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+
+  /**
+   * Path-based key files were stored under before content addressing
+   */
+  static getLegacyStorageKey(workspaceId: string, path: string): string {
+    return `workspaces/${workspaceId}/files${path.startsWith('/') ? '' : '/'}${path}`;
+  }
+
+  /**
+   * Whether a file record holds a reference on the blob its hash names.
+   * The file storage service records a revision for every version it
+   * writes; writers that bypass it only set the hash.
+   */
+  static holdsReference(
+    record: { version: number; hash: string },
+    revisions: Array<{ version: number; hash: string }>
+  ): boolean {
+    return Boolean(record.hash) &&
+      revisions.some(revision => revision.version === record.version && revision.hash === record.hash);
+  }
+
+  private getStorageKey(hash: string): string {
+    return `blobs/${hash.slice(0, 2)}/${hash}`;
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const blobStore = new WorkspaceBlobStore();
@@ -0,0 +1,141 @@
+/**
+ * Code Chunker
+ * Splits files into chunks for embedding. TS/JS files are chunked by the
+ * top-level declarations from the symbol index, Python files by top-level
+ * def/class blocks, and everything else by overlapping line windows.
+ */
+
+import { CodeChunk, CodeSymbol } from '../types';
+
+const MAX_CHUNK_LINES = 60;
+const WINDOW_OVERLAP = 10;
+const MERGE_CHUNK_LINES = 20; // Adjacent small declarations are embedded together
+const MAX_CHUNKS_PER_FILE = 200;
+
+// Lines directly above a declaration that belong to it: comments and decorators
+const SCRIPT_PREAMBLE = /^\s*(\/\/|\/\*|\*|@)/;
+const PYTHON_PREAMBLE = /^\s*(#|@)/;
+
+interface LineRange {
+  start: number; // 1-based, inclusive
+  end: number;
+  symbolName?: string;
+}
+
+/**
+ * Chunk a file; symbols are used for TS/JS when available
+ */
+export function chunkFile(path: string, content: string, language: string, symbols: CodeSymbol[] = []): CodeChunk[] {
+  const lines = content.split('\n');
+
+  let ranges: LineRange[];
+  if ((language === 'typescript' || language === 'javascript') && symbols.length > 0) {
+    ranges = getDeclarationRanges(symbols, lines);
+  } else if (language === 'python') {
+    ranges = getPythonRanges(lines);
+  } else {
+    ranges = [{ start: 1, end: lines.length }];
+  }
+
+  return mergeSmallRanges(ranges.flatMap(splitLongRange))
+    .map(range => ({ ...range, text: lines.slice(range.start - 1, range.end).join('\n') }))
+    .filter(range => range.text.trim().length > 0)
+    .slice(0, MAX_CHUNKS_PER_FILE)
+    .map((range, chunkIndex) => ({
+      path,
+      chunkIndex,
+      startLine: range.start,
+      endLine: range.end,
+      symbolName: range.symbolName,
+      language,
+      content: range.text,
+    }));
+}
+
+/**
+ * Text sent to the embedding provider; the path and symbol name carry
+ * meaning the body alone may not
+ */
+export function getEmbeddingText(chunk: CodeChunk): string {
+  return `${chunk.path}${chunk.symbolName ? ` ${chunk.symbolName}` : ''}\n${chunk.content}`;
+}
+
+function getDeclarationRanges(symbols: CodeSymbol[], lines: string[]): LineRange[] {
+  const declarations = symbols
+    .filter(symbol =>
+      (symbol.kind === 'declaration' || symbol.kind === 'definition') &&
+      !symbol.containerName &&
+      symbol.location.endLine
+    )
+    .sort((a, b) => a.location.line - b.location.line);
+
+  const ranges: LineRange[] = [];
+  let cursor = 1;
+  for (const symbol of declarations) {
+    // Nested declarations (locals of a top-level block) are already covered
+    if (symbol.location.line < cursor) continue;
+
+    const start = includePreamble(symbol.location.line, lines, cursor, SCRIPT_PREAMBLE);
+    if (start > cursor) {
+      ranges.push({ start: cursor, end: start - 1 });
+    }
+    ranges.push({ start, end: symbol.location.endLine!, symbolName: symbol.name });
+    cursor = symbol.location.endLine! + 1;
+  }
+  if (cursor <= lines.length) {
+    ranges.push({ start: cursor, end: lines.length });
+  }
+  return ranges;
+}
+
+function includePreamble(line: number, lines: string[], floor: number, preamble: RegExp): number {
+  let start = line;
+  while (start - 1 >= floor && preamble.test(lines[start - 2])) {
+    start--;
+  }
+  return start;
+}
+
+function getPythonRanges(lines: string[]): LineRange[] {
+  const ranges: LineRange[] = [];
+  let current: LineRange = { start: 1, end: lines.length };
+
+  lines.forEach((line, index) => {
+    const match = line.match(/^(?:async\s+)?(?:def|class)\s+(\w+)/);
+    if (!match) return;
+
+    const start = includePreamble(index + 1, lines, current.start, PYTHON_PREAMBLE);
+    if (start > current.start) {
+      ranges.push({ ...current, end: start - 1 });
+    }
+    current = { start, end: lines.length, symbolName: match[1] };
+  });
+
+  ranges.push(current);
+  return ranges;
+}
+
+function splitLongRange(range: LineRange): LineRange[] {
+  if (range.end - range.start + 1 <= MAX_CHUNK_LINES) return [range];
+
+  const windows: LineRange[] = [];
+  for (let start = range.start; start <= range.end; start += MAX_CHUNK_LINES - WINDOW_OVERLAP) {
+    windows.push({ ...range, start, end: Math.min(range.end, start + MAX_CHUNK_LINES - 1) });
+    if (start + MAX_CHUNK_LINES - 1 >= range.end) break;
+  }
+  return windows;
+}
+
+function mergeSmallRanges(ranges: LineRange[]): LineRange[] {
+  const merged: LineRange[] = [];
+  for (const range of ranges) {
+    const previous = merged[merged.length - 1];
+    if (previous && range.end - previous.start + 1 <= MERGE_CHUNK_LINES && previous.end + 1 >= range.start) {
+      previous.end = range.end;
+      previous.symbolName = [previous.symbolName, range.symbolName].filter(Boolean).join(', ') || undefined;
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
@@ -0,0 +1,279 @@
+/**
+ * Workspace Code Health Service
+ * Summarizes the complexity metrics recorded by the file indexer into a
+ * report of hotspots and hard-to-maintain files, compares the workspace with
+ * its latest snapshot to surface changes that add a lot of complexity, and
+ * follows the totals across snapshots.
+ */
+
+import {
+  CodeComplexity,
+  CodeHealthReport,
+  CodeHealthSummary,
+  CodeHealthTrendPoint,
+  CodeHotspot,
+  ComplexityChange,
+  FileHealth,
+  MaintainabilityRating,
+  SnapshotCodeHealth,
+} from '../types';
+import { computeCodeMetrics } from './code-metrics';
+import { db } from '@/lib/db';
+
+const MEASURED_LANGUAGES = ['typescript', 'javascript', 'python'];
+
+// A function is a hotspot above either limit
+const HOTSPOT_CYCLOMATIC = 10;
+const HOTSPOT_COGNITIVE = 15;
+
+// Maintainability index bands, as used by Visual Studio and radon
+const GOOD_MAINTAINABILITY = 20;
+const MODERATE_MAINTAINABILITY = 10;
+
+// Cognitive complexity a single file may gain before the change is flagged
+const FLAGGED_COGNITIVE_INCREASE = 15;
+
+export interface MeasuredFile {
+  path: string;
+  language: string;
+  complexity: CodeComplexity;
+}
+
+export interface CodeHealthReportOptions {
+  hotspotLimit?: number;
+  fileLimit?: number;
+}
+
+export class WorkspaceCodeHealth {
+  private readonly workspaceId: string;
+
+  constructor(workspaceId: string) {
+    this.workspaceId = workspaceId;
+  }
+
+  // =============================================================================
+  // REPORT OPERATIONS
+  // =============================================================================
+
+  /**
+   * Hotspots, least maintainable files and changes since the latest snapshot
+   */
+  async getReport(options: CodeHealthReportOptions = {}): Promise<CodeHealthReport> {
+    const files = await this.getMeasuredFiles();
+    const health = summarizeCodeHealth(files);
+
+    const hotspots: CodeHotspot[] = files
+      .flatMap(file => (file.complexity.functions || []).map(fn => ({ ...fn, path: file.path, language: file.language })))
+      .filter(isHotspot)
+      .sort((a, b) => b.cognitive - a.cognitive || b.cyclomatic - a.cyclomatic)
+      .slice(0, options.hotspotLimit || 50);
+
+    const baseline = await this.getLatestSnapshotHealth();
+
+    return {
+      workspaceId: this.workspaceId,
+      summary: health.summary,
+      hotspots,
+      files: [...health.files]
+        .sort((a, b) => a.maintainabilityIndex - b.maintainabilityIndex)
+        .slice(0, options.fileLimit || 50),
+      changes: baseline ? compareCodeHealth(baseline.health.files, health.files) : [],
+      baseline: baseline ? {
+        snapshotId: baseline.id,
+        name: baseline.name,
+        createdAt: baseline.createdAt,
+      } : undefined,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Summary of each snapshot measured at creation, oldest first, followed by
+   * the current workspace
+   */
+  async getTrend(limit: number = 20): Promise<CodeHealthTrendPoint[]> {
+    const snapshots = await db.workspaceSnapshot.findMany({
+      where: { workspaceId: this.workspaceId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        metadata: true,
+      },
+    });
+
+    const points: CodeHealthTrendPoint[] = snapshots
+      .filter((snapshot: any) => snapshot.metadata?.customData?.codeHealth)
+      .slice(0, limit)
+      .reverse()
+      .map((snapshot: any) => ({
+        snapshotId: snapshot.id,
+        name: snapshot.name,
+        createdAt: snapshot.createdAt,
+        summary: snapshot.metadata.customData.codeHealth.summary,
+      }));
+
+    const current = summarizeCodeHealth(await this.getMeasuredFiles());
+    points.push({
+      name: 'Current',
+      createdAt: new Date(),
+      summary: current.summary,
+    });
+
+    return points;
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  private async getMeasuredFiles(): Promise<MeasuredFile[]> {
+    const indexes = await db.fileIndex.findMany({
+      where: {
+        workspaceId: this.workspaceId,
+        language: { in: MEASURED_LANGUAGES },
+      },
+      select: {
+        path: true,
+        language: true,
+        complexity: true,
+      },
+    });
+
+    return indexes.filter((index: any) => index.complexity?.halstead);
+  }
+
+  private async getLatestSnapshotHealth(): Promise<{ id: string; name: string; createdAt: Date; health: SnapshotCodeHealth } | null> {
+    const snapshots = await db.workspaceSnapshot.findMany({
+      where: { workspaceId: this.workspaceId },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+      select: {
+        id: true,
+        name: true,
+        createdAt: true,
+        metadata: true,
+      },
+    });
+
+    const snapshot = snapshots.find((candidate: any) => candidate.metadata?.customData?.codeHealth);
+    return snapshot
+      ? { id: snapshot.id, name: snapshot.name, createdAt: snapshot.createdAt, health: snapshot.metadata.customData.codeHealth }
+      : null;
+  }
+}
+
+// =============================================================================
+// SUMMARY HELPERS
+// =============================================================================
+
+/**
+ * Measure file contents directly, e.g. the files going into a snapshot
+ */
+export function measureFiles(files: Array<{ path: string; language?: string; content: string }>): MeasuredFile[] {
+  const measured: MeasuredFile[] = [];
+
+  for (const file of files) {
+    if (!file.language || !MEASURED_LANGUAGES.includes(file.language)) continue;
+
+    try {
+      const complexity = computeCodeMetrics(file.path, file.content, file.language);
+      if (complexity) {
+        measured.push({ path: file.path, language: file.language, complexity });
+      }
+    } catch (error) {
+      console.error(`Failed to measure ${file.path}:`, error);
+    }
+  }
+
+  return measured;
+}
+
+export function summarizeCodeHealth(files: MeasuredFile[]): SnapshotCodeHealth {
+  const fileHealth: FileHealth[] = files.map(file => {
+    const functions = file.complexity.functions || [];
+    return {
+      path: file.path,
+      language: file.language,
+      linesOfCode: file.complexity.linesOfCode || 0,
+      cyclomatic: file.complexity.cyclomatic,
+      cognitive: file.complexity.cognitive,
+      maintainabilityIndex: file.complexity.maintainabilityIndex,
+      rating: getMaintainabilityRating(file.complexity.maintainabilityIndex),
+      functions: functions.length,
+      hotspots: functions.filter(isHotspot).map(fn => fn.name),
+    };
+  });
+
+  const linesOfCode = fileHealth.reduce((total, file) => total + file.linesOfCode, 0);
+  const summary: CodeHealthSummary = {
+    files: fileHealth.length,
+    functions: fileHealth.reduce((total, file) => total + file.functions, 0),
+    linesOfCode,
+    cyclomatic: fileHealth.reduce((total, file) => total + file.cyclomatic, 0),
+    cognitive: fileHealth.reduce((total, file) => total + file.cognitive, 0),
+    averageMaintainability: linesOfCode > 0
+      ? Math.round(fileHealth.reduce((total, file) => total + file.maintainabilityIndex * file.linesOfCode, 0) / linesOfCode * 100) / 100
+      : 100,
+    complexFunctions: fileHealth.reduce((total, file) => total + file.hotspots.length, 0),
+    ratings: {
+      good: fileHealth.filter(file => file.rating === 'good').length,
+      moderate: fileHealth.filter(file => file.rating === 'moderate').length,
+      poor: fileHealth.filter(file => file.rating === 'poor').length,
+    },
+  };
+
+  return { summary, files: fileHealth, computedAt: new Date() };
+}
+
+/**
+ * Per-file complexity differences between two measurements
+ */
+export function compareCodeHealth(before: FileHealth[], after: FileHealth[]): ComplexityChange[] {
+  const beforeByPath = new Map(before.map(file => [file.path, file]));
+  const afterPaths = new Set(after.map(file => file.path));
+  const changes: ComplexityChange[] = [];
+
+  for (const file of after) {
+    const previous = beforeByPath.get(file.path);
+    const change: ComplexityChange = {
+      path: file.path,
+      status: previous ? 'modified' : 'added',
+      cyclomaticDelta: file.cyclomatic - (previous?.cyclomatic || 0),
+      cognitiveDelta: file.cognitive - (previous?.cognitive || 0),
+      linesOfCodeDelta: file.linesOfCode - (previous?.linesOfCode || 0),
+      newHotspots: file.hotspots.filter(name => !previous?.hotspots.includes(name)),
+      flagged: false,
+    };
+    change.flagged = change.cognitiveDelta >= FLAGGED_COGNITIVE_INCREASE || change.newHotspots.length > 0;
+
+    if (change.cyclomaticDelta || change.cognitiveDelta || change.linesOfCodeDelta || change.newHotspots.length) {
+      changes.push(change);
+    }
+  }
+
+  for (const file of before) {
+    if (afterPaths.has(file.path)) continue;
+    changes.push({
+      path: file.path,
+      status: 'removed',
+      cyclomaticDelta: -file.cyclomatic,
+      cognitiveDelta: -file.cognitive,
+      linesOfCodeDelta: -file.linesOfCode,
+      newHotspots: [],
+      flagged: false,
+    });
+  }
+
+  return changes.sort((a, b) => b.cognitiveDelta - a.cognitiveDelta);
+}
+
+function isHotspot(fn: { cyclomatic: number; cognitive: number }): boolean {
+  return fn.cyclomatic > HOTSPOT_CYCLOMATIC || fn.cognitive > HOTSPOT_COGNITIVE;
+}
+
+function getMaintainabilityRating(index: number): MaintainabilityRating {
+  if (index >= GOOD_MAINTAINABILITY) return 'good';
+  return index >= MODERATE_MAINTAINABILITY ? 'moderate' : 'poor';
+}
@@ -0,0 +1,553 @@
+/**
+ * Code Metrics
+ * Cyclomatic and cognitive complexity, Halstead measures and the
+ * maintainability index per function and per file. TS/JS is measured on the
+ * TypeScript AST and Python on a Lezer parse tree.
+ */
+
+import * as ts from 'typescript';
+import { parser as pythonParser } from '@lezer/python';
+import { CodeComplexity, FunctionComplexity, HalsteadMetrics } from '../types';
+
+type PythonNode = ReturnType<typeof pythonParser.parse>['topNode'];
+
+/**
+ * Counts collected for one function, or for the file as a whole
+ */
+interface Measure {
+  name: string;
+  line: number;
+  endLine: number;
+  parameters: number;
+  decisions: number;
+  cognitive: number;
+  maxNesting: number;
+  operators: Map<string, number>;
+  operands: Map<string, number>;
+  lines: Set<number>;
+}
+
+/**
+ * Metrics for a TS/JS or Python file; null for other languages
+ */
+export function computeCodeMetrics(path: string, content: string, language?: string): CodeComplexity | null {
+  switch (language) {
+    case 'typescript':
+    case 'javascript':
+      return new ScriptMetrics(path, content).compute();
+    case 'python':
+      return new PythonMetrics(content).compute();
+    default:
+      return null;
+  }
+}
+
+/**
+ * Maintainability index on the 0-100 scale used by Visual Studio
+ */
+export function maintainabilityIndex(volume: number, cyclomatic: number, linesOfCode: number): number {
+  const raw = 171 - 5.2 * Math.log(Math.max(volume, 1)) - 0.23 * cyclomatic - 16.2 * Math.log(Math.max(linesOfCode, 1));
+  return round(Math.max(0, (raw * 100) / 171));
+}
+
+// =============================================================================
+// TYPESCRIPT / JAVASCRIPT
+// =============================================================================
+
+// Tokens that name a value rather than act on one
+const SCRIPT_OPERAND_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.Identifier,
+  ts.SyntaxKind.PrivateIdentifier,
+  ts.SyntaxKind.NumericLiteral,
+  ts.SyntaxKind.BigIntLiteral,
+  ts.SyntaxKind.StringLiteral,
+  ts.SyntaxKind.RegularExpressionLiteral,
+  ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+  ts.SyntaxKind.TemplateHead,
+  ts.SyntaxKind.TemplateMiddle,
+  ts.SyntaxKind.TemplateTail,
+  ts.SyntaxKind.JsxText,
+  ts.SyntaxKind.TrueKeyword,
+  ts.SyntaxKind.FalseKeyword,
+  ts.SyntaxKind.NullKeyword,
+  ts.SyntaxKind.ThisKeyword,
+  ts.SyntaxKind.SuperKeyword,
+]);
+
+// Closing halves of paired tokens are counted with their opening half
+const SCRIPT_IGNORED_KINDS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.CloseParenToken,
+  ts.SyntaxKind.CloseBracketToken,
+  ts.SyntaxKind.CloseBraceToken,
+  ts.SyntaxKind.SemicolonToken,
+  ts.SyntaxKind.EndOfFileToken,
+]);
+
+const SCRIPT_LOGICAL_OPERATORS = new Set<ts.SyntaxKind>([
+  ts.SyntaxKind.AmpersandAmpersandToken,
+  ts.SyntaxKind.BarBarToken,
+  ts.SyntaxKind.QuestionQuestionToken,
+  ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+  ts.SyntaxKind.BarBarEqualsToken,
+  ts.SyntaxKind.QuestionQuestionEqualsToken,
+]);
+
+class ScriptMetrics {
+  private readonly sourceFile: ts.SourceFile;
+  private readonly file: Measure;
+  private readonly functions: Measure[] = [];
+
+  constructor(path: string, content: string) {
+    this.sourceFile = ts.createSourceFile(path, content, ts.ScriptTarget.Latest, true, getScriptKind(path));
+    this.file = createMeasure('<file>', 1, this.sourceFile.getLineAndCharacterOfPosition(content.length).line + 1, 0);
+  }
+
+  compute(): CodeComplexity {
+    this.visit(this.sourceFile, 0, [this.file], []);
+    return buildComplexity(this.file, this.functions);
+  }
+
+  /**
+   * Walks every node and token. `measures` holds the file and the innermost
+   * function measure; `scope` the names of enclosing classes and functions.
+   */
+  private visit(node: ts.Node, nesting: number, measures: Measure[], scope: string[]): void {
+    if (node.kind >= ts.SyntaxKind.FirstJSDocNode && node.kind <= ts.SyntaxKind.LastJSDocNode) {
+      return;
+    }
+
+    if (node.kind <= ts.SyntaxKind.LastToken) {
+      this.recordToken(node, measures);
+      return;
+    }
+
+    const current = measures[measures.length - 1];
+
+    if (ts.isFunctionLike(node) && 'body' in node && node.body) {
+      const name = this.getFunctionName(node, measures.length > 1);
+      if (name) {
+        // A separately measured function: its nesting starts over
+        const { line, endLine } = this.getLines(node);
+        const measure = createMeasure([...scope, name].join('.'), line, endLine, node.parameters.length);
+        this.functions.push(measure);
+        const inner = [this.file, measure];
+        node.getChildren(this.sourceFile).forEach(child => this.visit(child, 0, inner, [...scope, name]));
+        return;
+      }
+
+      // Inline callbacks count toward the enclosing function, one level deeper
+      node.getChildren(this.sourceFile).forEach(child =>
+        this.visit(child, child === node.body ? nesting + 1 : nesting, measures, scope)
+      );
+      return;
+    }
+
+    if (ts.isClassLike(node)) {
+      const className = node.name?.text || 'default';
+      node.getChildren(this.sourceFile).forEach(child => this.visit(child, nesting, measures, [...scope, className]));
+      return;
+    }
+
+    // Structures that add a decision and/or nest their bodies
+    let nested: ts.Node[] = [];
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement: {
+        const ifStatement = node as ts.IfStatement;
+        // An else-if continues the chain at the nesting level of its `if`
+        const isElseIf = ts.isIfStatement(node.parent) && node.parent.elseStatement === node;
+        addDecision(measures);
+        addCognitive(current, isElseIf ? 1 : 1 + nesting, nesting);
+        nested = [ifStatement.thenStatement];
+        if (ifStatement.elseStatement && !ts.isIfStatement(ifStatement.elseStatement)) {
+          addCognitive(current, 1);
+          nested.push(ifStatement.elseStatement);
+        }
+        break;
+      }
+      case ts.SyntaxKind.ConditionalExpression:
+        addDecision(measures);
+        addCognitive(current, 1 + nesting, nesting);
+        nested = [(node as ts.ConditionalExpression).whenTrue, (node as ts.ConditionalExpression).whenFalse];
+        break;
+      case ts.SyntaxKind.SwitchStatement:
+        addCognitive(current, 1 + nesting, nesting);
+        nested = [(node as ts.SwitchStatement).caseBlock];
+        break;
+      case ts.SyntaxKind.CaseClause:
+        addDecision(measures);
+        break;
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+        addDecision(measures);
+        addCognitive(current, 1 + nesting, nesting);
+        nested = [(node as ts.IterationStatement).statement];
+        break;
+      case ts.SyntaxKind.CatchClause:
+        addDecision(measures);
+        addCognitive(current, 1 + nesting, nesting);
+        nested = [(node as ts.CatchClause).block];
+        break;
+      case ts.SyntaxKind.BinaryExpression: {
+        const operator = (node as ts.BinaryExpression).operatorToken.kind;
+        if (SCRIPT_LOGICAL_OPERATORS.has(operator)) {
+          addDecision(measures);
+          // Each run of the same operator counts once: a && b && c is +1, a && b || c is +2
+          const parent = node.parent;
+          if (!ts.isBinaryExpression(parent) || parent.operatorToken.kind !== operator) {
+            addCognitive(current, 1);
+          }
+        }
+        break;
+      }
+      case ts.SyntaxKind.BreakStatement:
+      case ts.SyntaxKind.ContinueStatement:
+        if ((node as ts.BreakOrContinueStatement).label) {
+          addCognitive(current, 1);
+        }
+        break;
+    }
+
+    node.getChildren(this.sourceFile).forEach(child =>
+      this.visit(child, nested.includes(child) ? nesting + 1 : nesting, measures, scope)
+    );
+  }
+
+  private recordToken(token: ts.Node, measures: Measure[]): void {
+    if (SCRIPT_IGNORED_KINDS.has(token.kind)) return;
+
+    const text = token.getText(this.sourceFile);
+    const line = this.sourceFile.getLineAndCharacterOfPosition(token.getStart(this.sourceFile)).line + 1;
+    const isOperand = SCRIPT_OPERAND_KINDS.has(token.kind);
+
+    for (const measure of measures) {
+      increment(isOperand ? measure.operands : measure.operators, text);
+      measure.lines.add(line);
+    }
+  }
+
+  /**
+   * Name for a function measured on its own, or undefined for a callback
+   * inside another function
+   */
+  private getFunctionName(node: ts.SignatureDeclaration, insideFunction: boolean): string | undefined {
+    if (ts.isConstructorDeclaration(node)) return 'constructor';
+    if (node.name) return node.name.getText(this.sourceFile);
+
+    const parent = node.parent;
+    if (ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+      return parent.name.getText(this.sourceFile);
+    }
+    if (ts.isBinaryExpression(parent) && parent.operatorToken.kind === ts.SyntaxKind.EqualsToken) {
+      return parent.left.getText(this.sourceFile);
+    }
+    if (ts.isExportAssignment(parent) || ts.isFunctionDeclaration(node)) {
+      return 'default';
+    }
+
+    if (insideFunction) return undefined;
+
+    // Top-level callbacks, e.g. route handlers and test bodies
+    if (ts.isCallExpression(parent)) {
+      return `${parent.expression.getText(this.sourceFile)}() callback`;
+    }
+    return '<anonymous>';
+  }
+
+  private getLines(node: ts.Node): { line: number; endLine: number } {
+    return {
+      line: this.sourceFile.getLineAndCharacterOfPosition(node.getStart(this.sourceFile)).line + 1,
+      endLine: this.sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+    };
+  }
+}
+
+function getScriptKind(path: string): ts.ScriptKind {
+  if (path.endsWith('.tsx')) return ts.ScriptKind.TSX;
+  if (path.endsWith('.ts') || path.endsWith('.mts') || path.endsWith('.cts')) return ts.ScriptKind.TS;
+  return path.endsWith('.jsx') ? ts.ScriptKind.JSX : ts.ScriptKind.JS;
+}
+
+// =============================================================================
+// PYTHON
+// =============================================================================
+
+// Leaf nodes that name a value rather than act on one
+const PYTHON_OPERAND_NODES = new Set([
+  'VariableName', 'PropertyName', 'Number', 'String', 'FormatString', 'Boolean', 'None', 'Ellipsis',
+]);
+
+// Closing halves of paired tokens and layout tokens
+const PYTHON_IGNORED_NODES = new Set([')', ']', '}', ';', 'Comment', '⚠']);
+
+const PYTHON_COMPREHENSIONS = new Set([
+  'ArrayComprehensionExpression', 'DictionaryComprehensionExpression',
+  'SetComprehensionExpression', 'ComprehensionExpression',
+]);
+
+class PythonMetrics {
+  private readonly file: Measure;
+  private readonly functions: Measure[] = [];
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private readonly content: string) {
+    for (let i = 0; i < content.length; i++) {
+      if (content[i] === '\n') this.lineStarts.push(i + 1);
+    }
+    this.file = createMeasure('<file>', 1, this.lineStarts.length, 0);
+  }
+
+  compute(): CodeComplexity {
+    const tree = pythonParser.parse(this.content);
+    this.visit(tree.topNode, 0, [this.file], []);
+    return buildComplexity(this.file, this.functions);
+  }
+
+  private visit(node: PythonNode, nesting: number, measures: Measure[], scope: string[]): void {
+    if (!node.firstChild) {
+      this.recordToken(node, measures);
+      return;
+    }
+
+    const current = measures[measures.length - 1];
+    const children = getPythonChildren(node);
+
+    switch (node.name) {
+      case 'FunctionDefinition': {
+        const name = node.getChild('VariableName');
+        const functionName = name ? this.text(name) : '<anonymous>';
+        const parameters = node.getChild('ParamList')?.getChildren('VariableName').length || 0;
+        const measure = createMeasure(
+          [...scope, functionName].join('.'),
+          this.lineOf(node.from),
+          this.lineOf(node.to),
+          parameters
+        );
+        this.functions.push(measure);
+        children.forEach(child => this.visit(child, 0, [this.file, measure], [...scope, functionName]));
+        return;
+      }
+      case 'ClassDefinition': {
+        const name = node.getChild('VariableName');
+        const className = name ? this.text(name) : '<class>';
+        children.forEach(child => this.visit(child, nesting, measures, [...scope, className]));
+        return;
+      }
+      case 'IfStatement':
+      case 'TryStatement':
+      case 'ForStatement':
+      case 'WhileStatement': {
+        // Clauses are keyword tokens followed by a Body: if/elif/else, try/except/else/finally
+        let bodyNesting = nesting;
+        for (const child of children) {
+          switch (child.name) {
+            case 'if':
+            case 'for':
+            case 'while':
+            case 'except':
+              addDecision(measures);
+              addCognitive(current, 1 + nesting, nesting);
+              bodyNesting = nesting + 1;
+              break;
+            case 'elif':
+              addDecision(measures);
+              addCognitive(current, 1, nesting);
+              bodyNesting = nesting + 1;
+              break;
+            case 'else':
+              if (node.name === 'IfStatement') addCognitive(current, 1);
+              bodyNesting = node.name === 'TryStatement' ? nesting : nesting + 1;
+              break;
+            case 'try':
+            case 'finally':
+              bodyNesting = nesting;
+              break;
+          }
+          this.visit(child, child.name === 'Body' ? bodyNesting : nesting, measures, scope);
+        }
+        return;
+      }
+      case 'MatchStatement':
+        addCognitive(current, 1 + nesting, nesting);
+        children.forEach(child => this.visit(child, child.name === 'MatchBody' ? nesting + 1 : nesting, measures, scope));
+        return;
+      case 'MatchClause':
+        addDecision(measures);
+        break;
+      case 'ConditionalExpression':
+        addDecision(measures);
+        addCognitive(current, 1 + nesting, nesting);
+        children.forEach(child => this.visit(child, nesting + 1, measures, scope));
+        return;
+      case 'LambdaExpression':
+        // Lambdas count toward the enclosing function, one level deeper
+        children.forEach(child => this.visit(child, nesting + 1, measures, scope));
+        return;
+      case 'BinaryExpression': {
+        const operator = this.getBooleanOperator(node);
+        if (operator) {
+          addDecision(measures);
+          const parent = node.parent;
+          if (!parent || parent.name !== 'BinaryExpression' || this.getBooleanOperator(parent) !== operator) {
+            addCognitive(current, 1);
+          }
+        }
+        break;
+      }
+    }
+
+    if (PYTHON_COMPREHENSIONS.has(node.name)) {
+      // Every `for` and `if` clause of a comprehension is a branch
+      children
+        .filter(child => child.name === 'for' || child.name === 'if')
+        .forEach(() => addDecision(measures));
+    }
+
+    children.forEach(child => this.visit(child, nesting, measures, scope));
+  }
+
+  private recordToken(node: PythonNode, measures: Measure[]): void {
+    if (PYTHON_IGNORED_NODES.has(node.name) || node.from === node.to) return;
+
+    const text = this.text(node);
+    const line = this.lineOf(node.from);
+    const isOperand = PYTHON_OPERAND_NODES.has(node.name);
+
+    for (const measure of measures) {
+      increment(isOperand ? measure.operands : measure.operators, text);
+      measure.lines.add(line);
+    }
+  }
+
+  private getBooleanOperator(node: PythonNode): string | undefined {
+    const operator = getPythonChildren(node).find(child => child.name === 'and' || child.name === 'or');
+    return operator?.name;
+  }
+
+  private text(node: PythonNode): string {
+    return this.content.slice(node.from, node.to);
+  }
+
+  private lineOf(position: number): number {
+    let low = 0;
+    let high = this.lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (this.lineStarts[mid] <= position) low = mid;
+      else high = mid - 1;
+    }
+    return low + 1;
+  }
+}
+
+function getPythonChildren(node: PythonNode): PythonNode[] {
+  const children: PythonNode[] = [];
+  for (let child = node.firstChild; child; child = child.nextSibling) {
+    children.push(child);
+  }
+  return children;
+}
+
+// =============================================================================
+// SHARED HELPERS
+// =============================================================================
+
+function createMeasure(name: string, line: number, endLine: number, parameters: number): Measure {
+  return {
+    name,
+    line,
+    endLine,
+    parameters,
+    decisions: 0,
+    cognitive: 0,
+    maxNesting: 0,
+    operators: new Map(),
+    operands: new Map(),
+    lines: new Set(),
+  };
+}
+
+/**
+ * Decision points count toward the innermost function and the file
+ */
+function addDecision(measures: Measure[]): void {
+  measures.forEach(measure => measure.decisions++);
+}
+
+/**
+ * Cognitive increments go to the innermost measure; the file total is the
+ * sum of its functions and top-level code. `nesting` is passed for control
+ * structures, which also deepen the nesting of their bodies.
+ */
+function addCognitive(measure: Measure, amount: number, nesting?: number): void {
+  measure.cognitive += amount;
+  if (nesting !== undefined) {
+    measure.maxNesting = Math.max(measure.maxNesting, nesting + 1);
+  }
+}
+
+function increment(counts: Map<string, number>, key: string): void {
+  counts.set(key, (counts.get(key) || 0) + 1);
+}
+
+function halstead(measure: Measure): HalsteadMetrics {
+  const distinctOperators = measure.operators.size;
+  const distinctOperands = measure.operands.size;
+  const totalOperators = sum(measure.operators.values());
+  const totalOperands = sum(measure.operands.values());
+
+  const vocabulary = distinctOperators + distinctOperands;
+  const length = totalOperators + totalOperands;
+  const volume = vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+  const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (totalOperands / distinctOperands) : 0;
+
+  return {
+    vocabulary,
+    length,
+    volume: round(volume),
+    difficulty: round(difficulty),
+    effort: round(difficulty * volume),
+  };
+}
+
+function buildComplexity(file: Measure, functions: Measure[]): CodeComplexity {
+  const functionMetrics: FunctionComplexity[] = functions.map(measure => {
+    const metrics = halstead(measure);
+    const cyclomatic = measure.decisions + 1;
+    return {
+      name: measure.name,
+      line: measure.line,
+      endLine: measure.endLine,
+      parameters: measure.parameters,
+      linesOfCode: measure.lines.size,
+      cyclomatic,
+      cognitive: measure.cognitive,
+      maxNesting: measure.maxNesting,
+      halstead: metrics,
+      maintainabilityIndex: maintainabilityIndex(metrics.volume!, cyclomatic, measure.lines.size),
+    };
+  });
+
+  const metrics = halstead(file);
+  const cyclomatic = file.decisions + 1;
+  return {
+    cyclomatic,
+    cognitive: file.cognitive + functions.reduce((total, measure) => total + measure.cognitive, 0),
+    halstead: metrics,
+    maintainabilityIndex: maintainabilityIndex(metrics.volume!, cyclomatic, file.lines.size),
+    linesOfCode: file.lines.size,
+    functions: functionMetrics,
+  };
+}
+
+function sum(values: Iterable<number>): number {
+  let total = 0;
+  for (const value of values) total += value;
+  return total;
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,426 @@
+/**
+ * Workspace Dependency Graph Service
+ * Resolves the module specifiers recorded by the file indexer to workspace
+ * paths and analyses the resulting graph. TS/JS imports follow relative
+ * paths and the nearest tsconfig/jsconfig `baseUrl` and `paths`; Python
+ * imports follow package layout from the importing file, the workspace root
+ * and `src/`.
+ */
+
+import * as ts from 'typescript';
+import { posix } from 'path';
+import { DependencyGraph, DependencyNode, DependencyEdge, DependencyImpact } from '../types';
+import { resolveModuleFile, resolveModulePath } from './typescript-symbols';
+import { db } from '@/lib/db';
+
+const SOURCE_LANGUAGES = ['javascript', 'typescript', 'python'];
+const CONFIG_FILE_PATTERN = /^(tsconfig|jsconfig)\.json$/;
+const MAX_EXTENDS_DEPTH = 5;
+
+// Files that are run or loaded by tooling rather than imported
+const ENTRY_POINT_PATTERNS = [
+  /^(index|main|app|server|cli)\.[cm]?[jt]sx?$/,
+  /^(page|layout|route|middleware|loading|error|not-found)\.[jt]sx?$/,
+  /\.(config|setup)\.[cm]?[jt]s$/,
+  /\.(test|spec|stories)\.[cm]?[jt]sx?$/,
+  /\.d\.ts$/,
+  /^(__main__|__init__|main|app|manage|setup|conftest|wsgi|asgi)\.py$/,
+  /^test_.*\.py$/,
+  /_test\.py$/,
+];
+
+export class DependencyGraphError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'DependencyGraphError';
+  }
+}
+
+interface IndexedSource {
+  path: string;
+  language: string;
+  dependencies: string[];
+}
+
+interface PathAliasConfig {
+  directory: string;
+  baseUrl?: string;
+  paths: Record<string, string[]>;
+  pathsBase: string; // baseUrl, or the directory of the config declaring `paths`
+}
+
+export class WorkspaceDependencyGraph {
+  private readonly workspaceId: string;
+
+  constructor(workspaceId: string) {
+    this.workspaceId = workspaceId;
+  }
+
+  // =============================================================================
+  // GRAPH OPERATIONS
+  // =============================================================================
+
+  /**
+   * Build the resolved module graph with cycles and orphaned files
+   */
+  async build(): Promise<DependencyGraph> {
+    const indexes = await db.fileIndex.findMany({
+      where: {
+        workspaceId: this.workspaceId,
+      },
+      select: {
+        path: true,
+        language: true,
+        content: true,
+        dependencies: true,
+      },
+    });
+
+    const knownPaths = new Set<string>(indexes.map((index: any) => index.path));
+    const aliasConfigs = this.loadAliasConfigs(indexes);
+    const sources: IndexedSource[] = indexes
+      .filter((index: any) => SOURCE_LANGUAGES.includes(index.language))
+      .map((index: any) => ({
+        path: index.path,
+        language: index.language,
+        dependencies: (index.dependencies || []) as string[],
+      }));
+
+    const edges: DependencyEdge[] = [];
+    const unresolved: DependencyGraph['unresolved'] = [];
+    const external = new Map<string, Set<string>>();
+
+    for (const source of sources) {
+      const packages = new Set<string>();
+      const targets = new Set<string>();
+      for (const specifier of source.dependencies) {
+        const target = source.language === 'python'
+          ? this.resolvePythonImport(source.path, specifier, knownPaths)
+          : this.resolveScriptImport(source.path, specifier, knownPaths, aliasConfigs);
+
+        if (target) {
+          if (!targets.has(target)) {
+            targets.add(target);
+            edges.push({ from: source.path, to: target, specifier });
+          }
+        } else if (specifier.startsWith('.')) {
+          unresolved.push({ from: source.path, specifier });
+        } else {
+          packages.add(this.getPackageName(specifier, source.language));
+        }
+      }
+      external.set(source.path, packages);
+    }
+
+    const dependencyCounts = this.countBy(edges, edge => edge.from);
+    const dependentCounts = this.countBy(edges, edge => edge.to);
+    const nodes: DependencyNode[] = sources.map(source => ({
+      path: source.path,
+      language: source.language,
+      external: [...(external.get(source.path) || [])].sort(),
+      dependencyCount: dependencyCounts.get(source.path) || 0,
+      dependentCount: dependentCounts.get(source.path) || 0,
+      isEntryPoint: this.isEntryPoint(source.path),
+    }));
+
+    return {
+      workspaceId: this.workspaceId,
+      nodes,
+      edges,
+      cycles: this.findCycles(nodes, edges),
+      orphans: nodes
+        .filter(node => node.dependentCount === 0 && !node.isEntryPoint)
+        .map(node => node.path)
+        .sort(),
+      unresolved,
+      generatedAt: new Date(),
+    };
+  }
+
+  /**
+   * Files affected by changes to the given files: everything that imports
+   * them, directly or transitively
+   */
+  async getImpact(paths: string[], maxDepth?: number): Promise<DependencyImpact> {
+    const graph = await this.build();
+    const nodePaths = new Set(graph.nodes.map(node => node.path));
+
+    const missing = paths.filter(path => !nodePaths.has(path));
+    if (missing.length > 0) {
+      throw new DependencyGraphError(`File is not indexed: ${missing.join(', ')}`, 'NOT_FOUND');
+    }
+
+    const importers = new Map<string, string[]>();
+    for (const edge of graph.edges) {
+      importers.set(edge.to, [...(importers.get(edge.to) || []), edge.from]);
+    }
+
+    // Breadth-first so each dependent is reported at its shortest distance
+    const changed = new Set(paths);
+    const visited = new Set(paths);
+    const dependents: DependencyImpact['dependents'] = [];
+    let frontier = paths;
+    for (let depth = 1; frontier.length > 0 && (!maxDepth || depth <= maxDepth); depth++) {
+      const next: string[] = [];
+      for (const path of frontier) {
+        for (const importer of importers.get(path) || []) {
+          if (visited.has(importer)) continue;
+          visited.add(importer);
+          dependents.push({ path: importer, depth, via: path });
+          next.push(importer);
+        }
+      }
+      frontier = next;
+    }
+
+    return {
+      paths,
+      dependencies: [...new Set(
+        graph.edges.filter(edge => changed.has(edge.from)).map(edge => edge.to)
+      )].sort(),
+      dependents,
+      cycles: graph.cycles.filter(cycle => cycle.some(path => changed.has(path))),
+    };
+  }
+
+  // =============================================================================
+  // MODULE RESOLUTION
+  // =============================================================================
+
+  private resolveScriptImport(
+    fromPath: string,
+    specifier: string,
+    knownPaths: Set<string>,
+    aliasConfigs: PathAliasConfig[]
+  ): string | null {
+    if (specifier.startsWith('.')) {
+      return resolveModulePath(fromPath, specifier, knownPaths);
+    }
+
+    const aliasConfig = this.findAliasConfig(fromPath, aliasConfigs);
+    if (!aliasConfig) return null;
+
+    // Exact patterns first, then the longest prefix before `*`, as in the
+    // TypeScript compiler
+    const prefixLength = (pattern: string) =>
+      pattern.includes('*') ? pattern.indexOf('*') : Number.MAX_SAFE_INTEGER;
+    const patterns = Object.keys(aliasConfig.paths)
+      .filter(pattern => this.matchPathPattern(pattern, specifier) !== null)
+      .sort((a, b) => prefixLength(b) - prefixLength(a));
+
+    for (const pattern of patterns) {
+      const wildcard = this.matchPathPattern(pattern, specifier)!;
+      for (const target of aliasConfig.paths[pattern]) {
+        const resolved = resolveModuleFile(
+          posix.join(aliasConfig.pathsBase, target.replace('*', wildcard)),
+          knownPaths
+        );
+        if (resolved) return resolved;
+      }
+    }
+
+    if (aliasConfig.baseUrl) {
+      return resolveModuleFile(posix.join(aliasConfig.baseUrl, specifier), knownPaths);
+    }
+    return null;
+  }
+
+  /**
+   * Text matched by `*` in a paths pattern, or null when it does not match
+   */
+  private matchPathPattern(pattern: string, specifier: string): string | null {
+    const star = pattern.indexOf('*');
+    if (star === -1) {
+      return pattern === specifier ? '' : null;
+    }
+
+    const prefix = pattern.slice(0, star);
+    const suffix = pattern.slice(star + 1);
+    if (
+      specifier.length < prefix.length + suffix.length ||
+      !specifier.startsWith(prefix) ||
+      !specifier.endsWith(suffix)
+    ) {
+      return null;
+    }
+    return specifier.slice(prefix.length, specifier.length - suffix.length);
+  }
+
+  private resolvePythonImport(fromPath: string, specifier: string, knownPaths: Set<string>): string | null {
+    const dots = specifier.match(/^\.*/)![0].length;
+    const modulePath = specifier.slice(dots).split('.').filter(Boolean).join('/');
+
+    let roots: string[];
+    if (dots > 0) {
+      // `.` is the importing file's package, each further dot one level up
+      let base = posix.dirname(fromPath);
+      for (let level = 1; level < dots; level++) {
+        base = posix.dirname(base);
+      }
+      roots = [base];
+    } else {
+      // Script directory first, as on sys.path, then the usual source roots
+      const workspaceRoot = fromPath.startsWith('/') ? '/' : '';
+      roots = [...new Set([
+        posix.dirname(fromPath),
+        workspaceRoot || '.',
+        posix.join(workspaceRoot, 'src'),
+      ])];
+    }
+
+    for (const root of roots) {
+      const base = modulePath ? posix.join(root, modulePath) : root;
+      const candidates = [`${base}.py`, posix.join(base, '__init__.py')]
+        .map(candidate => candidate.replace(/^\.\//, ''));
+      const resolved = candidates.find(candidate => knownPaths.has(candidate));
+      if (resolved) return resolved;
+    }
+    return null;
+  }
+
+  private getPackageName(specifier: string, language: string): string {
+    if (language === 'python') {
+      return specifier.split('.')[0];
+    }
+    const segments = specifier.replace(/^node:/, '').split('/');
+    return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+  }
+
+  // =============================================================================
+  // TSCONFIG PATH ALIASES
+  // =============================================================================
+
+  private loadAliasConfigs(indexes: any[]): PathAliasConfig[] {
+    const contents = new Map<string, string>(indexes.map((index: any) => [index.path, index.content]));
+
+    return indexes
+      .filter((index: any) => CONFIG_FILE_PATTERN.test(posix.basename(index.path)))
+      .map((index: any) => this.readAliasConfig(index.path, contents, 0))
+      .filter((aliasConfig): aliasConfig is PathAliasConfig =>
+        !!aliasConfig && (!!aliasConfig.baseUrl || Object.keys(aliasConfig.paths).length > 0)
+      );
+  }
+
+  /**
+   * Read baseUrl and paths, following relative `extends` within the workspace
+   */
+  private readAliasConfig(path: string, contents: Map<string, string>, depth: number): PathAliasConfig | null {
+    const content = contents.get(path);
+    if (content === undefined || depth > MAX_EXTENDS_DEPTH) return null;
+
+    const { config: tsconfig } = ts.parseConfigFileTextToJson(path, content);
+    if (!tsconfig) return null;
+
+    const directory = posix.dirname(path);
+    const inherited = typeof tsconfig.extends === 'string' && tsconfig.extends.startsWith('.')
+      ? this.readAliasConfig(this.getExtendedConfigPath(directory, tsconfig.extends), contents, depth + 1)
+      : null;
+
+    const options = tsconfig.compilerOptions || {};
+    const baseUrl = typeof options.baseUrl === 'string'
+      ? posix.join(directory, options.baseUrl)
+      : inherited?.baseUrl;
+    const ownPaths = options.paths && typeof options.paths === 'object' ? options.paths : undefined;
+
+    return {
+      directory,
+      baseUrl,
+      paths: ownPaths || inherited?.paths || {},
+      pathsBase: baseUrl || (ownPaths ? directory : inherited?.pathsBase || directory),
+    };
+  }
+
+  private getExtendedConfigPath(directory: string, extendsPath: string): string {
+    const resolved = posix.join(directory, extendsPath);
+    return resolved.endsWith('.json') ? resolved : `${resolved}.json`;
+  }
+
+  /**
+   * The config in the closest enclosing directory applies to a file
+   */
+  private findAliasConfig(filePath: string, aliasConfigs: PathAliasConfig[]): PathAliasConfig | undefined {
+    return aliasConfigs
+      .filter(aliasConfig => this.isWithinDirectory(filePath, aliasConfig.directory))
+      .sort((a, b) => b.directory.length - a.directory.length)[0];
+  }
+
+  private isWithinDirectory(filePath: string, directory: string): boolean {
+    if (directory === '.' || directory === '/') return true;
+    return filePath.startsWith(`${directory}/`);
+  }
+
+  // =============================================================================
+  // ANALYSIS
+  // =============================================================================
+
+  /**
+   * Strongly connected components (Tarjan) with more than one file, or a
+   * file importing itself
+   */
+  private findCycles(nodes: DependencyNode[], edges: DependencyEdge[]): string[][] {
+    const adjacency = new Map<string, string[]>();
+    for (const edge of edges) {
+      adjacency.set(edge.from, [...(adjacency.get(edge.from) || []), edge.to]);
+    }
+
+    const indices = new Map<string, number>();
+    const lowLinks = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const cycles: string[][] = [];
+    let nextIndex = 0;
+
+    const connect = (path: string) => {
+      indices.set(path, nextIndex);
+      lowLinks.set(path, nextIndex);
+      nextIndex++;
+      stack.push(path);
+      onStack.add(path);
+
+      for (const target of adjacency.get(path) || []) {
+        if (!indices.has(target)) {
+          connect(target);
+          lowLinks.set(path, Math.min(lowLinks.get(path)!, lowLinks.get(target)!));
+        } else if (onStack.has(target)) {
+          lowLinks.set(path, Math.min(lowLinks.get(path)!, indices.get(target)!));
+        }
+      }
+
+      if (lowLinks.get(path) === indices.get(path)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== path);
+
+        const isSelfImport = component.length === 1 && (adjacency.get(path) || []).includes(path);
+        if (component.length > 1 || isSelfImport) {
+          cycles.push(component.sort());
+        }
+      }
+    };
+
+    for (const node of nodes) {
+      if (!indices.has(node.path)) {
+        connect(node.path);
+      }
+    }
+
+    return cycles;
+  }
+
+  private isEntryPoint(filePath: string): boolean {
+    const fileName = posix.basename(filePath);
+    return ENTRY_POINT_PATTERNS.some(pattern => pattern.test(fileName));
+  }
+
+  private countBy(edges: DependencyEdge[], key: (edge: DependencyEdge) => string): Map<string, number> {
+    const counts = new Map<string, number>();
+    for (const edge of edges) {
+      counts.set(key(edge), (counts.get(key(edge)) || 0) + 1);
+    }
+    return counts;
+  }
+}
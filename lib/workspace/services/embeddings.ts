@@ -0,0 +1,240 @@
+/**
+ * Embedding Providers
+ * Pluggable text embedding for semantic code search. The default hashing
+ * provider runs in-process and needs no model or network; Ollama serves an
+ * on-box model and OpenAI a hosted one. Vectors are only ever compared with
+ * vectors from the same provider id.
+ */
+
+import { embedMany } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { config } from '@/lib/config/environment';
+
+export interface EmbeddingProvider {
+  // Stored with every vector, e.g. `ollama:nomic-embed-text`
+  readonly id: string;
+  // Sparse term vectors benefit from inverse document frequency weighting
+  // at query time; dense model embeddings do not
+  readonly idfWeighting?: boolean;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface EmbeddingProviderSettings {
+  model?: string;
+  dimensions: number;
+  ollamaUrl: string;
+}
+
+export type EmbeddingProviderFactory = (settings: EmbeddingProviderSettings) => EmbeddingProvider;
+
+export class EmbeddingProviderError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'EmbeddingProviderError';
+  }
+}
+
+// Keywords and filler words that say nothing about what code does
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'that', 'this', 'from', 'into', 'are', 'was', 'not', 'you', 'how', 'what', 'where',
+  'const', 'let', 'var', 'function', 'return', 'import', 'export', 'default', 'new', 'async', 'await', 'true',
+  'false', 'null', 'undefined', 'void', 'def', 'self', 'none', 'pass', 'elif', 'else', 'then', 'type', 'interface',
+]);
+
+/**
+ * Signed feature hashing of identifier sub-words, word pairs and character
+ * trigrams, so related spellings (auth/authenticate) share dimensions
+ */
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+  readonly idfWeighting = true;
+
+  constructor(private readonly dimensions: number) {
+    this.id = `hashing-v1:${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const terms = tokenizeCode(text);
+
+    const features = new Map<string, { weight: number; count: number }>();
+    const addFeature = (feature: string, weight: number) => {
+      const existing = features.get(feature);
+      if (existing) {
+        existing.count++;
+      } else {
+        features.set(feature, { weight, count: 1 });
+      }
+    };
+
+    terms.forEach((term, index) => {
+      addFeature(`w:${term}`, 1);
+      if (index > 0) {
+        addFeature(`b:${terms[index - 1]}_${term}`, 0.5);
+      }
+      const padded = `#${term}#`;
+      for (let offset = 0; offset + 3 <= padded.length; offset++) {
+        addFeature(`c:${padded.slice(offset, offset + 3)}`, 0.25);
+      }
+    });
+
+    // Sublinear term frequency keeps repeated identifiers from dominating
+    for (const [feature, { weight, count }] of features) {
+      const hash = fnv1a(feature);
+      const sign = hash & 0x80000000 ? -1 : 1;
+      vector[hash % this.dimensions] += sign * weight * (1 + Math.log(count));
+    }
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Embeddings from a local Ollama server
+ */
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly url: string, private readonly model: string) {
+    this.id = `ollama:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const embeddings: number[][] = [];
+
+    // Bounded batches keep request bodies and model memory in check
+    for (let start = 0; start < texts.length; start += 32) {
+      const response = await fetch(`${this.url.replace(/\/$/, '')}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.model, input: texts.slice(start, start + 32) }),
+      });
+
+      if (!response.ok) {
+        throw new EmbeddingProviderError(
+          `Ollama embedding request failed: ${response.status} ${await response.text()}`,
+          'PROVIDER_ERROR'
+        );
+      }
+
+      const result = await response.json();
+      embeddings.push(...(result.embeddings as number[][]).map(normalize));
+    }
+
+    return embeddings;
+  }
+}
+
+/**
+ * Embeddings from the OpenAI API
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id: string;
+
+  constructor(private readonly model: string) {
+    this.id = `openai:${model}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    if (!config.ai.openaiApiKey) {
+      throw new EmbeddingProviderError('OpenAI API key not configured', 'NOT_CONFIGURED');
+    }
+
+    const { embeddings } = await embedMany({
+      model: openai.embedding(this.model),
+      values: texts,
+    });
+    return embeddings.map(normalize);
+  }
+}
+
+// =============================================================================
+// PROVIDER REGISTRY
+// =============================================================================
+
+const providerFactories = new Map<string, EmbeddingProviderFactory>([
+  ['hashing', settings => new HashingEmbeddingProvider(settings.dimensions)],
+  ['ollama', settings => new OllamaEmbeddingProvider(settings.ollamaUrl, settings.model || 'nomic-embed-text')],
+  ['openai', settings => new OpenAIEmbeddingProvider(settings.model || 'text-embedding-3-small')],
+]);
+
+let activeProvider: EmbeddingProvider | null = null;
+
+/**
+ * Register an embedding provider selectable with EMBEDDING_PROVIDER
+ */
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  providerFactories.set(name, factory);
+  activeProvider = null;
+}
+
+/**
+ * The configured embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!activeProvider) {
+    const { provider, model, dimensions, ollamaUrl } = config.semanticSearch;
+    const factory = providerFactories.get(provider);
+    if (!factory) {
+      throw new EmbeddingProviderError(`Unknown embedding provider: ${provider}`, 'UNKNOWN_PROVIDER');
+    }
+    activeProvider = factory({ model, dimensions, ollamaUrl });
+  }
+  return activeProvider;
+}
+
+// =============================================================================
+// VECTOR HELPERS
+// =============================================================================
+
+/**
+ * Lower-case identifier sub-words: camelCase, snake_case and digits split
+ */
+export function tokenizeCode(text: string): string[] {
+  return text
+    .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(term => term.length > 1 && !STOP_WORDS.has(term) && !/^\d+$/.test(term))
+    .map(stem);
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm ? vector.map(value => value / norm) : vector;
+}
+
+// Crude suffix stripping so plurals and verb forms share a feature
+function stem(term: string): string {
+  if (term.length <= 4 || term.endsWith('ss')) return term;
+  const stemmed = term.replace(/(ies|ied)$/, 'y').replace(/(ing|ed|es|s)$/, '');
+  return stemmed.length >= 4 ? stemmed : term;
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
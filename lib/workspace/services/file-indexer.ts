@@ -3,8 +3,41 @@
  * Advanced file indexing and search capabilities for workspace files
  */
 
-import { WorkspaceFile, FileIndex, CodeSymbol, SearchQuery, SearchResult } from '../types';
+import { createHash } from 'crypto';
+import {
+  WorkspaceFile,
+  FileIndex,
+  CodeSymbol,
+  SearchQuery,
+  SearchResult,
+  SemanticMatch,
+  ImportStatement,
+  ExportStatement,
+  IndexStatus,
+  CodeComplexity,
+} from '../types';
 import { db } from '@/lib/db';
+import { extractTypeScriptIndex, resolveModulePath, ScriptIndex } from './typescript-symbols';
+import { WorkspaceDependencyGraph } from './dependency-graph';
+import { chunkFile, getEmbeddingText } from './code-chunker';
+import { getEmbeddingProvider, cosineSimilarity } from './embeddings';
+import { WorkspaceFileStorage } from './file-storage';
+import { indexQueue, IndexOutcome } from './index-queue';
+import { computeCodeMetrics, maintainabilityIndex } from './code-metrics';
+
+// Bumped when extraction changes so existing indexes are rebuilt
+const INDEX_VERSION = '2.1';
+
+// Similarity search scores at most this many chunks, newest first, so one
+// query's cost stays bounded in large workspaces
+const MAX_SCORED_CHUNKS = 5000;
+
+export interface SimilarChunkOptions {
+  limit?: number;
+  languages?: string[];
+  paths?: string[];
+  excludePaths?: string[];
+}
 
 export class WorkspaceFileIndexer {
   private readonly workspaceId: string;
@@ -22,11 +55,18 @@ export class WorkspaceFileIndexer {
    */
   async indexFile(file: WorkspaceFile, content: string): Promise<FileIndex> {
     const tokens = this.tokenizeContent(content);
-    const symbols = await this.extractSymbols(file.path, content, file.metadata.language);
-    const imports = this.extractImports(content, file.metadata.language);
-    const exports = this.extractExports(content, file.metadata.language);
-    const dependencies = this.extractDependencies(content, file.metadata.language);
-    const complexity = this.calculateComplexity(content, file.metadata.language);
+    const language = file.metadata.language;
+
+    // TS/JS files are parsed once and reused for every extraction step
+    const scriptIndex = this.isScriptLanguage(language)
+      ? extractTypeScriptIndex(file.path, content)
+      : undefined;
+
+    const symbols = await this.extractSymbols(file.path, content, language, scriptIndex);
+    const imports = this.extractImports(content, language, scriptIndex);
+    const exports = this.extractExports(content, language, scriptIndex);
+    const dependencies = this.extractDependencies(content, language, scriptIndex);
+    const complexity = this.calculateComplexity(file.path, content, file.metadata.language);
 
     // Store or update index in database
     const existingIndex = await db.fileIndex.findFirst({
@@ -48,7 +88,8 @@ export class WorkspaceFileIndexer {
       dependencies,
       complexity,
       lastIndexed: new Date(),
-      indexVersion: '1.0',
+      indexVersion: INDEX_VERSION,
+      contentHash: createHash('sha256').update(content).digest('hex'),
     };
 
     let fileIndex;
@@ -63,9 +104,63 @@ export class WorkspaceFileIndexer {
       });
     }
 
+    // Embedding failures leave the symbol index usable
+    try {
+      await this.indexChunks(file.path, content, indexData.language, symbols);
+    } catch (error) {
+      console.error(`Failed to embed file ${file.path}:`, error);
+    }
+
     return this.mapToFileIndex(fileIndex);
   }
 
+  /**
+   * Chunk and embed a file for semantic search; unchanged files keep their
+   * vectors unless the embedding provider changed
+   */
+  async indexChunks(filePath: string, content: string, language: string, symbols: CodeSymbol[] = []): Promise<void> {
+    const provider = getEmbeddingProvider();
+    const contentHash = createHash('sha256').update(content).digest('hex');
+
+    const existing = await db.codeChunk.findFirst({
+      where: {
+        workspaceId: this.workspaceId,
+        path: filePath,
+      },
+      select: {
+        contentHash: true,
+        provider: true,
+      },
+    });
+    if (existing?.contentHash === contentHash && existing.provider === provider.id) {
+      return;
+    }
+
+    const chunks = chunkFile(filePath, content, language, symbols);
+    const embeddings = chunks.length > 0
+      ? await provider.embed(chunks.map(getEmbeddingText))
+      : [];
+
+    await db.codeChunk.deleteMany({
+      where: {
+        workspaceId: this.workspaceId,
+        path: filePath,
+      },
+    });
+
+    if (chunks.length > 0) {
+      await db.codeChunk.createMany({
+        data: chunks.map((chunk, index) => ({
+          workspaceId: this.workspaceId,
+          ...chunk,
+          contentHash,
+          provider: provider.id,
+          embedding: embeddings[index],
+        })),
+      });
+    }
+  }
+
   /**
    * Remove file from index
    */
@@ -76,31 +171,141 @@ export class WorkspaceFileIndexer {
         path: filePath,
       },
     });
+
+    await db.codeChunk.deleteMany({
+      where: {
+        workspaceId: this.workspaceId,
+        path: filePath,
+      },
+    });
   }
 
   /**
-   * Reindex all files in workspace
+   * Bring one path's index in line with the file: index it when its content
+   * changed, drop it when the file is gone or no longer text
    */
-  async reindexWorkspace(): Promise<void> {
-    const files = await db.workspaceFile.findMany({
+  async indexPath(filePath: string): Promise<IndexOutcome> {
+    const file = await db.workspaceFile.findFirst({
+      where: {
+        workspaceId: this.workspaceId,
+        path: filePath,
+      },
+    });
+
+    if (!file || file.isDirectory || file.type !== 'text') {
+      await this.removeFromIndex(filePath);
+      return 'removed';
+    }
+
+    const existingIndex = await db.fileIndex.findFirst({
+      where: {
+        workspaceId: this.workspaceId,
+        path: filePath,
+      },
+      select: {
+        contentHash: true,
+        indexVersion: true,
+      },
+    });
+    const isCurrent = (hash: string) =>
+      existingIndex?.contentHash === hash && existingIndex.indexVersion === INDEX_VERSION;
+
+    if (file.hash && isCurrent(file.hash)) {
+      return 'skipped';
+    }
+
+    const content = await this.getFileContent(filePath);
+    if (content === null) {
+      await this.removeFromIndex(filePath);
+      return 'removed';
+    }
+
+    // Files stored before content hashing have no hash to compare up front
+    if (isCurrent(createHash('sha256').update(content).digest('hex'))) {
+      return 'skipped';
+    }
+
+    await this.indexFile(this.mapToWorkspaceFile(file), content);
+    return 'indexed';
+  }
+
+  /**
+   * Queue every stale file for background re-indexing; `force` queues all
+   * files and discards their stored hashes. Returns the number queued.
+   */
+  async reindexWorkspace(options: { force?: boolean } = {}): Promise<number> {
+    if (options.force) {
+      await db.fileIndex.updateMany({
+        where: { workspaceId: this.workspaceId },
+        data: { contentHash: null },
+      });
+      await indexQueue.clearFailures(this.workspaceId);
+    }
+
+    const files = await this.getIndexableFiles();
+    const stalePaths = options.force
+      ? files.map(file => file.path)
+      : await this.getStalePaths(files);
+
+    return indexQueue.enqueue(this.workspaceId, stalePaths);
+  }
+
+  /**
+   * Indexing progress: how many files are current, stale, queued or failing
+   */
+  async getIndexStatus(): Promise<IndexStatus> {
+    const files = await this.getIndexableFiles();
+    const stalePaths = await this.getStalePaths(files);
+    const counters = await indexQueue.getCounters(this.workspaceId);
+
+    return {
+      workspaceId: this.workspaceId,
+      totalFiles: files.length,
+      indexedFiles: files.length - stalePaths.length,
+      staleFiles: stalePaths.length,
+      queued: counters.queued,
+      processing: counters.processing,
+      failed: counters.failures.length,
+      failures: counters.failures,
+      lastIndexedAt: counters.lastIndexedAt,
+      workerActive: counters.workerActive,
+    };
+  }
+
+  private async getIndexableFiles(): Promise<Array<{ path: string; hash: string }>> {
+    return db.workspaceFile.findMany({
       where: {
         workspaceId: this.workspaceId,
         isDirectory: false,
         type: 'text',
       },
+      select: {
+        path: true,
+        hash: true,
+      },
     });
+  }
 
-    for (const file of files) {
-      try {
-        // Get file content (this would need to be implemented)
-        const content = await this.getFileContent(file.path);
-        if (content) {
-          await this.indexFile(this.mapToWorkspaceFile(file), content);
-        }
-      } catch (error) {
-        console.error(`Failed to index file ${file.path}:`, error);
-      }
-    }
+  private async getStalePaths(files: Array<{ path: string; hash: string }>): Promise<string[]> {
+    const indexes = await db.fileIndex.findMany({
+      where: { workspaceId: this.workspaceId },
+      select: {
+        path: true,
+        contentHash: true,
+        indexVersion: true,
+      },
+    });
+    const indexByPath = new Map<string, any>(indexes.map((index: any) => [index.path, index]));
+
+    return files
+      .filter(file => {
+        const index = indexByPath.get(file.path);
+        return !index ||
+          index.indexVersion !== INDEX_VERSION ||
+          // Files without a stored hash count as current once indexed
+          (file.hash && index.contentHash !== file.hash);
+      })
+      .map(file => file.path);
   }
 
   // =============================================================================
@@ -142,6 +347,136 @@ export class WorkspaceFileIndexer {
     return results.sort((a, b) => b.score - a.score);
   }
 
+  /**
+   * Search files by meaning: code chunks ranked by embedding similarity to
+   * a natural-language query, grouped per file
+   */
+  async searchSemantic(query: SearchQuery): Promise<SearchResult[]> {
+    const maxResults = query.options.maxResults || 50;
+    const chunks = await this.findSimilarChunks(query.query, {
+      limit: maxResults * 3,
+      languages: query.filters.languages,
+      paths: query.filters.paths,
+      excludePaths: query.filters.excludePaths,
+    });
+
+    const chunksByPath = new Map<string, SemanticMatch[]>();
+    for (const chunk of chunks) {
+      chunksByPath.set(chunk.path, [...(chunksByPath.get(chunk.path) || []), chunk]);
+    }
+
+    const files = await db.workspaceFile.findMany({
+      where: {
+        workspaceId: this.workspaceId,
+        path: {
+          in: [...chunksByPath.keys()],
+        },
+      },
+    });
+
+    const results: SearchResult[] = files.map((file: any) => {
+      const fileChunks = chunksByPath.get(file.path)!;
+      return {
+        file: this.mapToWorkspaceFile(file),
+        matches: fileChunks.map(chunk => {
+          const firstLine = chunk.content.split('\n').find(line => line.trim()) || '';
+          return {
+            line: chunk.startLine,
+            column: 1,
+            length: firstLine.length,
+            text: firstLine.trim(),
+            context: {
+              before: '',
+              after: chunk.content,
+            },
+          };
+        }),
+        score: fileChunks[0].score,
+        context: {
+          symbols: [],
+          imports: [],
+          exports: [],
+          relatedFiles: [],
+        },
+      };
+    });
+
+    return results
+      .sort((a, b) => b.score - a.score)
+      .slice(0, maxResults);
+  }
+
+  /**
+   * Code chunks most similar to a query, best first. Also used to retrieve
+   * context for the AI assistant.
+   */
+  async findSimilarChunks(queryText: string, options: SimilarChunkOptions = {}): Promise<SemanticMatch[]> {
+    const provider = getEmbeddingProvider();
+    const [queryVector] = await provider.embed([queryText]);
+
+    const whereClause: any = {
+      workspaceId: this.workspaceId,
+      provider: provider.id,
+    };
+    if (options.languages?.length) {
+      whereClause.language = { in: options.languages };
+    }
+    if (options.paths?.length) {
+      whereClause.path = { in: options.paths };
+    }
+    if (options.excludePaths?.length) {
+      whereClause.path = { ...whereClause.path, notIn: options.excludePaths };
+    }
+
+    // Chunk text is only loaded for the matches that are returned
+    const chunks = await db.codeChunk.findMany({
+      where: whereClause,
+      select: { id: true, path: true, chunkIndex: true, startLine: true, endLine: true, symbolName: true, language: true, embedding: true },
+      orderBy: { createdAt: 'desc' },
+      take: MAX_SCORED_CHUNKS,
+    });
+    if (chunks.length === 0) return [];
+
+    // Sparse term vectors: weight dimensions by inverse document frequency
+    // over this workspace's chunks, so common terms count for less
+    let weights: number[] | null = null;
+    if (provider.idfWeighting) {
+      const documentFrequency = new Array<number>(queryVector.length).fill(0);
+      for (const chunk of chunks) {
+        (chunk.embedding as number[]).forEach((value, dimension) => {
+          if (value !== 0) documentFrequency[dimension]++;
+        });
+      }
+      weights = documentFrequency.map(frequency => Math.log((chunks.length + 1) / (frequency + 1)) + 1);
+    }
+    const weigh = (vector: number[]) => (weights ? vector.map((value, dimension) => value * weights![dimension]) : vector);
+
+    const weightedQuery = weigh(queryVector);
+    const best = chunks
+      .map((chunk: any) => ({ chunk, score: cosineSimilarity(weightedQuery, weigh(chunk.embedding as number[])) }))
+      .filter(({ score }: { score: number }) => score > 0)
+      .sort((a: { score: number }, b: { score: number }) => b.score - a.score)
+      .slice(0, options.limit || 10);
+    if (best.length === 0) return [];
+
+    const contents = await db.codeChunk.findMany({
+      where: { id: { in: best.map(({ chunk }: { chunk: any }) => chunk.id) } },
+      select: { id: true, content: true },
+    });
+    const contentById = new Map<string, string>(contents.map((chunk: any) => [chunk.id, chunk.content]));
+
+    return best.map(({ chunk, score }: { chunk: any; score: number }): SemanticMatch => ({
+      path: chunk.path,
+      chunkIndex: chunk.chunkIndex,
+      startLine: chunk.startLine,
+      endLine: chunk.endLine,
+      symbolName: chunk.symbolName || undefined,
+      language: chunk.language,
+      content: contentById.get(chunk.id) ?? '',
+      score,
+    }));
+  }
+
   /**
    * Search for symbols (functions, classes, etc.)
    */
@@ -171,27 +506,42 @@ export class WorkspaceFileIndexer {
   }
 
   /**
-   * Find references to a symbol
+   * Find references to a symbol across the workspace. When the defining file
+   * is known, only usages bound to that declaration are returned: local
+   * usages in the defining file and imports that resolve to it.
    */
-  async findReferences(symbolName: string, filePath?: string): Promise<CodeSymbol[]> {
-    const whereClause: any = {
-      workspaceId: this.workspaceId,
-    };
-
-    if (filePath) {
-      whereClause.path = filePath;
-    }
-
+  async findReferences(symbolName: string, definitionPath?: string): Promise<CodeSymbol[]> {
     const indexes = await db.fileIndex.findMany({
-      where: whereClause,
+      where: {
+        workspaceId: this.workspaceId,
+      },
     });
+    const knownPaths = new Set<string>(indexes.map((index: any) => index.path));
+
+    // Default imports are referenced under whatever local name the importer chose
+    const definitionIndex = definitionPath && indexes.find((index: any) => index.path === definitionPath);
+    const isDefaultExport = !!definitionIndex && ((definitionIndex.exports || []) as ExportStatement[])
+      .some(item => item.isDefault && item.type !== 'expression' &&
+        ((definitionIndex.symbols || []) as CodeSymbol[]).some(symbol =>
+          symbol.name === symbolName && symbol.location.line === item.location.line
+        ));
 
     const references: CodeSymbol[] = [];
     for (const index of indexes) {
-      const fileSymbols = index.symbols as CodeSymbol[];
-      const symbolReferences = fileSymbols.filter(symbol => 
-        symbol.name === symbolName && symbol.kind === 'reference'
-      );
+      const fileSymbols = (index.symbols || []) as CodeSymbol[];
+      const symbolReferences = fileSymbols.filter(symbol => {
+        if (symbol.kind === 'declaration' || symbol.kind === 'definition') return false;
+
+        const importedDefault = isDefaultExport && symbol.modifiers.includes('default');
+        if (symbol.name !== symbolName && !importedDefault) return false;
+        if (!definitionPath) return true;
+
+        if (symbol.definition) {
+          return symbol.name === symbolName && symbol.definition.file === definitionPath;
+        }
+        return !!symbol.importedFrom &&
+          resolveModulePath(index.path, symbol.importedFrom, knownPaths) === definitionPath;
+      });
       references.push(...symbolReferences);
     }
 
@@ -199,34 +549,75 @@ export class WorkspaceFileIndexer {
   }
 
   /**
-   * Get file dependencies
+   * Find the declaration of a symbol. Imports of the referencing file are
+   * followed first; otherwise exported declarations win over local ones.
    */
-  async getDependencies(filePath: string): Promise<string[]> {
-    const index = await db.fileIndex.findFirst({
+  async findDefinition(symbolName: string, fromPath?: string): Promise<CodeSymbol[]> {
+    const indexes = await db.fileIndex.findMany({
       where: {
         workspaceId: this.workspaceId,
-        path: filePath,
       },
     });
+    const knownPaths = new Set<string>(indexes.map((index: any) => index.path));
+    const isDeclaration = (symbol: CodeSymbol) =>
+      symbol.name === symbolName && (symbol.kind === 'declaration' || symbol.kind === 'definition');
+
+    if (fromPath) {
+      const fromIndex = indexes.find((index: any) => index.path === fromPath);
+      if (fromIndex) {
+        // Declared in the referencing file itself
+        const local = ((fromIndex.symbols || []) as CodeSymbol[]).filter(isDeclaration);
+        if (local.length > 0) return local;
+
+        // Imported from another workspace file
+        for (const statement of (fromIndex.imports || []) as ImportStatement[]) {
+          const imported = statement.imports.find(item => (item.alias || item.name) === symbolName);
+          if (!imported) continue;
+
+          const targetPath = resolveModulePath(fromPath, statement.module, knownPaths);
+          const target = indexes.find((index: any) => index.path === targetPath);
+          if (!target) continue;
+
+          // Exports carry the location of the declaration they name
+          const exportedName = imported.isDefault ? 'default' : imported.name;
+          const exported = ((target.exports || []) as ExportStatement[])
+            .find(item => item.name === exportedName);
+          const declarations = ((target.symbols || []) as CodeSymbol[]).filter(symbol =>
+            (symbol.kind === 'declaration' || symbol.kind === 'definition') && !symbol.containerName && (
+              exported
+                ? symbol.location.line === exported.location.line && symbol.location.column === exported.location.column
+                : symbol.name === imported.name
+            )
+          );
+          if (declarations.length > 0) return declarations;
+        }
+      }
+    }
 
-    return index?.dependencies as string[] || [];
+    const declarations: CodeSymbol[] = [];
+    for (const index of indexes) {
+      declarations.push(...((index.symbols || []) as CodeSymbol[]).filter(isDeclaration));
+    }
+
+    return declarations.sort((a, b) =>
+      Number(b.modifiers.includes('export')) - Number(a.modifiers.includes('export'))
+    );
   }
 
   /**
-   * Get files that depend on a specific file
+   * Get the workspace files a file imports
    */
-  async getDependents(filePath: string): Promise<string[]> {
-    const indexes = await db.fileIndex.findMany({
-      where: {
-        workspaceId: this.workspaceId,
-        dependencies: {
-          path: ['$[*]'],
-          array_contains: [filePath],
-        },
-      },
-    });
+  async getDependencies(filePath: string): Promise<string[]> {
+    const graph = await new WorkspaceDependencyGraph(this.workspaceId).build();
+    return graph.edges.filter(edge => edge.from === filePath).map(edge => edge.to);
+  }
 
-    return indexes.map(index => index.path);
+  /**
+   * Get files that import a specific file
+   */
+  async getDependents(filePath: string): Promise<string[]> {
+    const graph = await new WorkspaceDependencyGraph(this.workspaceId).build();
+    return graph.edges.filter(edge => edge.to === filePath).map(edge => edge.from);
   }
 
   // =============================================================================
@@ -242,10 +633,15 @@ export class WorkspaceFileIndexer {
       .filter(token => token.length > 2);
   }
 
+  private isScriptLanguage(language?: string): boolean {
+    return language === 'javascript' || language === 'typescript';
+  }
+
   private async extractSymbols(
     filePath: string,
     content: string,
-    language?: string
+    language?: string,
+    scriptIndex?: ScriptIndex
   ): Promise<CodeSymbol[]> {
     const symbols: CodeSymbol[] = [];
 
@@ -254,7 +650,7 @@ export class WorkspaceFileIndexer {
     switch (language) {
       case 'javascript':
       case 'typescript':
-        return this.extractJavaScriptSymbols(content, filePath);
+        return scriptIndex?.symbols || [];
       case 'python':
         return this.extractPythonSymbols(content, filePath);
       case 'java':
@@ -264,66 +660,6 @@ export class WorkspaceFileIndexer {
     }
   }
 
-  private extractJavaScriptSymbols(content: string, filePath: string): CodeSymbol[] {
-    const symbols: CodeSymbol[] = [];
-    const lines = content.split('\n');
-
-    lines.forEach((line, lineNumber) => {
-      // Function declarations
-      const functionMatch = line.match(/(?:function\s+|const\s+|let\s+|var\s+)(\w+)\s*(?:=\s*(?:async\s+)?(?:function|\()|(?:\(.*?\)\s*=>))/);
-      if (functionMatch) {
-        symbols.push({
-          name: functionMatch[1],
-          type: 'function',
-          kind: 'declaration',
-          location: {
-            file: filePath,
-            line: lineNumber + 1,
-            column: functionMatch.index! + 1,
-          },
-          modifiers: [],
-          references: [],
-        });
-      }
-
-      // Class declarations
-      const classMatch = line.match(/class\s+(\w+)/);
-      if (classMatch) {
-        symbols.push({
-          name: classMatch[1],
-          type: 'class',
-          kind: 'declaration',
-          location: {
-            file: filePath,
-            line: lineNumber + 1,
-            column: classMatch.index! + 1,
-          },
-          modifiers: [],
-          references: [],
-        });
-      }
-
-      // Variable declarations
-      const varMatch = line.match(/(?:const|let|var)\s+(\w+)/);
-      if (varMatch) {
-        symbols.push({
-          name: varMatch[1],
-          type: 'variable',
-          kind: 'declaration',
-          location: {
-            file: filePath,
-            line: lineNumber + 1,
-            column: varMatch.index! + 1,
-          },
-          modifiers: [],
-          references: [],
-        });
-      }
-    });
-
-    return symbols;
-  }
-
   private extractPythonSymbols(content: string, filePath: string): CodeSymbol[] {
     const symbols: CodeSymbol[] = [];
     const lines = content.split('\n');
@@ -437,17 +773,16 @@ export class WorkspaceFileIndexer {
     return symbols;
   }
 
-  private extractImports(content: string, language?: string): any[] {
-    // Implementation would depend on language
-    return [];
+  private extractImports(content: string, language?: string, scriptIndex?: ScriptIndex): ImportStatement[] {
+    // Only TS/JS imports are extracted so far
+    return this.isScriptLanguage(language) ? scriptIndex?.imports || [] : [];
   }
 
-  private extractExports(content: string, language?: string): any[] {
-    // Implementation would depend on language
-    return [];
+  private extractExports(content: string, language?: string, scriptIndex?: ScriptIndex): ExportStatement[] {
+    return this.isScriptLanguage(language) ? scriptIndex?.exports || [] : [];
   }
 
-  private extractDependencies(content: string, language?: string): string[] {
+  private extractDependencies(content: string, language?: string, scriptIndex?: ScriptIndex): string[] {
     const dependencies: string[] = [];
 
     if (!language) return dependencies;
@@ -455,50 +790,58 @@ export class WorkspaceFileIndexer {
     switch (language) {
       case 'javascript':
       case 'typescript':
-        // Extract import statements
-        const importMatches = content.match(/import.*from\s+['"]([^'"]+)['"]/g);
-        if (importMatches) {
-          importMatches.forEach(match => {
-            const moduleMatch = match.match(/from\s+['"]([^'"]+)['"]/);
-            if (moduleMatch) {
-              dependencies.push(moduleMatch[1]);
-            }
-          });
-        }
+        // Module specifiers from import, export-from, require() and import()
+        dependencies.push(...(scriptIndex?.dependencies || []));
         break;
 
       case 'python':
-        // Extract import statements
-        const pythonImports = content.match(/(?:import|from)\s+(\w+)/g);
-        if (pythonImports) {
-          pythonImports.forEach(match => {
-            const moduleMatch = match.match(/(?:import|from)\s+(\w+)/);
-            if (moduleMatch) {
-              dependencies.push(moduleMatch[1]);
-            }
-          });
+        // Dotted module names; relative imports keep their leading dots and
+        // `from . import name` records the sibling module `.name`
+        for (const match of content.matchAll(/^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]*)/gm)) {
+          const moduleName = match[1];
+          if (/^\.+$/.test(moduleName)) {
+            match[2]
+              .replace(/[()]/g, '')
+              .split(',')
+              .map(name => name.trim().split(/\s+/)[0])
+              .filter(name => /^\w+$/.test(name))
+              .forEach(name => dependencies.push(`${moduleName}${name}`));
+          } else {
+            dependencies.push(moduleName);
+          }
+        }
+        for (const match of content.matchAll(/^[ \t]*import[ \t]+([^\n#]+)/gm)) {
+          match[1]
+            .split(',')
+            .map(name => name.trim().split(/\s+/)[0])
+            .filter(name => /^[\w.]+$/.test(name))
+            .forEach(name => dependencies.push(name));
         }
         break;
     }
 
-    return dependencies;
+    return [...new Set(dependencies)];
   }
 
-  private calculateComplexity(content: string, language?: string): any {
-    // Simplified complexity calculation
-    const lines = content.split('\n').length;
-    const cyclomaticComplexity = (content.match(/if|while|for|switch|catch/g) || []).length + 1;
-    
+  private calculateComplexity(filePath: string, content: string, language?: string): CodeComplexity {
+    const metrics = computeCodeMetrics(filePath, content, language);
+    if (metrics) return metrics;
+
+    // Other languages get a keyword estimate without Halstead measures
+    const linesOfCode = content.split('\n').filter(line => line.trim()).length;
+    const cyclomaticComplexity = (content.match(/\b(if|while|for|switch|catch|case)\b|&&|\|\|/g) || []).length + 1;
+
     return {
       cyclomatic: cyclomaticComplexity,
-      cognitive: cyclomaticComplexity * 1.2,
+      cognitive: cyclomaticComplexity,
       halstead: {
         vocabulary: 0,
         length: 0,
         difficulty: 0,
         effort: 0,
       },
-      maintainabilityIndex: Math.max(0, 171 - 5.2 * Math.log(lines) - 0.23 * cyclomaticComplexity),
+      maintainabilityIndex: maintainabilityIndex(0, cyclomaticComplexity, linesOfCode),
+      linesOfCode,
     };
   }
 
@@ -588,9 +931,8 @@ export class WorkspaceFileIndexer {
   }
 
   private async getFileContent(filePath: string): Promise<string | null> {
-    // This would integrate with the file storage service
-    // For now, return null as placeholder
-    return null;
+    const content = await new WorkspaceFileStorage(this.workspaceId).readFileContent(filePath);
+    return content ? content.toString('utf-8') : null;
   }
 
   private mapToFileIndex(dbIndex: any): FileIndex {
@@ -608,6 +950,7 @@ export class WorkspaceFileIndexer {
       complexity: dbIndex.complexity,
       lastIndexed: dbIndex.lastIndexed,
       indexVersion: dbIndex.indexVersion,
+      contentHash: dbIndex.contentHash || undefined,
     };
   }
 
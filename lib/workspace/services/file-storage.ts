@@ -3,20 +3,49 @@
  * Production-ready file storage and management for persistent workspaces
  */
 
-import { createHash } from 'crypto';
 import { basename, extname } from 'path';
+import { createTwoFilesPatch, structuredPatch } from 'diff';
 import { storageService } from '@/lib/infrastructure/services/storage';
-import { WorkspaceFile, FileMetadata, FilePermissions, FileType } from '../types';
+import {
+  WorkspaceFile,
+  FileMetadata,
+  FilePermissions,
+  FileType,
+  FileRevision,
+  FileRevisionDiff,
+  TrashItem,
+} from '../types';
+import { WorkspaceBlobStore } from './blob-store';
+import { indexQueue } from './index-queue';
+import { WorkspaceTrash } from './trash';
+import { WorkspaceStorageQuota } from './storage-quota';
 import { db } from '@/lib/db';
 import { config } from '@/lib/config/environment';
 
+export class WorkspaceFileError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WorkspaceFileError';
+  }
+}
+
+export interface DeleteFileOptions {
+  permanent?: boolean; // Skip the trash
+  deletedBy?: string;
+}
+
 export class WorkspaceFileStorage {
   private readonly bucketName: string;
   private readonly workspaceId: string;
+  private readonly blobStore: WorkspaceBlobStore;
+  private readonly quota: WorkspaceStorageQuota;
+  private inlineContent?: Promise<boolean>;
 
   constructor(workspaceId: string, bucketName?: string) {
     this.workspaceId = workspaceId;
     this.bucketName = bucketName || config.storage.bucketName || 'workspace-files';
+    this.blobStore = new WorkspaceBlobStore(this.bucketName);
+    this.quota = new WorkspaceStorageQuota(workspaceId);
   }
 
   // =============================================================================
@@ -31,51 +60,40 @@ export class WorkspaceFileStorage {
     content: Buffer | string,
     metadata?: Partial<FileMetadata>
   ): Promise<WorkspaceFile> {
-    const fileHash = this.calculateHash(content);
-    const storageKey = this.getStorageKey(path);
     const fileType = this.detectFileType(path, content);
     const isDirectory = false;
-
-    // Upload to MinIO storage
-    const uploadResult = await storageService.uploadObject({
-      file: new File([content], basename(path)),
-      key: storageKey,
-      bucket: this.bucketName,
-      metadata: {
-        workspaceId: this.workspaceId,
-        originalPath: path,
-        fileType: fileType.toString(),
-        hash: fileHash,
-        ...(metadata ? this.serializeMetadata(metadata) : {}),
-      },
-    });
-
-    if (!uploadResult.success) {
-      throw new Error(`Failed to store file: ${uploadResult.error}`);
-    }
-
-    // Create database record
-    const workspaceFile = await db.workspaceFile.create({
-      data: {
-        workspaceId: this.workspaceId,
-        path,
-        name: basename(path),
-        type: fileType,
-        size: Buffer.isBuffer(content) ? content.length : Buffer.byteLength(content),
-        mimeType: this.getMimeType(path),
-        encoding: 'utf-8',
-        hash: fileHash,
-        isDirectory,
-        permissions: this.getDefaultPermissions() as any,
-        metadata: {
-          ...this.analyzeFile(path, content),
-          ...metadata,
+    const size = Buffer.isBuffer(content) ? content.length : Buffer.byteLength(content);
+
+    // Rejected when it would take the workspace or organization past its quota
+    const workspaceFile = await this.quota.reserve(size, async () => {
+      const inlineContent = await this.getInlineContent(content);
+
+      // Create database record
+      return this.writeVersion(content, (tx, fileHash) => tx.workspaceFile.create({
+        data: {
+          workspaceId: this.workspaceId,
+          path,
+          name: basename(path),
+          type: fileType,
+          size,
+          mimeType: this.getMimeType(path),
+          encoding: 'utf-8',
+          hash: fileHash,
+          content: inlineContent,
+          isDirectory,
+          permissions: this.getDefaultPermissions() as any,
+          metadata: {
+            ...this.analyzeFile(path, content),
+            ...metadata,
+          },
+          version: 1,
+          lastAccessedAt: new Date(),
         },
-        version: 1,
-        lastAccessedAt: new Date(),
-      },
+      }));
     });
 
+    this.queueIndexing(path);
+
     return this.mapToWorkspaceFile(workspaceFile);
   }
 
@@ -94,15 +112,7 @@ export class WorkspaceFileStorage {
       return null;
     }
 
-    const storageKey = this.getStorageKey(path);
-    const downloadResult = await storageService.downloadObject({
-      bucket: this.bucketName,
-      key: storageKey,
-    });
-
-    if (!downloadResult.success) {
-      throw new Error(`Failed to retrieve file: ${downloadResult.error}`);
-    }
+    const content = await this.readContent(workspaceFile);
 
     // Update last accessed time
     await db.workspaceFile.update({
@@ -110,20 +120,34 @@ export class WorkspaceFileStorage {
       data: { lastAccessedAt: new Date() },
     });
 
-    const content = Buffer.from(await downloadResult.data!.arrayBuffer());
     return {
       file: this.mapToWorkspaceFile(workspaceFile),
       content,
     };
   }
 
+  /**
+   * Read a file's content without touching its access time
+   */
+  async readFileContent(path: string): Promise<Buffer | null> {
+    const workspaceFile = await db.workspaceFile.findFirst({
+      where: {
+        workspaceId: this.workspaceId,
+        path,
+      },
+    });
+
+    return workspaceFile ? this.readContent(workspaceFile) : null;
+  }
+
   /**
    * Update a file in the workspace
    */
   async updateFile(
     path: string,
     content: Buffer | string,
-    metadata?: Partial<FileMetadata>
+    metadata?: Partial<FileMetadata>,
+    revisionMessage?: string
   ): Promise<WorkspaceFile> {
     const existingFile = await db.workspaceFile.findFirst({
       where: {
@@ -133,54 +157,51 @@ export class WorkspaceFileStorage {
     });
 
     if (!existingFile) {
-      throw new Error(`File not found: ${path}`);
+      throw new WorkspaceFileError(`File not found: ${path}`, 'FILE_NOT_FOUND');
     }
 
-    const fileHash = this.calculateHash(content);
-    const storageKey = this.getStorageKey(path);
-
-    // Upload updated content
-    const uploadResult = await storageService.uploadObject({
-      file: new File([content], basename(path)),
-      key: storageKey,
-      bucket: this.bucketName,
-      metadata: {
-        workspaceId: this.workspaceId,
-        originalPath: path,
-        hash: fileHash,
-        version: (existingFile.version + 1).toString(),
-        ...metadata,
-      },
+    const size = Buffer.isBuffer(content) ? content.length : Buffer.byteLength(content);
+
+    // Rejected when the growth would take the workspace or organization past its quota
+    const updatedFile = await this.quota.reserve(size - Number(existingFile.size), async () => {
+      const inlineContent = await this.getInlineContent(content);
+
+      // Update database record
+      return this.writeVersion(content, (tx, fileHash) => tx.workspaceFile.update({
+        where: { id: existingFile.id },
+        data: {
+          size,
+          hash: fileHash,
+          content: inlineContent,
+          metadata: {
+            ...(typeof existingFile.metadata === 'object' ? existingFile.metadata : {}),
+            ...this.analyzeFile(path, content),
+            ...(metadata || {}),
+          } as any,
+          version: existingFile.version + 1,
+          updatedAt: new Date(),
+          lastAccessedAt: new Date(),
+        },
+      }), revisionMessage);
     });
 
-    if (!uploadResult.success) {
-      throw new Error(`Failed to update file: ${uploadResult.error}`);
-    }
-
-    // Update database record
-    const updatedFile = await db.workspaceFile.update({
-      where: { id: existingFile.id },
-      data: {
-        size: Buffer.isBuffer(content) ? content.length : Buffer.byteLength(content),
-        hash: fileHash,
-        metadata: {
-          ...(typeof existingFile.metadata === 'object' ? existingFile.metadata : {}),
-          ...this.analyzeFile(path, content),
-          ...(metadata || {}),
-        } as any,
-        version: existingFile.version + 1,
-        updatedAt: new Date(),
-        lastAccessedAt: new Date(),
-      },
-    });
+    await this.releaseContent(existingFile);
+    this.queueIndexing(path);
 
     return this.mapToWorkspaceFile(updatedFile);
   }
 
   /**
-   * Delete a file from the workspace
+   * Delete a file or directory tree. It is moved to the workspace trash
+   * unless the delete is permanent.
    */
-  async deleteFile(path: string): Promise<void> {
+  async deleteFile(path: string, options: DeleteFileOptions = {}): Promise<TrashItem | null> {
+    if (!options.permanent) {
+      return new WorkspaceTrash(this.workspaceId, this.bucketName).moveToTrash(path, {
+        deletedBy: options.deletedBy,
+      });
+    }
+
     const workspaceFile = await db.workspaceFile.findFirst({
       where: {
         workspaceId: this.workspaceId,
@@ -189,21 +210,31 @@ export class WorkspaceFileStorage {
     });
 
     if (!workspaceFile) {
-      throw new Error(`File not found: ${path}`);
+      throw new WorkspaceFileError(`File not found: ${path}`, 'FILE_NOT_FOUND');
     }
 
-    const storageKey = this.getStorageKey(path);
-
-    // Delete from MinIO
-    const deleteResult = await storageService.deleteObject(this.bucketName, storageKey);
-    if (!deleteResult.success) {
-      throw new Error(`Failed to delete file from storage: ${deleteResult.error}`);
-    }
+    // Revision rows cascade with the file, their blob references do not
+    const revisions = await db.workspaceFileRevision.findMany({
+      where: { fileId: workspaceFile.id },
+      select: { version: true, hash: true },
+    });
 
     // Delete from database
     await db.workspaceFile.delete({
       where: { id: workspaceFile.id },
     });
+    if (!workspaceFile.isDirectory) {
+      await this.quota.release(Number(workspaceFile.size));
+    }
+
+    // Unreferenced content is removed by blob garbage collection
+    await this.releaseContent(workspaceFile, revisions);
+    for (const revision of revisions) {
+      await this.blobStore.release(revision.hash);
+    }
+
+    this.queueIndexing(path);
+    return null;
   }
 
   /**
@@ -263,42 +294,15 @@ export class WorkspaceFileStorage {
     });
 
     if (!workspaceFile) {
-      throw new Error(`File not found: ${oldPath}`);
-    }
-
-    const oldStorageKey = this.getStorageKey(oldPath);
-    const newStorageKey = this.getStorageKey(newPath);
-
-    // Copy to new location in MinIO
-    // Note: MinIO doesn't have a native move operation, so we copy then delete
-    const downloadResult = await storageService.downloadObject({
-      bucket: this.bucketName,
-      key: oldStorageKey,
-    });
-
-    if (!downloadResult.success) {
-      throw new Error(`Failed to download file for move: ${downloadResult.error}`);
+      throw new WorkspaceFileError(`File not found: ${oldPath}`, 'FILE_NOT_FOUND');
     }
 
-    const uploadResult = await storageService.uploadObject({
-      file: new File([await downloadResult.data!.arrayBuffer()], basename(newPath)),
-      key: newStorageKey,
-      bucket: this.bucketName,
-      metadata: {
-        workspaceId: this.workspaceId,
-        originalPath: newPath,
-        movedFrom: oldPath,
-      },
-    });
-
-    if (!uploadResult.success) {
-      throw new Error(`Failed to upload file to new location: ${uploadResult.error}`);
+    // Content stored under the old path key would be lost by the move
+    if (await this.isLegacyContent(workspaceFile)) {
+      await this.adoptLegacyContent(workspaceFile);
     }
 
-    // Delete old file from MinIO
-    await storageService.deleteObject(this.bucketName, oldStorageKey);
-
-    // Update database record
+    // Content is addressed by hash, so a move only updates the record
     const updatedFile = await db.workspaceFile.update({
       where: { id: workspaceFile.id },
       data: {
@@ -308,42 +312,275 @@ export class WorkspaceFileStorage {
       },
     });
 
+    this.queueIndexing(oldPath, newPath);
+
     return this.mapToWorkspaceFile(updatedFile);
   }
 
+  // =============================================================================
+  // VERSION HISTORY
+  // =============================================================================
+
+  /**
+   * List all stored revisions of a file, newest first
+   */
+  async listRevisions(path: string): Promise<FileRevision[]> {
+    const workspaceFile = await this.findFileOrThrow(path);
+
+    const revisions = await db.workspaceFileRevision.findMany({
+      where: { fileId: workspaceFile.id },
+      orderBy: { version: 'desc' },
+    });
+
+    return revisions.map((revision: any) => this.mapToFileRevision(revision));
+  }
+
+  /**
+   * Retrieve the content of a specific file revision
+   */
+  async getRevision(
+    path: string,
+    version: number
+  ): Promise<{ revision: FileRevision; content: Buffer }> {
+    const workspaceFile = await this.findFileOrThrow(path);
+
+    const revision = await db.workspaceFileRevision.findUnique({
+      where: {
+        fileId_version: {
+          fileId: workspaceFile.id,
+          version,
+        },
+      },
+    });
+
+    if (!revision) {
+      throw new WorkspaceFileError(`Revision ${version} not found for ${path}`, 'REVISION_NOT_FOUND');
+    }
+
+    return {
+      revision: this.mapToFileRevision(revision),
+      content: await this.blobStore.get(revision.hash),
+    };
+  }
+
+  /**
+   * Produce a unified diff between two revisions of a file
+   */
+  async diffRevisions(path: string, fromVersion: number, toVersion: number): Promise<FileRevisionDiff> {
+    const [from, to] = await Promise.all([
+      this.getRevision(path, fromVersion),
+      this.getRevision(path, toVersion),
+    ]);
+
+    const oldText = from.content.toString('utf-8');
+    const newText = to.content.toString('utf-8');
+    const oldHeader = `v${fromVersion}`;
+    const newHeader = `v${toVersion}`;
+
+    let additions = 0;
+    let deletions = 0;
+    for (const hunk of structuredPatch(path, path, oldText, newText, oldHeader, newHeader).hunks) {
+      for (const line of hunk.lines) {
+        if (line.startsWith('+')) additions++;
+        else if (line.startsWith('-')) deletions++;
+      }
+    }
+
+    return {
+      path,
+      fromVersion,
+      toVersion,
+      patch: createTwoFilesPatch(path, path, oldText, newText, oldHeader, newHeader),
+      additions,
+      deletions,
+    };
+  }
+
+  /**
+   * Restore a past revision. The restored content is written as a new
+   * version so the history itself is never rewritten.
+   */
+  async restoreRevision(path: string, version: number): Promise<WorkspaceFile> {
+    const { content } = await this.getRevision(path, version);
+    return this.updateFile(path, content, undefined, `Restored from version ${version}`);
+  }
+
   // =============================================================================
   // UTILITY METHODS
   // =============================================================================
 
   private getStorageKey(path: string): string {
-    return `workspaces/${this.workspaceId}/files${path.startsWith('/') ? '' : '/'}${path}`;
+    return WorkspaceBlobStore.getLegacyStorageKey(this.workspaceId, path);
   }
 
   /**
-   * Serialize metadata for storage (convert non-string values to strings)
+   * Whether a record still reads its content from the path-based key
    */
-  private serializeMetadata(metadata: Partial<FileMetadata>): Record<string, string> {
-    const serialized: Record<string, string> = {};
-
-    for (const [key, value] of Object.entries(metadata)) {
-      if (value !== undefined && value !== null) {
-        if (typeof value === 'string') {
-          serialized[key] = value;
-        } else if (Array.isArray(value)) {
-          serialized[key] = JSON.stringify(value);
-        } else if (typeof value === 'object') {
-          serialized[key] = JSON.stringify(value);
-        } else {
-          serialized[key] = String(value);
-        }
-      }
+  private async isLegacyContent(dbFile: any): Promise<boolean> {
+    if (dbFile.isDirectory || typeof dbFile.content === 'string') {
+      return false;
+    }
+    return !dbFile.hash || !(await this.blobStore.has(dbFile.hash));
+  }
+
+  /**
+   * Move content from the path-based key into the blob store
+   */
+  private async adoptLegacyContent(dbFile: any): Promise<void> {
+    const content = await this.readContent(dbFile);
+    const { hash } = await this.blobStore.acquire(content);
+
+    await this.releaseOnFailure(hash, () => db.workspaceFile.update({
+      where: { id: dbFile.id },
+      data: { hash },
+    }));
+
+    await this.blobStore.deleteLegacyObject(this.workspaceId, dbFile.path);
+  }
+
+  /**
+   * Drop the content reference of a record whose content is being replaced
+   * or deleted, removing the path-keyed object of a legacy record. Records
+   * written without a reference, e.g. by the Pyodide file routes, release
+   * nothing.
+   */
+  private async releaseContent(
+    dbFile: any,
+    revisions?: Array<{ version: number; hash: string }>
+  ): Promise<void> {
+    if (await this.isLegacyContent(dbFile)) {
+      await this.blobStore.deleteLegacyObject(this.workspaceId, dbFile.path);
+      return;
+    }
+
+    const recorded = revisions ?? await db.workspaceFileRevision.findMany({
+      where: { fileId: dbFile.id, version: dbFile.version },
+      select: { version: true, hash: true },
+    });
+    if (WorkspaceBlobStore.holdsReference(dbFile, recorded)) {
+      await this.blobStore.release(dbFile.hash);
+    }
+  }
+
+  /**
+   * Run the database write that records an acquired blob, dropping the
+   * reference again if the write fails
+   */
+  private async releaseOnFailure<T>(hash: string, write: () => Promise<T>): Promise<T> {
+    try {
+      return await write();
+    } catch (error) {
+      await this.blobStore.release(hash);
+      throw error;
+    }
+  }
+
+  /**
+   * Read file content from the blob store, falling back to inline content
+   * and the path-based key used before content addressing
+   */
+  private async readContent(dbFile: any): Promise<Buffer> {
+    if (dbFile.hash && await this.blobStore.has(dbFile.hash)) {
+      return this.blobStore.get(dbFile.hash);
+    }
+
+    if (typeof dbFile.content === 'string') {
+      return Buffer.from(dbFile.content, 'utf-8');
+    }
+
+    const downloadResult = await storageService.downloadObject({
+      bucket: this.bucketName,
+      key: this.getStorageKey(dbFile.path),
+    });
+
+    if (!downloadResult.success) {
+      throw new Error(`Failed to retrieve file: ${downloadResult.error}`);
+    }
+
+    return Buffer.from(await downloadResult.data!.arrayBuffer());
+  }
+
+  /**
+   * Pyodide workspaces read text files from the inline content column, so
+   * it is kept in step with the blob store for them
+   */
+  private async getInlineContent(content: Buffer | string): Promise<string | null> {
+    if (!this.inlineContent) {
+      this.inlineContent = db.workspace
+        .findUnique({
+          where: { id: this.workspaceId },
+          select: { type: true },
+        })
+        .then((workspace: any) => workspace?.type === 'PYODIDE');
+    }
+
+    if (!(await this.inlineContent)) {
+      return null;
+    }
+
+    const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+    return buffer.includes(0) ? null : buffer.toString('utf-8');
+  }
+
+  /**
+   * Queue background re-indexing of changed paths. Indexing is best effort:
+   * writes neither wait for Redis nor fail when it is unavailable.
+   */
+  private queueIndexing(...paths: string[]): void {
+    indexQueue.enqueueInBackground(this.workspaceId, paths);
+  }
+
+  private async findFileOrThrow(path: string): Promise<any> {
+    const workspaceFile = await db.workspaceFile.findFirst({
+      where: {
+        workspaceId: this.workspaceId,
+        path,
+      },
+    });
+
+    if (!workspaceFile) {
+      throw new WorkspaceFileError(`File not found: ${path}`, 'FILE_NOT_FOUND');
     }
 
-    return serialized;
+    return workspaceFile;
   }
 
-  private calculateHash(content: Buffer | string): string {
-    return createHash('sha256').update(content).digest('hex');
+  /**
+   * Write a file version together with its immutable revision, in one
+   * transaction so neither exists without the other. Content is stored
+   * once per hash and shared across workspaces; the record and the
+   * revision each hold a reference, dropped again if the write fails.
+   */
+  private async writeVersion(
+    content: Buffer | string,
+    write: (tx: any, hash: string) => Promise<any>,
+    message?: string
+  ): Promise<any> {
+    const { hash } = await this.blobStore.acquire(content);
+    const { storageKey } = await this.releaseOnFailure(hash, () => this.blobStore.acquire(content));
+
+    try {
+      return await db.$transaction(async (tx: any) => {
+        const dbFile = await write(tx, hash);
+        await tx.workspaceFileRevision.create({
+          data: {
+            fileId: dbFile.id,
+            workspaceId: this.workspaceId,
+            path: dbFile.path,
+            version: dbFile.version,
+            hash,
+            size: dbFile.size,
+            storageKey,
+            message,
+          },
+        });
+        return dbFile;
+      });
+    } catch (error) {
+      await this.blobStore.release(hash);
+      await this.blobStore.release(hash);
+      throw error;
+    }
   }
 
   private detectFileType(path: string, content: Buffer | string): FileType {
@@ -438,7 +675,11 @@ export class WorkspaceFileStorage {
     // Detect programming language
     const languageMap: Record<string, string> = {
       '.js': 'javascript',
+      '.jsx': 'javascript',
+      '.mjs': 'javascript',
+      '.cjs': 'javascript',
       '.ts': 'typescript',
+      '.tsx': 'typescript',
       '.py': 'python',
       '.java': 'java',
       '.cpp': 'cpp',
@@ -475,6 +716,20 @@ export class WorkspaceFileStorage {
     return metadata;
   }
 
+  private mapToFileRevision(dbRevision: any): FileRevision {
+    return {
+      id: dbRevision.id,
+      fileId: dbRevision.fileId,
+      workspaceId: dbRevision.workspaceId,
+      path: dbRevision.path,
+      version: dbRevision.version,
+      hash: dbRevision.hash,
+      size: Number(dbRevision.size),
+      message: dbRevision.message ?? undefined,
+      createdAt: dbRevision.createdAt,
+    };
+  }
+
   private mapToWorkspaceFile(dbFile: any): WorkspaceFile {
     return {
       id: dbFile.id,
@@ -0,0 +1,442 @@
+/**
+ * Workspace Git File System
+ * Node-style promise fs used by isomorphic-git. The working tree is the
+ * workspace file store; the .git directory is kept in memory and persisted
+ * as a single compressed archive in object storage.
+ */
+
+import * as zlib from 'zlib';
+import { promisify } from 'util';
+import * as tar from 'tar-stream';
+import { Readable } from 'stream';
+import { WorkspaceFile } from '../types';
+import { WorkspaceFileStorage } from './file-storage';
+import { WorkspaceBlobStore } from './blob-store';
+import { storageService } from '@/lib/infrastructure/services/storage';
+import { config } from '@/lib/config/environment';
+
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+export const GIT_DIR = '/.git';
+
+interface GitFsStats {
+  type: 'file' | 'dir';
+  mode: number;
+  size: number;
+  ino: number;
+  uid: number;
+  gid: number;
+  dev: number;
+  mtimeMs: number;
+  ctimeMs: number;
+  isFile(): boolean;
+  isDirectory(): boolean;
+  isSymbolicLink(): boolean;
+}
+
+function fsError(code: string, path: string): NodeJS.ErrnoException {
+  const error: NodeJS.ErrnoException = new Error(`${code}: ${path}`);
+  error.code = code;
+  error.path = path;
+  return error;
+}
+
+function createStats(type: 'file' | 'dir', size: number, modifiedAt: Date): GitFsStats {
+  const time = modifiedAt.getTime();
+  return {
+    type,
+    mode: type === 'dir' ? 0o40000 : 0o100644,
+    size,
+    ino: 0,
+    uid: 0,
+    gid: 0,
+    dev: 0,
+    mtimeMs: time,
+    ctimeMs: time,
+    isFile: () => type === 'file',
+    isDirectory: () => type === 'dir',
+    isSymbolicLink: () => false,
+  };
+}
+
+// "/src//a.ts" -> "src/a.ts"
+function normalize(path: string): string {
+  return path.split('/').filter(Boolean).join('/');
+}
+
+function parentOf(path: string): string {
+  const index = path.lastIndexOf('/');
+  return index === -1 ? '' : path.slice(0, index);
+}
+
+export class WorkspaceGitFs {
+  private readonly workspaceId: string;
+  private readonly fileStorage: WorkspaceFileStorage;
+  private readonly bucketName: string;
+
+  // .git contents, keyed by path relative to the workspace root
+  private readonly gitFiles = new Map<string, Buffer>();
+  private readonly gitDirs = new Set<string>();
+  private gitDirty = false;
+
+  // Working tree metadata, keyed by normalized path
+  private readonly files = new Map<string, WorkspaceFile>();
+  private readonly dirs = new Set<string>();
+  private readonly contentCache = new Map<string, Buffer>();
+  private loaded = false;
+
+  readonly promises = {
+    readFile: this.readFile.bind(this),
+    writeFile: this.writeFile.bind(this),
+    unlink: this.unlink.bind(this),
+    readdir: this.readdir.bind(this),
+    mkdir: this.mkdir.bind(this),
+    rmdir: this.rmdir.bind(this),
+    stat: this.stat.bind(this),
+    lstat: this.stat.bind(this),
+    readlink: this.readlink.bind(this),
+    symlink: this.symlink.bind(this),
+  };
+
+  constructor(workspaceId: string, bucketName?: string) {
+    this.workspaceId = workspaceId;
+    this.bucketName = bucketName || config.storage.bucketName || 'workspace-files';
+    this.fileStorage = new WorkspaceFileStorage(workspaceId, this.bucketName);
+  }
+
+  // =============================================================================
+  // LIFECYCLE
+  // =============================================================================
+
+  /**
+   * Load working tree metadata and the persisted .git directory
+   */
+  async load(): Promise<void> {
+    if (this.loaded) return;
+
+    for (const file of await this.fileStorage.listFiles()) {
+      const path = normalize(file.path);
+      if (!path || path === '.git' || path.startsWith('.git/')) continue;
+
+      if (file.isDirectory) {
+        this.dirs.add(path);
+      } else {
+        this.files.set(path, file);
+      }
+      this.addImpliedDirs(this.dirs, parentOf(path));
+    }
+
+    await this.loadGitDir();
+    this.loaded = true;
+  }
+
+  /**
+   * Whether the workspace has a repository
+   */
+  hasRepository(): boolean {
+    return this.gitFiles.has('.git/HEAD');
+  }
+
+  /**
+   * Persist the .git directory if any git operation changed it
+   */
+  async persist(): Promise<void> {
+    if (!this.gitDirty) return;
+
+    const pack = tar.pack();
+    const chunks: Buffer[] = [];
+    pack.on('data', (chunk: unknown) => chunks.push(chunk as Buffer));
+    const finished = new Promise<void>((resolve, reject) => {
+      pack.on('end', () => resolve());
+      pack.on('error', reject);
+    });
+
+    for (const dir of this.gitDirs) {
+      pack.entry({ name: `${dir}/`, type: 'directory' });
+    }
+    for (const [path, content] of this.gitFiles) {
+      pack.entry({ name: path, size: content.length }, content);
+    }
+    pack.finalize();
+    await finished;
+
+    const archive = await gzip(Buffer.concat(chunks));
+    const uploadResult = await storageService.uploadObject({
+      file: new File([archive], 'repository.tar.gz'),
+      key: this.getArchiveKey(),
+      bucket: this.bucketName,
+      metadata: {
+        workspaceId: this.workspaceId,
+        type: 'git-repository',
+      },
+    });
+
+    if (!uploadResult.success) {
+      throw new Error(`Failed to store git repository: ${uploadResult.error}`);
+    }
+
+    this.gitDirty = false;
+  }
+
+  // =============================================================================
+  // FS API
+  // =============================================================================
+
+  async readFile(path: string, options?: { encoding?: string } | string): Promise<Buffer | string> {
+    const key = normalize(path);
+    const encoding = typeof options === 'string' ? options : options?.encoding;
+    let content: Buffer;
+
+    if (this.isGitPath(key)) {
+      const file = this.gitFiles.get(key);
+      if (!file) throw fsError('ENOENT', path);
+      content = file;
+    } else {
+      content = await this.readWorkingFile(key, path);
+    }
+
+    return encoding ? content.toString(encoding as BufferEncoding) : content;
+  }
+
+  async writeFile(path: string, data: Buffer | Uint8Array | string): Promise<void> {
+    const key = normalize(path);
+    const content = typeof data === 'string' ? Buffer.from(data, 'utf-8') : Buffer.from(data);
+
+    if (this.isGitPath(key)) {
+      this.addImpliedDirs(this.gitDirs, parentOf(key));
+      this.gitFiles.set(key, content);
+      this.gitDirty = true;
+      return;
+    }
+
+    if (this.dirs.has(key)) throw fsError('EISDIR', path);
+
+    const existing = this.files.get(key);
+    let file: WorkspaceFile;
+    if (existing) {
+      // Writes of unchanged content (common on checkout) are skipped
+      if (existing.hash === WorkspaceBlobStore.hashContent(content)) return;
+      file = await this.fileStorage.updateFile(existing.path, content, undefined, 'Updated by git');
+    } else {
+      await this.ensureWorkingDirs(parentOf(key));
+      file = await this.fileStorage.storeFile(key, content);
+    }
+
+    this.files.set(key, file);
+    this.contentCache.set(key, content);
+  }
+
+  async unlink(path: string): Promise<void> {
+    const key = normalize(path);
+
+    if (this.isGitPath(key)) {
+      if (!this.gitFiles.delete(key)) throw fsError('ENOENT', path);
+      this.gitDirty = true;
+      return;
+    }
+
+    const existing = this.files.get(key);
+    if (!existing) throw fsError('ENOENT', path);
+
+    // Content deleted by git stays recoverable from the repository
+    await this.fileStorage.deleteFile(existing.path, { permanent: true });
+    this.files.delete(key);
+    this.contentCache.delete(key);
+  }
+
+  async readdir(path: string): Promise<string[]> {
+    const key = normalize(path);
+    const names = new Set<string>();
+
+    if (this.isGitPath(key)) {
+      if (!this.gitDirs.has(key)) throw fsError('ENOENT', path);
+      this.collectChildren(key, [...this.gitFiles.keys(), ...this.gitDirs], names);
+      return [...names];
+    }
+
+    if (key && !this.dirs.has(key)) {
+      throw fsError(this.files.has(key) ? 'ENOTDIR' : 'ENOENT', path);
+    }
+
+    this.collectChildren(key, [...this.files.keys(), ...this.dirs], names);
+    if (!key && this.gitDirs.has('.git')) names.add('.git');
+
+    return [...names];
+  }
+
+  async mkdir(path: string): Promise<void> {
+    const key = normalize(path);
+
+    if (this.isGitPath(key)) {
+      if (this.gitDirs.has(key)) throw fsError('EEXIST', path);
+      this.addImpliedDirs(this.gitDirs, key);
+      this.gitDirty = true;
+      return;
+    }
+
+    if (!key || this.dirs.has(key) || this.files.has(key)) throw fsError('EEXIST', path);
+    await this.ensureWorkingDirs(key);
+  }
+
+  async rmdir(path: string): Promise<void> {
+    const key = normalize(path);
+    const prefix = `${key}/`;
+
+    if (this.isGitPath(key)) {
+      if (!this.gitDirs.has(key)) throw fsError('ENOENT', path);
+      const hasChildren = [...this.gitFiles.keys(), ...this.gitDirs].some(p => p.startsWith(prefix));
+      if (hasChildren) throw fsError('ENOTEMPTY', path);
+      this.gitDirs.delete(key);
+      this.gitDirty = true;
+      return;
+    }
+
+    if (!this.dirs.has(key)) throw fsError('ENOENT', path);
+    const hasChildren = [...this.files.keys(), ...this.dirs].some(p => p.startsWith(prefix));
+    if (hasChildren) throw fsError('ENOTEMPTY', path);
+
+    // Implied directories have no record of their own
+    const record = await this.fileStorage.listFiles(key)
+      .then(files => files.find(file => file.isDirectory && normalize(file.path) === key));
+    if (record) {
+      await this.fileStorage.deleteFile(record.path, { permanent: true });
+    }
+    this.dirs.delete(key);
+  }
+
+  async stat(path: string): Promise<GitFsStats> {
+    const key = normalize(path);
+
+    if (this.isGitPath(key)) {
+      const file = this.gitFiles.get(key);
+      if (file) return createStats('file', file.length, new Date(0));
+      if (this.gitDirs.has(key)) return createStats('dir', 0, new Date(0));
+      throw fsError('ENOENT', path);
+    }
+
+    if (!key || this.dirs.has(key)) return createStats('dir', 0, new Date(0));
+
+    const file = this.files.get(key);
+    if (!file) throw fsError('ENOENT', path);
+
+    return createStats('file', Number(file.size), new Date(file.updatedAt));
+  }
+
+  // The file store has no symlinks; lstat never reports one
+  async readlink(path: string): Promise<string> {
+    throw fsError('EINVAL', path);
+  }
+
+  // Checked-out symlinks become plain files holding the link target,
+  // as git does with core.symlinks=false
+  async symlink(target: string, path: string): Promise<void> {
+    await this.writeFile(path, target);
+  }
+
+  // =============================================================================
+  // HELPERS
+  // =============================================================================
+
+  private isGitPath(key: string): boolean {
+    return key === '.git' || key.startsWith('.git/');
+  }
+
+  private async readWorkingFile(key: string, path: string): Promise<Buffer> {
+    const cached = this.contentCache.get(key);
+    if (cached) return cached;
+
+    const file = this.files.get(key);
+    if (!file) {
+      throw fsError(this.dirs.has(key) ? 'EISDIR' : 'ENOENT', path);
+    }
+
+    const result = await this.fileStorage.getFile(file.path);
+    if (!result) throw fsError('ENOENT', path);
+
+    this.contentCache.set(key, result.content);
+    return result.content;
+  }
+
+  private async ensureWorkingDirs(key: string): Promise<void> {
+    if (!key) return;
+
+    const parts = key.split('/');
+    for (let i = 1; i <= parts.length; i++) {
+      const dir = parts.slice(0, i).join('/');
+      if (this.dirs.has(dir)) continue;
+
+      await this.fileStorage.createDirectory(dir);
+      this.dirs.add(dir);
+    }
+  }
+
+  private addImpliedDirs(dirs: Set<string>, key: string): void {
+    while (key) {
+      dirs.add(key);
+      key = parentOf(key);
+    }
+  }
+
+  private collectChildren(dir: string, paths: string[], names: Set<string>): void {
+    const prefix = dir ? `${dir}/` : '';
+
+    for (const path of paths) {
+      if (!path.startsWith(prefix) || path === dir) continue;
+      const name = path.slice(prefix.length).split('/')[0];
+      if (name) names.add(name);
+    }
+  }
+
+  private async loadGitDir(): Promise<void> {
+    const archiveKey = this.getArchiveKey();
+    const listResult = await storageService.listObjects(this.bucketName, archiveKey);
+    if (!listResult.success) {
+      throw new Error(`Failed to load git repository: ${listResult.error}`);
+    }
+
+    // No archive yet means the workspace has no repository
+    if (!listResult.data?.some(object => object.key === archiveKey)) return;
+
+    const downloadResult = await storageService.downloadObject({
+      bucket: this.bucketName,
+      key: archiveKey,
+    });
+
+    if (!downloadResult.success || !downloadResult.data) {
+      throw new Error(`Failed to load git repository: ${downloadResult.error}`);
+    }
+
+    const archive = await gunzip(Buffer.from(await downloadResult.data.arrayBuffer()));
+    const extract = tar.extract();
+
+    extract.on('entry', (header, stream, next) => {
+      const name = normalize(header.name);
+      const chunks: Buffer[] = [];
+
+      stream.on('data', (chunk: unknown) => {
+        chunks.push(chunk as Buffer);
+      });
+      stream.on('end', () => {
+        if (header.type === 'directory') {
+          this.gitDirs.add(name);
+        } else {
+          this.addImpliedDirs(this.gitDirs, parentOf(name));
+          this.gitFiles.set(name, Buffer.concat(chunks));
+        }
+        next();
+      });
+      stream.resume();
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      extract.on('finish', () => resolve());
+      extract.on('error', reject);
+      Readable.from([archive]).pipe(extract);
+    });
+  }
+
+  private getArchiveKey(): string {
+    return `workspaces/${this.workspaceId}/git/repository.tar.gz`;
+  }
+}
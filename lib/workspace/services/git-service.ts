@@ -0,0 +1,1086 @@
+/**
+ * Workspace Git Service
+ * Git operations on the workspace file store using isomorphic-git. Remotes
+ * are either HTTP(S) URLs or bare repositories under the configured local
+ * remotes root, which are read and written directly.
+ */
+
+import * as git from 'isomorphic-git';
+import nodeHttp from 'isomorphic-git/http/node';
+import * as nodeFs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import { createTwoFilesPatch } from 'diff';
+import {
+  GitState,
+  GitAuthor,
+  GitCommit,
+  GitBranch,
+  GitStash,
+  GitDiff,
+  GitRemoteCredentials,
+} from '../types';
+import { WorkspaceGitFs, GIT_DIR } from './git-fs';
+import { WorkspaceStateManager } from './state-manager';
+import { isBinaryContent } from './three-way-merge';
+import { config } from '@/lib/config/environment';
+import { redis } from '@/lib/redis';
+
+const DIR = '/';
+const MERGE_HEAD_PATH = `${GIT_DIR}/MERGE_HEAD`;
+const MERGE_CONFLICTS_PATH = `${GIT_DIR}/MERGE_CONFLICTS`;
+const STASH_LOG_PATH = `${GIT_DIR}/logs/refs/stash`;
+
+export class GitServiceError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'GitServiceError';
+  }
+}
+
+export interface CloneOptions {
+  ref?: string;
+  depth?: number;
+  credentials?: GitRemoteCredentials;
+}
+
+export interface RemoteOptions {
+  remote?: string;
+  branch?: string;
+  force?: boolean;
+  credentials?: GitRemoteCredentials;
+}
+
+interface ObjectStore {
+  fs: git.FsClient;
+  gitdir: string;
+}
+
+// Operations on one workspace are serialized across processes; each loads
+// and persists the whole .git directory, so concurrent operations would
+// lose writes. The lock expires unless its holder keeps renewing it.
+const LOCK_TTL_MS = 30 * 1000;
+const LOCK_WAIT_MS = 2 * 60 * 1000;
+const LOCK_RETRY_MS = 250;
+
+// Only the holder's token may renew or release the lock
+const RENEW_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('pexpire', KEYS[1], ARGV[2])
+end
+return 0`;
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('get', KEYS[1]) == ARGV[1] then
+  return redis.call('del', KEYS[1])
+end
+return 0`;
+
+async function withRepositoryLock<T>(workspaceId: string, task: () => Promise<T>): Promise<T> {
+  const key = `workspace-git:lock:${workspaceId}`;
+  const token = randomUUID();
+  const deadline = Date.now() + LOCK_WAIT_MS;
+
+  while ((await redis.set(key, token, 'PX', LOCK_TTL_MS, 'NX')) !== 'OK') {
+    if (Date.now() >= deadline) {
+      throw new GitServiceError('Another git operation is running in this workspace', 'REPOSITORY_LOCKED');
+    }
+    await new Promise(resolve => setTimeout(resolve, LOCK_RETRY_MS));
+  }
+
+  const renewal = setInterval(() => {
+    redis.eval(RENEW_LOCK_SCRIPT, 1, key, token, LOCK_TTL_MS).catch(error => {
+      console.error(`Failed to renew git lock of workspace ${workspaceId}:`, error);
+    });
+  }, LOCK_TTL_MS / 3);
+
+  try {
+    return await task();
+  } finally {
+    clearInterval(renewal);
+    await redis.eval(RELEASE_LOCK_SCRIPT, 1, key, token).catch(error => {
+      console.error(`Failed to release git lock of workspace ${workspaceId}:`, error);
+    });
+  }
+}
+
+export class WorkspaceGitService {
+  private readonly workspaceId: string;
+  private readonly stateManager: WorkspaceStateManager;
+
+  constructor(workspaceId: string) {
+    this.workspaceId = workspaceId;
+    this.stateManager = new WorkspaceStateManager(workspaceId);
+  }
+
+  // =============================================================================
+  // REPOSITORY
+  // =============================================================================
+
+  /**
+   * Initialize a repository in the workspace
+   */
+  async init(defaultBranch: string = 'main'): Promise<GitState> {
+    return this.update(async fs => {
+      if (fs.hasRepository()) {
+        throw new GitServiceError('Workspace already has a git repository', 'REPOSITORY_EXISTS');
+      }
+
+      await git.init({ fs, dir: DIR, defaultBranch });
+    }, true);
+  }
+
+  /**
+   * Clone a remote into the workspace. Tracked files overwrite existing
+   * workspace files with the same path.
+   */
+  async clone(url: string, options: CloneOptions = {}): Promise<GitState> {
+    return this.update(async fs => {
+      if (fs.hasRepository()) {
+        throw new GitServiceError('Workspace already has a git repository', 'REPOSITORY_EXISTS');
+      }
+
+      if (!isLocalRemote(url)) {
+        await git.clone({
+          fs,
+          http,
+          dir: DIR,
+          url,
+          ref: options.ref,
+          depth: options.depth,
+          singleBranch: !!options.ref,
+          onAuth: getAuthCallback(options.credentials),
+        });
+        return;
+      }
+
+      const gitdir = resolveLocalRemote(url);
+      const branch = options.ref || await git.currentBranch({ fs: nodeFs, gitdir }) || 'main';
+
+      await git.init({ fs, dir: DIR, defaultBranch: branch });
+      await git.addRemote({ fs, dir: DIR, remote: 'origin', url });
+      await this.fetchLocal(fs, 'origin', url);
+
+      const oid = await resolveRefOrNull(fs, `refs/remotes/origin/${branch}`);
+      if (!oid) {
+        // Cloning an empty repository leaves an unborn branch
+        return;
+      }
+
+      await git.writeRef({ fs, dir: DIR, ref: `refs/heads/${branch}`, value: oid });
+      await this.setUpstream(fs, branch, 'origin');
+      await git.checkout({ fs, dir: DIR, ref: branch, force: true });
+    }, true);
+  }
+
+  /**
+   * Current git state; a workspace without a repository has an empty state
+   */
+  async getState(): Promise<GitState> {
+    const state = await this.withRepository(fs => this.readState(fs), { allowMissing: true });
+    await this.stateManager.updateGitState(state);
+    return state;
+  }
+
+  // =============================================================================
+  // STAGING AND COMMITS
+  // =============================================================================
+
+  /**
+   * Stage paths; all changes are staged when no paths are given
+   */
+  async stage(paths: string[] = []): Promise<GitState> {
+    return this.update(async fs => {
+      const matrix = await git.statusMatrix({ fs, dir: DIR });
+      const changed = new Map(
+        matrix
+          .filter(([, head, workdir, stage]) => !(head === 1 && workdir === 1 && stage === 1))
+          .map(row => [row[0], row])
+      );
+      const conflicts = await this.readConflicts(fs);
+      const targets = paths.length > 0 ? paths.map(normalizePath) : [...changed.keys(), ...conflicts];
+
+      for (const filepath of new Set(targets)) {
+        const row = changed.get(filepath);
+        if (row && row[2] === 0) {
+          await git.remove({ fs, dir: DIR, filepath });
+        } else {
+          await git.add({ fs, dir: DIR, filepath });
+        }
+      }
+
+      // Staging a conflicted file marks it as resolved
+      const remaining = conflicts.filter(filepath => !targets.includes(filepath));
+      if (remaining.length !== conflicts.length) {
+        await this.writeConflicts(fs, remaining);
+      }
+    });
+  }
+
+  /**
+   * Unstage paths; everything is unstaged when no paths are given
+   */
+  async unstage(paths: string[] = []): Promise<GitState> {
+    return this.update(async fs => {
+      const targets = paths.length > 0
+        ? paths.map(normalizePath)
+        : (await this.readStatus(fs)).staged;
+
+      for (const filepath of targets) {
+        await git.resetIndex({ fs, dir: DIR, filepath });
+      }
+    });
+  }
+
+  /**
+   * Commit staged changes. An in-progress merge is concluded with a merge commit.
+   */
+  async commit(message: string, author: GitAuthor): Promise<GitState> {
+    return this.update(async fs => {
+      const conflicts = await this.readConflicts(fs);
+      if (conflicts.length > 0) {
+        throw new GitServiceError(
+          `Resolve and stage conflicted files before committing: ${conflicts.join(', ')}`,
+          'UNRESOLVED_CONFLICTS'
+        );
+      }
+
+      const mergeHead = await readGitFile(fs, MERGE_HEAD_PATH);
+      const head = await resolveRefOrNull(fs, 'HEAD');
+
+      if (!mergeHead && (await this.readStatus(fs)).staged.length === 0) {
+        throw new GitServiceError('Nothing staged to commit', 'NOTHING_TO_COMMIT');
+      }
+
+      await git.commit({
+        fs,
+        dir: DIR,
+        message,
+        author,
+        parent: mergeHead && head ? [head, mergeHead] : undefined,
+      });
+
+      if (mergeHead) {
+        await this.clearMergeState(fs);
+      }
+    });
+  }
+
+  /**
+   * Commit history, newest first
+   */
+  async log(options: { ref?: string; depth?: number; path?: string } = {}): Promise<GitCommit[]> {
+    return this.withRepository(async fs => {
+      if (!(await resolveRefOrNull(fs, options.ref || 'HEAD'))) {
+        return [];
+      }
+
+      const entries = await git.log({
+        fs,
+        dir: DIR,
+        ref: options.ref,
+        depth: options.depth,
+        filepath: options.path ? normalizePath(options.path) : undefined,
+      });
+
+      // History shared by both sides of a merge is listed once per side
+      const unique = [...new Map(entries.map(entry => [entry.oid, entry])).values()]
+        .sort((a, b) => b.commit.committer.timestamp - a.commit.committer.timestamp);
+
+      return unique.map(entry => ({
+        oid: entry.oid,
+        message: entry.commit.message.trim(),
+        author: {
+          name: entry.commit.author.name,
+          email: entry.commit.author.email,
+          timestamp: new Date(entry.commit.author.timestamp * 1000),
+        },
+        parents: entry.commit.parent,
+      }));
+    });
+  }
+
+  /**
+   * Diff of a file: HEAD against the index when staged, otherwise the index
+   * against the working tree
+   */
+  async diff(filepath: string, staged: boolean = false): Promise<GitDiff> {
+    return this.withRepository(async fs => {
+      const key = normalizePath(filepath);
+      const indexContent = await this.readIndexBlob(fs, key);
+      let original: Buffer | null;
+      let modified: Buffer | null;
+
+      if (staged) {
+        original = await this.readHeadBlob(fs, key);
+        modified = indexContent;
+      } else {
+        // Untracked files are diffed against nothing
+        original = indexContent;
+        modified = await fs.promises.readFile(key).then(
+          content => content as Buffer,
+          () => null
+        );
+      }
+
+      const binary = [original, modified].some(content => content && isBinaryContent(content));
+      const originalText = binary || !original ? '' : original.toString('utf-8');
+      const modifiedText = binary || !modified ? '' : modified.toString('utf-8');
+
+      return {
+        path: key,
+        staged,
+        original: originalText,
+        modified: modifiedText,
+        patch: binary ? '' : createTwoFilesPatch(
+          original ? `a/${key}` : '/dev/null',
+          modified ? `b/${key}` : '/dev/null',
+          originalText,
+          modifiedText
+        ),
+        binary,
+      };
+    });
+  }
+
+  // =============================================================================
+  // BRANCHES
+  // =============================================================================
+
+  /**
+   * Local and remote-tracking branches
+   */
+  async listBranches(): Promise<GitBranch[]> {
+    return this.withRepository(async fs => {
+      const current = await git.currentBranch({ fs, dir: DIR });
+      const branches: GitBranch[] = [];
+
+      for (const name of await git.listBranches({ fs, dir: DIR })) {
+        branches.push({
+          name,
+          current: name === current,
+          commit: await resolveRefOrNull(fs, `refs/heads/${name}`) || undefined,
+        });
+      }
+
+      for (const { remote } of await git.listRemotes({ fs, dir: DIR })) {
+        for (const name of await git.listBranches({ fs, dir: DIR, remote })) {
+          if (name === 'HEAD') continue;
+          branches.push({
+            name: `${remote}/${name}`,
+            current: false,
+            remote,
+            commit: await resolveRefOrNull(fs, `refs/remotes/${remote}/${name}`) || undefined,
+          });
+        }
+      }
+
+      return branches;
+    });
+  }
+
+  /**
+   * Create a branch at HEAD
+   */
+  async createBranch(name: string, checkout: boolean = false): Promise<GitState> {
+    return this.update(async fs => {
+      if (checkout) {
+        await this.assertNoMerge(fs);
+      }
+      await git.branch({ fs, dir: DIR, ref: name, checkout });
+    });
+  }
+
+  /**
+   * Check out a branch. A remote-tracking branch without a local branch of
+   * the same name is checked out as a new tracking branch.
+   */
+  async checkout(ref: string, force: boolean = false): Promise<GitState> {
+    return this.update(async fs => {
+      await this.assertNoMerge(fs);
+
+      const remotes = await git.listRemotes({ fs, dir: DIR });
+      const remote = remotes.find(({ remote }) => ref.startsWith(`${remote}/`));
+      const localBranches = await git.listBranches({ fs, dir: DIR });
+
+      if (remote && !localBranches.includes(ref)) {
+        await git.checkout({
+          fs,
+          dir: DIR,
+          ref: ref.slice(remote.remote.length + 1),
+          remote: remote.remote,
+          force,
+        });
+        return;
+      }
+
+      await git.checkout({ fs, dir: DIR, ref, force });
+    });
+  }
+
+  /**
+   * Delete a local branch other than the current one
+   */
+  async deleteBranch(name: string): Promise<GitState> {
+    return this.update(async fs => {
+      if (name === await git.currentBranch({ fs, dir: DIR })) {
+        throw new GitServiceError('Cannot delete the checked out branch', 'INVALID_ARGUMENT');
+      }
+      await git.deleteBranch({ fs, dir: DIR, ref: name });
+    });
+  }
+
+  /**
+   * Merge a branch into the current branch. Conflicts are written to the
+   * working tree and recorded until resolved or aborted.
+   */
+  async merge(ref: string, author: GitAuthor): Promise<GitState> {
+    return this.update(async fs => {
+      await this.assertClean(fs);
+      await this.mergeRef(fs, ref, author);
+    });
+  }
+
+  /**
+   * Abandon an in-progress merge and restore HEAD
+   */
+  async abortMerge(): Promise<GitState> {
+    return this.update(async fs => {
+      if (!(await readGitFile(fs, MERGE_HEAD_PATH))) {
+        throw new GitServiceError('No merge in progress', 'INVALID_ARGUMENT');
+      }
+
+      await git.abortMerge({ fs, dir: DIR });
+      await this.clearMergeState(fs);
+    });
+  }
+
+  // =============================================================================
+  // STASH
+  // =============================================================================
+
+  /**
+   * Stash entries, newest first
+   */
+  async listStashes(): Promise<GitStash[]> {
+    return this.withRepository(fs => this.readStashes(fs));
+  }
+
+  /**
+   * Stash tracked changes and reset the working tree to HEAD
+   */
+  async stash(message: string | undefined, author: GitAuthor): Promise<GitState> {
+    return this.update(async fs => {
+      await this.assertNoMerge(fs);
+
+      const status = await this.readStatus(fs);
+      if (status.staged.length === 0 && status.unstaged.length === 0) {
+        throw new GitServiceError('No local changes to stash', 'NOTHING_TO_STASH');
+      }
+
+      // Stash commits take their author from the repository config
+      await git.setConfig({ fs, dir: DIR, path: 'user.name', value: author.name });
+      await git.setConfig({ fs, dir: DIR, path: 'user.email', value: author.email });
+      await git.stash({ fs, dir: DIR, op: 'push', message: message || '' });
+    });
+  }
+
+  /**
+   * Apply a stash entry; pop also drops it
+   */
+  async applyStash(index: number = 0, pop: boolean = false): Promise<GitState> {
+    return this.update(async fs => {
+      await this.assertStashExists(fs, index);
+      await git.stash({ fs, dir: DIR, op: pop ? 'pop' : 'apply', refIdx: index });
+    });
+  }
+
+  /**
+   * Drop a stash entry
+   */
+  async dropStash(index: number = 0): Promise<GitState> {
+    return this.update(async fs => {
+      await this.assertStashExists(fs, index);
+      await git.stash({ fs, dir: DIR, op: 'drop', refIdx: index });
+    });
+  }
+
+  // =============================================================================
+  // REMOTES
+  // =============================================================================
+
+  /**
+   * Add a remote; local remotes must be under the configured root
+   */
+  async addRemote(name: string, url: string): Promise<GitState> {
+    if (isLocalRemote(url)) {
+      resolveLocalRemote(url);
+    } else {
+      await assertAllowedRemote(url);
+    }
+
+    return this.update(async fs => {
+      await git.addRemote({ fs, dir: DIR, remote: name, url });
+    });
+  }
+
+  /**
+   * Remove a remote and its remote-tracking branches
+   */
+  async removeRemote(name: string): Promise<GitState> {
+    return this.update(async fs => {
+      await this.getRemoteUrl(fs, name);
+      await git.deleteRemote({ fs, dir: DIR, remote: name });
+    });
+  }
+
+  /**
+   * Update remote-tracking branches
+   */
+  async fetch(options: RemoteOptions = {}): Promise<GitState> {
+    return this.update(async fs => {
+      await this.fetchRemote(fs, options.remote || 'origin', options.credentials);
+    });
+  }
+
+  /**
+   * Push a branch (default: current) to a remote. Non-fast-forward updates
+   * are rejected unless forced.
+   */
+  async push(options: RemoteOptions = {}): Promise<GitState> {
+    return this.update(async fs => {
+      const remote = options.remote || 'origin';
+      const url = await this.getRemoteUrl(fs, remote);
+      const branch = options.branch || await this.getCurrentBranch(fs);
+
+      if (!isLocalRemote(url)) {
+        const result = await git.push({
+          fs,
+          http,
+          dir: DIR,
+          remote,
+          ref: branch,
+          force: options.force,
+          onAuth: getAuthCallback(options.credentials),
+        });
+        if (!result.ok) {
+          throw new GitServiceError(result.error || 'Push failed', 'PUSH_FAILED');
+        }
+        return;
+      }
+
+      const gitdir = resolveLocalRemote(url);
+      const oid = await resolveRefOrNull(fs, `refs/heads/${branch}`);
+      if (!oid) {
+        throw new GitServiceError(`Branch ${branch} has no commits`, 'BRANCH_NOT_FOUND');
+      }
+
+      const remoteOid = await resolveRefOrNull(nodeFs, `refs/heads/${branch}`, gitdir);
+      if (remoteOid === oid) return;
+
+      if (remoteOid && !options.force) {
+        const fastForward = await git.isDescendent({ fs, dir: DIR, oid, ancestor: remoteOid, depth: -1 })
+          .catch(() => false);
+        if (!fastForward) {
+          throw new GitServiceError(
+            `Push rejected: ${remote}/${branch} has commits that are not in ${branch}; pull first`,
+            'NON_FAST_FORWARD'
+          );
+        }
+      }
+
+      await copyObjects({ fs, gitdir: GIT_DIR }, { fs: nodeFs, gitdir }, oid);
+      await git.writeRef({ fs: nodeFs, gitdir, ref: `refs/heads/${branch}`, value: oid, force: true });
+      await git.writeRef({ fs, dir: DIR, ref: `refs/remotes/${remote}/${branch}`, value: oid, force: true });
+    });
+  }
+
+  /**
+   * Fetch and merge the remote branch into the current branch
+   */
+  async pull(author: GitAuthor, options: RemoteOptions = {}): Promise<GitState> {
+    return this.update(async fs => {
+      await this.assertClean(fs);
+
+      const remote = options.remote || 'origin';
+      const branch = options.branch || await this.getCurrentBranch(fs);
+
+      await this.fetchRemote(fs, remote, options.credentials);
+
+      const ref = `refs/remotes/${remote}/${branch}`;
+      if (!(await resolveRefOrNull(fs, ref))) {
+        throw new GitServiceError(`Remote branch ${remote}/${branch} not found`, 'BRANCH_NOT_FOUND');
+      }
+
+      await this.mergeRef(fs, ref, author, `Merge branch '${branch}' of ${remote}`);
+    });
+  }
+
+  // =============================================================================
+  // HELPERS
+  // =============================================================================
+
+  private async withRepository<T>(
+    task: (fs: WorkspaceGitFs) => Promise<T>,
+    options: { write?: boolean; allowMissing?: boolean } = {}
+  ): Promise<T> {
+    return withRepositoryLock(this.workspaceId, async () => {
+      const fs = new WorkspaceGitFs(this.workspaceId);
+      await fs.load();
+
+      if (!options.allowMissing && !fs.hasRepository()) {
+        throw new GitServiceError('Workspace has no git repository', 'REPOSITORY_NOT_FOUND');
+      }
+
+      try {
+        return await task(fs);
+      } catch (error) {
+        throw toServiceError(error);
+      } finally {
+        // Working tree writes are already stored, so keep .git in step with them
+        if (options.write) {
+          await fs.persist();
+        }
+      }
+    });
+  }
+
+  /**
+   * Run a mutating operation and record the resulting state
+   */
+  private async update(task: (fs: WorkspaceGitFs) => Promise<void>, allowMissing: boolean = false): Promise<GitState> {
+    const state = await this.withRepository(async fs => {
+      await task(fs);
+      return this.readState(fs);
+    }, { write: true, allowMissing });
+
+    await this.stateManager.updateGitState(state);
+    return state;
+  }
+
+  private async readState(fs: WorkspaceGitFs): Promise<GitState> {
+    if (!fs.hasRepository()) {
+      return {
+        status: { staged: [], unstaged: [], untracked: [], conflicts: [] },
+        stashes: [],
+      };
+    }
+
+    const remotes = await git.listRemotes({ fs, dir: DIR });
+    const origin = remotes.find(({ remote }) => remote === 'origin') || remotes[0];
+    const stashes = await this.readStashes(fs);
+
+    return {
+      repository: {
+        url: origin?.url || '',
+        branch: await git.currentBranch({ fs, dir: DIR }) || 'HEAD',
+        commit: await resolveRefOrNull(fs, 'HEAD') || '',
+        remotes: remotes.map(({ remote, url }) => ({ name: remote, url })),
+      },
+      status: await this.readStatus(fs),
+      stashes: stashes.map(stash => ({
+        id: `stash@{${stash.index}}`,
+        message: stash.message,
+        date: stash.date,
+      })),
+      merging: !!(await readGitFile(fs, MERGE_HEAD_PATH)),
+    };
+  }
+
+  /**
+   * Classify statusMatrix rows. Columns are HEAD (0 absent, 1 present),
+   * working tree (0 absent, 1 same as HEAD, 2 differs) and index
+   * (0 absent, 1 same as HEAD, 2 same as working tree, 3 differs from both).
+   */
+  private async readStatus(fs: WorkspaceGitFs): Promise<GitState['status']> {
+    const conflicts = await this.readConflicts(fs);
+    const status: GitState['status'] = { staged: [], unstaged: [], untracked: [], conflicts };
+
+    for (const [filepath, head, workdir, stage] of await git.statusMatrix({ fs, dir: DIR })) {
+      if (conflicts.includes(filepath)) continue;
+
+      if (head === 0 && stage === 0) {
+        if (workdir !== 0) status.untracked.push(filepath);
+        continue;
+      }
+
+      if (stage !== head) {
+        status.staged.push(filepath);
+      }
+      if (stage === 3 || (stage === 1 && workdir !== 1) || (stage === 0 && workdir !== 0)) {
+        status.unstaged.push(filepath);
+      }
+    }
+
+    return status;
+  }
+
+  private async readStashes(fs: WorkspaceGitFs): Promise<GitStash[]> {
+    const log = await readGitFile(fs, STASH_LOG_PATH);
+    if (!log) return [];
+
+    // "<old> <new> <name> <<email>> <timestamp> <tz>\t<message>", oldest first
+    return log
+      .split('\n')
+      .filter(Boolean)
+      .reverse()
+      .map((line, index) => {
+        const [header, message = ''] = line.split('\t');
+        const fields = header.split(' ');
+        return {
+          index,
+          message,
+          commit: fields[1],
+          date: new Date(Number(fields[fields.length - 2]) * 1000),
+        };
+      });
+  }
+
+  private async readConflicts(fs: WorkspaceGitFs): Promise<string[]> {
+    const conflicts = await readGitFile(fs, MERGE_CONFLICTS_PATH);
+    return conflicts ? conflicts.split('\n').filter(Boolean) : [];
+  }
+
+  private async writeConflicts(fs: WorkspaceGitFs, conflicts: string[]): Promise<void> {
+    await fs.promises.writeFile(MERGE_CONFLICTS_PATH, conflicts.join('\n'));
+  }
+
+  private async clearMergeState(fs: WorkspaceGitFs): Promise<void> {
+    for (const filepath of [MERGE_HEAD_PATH, MERGE_CONFLICTS_PATH]) {
+      await fs.promises.unlink(filepath).catch(() => undefined);
+    }
+  }
+
+  private async mergeRef(fs: WorkspaceGitFs, theirs: string, author: GitAuthor, message?: string): Promise<void> {
+    const ours = await this.getCurrentBranch(fs);
+
+    try {
+      const result = await git.merge({
+        fs,
+        dir: DIR,
+        ours,
+        theirs,
+        author,
+        message,
+        abortOnConflict: false,
+      });
+
+      // merge moves the branch; checkout brings the working tree along
+      if (!result.alreadyMerged) {
+        await git.checkout({ fs, dir: DIR, ref: ours });
+      }
+    } catch (error) {
+      if (!(error instanceof git.Errors.MergeConflictError)) {
+        throw error;
+      }
+
+      const theirOid = await git.resolveRef({ fs, dir: DIR, ref: theirs });
+      await fs.promises.writeFile(MERGE_HEAD_PATH, `${theirOid}\n`);
+      await this.writeConflicts(fs, error.data.filepaths);
+    }
+  }
+
+  private async fetchRemote(fs: WorkspaceGitFs, remote: string, credentials?: GitRemoteCredentials): Promise<void> {
+    const url = await this.getRemoteUrl(fs, remote);
+
+    if (isLocalRemote(url)) {
+      await this.fetchLocal(fs, remote, url);
+      return;
+    }
+
+    await git.fetch({
+      fs,
+      http,
+      dir: DIR,
+      remote,
+      onAuth: getAuthCallback(credentials),
+    });
+  }
+
+  private async fetchLocal(fs: WorkspaceGitFs, remote: string, url: string): Promise<void> {
+    const gitdir = resolveLocalRemote(url);
+
+    for (const branch of await git.listBranches({ fs: nodeFs, gitdir })) {
+      const oid = await git.resolveRef({ fs: nodeFs, gitdir, ref: `refs/heads/${branch}` });
+      await copyObjects({ fs: nodeFs, gitdir }, { fs, gitdir: GIT_DIR }, oid);
+      await git.writeRef({ fs, dir: DIR, ref: `refs/remotes/${remote}/${branch}`, value: oid, force: true });
+    }
+  }
+
+  private async setUpstream(fs: WorkspaceGitFs, branch: string, remote: string): Promise<void> {
+    await git.setConfig({ fs, dir: DIR, path: `branch.${branch}.remote`, value: remote });
+    await git.setConfig({ fs, dir: DIR, path: `branch.${branch}.merge`, value: `refs/heads/${branch}` });
+  }
+
+  private async getRemoteUrl(fs: WorkspaceGitFs, remote: string): Promise<string> {
+    const remotes = await git.listRemotes({ fs, dir: DIR });
+    const match = remotes.find(entry => entry.remote === remote);
+    if (!match) {
+      throw new GitServiceError(`Remote ${remote} not found`, 'REMOTE_NOT_FOUND');
+    }
+    return match.url;
+  }
+
+  private async getCurrentBranch(fs: WorkspaceGitFs): Promise<string> {
+    const branch = await git.currentBranch({ fs, dir: DIR });
+    if (!branch) {
+      throw new GitServiceError('HEAD is detached; check out a branch first', 'DETACHED_HEAD');
+    }
+    return branch;
+  }
+
+  private async readHeadBlob(fs: WorkspaceGitFs, filepath: string): Promise<Buffer | null> {
+    const head = await resolveRefOrNull(fs, 'HEAD');
+    if (!head) return null;
+
+    return git.readBlob({ fs, dir: DIR, oid: head, filepath }).then(
+      ({ blob }) => Buffer.from(blob),
+      () => null
+    );
+  }
+
+  private async readIndexBlob(fs: WorkspaceGitFs, filepath: string): Promise<Buffer | null> {
+    // Walk only the directories leading to the file
+    const results: unknown[] = await git.walk({
+      fs,
+      dir: DIR,
+      trees: [git.STAGE()],
+      map: async (entryPath, [entry]) => {
+        if (entryPath === filepath) return entry ? entry.oid() : null;
+        if (entryPath === '.' || filepath.startsWith(`${entryPath}/`)) return true;
+        return null;
+      },
+    });
+
+    const oid = results.find((result): result is string => typeof result === 'string');
+    if (!oid) return null;
+
+    const { blob } = await git.readBlob({ fs, dir: DIR, oid });
+    return Buffer.from(blob);
+  }
+
+  private async assertNoMerge(fs: WorkspaceGitFs): Promise<void> {
+    if (await readGitFile(fs, MERGE_HEAD_PATH)) {
+      throw new GitServiceError('A merge is in progress; commit or abort it first', 'MERGE_IN_PROGRESS');
+    }
+  }
+
+  private async assertClean(fs: WorkspaceGitFs): Promise<void> {
+    await this.assertNoMerge(fs);
+
+    const status = await this.readStatus(fs);
+    if (status.staged.length > 0 || status.unstaged.length > 0) {
+      throw new GitServiceError('Commit or stash local changes first', 'DIRTY_WORKING_TREE');
+    }
+  }
+
+  private async assertStashExists(fs: WorkspaceGitFs, index: number): Promise<void> {
+    const stashes = await this.readStashes(fs);
+    if (!stashes.some(stash => stash.index === index)) {
+      throw new GitServiceError(`Stash stash@{${index}} not found`, 'STASH_NOT_FOUND');
+    }
+  }
+}
+
+// =============================================================================
+// REMOTE TRANSPORT
+// =============================================================================
+
+function isLocalRemote(url: string): boolean {
+  return !/^https?:\/\//i.test(url);
+}
+
+// Loopback, private, link-local, shared and reserved ranges
+const BLOCKED_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+function isBlockedAddress(address: string): boolean {
+  // IPv4-mapped IPv6 addresses are checked as IPv4
+  const mapped = address.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/i);
+  if (mapped) return BLOCKED_ADDRESSES.check(mapped[1], 'ipv4');
+
+  return BLOCKED_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * HTTP remotes are fetched by the server, so they must be on the configured
+ * host allow-list or, without one, resolve to public addresses only
+ */
+async function assertAllowedRemote(url: string): Promise<void> {
+  let hostname: string;
+  try {
+    hostname = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  } catch {
+    throw new GitServiceError(`Invalid remote URL: ${url}`, 'INVALID_REMOTE');
+  }
+
+  const allowedHosts = config.git.allowedHosts;
+  if (allowedHosts.length > 0) {
+    if (!allowedHosts.includes(hostname)) {
+      throw new GitServiceError(`Remote host ${hostname} is not allowed`, 'INVALID_REMOTE');
+    }
+    return;
+  }
+
+  const addresses = isIP(hostname)
+    ? [{ address: hostname }]
+    : await lookup(hostname, { all: true }).catch(() => {
+        throw new GitServiceError(`Cannot resolve remote host ${hostname}`, 'INVALID_REMOTE');
+      });
+
+  if (addresses.some(({ address }) => isBlockedAddress(address))) {
+    throw new GitServiceError(`Remote host ${hostname} resolves to a private address`, 'INVALID_REMOTE');
+  }
+}
+
+// Every request isomorphic-git makes is checked, including those for remotes
+// that were added before the check existed
+const http: git.HttpClient = {
+  async request(request) {
+    await assertAllowedRemote(request.url);
+    return nodeHttp.request(request);
+  },
+};
+
+/**
+ * Resolve a local remote URL to its git directory under the local remotes root
+ */
+function resolveLocalRemote(url: string): string {
+  const root = config.git.localRemotesRoot;
+  if (!root) {
+    throw new GitServiceError('Local remotes are not enabled', 'INVALID_REMOTE');
+  }
+
+  const resolvedRoot = path.resolve(root);
+  const target = path.resolve(resolvedRoot, url.replace(/^file:\/\//, ''));
+  if (target !== resolvedRoot && !target.startsWith(`${resolvedRoot}${path.sep}`)) {
+    throw new GitServiceError(`Local remote must be inside ${resolvedRoot}`, 'INVALID_REMOTE');
+  }
+
+  if (nodeFs.existsSync(path.join(target, 'HEAD'))) {
+    return target;
+  }
+  if (nodeFs.existsSync(path.join(target, '.git', 'HEAD'))) {
+    return path.join(target, '.git');
+  }
+
+  throw new GitServiceError(`No git repository at ${url}`, 'INVALID_REMOTE');
+}
+
+/**
+ * Copy the commits reachable from oid, with their trees and blobs, stopping
+ * at objects the target already has
+ */
+async function copyObjects(source: ObjectStore, target: ObjectStore, oid: string): Promise<void> {
+  const missing: string[] = [];
+  const seen = new Set<string>();
+  const queue = [oid];
+
+  while (queue.length > 0) {
+    const commitOid = queue.pop()!;
+    if (seen.has(commitOid) || await hasObject(target, commitOid)) continue;
+
+    seen.add(commitOid);
+    missing.push(commitOid);
+
+    const { commit } = await git.readCommit({ ...source, oid: commitOid });
+    queue.push(...commit.parent);
+  }
+
+  // Ancestors first, so a commit is never stored without its history
+  for (const commitOid of missing.reverse()) {
+    const { commit } = await git.readCommit({ ...source, oid: commitOid });
+    await copyTree(source, target, commit.tree);
+    await copyObject(source, target, commitOid);
+  }
+}
+
+async function copyTree(source: ObjectStore, target: ObjectStore, oid: string): Promise<void> {
+  if (await hasObject(target, oid)) return;
+
+  const { tree } = await git.readTree({ ...source, oid });
+  for (const entry of tree) {
+    if (entry.type === 'tree') {
+      await copyTree(source, target, entry.oid);
+    } else if (entry.type === 'blob' && !(await hasObject(target, entry.oid))) {
+      await copyObject(source, target, entry.oid);
+    }
+    // Submodule commits live in other repositories
+  }
+
+  await copyObject(source, target, oid);
+}
+
+async function copyObject(source: ObjectStore, target: ObjectStore, oid: string): Promise<void> {
+  const { type, object } = await git.readObject({ ...source, oid, format: 'content' });
+  await git.writeObject({
+    ...target,
+    type: type as 'blob' | 'tree' | 'commit' | 'tag',
+    object: object as Uint8Array,
+    format: 'content',
+  });
+}
+
+async function hasObject(store: ObjectStore, oid: string): Promise<boolean> {
+  return git.readObject({ ...store, oid, format: 'deflated' }).then(() => true, () => false);
+}
+
+function getAuthCallback(credentials?: GitRemoteCredentials): git.AuthCallback | undefined {
+  return credentials ? () => credentials : undefined;
+}
+
+// =============================================================================
+// UTILITIES
+// =============================================================================
+
+async function resolveRefOrNull(fs: git.FsClient, ref: string, gitdir: string = GIT_DIR): Promise<string | null> {
+  return git.resolveRef({ fs, gitdir, ref }).catch(() => null);
+}
+
+async function readGitFile(fs: WorkspaceGitFs, filepath: string): Promise<string | null> {
+  return fs.promises.readFile(filepath, 'utf-8').then(
+    content => (content as string).trim() || null,
+    () => null
+  );
+}
+
+function normalizePath(filepath: string): string {
+  return filepath.split('/').filter(Boolean).join('/');
+}
+
+function toServiceError(error: unknown): unknown {
+  if (error instanceof GitServiceError) {
+    return error;
+  }
+  if (error instanceof git.Errors.NotFoundError) {
+    return new GitServiceError(error.message, 'NOT_FOUND');
+  }
+  if (error instanceof git.Errors.AlreadyExistsError) {
+    return new GitServiceError(error.message, 'ALREADY_EXISTS');
+  }
+  if (error instanceof git.Errors.CheckoutConflictError) {
+    return new GitServiceError(error.message, 'CHECKOUT_CONFLICT');
+  }
+  if (error instanceof git.Errors.PushRejectedError) {
+    return new GitServiceError(error.message, 'NON_FAST_FORWARD');
+  }
+  if (error instanceof git.Errors.HttpError) {
+    return new GitServiceError(error.message, 'REMOTE_ERROR');
+  }
+  if (error instanceof Error && 'caller' in error) {
+    // Remaining isomorphic-git errors describe invalid operations
+    return new GitServiceError(error.message, 'GIT_ERROR');
+  }
+  return error;
+}
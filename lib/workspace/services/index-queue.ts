@@ -0,0 +1,270 @@
+/**
+ * Workspace Index Queue
+ * Redis-backed queue of files waiting to be (re-)indexed. Jobs only name a
+ * path; the worker decides whether to index, skip or remove it from the
+ * file's current state, so a burst of writes to one file collapses into a
+ * single pending job. Jobs are only processed while an index worker runs
+ * (`npm run index:worker`).
+ */
+
+import Redis from 'ioredis';
+import { redis } from '@/lib/redis';
+import { IndexFailure } from '../types';
+
+// Longest a background enqueue may take before it is given up
+const ENQUEUE_TIMEOUT_MS = 5000;
+
+export interface IndexJob {
+  workspaceId: string;
+  path: string;
+}
+
+export type IndexOutcome = 'indexed' | 'skipped' | 'removed';
+
+export interface IndexQueueCounters {
+  queued: number;
+  processing: number;
+  failures: IndexFailure[];
+  lastIndexedAt?: Date;
+  workerActive: boolean;
+}
+
+export interface DequeuedJob extends IndexJob {
+  member: string; // Serialized job as stored in the queue lists
+}
+
+export class WorkspaceIndexQueue {
+  private readonly queueKey: string;
+  private readonly processingKey: string;
+  private readonly pendingKey: string;
+
+  constructor(
+    private readonly client: Redis = redis,
+    private readonly prefix: string = 'workspace-index'
+  ) {
+    this.queueKey = `${prefix}:queue`;
+    this.processingKey = `${prefix}:processing`;
+    this.pendingKey = `${prefix}:pending`;
+  }
+
+  // =============================================================================
+  // PRODUCER OPERATIONS
+  // =============================================================================
+
+  /**
+   * Queue paths for indexing. Paths already waiting are not queued twice.
+   * Returns the number of newly queued paths.
+   */
+  async enqueue(workspaceId: string, paths: string[]): Promise<number> {
+    let queued = 0;
+
+    for (const path of new Set(paths)) {
+      const member = this.serialize({ workspaceId, path });
+      if (await this.client.sadd(this.pendingKey, member)) {
+        // A new write gets a fresh set of attempts
+        await this.client
+          .multi()
+          .lpush(this.queueKey, member)
+          .hincrby(this.countsKey(workspaceId), 'queued', 1)
+          .hdel(this.failuresKey(workspaceId), path)
+          .exec();
+        queued++;
+      }
+    }
+
+    return queued;
+  }
+
+  /**
+   * Queue paths without waiting for Redis, for callers that must not block
+   * or fail on indexing. Failures and timeouts are logged.
+   */
+  enqueueInBackground(workspaceId: string, paths: string[], timeout: number = ENQUEUE_TIMEOUT_MS): void {
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`Timed out after ${timeout}ms`)), timeout);
+    });
+
+    Promise.race([this.enqueue(workspaceId, paths), timedOut])
+      .catch(error => console.error('Failed to queue file indexing:', error))
+      .finally(() => clearTimeout(timer));
+  }
+
+  // =============================================================================
+  // CONSUMER OPERATIONS
+  // =============================================================================
+
+  /**
+   * Take the oldest job, moving it to the processing list until it completes
+   */
+  async dequeue(): Promise<DequeuedJob | null> {
+    const member = await this.client.lmove(this.queueKey, this.processingKey, 'RIGHT', 'LEFT');
+    if (!member) return null;
+
+    // Writes that land while the job runs queue the path again
+    const job = this.deserialize(member);
+    await this.client
+      .multi()
+      .srem(this.pendingKey, member)
+      .hincrby(this.countsKey(job.workspaceId), 'queued', -1)
+      .hincrby(this.countsKey(job.workspaceId), 'processing', 1)
+      .exec();
+
+    return { ...job, member };
+  }
+
+  /**
+   * Mark a job done and clear any failure recorded for its path
+   */
+  async complete(job: DequeuedJob, outcome: IndexOutcome): Promise<void> {
+    const multi = this.client
+      .multi()
+      .lrem(this.processingKey, 1, job.member)
+      .hincrby(this.countsKey(job.workspaceId), 'processing', -1)
+      .hdel(this.failuresKey(job.workspaceId), job.path);
+
+    if (outcome !== 'skipped') {
+      multi.hset(this.statusKey(job.workspaceId), 'lastIndexedAt', new Date().toISOString());
+    }
+
+    await multi.exec();
+  }
+
+  /**
+   * Record a failed attempt and queue the job again while attempts remain.
+   * Returns whether the job was retried.
+   */
+  async fail(job: DequeuedJob, error: string, maxAttempts: number): Promise<boolean> {
+    const failuresKey = this.failuresKey(job.workspaceId);
+    const previous = await this.client.hget(failuresKey, job.path);
+    const attempts = (previous ? JSON.parse(previous).attempts : 0) + 1;
+
+    await this.client
+      .multi()
+      .lrem(this.processingKey, 1, job.member)
+      .hincrby(this.countsKey(job.workspaceId), 'processing', -1)
+      .hset(failuresKey, job.path, JSON.stringify({ error, attempts, failedAt: new Date().toISOString() }))
+      .exec();
+
+    if (attempts >= maxAttempts) {
+      return false;
+    }
+
+    // Retries go to the back of the queue, unless a newer write already queued the path
+    if (await this.client.sadd(this.pendingKey, job.member)) {
+      await this.client
+        .multi()
+        .lpush(this.queueKey, job.member)
+        .hincrby(this.countsKey(job.workspaceId), 'queued', 1)
+        .exec();
+    }
+    return true;
+  }
+
+  /**
+   * Return jobs left in processing by a worker that stopped mid-run to the
+   * front of the queue. Only safe while no other worker is running.
+   */
+  async recover(): Promise<number> {
+    let recovered = 0;
+
+    let member: string | null;
+    while ((member = await this.client.lmove(this.processingKey, this.queueKey, 'LEFT', 'RIGHT'))) {
+      const { workspaceId } = this.deserialize(member);
+      await this.client
+        .multi()
+        .sadd(this.pendingKey, member)
+        .hincrby(this.countsKey(workspaceId), 'processing', -1)
+        .hincrby(this.countsKey(workspaceId), 'queued', 1)
+        .exec();
+      recovered++;
+    }
+
+    return recovered;
+  }
+
+  /**
+   * Record that a worker is running; it counts as active for ttl milliseconds
+   */
+  async heartbeat(ttl: number): Promise<void> {
+    await this.client.set(this.workerKey, new Date().toISOString(), 'PX', ttl);
+  }
+
+  // =============================================================================
+  // STATUS OPERATIONS
+  // =============================================================================
+
+  /**
+   * Queue state for one workspace, from counters kept per workspace
+   */
+  async getCounters(workspaceId: string): Promise<IndexQueueCounters> {
+    const [counts, failures, lastIndexedAt, workerSeenAt] = await Promise.all([
+      this.client.hgetall(this.countsKey(workspaceId)),
+      this.client.hgetall(this.failuresKey(workspaceId)),
+      this.client.hget(this.statusKey(workspaceId), 'lastIndexedAt'),
+      this.client.get(this.workerKey),
+    ]);
+
+    // Counters are updated after the list operations, so a crash between
+    // the two can leave them slightly off; never report less than nothing
+    const count = (field: string) => Math.max(0, Number(counts[field]) || 0);
+
+    return {
+      queued: count('queued'),
+      processing: count('processing'),
+      failures: Object.entries(failures).map(([path, value]) => {
+        const failure = JSON.parse(value);
+        return {
+          path,
+          error: failure.error,
+          attempts: failure.attempts,
+          failedAt: new Date(failure.failedAt),
+        };
+      }),
+      lastIndexedAt: lastIndexedAt ? new Date(lastIndexedAt) : undefined,
+      workerActive: workerSeenAt !== null,
+    };
+  }
+
+  /**
+   * Forget recorded failures, e.g. before a full re-index
+   */
+  async clearFailures(workspaceId: string): Promise<void> {
+    await this.client.del(this.failuresKey(workspaceId));
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  private failuresKey(workspaceId: string): string {
+    return `${this.prefix}:failures:${workspaceId}`;
+  }
+
+  private statusKey(workspaceId: string): string {
+    return `${this.prefix}:status:${workspaceId}`;
+  }
+
+  private countsKey(workspaceId: string): string {
+    return `${this.prefix}:counts:${workspaceId}`;
+  }
+
+  private get workerKey(): string {
+    return `${this.prefix}:worker`;
+  }
+
+  private serialize(job: IndexJob): string {
+    return JSON.stringify([job.workspaceId, job.path]);
+  }
+
+  private deserialize(member: string): IndexJob {
+    const [workspaceId, path] = JSON.parse(member);
+    return { workspaceId, path };
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const indexQueue = new WorkspaceIndexQueue();
@@ -0,0 +1,108 @@
+/**
+ * Workspace Index Worker
+ * Runs queued index jobs in the background with bounded concurrency. It runs
+ * as its own process (scripts/run-index-worker.ts); without one, file writes
+ * keep queueing jobs and the index status reports the worker as inactive.
+ */
+
+import { config } from '@/lib/config/environment';
+import { WorkspaceFileIndexer } from './file-indexer';
+import { WorkspaceIndexQueue, DequeuedJob, indexQueue } from './index-queue';
+
+// The worker counts as inactive once it misses a few heartbeats
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+const HEARTBEAT_TTL_MS = 3 * HEARTBEAT_INTERVAL_MS;
+
+export interface IndexWorkerOptions {
+  concurrency?: number; // Jobs processed at the same time
+  pollInterval?: number; // Wait in milliseconds when the queue is empty
+  maxAttempts?: number; // Attempts per job before it is left failed
+}
+
+export class WorkspaceIndexWorker {
+  private readonly concurrency: number;
+  private readonly pollInterval: number;
+  private readonly maxAttempts: number;
+  private running = false;
+  private loops: Promise<void>[] = [];
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private readonly queue: WorkspaceIndexQueue = indexQueue, options: IndexWorkerOptions = {}) {
+    this.concurrency = options.concurrency || config.indexing.workerConcurrency;
+    this.pollInterval = options.pollInterval || 1000;
+    this.maxAttempts = options.maxAttempts || config.indexing.maxAttempts;
+  }
+
+  /**
+   * Start processing jobs, after requeueing any a previous run left unfinished
+   */
+  async start(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    const recovered = await this.queue.recover();
+    if (recovered > 0) {
+      console.log(`Requeued ${recovered} interrupted index job(s)`);
+    }
+
+    this.loops = Array.from({ length: this.concurrency }, () => this.runLoop());
+
+    this.sendHeartbeat();
+    this.heartbeat = setInterval(() => this.sendHeartbeat(), HEARTBEAT_INTERVAL_MS);
+  }
+
+  /**
+   * Stop taking new jobs and wait for the ones in progress
+   */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    await Promise.all(this.loops);
+    this.loops = [];
+  }
+
+  /**
+   * Index one job, recording the outcome on the queue
+   */
+  async processJob(job: DequeuedJob): Promise<void> {
+    try {
+      const outcome = await new WorkspaceFileIndexer(job.workspaceId).indexPath(job.path);
+      await this.queue.complete(job, outcome);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const retried = await this.queue.fail(job, message, this.maxAttempts);
+      console.error(`Failed to index ${job.workspaceId}:${job.path}${retried ? ' (will retry)' : ''}:`, error);
+    }
+  }
+
+  private sendHeartbeat(): void {
+    this.queue.heartbeat(HEARTBEAT_TTL_MS).catch(error => {
+      console.error('Index worker failed to record its heartbeat:', error);
+    });
+  }
+
+  private async runLoop(): Promise<void> {
+    while (this.running) {
+      try {
+        const job = await this.queue.dequeue();
+        if (job) {
+          await this.processJob(job);
+          continue;
+        }
+      } catch (error) {
+        console.error('Index worker failed to read the queue:', error);
+      }
+
+      await new Promise(resolve => setTimeout(resolve, this.pollInterval));
+    }
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const indexWorker = new WorkspaceIndexWorker();
@@ -0,0 +1,502 @@
+/**
+ * Workspace Snapshot Archive
+ * Streams workspace files and state into a tar archive with optional
+ * compression and per-organization AES-256-GCM encryption. The archive is
+ * produced and consumed as a stream, one file at a time.
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes, Decipher } from 'crypto';
+import { PassThrough, Readable, Transform, TransformCallback } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
+import * as tar from 'tar-stream';
+import { CompressionType, WorkspaceFile, WorkspaceState } from '../types';
+import { config } from '@/lib/config/environment';
+
+export const SNAPSHOT_ARCHIVE_VERSION = '3';
+
+// Version 1 archives embed every file, version 2 archives reference blob
+// store hashes for files without an entry
+const READABLE_ARCHIVE_VERSIONS = ['1', '2', SNAPSHOT_ARCHIVE_VERSION];
+
+const ENCRYPTION_ALGORITHM = 'aes-256-gcm';
+const ENCRYPTION_MAGIC = Buffer.from('VKSA');
+const AUTH_TAG_LENGTH = 16;
+
+// Version 1 encrypts the whole archive as one GCM message, so nothing is
+// authenticated before the end. Version 2 seals fixed-size records.
+const LEGACY_ENCRYPTION_FORMAT_VERSION = 1;
+const ENCRYPTION_FORMAT_VERSION = 2;
+const IV_LENGTH = 12;
+const NONCE_PREFIX_LENGTH = 8;
+const RECORD_SIZE = 64 * 1024;
+const MAX_RECORDS = 2 ** 32;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SnapshotManifestEntry {
+  entry?: string; // Name of the tar entry holding embedded content
+  path: string;
+  hash: string;
+  size: number;
+  isDirectory: boolean;
+  metadata: WorkspaceFile['metadata'];
+}
+
+export interface SnapshotManifest {
+  formatVersion: string;
+  workspaceId: string;
+  createdAt: string;
+  fileCount: number;
+  files: SnapshotManifestEntry[];
+}
+
+export interface SnapshotArchiveOptions {
+  compression: CompressionType;
+  encryptionKey?: Buffer;
+}
+
+export interface SnapshotArchiveContents {
+  manifest: SnapshotManifest;
+  state: WorkspaceState;
+}
+
+/** Receives the embedded content of a file as it is read from the archive */
+export type SnapshotFileHandler = (entry: SnapshotManifestEntry, content: Buffer) => Promise<void>;
+
+export interface SnapshotEncryptionKey {
+  key: Buffer;
+  keyId: string;
+  algorithm: string;
+}
+
+export class SnapshotArchiveError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'SnapshotArchiveError';
+  }
+}
+
+// =============================================================================
+// ARCHIVE OPERATIONS
+// =============================================================================
+
+/**
+ * Stream files and state into an archive. File content is read through
+ * readContent one file at a time, as the consumer pulls the archive.
+ */
+export function writeSnapshotArchive(
+  workspaceId: string,
+  state: WorkspaceState,
+  files: WorkspaceFile[],
+  readContent: (file: WorkspaceFile) => Promise<Buffer>,
+  options: SnapshotArchiveOptions
+): Readable {
+  const pack = tar.pack();
+  const output = new PassThrough();
+
+  const transforms: Transform[] = [];
+  const compressor = createCompressor(options.compression);
+  if (compressor) transforms.push(compressor);
+  if (options.encryptionKey) transforms.push(new GcmEncryptTransform(options.encryptionKey));
+
+  // Failures anywhere in the chain destroy the output, which is where the consumer sees them
+  pipeline([pack as unknown as Readable, ...transforms, output]).catch(() => undefined);
+
+  const manifest: SnapshotManifest = {
+    formatVersion: SNAPSHOT_ARCHIVE_VERSION,
+    workspaceId,
+    createdAt: new Date().toISOString(),
+    fileCount: files.length,
+    files: files.map((file, index) => ({
+      entry: file.isDirectory ? undefined : `files/${index}`,
+      path: file.path,
+      hash: file.hash,
+      size: Number(file.size),
+      isDirectory: file.isDirectory,
+      metadata: file.metadata,
+    })),
+  };
+
+  const fill = async () => {
+    await addEntry(pack, 'manifest.json', Buffer.from(JSON.stringify(manifest)));
+    await addEntry(pack, 'state.json', Buffer.from(JSON.stringify(state)));
+
+    for (const [index, file] of files.entries()) {
+      if (file.isDirectory) continue;
+      await addEntry(pack, `files/${index}`, await readContent(file));
+    }
+
+    pack.finalize();
+  };
+
+  fill().catch(error => {
+    (pack as unknown as Readable).destroy(error);
+  });
+
+  return output;
+}
+
+/**
+ * Read an archive produced by writeSnapshotArchive. Embedded files are
+ * passed to onFile as they are extracted; the next file is not read until
+ * the handler resolves.
+ */
+export async function readSnapshotArchive(
+  source: Readable,
+  options: SnapshotArchiveOptions,
+  onFile?: SnapshotFileHandler
+): Promise<SnapshotArchiveContents> {
+  const extract = tar.extract();
+  let manifest: SnapshotManifest | null = null;
+  let state: WorkspaceState | null = null;
+  let entriesByName = new Map<string, SnapshotManifestEntry>();
+
+  const handleEntry = async (name: string, content: Buffer) => {
+    if (name === 'manifest.json') {
+      manifest = parseManifest(content);
+      entriesByName = new Map(
+        manifest.files.filter(entry => entry.entry).map(entry => [entry.entry!, entry])
+      );
+      return;
+    }
+
+    if (name === 'state.json') {
+      state = JSON.parse(content.toString('utf-8'));
+      return;
+    }
+
+    // The manifest is written first, so every file entry is known when it arrives
+    const entry = entriesByName.get(name);
+    if (!entry) {
+      throw new SnapshotArchiveError(`Snapshot archive has an unexpected entry: ${name}`, 'INVALID_ARCHIVE');
+    }
+    await onFile?.(entry, content);
+  };
+
+  extract.on('entry', (header, stream, next) => {
+    readEntry(stream as unknown as Readable)
+      .then(content => handleEntry(header.name, content))
+      .then(() => next(), error => next(error));
+  });
+
+  const transforms: Transform[] = [];
+  if (options.encryptionKey) transforms.push(new GcmDecryptTransform(options.encryptionKey));
+  const decompressor = createDecompressor(options.compression);
+  if (decompressor) transforms.push(decompressor);
+
+  await pipeline([source, ...transforms, extract]);
+
+  if (!manifest || !state) {
+    throw new SnapshotArchiveError('Snapshot archive is missing its manifest or state', 'INVALID_ARCHIVE');
+  }
+
+  return { manifest, state };
+}
+
+function parseManifest(content: Buffer): SnapshotManifest {
+  const manifest = JSON.parse(content.toString('utf-8')) as SnapshotManifest;
+  if (!READABLE_ARCHIVE_VERSIONS.includes(manifest.formatVersion)) {
+    throw new SnapshotArchiveError(
+      `Unsupported snapshot archive version: ${manifest.formatVersion}`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+  return manifest;
+}
+
+// =============================================================================
+// COMPRESSION
+// =============================================================================
+
+// zlib only has zstd from Node 22.15, and @types/node for Node 20 does not declare it
+interface ZstdZlib {
+  createZstdCompress(): Transform;
+  createZstdDecompress(): Transform;
+}
+
+function hasZstd(module: object): module is ZstdZlib {
+  const candidate = module as Partial<ZstdZlib>;
+  return typeof candidate.createZstdCompress === 'function'
+    && typeof candidate.createZstdDecompress === 'function';
+}
+
+const zstd: ZstdZlib | null = hasZstd(zlib) ? zlib : null;
+
+/**
+ * Compression algorithms available in this runtime
+ */
+export function getSupportedCompression(): CompressionType[] {
+  const supported: CompressionType[] = ['none', 'gzip', 'brotli'];
+  if (zstd) {
+    supported.push('zstd');
+  }
+  return supported;
+}
+
+function assertCompressionSupported(compression: CompressionType): void {
+  if (!getSupportedCompression().includes(compression)) {
+    throw new SnapshotArchiveError(
+      `Compression '${compression}' is not supported. Use one of: ${getSupportedCompression().join(', ')}`,
+      'UNSUPPORTED_COMPRESSION'
+    );
+  }
+}
+
+function createCompressor(compression: CompressionType): Transform | null {
+  assertCompressionSupported(compression);
+
+  switch (compression) {
+    case 'gzip':
+      return zlib.createGzip();
+    case 'brotli':
+      return zlib.createBrotliCompress();
+    case 'zstd':
+      return zstd!.createZstdCompress();
+    default:
+      return null;
+  }
+}
+
+function createDecompressor(compression: CompressionType): Transform | null {
+  assertCompressionSupported(compression);
+
+  switch (compression) {
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'brotli':
+      return zlib.createBrotliDecompress();
+    case 'zstd':
+      return zstd!.createZstdDecompress();
+    default:
+      return null;
+  }
+}
+
+// =============================================================================
+// ENCRYPTION
+// =============================================================================
+
+/**
+ * Whether a master key for snapshot encryption is configured
+ */
+export function isSnapshotEncryptionAvailable(): boolean {
+  return !!config.snapshots.encryptionKey;
+}
+
+/**
+ * Derive the snapshot encryption key of an organization from the master key.
+ * Keys are never stored; the key id records which organization and
+ * derivation version to use on restore.
+ */
+export function getOrganizationSnapshotKey(organizationId: string): SnapshotEncryptionKey {
+  const masterKey = config.snapshots.encryptionKey;
+  if (!masterKey) {
+    throw new SnapshotArchiveError('Snapshot encryption is not configured', 'ENCRYPTION_UNAVAILABLE');
+  }
+
+  const key = Buffer.from(
+    hkdfSync('sha256', masterKey, 'vibekraft-snapshots', organizationId, 32)
+  );
+
+  return {
+    key,
+    keyId: `org:${organizationId}:v1`,
+    algorithm: ENCRYPTION_ALGORITHM,
+  };
+}
+
+/**
+ * Emits MAGIC | version | nonce prefix, then records of up to RECORD_SIZE
+ * bytes, each sealed with its own auth tag. Record nonces are the prefix
+ * and the record number; the last record is marked final so a stream cut
+ * at a record boundary does not authenticate.
+ */
+class GcmEncryptTransform extends Transform {
+  private readonly key: Buffer;
+  private readonly noncePrefix = randomBytes(NONCE_PREFIX_LENGTH);
+  private record = 0;
+  private pending = Buffer.alloc(0);
+
+  constructor(key: Buffer) {
+    super();
+    this.key = key;
+    this.push(Buffer.concat([ENCRYPTION_MAGIC, Buffer.from([ENCRYPTION_FORMAT_VERSION]), this.noncePrefix]));
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    try {
+      // A full record is only sealed once more data follows, so the final record is sealed on flush
+      while (this.pending.length > RECORD_SIZE) {
+        this.push(this.seal(this.pending.subarray(0, RECORD_SIZE), false));
+        this.pending = this.pending.subarray(RECORD_SIZE);
+      }
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    try {
+      this.push(this.seal(this.pending, true));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  private seal(plaintext: Buffer, final: boolean): Buffer {
+    if (this.record >= MAX_RECORDS) {
+      throw new SnapshotArchiveError('Snapshot archive is too large to encrypt', 'ARCHIVE_TOO_LARGE');
+    }
+
+    const cipher = createCipheriv(ENCRYPTION_ALGORITHM, this.key, recordNonce(this.noncePrefix, this.record++), {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    cipher.setAAD(Buffer.from([final ? 1 : 0]));
+    return Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+  }
+}
+
+/**
+ * Reverses GcmEncryptTransform. Each record is authenticated before its
+ * plaintext is passed on. Legacy single-message archives are held back
+ * until their trailing tag verifies.
+ */
+class GcmDecryptTransform extends Transform {
+  private readonly key: Buffer;
+  private version: number | null = null;
+  private noncePrefix = Buffer.alloc(0);
+  private record = 0;
+  private legacyDecipher: (Decipher & { setAuthTag(tag: Buffer): void }) | null = null;
+  private legacyPlaintext: Buffer[] = [];
+  private pending = Buffer.alloc(0);
+
+  constructor(key: Buffer) {
+    super();
+    this.key = key;
+  }
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: TransformCallback): void {
+    this.pending = Buffer.concat([this.pending, chunk]);
+
+    try {
+      if (this.version === null && !this.readHeader()) return callback();
+
+      if (this.version === LEGACY_ENCRYPTION_FORMAT_VERSION) {
+        if (this.pending.length > AUTH_TAG_LENGTH) {
+          const ciphertext = this.pending.subarray(0, this.pending.length - AUTH_TAG_LENGTH);
+          this.pending = this.pending.subarray(this.pending.length - AUTH_TAG_LENGTH);
+          this.legacyPlaintext.push(this.legacyDecipher!.update(ciphertext));
+        }
+        return callback();
+      }
+
+      // The last record is only opened on flush, where it must be marked final
+      while (this.pending.length > RECORD_SIZE + AUTH_TAG_LENGTH) {
+        this.push(this.open(this.pending.subarray(0, RECORD_SIZE + AUTH_TAG_LENGTH), false));
+        this.pending = this.pending.subarray(RECORD_SIZE + AUTH_TAG_LENGTH);
+      }
+      callback();
+    } catch (error) {
+      callback(error instanceof SnapshotArchiveError ? error : decryptionFailed());
+    }
+  }
+
+  _flush(callback: TransformCallback): void {
+    if (this.version === null || this.pending.length < AUTH_TAG_LENGTH) {
+      return callback(new SnapshotArchiveError('Snapshot archive is truncated', 'INVALID_ARCHIVE'));
+    }
+
+    try {
+      if (this.version === LEGACY_ENCRYPTION_FORMAT_VERSION) {
+        if (this.pending.length !== AUTH_TAG_LENGTH) {
+          return callback(new SnapshotArchiveError('Snapshot archive is truncated', 'INVALID_ARCHIVE'));
+        }
+        this.legacyDecipher!.setAuthTag(this.pending);
+        this.legacyPlaintext.push(this.legacyDecipher!.final());
+        this.legacyPlaintext.forEach(plaintext => this.push(plaintext));
+      } else {
+        this.push(this.open(this.pending, true));
+      }
+      callback();
+    } catch {
+      callback(decryptionFailed());
+    }
+  }
+
+  /**
+   * Consume the header once enough bytes are buffered. Returns false while
+   * waiting for more input.
+   */
+  private readHeader(): boolean {
+    const versionOffset = ENCRYPTION_MAGIC.length;
+    if (this.pending.length <= versionOffset) return false;
+
+    const magic = this.pending.subarray(0, versionOffset);
+    const version = this.pending[versionOffset];
+    if (!magic.equals(ENCRYPTION_MAGIC)
+      || (version !== ENCRYPTION_FORMAT_VERSION && version !== LEGACY_ENCRYPTION_FORMAT_VERSION)) {
+      throw new SnapshotArchiveError('Snapshot archive is not encrypted with a known format', 'INVALID_ARCHIVE');
+    }
+
+    const nonceLength = version === LEGACY_ENCRYPTION_FORMAT_VERSION ? IV_LENGTH : NONCE_PREFIX_LENGTH;
+    const headerLength = versionOffset + 1 + nonceLength;
+    if (this.pending.length < headerLength) return false;
+
+    const nonce = this.pending.subarray(versionOffset + 1, headerLength);
+    if (version === LEGACY_ENCRYPTION_FORMAT_VERSION) {
+      this.legacyDecipher = createDecipheriv(ENCRYPTION_ALGORITHM, this.key, nonce, { authTagLength: AUTH_TAG_LENGTH });
+    } else {
+      this.noncePrefix = Buffer.from(nonce);
+    }
+    this.version = version;
+    this.pending = this.pending.subarray(headerLength);
+    return true;
+  }
+
+  private open(sealed: Buffer, final: boolean): Buffer {
+    const decipher = createDecipheriv(ENCRYPTION_ALGORITHM, this.key, recordNonce(this.noncePrefix, this.record++), {
+      authTagLength: AUTH_TAG_LENGTH,
+    });
+    decipher.setAAD(Buffer.from([final ? 1 : 0]));
+    decipher.setAuthTag(sealed.subarray(sealed.length - AUTH_TAG_LENGTH));
+    return Buffer.concat([decipher.update(sealed.subarray(0, sealed.length - AUTH_TAG_LENGTH)), decipher.final()]);
+  }
+}
+
+function recordNonce(prefix: Buffer, record: number): Buffer {
+  const nonce = Buffer.alloc(IV_LENGTH);
+  prefix.copy(nonce);
+  nonce.writeUInt32BE(record, NONCE_PREFIX_LENGTH);
+  return nonce;
+}
+
+function decryptionFailed(): SnapshotArchiveError {
+  return new SnapshotArchiveError('Snapshot archive failed integrity check or key is wrong', 'DECRYPTION_FAILED');
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Write one tar entry, waiting until the pack has taken it so a slow
+ * consumer holds back the next file
+ */
+async function addEntry(pack: tar.Pack, name: string, content: Buffer): Promise<void> {
+  await pipeline(Readable.from([content]), pack.entry({ name, size: content.length }) as unknown as NodeJS.WritableStream);
+}
+
+async function readEntry(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
@@ -3,18 +3,47 @@
  * Manages workspace session state, environment persistence, and restoration
  */
 
-import { WorkspaceState, EnvironmentState, ProcessState, WorkspaceSnapshot } from '../types';
+import {
+  WorkspaceState,
+  EnvironmentState,
+  ProcessState,
+  WorkspaceSnapshot,
+  GitState,
+  CompressionType,
+  EncryptionInfo,
+} from '../types';
 import { db } from '@/lib/db';
+import { config } from '@/lib/config/environment';
 import { storageService } from '@/lib/infrastructure/services/storage';
 import { WorkspaceFileStorage } from './file-storage';
+import { WorkspaceBlobStore } from './blob-store';
+import {
+  SNAPSHOT_ARCHIVE_VERSION,
+  SnapshotArchiveContents,
+  SnapshotFileHandler,
+  SnapshotManifestEntry,
+  writeSnapshotArchive,
+  readSnapshotArchive,
+  getOrganizationSnapshotKey,
+  isSnapshotEncryptionAvailable,
+} from './snapshot-archive';
+import { MeasuredFile, measureFiles, summarizeCodeHealth } from './code-health';
+import { WorkspaceStorageQuota } from './storage-quota';
+
+export interface SnapshotOptions {
+  compression?: CompressionType;
+  encrypt?: boolean;
+}
 
 export class WorkspaceStateManager {
   private readonly workspaceId: string;
   private readonly fileStorage: WorkspaceFileStorage;
+  private readonly blobStore: WorkspaceBlobStore;
 
   constructor(workspaceId: string) {
     this.workspaceId = workspaceId;
     this.fileStorage = new WorkspaceFileStorage(workspaceId);
+    this.blobStore = new WorkspaceBlobStore();
   }
 
   // =============================================================================
@@ -98,6 +127,20 @@ export class WorkspaceStateManager {
     return this.mapToWorkspaceState(workspaceState);
   }
 
+  /**
+   * List the state of every session, least recently updated first
+   */
+  async listStates(): Promise<WorkspaceState[]> {
+    const workspaceStates = await db.workspaceState.findMany({
+      where: {
+        workspaceId: this.workspaceId,
+      },
+      orderBy: { updatedAt: 'asc' },
+    });
+
+    return workspaceStates.map((workspaceState: any) => this.mapToWorkspaceState(workspaceState));
+  }
+
   /**
    * Update environment variables
    */
@@ -148,127 +191,204 @@ export class WorkspaceStateManager {
     });
   }
 
+  /**
+   * Update git state for a session, or for the latest session when omitted
+   */
+  async updateGitState(gitState: GitState, sessionId?: string): Promise<void> {
+    const currentState = sessionId ? await this.loadState(sessionId) : await this.getLatestState();
+    if (!currentState) {
+      // Git state is recorded once the workspace has a session
+      return;
+    }
+    if (JSON.stringify(currentState.gitState) === JSON.stringify(gitState)) {
+      return;
+    }
+
+    await this.saveState(currentState.sessionId, {
+      ...currentState,
+      gitState,
+    });
+  }
+
   // =============================================================================
   // SNAPSHOT MANAGEMENT
   // =============================================================================
 
   /**
-   * Create a workspace snapshot
+   * Create a workspace snapshot. File content, the manifest and session
+   * state are streamed into a compressed (and optionally encrypted) archive
+   * as it is uploaded, one file at a time.
    */
   async createSnapshot(
     name: string,
     description?: string,
-    type: 'manual' | 'automatic' | 'checkpoint' | 'backup' | 'template' = 'manual'
+    type: 'manual' | 'automatic' | 'checkpoint' | 'backup' | 'template' = 'manual',
+    options: SnapshotOptions = {}
   ): Promise<WorkspaceSnapshot> {
+    const compression = options.compression || config.snapshots.defaultCompression;
+    const encrypt = options.encrypt ?? isSnapshotEncryptionAvailable();
+
     // Get current state
     const currentState = await this.getLatestState();
     if (!currentState) {
       throw new Error('No workspace state found');
     }
 
-    // Get all workspace files
     const files = await this.fileStorage.listFiles();
+    const measured: MeasuredFile[] = [];
 
     // Calculate snapshot size
-    const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+    const totalSize = files.reduce((sum, file) => sum + Number(file.size), 0);
+
+    const encryptionKey = encrypt
+      ? getOrganizationSnapshotKey(await this.getOrganizationId())
+      : undefined;
+
+    const archive = writeSnapshotArchive(this.workspaceId, currentState, files, async (file) => {
+      const content = (await this.fileStorage.readFileContent(file.path)) || Buffer.alloc(0);
+
+      // Complexity at this point in time, for the code health trend
+      if (file.type === 'text') {
+        measured.push(...measureFiles([{
+          path: file.path,
+          language: file.metadata.language,
+          content: content.toString('utf-8'),
+        }]));
+      }
+
+      return content;
+    }, {
+      compression,
+      encryptionKey: encryptionKey?.key,
+    });
 
     // Create snapshot storage location
     const snapshotKey = `workspaces/${this.workspaceId}/snapshots/${Date.now()}-${name}`;
+    const quota = new WorkspaceStorageQuota(this.workspaceId);
+    let archiveSize = 0;
+
+    // The stored archive counts toward the workspace and organization quotas.
+    // Its size is only known once uploaded, so the file bytes are counted meanwhile.
+    const snapshot = await quota.reserve(totalSize, async () => {
+      const uploadResult = await storageService.uploadStream({
+        stream: archive,
+        key: snapshotKey,
+        bucket: 'workspace-snapshots',
+        metadata: {
+          workspaceId: this.workspaceId,
+          snapshotType: type,
+          fileCount: files.length.toString(),
+          compression,
+          encrypted: encrypt.toString(),
+        },
+      });
 
-    // Package snapshot data
-    const snapshotData = {
-      state: currentState,
-      files: files,
-      metadata: {
-        createdAt: new Date(),
-        workspaceId: this.workspaceId,
-        version: '1.0',
-      },
-    };
+      if (!uploadResult.success) {
+        throw new Error(`Failed to upload snapshot: ${uploadResult.error}`);
+      }
+      archiveSize = uploadResult.data!.size;
 
-    // Upload snapshot to storage
-    const snapshotBlob = new Blob([JSON.stringify(snapshotData)], { type: 'application/json' });
-    const uploadResult = await storageService.uploadObject({
-      file: new File([snapshotBlob], `${name}.snapshot`),
-      key: snapshotKey,
-      bucket: 'workspace-snapshots',
-      metadata: {
-        workspaceId: this.workspaceId,
-        snapshotType: type,
-        fileCount: files.length.toString(),
-      },
+      try {
+        // Create database record
+        return await db.workspaceSnapshot.create({
+          data: {
+            workspaceId: this.workspaceId,
+            name,
+            description,
+            type,
+            size: totalSize,
+            archiveSize,
+            fileCount: files.length,
+            storageLocation: snapshotKey,
+            compression,
+            encryption: encryptionKey
+              ? { enabled: true, algorithm: encryptionKey.algorithm, keyId: encryptionKey.keyId }
+              : { enabled: false },
+            metadata: {
+              tags: [],
+              author: 'system',
+              version: SNAPSHOT_ARCHIVE_VERSION,
+              dependencies: [],
+              runtime: 'nodejs',
+              architecture: 'x64',
+              customData: { codeHealth: summarizeCodeHealth(measured) },
+            },
+          },
+        });
+      } catch (error) {
+        await storageService.deleteObject('workspace-snapshots', snapshotKey);
+        throw error;
+      }
     });
 
-    if (!uploadResult.success) {
-      throw new Error(`Failed to upload snapshot: ${uploadResult.error}`);
+    try {
+      // Settle the count on the stored size
+      await quota.reserve(archiveSize - totalSize, async () => undefined);
+    } catch (error) {
+      await storageService.deleteObject('workspace-snapshots', snapshotKey);
+      await db.workspaceSnapshot.delete({ where: { id: snapshot.id } });
+      await quota.release(totalSize);
+      throw error;
     }
 
-    // Create database record
-    const snapshot = await db.workspaceSnapshot.create({
-      data: {
-        workspaceId: this.workspaceId,
-        name,
-        description,
-        type,
-        size: totalSize,
-        fileCount: files.length,
-        storageLocation: snapshotKey,
-        compression: 'none',
-        encryption: { enabled: false },
-        metadata: {
-          tags: [],
-          author: 'system',
-          version: '1.0',
-          dependencies: [],
-          runtime: 'nodejs',
-          architecture: 'x64',
-          customData: {},
-        },
-      },
-    });
-
     return this.mapToWorkspaceSnapshot(snapshot);
   }
 
   /**
-   * Restore workspace from snapshot
+   * Restore workspace from snapshot. Files are written back byte for byte
+   * as they are read from the archive, and files created since the
+   * snapshot are moved to the trash.
    */
   async restoreFromSnapshot(snapshotId: string, sessionId: string): Promise<void> {
     const snapshot = await db.workspaceSnapshot.findUnique({
       where: { id: snapshotId },
     });
 
-    if (!snapshot) {
+    if (!snapshot || snapshot.workspaceId !== this.workspaceId) {
       throw new Error('Snapshot not found');
     }
 
-    // Download snapshot data
-    const downloadResult = await storageService.downloadObject({
-      bucket: 'workspace-snapshots',
-      key: snapshot.storageLocation,
-    });
-
-    if (!downloadResult.success) {
-      throw new Error(`Failed to download snapshot: ${downloadResult.error}`);
-    }
+    const restoreFile = async (entry: SnapshotManifestEntry, content?: Buffer) => {
+      try {
+        const existing = await this.fileStorage.getFile(entry.path).catch(() => null);
+
+        if (entry.isDirectory) {
+          if (!existing) {
+            await this.fileStorage.createDirectory(entry.path);
+          }
+          return;
+        }
+
+        if (existing && existing.file.hash === entry.hash) {
+          return;
+        }
+
+        // Version 2 archives reference blobs instead of embedding content
+        const data = content ?? await this.blobStore.get(entry.hash);
+
+        if (existing) {
+          await this.fileStorage.updateFile(entry.path, data, entry.metadata, `Restored from snapshot ${snapshot.name}`);
+        } else {
+          await this.fileStorage.storeFile(entry.path, data, entry.metadata);
+        }
+      } catch (error) {
+        console.error(`Failed to restore file ${entry.path}:`, error);
+      }
+    };
 
-    // Parse snapshot data
-    const snapshotText = await downloadResult.data!.text();
-    const snapshotData = JSON.parse(snapshotText);
+    const { manifest, state } = await this.openSnapshotArchive(snapshot, restoreFile);
 
     // Restore workspace state
-    await this.saveState(sessionId, snapshotData.state);
+    await this.saveState(sessionId, state);
 
-    // Restore files
-    for (const file of snapshotData.files) {
-      try {
-        // Get file content from snapshot or storage
-        const fileContent = file.content || '';
-        await this.fileStorage.storeFile(file.path, fileContent, file.metadata);
-      } catch (error) {
-        console.error(`Failed to restore file ${file.path}:`, error);
+    // Restore directories and referenced files
+    for (const entry of manifest.files) {
+      if (!entry.entry) {
+        await restoreFile(entry);
       }
     }
+
+    await this.trashFilesOutside(manifest.files.map(entry => entry.path));
   }
 
   /**
@@ -291,10 +411,20 @@ export class WorkspaceStateManager {
       where: { id: snapshotId },
     });
 
-    if (!snapshot) {
+    if (!snapshot || snapshot.workspaceId !== this.workspaceId) {
       throw new Error('Snapshot not found');
     }
 
+    // Version 2 archives hold blob references instead of embedding content
+    if (snapshot.metadata?.version === '2') {
+      const { manifest } = await this.openSnapshotArchive(snapshot);
+      for (const entry of manifest.files) {
+        if (!entry.isDirectory && !entry.entry) {
+          await this.blobStore.release(entry.hash);
+        }
+      }
+    }
+
     // Delete from storage
     await storageService.deleteObject('workspace-snapshots', snapshot.storageLocation);
 
@@ -302,6 +432,7 @@ export class WorkspaceStateManager {
     await db.workspaceSnapshot.delete({
       where: { id: snapshotId },
     });
+    await new WorkspaceStorageQuota(this.workspaceId).release(Number(snapshot.archiveSize));
   }
 
   // =============================================================================
@@ -363,6 +494,74 @@ export class WorkspaceStateManager {
   // PRIVATE METHODS
   // =============================================================================
 
+  /**
+   * Download, decrypt and unpack the archive of a snapshot
+   */
+  private async openSnapshotArchive(snapshot: any, onFile?: SnapshotFileHandler): Promise<SnapshotArchiveContents> {
+    const encryption = snapshot.encryption as EncryptionInfo;
+    const encryptionKey = encryption?.enabled
+      ? getOrganizationSnapshotKey(await this.getOrganizationId())
+      : undefined;
+
+    if (encryptionKey && encryption.keyId !== encryptionKey.keyId) {
+      throw new Error('Snapshot was encrypted for a different organization');
+    }
+
+    const downloadResult = await storageService.downloadStream({
+      bucket: 'workspace-snapshots',
+      key: snapshot.storageLocation,
+    });
+
+    if (!downloadResult.success) {
+      throw new Error(`Failed to download snapshot: ${downloadResult.error}`);
+    }
+
+    return readSnapshotArchive(
+      downloadResult.data!,
+      {
+        compression: snapshot.compression as CompressionType,
+        encryptionKey: encryptionKey?.key,
+      },
+      onFile
+    );
+  }
+
+  /**
+   * Move files that are not part of a restored snapshot to the trash.
+   * Directories holding snapshot files are kept.
+   */
+  private async trashFilesOutside(paths: string[]): Promise<void> {
+    const kept = new Set(paths);
+    const current = await this.fileStorage.listFiles();
+    const trashed: string[] = [];
+
+    for (const file of current.sort((a, b) => a.path.localeCompare(b.path))) {
+      if (kept.has(file.path)) continue;
+      if (trashed.some(path => file.path.startsWith(`${path}/`))) continue;
+      if (file.isDirectory && paths.some(path => path.startsWith(`${file.path}/`))) continue;
+
+      try {
+        await this.fileStorage.deleteFile(file.path);
+        trashed.push(file.path);
+      } catch (error) {
+        console.error(`Failed to remove file ${file.path}:`, error);
+      }
+    }
+  }
+
+  private async getOrganizationId(): Promise<string> {
+    const workspace = await db.workspace.findUnique({
+      where: { id: this.workspaceId },
+      include: { project: { select: { organizationId: true } } },
+    });
+
+    if (!workspace) {
+      throw new Error('Workspace not found');
+    }
+
+    return workspace.project.organizationId;
+  }
+
   private getDefaultEnvironment(): EnvironmentState {
     return {
       variables: {
@@ -430,7 +629,8 @@ export class WorkspaceStateManager {
       name: dbSnapshot.name,
       description: dbSnapshot.description,
       type: dbSnapshot.type,
-      size: dbSnapshot.size,
+      size: Number(dbSnapshot.size),
+      archiveSize: Number(dbSnapshot.archiveSize),
       fileCount: dbSnapshot.fileCount,
       state: {} as WorkspaceState, // Would be loaded separately
       files: [], // Would be loaded separately
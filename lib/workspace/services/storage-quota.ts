@@ -0,0 +1,435 @@
+/**
+ * Workspace Storage Quota Service
+ * Accounts storage per workspace and per organization and rejects writes
+ * that would take either past its hard limit. Usage is the size of current
+ * files, trashed files and stored snapshot archives.
+ *
+ * Writes are checked against a running counter on the workspace's
+ * persistence record instead of measuring usage each time. Measuring usage
+ * corrects the counter for changes made around the service.
+ */
+
+import { extname } from 'path';
+import {
+  OrganizationStorageUsage,
+  QuotaStatus,
+  StorageBreakdownEntry,
+  StorageQuotaUsage,
+  StorageUsageCategories,
+  WorkspaceStorageSummary,
+  WorkspaceStorageUsage,
+} from '../types';
+import { db } from '@/lib/db';
+import { config } from '@/lib/config/environment';
+
+// File types listed individually in the breakdown; the rest are grouped
+const FILE_TYPE_LIMIT = 12;
+
+export class StorageQuotaError extends Error {
+  constructor(message: string, public code: string, public usage?: StorageQuotaUsage) {
+    super(message);
+    this.name = 'StorageQuotaError';
+  }
+}
+
+interface WorkspaceLimits {
+  organizationId: string;
+  workspace: number;
+  organization: number;
+}
+
+export class WorkspaceStorageQuota {
+  private readonly workspaceId: string;
+  private limits: Promise<WorkspaceLimits> | null = null;
+
+  constructor(workspaceId: string) {
+    this.workspaceId = workspaceId;
+  }
+
+  // =============================================================================
+  // QUOTA OPERATIONS
+  // =============================================================================
+
+  /**
+   * Usage against the workspace and organization limits. The measured
+   * workspace usage is recorded on its persistence record.
+   */
+  async getUsage(): Promise<WorkspaceStorageUsage> {
+    const workspace = await this.getWorkspace();
+    const organizationId = workspace.project.organizationId;
+
+    const [categories, organizationCategories, organizationQuota] = await Promise.all([
+      measureUsage({ workspaceId: this.workspaceId }),
+      measureUsage({ workspace: { project: { organizationId } } }),
+      getOrganizationQuota(organizationId),
+    ]);
+
+    // Resets the running counter; writes in flight while measuring may be
+    // counted twice or not at all until the next measurement
+    const used = totalUsage(categories);
+    await db.workspacePersistence.upsert({
+      where: { workspaceId: this.workspaceId },
+      create: { workspaceId: this.workspaceId, storageSize: used },
+      update: { storageSize: used },
+    });
+
+    return {
+      workspaceId: this.workspaceId,
+      organizationId,
+      categories,
+      workspace: toQuotaUsage(used, getHardLimit(workspace.persistence?.storageQuota, config.quotas.workspaceBytes)),
+      organization: toQuotaUsage(totalUsage(organizationCategories), organizationQuota),
+    };
+  }
+
+  /**
+   * Reject a batch of writes adding `additionalBytes` up front if it would
+   * exceed the workspace or organization hard limit. Nothing is recorded;
+   * the writes themselves go through reserve().
+   */
+  async assertWithinQuota(additionalBytes: number): Promise<void> {
+    if (additionalBytes <= 0) return;
+
+    const counted = await this.getCountedUsage();
+    assertNotExceeded(
+      toQuotaUsage(counted.workspace + additionalBytes, counted.limits.workspace),
+      toQuotaUsage(counted.organization + additionalBytes, counted.limits.organization)
+    );
+  }
+
+  /**
+   * Count `bytes` toward the quota, then run the write. The bytes are
+   * counted first so concurrent writes cannot pass the limit together; they
+   * are taken back if the limit is exceeded or the write fails. Writes that
+   * free space are counted once they succeed.
+   */
+  async reserve<T>(bytes: number, write: () => Promise<T>): Promise<T> {
+    if (bytes <= 0) {
+      const result = await write();
+      await this.release(-bytes);
+      return result;
+    }
+
+    const { count } = await this.adjustCounter(bytes);
+    if (count === 0) {
+      // Measuring creates the persistence record the counter lives on
+      await this.getUsage();
+      await this.adjustCounter(bytes);
+    }
+
+    try {
+      const counted = await this.getCountedUsage();
+      assertNotExceeded(
+        toQuotaUsage(counted.workspace, counted.limits.workspace),
+        toQuotaUsage(counted.organization, counted.limits.organization)
+      );
+
+      return await write();
+    } catch (error) {
+      await this.release(bytes);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop counting `bytes` that were deleted
+   */
+  async release(bytes: number): Promise<void> {
+    if (bytes <= 0) return;
+    await this.adjustCounter(-bytes);
+  }
+
+  /**
+   * Set the workspace hard limit in bytes; null restores the default
+   */
+  async setQuota(hardLimit: number | null): Promise<void> {
+    await db.workspacePersistence.upsert({
+      where: { workspaceId: this.workspaceId },
+      create: {
+        workspaceId: this.workspaceId,
+        storageQuota: hardLimit,
+      },
+      update: {
+        storageQuota: hardLimit,
+      },
+    });
+  }
+
+  /**
+   * Current file usage grouped by file extension
+   */
+  async getFileTypeBreakdown(): Promise<StorageBreakdownEntry[]> {
+    return measureFileTypes({ workspaceId: this.workspaceId });
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  private adjustCounter(bytes: number): Promise<{ count: number }> {
+    return db.workspacePersistence.updateMany({
+      where: { workspaceId: this.workspaceId },
+      data: { storageSize: { increment: bytes } },
+    });
+  }
+
+  private async getCountedUsage(): Promise<{ workspace: number; organization: number; limits: WorkspaceLimits }> {
+    const limits = await this.getLimits();
+
+    const [workspace, organization] = await Promise.all([
+      db.workspacePersistence.findUnique({
+        where: { workspaceId: this.workspaceId },
+        select: { storageSize: true },
+      }),
+      db.workspacePersistence.aggregate({
+        where: { workspace: { project: { organizationId: limits.organizationId } } },
+        _sum: { storageSize: true },
+      }),
+    ]);
+
+    return {
+      workspace: Math.max(0, Number(workspace?.storageSize || 0)),
+      organization: Math.max(0, Number(organization._sum.storageSize || 0)),
+      limits,
+    };
+  }
+
+  private getLimits(): Promise<WorkspaceLimits> {
+    if (!this.limits) {
+      this.limits = this.getWorkspace().then(async workspace => ({
+        organizationId: workspace.project.organizationId,
+        workspace: getHardLimit(workspace.persistence?.storageQuota, config.quotas.workspaceBytes),
+        organization: await getOrganizationQuota(workspace.project.organizationId),
+      }));
+      // A failed lookup is retried by the next write
+      this.limits.catch(() => {
+        this.limits = null;
+      });
+    }
+    return this.limits;
+  }
+
+  private async getWorkspace(): Promise<any> {
+    const workspace = await db.workspace.findUnique({
+      where: { id: this.workspaceId },
+      include: {
+        project: { select: { organizationId: true } },
+        persistence: { select: { storageQuota: true } },
+      },
+    });
+
+    if (!workspace) {
+      throw new StorageQuotaError(`Workspace not found: ${this.workspaceId}`, 'NOT_FOUND');
+    }
+
+    return workspace;
+  }
+}
+
+export class OrganizationStorageQuota {
+  private readonly organizationId: string;
+
+  constructor(organizationId: string) {
+    this.organizationId = organizationId;
+  }
+
+  /**
+   * Usage against the organization limit, broken down by workspace and
+   * file type
+   */
+  async getUsage(): Promise<OrganizationStorageUsage> {
+    const scope = { workspace: { project: { organizationId: this.organizationId } } };
+
+    const [workspaces, categories, hardLimit, fileTypes] = await Promise.all([
+      db.workspace.findMany({
+        where: { project: { organizationId: this.organizationId } },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          persistence: { select: { storageQuota: true } },
+        },
+        orderBy: { name: 'asc' },
+      }),
+      measureUsage(scope),
+      getOrganizationQuota(this.organizationId),
+      measureFileTypes(scope),
+    ]);
+
+    const [files, trash, snapshots] = await Promise.all([
+      db.workspaceFile.groupBy({
+        by: ['workspaceId'],
+        where: { ...scope, isDirectory: false },
+        _sum: { size: true },
+      }),
+      db.workspaceTrashItem.groupBy({
+        by: ['workspaceId'],
+        where: scope,
+        _sum: { size: true },
+      }),
+      db.workspaceSnapshot.groupBy({
+        by: ['workspaceId'],
+        where: scope,
+        _sum: { archiveSize: true },
+      }),
+    ]);
+
+    const sumFor = (rows: any[], workspaceId: string, field: string) =>
+      Number(rows.find(row => row.workspaceId === workspaceId)?._sum[field] || 0);
+
+    const summaries: WorkspaceStorageSummary[] = workspaces.map((workspace: any) => {
+      const usage: StorageUsageCategories = {
+        files: sumFor(files, workspace.id, 'size'),
+        trash: sumFor(trash, workspace.id, 'size'),
+        snapshots: sumFor(snapshots, workspace.id, 'archiveSize'),
+      };
+
+      return {
+        workspaceId: workspace.id,
+        name: workspace.name,
+        type: workspace.type,
+        ...usage,
+        quota: toQuotaUsage(
+          totalUsage(usage),
+          getHardLimit(workspace.persistence?.storageQuota, config.quotas.workspaceBytes)
+        ),
+      };
+    });
+
+    return {
+      organizationId: this.organizationId,
+      quota: toQuotaUsage(totalUsage(categories), hardLimit),
+      categories,
+      workspaces: summaries.sort((a, b) => b.quota.used - a.quota.used),
+      fileTypes,
+    };
+  }
+
+  /**
+   * Set the organization hard limit in bytes; null restores the default
+   */
+  async setQuota(hardLimit: number | null): Promise<void> {
+    await db.organization.update({
+      where: { id: this.organizationId },
+      data: { storageQuota: hardLimit },
+    });
+  }
+}
+
+// =============================================================================
+// USAGE HELPERS
+// =============================================================================
+
+async function measureUsage(scope: Record<string, any>): Promise<StorageUsageCategories> {
+  const [files, trash, snapshots] = await Promise.all([
+    db.workspaceFile.aggregate({
+      where: { ...scope, isDirectory: false },
+      _sum: { size: true },
+    }),
+    db.workspaceTrashItem.aggregate({
+      where: scope,
+      _sum: { size: true },
+    }),
+    db.workspaceSnapshot.aggregate({
+      where: scope,
+      _sum: { archiveSize: true },
+    }),
+  ]);
+
+  return {
+    files: Number(files._sum.size || 0),
+    trash: Number(trash._sum.size || 0),
+    snapshots: Number(snapshots._sum.archiveSize || 0),
+  };
+}
+
+async function measureFileTypes(scope: Record<string, any>): Promise<StorageBreakdownEntry[]> {
+  const files = await db.workspaceFile.findMany({
+    where: { ...scope, isDirectory: false },
+    select: { path: true, size: true },
+  });
+
+  const byExtension = new Map<string, StorageBreakdownEntry>();
+  for (const file of files) {
+    const key = extname(file.path).toLowerCase() || 'none';
+    const entry = byExtension.get(key) || {
+      key,
+      label: key === 'none' ? 'No extension' : key,
+      size: 0,
+      count: 0,
+    };
+    entry.size += Number(file.size);
+    entry.count++;
+    byExtension.set(key, entry);
+  }
+
+  const entries = [...byExtension.values()].sort((a, b) => b.size - a.size);
+  if (entries.length <= FILE_TYPE_LIMIT) return entries;
+
+  const rest = entries.slice(FILE_TYPE_LIMIT - 1);
+  return [
+    ...entries.slice(0, FILE_TYPE_LIMIT - 1),
+    {
+      key: 'other',
+      label: `${rest.length} other types`,
+      size: rest.reduce((total, entry) => total + entry.size, 0),
+      count: rest.reduce((total, entry) => total + entry.count, 0),
+    },
+  ];
+}
+
+async function getOrganizationQuota(organizationId: string): Promise<number> {
+  const organization = await db.organization.findUnique({
+    where: { id: organizationId },
+    select: { storageQuota: true },
+  });
+
+  return getHardLimit(organization?.storageQuota, config.quotas.organizationBytes);
+}
+
+function getHardLimit(configured: bigint | number | null | undefined, fallback: number): number {
+  return configured === null || configured === undefined ? fallback : Number(configured);
+}
+
+function totalUsage(categories: StorageUsageCategories): number {
+  return categories.files + categories.trash + categories.snapshots;
+}
+
+function assertNotExceeded(workspace: StorageQuotaUsage, organization: StorageQuotaUsage): void {
+  if (workspace.status === 'exceeded') {
+    throw new StorageQuotaError(
+      `Workspace storage quota exceeded: ${formatBytes(workspace.used)} of ${formatBytes(workspace.hardLimit)}`,
+      'WORKSPACE_QUOTA_EXCEEDED',
+      workspace
+    );
+  }
+
+  if (organization.status === 'exceeded') {
+    throw new StorageQuotaError(
+      `Organization storage quota exceeded: ${formatBytes(organization.used)} of ${formatBytes(organization.hardLimit)}`,
+      'ORGANIZATION_QUOTA_EXCEEDED',
+      organization
+    );
+  }
+}
+
+function toQuotaUsage(used: number, hardLimit: number): StorageQuotaUsage {
+  const softLimit = Math.floor(hardLimit * config.quotas.softLimitRatio);
+  const status: QuotaStatus = used > hardLimit ? 'exceeded' : used >= softLimit ? 'warning' : 'ok';
+
+  return {
+    used,
+    softLimit,
+    hardLimit,
+    percentUsed: hardLimit > 0 ? Math.round((used / hardLimit) * 1000) / 10 : 100,
+    status,
+  };
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes === 0) return '0 B';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.floor(Math.log(bytes) / Math.log(k));
+  return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
+}
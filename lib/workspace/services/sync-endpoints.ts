@@ -0,0 +1,457 @@
+/**
+ * Workspace Sync Endpoints
+ * Adapters that expose workspace storage, local directories and
+ * S3-compatible buckets through one interface for the sync engine
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname, join, relative, resolve, sep } from 'path';
+import {
+  S3Client,
+  ListObjectsV2Command,
+  GetObjectCommand,
+  PutObjectCommand,
+  DeleteObjectCommand,
+} from '@aws-sdk/client-s3';
+import { SyncEndpoint } from '../types';
+import { WorkspaceFileStorage } from './file-storage';
+import { config } from '@/lib/config/environment';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface SyncEntry {
+  path: string; // Relative path without a leading slash
+  size: number;
+  modifiedAt: Date;
+  fingerprint: string; // Changes whenever the content changes
+}
+
+export interface SyncEndpointAdapter {
+  readonly description: string;
+  list(): Promise<SyncEntry[]>;
+  read(path: string): Promise<Buffer>;
+  write(path: string, content: Buffer): Promise<SyncEntry>;
+  delete(path: string): Promise<void>;
+}
+
+export class SyncEndpointError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'SyncEndpointError';
+  }
+}
+
+/**
+ * Create the adapter for a sync endpoint
+ */
+export function createSyncEndpointAdapter(
+  endpoint: SyncEndpoint,
+  workspaceId: string
+): SyncEndpointAdapter {
+  switch (endpoint.type) {
+    case 'workspace':
+      return new WorkspaceEndpointAdapter(workspaceId);
+    case 'local':
+      return new LocalDirectoryEndpointAdapter(endpoint);
+    case 's3':
+      return new S3EndpointAdapter(openSyncEndpoint(endpoint));
+    default:
+      throw new SyncEndpointError(
+        `Sync endpoint type '${endpoint.type}' is not supported`,
+        'UNSUPPORTED_ENDPOINT'
+      );
+  }
+}
+
+export function normalizeSyncPath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^\/+/, '');
+}
+
+// =============================================================================
+// CREDENTIALS
+// =============================================================================
+
+const CREDENTIALS_ALGORITHM = 'aes-256-gcm';
+const CREDENTIALS_PREFIX = 'enc:v1:';
+const CREDENTIALS_IV_LENGTH = 12;
+const CREDENTIALS_TAG_LENGTH = 16;
+
+/**
+ * Encrypt endpoint credentials for storage. Values are sealed one by one
+ * so the stored shape still shows which credentials are set.
+ */
+export function sealSyncEndpoint(endpoint: SyncEndpoint): SyncEndpoint {
+  if (!endpoint.credentials || Object.keys(endpoint.credentials).length === 0) {
+    return endpoint;
+  }
+
+  const key = getCredentialsKey();
+  return {
+    ...endpoint,
+    credentials: Object.fromEntries(
+      Object.entries(endpoint.credentials).map(([name, value]) => {
+        if (value.startsWith(CREDENTIALS_PREFIX)) return [name, value];
+
+        const iv = randomBytes(CREDENTIALS_IV_LENGTH);
+        const cipher = createCipheriv(CREDENTIALS_ALGORITHM, key, iv, { authTagLength: CREDENTIALS_TAG_LENGTH });
+        const ciphertext = Buffer.concat([cipher.update(value, 'utf-8'), cipher.final()]);
+        return [name, CREDENTIALS_PREFIX + Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64')];
+      })
+    ),
+  };
+}
+
+/**
+ * Decrypt credentials sealed by sealSyncEndpoint(). Values stored before
+ * credentials were encrypted are passed through.
+ */
+export function openSyncEndpoint(endpoint: SyncEndpoint): SyncEndpoint {
+  if (!endpoint.credentials) return endpoint;
+
+  return {
+    ...endpoint,
+    credentials: Object.fromEntries(
+      Object.entries(endpoint.credentials).map(([name, value]) => {
+        if (!value.startsWith(CREDENTIALS_PREFIX)) return [name, value];
+
+        const sealed = Buffer.from(value.slice(CREDENTIALS_PREFIX.length), 'base64');
+        const iv = sealed.subarray(0, CREDENTIALS_IV_LENGTH);
+        const tag = sealed.subarray(CREDENTIALS_IV_LENGTH, CREDENTIALS_IV_LENGTH + CREDENTIALS_TAG_LENGTH);
+        const decipher = createDecipheriv(CREDENTIALS_ALGORITHM, getCredentialsKey(), iv, { authTagLength: CREDENTIALS_TAG_LENGTH });
+        decipher.setAuthTag(tag);
+
+        try {
+          const plaintext = Buffer.concat([
+            decipher.update(sealed.subarray(CREDENTIALS_IV_LENGTH + CREDENTIALS_TAG_LENGTH)),
+            decipher.final(),
+          ]);
+          return [name, plaintext.toString('utf-8')];
+        } catch {
+          throw new SyncEndpointError('Stored sync credentials could not be decrypted', 'INVALID_CREDENTIALS');
+        }
+      })
+    ),
+  };
+}
+
+function getCredentialsKey(): Buffer {
+  const secret = config.sync.credentialsKey;
+  if (!secret) {
+    throw new SyncEndpointError('Storing sync credentials requires SYNC_CREDENTIALS_KEY', 'CREDENTIALS_UNAVAILABLE');
+  }
+
+  return Buffer.from(hkdfSync('sha256', secret, 'vibekraft-sync', 'endpoint-credentials', 32));
+}
+
+// =============================================================================
+// WORKSPACE ENDPOINT
+// =============================================================================
+
+class WorkspaceEndpointAdapter implements SyncEndpointAdapter {
+  readonly description: string;
+  private readonly fileStorage: WorkspaceFileStorage;
+  // Normalized path -> path as stored in the workspace
+  private readonly files = new Map<string, string>();
+  private readonly directories = new Set<string>();
+
+  constructor(workspaceId: string) {
+    this.description = `workspace:${workspaceId}`;
+    this.fileStorage = new WorkspaceFileStorage(workspaceId);
+  }
+
+  async list(): Promise<SyncEntry[]> {
+    const files = await this.fileStorage.listFiles();
+    const entries: SyncEntry[] = [];
+
+    this.files.clear();
+    this.directories.clear();
+
+    for (const file of files) {
+      const path = normalizeSyncPath(file.path);
+      if (file.isDirectory) {
+        this.directories.add(path);
+        continue;
+      }
+
+      this.files.set(path, file.path);
+      entries.push({
+        path,
+        size: Number(file.size),
+        modifiedAt: file.updatedAt,
+        fingerprint: file.hash,
+      });
+    }
+
+    return entries;
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const result = await this.fileStorage.getFile(this.files.get(path) || path);
+    if (!result) {
+      throw new SyncEndpointError(`File not found: ${path}`, 'NOT_FOUND');
+    }
+    return result.content;
+  }
+
+  async write(path: string, content: Buffer): Promise<SyncEntry> {
+    const existingPath = this.files.get(path);
+    let file;
+
+    if (existingPath) {
+      file = await this.fileStorage.updateFile(existingPath, content, undefined, 'Synced');
+    } else {
+      await this.ensureParentDirectories(path);
+      file = await this.fileStorage.storeFile(path, content);
+      this.files.set(path, file.path);
+    }
+
+    return {
+      path,
+      size: Number(file.size),
+      modifiedAt: file.updatedAt,
+      fingerprint: file.hash,
+    };
+  }
+
+  async delete(path: string): Promise<void> {
+    const existingPath = this.files.get(path);
+    if (!existingPath) return;
+
+    await this.fileStorage.deleteFile(existingPath);
+    this.files.delete(path);
+  }
+
+  private async ensureParentDirectories(path: string): Promise<void> {
+    const parts = path.split('/').slice(0, -1);
+
+    for (let i = 1; i <= parts.length; i++) {
+      const directory = parts.slice(0, i).join('/');
+      if (this.directories.has(directory)) continue;
+
+      await this.fileStorage.createDirectory(directory);
+      this.directories.add(directory);
+    }
+  }
+}
+
+// =============================================================================
+// LOCAL DIRECTORY ENDPOINT
+// =============================================================================
+
+class LocalDirectoryEndpointAdapter implements SyncEndpointAdapter {
+  readonly description: string;
+  private readonly root: string;
+
+  constructor(endpoint: SyncEndpoint) {
+    const localRoot = config.sync.localRoot;
+    if (!localRoot) {
+      throw new SyncEndpointError('Local directory sync is not enabled', 'ENDPOINT_DISABLED');
+    }
+
+    // Endpoint URLs are resolved inside the configured root only
+    const allowedRoot = resolve(localRoot);
+    const root = resolve(allowedRoot, endpoint.url.replace(/^file:\/\//, '').replace(/^\/+/, ''));
+    if (root !== allowedRoot && !root.startsWith(allowedRoot + sep)) {
+      throw new SyncEndpointError('Local sync directory is outside the allowed root', 'INVALID_ENDPOINT');
+    }
+
+    this.root = root;
+    this.description = `local:${root}`;
+  }
+
+  async list(): Promise<SyncEntry[]> {
+    await fs.mkdir(this.root, { recursive: true });
+
+    const entries: SyncEntry[] = [];
+    await this.walk(this.root, entries);
+    return entries;
+  }
+
+  async read(path: string): Promise<Buffer> {
+    return fs.readFile(this.resolvePath(path));
+  }
+
+  async write(path: string, content: Buffer): Promise<SyncEntry> {
+    const fullPath = this.resolvePath(path);
+    await fs.mkdir(dirname(fullPath), { recursive: true });
+    await fs.writeFile(fullPath, content);
+
+    return this.toEntry(path, await fs.stat(fullPath));
+  }
+
+  async delete(path: string): Promise<void> {
+    await fs.rm(this.resolvePath(path), { force: true });
+  }
+
+  private async walk(directory: string, entries: SyncEntry[]): Promise<void> {
+    const children = await fs.readdir(directory, { withFileTypes: true });
+
+    for (const child of children) {
+      const fullPath = join(directory, child.name);
+
+      if (child.isDirectory()) {
+        await this.walk(fullPath, entries);
+      } else if (child.isFile()) {
+        const path = normalizeSyncPath(relative(this.root, fullPath));
+        entries.push(this.toEntry(path, await fs.stat(fullPath)));
+      }
+    }
+  }
+
+  private resolvePath(path: string): string {
+    const fullPath = resolve(this.root, normalizeSyncPath(path));
+    if (!fullPath.startsWith(this.root + sep)) {
+      throw new SyncEndpointError(`Invalid sync path: ${path}`, 'INVALID_PATH');
+    }
+    return fullPath;
+  }
+
+  private toEntry(path: string, stats: { size: number; mtime: Date; mtimeMs: number }): SyncEntry {
+    return {
+      path,
+      size: stats.size,
+      modifiedAt: stats.mtime,
+      fingerprint: `${stats.size}:${Math.floor(stats.mtimeMs)}`,
+    };
+  }
+}
+
+// =============================================================================
+// S3-COMPATIBLE ENDPOINT
+// =============================================================================
+
+class S3EndpointAdapter implements SyncEndpointAdapter {
+  readonly description: string;
+  private readonly client: S3Client;
+  private readonly bucket: string;
+  private readonly prefix: string;
+
+  /**
+   * Endpoint URL format: s3://bucket/optional/prefix
+   * Options: endpoint (for MinIO and other S3-compatible stores, must be
+   * listed in SYNC_S3_ALLOWED_ENDPOINTS), region, forcePathStyle
+   * Credentials: accessKeyId, secretAccessKey, both required so the
+   * server's own AWS credentials are never used for a user's bucket
+   */
+  constructor(endpoint: SyncEndpoint) {
+    const match = endpoint.url.match(/^s3:\/\/([^/]+)\/?(.*)$/);
+    if (!match) {
+      throw new SyncEndpointError(`Invalid S3 endpoint URL: ${endpoint.url}`, 'INVALID_ENDPOINT');
+    }
+
+    this.bucket = match[1];
+    this.prefix = match[2] ? `${match[2].replace(/\/+$/, '')}/` : '';
+    this.description = `s3:${this.bucket}/${this.prefix}`;
+
+    const { accessKeyId, secretAccessKey } = endpoint.credentials || {};
+    if (!accessKeyId || !secretAccessKey) {
+      throw new SyncEndpointError('S3 endpoints require an accessKeyId and a secretAccessKey', 'MISSING_CREDENTIALS');
+    }
+
+    const options = endpoint.options || {};
+    if (options.endpoint !== undefined) {
+      assertAllowedS3Endpoint(options.endpoint);
+    }
+
+    this.client = new S3Client({
+      region: options.region || 'us-east-1',
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle ?? !!options.endpoint,
+      credentials: { accessKeyId, secretAccessKey },
+    });
+  }
+
+  async list(): Promise<SyncEntry[]> {
+    const entries: SyncEntry[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.prefix || undefined,
+        ContinuationToken: continuationToken,
+      }));
+
+      for (const object of response.Contents || []) {
+        if (!object.Key || object.Key.endsWith('/')) continue;
+
+        entries.push({
+          path: object.Key.slice(this.prefix.length),
+          size: object.Size || 0,
+          modifiedAt: object.LastModified || new Date(0),
+          fingerprint: object.ETag || '',
+        });
+      }
+
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return entries;
+  }
+
+  async read(path: string): Promise<Buffer> {
+    const response = await this.client.send(new GetObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(path),
+    }));
+
+    if (!response.Body) {
+      throw new SyncEndpointError(`Object not found: ${path}`, 'NOT_FOUND');
+    }
+
+    return Buffer.from(await response.Body.transformToByteArray());
+  }
+
+  async write(path: string, content: Buffer): Promise<SyncEntry> {
+    const response = await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(path),
+      Body: content,
+    }));
+
+    return {
+      path,
+      size: content.length,
+      modifiedAt: new Date(),
+      fingerprint: response.ETag || '',
+    };
+  }
+
+  async delete(path: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({
+      Bucket: this.bucket,
+      Key: this.getKey(path),
+    }));
+  }
+
+  private getKey(path: string): string {
+    return `${this.prefix}${normalizeSyncPath(path)}`;
+  }
+}
+
+/**
+ * Custom S3 endpoints are requests the server makes on a user's behalf, so
+ * only endpoints an administrator configured can be used
+ */
+function assertAllowedS3Endpoint(endpoint: unknown): void {
+  const origin = typeof endpoint === 'string' ? parseOrigin(endpoint) : null;
+  const allowed = config.sync.s3AllowedEndpoints.map(parseOrigin);
+
+  if (!origin || !allowed.includes(origin)) {
+    throw new SyncEndpointError(
+      `S3 endpoint ${String(endpoint)} is not allowed. Ask an administrator to add it to SYNC_S3_ALLOWED_ENDPOINTS.`,
+      'ENDPOINT_NOT_ALLOWED'
+    );
+  }
+}
+
+function parseOrigin(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,891 @@
+/**
+ * Workspace Sync Engine
+ * Executes WorkspaceSync jobs between two endpoints, tracking per-path
+ * fingerprints so that changes, deletions and conflicts can be detected
+ */
+
+import { createHash } from 'crypto';
+import { minimatch } from 'minimatch';
+import {
+  WorkspaceSync,
+  SyncType,
+  SyncStatus,
+  SyncDirection,
+  SyncEndpoint,
+  SyncProgress,
+  SyncConflict,
+  SyncSettings,
+  ConflictResolution,
+  FileVersion,
+  SyncConflictMerge,
+} from '../types';
+import { db } from '@/lib/db';
+import {
+  SyncEntry,
+  SyncEndpointAdapter,
+  createSyncEndpointAdapter,
+  sealSyncEndpoint,
+} from './sync-endpoints';
+import { blobStore } from './blob-store';
+import { threeWayMerge, hasConflictMarkers, isBinaryContent } from './three-way-merge';
+
+const PROGRESS_UPDATE_INTERVAL_MS = 1000;
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export interface CreateSyncRequest {
+  type?: SyncType;
+  direction: SyncDirection;
+  source: SyncEndpoint;
+  target: SyncEndpoint;
+  settings?: Partial<SyncSettings>;
+  nextSync?: Date;
+}
+
+export interface SyncRunOptions {
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+export interface SyncRunResult {
+  syncId: string;
+  status: SyncStatus;
+  copied: number;
+  merged: number;
+  deleted: number;
+  skipped: number;
+  failed: string[];
+  conflicts: SyncConflict[];
+  duration: number;
+}
+
+export class SyncEngineError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'SyncEngineError';
+  }
+}
+
+type SyncSide = 'source' | 'target';
+
+// Endpoint fingerprints recorded after the last successful sync of a path,
+// with the blob hash of the content both sides agreed on (the merge base)
+type SyncBaseline = Record<string, { source: string; target: string; base?: string }>;
+
+type SyncAction =
+  | { type: 'copy'; path: string; from: SyncSide; size: number }
+  | { type: 'merge'; path: string; size: number }
+  | { type: 'delete'; path: string; on: SyncSide };
+
+const DEFAULT_SYNC_SETTINGS: SyncSettings = {
+  excludePatterns: ['node_modules/**', '.git/**'],
+  includePatterns: [],
+  maxFileSize: 0,
+  preservePermissions: false,
+  preserveTimestamps: false,
+  deleteExtraFiles: false,
+  retryAttempts: 3,
+  retryDelay: 1000,
+};
+
+export class WorkspaceSyncEngine {
+  private readonly workspaceId: string;
+
+  constructor(workspaceId: string) {
+    this.workspaceId = workspaceId;
+  }
+
+  // =============================================================================
+  // SYNC CONFIGURATION
+  // =============================================================================
+
+  /**
+   * Create a sync job
+   */
+  async createSync(request: CreateSyncRequest): Promise<WorkspaceSync> {
+    // Fail early on endpoints the engine cannot open
+    createSyncEndpointAdapter(request.source, this.workspaceId);
+    createSyncEndpointAdapter(request.target, this.workspaceId);
+
+    const settings = { ...DEFAULT_SYNC_SETTINGS, ...request.settings };
+    const type = request.type || 'manual';
+
+    const sync = await db.workspaceSync.create({
+      data: {
+        workspaceId: this.workspaceId,
+        type: type.toUpperCase() as any,
+        status: 'IDLE',
+        direction: request.direction,
+        // Credentials are stored encrypted and only decrypted by the adapters
+        source: sealSyncEndpoint(request.source) as any,
+        target: sealSyncEndpoint(request.target) as any,
+        progress: this.getEmptyProgress() as any,
+        conflicts: [],
+        baseline: {},
+        settings: settings as any,
+        nextSync: request.nextSync || (type === 'periodic' && settings.interval ? new Date() : null),
+      },
+    });
+
+    return this.mapToWorkspaceSync(sync);
+  }
+
+  /**
+   * List sync jobs of the workspace
+   */
+  async listSyncs(): Promise<WorkspaceSync[]> {
+    const syncs = await db.workspaceSync.findMany({
+      where: { workspaceId: this.workspaceId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return syncs.map((sync: any) => this.mapToWorkspaceSync(sync));
+  }
+
+  /**
+   * Get a sync job
+   */
+  async getSync(syncId: string): Promise<WorkspaceSync | null> {
+    const sync = await db.workspaceSync.findUnique({
+      where: { id: syncId },
+    });
+
+    if (!sync || sync.workspaceId !== this.workspaceId) {
+      return null;
+    }
+
+    return this.mapToWorkspaceSync(sync);
+  }
+
+  /**
+   * Delete a sync job
+   */
+  async deleteSync(syncId: string): Promise<void> {
+    const sync = await this.findSyncOrThrow(syncId);
+
+    await db.workspaceSync.delete({
+      where: { id: sync.id },
+    });
+
+    for (const entry of Object.values((sync.baseline || {}) as SyncBaseline)) {
+      await blobStore.release(entry.base || '');
+    }
+  }
+
+  /**
+   * Pause or resume scheduled runs of a sync job
+   */
+  async setPaused(syncId: string, paused: boolean): Promise<WorkspaceSync> {
+    const sync = await this.findSyncOrThrow(syncId);
+
+    if (sync.status === 'SYNCING') {
+      throw new SyncEngineError('Sync is currently running', 'SYNC_IN_PROGRESS');
+    }
+
+    const updated = await db.workspaceSync.update({
+      where: { id: sync.id },
+      data: { status: paused ? 'PAUSED' : 'IDLE' },
+    });
+
+    return this.mapToWorkspaceSync(updated);
+  }
+
+  /**
+   * Record how a conflict should be resolved on the next run
+   */
+  async resolveConflict(syncId: string, path: string, resolution: ConflictResolution): Promise<WorkspaceSync> {
+    const sync = await this.findSyncOrThrow(syncId);
+    const conflicts = (sync.conflicts || []) as SyncConflict[];
+    const conflict = conflicts.find(c => c.path === path);
+
+    if (!conflict) {
+      throw new SyncEngineError(`No conflict recorded for ${path}`, 'CONFLICT_NOT_FOUND');
+    }
+
+    conflict.resolution = resolution;
+
+    const updated = await db.workspaceSync.update({
+      where: { id: sync.id },
+      data: { conflicts: conflicts as any },
+    });
+
+    return this.mapToWorkspaceSync(updated);
+  }
+
+  // =============================================================================
+  // CONFLICT MERGING
+  // =============================================================================
+
+  /**
+   * Three-way merge of a content conflict against the last common revision
+   */
+  async getConflictMerge(syncId: string, path: string): Promise<SyncConflictMerge> {
+    const row = await this.findSyncOrThrow(syncId);
+    const conflict = this.findContentConflict(row, path);
+    const adapters = await this.openAdapters(row);
+
+    const merge = await this.loadMerge(adapters, row.baseline || {}, this.getWorkspaceSide(row), path);
+
+    return { conflict, ...merge };
+  }
+
+  /**
+   * Write resolved content to both endpoints and clear the conflict.
+   * Without content the automatic merge is applied if it is clean.
+   */
+  async applyConflictMerge(syncId: string, path: string, content?: string): Promise<WorkspaceSync> {
+    const row = await this.findSyncOrThrow(syncId);
+
+    if (row.status === 'SYNCING') {
+      throw new SyncEngineError('Sync is currently running', 'SYNC_IN_PROGRESS');
+    }
+
+    this.findContentConflict(row, path);
+    const adapters = await this.openAdapters(row);
+    const baseline: SyncBaseline = { ...(row.baseline || {}) };
+
+    let resolved = content;
+    if (resolved === undefined) {
+      const { merge } = await this.loadMerge(adapters, baseline, this.getWorkspaceSide(row), path);
+      if (!merge.clean) {
+        throw new SyncEngineError(
+          `Automatic merge left ${merge.conflictCount} conflict(s) in ${path}`,
+          'MERGE_CONFLICTS'
+        );
+      }
+      resolved = merge.content;
+    }
+
+    if (hasConflictMarkers(resolved)) {
+      throw new SyncEngineError('Resolved content still contains conflict markers', 'MERGE_CONFLICTS');
+    }
+
+    const fingerprints = await this.writeBothSides(adapters, path, Buffer.from(resolved));
+    await this.recordBaseline(baseline, path, fingerprints, Buffer.from(resolved));
+
+    const conflicts = ((row.conflicts || []) as SyncConflict[]).filter(c => c.path !== path);
+    const updated = await db.workspaceSync.update({
+      where: { id: row.id },
+      data: {
+        conflicts: conflicts as any,
+        baseline: baseline as any,
+        status: row.status === 'CONFLICT' && conflicts.length === 0 ? 'IDLE' : row.status,
+      },
+    });
+
+    return this.mapToWorkspaceSync(updated);
+  }
+
+  // =============================================================================
+  // SYNC EXECUTION
+  // =============================================================================
+
+  /**
+   * Run a sync job to completion
+   */
+  async runSync(syncId: string, options: SyncRunOptions = {}): Promise<SyncRunResult> {
+    const startedAt = Date.now();
+
+    // Claim the job so that concurrent runs (manual or scheduled) are rejected
+    const { count } = await db.workspaceSync.updateMany({
+      where: {
+        id: syncId,
+        workspaceId: this.workspaceId,
+        status: { notIn: ['SYNCING', 'PAUSED'] },
+      },
+      data: {
+        status: 'SYNCING',
+        lastError: null,
+        progress: this.getEmptyProgress() as any,
+      },
+    });
+
+    if (count === 0) {
+      const existing = await this.getSync(syncId);
+      if (!existing) {
+        throw new SyncEngineError('Sync not found', 'SYNC_NOT_FOUND');
+      }
+      throw new SyncEngineError(`Sync is ${existing.status}`, 'SYNC_NOT_RUNNABLE');
+    }
+
+    const row = await db.workspaceSync.findUnique({ where: { id: syncId } });
+    const sync = this.mapToWorkspaceSync(row);
+    const settings = { ...DEFAULT_SYNC_SETTINGS, ...sync.settings };
+
+    try {
+      // The mapped sync has its credentials redacted, so adapters use the row
+      const source = createSyncEndpointAdapter(row.source, this.workspaceId);
+      const target = createSyncEndpointAdapter(row.target, this.workspaceId);
+      const baseline: SyncBaseline = { ...(row.baseline || {}) };
+      const resolutions = new Map<string, ConflictResolution>();
+
+      for (const conflict of sync.conflicts) {
+        if (conflict.resolution) resolutions.set(conflict.path, conflict.resolution);
+      }
+
+      const result: SyncRunResult = {
+        syncId,
+        status: 'idle',
+        copied: 0,
+        merged: 0,
+        deleted: 0,
+        skipped: 0,
+        failed: [],
+        conflicts: [],
+        duration: 0,
+      };
+
+      const [sourceEntries, targetEntries] = await Promise.all([source.list(), target.list()]);
+      const sourceMap = this.filterEntries(sourceEntries, settings, result);
+      const targetMap = this.filterEntries(targetEntries, settings, result);
+
+      const actions = await this.planActions(
+        sync.direction,
+        settings,
+        { source, target },
+        { source: sourceMap, target: targetMap },
+        baseline,
+        resolutions,
+        result
+      );
+
+      await this.executeActions(
+        syncId,
+        actions,
+        settings,
+        { source, target },
+        { source: sourceMap, target: targetMap },
+        baseline,
+        this.getWorkspaceSide(row),
+        result,
+        options
+      );
+
+      result.status = result.conflicts.length > 0
+        ? 'conflict'
+        : result.failed.length > 0 ? 'error' : 'idle';
+      result.duration = Date.now() - startedAt;
+
+      await db.workspaceSync.update({
+        where: { id: syncId },
+        data: {
+          status: result.status.toUpperCase() as any,
+          conflicts: result.conflicts as any,
+          baseline: baseline as any,
+          lastError: result.failed.length > 0 ? `Failed to sync ${result.failed.length} file(s)` : null,
+          lastSync: new Date(),
+          nextSync: this.getNextSync(sync, settings),
+        },
+      });
+
+      return result;
+    } catch (error) {
+      await db.workspaceSync.update({
+        where: { id: syncId },
+        data: {
+          status: 'ERROR',
+          lastError: error instanceof Error ? error.message : 'Unknown error',
+          nextSync: this.getNextSync(sync, settings),
+        },
+      });
+
+      throw error;
+    }
+  }
+
+  /**
+   * Decide what to do for every path seen on either side or in the baseline
+   */
+  private async planActions(
+    direction: SyncDirection,
+    settings: SyncSettings,
+    adapters: Record<SyncSide, SyncEndpointAdapter>,
+    entries: Record<SyncSide, Map<string, SyncEntry>>,
+    baseline: SyncBaseline,
+    resolutions: Map<string, ConflictResolution>,
+    result: SyncRunResult
+  ): Promise<SyncAction[]> {
+    const actions: SyncAction[] = [];
+    const paths = new Set([
+      ...entries.source.keys(),
+      ...entries.target.keys(),
+      ...Object.keys(baseline).filter(path => this.matchesPatterns(path, settings)),
+    ]);
+
+    for (const path of paths) {
+      const source = entries.source.get(path);
+      const target = entries.target.get(path);
+      const base = baseline[path];
+
+      if (!source && !target) {
+        await this.dropBaseline(baseline, path);
+        continue;
+      }
+
+      const sourceChanged = source ? !base || base.source !== source.fingerprint : !!base;
+      const targetChanged = target ? !base || base.target !== target.fingerprint : !!base;
+
+      if (source && target && !sourceChanged && !targetChanged) {
+        continue;
+      }
+
+      // Without a baseline there is no way to tell which side changed, so
+      // identical content is adopted as the new baseline
+      if (source && target && (!base || (sourceChanged && targetChanged))) {
+        const content = await this.readIfEqual(adapters, path);
+        if (content) {
+          await this.recordBaseline(baseline, path, { source: source.fingerprint, target: target.fingerprint }, content);
+          continue;
+        }
+      }
+
+      const resolution = resolutions.get(path);
+      if (resolution === 'skip') {
+        await this.acceptDivergence(baseline, path, source, target);
+        result.skipped++;
+        continue;
+      }
+
+      const winner: SyncSide | null =
+        resolution === 'local' ? 'source' : resolution === 'remote' ? 'target' : null;
+
+      if (direction === 'upload' || direction === 'download') {
+        const from: SyncSide = direction === 'upload' ? 'source' : 'target';
+        const to: SyncSide = from === 'source' ? 'target' : 'source';
+        const fromEntry = entries[from].get(path);
+
+        if (fromEntry) {
+          actions.push({ type: 'copy', path, from, size: fromEntry.size });
+        } else if (settings.deleteExtraFiles) {
+          actions.push({ type: 'delete', path, on: to });
+        } else {
+          // One-way syncs never delete unless asked to; the file is left as an extra
+          await this.dropBaseline(baseline, path);
+          result.skipped++;
+        }
+        continue;
+      }
+
+      // Bidirectional
+      if (winner) {
+        this.pushResolvedAction(actions, path, winner, entries);
+        continue;
+      }
+
+      if (source && target) {
+        if (sourceChanged && targetChanged) {
+          if (resolution === 'merge') {
+            actions.push({ type: 'merge', path, size: Math.max(source.size, target.size) });
+          } else {
+            result.conflicts.push(this.createConflict(path, 'content', source, target));
+          }
+        } else {
+          const from: SyncSide = sourceChanged ? 'source' : 'target';
+          actions.push({ type: 'copy', path, from, size: (from === 'source' ? source : target).size });
+        }
+        continue;
+      }
+
+      const existing = (source || target)!;
+      const existingSide: SyncSide = source ? 'source' : 'target';
+      const existingChanged = source ? sourceChanged : targetChanged;
+
+      if (!base) {
+        actions.push({ type: 'copy', path, from: existingSide, size: existing.size });
+      } else if (existingChanged) {
+        // Deleted on one side, modified on the other
+        result.conflicts.push(this.createConflict(path, 'delete', source, target));
+      } else {
+        // Deleted on one side since the last sync
+        actions.push({ type: 'delete', path, on: existingSide });
+      }
+    }
+
+    return actions;
+  }
+
+  /**
+   * Apply planned actions with retries, reporting progress as they complete
+   */
+  private async executeActions(
+    syncId: string,
+    actions: SyncAction[],
+    settings: SyncSettings,
+    adapters: Record<SyncSide, SyncEndpointAdapter>,
+    entries: Record<SyncSide, Map<string, SyncEntry>>,
+    baseline: SyncBaseline,
+    baseSide: SyncSide | null,
+    result: SyncRunResult,
+    options: SyncRunOptions
+  ): Promise<void> {
+    const startedAt = Date.now();
+    const progress: SyncProgress = {
+      ...this.getEmptyProgress(),
+      totalFiles: actions.length,
+      totalBytes: actions.reduce((total, action) => total + (action.type === 'delete' ? 0 : action.size), 0),
+    };
+    let lastReported = 0;
+
+    const report = async (force: boolean = false) => {
+      const elapsed = (Date.now() - startedAt) / 1000;
+      progress.speed = elapsed > 0 ? Math.round(progress.processedBytes / elapsed) : 0;
+      progress.eta = progress.speed > 0
+        ? Math.round((progress.totalBytes - progress.processedBytes) / progress.speed)
+        : 0;
+
+      options.onProgress?.({ ...progress });
+
+      if (force || Date.now() - lastReported >= PROGRESS_UPDATE_INTERVAL_MS) {
+        lastReported = Date.now();
+        await db.workspaceSync.update({
+          where: { id: syncId },
+          data: { progress: progress as any },
+        });
+      }
+    };
+
+    await report(true);
+
+    for (const action of actions) {
+      progress.currentFile = action.path;
+
+      try {
+        await this.withRetry(settings, async () => {
+          if (action.type === 'copy') {
+            const to: SyncSide = action.from === 'source' ? 'target' : 'source';
+            const content = await adapters[action.from].read(action.path);
+            const written = await adapters[to].write(action.path, content);
+            const fromEntry = entries[action.from].get(action.path)!;
+
+            await this.recordBaseline(baseline, action.path, action.from === 'source'
+              ? { source: fromEntry.fingerprint, target: written.fingerprint }
+              : { source: written.fingerprint, target: fromEntry.fingerprint }, content);
+            result.copied++;
+          } else if (action.type === 'merge') {
+            const merge = await this.loadMerge(adapters, baseline, baseSide, action.path)
+              .then(loaded => loaded.merge)
+              .catch(error => {
+                if (error instanceof SyncEngineError && error.code === 'NOT_MERGEABLE') return null;
+                throw error;
+              });
+
+            // Overlapping edits and binary files still need a manual resolution
+            if (!merge || !merge.clean) {
+              result.conflicts.push(this.createConflict(
+                action.path,
+                'content',
+                entries.source.get(action.path),
+                entries.target.get(action.path)
+              ));
+              return;
+            }
+
+            const content = Buffer.from(merge.content);
+            await this.recordBaseline(baseline, action.path, await this.writeBothSides(adapters, action.path, content), content);
+            result.merged++;
+          } else {
+            await adapters[action.on].delete(action.path);
+            await this.dropBaseline(baseline, action.path);
+            result.deleted++;
+          }
+        });
+      } catch (error) {
+        console.error(`Failed to sync ${action.path}:`, error);
+        result.failed.push(action.path);
+      }
+
+      progress.processedFiles++;
+      if (action.type !== 'delete') progress.processedBytes += action.size;
+      await report();
+    }
+
+    progress.currentFile = undefined;
+    await report(true);
+  }
+
+  /**
+   * Load both sides of a conflicting path and merge them against the content
+   * recorded with the baseline. Baselines recorded before the base was kept
+   * fall back to the workspace revision, when one side is the workspace.
+   */
+  private async loadMerge(
+    adapters: Record<SyncSide, SyncEndpointAdapter>,
+    baseline: SyncBaseline,
+    baseSide: SyncSide | null,
+    path: string
+  ): Promise<Omit<SyncConflictMerge, 'conflict'>> {
+    const [local, remote] = await Promise.all([
+      adapters.source.read(path),
+      adapters.target.read(path),
+    ]);
+
+    let base: Buffer | null = null;
+    const baseHash = baseline[path]?.base ?? (baseSide ? baseline[path]?.[baseSide] : undefined);
+    if (baseHash && await blobStore.has(baseHash)) {
+      base = await blobStore.get(baseHash);
+    }
+
+    if (isBinaryContent(local) || isBinaryContent(remote) || (base && isBinaryContent(base))) {
+      throw new SyncEngineError(`${path} is a binary file and cannot be merged`, 'NOT_MERGEABLE');
+    }
+
+    const baseText = base ? base.toString('utf-8') : null;
+    const localText = local.toString('utf-8');
+    const remoteText = remote.toString('utf-8');
+
+    return {
+      base: baseText,
+      local: localText,
+      remote: remoteText,
+      merge: threeWayMerge(baseText || '', localText, remoteText),
+    };
+  }
+
+  private async writeBothSides(
+    adapters: Record<SyncSide, SyncEndpointAdapter>,
+    path: string,
+    content: Buffer
+  ): Promise<{ source: string; target: string }> {
+    const [source, target] = await Promise.all([
+      adapters.source.write(path, content),
+      adapters.target.write(path, content),
+    ]);
+
+    return { source: source.fingerprint, target: target.fingerprint };
+  }
+
+  private async openAdapters(row: any): Promise<Record<SyncSide, SyncEndpointAdapter>> {
+    const adapters = {
+      source: createSyncEndpointAdapter(row.source, this.workspaceId),
+      target: createSyncEndpointAdapter(row.target, this.workspaceId),
+    };
+
+    // Adapters resolve existing paths from their listing
+    await Promise.all([adapters.source.list(), adapters.target.list()]);
+
+    return adapters;
+  }
+
+  private findContentConflict(row: any, path: string): SyncConflict {
+    const conflict = ((row.conflicts || []) as SyncConflict[]).find(c => c.path === path);
+
+    if (!conflict) {
+      throw new SyncEngineError(`No conflict recorded for ${path}`, 'CONFLICT_NOT_FOUND');
+    }
+    if (conflict.type !== 'content') {
+      throw new SyncEngineError(`${conflict.type} conflicts cannot be merged`, 'NOT_MERGEABLE');
+    }
+
+    return conflict;
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  private getWorkspaceSide(row: any): SyncSide | null {
+    if (row.source?.type === 'workspace') return 'source';
+    if (row.target?.type === 'workspace') return 'target';
+    return null;
+  }
+
+  private filterEntries(
+    entries: SyncEntry[],
+    settings: SyncSettings,
+    result: SyncRunResult
+  ): Map<string, SyncEntry> {
+    const filtered = new Map<string, SyncEntry>();
+
+    for (const entry of entries) {
+      if (!this.matchesPatterns(entry.path, settings)) continue;
+
+      if (settings.maxFileSize > 0 && entry.size > settings.maxFileSize) {
+        result.skipped++;
+        continue;
+      }
+
+      filtered.set(entry.path, entry);
+    }
+
+    return filtered;
+  }
+
+  private matchesPatterns(path: string, settings: SyncSettings): boolean {
+    const matches = (pattern: string) => minimatch(path, pattern, { dot: true, matchBase: !pattern.includes('/') });
+
+    if (settings.includePatterns.length > 0 && !settings.includePatterns.some(matches)) {
+      return false;
+    }
+
+    return !settings.excludePatterns.some(matches);
+  }
+
+  /**
+   * Read both sides of a path, returning the content if it is identical
+   */
+  private async readIfEqual(
+    adapters: Record<SyncSide, SyncEndpointAdapter>,
+    path: string
+  ): Promise<Buffer | null> {
+    const [source, target] = await Promise.all([
+      adapters.source.read(path),
+      adapters.target.read(path),
+    ]);
+
+    const hash = (content: Buffer) => createHash('sha256').update(content).digest('hex');
+    return hash(source) === hash(target) ? source : null;
+  }
+
+  /**
+   * Record the fingerprints of a path both sides agree on. Text content is
+   * kept in the blob store as the base of future merges, replacing the
+   * previous base.
+   */
+  private async recordBaseline(
+    baseline: SyncBaseline,
+    path: string,
+    fingerprints: { source: string; target: string },
+    content: Buffer
+  ): Promise<void> {
+    const previous = baseline[path]?.base;
+    const base = isBinaryContent(content) ? undefined : (await blobStore.acquire(content)).hash;
+
+    baseline[path] = { ...fingerprints, base };
+    await blobStore.release(previous || '');
+  }
+
+  private async dropBaseline(baseline: SyncBaseline, path: string): Promise<void> {
+    const previous = baseline[path]?.base;
+    delete baseline[path];
+    await blobStore.release(previous || '');
+  }
+
+  private pushResolvedAction(
+    actions: SyncAction[],
+    path: string,
+    winner: SyncSide,
+    entries: Record<SyncSide, Map<string, SyncEntry>>
+  ): void {
+    const winnerEntry = entries[winner].get(path);
+    const loser: SyncSide = winner === 'source' ? 'target' : 'source';
+
+    if (winnerEntry) {
+      actions.push({ type: 'copy', path, from: winner, size: winnerEntry.size });
+    } else {
+      actions.push({ type: 'delete', path, on: loser });
+    }
+  }
+
+  private async acceptDivergence(
+    baseline: SyncBaseline,
+    path: string,
+    source?: SyncEntry,
+    target?: SyncEntry
+  ): Promise<void> {
+    if (source && target) {
+      // The sides still differ, so the last agreed content stays the base
+      baseline[path] = { ...baseline[path], source: source.fingerprint, target: target.fingerprint };
+    } else {
+      await this.dropBaseline(baseline, path);
+    }
+  }
+
+  private createConflict(
+    path: string,
+    type: SyncConflict['type'],
+    source?: SyncEntry,
+    target?: SyncEntry
+  ): SyncConflict {
+    return {
+      path,
+      type,
+      localVersion: this.toFileVersion(source),
+      remoteVersion: this.toFileVersion(target),
+    };
+  }
+
+  private toFileVersion(entry?: SyncEntry): FileVersion {
+    return {
+      hash: entry?.fingerprint || '',
+      size: entry?.size || 0,
+      modifiedAt: entry?.modifiedAt || new Date(0),
+    };
+  }
+
+  private async withRetry<T>(settings: SyncSettings, operation: () => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= settings.retryAttempts; attempt++) {
+      try {
+        return await operation();
+      } catch (error) {
+        lastError = error;
+        if (attempt < settings.retryAttempts) {
+          await new Promise(resolve => setTimeout(resolve, settings.retryDelay * (attempt + 1)));
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  private getNextSync(sync: WorkspaceSync, settings: SyncSettings): Date | null {
+    if ((sync.type === 'periodic' || sync.type === 'realtime') && settings.interval) {
+      return new Date(Date.now() + settings.interval);
+    }
+    return null;
+  }
+
+  private getEmptyProgress(): SyncProgress {
+    return {
+      totalFiles: 0,
+      processedFiles: 0,
+      totalBytes: 0,
+      processedBytes: 0,
+      speed: 0,
+      eta: 0,
+    };
+  }
+
+  private async findSyncOrThrow(syncId: string): Promise<any> {
+    const sync = await db.workspaceSync.findUnique({
+      where: { id: syncId },
+    });
+
+    if (!sync || sync.workspaceId !== this.workspaceId) {
+      throw new SyncEngineError('Sync not found', 'SYNC_NOT_FOUND');
+    }
+
+    return sync;
+  }
+
+  private mapToWorkspaceSync(dbSync: any): WorkspaceSync {
+    return {
+      id: dbSync.id,
+      workspaceId: dbSync.workspaceId,
+      type: dbSync.type.toLowerCase() as SyncType,
+      status: dbSync.status.toLowerCase() as SyncStatus,
+      direction: dbSync.direction as SyncDirection,
+      source: this.redactCredentials(dbSync.source),
+      target: this.redactCredentials(dbSync.target),
+      progress: dbSync.progress,
+      conflicts: dbSync.conflicts || [],
+      lastSync: dbSync.lastSync,
+      lastError: dbSync.lastError || undefined,
+      nextSync: dbSync.nextSync || undefined,
+      settings: dbSync.settings,
+    };
+  }
+
+  private redactCredentials(endpoint: SyncEndpoint): SyncEndpoint {
+    if (!endpoint.credentials) return endpoint;
+
+    return {
+      ...endpoint,
+      credentials: Object.fromEntries(
+        Object.keys(endpoint.credentials).map(key => [key, '********'])
+      ),
+    };
+  }
+}
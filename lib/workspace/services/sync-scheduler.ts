@@ -0,0 +1,108 @@
+/**
+ * Workspace Sync Scheduler
+ * Polls for WorkspaceSync jobs whose nextSync time has passed and runs them
+ */
+
+import { db } from '@/lib/db';
+import { config } from '@/lib/config/environment';
+import { WorkspaceSyncEngine } from './sync-engine';
+
+export interface SyncSchedulerOptions {
+  interval?: number; // Polling interval in milliseconds
+  batchSize?: number; // Maximum jobs started per tick
+  staleAfter?: number; // Runs without progress for this long are marked failed
+}
+
+export class WorkspaceSyncScheduler {
+  private readonly interval: number;
+  private readonly batchSize: number;
+  private readonly staleAfter: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(options: SyncSchedulerOptions = {}) {
+    this.interval = options.interval || config.sync.schedulerInterval;
+    this.batchSize = options.batchSize || 5;
+    this.staleAfter = options.staleAfter || 30 * 60 * 1000;
+  }
+
+  /**
+   * Start polling for due sync jobs
+   */
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      this.tick().catch(error => console.error('Sync scheduler tick failed:', error));
+    }, this.interval);
+  }
+
+  /**
+   * Stop polling. Runs already in progress are left to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run every sync job that is due. Returns the number of jobs started.
+   */
+  async tick(): Promise<number> {
+    // Skip overlapping ticks while a previous batch is still running
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      await this.recoverStaleRuns();
+
+      const due = await db.workspaceSync.findMany({
+        where: {
+          nextSync: { lte: new Date() },
+          status: { notIn: ['SYNCING', 'PAUSED'] },
+        },
+        orderBy: { nextSync: 'asc' },
+        take: this.batchSize,
+      });
+
+      for (const sync of due) {
+        const engine = new WorkspaceSyncEngine(sync.workspaceId);
+
+        try {
+          await engine.runSync(sync.id);
+        } catch (error) {
+          // The engine records the failure on the row and reschedules it
+          console.error(`Scheduled sync ${sync.id} failed:`, error);
+        }
+      }
+
+      return due.length;
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Release jobs left in SYNCING by a process that stopped mid-run
+   */
+  private async recoverStaleRuns(): Promise<void> {
+    await db.workspaceSync.updateMany({
+      where: {
+        status: 'SYNCING',
+        updatedAt: { lt: new Date(Date.now() - this.staleAfter) },
+      },
+      data: {
+        status: 'ERROR',
+        lastError: 'Sync was interrupted',
+      },
+    });
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const syncScheduler = new WorkspaceSyncScheduler();
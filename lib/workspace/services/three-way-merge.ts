@@ -0,0 +1,240 @@
+/**
+ * Three-Way Merge
+ * Line-based diff3 merge of two versions against their common base.
+ * Non-overlapping changes are applied automatically; overlapping changes
+ * that differ are reported as conflict regions.
+ */
+
+import { diffArrays } from 'diff';
+import { MergeRegion, MergeResult } from '../types';
+
+export type MergeChoice = 'local' | 'remote' | 'both' | 'base';
+
+export const CONFLICT_MARKERS = {
+  local: '<<<<<<< local',
+  base: '||||||| base',
+  separator: '=======',
+  remote: '>>>>>>> remote',
+};
+
+interface ChangeHunk {
+  side: 'local' | 'remote';
+  baseStart: number;
+  baseEnd: number; // Exclusive
+  lines: string[];
+}
+
+/**
+ * Merge local and remote text against base
+ */
+export function threeWayMerge(base: string, local: string, remote: string): MergeResult {
+  const baseLines = splitLines(base);
+  const hunks = [
+    ...computeHunks(baseLines, splitLines(local), 'local'),
+    ...computeHunks(baseLines, splitLines(remote), 'remote'),
+  ].sort((a, b) => a.baseStart - b.baseStart || a.baseEnd - b.baseEnd);
+
+  const regions: MergeRegion[] = [];
+  let basePos = 0;
+  let index = 0;
+
+  while (index < hunks.length) {
+    // Group hunks whose base ranges overlap or touch; adjacent edits from
+    // both sides are treated as a conflict, as in diff3
+    const group = [hunks[index]];
+    let groupStart = hunks[index].baseStart;
+    let groupEnd = hunks[index].baseEnd;
+    index++;
+
+    while (index < hunks.length && hunks[index].baseStart <= groupEnd) {
+      group.push(hunks[index]);
+      groupStart = Math.min(groupStart, hunks[index].baseStart);
+      groupEnd = Math.max(groupEnd, hunks[index].baseEnd);
+      index++;
+    }
+
+    if (groupStart > basePos) {
+      pushUnchanged(regions, baseLines, basePos, groupStart);
+    }
+
+    const localHunks = group.filter(hunk => hunk.side === 'local');
+    const remoteHunks = group.filter(hunk => hunk.side === 'remote');
+    const baseSlice = baseLines.slice(groupStart, groupEnd);
+    const localLines = applyHunks(baseLines, localHunks, groupStart, groupEnd);
+    const remoteLines = applyHunks(baseLines, remoteHunks, groupStart, groupEnd);
+
+    const region: MergeRegion = {
+      type: 'resolved',
+      baseStart: groupStart,
+      base: baseSlice,
+      local: localLines,
+      remote: remoteLines,
+    };
+
+    if (remoteHunks.length === 0) {
+      region.resolved = localLines;
+    } else if (localHunks.length === 0 || linesEqual(localLines, remoteLines)) {
+      region.resolved = remoteLines;
+    } else {
+      region.type = 'conflict';
+    }
+
+    regions.push(region);
+    basePos = groupEnd;
+  }
+
+  if (basePos < baseLines.length) {
+    pushUnchanged(regions, baseLines, basePos, baseLines.length);
+  }
+
+  const conflictCount = regions.filter(region => region.type === 'conflict').length;
+
+  return {
+    clean: conflictCount === 0,
+    content: renderRegions(regions),
+    regions,
+    conflictCount,
+    autoResolvedCount: regions.filter(region => region.type === 'resolved').length,
+  };
+}
+
+/**
+ * Render merge regions, choosing a side for each conflict by its index.
+ * Conflicts without a choice are rendered with conflict markers.
+ */
+export function renderRegions(regions: MergeRegion[], choices: Array<MergeChoice | undefined> = []): string {
+  const output: string[] = [];
+  let conflictIndex = 0;
+
+  for (const region of regions) {
+    if (region.type !== 'conflict') {
+      output.push(...(region.resolved || []));
+      continue;
+    }
+
+    const choice = choices[conflictIndex++];
+    switch (choice) {
+      case 'local':
+        output.push(...region.local);
+        break;
+      case 'remote':
+        output.push(...region.remote);
+        break;
+      case 'both':
+        output.push(...terminate(region.local), ...region.remote);
+        break;
+      case 'base':
+        output.push(...region.base);
+        break;
+      default:
+        output.push(
+          `${CONFLICT_MARKERS.local}\n`,
+          ...terminate(region.local),
+          `${CONFLICT_MARKERS.base}\n`,
+          ...terminate(region.base),
+          `${CONFLICT_MARKERS.separator}\n`,
+          ...terminate(region.remote),
+          `${CONFLICT_MARKERS.remote}\n`
+        );
+    }
+  }
+
+  return output.join('');
+}
+
+/**
+ * Whether text still contains unresolved conflict markers
+ */
+export function hasConflictMarkers(text: string): boolean {
+  const lines = text.split('\n');
+  return lines.includes(CONFLICT_MARKERS.local) && lines.includes(CONFLICT_MARKERS.remote);
+}
+
+/**
+ * Heuristic binary detection; binary content cannot be merged by lines
+ */
+export function isBinaryContent(content: Buffer): boolean {
+  return content.subarray(0, 8000).includes(0);
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Split text into lines, keeping line terminators so that joining is lossless
+ */
+function splitLines(text: string): string[] {
+  return text.match(/[^\n]*\n|[^\n]+$/g) || [];
+}
+
+function computeHunks(base: string[], other: string[], side: ChangeHunk['side']): ChangeHunk[] {
+  const hunks: ChangeHunk[] = [];
+  let basePos = 0;
+  let current: ChangeHunk | null = null;
+
+  for (const change of diffArrays(base, other)) {
+    if (!change.added && !change.removed) {
+      if (current) {
+        hunks.push(current);
+        current = null;
+      }
+      basePos += change.count;
+      continue;
+    }
+
+    if (!current) {
+      current = { side, baseStart: basePos, baseEnd: basePos, lines: [] };
+    }
+
+    if (change.removed) {
+      basePos += change.count;
+      current.baseEnd = basePos;
+    } else {
+      current.lines.push(...change.value);
+    }
+  }
+
+  if (current) {
+    hunks.push(current);
+  }
+
+  return hunks;
+}
+
+function applyHunks(base: string[], hunks: ChangeHunk[], start: number, end: number): string[] {
+  const output: string[] = [];
+  let pos = start;
+
+  for (const hunk of hunks) {
+    output.push(...base.slice(pos, hunk.baseStart), ...hunk.lines);
+    pos = hunk.baseEnd;
+  }
+
+  output.push(...base.slice(pos, end));
+  return output;
+}
+
+function pushUnchanged(regions: MergeRegion[], base: string[], start: number, end: number): void {
+  const lines = base.slice(start, end);
+  regions.push({
+    type: 'unchanged',
+    baseStart: start,
+    base: lines,
+    local: lines,
+    remote: lines,
+    resolved: lines,
+  });
+}
+
+function linesEqual(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// Conflict markers must start on their own line
+function terminate(lines: string[]): string[] {
+  if (lines.length === 0 || lines[lines.length - 1].endsWith('\n')) {
+    return lines;
+  }
+  return [...lines.slice(0, -1), `${lines[lines.length - 1]}\n`];
+}
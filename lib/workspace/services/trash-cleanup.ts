@@ -0,0 +1,81 @@
+/**
+ * Workspace Trash Cleanup
+ * Periodically purges trashed files whose retention period has passed
+ */
+
+import { config } from '@/lib/config/environment';
+import { purgeExpiredTrash } from './trash';
+
+export interface TrashCleanupOptions {
+  interval?: number; // Polling interval in milliseconds
+  batchSize?: number; // Maximum items purged per batch
+}
+
+export class WorkspaceTrashCleanup {
+  private readonly interval: number;
+  private readonly batchSize: number;
+  private timer: NodeJS.Timeout | null = null;
+  private ticking = false;
+
+  constructor(options: TrashCleanupOptions = {}) {
+    this.interval = options.interval || config.trash.cleanupInterval;
+    this.batchSize = options.batchSize || 100;
+  }
+
+  /**
+   * Start purging expired items, beginning with an immediate pass
+   */
+  start(): void {
+    if (this.timer) return;
+
+    const run = () => {
+      this.tick().catch(error => console.error('Trash cleanup tick failed:', error));
+    };
+
+    this.timer = setInterval(run, this.interval);
+    run();
+  }
+
+  /**
+   * Stop polling. A batch already in progress is left to finish.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Purge every expired item. Returns the number of items purged.
+   */
+  async tick(): Promise<number> {
+    // Skip overlapping ticks while a previous pass is still running
+    if (this.ticking) return 0;
+    this.ticking = true;
+
+    try {
+      let purged = 0;
+      let batch: number;
+
+      do {
+        batch = await purgeExpiredTrash(this.batchSize);
+        purged += batch;
+      } while (batch === this.batchSize);
+
+      if (purged > 0) {
+        console.log(`Purged ${purged} expired trash item(s)`);
+      }
+
+      return purged;
+    } finally {
+      this.ticking = false;
+    }
+  }
+}
+
+// =============================================================================
+// SINGLETON INSTANCE
+// =============================================================================
+
+export const trashCleanup = new WorkspaceTrashCleanup();
@@ -0,0 +1,421 @@
+/**
+ * Workspace Trash Service
+ * Soft delete for workspace files. Deleted files and directory trees are
+ * captured with their version history and keep their content references
+ * until they are restored or purged, either explicitly or by the cleanup
+ * job once the retention period has passed.
+ */
+
+import { basename } from 'path';
+import { TrashEntry, TrashItem, TrashRestoreResult } from '../types';
+import { WorkspaceBlobStore } from './blob-store';
+import { indexQueue } from './index-queue';
+import { WorkspaceStorageQuota } from './storage-quota';
+import { db } from '@/lib/db';
+import { config } from '@/lib/config/environment';
+
+export class WorkspaceTrashError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WorkspaceTrashError';
+  }
+}
+
+export interface MoveToTrashOptions {
+  deletedBy?: string;
+  retentionDays?: number;
+}
+
+export interface RestoreOptions {
+  targetPath?: string; // Restore somewhere other than the original path
+}
+
+export class WorkspaceTrash {
+  private readonly workspaceId: string;
+  private readonly blobStore: WorkspaceBlobStore;
+
+  constructor(workspaceId: string, bucketName?: string) {
+    this.workspaceId = workspaceId;
+    this.blobStore = new WorkspaceBlobStore(bucketName || config.storage.bucketName || 'workspace-files');
+  }
+
+  // =============================================================================
+  // TRASH OPERATIONS
+  // =============================================================================
+
+  /**
+   * Move a file, or a directory with everything below it, to the trash
+   */
+  async moveToTrash(path: string, options: MoveToTrashOptions = {}): Promise<TrashItem> {
+    const records = await db.workspaceFile.findMany({
+      where: {
+        workspaceId: this.workspaceId,
+        OR: [
+          { path },
+          { path: { startsWith: `${path}/` } },
+        ],
+      },
+      include: {
+        revisions: {
+          orderBy: { version: 'asc' },
+        },
+      },
+      orderBy: { path: 'asc' },
+    });
+
+    if (records.length === 0) {
+      throw new WorkspaceTrashError(`File not found: ${path}`, 'NOT_FOUND');
+    }
+
+    // A directory may exist only implicitly through the paths below it
+    const root = records.find((record: any) => record.path === path);
+    const isDirectory = root ? root.isDirectory : true;
+
+    const entries: TrashEntry[] = records.map((record: any) => this.mapToTrashEntry(record));
+    const retentionDays = options.retentionDays ?? config.trash.retentionDays;
+    const deletedAt = new Date();
+
+    const trashItem = await db.workspaceTrashItem.create({
+      data: {
+        workspaceId: this.workspaceId,
+        path,
+        name: basename(path),
+        isDirectory,
+        fileCount: entries.length,
+        size: entries.reduce((total, entry) => total + entry.size, 0),
+        entries: entries as any,
+        deletedBy: options.deletedBy,
+        deletedAt,
+        expiresAt: new Date(deletedAt.getTime() + retentionDays * 24 * 60 * 60 * 1000),
+      },
+    });
+
+    // Revision rows cascade with the files; their blob references now belong to the trash item
+    await db.workspaceFile.deleteMany({
+      where: {
+        id: { in: records.map((record: any) => record.id) },
+      },
+    });
+
+    this.queueIndexing(entries.filter(entry => !entry.isDirectory).map(entry => entry.path));
+
+    return this.mapToTrashItem(trashItem);
+  }
+
+  /**
+   * List trashed items, most recently deleted first
+   */
+  async listItems(): Promise<TrashItem[]> {
+    const items = await db.workspaceTrashItem.findMany({
+      where: { workspaceId: this.workspaceId },
+      orderBy: { deletedAt: 'desc' },
+    });
+
+    return items.map((item: any) => this.mapToTrashItem(item));
+  }
+
+  /**
+   * Restore a trashed item with its version history. Directories that
+   * already exist at the target are merged into; existing files are not
+   * overwritten.
+   */
+  async restore(itemId: string, options: RestoreOptions = {}): Promise<TrashRestoreResult> {
+    const trashItem = await this.findItemOrThrow(itemId);
+    const entries = trashItem.entries as TrashEntry[];
+    const targetPath = options.targetPath || trashItem.path;
+
+    const relocate = (entryPath: string) => targetPath + entryPath.slice(trashItem.path.length);
+
+    const existing = await db.workspaceFile.findMany({
+      where: {
+        workspaceId: this.workspaceId,
+        path: { in: entries.map(entry => relocate(entry.path)) },
+      },
+      select: { path: true, isDirectory: true },
+    });
+    const existingPaths = new Set(existing.map((record: any) => record.path));
+
+    const conflicts = existing.filter((record: any) => {
+      const entry = entries.find(candidate => relocate(candidate.path) === record.path);
+      return !(record.isDirectory && entry?.isDirectory);
+    });
+    if (conflicts.length > 0) {
+      throw new WorkspaceTrashError(
+        `Cannot restore ${trashItem.path}: ${conflicts.map((record: any) => record.path).join(', ')} already exists`,
+        'PATH_CONFLICT'
+      );
+    }
+
+    await this.ensureParentDirectories(targetPath);
+
+    const restoredPaths: string[] = [];
+    for (const entry of entries) {
+      const path = relocate(entry.path);
+      if (existingPaths.has(path)) continue;
+
+      const file = await db.workspaceFile.create({
+        data: {
+          // Only reuse the original id when the tree goes back where it was
+          id: path === entry.path ? entry.id : undefined,
+          workspaceId: this.workspaceId,
+          path,
+          name: basename(path),
+          type: entry.type,
+          size: entry.size,
+          mimeType: entry.mimeType,
+          encoding: entry.encoding,
+          hash: entry.hash,
+          content: entry.content ?? null,
+          isDirectory: entry.isDirectory,
+          permissions: entry.permissions as any,
+          metadata: entry.metadata as any,
+          version: entry.version,
+          createdAt: new Date(entry.createdAt),
+          lastAccessedAt: new Date(),
+        },
+      });
+
+      if (entry.revisions.length > 0) {
+        await db.workspaceFileRevision.createMany({
+          data: entry.revisions.map(revision => ({
+            fileId: file.id,
+            workspaceId: this.workspaceId,
+            path: revision.path,
+            version: revision.version,
+            hash: revision.hash,
+            size: revision.size,
+            storageKey: revision.storageKey,
+            message: revision.message,
+            createdAt: new Date(revision.createdAt),
+          })),
+        });
+      }
+
+      restoredPaths.push(path);
+    }
+
+    // Content references move back to the restored records
+    await db.workspaceTrashItem.delete({
+      where: { id: trashItem.id },
+    });
+
+    this.queueIndexing(
+      entries.filter(entry => !entry.isDirectory).map(entry => relocate(entry.path))
+    );
+
+    return {
+      item: this.mapToTrashItem(trashItem),
+      path: targetPath,
+      restoredPaths,
+    };
+  }
+
+  /**
+   * Permanently delete a trashed item
+   */
+  async purge(itemId: string): Promise<TrashItem> {
+    const trashItem = await this.findItemOrThrow(itemId);
+    await purgeTrashItem(trashItem, this.blobStore);
+    return this.mapToTrashItem(trashItem);
+  }
+
+  /**
+   * Permanently delete everything in the workspace trash
+   */
+  async empty(): Promise<number> {
+    const items = await db.workspaceTrashItem.findMany({
+      where: { workspaceId: this.workspaceId },
+    });
+
+    for (const item of items) {
+      await purgeTrashItem(item, this.blobStore);
+    }
+
+    return items.length;
+  }
+
+  // =============================================================================
+  // UTILITY METHODS
+  // =============================================================================
+
+  private async findItemOrThrow(itemId: string): Promise<any> {
+    const trashItem = await db.workspaceTrashItem.findFirst({
+      where: {
+        id: itemId,
+        workspaceId: this.workspaceId,
+      },
+    });
+
+    if (!trashItem) {
+      throw new WorkspaceTrashError(`Trash item not found: ${itemId}`, 'NOT_FOUND');
+    }
+
+    return trashItem;
+  }
+
+  /**
+   * Recreate directory records for ancestors deleted since the item was
+   * trashed, so the restored tree is reachable when listing directories
+   */
+  private async ensureParentDirectories(path: string): Promise<void> {
+    const parts = path.split('/').slice(0, -1);
+
+    for (let i = 1; i <= parts.length; i++) {
+      const directory = parts.slice(0, i).join('/');
+      if (!directory) continue;
+
+      const existing = await db.workspaceFile.findFirst({
+        where: {
+          workspaceId: this.workspaceId,
+          path: directory,
+        },
+        select: { id: true },
+      });
+      if (existing) continue;
+
+      // Implied directories have no record of their own
+      const hasChildren = await db.workspaceFile.findFirst({
+        where: {
+          workspaceId: this.workspaceId,
+          path: { startsWith: `${directory}/` },
+        },
+        select: { id: true },
+      });
+      if (hasChildren) continue;
+
+      await db.workspaceFile.create({
+        data: {
+          workspaceId: this.workspaceId,
+          path: directory,
+          name: basename(directory),
+          type: 'directory',
+          size: 0,
+          mimeType: 'inode/directory',
+          encoding: '',
+          hash: '',
+          isDirectory: true,
+          permissions: {
+            owner: { read: true, write: true, execute: false },
+            group: { read: true, write: false, execute: false },
+            other: { read: true, write: false, execute: false },
+          },
+          metadata: {},
+          version: 1,
+          lastAccessedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Indexing is best effort and never delays or fails the trash operation
+   */
+  private queueIndexing(paths: string[]): void {
+    if (paths.length === 0) return;
+
+    indexQueue.enqueueInBackground(this.workspaceId, paths);
+  }
+
+  private mapToTrashEntry(record: any): TrashEntry {
+    return {
+      id: record.id,
+      path: record.path,
+      name: record.name,
+      type: record.type,
+      size: Number(record.size),
+      mimeType: record.mimeType,
+      encoding: record.encoding,
+      hash: record.hash,
+      content: record.content ?? undefined,
+      blobAcquired: !record.isDirectory && WorkspaceBlobStore.holdsReference(record, record.revisions || []),
+      isDirectory: record.isDirectory,
+      permissions: record.permissions,
+      metadata: record.metadata,
+      version: record.version,
+      createdAt: new Date(record.createdAt).toISOString(),
+      revisions: (record.revisions || []).map((revision: any) => ({
+        path: revision.path,
+        version: revision.version,
+        hash: revision.hash,
+        size: Number(revision.size),
+        storageKey: revision.storageKey,
+        message: revision.message ?? undefined,
+        createdAt: new Date(revision.createdAt).toISOString(),
+      })),
+    };
+  }
+
+  private mapToTrashItem(dbItem: any): TrashItem {
+    return {
+      id: dbItem.id,
+      workspaceId: dbItem.workspaceId,
+      path: dbItem.path,
+      name: dbItem.name,
+      isDirectory: dbItem.isDirectory,
+      fileCount: dbItem.fileCount,
+      size: Number(dbItem.size),
+      deletedBy: dbItem.deletedBy ?? undefined,
+      deletedAt: dbItem.deletedAt,
+      expiresAt: dbItem.expiresAt,
+    };
+  }
+}
+
+// =============================================================================
+// RETENTION
+// =============================================================================
+
+/**
+ * Purge trashed items across all workspaces whose retention period has
+ * passed. Returns the number of items purged.
+ */
+export async function purgeExpiredTrash(batchSize: number = 100): Promise<number> {
+  const expired = await db.workspaceTrashItem.findMany({
+    where: { expiresAt: { lte: new Date() } },
+    orderBy: { expiresAt: 'asc' },
+    take: batchSize,
+  });
+
+  const blobStore = new WorkspaceBlobStore(config.storage.bucketName || 'workspace-files');
+  let purged = 0;
+
+  for (const item of expired) {
+    try {
+      await purgeTrashItem(item, blobStore);
+      purged++;
+    } catch (error) {
+      console.error(`Failed to purge trash item ${item.id}:`, error);
+    }
+  }
+
+  return purged;
+}
+
+/**
+ * Delete the item and drop the content references its entries held.
+ * Unreferenced content is removed by blob garbage collection.
+ */
+async function purgeTrashItem(dbItem: any, blobStore: WorkspaceBlobStore): Promise<void> {
+  // Only the caller that deletes the row releases its references
+  const { count } = await db.workspaceTrashItem.deleteMany({
+    where: { id: dbItem.id },
+  });
+  if (count === 0) return;
+
+  await new WorkspaceStorageQuota(dbItem.workspaceId).release(Number(dbItem.size));
+
+  for (const entry of dbItem.entries as TrashEntry[]) {
+    // Entries trashed before ownership was recorded fall back to their revisions
+    const blobAcquired = entry.blobAcquired ?? (!entry.isDirectory && WorkspaceBlobStore.holdsReference(entry, entry.revisions));
+
+    if (blobAcquired) {
+      await blobStore.release(entry.hash);
+    } else if (!entry.isDirectory && entry.content === undefined && !(await blobStore.has(entry.hash))) {
+      // Content stored under its path before content addressing
+      await blobStore.deleteLegacyObject(dbItem.workspaceId, entry.path);
+    }
+    for (const revision of entry.revisions) {
+      await blobStore.release(revision.hash);
+    }
+  }
+}
@@ -0,0 +1,659 @@
+/**
+ * TypeScript Symbol Extraction
+ * Parses TS/JS files with the TypeScript compiler API to produce declarations,
+ * references, imports and exports for the file index. Each file is bound in
+ * its own single-file program, so references to imported bindings record the
+ * module specifier and are resolved against other files at query time.
+ */
+
+import * as ts from 'typescript';
+import { posix } from 'path';
+import {
+  CodeSymbol,
+  SymbolType,
+  SourceLocation,
+  ImportStatement,
+  ExportStatement,
+} from '../types';
+
+export interface ScriptIndex {
+  symbols: CodeSymbol[];
+  imports: ImportStatement[];
+  exports: ExportStatement[];
+  dependencies: string[];
+}
+
+const MODULE_EXTENSIONS = ['.ts', '.tsx', '.d.ts', '.js', '.jsx', '.mjs', '.cjs'];
+
+const COMPILER_OPTIONS: ts.CompilerOptions = {
+  noLib: true,
+  noResolve: true,
+  allowJs: true,
+  target: ts.ScriptTarget.Latest,
+  jsx: ts.JsxEmit.Preserve,
+};
+
+/**
+ * Extract symbols, imports, exports and module dependencies from a TS/JS file
+ */
+export function extractTypeScriptIndex(filePath: string, content: string): ScriptIndex {
+  const fileName = posix.join('/', filePath);
+  const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(filePath));
+  const checker = createProgram(sourceFile).getTypeChecker();
+  const extractor = new ScriptExtractor(filePath, sourceFile, checker);
+
+  return extractor.extract();
+}
+
+/**
+ * Resolve a relative module specifier to one of the known workspace paths
+ */
+export function resolveModulePath(fromPath: string, specifier: string, knownPaths: Set<string>): string | null {
+  if (!specifier.startsWith('.')) return null;
+
+  return resolveModuleFile(posix.join(posix.dirname(fromPath), specifier), knownPaths);
+}
+
+/**
+ * Resolve a module path without extension the way TypeScript does: exact
+ * file, added extension (or .js swapped for .ts), then directory index
+ */
+export function resolveModuleFile(base: string, knownPaths: Set<string>): string | null {
+  const withoutJsExtension = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+  const candidates = [
+    base,
+    ...MODULE_EXTENSIONS.map(extension => `${withoutJsExtension}${extension}`),
+    ...MODULE_EXTENSIONS.map(extension => `${base}/index${extension}`),
+  ];
+
+  return candidates.find(candidate => knownPaths.has(candidate)) || null;
+}
+
+function getScriptKind(filePath: string): ts.ScriptKind {
+  const extension = posix.extname(filePath).toLowerCase();
+  switch (extension) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function createProgram(sourceFile: ts.SourceFile): ts.Program {
+  const host: ts.CompilerHost = {
+    getSourceFile: fileName => (fileName === sourceFile.fileName ? sourceFile : undefined),
+    getDefaultLibFileName: () => 'lib.d.ts',
+    writeFile: () => undefined,
+    getCurrentDirectory: () => '/',
+    getCanonicalFileName: fileName => fileName,
+    useCaseSensitiveFileNames: () => true,
+    getNewLine: () => '\n',
+    fileExists: fileName => fileName === sourceFile.fileName,
+    readFile: fileName => (fileName === sourceFile.fileName ? sourceFile.text : undefined),
+  };
+
+  return ts.createProgram([sourceFile.fileName], COMPILER_OPTIONS, host);
+}
+
+class ScriptExtractor {
+  private readonly symbols: CodeSymbol[] = [];
+  private readonly imports: ImportStatement[] = [];
+  private readonly exports: ExportStatement[] = [];
+  private readonly dependencies = new Set<string>();
+
+  // Declarations by their name node, so references can be attached
+  private readonly declarations = new Map<ts.Node, CodeSymbol>();
+
+  // Export lists may precede the declarations they name
+  private readonly exportNodes: Array<ts.ExportDeclaration | ts.ExportAssignment> = [];
+
+  constructor(
+    private readonly filePath: string,
+    private readonly sourceFile: ts.SourceFile,
+    private readonly checker: ts.TypeChecker
+  ) {}
+
+  extract(): ScriptIndex {
+    this.visitDeclarations(this.sourceFile, undefined);
+    this.exportNodes.forEach(node => this.addExportNode(node));
+    this.visitReferences(this.sourceFile);
+
+    return {
+      symbols: this.symbols,
+      imports: this.imports,
+      exports: this.exports,
+      dependencies: [...this.dependencies],
+    };
+  }
+
+  // =============================================================================
+  // DECLARATIONS
+  // =============================================================================
+
+  private visitDeclarations(node: ts.Node, containerName: string | undefined): void {
+    if (ts.isImportDeclaration(node)) {
+      this.addImport(node);
+      return;
+    }
+    if (ts.isExportDeclaration(node) || ts.isExportAssignment(node)) {
+      this.exportNodes.push(node);
+    }
+    if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+      this.addModuleImport(node, node.moduleReference.expression, [{ name: node.name.text, isDefault: true }]);
+    }
+    if (ts.isCallExpression(node)) {
+      this.addDynamicImport(node);
+    }
+
+    const declaration = this.getDeclaration(node);
+    if (declaration) {
+      const symbol = this.addDeclaration(node, declaration.name, declaration.type, containerName);
+      this.addDeclarationExport(node, symbol);
+
+      // Members are indexed with their container; function bodies are not
+      if (
+        ts.isClassLike(node) || ts.isInterfaceDeclaration(node) ||
+        ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node)
+      ) {
+        ts.forEachChild(node, child => this.visitDeclarations(child, symbol.name));
+        return;
+      }
+    }
+
+    ts.forEachChild(node, child => this.visitDeclarations(child, containerName));
+  }
+
+  /**
+   * Name node and symbol type of an indexed declaration
+   */
+  private getDeclaration(node: ts.Node): { name: ts.Identifier | ts.PrivateIdentifier | ts.StringLiteral; type: SymbolType } | null {
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      return { name: node.name, type: 'function' };
+    }
+    if (ts.isClassLike(node) && node.name) {
+      return { name: node.name, type: 'class' };
+    }
+    if (ts.isInterfaceDeclaration(node)) {
+      return { name: node.name, type: 'interface' };
+    }
+    if (ts.isTypeAliasDeclaration(node)) {
+      return { name: node.name, type: 'type' };
+    }
+    if (ts.isEnumDeclaration(node)) {
+      return { name: node.name, type: 'enum' };
+    }
+    if (ts.isModuleDeclaration(node) && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+      return { name: node.name, type: ts.isStringLiteral(node.name) ? 'module' : 'namespace' };
+    }
+    if (ts.isVariableDeclaration(node) && ts.isIdentifier(node.name) && this.isIndexedVariable(node)) {
+      return { name: node.name, type: this.getVariableType(node) };
+    }
+    if (
+      (ts.isMethodDeclaration(node) || ts.isMethodSignature(node) || ts.isGetAccessor(node) || ts.isSetAccessor(node)) &&
+      (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name) || ts.isStringLiteral(node.name))
+    ) {
+      return { name: node.name, type: 'function' };
+    }
+    if (
+      (ts.isPropertyDeclaration(node) || ts.isPropertySignature(node)) &&
+      (ts.isIdentifier(node.name) || ts.isPrivateIdentifier(node.name) || ts.isStringLiteral(node.name))
+    ) {
+      const initializer = ts.isPropertyDeclaration(node) ? node.initializer : undefined;
+      return { name: node.name, type: this.isFunctionLike(initializer) ? 'function' : 'variable' };
+    }
+    if (ts.isEnumMember(node) && (ts.isIdentifier(node.name) || ts.isStringLiteral(node.name))) {
+      return { name: node.name, type: 'constant' };
+    }
+    return null;
+  }
+
+  // Module-level and block-level bindings; loop variables and locals of
+  // nested functions are not useful as workspace symbols
+  private isIndexedVariable(node: ts.VariableDeclaration): boolean {
+    const statement = node.parent?.parent;
+    if (!statement || !ts.isVariableStatement(statement)) return false;
+
+    let parent: ts.Node | undefined = statement.parent;
+    while (parent && !ts.isSourceFile(parent)) {
+      if (ts.isFunctionLike(parent)) return false;
+      parent = parent.parent;
+    }
+    return true;
+  }
+
+  private getVariableType(node: ts.VariableDeclaration): SymbolType {
+    if (this.isFunctionLike(node.initializer)) return 'function';
+    if (node.initializer && ts.isClassExpression(node.initializer)) return 'class';
+    return node.parent.flags & ts.NodeFlags.Const ? 'constant' : 'variable';
+  }
+
+  private getVariableKeyword(node: ts.VariableDeclaration): string {
+    if (node.parent.flags & ts.NodeFlags.Const) return 'const';
+    return node.parent.flags & ts.NodeFlags.Let ? 'let' : 'var';
+  }
+
+  private isFunctionLike(node: ts.Node | undefined): boolean {
+    return !!node && (ts.isArrowFunction(node) || ts.isFunctionExpression(node));
+  }
+
+  private addDeclaration(
+    node: ts.Node,
+    name: ts.Identifier | ts.PrivateIdentifier | ts.StringLiteral,
+    type: SymbolType,
+    containerName: string | undefined
+  ): CodeSymbol {
+    const symbol: CodeSymbol = {
+      name: name.text,
+      type,
+      kind: this.hasBody(node) ? 'definition' : 'declaration',
+      location: this.getLocation(node, name),
+      signature: this.getSignature(node),
+      documentation: this.getDocumentation(node),
+      modifiers: this.getModifiers(node),
+      references: [],
+    };
+    if (containerName) {
+      symbol.containerName = containerName;
+    }
+
+    this.symbols.push(symbol);
+    this.declarations.set(name, symbol);
+    return symbol;
+  }
+
+  private hasBody(node: ts.Node): boolean {
+    if (ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node)) {
+      return !!node.initializer;
+    }
+    if (ts.isFunctionLike(node)) {
+      return !!(node as ts.FunctionLikeDeclaration).body;
+    }
+    return ts.isClassLike(node) || ts.isEnumDeclaration(node) || ts.isModuleDeclaration(node);
+  }
+
+  /**
+   * Declaration text without its body or initializer
+   */
+  private getSignature(node: ts.Node): string | undefined {
+    const start = node.getStart(this.sourceFile);
+    let end = node.getEnd();
+
+    if (ts.isVariableDeclaration(node)) {
+      const initializer = node.initializer;
+      if (initializer) {
+        // const f = async (a: A): R => ... keeps the parameter list
+        end = ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)
+          ? initializer.body.getStart(this.sourceFile)
+          : initializer.getStart(this.sourceFile);
+      }
+      return this.cleanSignature(`${this.getVariableKeyword(node)} ${this.sourceFile.text.slice(start, end)}`);
+    }
+
+    if (ts.isFunctionLike(node) && (node as ts.FunctionLikeDeclaration).body) {
+      end = (node as ts.FunctionLikeDeclaration).body!.getStart(this.sourceFile);
+    } else if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node) || ts.isEnumDeclaration(node)) {
+      // Header up to the opening brace
+      const members = node.members as ts.NodeArray<ts.Node>;
+      end = members.pos;
+    } else if (ts.isModuleDeclaration(node) && node.body) {
+      end = node.body.getStart(this.sourceFile);
+    } else if ((ts.isPropertyDeclaration(node) || ts.isEnumMember(node)) && node.initializer) {
+      end = node.initializer.getStart(this.sourceFile);
+    }
+
+    return this.cleanSignature(this.sourceFile.text.slice(start, end));
+  }
+
+  private cleanSignature(text: string): string {
+    return text
+      .replace(/\s+/g, ' ')
+      .replace(/\s*(=>|=|\{|;)\s*$/, '')
+      .trim();
+  }
+
+  /**
+   * JSDoc text with comment markers removed, tags included
+   */
+  private getDocumentation(node: ts.Node): string | undefined {
+    // JSDoc on `const x = ...` is attached to the variable statement
+    const owner = ts.isVariableDeclaration(node) ? node.parent.parent : node;
+    const docs = ts.getJSDocCommentsAndTags(owner).filter(ts.isJSDoc);
+    if (docs.length === 0) return undefined;
+
+    const text = docs
+      .map(doc => doc.getText(this.sourceFile)
+        .replace(/^\/\*\*\s?/, '')
+        .replace(/\s*\*\/$/, '')
+        .split('\n')
+        .map(line => line.replace(/^\s*\* ?/, ''))
+        .join('\n')
+        .trim())
+      .join('\n\n');
+
+    return text || undefined;
+  }
+
+  private getModifiers(node: ts.Node): string[] {
+    const owner = ts.isVariableDeclaration(node) ? node.parent.parent : node;
+    const modifiers = ts.canHaveModifiers(owner)
+      ? (ts.getModifiers(owner) || []).map(modifier => ts.tokenToString(modifier.kind) || '')
+      : [];
+
+    if (ts.isVariableDeclaration(node)) {
+      modifiers.push(this.getVariableKeyword(node));
+    }
+    if ((ts.isMethodDeclaration(node) || ts.isPropertyDeclaration(node)) && node.questionToken) {
+      modifiers.push('optional');
+    }
+    if (ts.isGetAccessor(node)) modifiers.push('get');
+    if (ts.isSetAccessor(node)) modifiers.push('set');
+
+    return modifiers.filter(Boolean);
+  }
+
+  // =============================================================================
+  // IMPORTS AND EXPORTS
+  // =============================================================================
+
+  private addImport(node: ts.ImportDeclaration): void {
+    const clause = node.importClause;
+    const imports: ImportStatement['imports'] = [];
+
+    if (clause?.name) {
+      imports.push({ name: clause.name.text, isDefault: true });
+    }
+    if (clause?.namedBindings) {
+      if (ts.isNamespaceImport(clause.namedBindings)) {
+        imports.push({ name: '*', alias: clause.namedBindings.name.text });
+      } else {
+        for (const element of clause.namedBindings.elements) {
+          imports.push(element.propertyName
+            ? { name: element.propertyName.text, alias: element.name.text }
+            : { name: element.name.text });
+        }
+      }
+    }
+
+    this.addModuleImport(node, node.moduleSpecifier, imports);
+  }
+
+  private addDynamicImport(node: ts.CallExpression): void {
+    const [argument] = node.arguments;
+    if (!argument || !ts.isStringLiteralLike(argument)) return;
+
+    const isDynamicImport = node.expression.kind === ts.SyntaxKind.ImportKeyword;
+    const isRequire = ts.isIdentifier(node.expression) && node.expression.text === 'require';
+    if (!isDynamicImport && !isRequire) return;
+
+    // const { a, b } = require('x')
+    const imports: ImportStatement['imports'] = [];
+    const parent = node.parent;
+    if (isRequire && ts.isVariableDeclaration(parent)) {
+      if (ts.isIdentifier(parent.name)) {
+        imports.push({ name: parent.name.text, isDefault: true });
+      } else if (ts.isObjectBindingPattern(parent.name)) {
+        for (const element of parent.name.elements) {
+          if (!ts.isIdentifier(element.name)) continue;
+          const property = element.propertyName && ts.isIdentifier(element.propertyName) ? element.propertyName.text : undefined;
+          imports.push(property ? { name: property, alias: element.name.text } : { name: element.name.text });
+        }
+      }
+    }
+
+    this.addModuleImport(node, argument, imports);
+  }
+
+  private addModuleImport(node: ts.Node, specifier: ts.Expression, imports: ImportStatement['imports']): void {
+    if (!ts.isStringLiteralLike(specifier)) return;
+
+    this.dependencies.add(specifier.text);
+    this.imports.push({
+      module: specifier.text,
+      imports,
+      location: this.getLocation(node),
+    });
+  }
+
+  /**
+   * Exports naming a local binding take the location of its declaration
+   */
+  private addExportNode(node: ts.ExportDeclaration | ts.ExportAssignment): void {
+    if (ts.isExportAssignment(node)) {
+      const local = ts.isIdentifier(node.expression) ? this.getLocalDeclaration(node.expression.text) : undefined;
+      this.exports.push({
+        name: node.isExportEquals ? 'export=' : 'default',
+        type: local?.type || this.getExpressionType(node.expression),
+        isDefault: !node.isExportEquals,
+        location: local?.location || this.getLocation(node),
+      });
+      return;
+    }
+
+    const moduleName = node.moduleSpecifier && ts.isStringLiteralLike(node.moduleSpecifier)
+      ? node.moduleSpecifier.text
+      : undefined;
+    if (moduleName) {
+      this.dependencies.add(moduleName);
+    }
+
+    if (!node.exportClause) {
+      // export * from './module'
+      this.exports.push({ name: '*', type: 're-export', isDefault: false, location: this.getLocation(node) });
+      return;
+    }
+
+    if (ts.isNamespaceExport(node.exportClause)) {
+      this.exports.push({
+        name: node.exportClause.name.text,
+        type: 're-export',
+        isDefault: false,
+        location: this.getLocation(node),
+      });
+      return;
+    }
+
+    for (const element of node.exportClause.elements) {
+      const local = moduleName ? undefined : this.getLocalDeclaration((element.propertyName || element.name).text);
+      this.exports.push({
+        name: element.name.text,
+        type: moduleName ? 're-export' : local?.type || 'variable',
+        isDefault: element.name.text === 'default',
+        location: local?.location || this.getLocation(element),
+      });
+    }
+  }
+
+  private addDeclarationExport(node: ts.Node, symbol: CodeSymbol): void {
+    if (symbol.containerName || !symbol.modifiers.includes('export')) return;
+
+    const isDefault = symbol.modifiers.includes('default');
+    this.exports.push({
+      name: isDefault ? 'default' : symbol.name,
+      type: symbol.type,
+      isDefault,
+      location: symbol.location,
+    });
+  }
+
+  private getLocalDeclaration(name: string): CodeSymbol | undefined {
+    return this.symbols.find(symbol => symbol.name === name && !symbol.containerName);
+  }
+
+  private getExpressionType(expression: ts.Expression): string {
+    if (this.isFunctionLike(expression)) return 'function';
+    if (ts.isClassExpression(expression)) return 'class';
+    return 'expression';
+  }
+
+  // =============================================================================
+  // REFERENCES
+  // =============================================================================
+
+  private visitReferences(node: ts.Node): void {
+    if (ts.isIdentifier(node) || ts.isPrivateIdentifier(node)) {
+      this.addReference(node);
+    }
+    ts.forEachChild(node, child => this.visitReferences(child));
+  }
+
+  private addReference(node: ts.Identifier | ts.PrivateIdentifier): void {
+    if (this.declarations.has(node) || this.isDeclarationName(node)) return;
+
+    const namespaceMember = this.getNamespaceMemberReference(node);
+    if (namespaceMember) {
+      this.symbols.push(namespaceMember);
+      return;
+    }
+
+    const symbol = this.checker.getSymbolAtLocation(node);
+    const declaration = symbol?.declarations?.[0];
+    if (!declaration || declaration.getSourceFile() !== this.sourceFile) return;
+
+    const location = this.getLocation(node, node);
+    const kind = this.getReferenceKind(node);
+
+    // Imported bindings are resolved against the exporting file later
+    const imported = this.getImportedName(declaration);
+    if (imported) {
+      this.symbols.push({
+        name: imported.name,
+        type: 'variable',
+        kind,
+        location,
+        modifiers: imported.isDefault ? ['default'] : [],
+        references: [],
+        importedFrom: imported.module,
+      });
+      return;
+    }
+
+    const declarationName = ts.getNameOfDeclaration(declaration);
+    const target = declarationName && this.declarations.get(declarationName);
+    if (!target) return;
+
+    target.references.push(location);
+    this.symbols.push({
+      name: target.name,
+      type: target.type,
+      kind,
+      location,
+      modifiers: [],
+      references: [],
+      containerName: target.containerName,
+      definition: target.location,
+    });
+  }
+
+  // Names in import/export specifiers and binding positions are not usages
+  private isDeclarationName(node: ts.Node): boolean {
+    const parent = node.parent;
+    if (!parent) return true;
+
+    if (
+      ts.isImportClause(parent) || ts.isImportSpecifier(parent) || ts.isNamespaceImport(parent) ||
+      ts.isImportEqualsDeclaration(parent) || ts.isExportSpecifier(parent) || ts.isNamespaceExport(parent)
+    ) {
+      return true;
+    }
+
+    // getNameOfDeclaration also treats `a.b` as naming an expando declaration
+    if (ts.isPropertyAccessExpression(parent)) return false;
+
+    return ts.getNameOfDeclaration(parent as ts.Declaration) === node;
+  }
+
+  /**
+   * `ns.member` where ns is a namespace import
+   */
+  private getNamespaceMemberReference(node: ts.Identifier | ts.PrivateIdentifier): CodeSymbol | null {
+    const parent = node.parent;
+    if (!ts.isPropertyAccessExpression(parent) || parent.name !== node || !ts.isIdentifier(parent.expression)) {
+      return null;
+    }
+
+    const declaration = this.checker.getSymbolAtLocation(parent.expression)?.declarations?.[0];
+    if (!declaration || !ts.isNamespaceImport(declaration)) return null;
+
+    const specifier = declaration.parent.parent.moduleSpecifier;
+    if (!ts.isStringLiteralLike(specifier)) return null;
+
+    return {
+      name: node.text,
+      type: 'variable',
+      kind: this.getReferenceKind(node),
+      location: this.getLocation(node, node),
+      modifiers: [],
+      references: [],
+      importedFrom: specifier.text,
+    };
+  }
+
+  private getImportedName(declaration: ts.Declaration): { name: string; module: string; isDefault: boolean } | null {
+    let importDeclaration: ts.ImportDeclaration | ts.JSDocImportTag;
+    let name: string;
+    let isDefault = false;
+
+    if (ts.isImportSpecifier(declaration)) {
+      importDeclaration = declaration.parent.parent.parent;
+      name = (declaration.propertyName || declaration.name).text;
+      isDefault = name === 'default';
+    } else if (ts.isImportClause(declaration) && declaration.name) {
+      importDeclaration = declaration.parent;
+      name = declaration.name.text;
+      isDefault = true;
+    } else {
+      // Namespace imports are only meaningful through their members
+      return null;
+    }
+
+    if (!ts.isStringLiteralLike(importDeclaration.moduleSpecifier)) return null;
+    return { name, module: importDeclaration.moduleSpecifier.text, isDefault };
+  }
+
+  private getReferenceKind(node: ts.Node): CodeSymbol['kind'] {
+    let target: ts.Node = node;
+    while (ts.isPropertyAccessExpression(target.parent) && target.parent.name === target) {
+      target = target.parent;
+    }
+
+    const parent = target.parent;
+    if ((ts.isCallExpression(parent) || ts.isNewExpression(parent)) && parent.expression === target) {
+      return 'call';
+    }
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.left === target &&
+      parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+      parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+    ) {
+      return 'assignment';
+    }
+    return 'reference';
+  }
+
+  // =============================================================================
+  // HELPERS
+  // =============================================================================
+
+  /**
+   * 1-based location; starts at the name when given and spans the whole node
+   */
+  private getLocation(node: ts.Node, name?: ts.Node): SourceLocation {
+    const start = this.sourceFile.getLineAndCharacterOfPosition((name || node).getStart(this.sourceFile));
+    const end = this.sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+
+    return {
+      file: this.filePath,
+      line: start.line + 1,
+      column: start.character + 1,
+      endLine: end.line + 1,
+      endColumn: end.character + 1,
+    };
+  }
+}
@@ -0,0 +1,477 @@
+/**
+ * Workspace Archive Service
+ * Portable export and import of a whole workspace as a versioned, gzipped
+ * tar archive holding its files, session state, installed packages and
+ * configuration. Runtime instances (WebVM containers, Firecracker VMs) are
+ * not part of the archive; an imported workspace starts inactive.
+ */
+
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import * as zlib from 'zlib';
+import * as tar from 'tar-stream';
+import { FileMetadata, PackageState, WorkspaceState } from '../types';
+import { WorkspaceFileStorage } from './file-storage';
+import { WorkspaceStateManager } from './state-manager';
+import { WorkspaceStorageQuota } from './storage-quota';
+import { db } from '@/lib/db';
+
+export const WORKSPACE_ARCHIVE_FORMAT = 'vibekraft-workspace';
+export const WORKSPACE_ARCHIVE_VERSION = 1;
+
+const WORKSPACE_TYPES = ['WEBVM', 'FIRECRACKER', 'PYODIDE'] as const;
+
+// Session the Pyodide runtime restores installed packages from
+const DEFAULT_SESSION_ID = 'default';
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+export type ArchiveWorkspaceType = typeof WORKSPACE_TYPES[number];
+
+export interface WorkspaceArchiveFileEntry {
+  entry?: string; // Name of the tar entry holding the content
+  path: string;
+  hash: string;
+  size: number;
+  isDirectory: boolean;
+  metadata: FileMetadata;
+}
+
+export interface WorkspaceArchiveManifest {
+  format: typeof WORKSPACE_ARCHIVE_FORMAT;
+  formatVersion: number;
+  exportedAt: string;
+  // IDs of the exported workspace, replaced with the new ones on import
+  source: {
+    workspaceId: string;
+    projectId: string;
+    organizationId: string;
+  };
+  workspace: {
+    name: string;
+    description?: string;
+    type: ArchiveWorkspaceType;
+    config: Record<string, any> | null;
+  };
+  sessions: string[];
+  packageCount: number;
+  fileCount: number;
+  totalSize: number;
+  files: WorkspaceArchiveFileEntry[];
+}
+
+export interface WorkspaceExport {
+  manifest: WorkspaceArchiveManifest;
+  filename: string;
+  stream: Readable;
+}
+
+export interface ImportWorkspaceOptions {
+  projectId: string;
+  name?: string; // Defaults to the exported workspace name
+}
+
+export interface WorkspaceImportResult {
+  workspaceId: string;
+  name: string;
+  type: ArchiveWorkspaceType;
+  sourceWorkspaceId: string;
+  formatVersion: number;
+  fileCount: number;
+  sessionCount: number;
+  packageCount: number;
+}
+
+export class WorkspaceArchiveError extends Error {
+  constructor(message: string, public code: string) {
+    super(message);
+    this.name = 'WorkspaceArchiveError';
+  }
+}
+
+// =============================================================================
+// EXPORT
+// =============================================================================
+
+/**
+ * Stream a workspace as an archive. File contents are read one at a time
+ * as the consumer pulls the stream.
+ */
+export async function exportWorkspace(workspaceId: string): Promise<WorkspaceExport> {
+  const workspace = await db.workspace.findUnique({
+    where: { id: workspaceId },
+    include: {
+      project: { select: { organizationId: true } },
+    },
+  });
+
+  if (!workspace) {
+    throw new WorkspaceArchiveError(`Workspace not found: ${workspaceId}`, 'NOT_FOUND');
+  }
+
+  const fileStorage = new WorkspaceFileStorage(workspaceId);
+  const [files, states] = await Promise.all([
+    fileStorage.listFiles(),
+    new WorkspaceStateManager(workspaceId).listStates(),
+  ]);
+  const packages = collectPackages(states);
+
+  const manifest: WorkspaceArchiveManifest = {
+    format: WORKSPACE_ARCHIVE_FORMAT,
+    formatVersion: WORKSPACE_ARCHIVE_VERSION,
+    exportedAt: new Date().toISOString(),
+    source: {
+      workspaceId,
+      projectId: workspace.projectId,
+      organizationId: workspace.project.organizationId,
+    },
+    workspace: {
+      name: workspace.name,
+      description: workspace.description ?? undefined,
+      type: workspace.type,
+      config: workspace.config ?? null,
+    },
+    sessions: states.map(state => state.sessionId),
+    packageCount: packages.length,
+    fileCount: files.length,
+    totalSize: files.reduce((total, file) => total + Number(file.size), 0),
+    files: files.map((file, index) => ({
+      entry: file.isDirectory ? undefined : `files/${index}`,
+      path: file.path,
+      hash: file.hash,
+      size: Number(file.size),
+      isDirectory: file.isDirectory,
+      metadata: file.metadata,
+    })),
+  };
+
+  const pack = tar.pack();
+  const stream = (pack as unknown as Readable).pipe(zlib.createGzip());
+
+  // Stop reading files once the consumer goes away
+  stream.on('close', () => pack.destroy());
+
+  const write = async () => {
+    await addEntry(pack, 'manifest.json', Buffer.from(JSON.stringify(manifest)));
+    await addEntry(pack, 'states.json', Buffer.from(JSON.stringify(states)));
+    await addEntry(pack, 'packages.json', Buffer.from(JSON.stringify(packages)));
+
+    for (const entry of manifest.files) {
+      if (!entry.entry) continue;
+      const content = await fileStorage.readFileContent(entry.path);
+      await addEntry(pack, entry.entry, content || Buffer.alloc(0));
+    }
+
+    pack.finalize();
+  };
+
+  write().catch((error) => {
+    console.error(`Failed to export workspace ${workspaceId}:`, error);
+    stream.destroy(error);
+  });
+
+  return {
+    manifest,
+    filename: `${slugify(workspace.name) || 'workspace'}-${manifest.exportedAt.slice(0, 10)}.tar.gz`,
+    stream,
+  };
+}
+
+// =============================================================================
+// IMPORT
+// =============================================================================
+
+/**
+ * Create a new workspace from an archive produced by exportWorkspace. The
+ * workspace is removed again if the import fails part way.
+ */
+export async function importWorkspace(
+  source: Readable,
+  options: ImportWorkspaceOptions
+): Promise<WorkspaceImportResult> {
+  const project = await db.project.findUnique({
+    where: { id: options.projectId },
+    select: { id: true, organizationId: true },
+  });
+
+  if (!project) {
+    throw new WorkspaceArchiveError(`Project not found: ${options.projectId}`, 'NOT_FOUND');
+  }
+
+  const extract = tar.extract();
+  const unpacking = pipeline(source, zlib.createGunzip(), extract).catch(() => {
+    // Surfaces through the entry iterator below
+  });
+  const entries = extract[Symbol.asyncIterator]();
+
+  let manifest: WorkspaceArchiveManifest | null = null;
+  let fileStorage: WorkspaceFileStorage | null = null;
+  let workspaceId: string | null = null;
+  let remapIds: (<T>(value: T) => T) = value => value;
+  let states: WorkspaceState[] = [];
+  let packages: PackageState[] = [];
+  const storedPaths: string[] = [];
+
+  try {
+    while (true) {
+      const next = await readArchive(() => entries.next());
+      if (next.done) break;
+
+      const name: string = next.value.header.name;
+      const content = await readArchive(() => readEntry(next.value));
+
+      if (!manifest) {
+        if (name !== 'manifest.json') {
+          throw new WorkspaceArchiveError('Archive must start with its manifest', 'INVALID_ARCHIVE');
+        }
+
+        manifest = parseManifest(content);
+
+        const workspace = await db.workspace.create({
+          data: {
+            name: options.name || manifest.workspace.name,
+            description: manifest.workspace.description,
+            projectId: project.id,
+            type: manifest.workspace.type,
+            status: 'INACTIVE',
+            config: manifest.workspace.config ?? undefined,
+          },
+        });
+        workspaceId = workspace.id;
+        remapIds = createIdRemapper(new Map([
+          [manifest.source.workspaceId, workspace.id],
+          [manifest.source.projectId, project.id],
+          [manifest.source.organizationId, project.organizationId],
+        ]));
+
+        // Stored under the new IDs, with references to the source workspace rewritten
+        if (manifest.workspace.config) {
+          await db.workspace.update({
+            where: { id: workspace.id },
+            data: { config: remapIds(manifest.workspace.config) },
+          });
+        }
+
+        await new WorkspaceStorageQuota(workspace.id).assertWithinQuota(manifest.totalSize);
+
+        fileStorage = new WorkspaceFileStorage(workspace.id);
+        for (const entry of manifest.files) {
+          if (!entry.isDirectory) continue;
+          await fileStorage.createDirectory(entry.path);
+        }
+        continue;
+      }
+
+      if (name === 'states.json') {
+        states = parseJson(content, name);
+        continue;
+      }
+
+      if (name === 'packages.json') {
+        packages = parseJson(content, name);
+        continue;
+      }
+
+      const entry = manifest.files.find(file => file.entry === name);
+      if (!entry) {
+        throw new WorkspaceArchiveError(`Archive entry is not in the manifest: ${name}`, 'INVALID_ARCHIVE');
+      }
+
+      await fileStorage!.storeFile(entry.path, content, entry.metadata);
+      storedPaths.push(entry.path);
+    }
+
+    await unpacking;
+
+    if (!manifest || !workspaceId) {
+      throw new WorkspaceArchiveError('Archive is missing its manifest', 'INVALID_ARCHIVE');
+    }
+
+    const missing = manifest.files.filter(file => file.entry).length - storedPaths.length;
+    if (missing > 0) {
+      throw new WorkspaceArchiveError(`Archive is missing ${missing} file(s) listed in its manifest`, 'INVALID_ARCHIVE');
+    }
+
+    await restoreStates(workspaceId, remapIds(states), packages);
+
+    return {
+      workspaceId,
+      name: options.name || manifest.workspace.name,
+      type: manifest.workspace.type,
+      sourceWorkspaceId: manifest.source.workspaceId,
+      formatVersion: manifest.formatVersion,
+      fileCount: manifest.fileCount,
+      sessionCount: states.length,
+      packageCount: packages.length,
+    };
+  } catch (error) {
+    extract.destroy();
+    if (workspaceId) {
+      await discardImport(workspaceId, fileStorage, storedPaths);
+    }
+    throw error;
+  }
+}
+
+// =============================================================================
+// HELPERS
+// =============================================================================
+
+/**
+ * Reject archives from another tool or from a newer format version
+ */
+function parseManifest(content: Buffer): WorkspaceArchiveManifest {
+  const manifest = parseJson<WorkspaceArchiveManifest>(content, 'manifest.json');
+
+  if (manifest.format !== WORKSPACE_ARCHIVE_FORMAT || !Number.isInteger(manifest.formatVersion)) {
+    throw new WorkspaceArchiveError('Not a workspace export archive', 'INVALID_ARCHIVE');
+  }
+
+  if (manifest.formatVersion > WORKSPACE_ARCHIVE_VERSION || manifest.formatVersion < 1) {
+    throw new WorkspaceArchiveError(
+      `Unsupported workspace archive version ${manifest.formatVersion}; this instance reads up to version ${WORKSPACE_ARCHIVE_VERSION}`,
+      'UNSUPPORTED_VERSION'
+    );
+  }
+
+  if (!WORKSPACE_TYPES.includes(manifest.workspace?.type)) {
+    throw new WorkspaceArchiveError(`Unknown workspace type: ${manifest.workspace?.type}`, 'INVALID_ARCHIVE');
+  }
+
+  if (!manifest.source?.workspaceId || !Array.isArray(manifest.files)) {
+    throw new WorkspaceArchiveError('Workspace archive manifest is incomplete', 'INVALID_ARCHIVE');
+  }
+
+  return manifest;
+}
+
+/**
+ * Save each exported session and make sure the default session lists every
+ * installed package, since that is where the runtime reinstalls them from
+ */
+async function restoreStates(workspaceId: string, states: WorkspaceState[], packages: PackageState[]): Promise<void> {
+  const stateManager = new WorkspaceStateManager(workspaceId);
+
+  for (const state of states) {
+    await stateManager.saveState(state.sessionId, state);
+  }
+
+  if (packages.length === 0) return;
+
+  const defaultState = await stateManager.loadState(DEFAULT_SESSION_ID);
+  const installed = defaultState?.installedPackages || [];
+  const missing = packages.filter(pkg => !installed.some(existing => packageKey(existing) === packageKey(pkg)));
+  if (missing.length === 0) return;
+
+  await stateManager.saveState(DEFAULT_SESSION_ID, {
+    ...defaultState,
+    installedPackages: [...installed, ...missing],
+  });
+}
+
+/**
+ * Release the content of files written so far and delete the workspace
+ */
+async function discardImport(
+  workspaceId: string,
+  fileStorage: WorkspaceFileStorage | null,
+  storedPaths: string[]
+): Promise<void> {
+  try {
+    for (const path of storedPaths) {
+      await fileStorage?.deleteFile(path, { permanent: true });
+    }
+
+    await db.workspace.delete({
+      where: { id: workspaceId },
+    });
+  } catch (error) {
+    console.error(`Failed to clean up partial import ${workspaceId}:`, error);
+  }
+}
+
+/**
+ * Installed packages across sessions; the most recently updated session wins
+ */
+function collectPackages(states: WorkspaceState[]): PackageState[] {
+  const packages = new Map<string, PackageState>();
+  for (const state of states) {
+    for (const pkg of state.installedPackages || []) {
+      packages.set(packageKey(pkg), pkg);
+    }
+  }
+  return [...packages.values()];
+}
+
+function packageKey(pkg: PackageState): string {
+  return `${pkg.manager}:${pkg.name}`;
+}
+
+/**
+ * Replace every occurrence of the source IDs in strings, such as paths and
+ * URLs in configuration and environment variables
+ */
+function createIdRemapper(ids: Map<string, string>) {
+  const replacements = [...ids].filter(([from, to]) => from && from !== to);
+
+  const remap = (value: any): any => {
+    if (typeof value === 'string') {
+      return replacements.reduce((result, [from, to]) => result.split(from).join(to), value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(remap);
+    }
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [remap(key), remap(item)]));
+    }
+    return value;
+  };
+
+  return <T>(value: T): T => remap(value);
+}
+
+/**
+ * Errors while reading mean the upload is not a readable archive
+ */
+async function readArchive<T>(read: () => Promise<T>): Promise<T> {
+  try {
+    return await read();
+  } catch (error) {
+    if (error instanceof WorkspaceArchiveError) throw error;
+    throw new WorkspaceArchiveError(
+      `Archive could not be read: ${error instanceof Error ? error.message : String(error)}`,
+      'INVALID_ARCHIVE'
+    );
+  }
+}
+
+async function readEntry(entry: AsyncIterable<unknown>): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of entry) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function parseJson<T>(content: Buffer, name: string): T {
+  try {
+    return JSON.parse(content.toString('utf-8'));
+  } catch {
+    throw new WorkspaceArchiveError(`Archive entry ${name} is not valid JSON`, 'INVALID_ARCHIVE');
+  }
+}
+
+function addEntry(pack: tar.Pack, name: string, content: Buffer): Promise<void> {
+  return new Promise((resolve, reject) => {
+    pack.entry({ name, size: content.length }, content, (error) => {
+      if (error) reject(error);
+      else resolve();
+    });
+  });
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+}
@@ -69,6 +69,133 @@ export type FileType =
   | 'symlink'
   | 'directory';
 
+// =============================================================================
+// FILE VERSION HISTORY TYPES
+// =============================================================================
+
+export interface FileRevision {
+  id: string;
+  fileId: string;
+  workspaceId: string;
+  path: string;
+  version: number;
+  hash: string;
+  size: number;
+  message?: string;
+  createdAt: Date;
+}
+
+export interface FileRevisionDiff {
+  path: string;
+  fromVersion: number;
+  toVersion: number;
+  patch: string; // Unified diff
+  additions: number;
+  deletions: number;
+}
+
+// =============================================================================
+// TRASH TYPES
+// =============================================================================
+
+export interface TrashItem {
+  id: string;
+  workspaceId: string;
+  path: string; // Original path
+  name: string;
+  isDirectory: boolean;
+  fileCount: number;
+  size: number;
+  deletedBy?: string;
+  deletedAt: Date;
+  expiresAt: Date;
+}
+
+// A file or directory record captured by the trash, with its history
+export interface TrashEntry {
+  id: string;
+  path: string;
+  name: string;
+  type: FileType;
+  size: number;
+  mimeType: string;
+  encoding: string;
+  hash: string;
+  content?: string; // Inline text content, if the record had any
+  blobAcquired?: boolean; // Whether the record held a blob reference on its hash
+  isDirectory: boolean;
+  permissions: FilePermissions;
+  metadata: FileMetadata;
+  version: number;
+  createdAt: string;
+  revisions: Array<{
+    path: string;
+    version: number;
+    hash: string;
+    size: number;
+    storageKey: string;
+    message?: string;
+    createdAt: string;
+  }>;
+}
+
+export interface TrashRestoreResult {
+  item: TrashItem;
+  path: string; // Path the tree was restored to
+  restoredPaths: string[];
+}
+
+// =============================================================================
+// STORAGE QUOTA TYPES
+// =============================================================================
+
+export type QuotaStatus = 'ok' | 'warning' | 'exceeded';
+
+export interface StorageQuotaUsage {
+  used: number; // Bytes
+  softLimit: number;
+  hardLimit: number;
+  percentUsed: number;
+  status: QuotaStatus;
+}
+
+// Usage counts file, trash and snapshot archive sizes as written, before deduplication
+export interface StorageUsageCategories {
+  files: number;
+  trash: number;
+  snapshots: number;
+}
+
+export interface WorkspaceStorageUsage {
+  workspaceId: string;
+  organizationId: string;
+  categories: StorageUsageCategories;
+  workspace: StorageQuotaUsage;
+  organization: StorageQuotaUsage;
+}
+
+export interface StorageBreakdownEntry {
+  key: string; // File extension
+  label: string;
+  size: number;
+  count: number;
+}
+
+export interface WorkspaceStorageSummary extends StorageUsageCategories {
+  workspaceId: string;
+  name: string;
+  type: string;
+  quota: StorageQuotaUsage;
+}
+
+export interface OrganizationStorageUsage {
+  organizationId: string;
+  quota: StorageQuotaUsage;
+  categories: StorageUsageCategories;
+  workspaces: WorkspaceStorageSummary[];
+  fileTypes: StorageBreakdownEntry[];
+}
+
 // =============================================================================
 // WORKSPACE STATE TYPES
 // =============================================================================
@@ -176,6 +303,7 @@ export interface GitState {
     message: string;
     date: Date;
   }>;
+  merging?: boolean; // A merge with conflicts awaits its commit
 }
 
 export interface PackageState {
@@ -197,7 +325,8 @@ export interface WorkspaceSnapshot {
   name: string;
   description?: string;
   type: SnapshotType;
-  size: number;
+  size: number; // Uncompressed size of all files
+  archiveSize?: number; // Stored size after compression/encryption
   fileCount: number;
   state: WorkspaceState;
   files: WorkspaceFile[];
@@ -257,6 +386,27 @@ export interface FileIndex {
   complexity: CodeComplexity;
   lastIndexed: Date;
   indexVersion: string;
+  contentHash?: string; // SHA-256 of the indexed content, matches WorkspaceFile.hash
+}
+
+export interface IndexStatus {
+  workspaceId: string;
+  totalFiles: number; // Indexable text files
+  indexedFiles: number; // Files whose index matches their current content
+  staleFiles: number; // Files never indexed or changed since
+  queued: number;
+  processing: number;
+  failed: number;
+  failures: IndexFailure[];
+  lastIndexedAt?: Date;
+  workerActive: boolean; // Whether an index worker is processing the queue
+}
+
+export interface IndexFailure {
+  path: string;
+  error: string;
+  attempts: number;
+  failedAt: Date;
 }
 
 export interface CodeSymbol {
@@ -268,6 +418,9 @@ export interface CodeSymbol {
   documentation?: string;
   modifiers: string[];
   references: SourceLocation[];
+  containerName?: string; // Enclosing class, interface, enum or namespace
+  definition?: SourceLocation; // For references: the declaration in the same file
+  importedFrom?: string; // For references: module specifier of the imported binding
 }
 
 export type SymbolType = 
@@ -314,14 +467,32 @@ export interface ExportStatement {
 }
 
 export interface CodeComplexity {
+  cyclomatic: number; // 1 + decision points in the whole file
+  cognitive: number; // Sum over the file, including top-level code
+  halstead: HalsteadMetrics;
+  maintainabilityIndex: number; // 0-100, higher is easier to maintain
+  linesOfCode?: number; // Lines with code, excluding blanks and comments
+  functions?: FunctionComplexity[]; // Only for languages measured on the AST
+}
+
+export interface HalsteadMetrics {
+  vocabulary: number;
+  length: number;
+  volume?: number;
+  difficulty: number;
+  effort: number;
+}
+
+export interface FunctionComplexity {
+  name: string; // Qualified with the enclosing class or function, e.g. `Parser.parse`
+  line: number;
+  endLine: number;
+  parameters: number;
+  linesOfCode: number;
   cyclomatic: number;
   cognitive: number;
-  halstead: {
-    vocabulary: number;
-    length: number;
-    difficulty: number;
-    effort: number;
-  };
+  maxNesting: number;
+  halstead: HalsteadMetrics;
   maintainabilityIndex: number;
 }
 
@@ -341,6 +512,7 @@ export type SearchType =
   | 'filename'
   | 'symbol'
   | 'reference'
+  | 'definition'
   | 'semantic';
 
 export interface SearchFilters {
@@ -390,6 +562,132 @@ export interface SearchContext {
   relatedFiles: string[];
 }
 
+export interface CodeChunk {
+  path: string;
+  chunkIndex: number;
+  startLine: number;
+  endLine: number;
+  symbolName?: string; // Declaration the chunk covers, when chunked by symbol
+  language: string;
+  content: string;
+}
+
+export interface SemanticMatch extends CodeChunk {
+  score: number; // Cosine similarity to the query
+}
+
+// =============================================================================
+// DEPENDENCY GRAPH TYPES
+// =============================================================================
+
+export interface DependencyGraph {
+  workspaceId: string;
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  cycles: string[][]; // Files in each import cycle, in import order
+  orphans: string[]; // Source files nothing imports, excluding entry points
+  unresolved: Array<{ from: string; specifier: string }>;
+  generatedAt: Date;
+}
+
+export interface DependencyNode {
+  path: string;
+  language: string;
+  external: string[]; // Package imports outside the workspace
+  dependencyCount: number;
+  dependentCount: number;
+  isEntryPoint: boolean;
+}
+
+export interface DependencyEdge {
+  from: string;
+  to: string;
+  specifier: string;
+}
+
+export interface DependencyImpact {
+  paths: string[];
+  dependencies: string[]; // Direct workspace dependencies of the changed files
+  dependents: Array<{
+    path: string;
+    depth: number; // 1 for direct importers
+    via: string; // The changed or affected file it imports
+  }>;
+  cycles: string[][]; // Cycles that include a changed file
+}
+
+// =============================================================================
+// CODE HEALTH TYPES
+// =============================================================================
+
+export type MaintainabilityRating = 'good' | 'moderate' | 'poor';
+
+export interface CodeHealthReport {
+  workspaceId: string;
+  summary: CodeHealthSummary;
+  hotspots: CodeHotspot[]; // Functions over a complexity threshold, worst first
+  files: FileHealth[]; // Least maintainable first
+  changes: ComplexityChange[]; // Against the baseline snapshot, largest increase first
+  baseline?: {
+    snapshotId: string;
+    name: string;
+    createdAt: Date;
+  };
+  generatedAt: Date;
+}
+
+export interface CodeHealthSummary {
+  files: number;
+  functions: number;
+  linesOfCode: number;
+  cyclomatic: number;
+  cognitive: number;
+  averageMaintainability: number; // Weighted by lines of code
+  complexFunctions: number; // Functions over a complexity threshold
+  ratings: Record<MaintainabilityRating, number>; // File counts
+}
+
+export interface CodeHotspot extends FunctionComplexity {
+  path: string;
+  language: string;
+}
+
+export interface FileHealth {
+  path: string;
+  language: string;
+  linesOfCode: number;
+  cyclomatic: number;
+  cognitive: number;
+  maintainabilityIndex: number;
+  rating: MaintainabilityRating;
+  functions: number;
+  hotspots: string[]; // Names of functions over a complexity threshold
+}
+
+export interface ComplexityChange {
+  path: string;
+  status: 'added' | 'modified' | 'removed';
+  cyclomaticDelta: number;
+  cognitiveDelta: number;
+  linesOfCodeDelta: number;
+  newHotspots: string[];
+  flagged: boolean; // Adds enough complexity to deserve a review
+}
+
+// Stored with each snapshot so the trend needs no archive downloads
+export interface SnapshotCodeHealth {
+  summary: CodeHealthSummary;
+  files: FileHealth[];
+  computedAt: Date;
+}
+
+export interface CodeHealthTrendPoint {
+  snapshotId?: string; // Absent for the current workspace
+  name: string;
+  createdAt: Date;
+  summary: CodeHealthSummary;
+}
+
 // =============================================================================
 // WORKSPACE SYNC TYPES
 // =============================================================================
@@ -405,6 +703,7 @@ export interface WorkspaceSync {
   progress: SyncProgress;
   conflicts: SyncConflict[];
   lastSync: Date;
+  lastError?: string;
   nextSync?: Date;
   settings: SyncSettings;
 }
@@ -428,7 +727,7 @@ export type SyncDirection =
   | 'bidirectional';
 
 export interface SyncEndpoint {
-  type: 'local' | 'remote' | 'git' | 's3' | 'ftp';
+  type: 'workspace' | 'local' | 'remote' | 'git' | 's3' | 'ftp';
   url: string;
   credentials?: Record<string, string>;
   options?: Record<string, any>;
@@ -479,5 +778,81 @@ export interface SyncSettings {
   preserveTimestamps: boolean;
   deleteExtraFiles: boolean;
   retryAttempts: number;
-  retryDelay: number;
+  retryDelay: number; // milliseconds
+  interval?: number; // milliseconds between periodic runs
+}
+
+// =============================================================================
+// THREE-WAY MERGE TYPES
+// =============================================================================
+
+export type MergeRegionType = 'unchanged' | 'resolved' | 'conflict';
+
+export interface MergeRegion {
+  type: MergeRegionType;
+  baseStart: number; // 0-based line index into the base
+  base: string[];
+  local: string[];
+  remote: string[];
+  resolved?: string[]; // Lines chosen for unchanged/resolved regions
+}
+
+export interface MergeResult {
+  clean: boolean;
+  content: string; // Merged text, with conflict markers where unresolved
+  regions: MergeRegion[];
+  conflictCount: number;
+  autoResolvedCount: number;
+}
+
+export interface SyncConflictMerge {
+  conflict: SyncConflict;
+  base: string | null; // Content at the last common revision, if known
+  local: string;
+  remote: string;
+  merge: MergeResult;
+}
+
+// =============================================================================
+// GIT TYPES
+// =============================================================================
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitCommit {
+  oid: string;
+  message: string;
+  author: GitAuthor & { timestamp: Date };
+  parents: string[];
+}
+
+export interface GitBranch {
+  name: string;
+  current: boolean;
+  remote?: string; // Set for remote-tracking branches
+  commit?: string;
+}
+
+export interface GitStash {
+  index: number;
+  message: string;
+  commit: string;
+  date: Date;
+}
+
+export interface GitDiff {
+  path: string;
+  staged: boolean;
+  original: string; // HEAD for staged diffs, index otherwise
+  modified: string; // Index for staged diffs, working tree otherwise
+  patch: string; // Unified diff
+  binary: boolean;
+}
+
+export interface GitRemoteCredentials {
+  username?: string;
+  password?: string; // Password or personal access token
 }
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "WorkspaceFileRevision" (
+    "id" TEXT NOT NULL,
+    "fileId" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "hash" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "storageKey" TEXT NOT NULL,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkspaceFileRevision_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceFileRevision_workspaceId_path_idx" ON "WorkspaceFileRevision"("workspaceId", "path");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WorkspaceFileRevision_fileId_version_key" ON "WorkspaceFileRevision"("fileId", "version");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceFileRevision" ADD CONSTRAINT "WorkspaceFileRevision_fileId_fkey" FOREIGN KEY ("fileId") REFERENCES "WorkspaceFile"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "WorkspaceSnapshot" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "type" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "archiveSize" BIGINT NOT NULL DEFAULT 0,
+    "fileCount" INTEGER NOT NULL,
+    "storageLocation" TEXT NOT NULL,
+    "compression" TEXT NOT NULL DEFAULT 'none',
+    "encryption" JSONB NOT NULL,
+    "metadata" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3),
+
+    CONSTRAINT "WorkspaceSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceSnapshot_workspaceId_createdAt_idx" ON "WorkspaceSnapshot"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceSnapshot_workspaceId_type_idx" ON "WorkspaceSnapshot"("workspaceId", "type");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceSnapshot" ADD CONSTRAINT "WorkspaceSnapshot_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
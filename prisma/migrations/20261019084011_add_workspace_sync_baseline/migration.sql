@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "WorkspaceSync" ADD COLUMN     "baseline" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN     "lastError" TEXT;
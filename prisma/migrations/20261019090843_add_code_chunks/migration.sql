@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "CodeChunk" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "startLine" INTEGER NOT NULL,
+    "endLine" INTEGER NOT NULL,
+    "symbolName" TEXT,
+    "language" TEXT NOT NULL,
+    "content" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "embedding" DOUBLE PRECISION[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CodeChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "CodeChunk_workspaceId_provider_idx" ON "CodeChunk"("workspaceId", "provider");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CodeChunk_workspaceId_path_chunkIndex_key" ON "CodeChunk"("workspaceId", "path", "chunkIndex");
+
+-- AddForeignKey
+ALTER TABLE "CodeChunk" ADD CONSTRAINT "CodeChunk_workspaceId_path_fkey" FOREIGN KEY ("workspaceId", "path") REFERENCES "WorkspaceFile"("workspaceId", "path") ON DELETE CASCADE ON UPDATE CASCADE;
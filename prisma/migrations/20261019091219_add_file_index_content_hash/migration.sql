@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "FileIndex" ADD COLUMN     "contentHash" TEXT;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "WorkspaceTrashItem" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "path" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDirectory" BOOLEAN NOT NULL DEFAULT false,
+    "fileCount" INTEGER NOT NULL,
+    "size" BIGINT NOT NULL,
+    "entries" JSONB NOT NULL,
+    "deletedBy" TEXT,
+    "deletedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WorkspaceTrashItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkspaceTrashItem_workspaceId_deletedAt_idx" ON "WorkspaceTrashItem"("workspaceId", "deletedAt");
+
+-- CreateIndex
+CREATE INDEX "WorkspaceTrashItem_expiresAt_idx" ON "WorkspaceTrashItem"("expiresAt");
+
+-- AddForeignKey
+ALTER TABLE "WorkspaceTrashItem" ADD CONSTRAINT "WorkspaceTrashItem_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "storageQuota" BIGINT;
+
+-- AlterTable
+ALTER TABLE "WorkspacePersistence" ADD COLUMN     "storageQuota" BIGINT;
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "PyodidePackageApproval" (
+    "name" TEXT NOT NULL,
+    "versions" TEXT[],
+    "note" TEXT,
+    "approvedBy" TEXT NOT NULL,
+    "approvedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PyodidePackageApproval_pkey" PRIMARY KEY ("name")
+);
+
+-- CreateTable
+CREATE TABLE "PyodideWheel" (
+    "filename" TEXT NOT NULL,
+    "packageName" TEXT NOT NULL,
+    "version" TEXT NOT NULL,
+    "sha256" TEXT NOT NULL,
+    "size" BIGINT NOT NULL,
+    "requiresPython" TEXT,
+    "storageKey" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PyodideWheel_pkey" PRIMARY KEY ("filename")
+);
+
+-- CreateIndex
+CREATE INDEX "PyodideWheel_packageName_idx" ON "PyodideWheel"("packageName");
@@ -0,0 +1,26 @@
+#!/usr/bin/env tsx
+/**
+ * Workspace Index Worker Runner
+ * Processes queued file index jobs until the process is stopped
+ */
+
+import { indexWorker } from '../lib/workspace/services/index-worker';
+
+async function main() {
+  console.log('🔎 Starting workspace index worker...');
+  await indexWorker.start();
+
+  const shutdown = async () => {
+    console.log('\n🛑 Stopping workspace index worker...');
+    await indexWorker.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch(error => {
+  console.error('Index worker failed to start:', error);
+  process.exit(1);
+});
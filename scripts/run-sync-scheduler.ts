@@ -0,0 +1,23 @@
+#!/usr/bin/env tsx
+/**
+ * Workspace Sync Scheduler Runner
+ * Runs due WorkspaceSync jobs until the process is stopped
+ */
+
+import { syncScheduler } from '../lib/workspace/services/sync-scheduler';
+
+function main() {
+  console.log('🔄 Starting workspace sync scheduler...');
+  syncScheduler.start();
+
+  const shutdown = () => {
+    console.log('\n🛑 Stopping workspace sync scheduler...');
+    syncScheduler.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -0,0 +1,23 @@
+#!/usr/bin/env tsx
+/**
+ * Workspace Trash Cleanup Runner
+ * Purges expired trash items until the process is stopped
+ */
+
+import { trashCleanup } from '../lib/workspace/services/trash-cleanup';
+
+function main() {
+  console.log('🗑️  Starting workspace trash cleanup...');
+  trashCleanup.start();
+
+  const shutdown = () => {
+    console.log('\n🛑 Stopping workspace trash cleanup...');
+    trashCleanup.stop();
+    process.exit(0);
+  };
+
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main();
@@ -241,6 +241,7 @@ class ProjectSeeder {
     // Determine file type and MIME type
     const mimeTypeMap: Record<string, string> = {
       'py': 'text/x-python',
+      'ipynb': 'application/x-ipynb+json',
       'md': 'text/markdown',
       'txt': 'text/plain',
       'json': 'application/json',